@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { deleteUserData } from "@/lib/auth/user-sync";
+import { authRateLimit } from "@/lib/security/rate-limit";
+
+const eraseSchema = z.object({
+  // Guards against accidental calls; must be sent verbatim
+  confirm: z.literal('ERASE'),
+  // Also close the sign-in account; otherwise only Tripthesia data is wiped
+  deleteAccount: z.boolean().default(false),
+});
+
+// POST: Erase everything stored about the caller and report what was removed
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await authRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { deleteAccount } = eraseSchema.parse(body);
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const report = await deleteUserData(userId);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Failed to erase account data' },
+        { status: 500 }
+      );
+    }
+
+    let accountDeleted = false;
+    if (deleteAccount) {
+      try {
+        // Clerk's user.deleted webhook then finds nothing left to remove
+        await clerkClient().users.deleteUser(userId);
+        accountDeleted = true;
+      } catch (error) {
+        console.error('Failed to delete Clerk account after erasure:', error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      erasedAt: new Date().toISOString(),
+      accountDeleted,
+      deleted: report.deleted,
+      anonymized: report.anonymized,
+    });
+
+  } catch (error) {
+    console.error('Failed to erase account data:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid erasure request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to erase account data' },
+      { status: 500 }
+    );
+  }
+}
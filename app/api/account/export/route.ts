@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { exportUserData } from "@/lib/auth/data-export";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// GET: Download everything stored about the caller as a JSON archive
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const archive = await exportUserData(userId);
+
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const filename = `tripthesia-data-${archive.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to export account data:', error);
+    return NextResponse.json(
+      { error: 'Failed to export account data' },
+      { status: 500 }
+    );
+  }
+}
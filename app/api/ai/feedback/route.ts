@@ -9,16 +9,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { DynamicLearningEngine, FeedbackSchema, UserFeedback } from '@/lib/ai/dynamic-learning-engine';
-
-// Rate limiting for feedback (more generous than generation)
-const RATE_LIMITS = {
-  free: { requests: 50, window: 24 * 60 * 60 * 1000 }, // 50 per day
-  starter: { requests: 150, window: 24 * 60 * 60 * 1000 }, // 150 per day
-  pro: { requests: 500, window: 24 * 60 * 60 * 1000 } // 500 per day
-};
-
-// Request tracking for rate limiting
-const requestCounts = new Map<string, { count: number; resetAt: number }>();
+import { createRateLimit } from '@/lib/security/rate-limit';
+
+// Rate limiting for feedback (more generous than generation), per day
+const feedbackRateLimit = createRateLimit({
+  name: 'ai-feedback',
+  windowMs: 24 * 60 * 60 * 1000,
+  maxRequests: { free: 50, starter: 150, pro: 500 },
+  message: 'Too many feedback submissions, please try again later.',
+});
 
 // Batch feedback schema for multiple feedback items
 const BatchFeedbackSchema = z.object({
@@ -82,17 +81,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Check rate limits
-    const rateLimitCheck = checkRateLimit(userId, 'free'); // Default to free tier for feedback
-    if (!rateLimitCheck.allowed) {
-      return NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          code: 'RATE_LIMIT_EXCEEDED',
-          resetAt: rateLimitCheck.resetAt,
-          maxRequests: rateLimitCheck.maxRequests
-        },
-        { status: 429 }
-      );
+    const rateLimitResponse = await feedbackRateLimit(request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
     }
 
     const body = await request.json();
@@ -163,9 +154,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Increment rate limit counter
-    incrementRateLimit(userId);
-
     // Build response
     const response = {
       success: results.every(r => r.success),
@@ -389,50 +377,6 @@ export async function PUT(request: NextRequest) {
 
 // ==================== HELPER FUNCTIONS ====================
 
-/**
- * Check rate limiting for feedback
- */
-function checkRateLimit(userId: string, tier: string): {
-  allowed: boolean;
-  currentCount: number;
-  maxRequests: number;
-  resetAt: number;
-} {
-  const limits = RATE_LIMITS[tier as keyof typeof RATE_LIMITS] || RATE_LIMITS.free;
-  const now = Date.now();
-  
-  const userKey = `${userId}_feedback`;
-  let userData = requestCounts.get(userKey);
-  
-  if (!userData || userData.resetAt <= now) {
-    userData = {
-      count: 0,
-      resetAt: now + limits.window
-    };
-    requestCounts.set(userKey, userData);
-  }
-  
-  return {
-    allowed: userData.count < limits.requests,
-    currentCount: userData.count,
-    maxRequests: limits.requests,
-    resetAt: userData.resetAt
-  };
-}
-
-/**
- * Increment rate limit counter
- */
-function incrementRateLimit(userId: string): void {
-  const userKey = `${userId}_feedback`;
-  const userData = requestCounts.get(userKey);
-  
-  if (userData) {
-    userData.count += 1;
-    requestCounts.set(userKey, userData);
-  }
-}
-
 /**
  * Interpret satisfaction prediction score
  */
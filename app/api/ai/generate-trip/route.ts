@@ -3,6 +3,11 @@ import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { withAISubscriptionCheck, getAIAccess } from '@/lib/subscription/ai-restrictions';
 import { AdvancedAIService, TripPreferencesSchema, TripPreferences } from '@/lib/ai/advanced-ai-service';
+import { requireTripRole } from '@/lib/auth/trip-access';
+import { appendItineraryVersion } from '@/lib/planning/itinerary-versions';
+import { resetItineraryOpLog } from '@/lib/collaboration/itinerary-op-log';
+import { deepSanitize } from '@/lib/security/sanitize';
+import { emitCacheEvent } from '@/lib/cache/namespaces';
 
 // Legacy input schema for backward compatibility
 const generateTripSchema = z.object({
@@ -18,6 +23,11 @@ const generateTripSchema = z.object({
   specialRequests: z.string().optional(),
 });
 
+// Generating for a saved trip records the result as its next itinerary version
+const generationTargetSchema = z.object({
+  tripId: z.string().uuid().optional(),
+});
+
 // Enhanced schema using AdvancedAIService types
 const enhancedTripSchema = z.union([
   generateTripSchema,
@@ -84,6 +94,36 @@ try {
   console.error('Failed to initialize AI service:', error);
 }
 
+// Append a generation to the trip's itinerary history
+async function saveGeneratedVersion(
+  tripId: string,
+  userId: string,
+  data: unknown,
+  aiModel?: string,
+  generationTime?: number
+) {
+  const itinerary = await appendItineraryVersion(tripId, {
+    data: deepSanitize(data),
+    source: 'generated',
+    createdBy: userId,
+    aiModel,
+    generationTime,
+  });
+
+  if (itinerary) {
+    await resetItineraryOpLog(tripId);
+    await emitCacheEvent('trip.updated', { tripId });
+  }
+  return itinerary;
+}
+
+function versionSaveFailed() {
+  return NextResponse.json(
+    { error: 'Failed to save generated itinerary' },
+    { status: 500 }
+  );
+}
+
 // Convert legacy input to TripPreferences
 function convertLegacyInput(input: TripGenerationInput): TripPreferences {
   const startDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // Start in 7 days
@@ -176,6 +216,14 @@ export async function POST(request: NextRequest) {
 
       // Parse and validate request body
       const body = await request.json();
+      const { tripId } = generationTargetSchema.parse(body);
+
+      if (tripId) {
+        const access = await requireTripRole(tripId, userId, 'editor');
+        if (access.response) {
+          return access.response;
+        }
+      }
       
       // Check if personalized generation is requested and available
       const shouldUsePersonalized = body.personalized === true || body.usePersonalization === true;
@@ -200,6 +248,14 @@ export async function POST(request: NextRequest) {
           
           if (personalizedRequest.ok) {
             const personalizedResult = await personalizedRequest.json();
+            if (tripId) {
+              const provider = personalizedResult.metadata?.provider;
+              const saved = await saveGeneratedVersion(tripId, userId, personalizedResult, typeof provider === 'string' ? provider : undefined);
+              if (!saved) {
+                return versionSaveFailed();
+              }
+              personalizedResult.metadata = { ...personalizedResult.metadata, itineraryVersion: saved.version };
+            }
             return NextResponse.json(personalizedResult);
           } else {
             console.warn('Personalized trip generation failed, falling back to standard generation');
@@ -248,6 +304,13 @@ export async function POST(request: NextRequest) {
         }, { status: 500 });
       }
 
+      const saved = tripId
+        ? await saveGeneratedVersion(tripId, userId, response.data, response.provider, generationTime)
+        : null;
+      if (tripId && !saved) {
+        return versionSaveFailed();
+      }
+
       // Convert to legacy format for backward compatibility
       const legacyResponse = convertToLegacyFormat(response.data!);
 
@@ -264,7 +327,8 @@ export async function POST(request: NextRequest) {
           remainingGenerations: userInfo.limits.aiGenerationsPerTrip - 1,
           upgradeAvailable: userInfo.tier !== 'pro',
           version: '4.2.0',
-          enhanced: true // Indicates use of AdvancedAIService
+          enhanced: true, // Indicates use of AdvancedAIService
+          ...(saved && { itineraryVersion: saved.version })
         },
         // Include original AdvancedAI response for enhanced clients
         enhanced: {
@@ -300,7 +364,7 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, 'generate-trip');
 }
 
 // Convert AdvancedAI response to legacy format for backward compatibility
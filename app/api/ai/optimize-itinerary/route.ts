@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { withAISubscriptionCheck } from '@/lib/subscription/ai-restrictions';
+import { CacheTags, defineCacheNamespace } from '@/lib/cache/namespaces';
 import { 
   AdvancedAIService, 
   GeneratedItinerarySchema,
@@ -27,7 +28,15 @@ const OptimizeItineraryRequestSchema = z.object({
 const OPTIMIZATION_RATE_LIMIT = 5; // requests per hour per user
 const CACHE_DURATION = 60 * 60 * 1000; // 1 hour (optimization is expensive)
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
-const responseCache = new Map<string, { data: any; timestamp: number }>();
+
+const optimizationCache = defineCacheNamespace<
+  { userId: string; itineraryId: string; goals: string[]; constraints: string[] },
+  Record<string, any>
+>({
+  name: 'ai-optimize-itinerary',
+  ttl: CACHE_DURATION / 1000,
+  tags: key => [CacheTags.user(key.userId)]
+});
 
 // Initialize AI service
 let aiService: AdvancedAIService;
@@ -90,25 +99,6 @@ export async function POST(request: NextRequest) {
 
       const { currentItinerary, optimizationGoals, constraints, requestId } = optimizationRequest;
 
-      // Generate cache key
-      const cacheKey = `${userId}_${JSON.stringify({ 
-        itineraryId: currentItinerary.metadata?.generatedAt || 'unknown',
-        goals: optimizationGoals.sort(),
-        constraints: constraints?.sort() || []
-      })}`;
-      const cachedResponse = responseCache.get(cacheKey);
-      
-      // Return cached response if available and not expired
-      if (cachedResponse && (now - cachedResponse.timestamp) < CACHE_DURATION) {
-        console.log('Returning cached optimization result');
-        return NextResponse.json({
-          success: true,
-          ...cachedResponse.data,
-          cached: true,
-          requestId
-        });
-      }
-
       // Validate optimization goals
       const validGoals = [
         'reduce_cost',
@@ -139,78 +129,95 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
-      // Log request for analytics
-      console.log('AI Itinerary Optimization Request:', {
-        destination: currentItinerary.title,
-        duration: currentItinerary.totalDuration,
-        originalCost: currentItinerary.estimatedCost.total,
-        goals: optimizationGoals,
-        constraints: constraints?.length || 0,
-        tier: userInfo.tier,
-        userId: userInfo.tier, // Don't expose actual userId
-        requestId
-      });
+      const cacheKey = {
+        userId,
+        itineraryId: currentItinerary.metadata?.generatedAt || 'unknown',
+        goals: [...optimizationGoals].sort(),
+        constraints: [...(constraints || [])].sort()
+      };
 
-      // Optimize itinerary using AdvancedAIService
-      const startTime = Date.now();
-      const response = await aiService.optimizeItinerary(
-        currentItinerary,
-        optimizationGoals,
-        constraints
-      );
-      const optimizationTime = Date.now() - startTime;
+      let result;
+      try {
+        result = await optimizationCache.fetch(cacheKey, async () => {
+          // Log request for analytics
+          console.log('AI Itinerary Optimization Request:', {
+            destination: currentItinerary.title,
+            duration: currentItinerary.totalDuration,
+            originalCost: currentItinerary.estimatedCost.total,
+            goals: optimizationGoals,
+            constraints: constraints?.length || 0,
+            tier: userInfo.tier,
+            userId: userInfo.tier, // Don't expose actual userId
+            requestId
+          });
+
+          // Optimize itinerary using AdvancedAIService
+          const startTime = Date.now();
+          const response = await aiService.optimizeItinerary(
+            currentItinerary,
+            optimizationGoals,
+            constraints
+          );
+          const optimizationTime = Date.now() - startTime;
+
+          if (!response.success) {
+            throw new Error(response.error || 'Failed to optimize itinerary');
+          }
 
-      if (!response.success) {
+          // Calculate optimization impact
+          const optimizationImpact = calculateOptimizationImpact(
+            currentItinerary,
+            response.data!,
+            optimizationGoals
+          );
+
+          return {
+            optimizedItinerary: response.data!,
+            optimization: {
+              goals: optimizationGoals,
+              constraints: constraints || [],
+              impact: optimizationImpact,
+              summary: generateOptimizationSummary(optimizationImpact, optimizationGoals)
+            },
+            metadata: {
+              optimizedAt: new Date().toISOString(),
+              optimizationTime,
+              provider: response.provider,
+              usage: response.usage,
+              cost: response.cost,
+              tier: userInfo.tier,
+              remainingOptimizations: OPTIMIZATION_RATE_LIMIT - (userData?.count || 1),
+              upgradeAvailable: userInfo.tier !== 'pro',
+              version: '4.2.0',
+              requestId
+            }
+          };
+        });
+      } catch (optimizationError) {
         return NextResponse.json({
           success: false,
-          error: response.error || 'Failed to optimize itinerary',
+          error: optimizationError instanceof Error ? optimizationError.message : 'Failed to optimize itinerary',
           code: 'OPTIMIZATION_FAILED',
           requestId
         }, { status: 500 });
       }
 
-      // Calculate optimization impact
-      const optimizationImpact = calculateOptimizationImpact(
-        currentItinerary,
-        response.data!,
-        optimizationGoals
-      );
-
-      // Prepare response data
-      const responseData = {
-        optimizedItinerary: response.data!,
-        optimization: {
-          goals: optimizationGoals,
-          constraints: constraints || [],
-          impact: optimizationImpact,
-          summary: generateOptimizationSummary(optimizationImpact, optimizationGoals)
-        },
-        metadata: {
-          optimizedAt: new Date().toISOString(),
-          optimizationTime,
-          provider: response.provider,
-          usage: response.usage,
-          cost: response.cost,
-          tier: userInfo.tier,
-          remainingOptimizations: OPTIMIZATION_RATE_LIMIT - (userData?.count || 1),
-          upgradeAvailable: userInfo.tier !== 'pro',
-          version: '4.2.0',
+      if (result.status !== 'miss') {
+        console.log('Returning cached optimization result');
+        return NextResponse.json({
+          success: true,
+          ...result.value,
+          cached: true,
           requestId
-        }
-      };
-
-      // Cache the response
-      responseCache.set(cacheKey, {
-        data: responseData,
-        timestamp: now
-      });
+        });
+      }
 
-      // Clean up old cache entries
-      cleanupCache();
+      // Clean up expired rate limit entries
+      cleanupRateLimits();
 
       return NextResponse.json({
         success: true,
-        ...responseData
+        ...result.value
       });
 
     } catch (error) {
@@ -234,7 +241,7 @@ export async function POST(request: NextRequest) {
         code: 'INTERNAL_ERROR'
       }, { status: 500 });
     }
-  });
+  }, 'optimize-itinerary');
 }
 
 export async function GET(request: NextRequest) {
@@ -389,21 +396,13 @@ function findImprovedActivities(original: GeneratedItinerary, optimized: Generat
   return [];
 }
 
-// Utility function to clean up expired cache entries
-function cleanupCache() {
+// Utility function to clean up expired rate limit entries
+function cleanupRateLimits() {
   const now = Date.now();
   
-  // Clean up response cache
-  for (const [key, value] of responseCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      responseCache.delete(key);
-    }
-  }
-  
-  // Clean up rate limiting data
   for (const [key, data] of requestCounts.entries()) {
     if (now > data.resetTime) {
       requestCounts.delete(key);
     }
   }
-}
\ No newline at end of file
+}
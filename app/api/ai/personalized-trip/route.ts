@@ -201,7 +201,7 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, 'personalized-trip');
 }
 
 /**
@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { withAISubscriptionCheck } from '@/lib/subscription/ai-restrictions';
+import { CacheTags, defineCacheNamespace } from '@/lib/cache/namespaces';
 import { 
   AdvancedAIService, 
   RecommendationRequestSchema, 
@@ -18,7 +19,13 @@ import {
 const RECOMMENDATION_RATE_LIMIT = 20; // requests per hour per user
 const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
 const requestCounts = new Map<string, { count: number; resetTime: number }>();
-const responseCache = new Map<string, { data: any; timestamp: number }>();
+
+// Keyed by the full request, which includes the user ID
+const recommendationsCache = defineCacheNamespace<RecommendationRequest, Record<string, any>>({
+  name: 'ai-recommendations',
+  ttl: CACHE_DURATION / 1000,
+  tags: request => (request.userId ? [CacheTags.user(request.userId)] : [])
+});
 
 // Initialize AI service
 let aiService: AdvancedAIService;
@@ -79,70 +86,65 @@ export async function POST(request: NextRequest) {
         userId // Add userId to request
       });
 
-      // Generate cache key
-      const cacheKey = `${userId}_${JSON.stringify(recommendationRequest)}`;
-      const cachedResponse = responseCache.get(cacheKey);
-      
-      // Return cached response if available and not expired
-      if (cachedResponse && (now - cachedResponse.timestamp) < CACHE_DURATION) {
-        console.log('Returning cached recommendations');
-        return NextResponse.json({
-          success: true,
-          ...cachedResponse.data,
-          cached: true
-        });
-      }
-
-      // Log request for analytics
-      console.log('AI Recommendations Request:', {
-        location: recommendationRequest.context.location,
-        type: recommendationRequest.type,
-        categories: recommendationRequest.preferences.categories,
-        priceRange: recommendationRequest.preferences.priceRange,
-        tier: userInfo.tier,
-        userId: userInfo.tier // Don't expose actual userId
-      });
-
-      // Get recommendations using AdvancedAIService
-      const startTime = Date.now();
-      const response = await aiService.getRecommendations(recommendationRequest);
-      const generationTime = Date.now() - startTime;
+      let result;
+      try {
+        result = await recommendationsCache.fetch(recommendationRequest, async () => {
+          // Log request for analytics
+          console.log('AI Recommendations Request:', {
+            location: recommendationRequest.context.location,
+            type: recommendationRequest.type,
+            categories: recommendationRequest.preferences.categories,
+            priceRange: recommendationRequest.preferences.priceRange,
+            tier: userInfo.tier,
+            userId: userInfo.tier // Don't expose actual userId
+          });
+
+          // Get recommendations using AdvancedAIService
+          const startTime = Date.now();
+          const response = await aiService.getRecommendations(recommendationRequest);
+          const generationTime = Date.now() - startTime;
+
+          if (!response.success) {
+            throw new Error(response.error || 'Failed to get recommendations');
+          }
 
-      if (!response.success) {
+          return {
+            recommendations: response.data!.recommendations,
+            insights: response.data!.insights,
+            metadata: {
+              ...response.data!.metadata,
+              generationTime,
+              tier: userInfo.tier,
+              remainingRequests: RECOMMENDATION_RATE_LIMIT - (userData?.count || 1),
+              upgradeAvailable: userInfo.tier !== 'pro',
+              version: '4.2.0',
+              enhanced: true
+            }
+          };
+        });
+      } catch (generationError) {
         return NextResponse.json({
           success: false,
-          error: response.error || 'Failed to get recommendations',
+          error: generationError instanceof Error ? generationError.message : 'Failed to get recommendations',
           code: 'GENERATION_FAILED'
         }, { status: 500 });
       }
 
-      // Prepare response data
-      const responseData = {
-        recommendations: response.data!.recommendations,
-        insights: response.data!.insights,
-        metadata: {
-          ...response.data!.metadata,
-          generationTime,
-          tier: userInfo.tier,
-          remainingRequests: RECOMMENDATION_RATE_LIMIT - (userData?.count || 1),
-          upgradeAvailable: userInfo.tier !== 'pro',
-          version: '4.2.0',
-          enhanced: true
-        }
-      };
-
-      // Cache the response
-      responseCache.set(cacheKey, {
-        data: responseData,
-        timestamp: now
-      });
+      if (result.status !== 'miss') {
+        console.log('Returning cached recommendations');
+        return NextResponse.json({
+          success: true,
+          ...result.value,
+          cached: true
+        });
+      }
 
-      // Clean up old cache entries
-      cleanupCache();
+      // Clean up expired rate limit entries
+      cleanupRateLimits();
 
       return NextResponse.json({
         success: true,
-        ...responseData
+        ...result.value
       });
 
     } catch (error) {
@@ -166,7 +168,7 @@ export async function POST(request: NextRequest) {
         code: 'INTERNAL_ERROR'
       }, { status: 500 });
     }
-  });
+  }, 'recommendations');
 }
 
 export async function GET(request: NextRequest) {
@@ -232,21 +234,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Utility function to clean up expired cache entries
-function cleanupCache() {
+// Utility function to clean up expired rate limit entries
+function cleanupRateLimits() {
   const now = Date.now();
   
-  // Clean up response cache
-  for (const [key, value] of responseCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      responseCache.delete(key);
-    }
-  }
-  
-  // Clean up rate limiting data
   for (const [key, data] of requestCounts.entries()) {
     if (now > data.resetTime) {
       requestCounts.delete(key);
     }
   }
-}
\ No newline at end of file
+}
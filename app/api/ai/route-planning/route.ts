@@ -9,13 +9,20 @@ import { z } from 'zod';
 import { AIRoutePlanner, type RouteQuery } from '@/lib/ai/route-planner';
 import { GoogleMapsProvider } from '@/lib/services/google-maps-provider';
 import { POIDetector } from '@/lib/services/poi-detector';
+import { createRateLimit } from '@/lib/security/rate-limit';
 
-// Rate limiting and caching
-const RATE_LIMIT = {
-  requests: 10, // requests per hour per user
-  window: 3600000, // 1 hour in milliseconds
+// Route planning budget, per user per hour
+const ROUTE_PLANNING_BUDGET = {
+  windowMs: 60 * 60 * 1000,
+  maxRequests: { free: 10, starter: 30, pro: 60 },
 };
 
+const routePlanningRateLimit = createRateLimit({
+  name: 'ai-route-planning',
+  ...ROUTE_PLANNING_BUDGET,
+  message: 'Too many route planning requests, please try again later.',
+});
+
 // Request validation schema
 const RouteRequestSchema = z.object({
   startLocation: z.string().min(1, 'Start location is required'),
@@ -75,27 +82,6 @@ function createSuccessResponse(data: any) {
   );
 }
 
-// Rate limiting check (simplified - would use Redis in production)
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now();
-  const userLimit = requestCounts.get(userId);
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    // Reset or initialize limit
-    requestCounts.set(userId, { count: 1, resetTime: now + RATE_LIMIT.window });
-    return { allowed: true };
-  }
-  
-  if (userLimit.count >= RATE_LIMIT.requests) {
-    return { allowed: false, resetTime: userLimit.resetTime };
-  }
-  
-  userLimit.count++;
-  return { allowed: true };
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Authentication check
@@ -105,18 +91,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting
-    const rateLimit = checkRateLimit(userId);
-    if (!rateLimit.allowed) {
-      const resetTime = rateLimit.resetTime ? new Date(rateLimit.resetTime).toISOString() : undefined;
-      return NextResponse.json(
-        {
-          error: 'Rate limit exceeded',
-          message: `Too many requests. Limit: ${RATE_LIMIT.requests} requests per hour`,
-          resetTime,
-          timestamp: new Date().toISOString()
-        },
-        { status: 429 }
-      );
+    const rateLimitResponse = await routePlanningRateLimit(request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
     }
 
     // Parse and validate request body
@@ -220,8 +197,8 @@ export async function GET() {
       googleMaps: !!process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY,
     },
     rateLimit: {
-      requests: RATE_LIMIT.requests,
-      window: `${RATE_LIMIT.window / 1000 / 60} minutes`,
+      requests: ROUTE_PLANNING_BUDGET.maxRequests,
+      window: `${ROUTE_PLANNING_BUDGET.windowMs / 1000 / 60} minutes`,
     },
     timestamp: new Date().toISOString(),
   };
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { cancelBooking } from "@/lib/booking/bookings";
+import { bookingResultResponse, readIdempotencyKey } from "@/lib/booking/api-responses";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+const cancelSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// POST: Cancel a booking, releasing holds or cancelling with providers
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const idempotency = readIdempotencyKey(request);
+    if (idempotency.response) {
+      return idempotency.response;
+    }
+
+    const { reason } = cancelSchema.parse(await request.json().catch(() => ({})));
+    const result = await cancelBooking(userId, params.id, idempotency.key, reason);
+    return bookingResultResponse(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid cancellation request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to cancel booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel booking' },
+      { status: 500 }
+    );
+  }
+}
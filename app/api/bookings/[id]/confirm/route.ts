@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { confirmBooking } from "@/lib/booking/bookings";
+import { bookingResultResponse, readIdempotencyKey } from "@/lib/booking/api-responses";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// POST: Re-validate prices and confirm a held booking. Answers 409 with the
+// new prices when they changed; confirming again accepts them.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const idempotency = readIdempotencyKey(request);
+    if (idempotency.response) {
+      return idempotency.response;
+    }
+
+    const result = await confirmBooking(userId, params.id, idempotency.key);
+    return bookingResultResponse(result);
+  } catch (error) {
+    console.error('Failed to confirm booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm booking' },
+      { status: 500 }
+    );
+  }
+}
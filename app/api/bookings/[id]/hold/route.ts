@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { holdBooking } from "@/lib/booking/bookings";
+import { bookingResultResponse, readIdempotencyKey } from "@/lib/booking/api-responses";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// POST: Hold every item with its provider while the traveller checks out
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const idempotency = readIdempotencyKey(request);
+    if (idempotency.response) {
+      return idempotency.response;
+    }
+
+    const result = await holdBooking(userId, params.id, idempotency.key);
+    return bookingResultResponse(result);
+  } catch (error) {
+    console.error('Failed to hold booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to hold booking' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { bookingTravelerSchema, modifyBooking } from "@/lib/booking/bookings";
+import { bookingResultResponse, readIdempotencyKey } from "@/lib/booking/api-responses";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+const modifySchema = z.object({
+  itemId: z.string().uuid(),
+  changes: z.object({
+    offerId: z.string().min(1).max(255).optional(),
+    details: z.record(z.unknown()).optional(),
+  }),
+  travelers: z.array(bookingTravelerSchema).min(1).max(9).optional(),
+});
+
+// POST: Change one confirmed item of a booking with its provider
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const idempotency = readIdempotencyKey(request);
+    if (idempotency.response) {
+      return idempotency.response;
+    }
+
+    const input = modifySchema.parse(await request.json());
+    const result = await modifyBooking(userId, params.id, { ...input, idempotencyKey: idempotency.key });
+    return bookingResultResponse(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid modification request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to modify booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to modify booking' },
+      { status: 500 }
+    );
+  }
+}
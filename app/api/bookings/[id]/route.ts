@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { getBooking, serializeBooking } from "@/lib/booking/bookings";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// GET: A booking with its items
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const booking = await getBooking(userId, params.id);
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, booking: serializeBooking(booking) });
+  } catch (error) {
+    console.error('Failed to fetch booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch booking' },
+      { status: 500 }
+    );
+  }
+}
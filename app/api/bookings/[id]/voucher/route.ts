@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { getBooking } from "@/lib/booking/bookings";
+import { generateBookingVoucher } from "@/lib/booking/vouchers";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// GET: Voucher PDF for a confirmed booking
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const booking = await getBooking(userId, params.id);
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const voucher = await generateBookingVoucher(booking);
+
+    if (!voucher) {
+      return NextResponse.json(
+        { error: 'Voucher not available', details: `Booking is ${booking.booking.status}` },
+        { status: 409 }
+      );
+    }
+
+    return new NextResponse(voucher.data, {
+      headers: {
+        'Content-Type': voucher.mimeType,
+        'Content-Disposition': `attachment; filename="${voucher.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to generate booking voucher:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate booking voucher' },
+      { status: 500 }
+    );
+  }
+}
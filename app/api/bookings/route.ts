@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { bookingTravelerSchema, createBookingQuote, listBookings, serializeBooking } from "@/lib/booking/bookings";
+import { bookingResultResponse, readIdempotencyKey } from "@/lib/booking/api-responses";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const quoteSchema = z.object({
+  tripId: z.string().uuid().optional(),
+  currency: z.string().length(3).optional(),
+  contactEmail: z.string().email().optional(),
+  travelers: z.array(bookingTravelerSchema).min(1).max(9),
+  items: z.array(z.object({
+    providerId: z.string().min(1).max(64),
+    kind: z.enum(['flight', 'hotel', 'car_rental', 'activity', 'train', 'bus']),
+    offerId: z.string().min(1).max(255),
+    title: z.string().max(200).optional(),
+    listedPrice: z.object({
+      amount: z.number().nonnegative(),
+      currency: z.string().length(3),
+    }).optional(),
+    details: z.record(z.unknown()).optional(),
+  })).min(1).max(10),
+});
+
+// GET: List the current user's bookings, optionally for one trip
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const tripId = request.nextUrl.searchParams.get('tripId') || undefined;
+    if (tripId && !z.string().uuid().safeParse(tripId).success) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    const bookings = await listBookings(userId, { tripId });
+
+    return NextResponse.json({
+      success: true,
+      bookings: bookings.map(serializeBooking),
+    });
+  } catch (error) {
+    console.error('Failed to list bookings:', error);
+    return NextResponse.json(
+      { error: 'Failed to list bookings' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Quote offers with their providers and start a booking. Requires an
+// Idempotency-Key header; repeating it returns the same booking.
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const idempotency = readIdempotencyKey(request);
+    if (idempotency.response) {
+      return idempotency.response;
+    }
+
+    const input = quoteSchema.parse(await request.json());
+
+    if (input.tripId) {
+      const access = await requireTripRole(input.tripId, userId, 'editor');
+      if (access.response) {
+        return access.response;
+      }
+    }
+
+    const result = await createBookingQuote(userId, { ...input, idempotencyKey: idempotency.key });
+    return bookingResultResponse(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid booking request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to create booking:', error);
+    return NextResponse.json(
+      { error: 'Failed to create booking' },
+      { status: 500 }
+    );
+  }
+}
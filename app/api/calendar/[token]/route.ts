@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { renderTripCalendar, resolveCalendarFeed, touchCalendarFeed } from "@/lib/calendar/trip-feed";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// GET: Public iCalendar feed behind a secret token. Calendar apps poll it
+// without cookies, so the token is the only credential.
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    // Some clients only subscribe to URLs that look like a calendar file
+    const token = params.token.replace(/\.ics$/i, '');
+    const feed = await resolveCalendarFeed(token);
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const calendar = await renderTripCalendar(feed);
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    await touchCalendarFeed(feed.id);
+
+    const etag = `"${createHash('sha256').update(calendar.body).digest('base64url').slice(0, 27)}"`;
+    const headers = {
+      'ETag': etag,
+      'Last-Modified': calendar.lastModified.toUTCString(),
+      'Cache-Control': 'private, max-age=300',
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(calendar.body, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="trip.ics"',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to render calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to render calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -23,6 +23,7 @@ import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { createCarRentalSearchService, CarRentalSearchQuery } from '@/lib/services/car-rental-search';
 import { APIMonitor } from '@/lib/monitoring/api-monitor';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceededResponse, type RateLimitOptions } from '@/lib/security/rate-limit';
 
 // ==================== REQUEST VALIDATION ====================
 
@@ -76,35 +77,14 @@ const CarRentalSearchRequestSchema = z.object({
 
 // ==================== RATE LIMITING ====================
 
-const RATE_LIMIT_CONFIG = {
+// Car rental searches per user (or IP when signed out) per 15 minutes
+const CAR_RENTAL_SEARCH_RATE_LIMIT: RateLimitOptions = {
+  name: 'car-rental-search',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 15, // 15 car rental searches per 15 minutes per IP
+  maxRequests: { free: 15, starter: 45, pro: 90 },
   message: 'Too many car rental search requests, please try again later'
 };
 
-// In-memory rate limiting store (use Redis in production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(identifier: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(identifier);
-  
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.windowMs
-    });
-    return true;
-  }
-  
-  if (record.count >= RATE_LIMIT_CONFIG.maxRequests) {
-    return false;
-  }
-  
-  record.count++;
-  return true;
-}
-
 // Simple logging function
 async function logApiRequest(logData: any) {
   console.log('[Car Rental API Request]', {
@@ -163,14 +143,15 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Extract client IP for rate limiting
+    // Extract client IP for request logging
     const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
                      request.headers.get('x-real-ip') || 
                      request.headers.get('cf-connecting-ip') ||
                      'unknown';
 
     // Rate limiting
-    if (!checkRateLimit(clientIP)) {
+    const rateLimit = await checkRateLimit(request, CAR_RENTAL_SEARCH_RATE_LIMIT);
+    if (!rateLimit.allowed) {
       await logApiRequest({
         requestId,
         endpoint: '/api/car-rental/search',
@@ -182,20 +163,7 @@ export async function POST(request: NextRequest) {
         error: 'Rate limit exceeded'
       });
       
-      return NextResponse.json({
-        error: 'Rate limit exceeded',
-        message: RATE_LIMIT_CONFIG.message,
-        retryAfter: Math.ceil(RATE_LIMIT_CONFIG.windowMs / 1000),
-        code: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(RATE_LIMIT_CONFIG.windowMs / 1000).toString(),
-          'X-RateLimit-Limit': RATE_LIMIT_CONFIG.maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil((Date.now() + RATE_LIMIT_CONFIG.windowMs) / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimit, CAR_RENTAL_SEARCH_RATE_LIMIT.message);
     }
 
     // Parse and validate request body
@@ -386,9 +354,7 @@ export async function POST(request: NextRequest) {
       status: 200,
       headers: {
         'X-Request-ID': requestId,
-        'X-RateLimit-Limit': RATE_LIMIT_CONFIG.maxRequests.toString(),
-        'X-RateLimit-Remaining': (RATE_LIMIT_CONFIG.maxRequests - (rateLimitStore.get(clientIP)?.count || 0)).toString(),
-        'X-RateLimit-Reset': Math.ceil((Date.now() + RATE_LIMIT_CONFIG.windowMs) / 1000).toString(),
+        ...getRateLimitHeaders(rateLimit),
         'Cache-Control': 'public, max-age=1800', // 30 minutes client-side cache
         'Vary': 'Accept-Encoding'
       }
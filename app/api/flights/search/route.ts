@@ -8,13 +8,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
-import {
-  getCachedFlightResults,
-  cacheFlightResults,
-  isFlightCacheAvailable,
-  type FlightSearchParams
-} from "@/lib/cache/flight-cache";
-import { FlightSearchManager } from "@/lib/services/flight-providers";
 import { createFlightSearchService, FlightSearchQuery } from "@/lib/services/flight-search";
 import { APIMonitor } from "@/lib/monitoring/api-monitor";
 
@@ -53,142 +46,61 @@ const flightSearchSchema = z.object({
 
 // Flight search implementation using new multi-provider system
 
-// Enhanced flight search with comprehensive orchestration
-async function searchFlightsWithProviders(query: FlightSearchQuery): Promise<{ flights: any[], provider: string, searchTime: number }> {
+// Enhanced flight search with comprehensive orchestration. The service returns
+// no offers rather than sample fares when providers fail, unless sandbox mode is on
+async function searchFlightsWithProviders(query: FlightSearchQuery): Promise<{ flights: any[], provider: string, searchTime: number, cached: boolean, sandbox: boolean }> {
   const startTime = Date.now();
   
-  try {
-    // Use the new comprehensive flight search service
-    const flightSearchService = createFlightSearchService();
-    const searchResults = await flightSearchService.searchFlights(query);
-    
-    // Convert to legacy format for backward compatibility
-    const flights = searchResults.offers.map(offer => ({
-      id: offer.id,
-      type: 'flight',
-      airline: offer.airlines[0]?.name || 'Unknown Airline',
-      flightNumber: offer.segments[0]?.flight.number || 'N/A',
-      price: offer.price.total,
-      currency: offer.price.currency,
-      duration: `${Math.floor(offer.duration.total / 60)}h ${offer.duration.total % 60}m`,
-      departure: {
-        time: new Date(offer.segments[0]?.departure.time).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        }),
-        airport: offer.segments[0]?.departure.airport.code || query.from.code,
-        city: offer.segments[0]?.departure.airport.city || query.from.name,
-      },
-      arrival: {
-        time: new Date(offer.segments[offer.segments.length - 1]?.arrival.time).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        }),
-        airport: offer.segments[offer.segments.length - 1]?.arrival.airport.code || query.to.code,
-        city: offer.segments[offer.segments.length - 1]?.arrival.airport.city || query.to.name,
-      },
-      stops: offer.stops,
-      bookingLink: offer.bookingUrl,
-      baggage: {
-        carry: offer.baggage.carry.included,
-        checked: offer.baggage.checked.included,
-      },
-      score: offer.score / 10, // Convert to 0-10 scale
-      provider: offer.provider,
-      segments: offer.segments,
-      amenities: offer.amenities
-    }));
-
-    return {
-      flights,
-      provider: searchResults.meta.providers.join(', '),
-      searchTime: Date.now() - startTime
-    };
-  } catch (error) {
-    console.error('Enhanced flight search failed:', error);
-    
-    // Fallback to legacy system
-    try {
-      const flightManager = new FlightSearchManager({
-        aviationStackKey: process.env.AVIATIONSTACK_API_KEY,
-        rapidApiKey: process.env.RAPIDAPI_KEY,
-      });
-      
-      const legacyParams = {
-        from: query.from.code,
-        to: query.to.code,
-        departureDate: query.departureDate,
-        returnDate: query.returnDate,
-        adults: query.passengers.adults,
-        currency: query.currency || 'USD',
-      };
-      
-      const searchResult = await flightManager.searchFlights(legacyParams);
-      return {
-        flights: searchResult.flights,
-        provider: `${searchResult.provider} (fallback)`,
-        searchTime: Date.now() - startTime
-      };
-    } catch (fallbackError) {
-      console.error('Legacy flight search also failed:', fallbackError);
-      
-      // Final fallback to enhanced mock data
-      const flights = generateEnhancedMockFlights(query);
-      return {
-        flights,
-        provider: 'enhanced-mock',
-        searchTime: Date.now() - startTime
-      };
-    }
-  }
-}
-
-// Clean implementation using new FlightSearchManager - old functions removed
-
-function generateEnhancedMockFlights(query: FlightSearchQuery) {
-  const airlines = [
-    'Delta Airlines', 'United Airlines', 'American Airlines', 'British Airways',
-    'Emirates', 'Lufthansa', 'Air France', 'Singapore Airlines', 'Qatar Airways'
-  ];
-  
-  const flights = [];
-  
-  for (let i = 0; i < 8; i++) {
-    const basePrice = 300 + Math.random() * 800;
-    const departureHour = 6 + Math.random() * 16;
-    const duration = 2 + Math.random() * 12;
-    
-    flights.push({
-      id: `mock-${i + 1}`,
-      type: 'flight',
-      airline: airlines[Math.floor(Math.random() * airlines.length)],
-      flightNumber: `${['DL', 'UA', 'AA', 'BA', 'EK'][Math.floor(Math.random() * 5)]}${Math.floor(Math.random() * 9000 + 1000)}`,
-      price: Math.round(basePrice),
-      currency: query.currency || 'USD',
-      duration: `${Math.floor(duration)}h ${Math.floor((duration % 1) * 60)}m`,
-      departure: {
-        time: `${Math.floor(departureHour)}:${Math.floor(Math.random() * 60).toString().padStart(2, '0')} ${departureHour >= 12 ? 'PM' : 'AM'}`,
-        airport: query.from.code,
-        city: query.from.name,
-      },
-      arrival: {
-        time: `${Math.floor((departureHour + duration) % 24)}:${Math.floor(Math.random() * 60).toString().padStart(2, '0')} ${((departureHour + duration) % 24) >= 12 ? 'PM' : 'AM'}`,
-        airport: query.to.code,
-        city: query.to.name,
-      },
-      stops: Math.random() > 0.6 ? 0 : Math.random() > 0.8 ? 2 : 1,
-      bookingLink: `https://booking.example.com/flight/${i + 1}`,
-      baggage: {
-        carry: true,
-        checked: Math.random() > 0.3,
-      },
-      score: 5 + Math.random() * 5,
-    });
-  }
+  const flightSearchService = createFlightSearchService();
+  const searchResults = await flightSearchService.searchFlights(query);
   
-  return flights.sort((a, b) => a.price - b.price);
+  // Convert to legacy format for backward compatibility
+  const flights = searchResults.offers.map(offer => ({
+    id: offer.id,
+    type: 'flight',
+    airline: offer.airlines[0]?.name || 'Unknown Airline',
+    flightNumber: offer.segments[0]?.flight.number || 'N/A',
+    price: offer.price.total,
+    currency: offer.price.currency,
+    duration: `${Math.floor(offer.duration.total / 60)}h ${offer.duration.total % 60}m`,
+    departure: {
+      time: new Date(offer.segments[0]?.departure.time).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true
+      }),
+      airport: offer.segments[0]?.departure.airport.code || query.from.code,
+      city: offer.segments[0]?.departure.airport.city || query.from.name,
+    },
+    arrival: {
+      time: new Date(offer.segments[offer.segments.length - 1]?.arrival.time).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true
+      }),
+      airport: offer.segments[offer.segments.length - 1]?.arrival.airport.code || query.to.code,
+      city: offer.segments[offer.segments.length - 1]?.arrival.airport.city || query.to.name,
+    },
+    stops: offer.stops,
+    bookingLink: offer.bookingUrl,
+    baggage: {
+      carry: offer.baggage.carry.included,
+      checked: offer.baggage.checked.included,
+    },
+    score: offer.score / 10, // Convert to 0-10 scale
+    provider: offer.provider,
+    provenance: offer.provenance,
+    segments: offer.segments,
+    amenities: offer.amenities
+  }));
+
+  return {
+    flights,
+    provider: searchResults.meta.providers.join(', '),
+    searchTime: Date.now() - startTime,
+    cached: searchResults.meta.cacheHit,
+    sandbox: searchResults.meta.sandbox
+  };
 }
 
 function formatDuration(totalSeconds: number): string {
@@ -284,46 +196,23 @@ export async function POST(request: NextRequest) {
       console.warn('API monitoring failed:', monitorError);
     }
 
-    // Check cache first (convert to legacy format for cache compatibility)
-    const legacyCacheParams: FlightSearchParams = {
-      from: searchQuery.from.code,
-      to: searchQuery.to.code,
-      departureDate: searchQuery.departureDate,
-      returnDate: searchQuery.returnDate,
-      adults: searchQuery.passengers.adults,
-      currency: searchQuery.currency || 'USD'
-    };
+    // Search for flights using enhanced orchestration (results are cached
+    // per query by the flight search service)
+    const { flights, provider, searchTime, cached, sandbox } = await searchFlightsWithProviders(searchQuery);
 
-    const cacheAvailable = await isFlightCacheAvailable();
-    if (cacheAvailable) {
-      const cachedResults = await getCachedFlightResults(legacyCacheParams);
-      if (cachedResults) {
-        return NextResponse.json({
-          success: true,
-          flights: cachedResults.flights,
-          searchParams: searchQuery,
-          resultsCount: cachedResults.resultsCount,
-          cached: true,
-          provider: cachedResults.provider,
-          cachedAt: new Date(cachedResults.cachedAt).toISOString(),
-        });
-      }
-    }
-
-    // Search for flights using enhanced orchestration
-    const { flights, provider, searchTime } = await searchFlightsWithProviders(searchQuery);
-
-    // Cache results if cache is available
-    if (cacheAvailable && flights.length > 0) {
-      await cacheFlightResults(legacyCacheParams, flights, provider);
-    }
+    // Flexible searches also get the cheapest fare for each nearby date pair
+    const fareCalendar = searchQuery.flexibleDates
+      ? await createFlightSearchService().searchFareCalendar(searchQuery)
+      : undefined;
 
     return NextResponse.json({
       success: true,
       flights,
       searchParams: searchQuery,
       resultsCount: flights.length,
-      cached: false,
+      fareCalendar,
+      cached,
+      sandbox,
       provider: provider,
       searchTime: searchTime,
       enhanced: true, // Indicates this is using the new comprehensive system
@@ -21,6 +21,7 @@ import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { createHotelSearchService, HotelSearchQuery } from '@/lib/services/hotel-search';
 import { APIMonitor } from '@/lib/monitoring/api-monitor';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceededResponse, type RateLimitOptions } from '@/lib/security/rate-limit';
 
 // ==================== REQUEST VALIDATION ====================
 
@@ -70,35 +71,14 @@ const HotelSearchRequestSchema = z.object({
 
 // ==================== RATE LIMITING ====================
 
-const RATE_LIMIT_CONFIG = {
+// Hotel searches per user (or IP when signed out) per 15 minutes
+const HOTEL_SEARCH_RATE_LIMIT: RateLimitOptions = {
+  name: 'hotel-search',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 15, // 15 hotel searches per 15 minutes per IP
+  maxRequests: { free: 15, starter: 45, pro: 90 },
   message: 'Too many hotel search requests, please try again later'
 };
 
-// In-memory rate limiting store (use Redis in production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(identifier: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(identifier);
-  
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.windowMs
-    });
-    return true;
-  }
-  
-  if (record.count >= RATE_LIMIT_CONFIG.maxRequests) {
-    return false;
-  }
-  
-  record.count++;
-  return true;
-}
-
 // Simple logging function
 async function logApiRequest(logData: any) {
   console.log('[Hotel API Request]', logData);
@@ -134,13 +114,14 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Extract client IP for rate limiting
+    // Extract client IP for request logging
     const clientIP = request.headers.get('x-forwarded-for') || 
                      request.headers.get('x-real-ip') || 
                      'unknown';
 
     // Rate limiting
-    if (!checkRateLimit(clientIP)) {
+    const rateLimit = await checkRateLimit(request, HOTEL_SEARCH_RATE_LIMIT);
+    if (!rateLimit.allowed) {
       await logApiRequest({
         requestId,
         endpoint: '/api/hotels/search',
@@ -151,11 +132,7 @@ export async function POST(request: NextRequest) {
         error: 'Rate limit exceeded'
       });
       
-      return NextResponse.json({
-        error: 'Rate limit exceeded',
-        message: RATE_LIMIT_CONFIG.message,
-        retryAfter: Math.ceil(RATE_LIMIT_CONFIG.windowMs / 1000)
-      }, { status: 429 });
+      return rateLimitExceededResponse(rateLimit, HOTEL_SEARCH_RATE_LIMIT.message);
     }
 
     // Parse and validate request body
@@ -303,8 +280,7 @@ export async function POST(request: NextRequest) {
       status: 200,
       headers: {
         'X-Request-ID': requestId,
-        'X-RateLimit-Limit': RATE_LIMIT_CONFIG.maxRequests.toString(),
-        'X-RateLimit-Remaining': (RATE_LIMIT_CONFIG.maxRequests - (rateLimitStore.get(clientIP)?.count || 0)).toString(),
+        ...getRateLimitHeaders(rateLimit),
         'Cache-Control': 'public, max-age=1800' // 30 minutes client-side cache
       }
     });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { createRateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { getRateLimitStore } from '@/lib/security/rate-limit-store';
 
 // Validation schemas
 const PerformanceMetricSchema = z.object({
@@ -33,46 +35,23 @@ const MonitoringBatchSchema = z.object({
   buildVersion: z.string(),
 });
 
-// Rate limiting configuration
-const RATE_LIMIT = {
+// Beacons come from signed-out pages too, so they are limited per IP
+const monitoringRateLimit = createRateLimit({
+  name: 'monitoring',
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 100, // Max requests per window per IP
-};
-
-// Simple in-memory rate limiter (replace with Redis in production)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const existing = rateLimitMap.get(ip);
-  
-  if (!existing || now > existing.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT.windowMs });
-    return true;
-  }
-  
-  if (existing.count >= RATE_LIMIT.maxRequests) {
-    return false;
-  }
-  
-  existing.count++;
-  return true;
-}
+  identifyBy: 'ip',
+  message: 'Rate limit exceeded',
+});
 
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting
-    const ip = request.ip || request.headers.get('x-forwarded-for') || 'unknown';
-    if (!checkRateLimit(ip)) {
-      return new NextResponse('Rate limit exceeded', { 
-        status: 429,
-        headers: {
-          'Retry-After': '60',
-          'X-RateLimit-Limit': RATE_LIMIT.maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-        }
-      });
+    const rateLimitResponse = await monitoringRateLimit(request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
     }
+    const ip = getClientIp(request);
 
     // Parse and validate request body
     const body = await request.json();
@@ -307,7 +286,7 @@ export async function GET() {
     status: 'healthy',
     service: 'monitoring-batch',
     timestamp: Date.now(),
-    rateLimitActive: rateLimitMap.size > 0,
+    rateLimitStore: getRateLimitStore().name,
   }), {
     headers: { 'Content-Type': 'application/json' },
   });
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { deletePushSubscription, savePushSubscription } from "@/lib/notifications/preferences";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// The shape of PushSubscription.toJSON() in the browser
+const subscriptionSchema = z.object({
+  endpoint: z.string().url().startsWith('https://').max(2000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(128),
+    auth: z.string().min(1).max(64),
+  }),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url().max(2000),
+});
+
+// POST: Register this browser for push notifications
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const subscription = subscriptionSchema.parse(await request.json());
+    const saved = await savePushSubscription(userId, subscription);
+
+    if (!saved) {
+      return NextResponse.json(
+        { error: 'Failed to save push subscription' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid push subscription', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to save push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Stop sending push notifications to this browser
+export async function DELETE(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { endpoint } = unsubscribeSchema.parse(await request.json());
+    const deleted = await deletePushSubscription(userId, endpoint);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Push subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to delete push subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete push subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { listNotifications, markNotificationsRead } from "@/lib/notifications/inbox";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const listSchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const markReadSchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+// GET: The current user's notification inbox, newest first
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { unread, limit } = listSchema.parse({
+      unread: searchParams.get('unread') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const notifications = await listNotifications(userId, { unreadOnly: unread === 'true', limit });
+
+    return NextResponse.json({ success: true, notifications });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to list notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to list notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Mark notifications read, either by ID or all at once
+export async function PATCH(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = markReadSchema.parse(await request.json());
+    const updated = await markNotificationsRead(userId, 'ids' in body ? body.ids : undefined);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to mark notifications read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark notifications read' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { DELIVERY_CHANNELS } from "@/lib/notifications/notifiers";
+import { getNotificationPreferences, isValidTimezone, updateNotificationPreferences } from "@/lib/notifications/preferences";
+import { getVapidConfig } from "@/lib/notifications/web-push";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM').nullable();
+
+const settingsSchema = z.object({
+  channels: z.array(z.enum(['email', 'push'])).max(DELIVERY_CHANNELS.length),
+  quietHoursStart: clockSchema,
+  quietHoursEnd: clockSchema,
+  timezone: z.string().max(64).refine(isValidTimezone, 'Unknown timezone'),
+}).partial().refine(
+  (settings) => (settings.quietHoursStart === undefined) === (settings.quietHoursEnd === undefined),
+  { message: 'Set both ends of the quiet hours' }
+);
+
+// GET: The current user's notification channels and quiet hours
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await getNotificationPreferences(userId);
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      pushAvailable: getVapidConfig() !== null,
+    });
+  } catch (error) {
+    console.error('Failed to load notification settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to load notification settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Update notification channels and quiet hours
+export async function PUT(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const updates = settingsSchema.parse(await request.json());
+    if (updates.channels) {
+      updates.channels = Array.from(new Set(updates.channels));
+    }
+
+    const settings = await updateNotificationPreferences(userId, updates);
+
+    if (!settings) {
+      return NextResponse.json(
+        { error: 'Failed to update notification settings' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid notification settings', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to update notification settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { deletePriceAlert, setPriceAlertActive } from "@/lib/services/price-alerts";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+const updateSchema = z.object({
+  active: z.boolean(),
+});
+
+// PATCH: Pause or resume a price alert
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Price alert not found' },
+        { status: 404 }
+      );
+    }
+
+    const { active } = updateSchema.parse(await request.json());
+    const alert = await setPriceAlertActive(userId, params.id, active);
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Price alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, active: alert.active });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid price alert update', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to update price alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to update price alert' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a price alert and stop tracking its search
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Price alert not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deletePriceAlert(userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Price alert not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete price alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete price alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import type { PriceAlert } from "@/lib/database/schema";
+import { alertThreshold, createPriceAlert, listPriceAlerts } from "@/lib/services/price-alerts";
+import { describePriceWatch, listPriceWatches, priceWatchInputSchema } from "@/lib/services/price-watches";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const alertSchema = z.object({
+  search: priceWatchInputSchema,
+  targetPrice: z.number().positive().optional(),
+  dropPercent: z.number().int().min(1).max(90).optional(),
+  baselinePrice: z.number().positive().optional(),
+}).refine(
+  (alert) => alert.targetPrice !== undefined || alert.dropPercent !== undefined,
+  { message: 'Set a target price or a percentage drop' }
+);
+
+function serializeAlert(alert: PriceAlert) {
+  return {
+    ...alert,
+    targetPrice: alert.targetPrice === null ? null : Number(alert.targetPrice),
+    baselinePrice: alert.baselinePrice === null ? null : Number(alert.baselinePrice),
+    lastNotifiedPrice: alert.lastNotifiedPrice === null ? null : Number(alert.lastNotifiedPrice),
+    threshold: alertThreshold(alert),
+  };
+}
+
+// GET: List the current user's price alerts with the latest tracked price
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const [alerts, watches] = await Promise.all([listPriceAlerts(userId), listPriceWatches(userId)]);
+    const watchesById = new Map(watches.map(watch => [watch.id, watch]));
+
+    return NextResponse.json({
+      success: true,
+      alerts: alerts.map(alert => {
+        const watch = watchesById.get(alert.watchId);
+        return {
+          ...serializeAlert(alert),
+          currentPrice: watch?.lastPrice && watch.lastCurrency === alert.currency ? Number(watch.lastPrice) : null,
+          lastCheckedAt: watch?.lastCheckedAt || null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Failed to list price alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to list price alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Track a flight, hotel or car rental search and alert on a price drop
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { search, ...threshold } = alertSchema.parse(await request.json());
+
+    if (describePriceWatch(search).travelDate < new Date().toISOString().slice(0, 10)) {
+      return NextResponse.json(
+        { error: 'Invalid price alert', details: 'Travel date has already passed' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createPriceAlert(userId, search, threshold);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to create price alert' },
+        { status: 500 }
+      );
+    }
+
+    if (result.status === 'no_baseline') {
+      return NextResponse.json(
+        { error: 'Invalid price alert', details: 'No recent price to measure the drop from; set a target price instead' },
+        { status: 400 }
+      );
+    }
+
+    if (result.status === 'limit_reached') {
+      return NextResponse.json(
+        { error: 'Price watch limit reached', details: `You can track up to ${result.limit} searches` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, alert: serializeAlert(result.alert) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid price alert', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to create price alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to create price alert' },
+      { status: 500 }
+    );
+  }
+}
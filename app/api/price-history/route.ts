@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  carRentalSeriesKey,
+  flightSeriesKey,
+  getPriceHistoryStore,
+  hotelSeriesKey,
+  summarizeByDay,
+} from "@/lib/services/price-history-store";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const historySchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('flight'),
+    from: z.string().regex(/^[A-Z]{3}$/, 'Invalid airport code'),
+    to: z.string().regex(/^[A-Z]{3}$/, 'Invalid airport code'),
+    cabin: z.enum(['economy', 'premium_economy', 'business', 'first']).default('economy'),
+    currency: z.string().length(3).default('USD'),
+    days: z.coerce.number().int().min(1).max(365).default(30),
+  }),
+  z.object({
+    kind: z.enum(['hotel', 'car_rental']),
+    location: z.string().min(2).max(100),
+    currency: z.string().length(3).default('USD'),
+    days: z.coerce.number().int().min(1).max(365).default(30),
+  }),
+]);
+
+// GET: Daily price history for a route, hotel location or car rental pickup location
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = historySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const series = query.kind === 'flight'
+      ? flightSeriesKey(query.from, query.to, query.cabin)
+      : query.kind === 'hotel' ? hotelSeriesKey(query.location) : carRentalSeriesKey(query.location);
+    const since = new Date(Date.now() - query.days * 24 * 60 * 60 * 1000);
+    const observations = (await getPriceHistoryStore().query(series, { since }))
+      .filter(observation => observation.currency === query.currency);
+
+    return NextResponse.json({
+      success: true,
+      series,
+      currency: query.currency,
+      history: summarizeByDay(observations),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to load price history:', error);
+    return NextResponse.json(
+      { error: 'Failed to load price history' },
+      { status: 500 }
+    );
+  }
+}
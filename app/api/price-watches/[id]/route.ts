@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { deletePriceWatch } from "@/lib/services/price-watches";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// DELETE: Stop tracking a saved search
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Price watch not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deletePriceWatch(userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Price watch not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete price watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete price watch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { createPriceWatch, describePriceWatch, listPriceWatches, priceWatchInputSchema } from "@/lib/services/price-watches";
+import { getPriceHistoryStore, summarizeByDay } from "@/lib/services/price-history-store";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// Days of daily price history returned with each watch
+const HISTORY_DAYS = 30;
+
+// GET: List the current user's price watches with recent daily prices
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const watches = await listPriceWatches(userId);
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const store = getPriceHistoryStore();
+
+    const withHistory = await Promise.all(watches.map(async (watch) => ({
+      ...watch,
+      lastPrice: watch.lastPrice === null ? null : Number(watch.lastPrice),
+      history: summarizeByDay(await store.query(watch.series, { since })),
+    })));
+
+    return NextResponse.json({ success: true, watches: withHistory });
+  } catch (error) {
+    console.error('Failed to list price watches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list price watches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save a flight or hotel search for scheduled price tracking
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const input = priceWatchInputSchema.parse(await request.json());
+
+    if (describePriceWatch(input).travelDate < new Date().toISOString().slice(0, 10)) {
+      return NextResponse.json(
+        { error: 'Invalid price watch', details: 'Travel date has already passed' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createPriceWatch(userId, input);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to create price watch' },
+        { status: 500 }
+      );
+    }
+
+    if (result.status === 'limit_reached') {
+      return NextResponse.json(
+        { error: 'Price watch limit reached', details: `You can track up to ${result.limit} searches` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, watch: result.watch }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid price watch', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to create price watch:', error);
+    return NextResponse.json(
+      { error: 'Failed to create price watch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createShareAccessProof,
+  getShareAccessCookieName,
+  resolveSharedTrip,
+  verifySharePassword,
+} from "@/lib/collaboration/share-links";
+import { authRateLimit } from "@/lib/security/rate-limit";
+
+const unlockSchema = z.object({
+  password: z.string().min(1).max(128),
+});
+
+const ACCESS_COOKIE_MAX_AGE = 12 * 60 * 60; // 12 hours in seconds
+
+// POST: Unlock a password-protected shared trip for this browser
+export async function POST(request: NextRequest, { params }: { params: { token: string } }) {
+  // Password attempts use the stricter auth budget
+  const rateLimitResponse = await authRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const body = await request.json();
+    const { password } = unlockSchema.parse(body);
+
+    const resolution = await resolveSharedTrip(params.token);
+
+    if (resolution.status === 'not_found') {
+      return NextResponse.json(
+        { error: 'Shared trip not found' },
+        { status: 404 }
+      );
+    }
+
+    if (resolution.status === 'expired') {
+      return NextResponse.json(
+        { error: 'This share link has expired' },
+        { status: 410 }
+      );
+    }
+
+    const { share } = resolution;
+    if (!share.passwordHash) {
+      return NextResponse.json({ success: true });
+    }
+
+    if (!verifySharePassword(password, share.passwordHash)) {
+      return NextResponse.json(
+        { error: 'Incorrect password' },
+        { status: 401 }
+      );
+    }
+
+    const maxAge = share.expiresAt
+      ? Math.min(ACCESS_COOKIE_MAX_AGE, Math.floor((share.expiresAt.getTime() - Date.now()) / 1000))
+      : ACCESS_COOKIE_MAX_AGE;
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(getShareAccessCookieName(share.id), createShareAccessProof(share.id, share.passwordHash), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: `/share/${share.id}`,
+      maxAge,
+    });
+    return response;
+
+  } catch (error) {
+    console.error('Failed to unlock shared trip:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Password is required', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to unlock shared trip' },
+      { status: 500 }
+    );
+  }
+}
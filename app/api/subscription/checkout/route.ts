@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
 import { SUBSCRIPTION_TIERS, type SubscriptionTier, detectUserCurrency, getTierPrice } from "@/lib/subscription/config";
 import { getCurrentUserProfile } from "@/lib/auth/profile";
+import { createCheckoutSession, isRazorpayConfigured } from "@/lib/payments/razorpay";
 
 const checkoutSchema = z.object({
   tier: z.enum(['starter', 'pro']),
@@ -40,23 +41,29 @@ export async function POST(request: NextRequest) {
     const tierConfig = SUBSCRIPTION_TIERS[tier];
     const price = getTierPrice(tier, currency);
 
-    // For now, return a mock checkout session
-    // In production, this would create a real Razorpay order
-    const mockOrderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (!isRazorpayConfigured()) {
+      return NextResponse.json(
+        { error: 'Payments temporarily unavailable', details: 'Razorpay not configured' },
+        { status: 503 }
+      );
+    }
+
+    const session = await createCheckoutSession(userId, tier, currency, price);
 
     return NextResponse.json({
       success: true,
-      orderId: mockOrderId,
-      amount: price,
-      currency,
+      kind: session.kind,
+      ...(session.kind === 'subscription'
+        ? { subscriptionId: session.id }
+        : { orderId: session.id }),
+      amount: session.amount,
+      currency: session.currency,
       tier: tierConfig,
       razorpayKeyId: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
       user: {
         name: profile.displayName || 'User',
         email: profile.email,
       },
-      // This would be a real Razorpay order in production
-      message: 'Mock checkout session created - Razorpay integration ready',
     });
 
   } catch (error) {
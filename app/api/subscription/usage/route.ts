@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getMeteringContext, listQuotas } from "@/lib/subscription/metering";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// GET: Metered usage and remaining quota for the current billing period
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const context = await getMeteringContext(userId);
+    const quotas = await listQuotas(userId, context);
+
+    return NextResponse.json({
+      success: true,
+      tier: context.tier,
+      period: {
+        start: context.period.start.toISOString(),
+        end: context.period.end.toISOString(),
+      },
+      usage: quotas.map(quota => ({
+        metric: quota.metric,
+        limit: quota.limit,
+        used: quota.used,
+        remaining: quota.remaining,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to get usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to get usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { updateUserSubscription } from "@/lib/auth/profile";
+import {
+  addBillingPeriod,
+  getRazorpayClient,
+  verifyCheckoutSignature,
+} from "@/lib/payments/razorpay";
+import { claimWebhook, markWebhookProcessed } from "@/lib/webhooks/webhook-log";
+
+const verifySchema = z.object({
+  tier: z.enum(['starter', 'pro']),
+  razorpay_payment_id: z.string().min(1),
+  razorpay_order_id: z.string().min(1).optional(),
+  razorpay_subscription_id: z.string().min(1).optional(),
+  razorpay_signature: z.string().min(1),
+}).refine(data => data.razorpay_order_id || data.razorpay_subscription_id, {
+  message: 'razorpay_order_id or razorpay_subscription_id is required',
+});
+
+// POST: Confirm a Razorpay Checkout payment and activate the subscription.
+// Webhooks apply the same change, so whichever arrives first wins. Each
+// payment is claimed in the webhook log and applied once, and a one-off
+// order's period runs from when it was paid, so replaying a verified
+// signature can't extend the subscription.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const payment = verifySchema.parse(body);
+
+    const valid = verifyCheckoutSignature(
+      {
+        paymentId: payment.razorpay_payment_id,
+        orderId: payment.razorpay_order_id,
+        subscriptionId: payment.razorpay_subscription_id,
+      },
+      payment.razorpay_signature
+    );
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: 'Invalid payment signature' },
+        { status: 400 }
+      );
+    }
+
+    const razorpay = getRazorpayClient();
+    let currentPeriodEnd = addBillingPeriod(new Date());
+    let tier = payment.tier;
+
+    // Trust the tier recorded on the Razorpay side over the client's claim
+    if (payment.razorpay_subscription_id) {
+      const subscription = await razorpay.subscriptions.fetch(payment.razorpay_subscription_id);
+      if (subscription.notes?.userId && subscription.notes.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Payment does not belong to this account' },
+          { status: 403 }
+        );
+      }
+      if (subscription.notes?.tier === 'starter' || subscription.notes?.tier === 'pro') {
+        tier = subscription.notes.tier;
+      }
+      if (subscription.current_end) {
+        currentPeriodEnd = new Date(subscription.current_end * 1000);
+      }
+    } else if (payment.razorpay_order_id) {
+      const order = await razorpay.orders.fetch(payment.razorpay_order_id);
+      if (order.notes?.userId && order.notes.userId !== userId) {
+        return NextResponse.json(
+          { error: 'Payment does not belong to this account' },
+          { status: 403 }
+        );
+      }
+      if (order.notes?.tier === 'starter' || order.notes?.tier === 'pro') {
+        tier = order.notes.tier;
+      }
+      const paid = await razorpay.payments.fetch(payment.razorpay_payment_id);
+      currentPeriodEnd = addBillingPeriod(new Date(paid.created_at * 1000));
+    }
+
+    const claim = await claimWebhook(
+      'razorpay',
+      `checkout:${payment.razorpay_payment_id}`,
+      'checkout.verified',
+      {
+        paymentId: payment.razorpay_payment_id,
+        orderId: payment.razorpay_order_id,
+        subscriptionId: payment.razorpay_subscription_id,
+      }
+    );
+
+    if (claim && claim.status !== 'claimed') {
+      return NextResponse.json(
+        { error: 'Payment has already been applied' },
+        { status: 409 }
+      );
+    }
+
+    const outcome = await updateUserSubscription(userId, {
+      tier,
+      status: 'active',
+      subscriptionId: payment.razorpay_subscription_id,
+      currentPeriodEnd,
+    });
+
+    if (outcome === 'failed') {
+      if (claim) {
+        await markWebhookProcessed(claim.id, 'Failed to update subscription');
+      }
+      return NextResponse.json(
+        { error: 'Failed to verify payment' },
+        { status: 500 }
+      );
+    }
+
+    if (claim) {
+      await markWebhookProcessed(claim.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      tier,
+      currentPeriodEnd,
+    });
+
+  } catch (error) {
+    console.error('Payment verification failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to verify payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
 import { createTransportSearchService, TransportSearchQuery } from '@/lib/services/transport-search';
 import { TransportSearchManager } from "@/lib/services/transport-providers";
+import { createSeededRandom, isSandboxMode, type DataProvenance } from '@/lib/services/sandbox';
 import { APIMonitor } from '@/lib/monitoring/api-monitor';
 
 const transportSearchSchema = z.object({
@@ -19,6 +20,7 @@ interface TransportOption {
   id: string;
   type: 'flight' | 'train' | 'bus';
   provider: string;
+  provenance: DataProvenance;
   airline?: string;
   flightNumber?: string;
   trainNumber?: string;
@@ -120,28 +122,30 @@ async function searchTrains(params: {
     return []; // No train connection
   }
 
+  const rng = createSeededRandom('trains', params.from.toLowerCase(), params.to.toLowerCase(), params.departureDate);
   const distance = calculateDistance(params.from, params.to);
   const trainOptions: TransportOption[] = [];
 
   // Generate 2-4 train options
   const trainProviders = ['Eurail Express', 'High Speed Rail', 'Regional Express', 'InterCity'];
-  const numOptions = Math.min(Math.floor(Math.random() * 3) + 2, 4);
+  const numOptions = rng.int(2, 4);
 
   for (let i = 0; i < numOptions; i++) {
     const isHighSpeed = i === 1; // Second option is usually high-speed
     const basePrice = distance * (isHighSpeed ? 0.15 : 0.08); // Price per km
     const priceMultiplier = params.currency === 'USD' ? 1 : params.currency === 'EUR' ? 0.85 : 0.75;
     
-    const departureHour = 6 + (i * 3) + Math.random() * 2;
+    const departureHour = 6 + (i * 3) + rng.float(0, 2);
     const travelTimeHours = isHighSpeed ? distance / 200 : distance / 120; // Speed: 200km/h or 120km/h
     const arrivalHour = departureHour + travelTimeHours;
 
     trainOptions.push({
       id: `train-${i + 1}`,
       type: 'train',
+      provenance: 'synthetic',
       provider: trainProviders[i],
-      trainNumber: `${isHighSpeed ? 'HSR' : 'RE'}-${Math.floor(Math.random() * 9000) + 1000}`,
-      price: Math.floor(basePrice * priceMultiplier * (0.8 + Math.random() * 0.4)),
+      trainNumber: `${isHighSpeed ? 'HSR' : 'RE'}-${rng.int(1000, 9999)}`,
+      price: Math.floor(basePrice * priceMultiplier * rng.float(0.8, 1.2)),
       currency: params.currency,
       duration: `${Math.floor(travelTimeHours)}h ${Math.floor((travelTimeHours % 1) * 60)}m`,
       departure: {
@@ -154,13 +158,13 @@ async function searchTrains(params: {
         airport: isHighSpeed ? 'Central Station' : 'Main Station',
         city: params.to,
       },
-      stops: isHighSpeed ? Math.floor(Math.random() * 2) : Math.floor(Math.random() * 4) + 1,
-      rating: 3.8 + Math.random() * 1.2,
+      stops: isHighSpeed ? rng.int(0, 1) : rng.int(1, 4),
+      rating: rng.float(3.8, 5),
       bookingLink: isHighSpeed ? 'https://raileurope.com' : 'https://eurail.com',
       amenities: isHighSpeed 
         ? ['WiFi', 'Power Outlet', 'Restaurant', 'First Class Available']
         : ['WiFi', 'Power Outlet', 'Cafe Car'],
-      score: (isHighSpeed ? 8 : 7) + Math.random() * 1.5,
+      score: (isHighSpeed ? 8 : 7) + rng.float(0, 1.5),
       co2Emissions: Math.floor(distance * 0.02), // Very low emissions
       comfort: isHighSpeed ? 'Premium' : 'Standard'
     });
@@ -177,27 +181,29 @@ async function searchBuses(params: {
   adults: number;
   currency: string;
 }): Promise<TransportOption[]> {
+  const rng = createSeededRandom('buses', params.from.toLowerCase(), params.to.toLowerCase(), params.departureDate);
   const distance = calculateDistance(params.from, params.to);
   const busOptions: TransportOption[] = [];
 
   // Generate 2-3 bus options
   const busProviders = ['FlixBus', 'MegaBus', 'Greyhound', 'Eurolines'];
-  const numOptions = Math.min(Math.floor(Math.random() * 2) + 2, 3);
+  const numOptions = rng.int(2, 3);
 
   for (let i = 0; i < numOptions; i++) {
     const isPremium = i === 1; // Second option is premium
     const basePrice = distance * (isPremium ? 0.06 : 0.04); // Price per km
     const priceMultiplier = params.currency === 'USD' ? 1 : params.currency === 'EUR' ? 0.85 : 0.75;
     
-    const departureHour = 7 + (i * 4) + Math.random() * 2;
+    const departureHour = 7 + (i * 4) + rng.float(0, 2);
     const travelTimeHours = isPremium ? distance / 80 : distance / 65; // Speed with stops
     const arrivalHour = departureHour + travelTimeHours;
 
     busOptions.push({
       id: `bus-${i + 1}`,
       type: 'bus',
+      provenance: 'synthetic',
       provider: `${busProviders[i]}${isPremium ? ' Premium' : ''}`,
-      price: Math.floor(basePrice * priceMultiplier * (0.7 + Math.random() * 0.6)),
+      price: Math.floor(basePrice * priceMultiplier * rng.float(0.7, 1.3)),
       currency: params.currency,
       duration: `${Math.floor(travelTimeHours)}h ${Math.floor((travelTimeHours % 1) * 60)}m`,
       departure: {
@@ -210,13 +216,13 @@ async function searchBuses(params: {
         airport: isPremium ? 'Central Bus Terminal' : 'Bus Station',
         city: params.to,
       },
-      stops: Math.floor(Math.random() * 3) + 1,
-      rating: 3.5 + Math.random() * 1.5,
+      stops: rng.int(1, 3),
+      rating: rng.float(3.5, 5),
       bookingLink: `https://${busProviders[i].toLowerCase().replace(' ', '')}.com`,
       amenities: isPremium 
         ? ['WiFi', 'Power Outlet', 'Reclining Seats', 'Air Conditioning', 'Snacks']
         : ['WiFi', 'Power Outlet', 'Air Conditioning'],
-      score: (isPremium ? 7 : 6) + Math.random() * 1.5,
+      score: (isPremium ? 7 : 6) + rng.float(0, 1.5),
       co2Emissions: Math.floor(distance * 0.05), // Low emissions per person
       comfort: isPremium ? 'Premium' : 'Standard'
     });
@@ -235,29 +241,31 @@ async function getFlights(params: {
   currency: string;
 }): Promise<TransportOption[]> {
   try {
+    const rng = createSeededRandom('flights', params.from.toLowerCase(), params.to.toLowerCase(), params.departureDate, params.returnDate);
     const distance = calculateDistance(params.from, params.to);
     const flightOptions: TransportOption[] = [];
     
     // Generate 2-3 flight options for comparison
     const airlines = ['Delta Airlines', 'United Airlines', 'American Airlines', 'British Airways', 'Emirates'];
-    const numOptions = Math.min(Math.floor(Math.random() * 2) + 2, 3);
+    const numOptions = rng.int(2, 3);
 
     for (let i = 0; i < numOptions; i++) {
       const isPremium = i === 1;
       const basePrice = distance * (isPremium ? 0.25 : 0.18); // Price per km for flights
       const priceMultiplier = params.currency === 'USD' ? 1 : params.currency === 'EUR' ? 0.85 : 0.75;
       
-      const departureHour = 8 + (i * 4) + Math.random() * 2;
+      const departureHour = 8 + (i * 4) + rng.float(0, 2);
       const travelTimeHours = distance / 800 + 1; // Flight speed + processing time
       const arrivalHour = departureHour + travelTimeHours;
 
       flightOptions.push({
         id: `flight-${i + 1}`,
         type: 'flight',
+        provenance: 'synthetic',
         provider: airlines[i] || airlines[0],
         airline: airlines[i] || airlines[0],
-        flightNumber: `${['DL', 'UA', 'AA', 'BA', 'EK'][i] || 'DL'}${Math.floor(Math.random() * 9000) + 1000}`,
-        price: Math.floor(basePrice * priceMultiplier * (0.8 + Math.random() * 0.4)),
+        flightNumber: `${['DL', 'UA', 'AA', 'BA', 'EK'][i] || 'DL'}${rng.int(1000, 9999)}`,
+        price: Math.floor(basePrice * priceMultiplier * rng.float(0.8, 1.2)),
         currency: params.currency,
         duration: `${Math.floor(travelTimeHours)}h ${Math.floor((travelTimeHours % 1) * 60)}m`,
         departure: {
@@ -270,17 +278,17 @@ async function getFlights(params: {
           airport: isPremium ? 'International Airport' : 'Airport',
           city: params.to,
         },
-        stops: Math.random() > 0.6 ? 0 : 1,
-        rating: 4.0 + Math.random() * 1.0,
+        stops: rng.chance(0.4) ? 0 : 1,
+        rating: rng.float(4, 5),
         bookingLink: 'https://booking.com',
         baggage: {
           carry: true,
-          checked: Math.random() > 0.3,
+          checked: rng.chance(0.7),
         },
         amenities: isPremium 
           ? ['WiFi', 'Entertainment', 'Meals', 'Premium Seating']
           : ['WiFi', 'Entertainment'],
-        score: (isPremium ? 8.5 : 7.5) + Math.random() * 1.0,
+        score: (isPremium ? 8.5 : 7.5) + rng.float(0, 1),
         co2Emissions: Math.floor(distance * 0.15), // Higher emissions
         comfort: isPremium ? 'Business' : 'Economy'
       });
@@ -364,6 +372,7 @@ export async function POST(request: NextRequest) {
           id: journey.id,
           type: journey.segments[0]?.mode as 'flight' | 'train' | 'bus',
           provider: journey.segments[0]?.provider || 'Unknown',
+          provenance: journey.provenance,
           airline: journey.segments[0]?.provider,
           flightNumber: journey.segments[0]?.vehicle?.name,
           trainNumber: journey.segments[0]?.vehicle?.name,
@@ -381,11 +390,11 @@ export async function POST(request: NextRequest) {
             city: journey.segments[journey.segments.length - 1]?.to.name,
           },
           stops: journey.transfers,
-          rating: Math.min(5, Math.max(1, Math.random() * 2 + 3)), // Mock rating 3-5
+          rating: Math.max(1, 4.5 - journey.transfers * 0.5),
           bookingLink: journey.segments[0]?.bookingInfo?.bookingUrl,
           baggage: journey.segments[0]?.mode === 'flight' ? { carry: true, checked: true } : undefined,
           amenities: journey.segments[0]?.vehicle?.amenities || [],
-          score: 8.5 - (journey.transfers * 0.5) + (Math.random() * 1),
+          score: 8.5 - (journey.transfers * 0.5),
           co2Emissions: journey.carbonFootprint.total,
           comfort: journey.segments[0]?.price?.priceClass || 'Standard'
         }));
@@ -426,8 +435,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Fallback to legacy search methods
+    // Fallback to legacy search methods. These only generate sample fares, so
+    // they never run outside sandbox mode.
     const legacySearchParams = searchParams as any; // Cast for legacy compatibility
+    const sandbox = isSandboxMode();
 
     // Initialize transport search manager for legacy support
     const transportManager = new TransportSearchManager({
@@ -435,7 +446,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Search flights if requested
-    if (legacySearchParams.transportTypes?.includes('flight')) {
+    if (sandbox && legacySearchParams.transportTypes?.includes('flight')) {
       try {
         const flights = await getFlights({
           from: legacySearchParams.from,
@@ -453,7 +464,7 @@ export async function POST(request: NextRequest) {
 
     // Search trains and buses using legacy TransportSearchManager
     const transportTypes = legacySearchParams.transportTypes?.filter((type: string) => ['train', 'bus'].includes(type)) as ('train' | 'bus')[];
-    if (transportTypes && transportTypes.length > 0) {
+    if (sandbox && transportTypes && transportTypes.length > 0) {
       try {
         const transportSearchResult = await transportManager.searchTransport({
           from: legacySearchParams.from,
@@ -470,6 +481,7 @@ export async function POST(request: NextRequest) {
           id: result.id,
           type: result.type,
           provider: result.provider,
+          provenance: 'synthetic',
           airline: result.operatorName,
           flightNumber: result.routeNumber,
           trainNumber: result.routeNumber,
@@ -533,6 +545,8 @@ export async function POST(request: NextRequest) {
         requestProcessingTime: Date.now() - startTime,
         apiVersion: '2.3.0-legacy',
         timestamp: new Date().toISOString(),
+        sandbox,
+        warnings: sandbox ? [] : ['No live transport providers are available for this route'],
         features: ['multi-modal-search', 'price-comparison', 'carbon-footprint', 'legacy-compatibility']
       }
     }, {
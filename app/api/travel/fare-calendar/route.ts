@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  createUnifiedTravelOrchestrator,
+  UnifiedTravelSearchQuerySchema,
+} from "@/lib/services/unified-travel-orchestrator";
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceededResponse, type RateLimitOptions } from "@/lib/security/rate-limit";
+
+// Each calendar fans out into up to 49 flight and hotel searches
+const FARE_CALENDAR_RATE_LIMIT: RateLimitOptions = {
+  name: 'fare-calendar',
+  windowMs: 15 * 60 * 1000,
+  maxRequests: { free: 5, starter: 20, pro: 40 },
+  message: 'Too many fare calendar searches, please try again later'
+};
+
+// POST: Cheapest fare per departure/return pair around the journey dates,
+// combined with hotel stays of matching length when hotels are requested
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const rateLimit = await checkRateLimit(request, FARE_CALENDAR_RATE_LIMIT);
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, FARE_CALENDAR_RATE_LIMIT.message);
+    }
+
+    const query = UnifiedTravelSearchQuerySchema.parse(await request.json());
+    if (query.journey.returnDate && query.journey.returnDate <= query.journey.departureDate) {
+      return NextResponse.json(
+        { error: 'Invalid return date', message: 'Return date must be after departure date' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await createUnifiedTravelOrchestrator().searchFareCalendar(query);
+
+    return NextResponse.json(
+      { success: true, calendar },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid fare calendar query', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Fare calendar search failed:', error);
+    return NextResponse.json(
+      { error: 'Fare calendar search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -23,14 +23,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
-import { withCache } from '@/lib/cache/cache-middleware';
 import { createPerformanceOptimizer, measurePerformance } from '@/lib/cache/performance-optimizer';
 import { 
   createUnifiedTravelOrchestrator, 
   UnifiedTravelSearchQuerySchema,
   type UnifiedTravelSearchQuery 
 } from '@/lib/services/unified-travel-orchestrator';
+import { validateJourneyLegs } from '@/lib/services/multi-city-itinerary';
 import { APIMonitor } from '@/lib/monitoring/api-monitor';
+import { checkRateLimit, getRateLimitHeaders, rateLimitExceededResponse, type RateLimitOptions } from '@/lib/security/rate-limit';
 
 // ==================== REQUEST VALIDATION ====================
 
@@ -55,35 +56,14 @@ const UnifiedSearchRequestSchema = UnifiedTravelSearchQuerySchema.extend({
 
 // ==================== RATE LIMITING ====================
 
-const RATE_LIMIT_CONFIG = {
+// Comprehensive searches per user per 15 minutes
+const UNIFIED_SEARCH_RATE_LIMIT: RateLimitOptions = {
+  name: 'unified-search',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 10, // 10 comprehensive searches per 15 minutes per IP
+  maxRequests: { free: 10, starter: 30, pro: 60 },
   message: 'Too many comprehensive travel searches, please try again later'
 };
 
-// In-memory rate limiting store (use Redis in production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(identifier: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(identifier);
-  
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_CONFIG.windowMs
-    });
-    return true;
-  }
-  
-  if (record.count >= RATE_LIMIT_CONFIG.maxRequests) {
-    return false;
-  }
-  
-  record.count++;
-  return true;
-}
-
 // Enhanced logging function
 async function logApiRequest(logData: any) {
   console.log('[Unified Travel API Request]', {
@@ -120,8 +100,8 @@ export async function GET(request: NextRequest) {
       'comprehensive-error-handling'
     ],
     limits: {
-      maxSearchesPerWindow: RATE_LIMIT_CONFIG.maxRequests,
-      windowDuration: `${RATE_LIMIT_CONFIG.windowMs / 60000} minutes`,
+      maxSearchesPerWindow: UNIFIED_SEARCH_RATE_LIMIT.maxRequests,
+      windowDuration: `${UNIFIED_SEARCH_RATE_LIMIT.windowMs / 60000} minutes`,
       maxPassengers: 9,
       maxChildren: 8,
       maxResultsPerService: 50,
@@ -154,7 +134,7 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
       }, { status: 401 });
     }
 
-    // Extract client information for rate limiting and analytics
+    // Extract client information for analytics
     const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
                      request.headers.get('x-real-ip') || 
                      request.headers.get('cf-connecting-ip') ||
@@ -162,8 +142,9 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
     const userAgent = request.headers.get('user-agent') || 'unknown';
     const country = request.headers.get('cf-ipcountry') || 'unknown';
 
-    // Rate limiting with enhanced tracking
-    if (!checkRateLimit(`${clientIP}_${userId}`)) {
+    // Rate limiting per user and plan
+    const rateLimit = await checkRateLimit(request, UNIFIED_SEARCH_RATE_LIMIT);
+    if (!rateLimit.allowed) {
       await logApiRequest({
         requestId,
         endpoint: '/api/travel/unified',
@@ -177,26 +158,7 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
         error: 'Rate limit exceeded'
       });
       
-      return NextResponse.json({
-        error: 'Rate limit exceeded',
-        message: RATE_LIMIT_CONFIG.message,
-        retryAfter: Math.ceil(RATE_LIMIT_CONFIG.windowMs / 1000),
-        code: 'RATE_LIMIT_EXCEEDED',
-        limits: {
-          current: rateLimitStore.get(`${clientIP}_${userId}`)?.count || 0,
-          max: RATE_LIMIT_CONFIG.maxRequests,
-          windowMs: RATE_LIMIT_CONFIG.windowMs,
-          resetAt: new Date(Date.now() + RATE_LIMIT_CONFIG.windowMs).toISOString()
-        }
-      }, { 
-        status: 429,
-        headers: {
-          'Retry-After': Math.ceil(RATE_LIMIT_CONFIG.windowMs / 1000).toString(),
-          'X-RateLimit-Limit': RATE_LIMIT_CONFIG.maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil((Date.now() + RATE_LIMIT_CONFIG.windowMs) / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimit, UNIFIED_SEARCH_RATE_LIMIT.message);
     }
 
     // Parse and validate request body
@@ -261,6 +223,18 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
       }, { status: 400 });
     }
 
+    // Multi-city legs must be in date order and each go somewhere
+    if (validatedQuery.journey.legs) {
+      const legProblems = validateJourneyLegs(validatedQuery.journey.legs);
+      if (legProblems.length > 0) {
+        return NextResponse.json({
+          error: 'Invalid journey legs',
+          message: legProblems.join('; '),
+          code: 'INVALID_LEGS'
+        }, { status: 400 });
+      }
+    }
+
     // Maximum advance booking validation (1 year)
     const oneYearFromNow = new Date();
     oneYearFromNow.setFullYear(oneYearFromNow.getFullYear() + 1);
@@ -412,9 +386,7 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
       status: 200,
       headers: {
         'X-Request-ID': requestId,
-        'X-RateLimit-Limit': RATE_LIMIT_CONFIG.maxRequests.toString(),
-        'X-RateLimit-Remaining': (RATE_LIMIT_CONFIG.maxRequests - (rateLimitStore.get(`${clientIP}_${userId}`)?.count || 0)).toString(),
-        'X-RateLimit-Reset': Math.ceil((Date.now() + RATE_LIMIT_CONFIG.windowMs) / 1000).toString(),
+        ...getRateLimitHeaders(rateLimit),
         'X-Search-Time': searchResults.meta.searchTime.toString(),
         'X-Total-Offers': searchResults.meta.totalOffers.toString(),
         'X-Quality-Score': Math.round(searchResults.meta.qualityMetrics.dataCompleteness).toString(),
@@ -470,14 +442,8 @@ async function handleUnifiedTravelSearch(request: NextRequest): Promise<NextResp
   }
 }
 
-// Export the cached POST handler
-export const POST = withCache(handleUnifiedTravelSearch, {
-  enableStaleWhileRevalidate: true,
-  enableRequestDeduplication: true,
-  enablePerformanceMonitoring: true,
-  defaultTTL: 300, // 5 minutes for comprehensive travel search
-  includePatterns: [/\/api\/travel\/unified/]
-});
+// Results are cached by the orchestrator, after auth and rate limiting
+export const POST = handleUnifiedTravelSearch;
 
 // ==================== OPTIONS HANDLER FOR CORS ====================
 
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import type { CalendarFeed } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import {
+  CALENDAR_REFRESH_MINUTES,
+  createCalendarFeed,
+  getCalendarFeed,
+  getCalendarFeedUrls,
+  revokeCalendarFeed,
+} from "@/lib/calendar/trip-feed";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+function serializeFeed(feed: CalendarFeed) {
+  return {
+    ...getCalendarFeedUrls(feed.token),
+    refreshMinutes: CALENDAR_REFRESH_MINUTES,
+    lastAccessedAt: feed.lastAccessedAt,
+    createdAt: feed.createdAt,
+    updatedAt: feed.updatedAt,
+  };
+}
+
+/**
+ * Feeds are personal: any member of the trip manages their own, and it
+ * shows the bookings that member made
+ */
+async function authorizeMember(tripId: string): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { userId } = auth();
+
+  if (!userId) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!isDatabaseAvailable()) {
+    return {
+      response: NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      ),
+    };
+  }
+
+  if (!z.string().uuid().safeParse(tripId).success) {
+    return {
+      response: NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const access = await requireTripRole(tripId, userId, 'viewer');
+  if (access.response) {
+    return { response: access.response };
+  }
+
+  return { userId };
+}
+
+// GET: The caller's calendar feed for the trip, if they created one
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const member = await authorizeMember(params.id);
+    if (member.response) {
+      return member.response;
+    }
+
+    const feed = await getCalendarFeed(params.id, member.userId);
+
+    return NextResponse.json({
+      success: true,
+      feed: feed ? serializeFeed(feed) : null,
+    });
+
+  } catch (error) {
+    console.error('Failed to get calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to get calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create the feed, or rotate its secret URL
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const member = await authorizeMember(params.id);
+    if (member.response) {
+      return member.response;
+    }
+
+    const feed = await createCalendarFeed(params.id, member.userId);
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Failed to create calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      feed: serializeFeed(feed),
+    });
+
+  } catch (error) {
+    console.error('Failed to create calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Revoke the feed; subscribed calendars stop updating
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const member = await authorizeMember(params.id);
+    if (member.response) {
+      return member.response;
+    }
+
+    const revoked = await revokeCalendarFeed(params.id, member.userId);
+
+    if (revoked === null) {
+      return NextResponse.json(
+        { error: 'Failed to revoke calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Calendar feed revoked' });
+
+  } catch (error) {
+    console.error('Failed to revoke calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { tripCollaborators } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { emitCacheEvent } from "@/lib/cache/namespaces";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const updateCollaboratorSchema = z.object({
+  role: z.enum(['editor', 'viewer']),
+});
+
+type RouteContext = { params: { id: string; userId: string } };
+
+// PATCH: Change a collaborator's role (owner only)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    const { role } = updateCollaboratorSchema.parse(await request.json());
+
+    const updated = await withDatabase(async (db) => {
+      return await db
+        .update(tripCollaborators)
+        .set({ role, updatedAt: new Date() })
+        .where(and(
+          eq(tripCollaborators.tripId, params.id),
+          eq(tripCollaborators.userId, params.userId)
+        ))
+        .returning();
+    });
+
+    if (!updated || updated.length === 0) {
+      return NextResponse.json(
+        { error: 'Collaborator not found' },
+        { status: 404 }
+      );
+    }
+
+    await emitCacheEvent('trip.collaborators_changed', { tripId: params.id, userIds: [params.userId] });
+
+    return NextResponse.json({ success: true, collaborator: updated[0] });
+
+  } catch (error) {
+    console.error('Failed to update collaborator:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid collaborator data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update collaborator' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Revoke a collaborator's access (owner), or leave a trip (self)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const isLeaving = params.userId === userId;
+    const access = await requireTripRole(params.id, userId, isLeaving ? 'viewer' : 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    if (isLeaving && access.role === 'owner') {
+      return NextResponse.json(
+        { error: 'The trip owner cannot leave their own trip' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await withDatabase(async (db) => {
+      return await db
+        .delete(tripCollaborators)
+        .where(and(
+          eq(tripCollaborators.tripId, params.id),
+          eq(tripCollaborators.userId, params.userId)
+        ))
+        .returning();
+    });
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Collaborator not found' },
+        { status: 404 }
+      );
+    }
+
+    await emitCacheEvent('trip.collaborators_changed', { tripId: params.id, userIds: [params.userId] });
+
+    return NextResponse.json({
+      success: true,
+      message: isLeaving ? 'Left trip' : 'Collaborator removed',
+    });
+
+  } catch (error) {
+    console.error('Failed to remove collaborator:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove collaborator' },
+      { status: 500 }
+    );
+  }
+}
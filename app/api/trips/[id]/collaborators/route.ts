@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips, tripCollaborators, users, profiles } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// GET: List the trip owner and collaborators (any role)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const result = await withDatabase(async (db) => {
+      const [owner] = await db
+        .select({
+          userId: trips.userId,
+          email: users.email,
+          displayName: profiles.displayName,
+          createdAt: trips.createdAt,
+        })
+        .from(trips)
+        .leftJoin(users, eq(users.id, trips.userId))
+        .leftJoin(profiles, eq(profiles.userId, trips.userId))
+        .where(eq(trips.id, params.id))
+        .limit(1);
+
+      const collaborators = await db
+        .select({
+          userId: tripCollaborators.userId,
+          role: tripCollaborators.role,
+          email: users.email,
+          displayName: profiles.displayName,
+          invitedBy: tripCollaborators.invitedBy,
+          createdAt: tripCollaborators.createdAt,
+        })
+        .from(tripCollaborators)
+        .leftJoin(users, eq(users.id, tripCollaborators.userId))
+        .leftJoin(profiles, eq(profiles.userId, tripCollaborators.userId))
+        .where(eq(tripCollaborators.tripId, params.id));
+
+      return { owner, collaborators };
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to get collaborators' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      role: access.role,
+      collaborators: [
+        { ...result.owner, role: 'owner' },
+        ...result.collaborators,
+      ],
+    });
+
+  } catch (error) {
+    console.error('Failed to get collaborators:', error);
+    return NextResponse.json(
+      { error: 'Failed to get collaborators' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { requireTripRole, type TripRole } from "@/lib/auth/trip-access";
+import { documentResultResponse } from "@/lib/documents/api-responses";
+import {
+  deleteTripDocument,
+  getTripDocumentFile,
+  tripDocumentUpdateSchema,
+  updateTripDocument,
+} from "@/lib/documents/trip-documents";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string; documentId: string } };
+
+/**
+ * Shared checks for a single document: signed in, database available, valid
+ * IDs and at least the given role on the trip
+ */
+async function authorize(params: RouteContext['params'], required: TripRole): Promise<NextResponse | null> {
+  const { userId } = auth();
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!isDatabaseAvailable()) {
+    return NextResponse.json(
+      { error: 'Service temporarily unavailable', details: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  const uuid = z.string().uuid();
+  if (!uuid.safeParse(params.id).success || !uuid.safeParse(params.documentId).success) {
+    return NextResponse.json(
+      { error: 'Document not found' },
+      { status: 404 }
+    );
+  }
+
+  const access = await requireTripRole(params.id, userId, required);
+  return access.response || null;
+}
+
+// GET: Download a document (any role)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const denied = await authorize(params, 'viewer');
+    if (denied) {
+      return denied;
+    }
+
+    const stored = await getTripDocumentFile(params.id, params.documentId);
+
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const disposition = request.nextUrl.searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+    return new NextResponse(new Uint8Array(stored.file.data), {
+      headers: {
+        'Content-Type': stored.document.contentType,
+        'Content-Disposition': `${disposition}; filename="${encodeURIComponent(stored.document.fileName)}"`,
+        'Content-Length': String(stored.file.data.length),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to download document:', error);
+    return NextResponse.json(
+      { error: 'Failed to download document' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Rename, reclassify or relink a document (editor or owner)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const denied = await authorize(params, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const update = tripDocumentUpdateSchema.parse(await request.json());
+    return documentResultResponse(await updateTripDocument(params.id, params.documentId, update));
+
+  } catch (error) {
+    console.error('Failed to update document:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid document data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a document and its file (editor or owner)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const denied = await authorize(params, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const deleted = await deleteTripDocument(params.id, params.documentId);
+
+    if (deleted === null) {
+      return NextResponse.json(
+        { error: 'Failed to delete document' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Failed to delete document:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
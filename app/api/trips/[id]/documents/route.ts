@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { listBookings, VOUCHER_STATUSES } from "@/lib/booking/bookings";
+import { readCappedForm } from "@/lib/api/multipart";
+import { documentResultResponse } from "@/lib/documents/api-responses";
+import {
+  createTripDocument,
+  listTripDocuments,
+  MAX_DOCUMENT_BYTES,
+  tripDocumentMetadataSchema,
+} from "@/lib/documents/trip-documents";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// Form fields arrive as strings; an empty string clears a link
+function formField(form: FormData, name: string): string | null | undefined {
+  const value = form.get(name);
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  return value.trim() === '' ? null : value;
+}
+
+// GET: Documents of a trip (any role), plus vouchers for the caller's bookings on it
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const [documents, bookings] = await Promise.all([
+      listTripDocuments(params.id),
+      listBookings(userId, { tripId: params.id }),
+    ]);
+
+    if (!documents) {
+      return NextResponse.json(
+        { error: 'Failed to get documents' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      role: access.role,
+      documents,
+      vouchers: bookings
+        .filter(({ booking }) => VOUCHER_STATUSES.includes(booking.status))
+        .map(({ booking }) => ({
+          bookingId: booking.id,
+          reference: booking.reference,
+          status: booking.status,
+          downloadUrl: `/api/bookings/${booking.id}/voucher`,
+        })),
+    });
+
+  } catch (error) {
+    console.error('Failed to get documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to get documents' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Upload a document as multipart form data (editor or owner)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'editor');
+    if (access.response) {
+      return access.response;
+    }
+
+    // Reject oversized uploads up front when they say so, and otherwise
+    // stop reading once the body passes the cap
+    const maxBodyBytes = MAX_DOCUMENT_BYTES + 64 * 1024;
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    const form = contentLength > maxBodyBytes ? 'too_large' : await readCappedForm(request, maxBodyBytes);
+    if (form === 'too_large') {
+      return documentResultResponse({ status: 'too_large', maxBytes: MAX_DOCUMENT_BYTES });
+    }
+
+    const file = form?.get('file');
+    if (!form || !file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Invalid document data', details: 'Send the file as multipart form data in the "file" field' },
+        { status: 400 }
+      );
+    }
+
+    const metadata = tripDocumentMetadataSchema.parse({
+      kind: formField(form, 'kind') ?? undefined,
+      title: formField(form, 'title') ?? undefined,
+      itineraryItemId: formField(form, 'itineraryItemId'),
+      bookingId: formField(form, 'bookingId'),
+    });
+
+    const result = await createTripDocument(params.id, userId, {
+      ...metadata,
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return documentResultResponse(result);
+
+  } catch (error) {
+    console.error('Failed to upload document:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid document data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    );
+  }
+}
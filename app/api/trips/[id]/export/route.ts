@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { TripExportService, EXPORT_FORMATS, type ExportFormat } from "@/lib/services/trip-export";
+import { loadTripExportData } from "@/lib/services/trip-export-data";
+import { canExportFormat, getExportFormatTier } from "@/lib/subscription/config";
+import { consumeQuota, getMeteringContext, releaseQuota, withQuotaHeaders } from "@/lib/subscription/metering";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+type RouteContext = { params: { id: string } };
+
+// Binary formats that can get large are streamed; the rest are small enough
+// to build up front and return a proper error when they fail
+const STREAMED_FORMATS: ExportFormat[] = ['pdf', 'docx'];
+
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true').optional();
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  version: z.coerce.number().int().positive().optional(),
+  includeRoute: booleanParam,
+  includeAccommodations: booleanParam,
+  includeActivities: booleanParam,
+  includeDining: booleanParam,
+  includeNotes: booleanParam,
+  language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).optional(),
+});
+
+// GET: Render the trip's stored itinerary in an export format (any role).
+// Each export counts against the monthly `exports` quota, and formats are
+// limited by subscription tier.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (!z.string().uuid().safeParse(params.id).success) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    const { format, version, ...include } = exportQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const context = await getMeteringContext(userId);
+    if (!canExportFormat(context.tier, format)) {
+      const requiredTier = getExportFormatTier(format);
+      return NextResponse.json(
+        {
+          error: `${format.toUpperCase()} export is not included in your plan`,
+          code: 'EXPORT_FORMAT_UNAVAILABLE',
+          details: `Upgrade to ${requiredTier} to export as ${format.toUpperCase()}`,
+          format,
+          tier: context.tier,
+          requiredTier,
+          upgradeRequired: true,
+        },
+        { status: 402 }
+      );
+    }
+
+    const loaded = await loadTripExportData(params.id, version);
+
+    if (!loaded) {
+      return NextResponse.json(
+        { error: 'Failed to export trip' },
+        { status: 500 }
+      );
+    }
+
+    if (loaded.status === 'not_found') {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    if (loaded.status === 'version_not_found') {
+      return NextResponse.json(
+        { error: 'Itinerary version not found', details: `Version ${loaded.version} does not exist` },
+        { status: 404 }
+      );
+    }
+
+    const metered = await consumeQuota(userId, 'exports', 1, context);
+    if (!metered.allowed) {
+      return metered.response;
+    }
+
+    const service = new TripExportService();
+    const options = { format, ...include };
+    const headers: Record<string, string> = {
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+      ...(loaded.version !== null && { 'X-Itinerary-Version': String(loaded.version) }),
+    };
+
+    // A streamed export that fails has already sent its headers, so it
+    // aborts the body and gives the quota back from the stream
+    if (STREAMED_FORMATS.includes(format)) {
+      const { stream, filename, mimeType } = service.exportTripStream(loaded.tripData, options, async (error) => {
+        console.error('Failed to export trip:', error);
+        await releaseQuota(userId, 'exports', 1, context);
+      });
+      return withQuotaHeaders(new NextResponse(stream, {
+        headers: {
+          ...headers,
+          'Content-Type': mimeType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      }), metered.quota);
+    }
+
+    const result = await service.exportTrip(loaded.tripData, options);
+
+    if (!result.success || result.data === undefined) {
+      await releaseQuota(userId, 'exports', 1, context);
+      console.error('Failed to export trip:', result.error);
+      return NextResponse.json(
+        { error: 'Failed to export trip', details: result.error },
+        { status: 500 }
+      );
+    }
+
+    // The printable page opens in the browser, locked down to its inline
+    // styles; everything else downloads
+    const disposition = format === 'html' ? 'inline' : 'attachment';
+    if (format === 'html') {
+      headers['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'";
+    }
+    return withQuotaHeaders(new NextResponse(result.data, {
+      headers: {
+        ...headers,
+        'Content-Type': result.mimeType,
+        'Content-Disposition': `${disposition}; filename="${result.filename}"`,
+        'Content-Length': String(result.size),
+      },
+    }), metered.quota);
+
+  } catch (error) {
+    console.error('Failed to export trip:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid export options', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to export trip' },
+      { status: 500 }
+    );
+  }
+}
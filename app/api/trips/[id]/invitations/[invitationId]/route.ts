@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { and, eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { tripInvitations } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// DELETE: Revoke a pending invitation (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; invitationId: string } }
+) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    const revoked = await withDatabase(async (db) => {
+      return await db
+        .update(tripInvitations)
+        .set({ status: 'revoked', revokedAt: new Date() })
+        .where(and(
+          eq(tripInvitations.id, params.invitationId),
+          eq(tripInvitations.tripId, params.id),
+          eq(tripInvitations.status, 'pending')
+        ))
+        .returning({ id: tripInvitations.id });
+    });
+
+    if (!revoked || revoked.length === 0) {
+      return NextResponse.json(
+        { error: 'Pending invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Invitation revoked' });
+
+  } catch (error) {
+    console.error('Failed to revoke invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
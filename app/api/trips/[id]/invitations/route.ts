@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips, tripCollaborators, tripInvitations, users } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const createInvitationSchema = z.object({
+  email: z.string().email().max(255),
+  role: z.enum(['editor', 'viewer']).default('viewer'),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
+});
+
+type RouteContext = { params: { id: string } };
+
+function getInviteUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${appUrl}/trips/invitations/${token}`;
+}
+
+// GET: List invitations for a trip (owner only)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json({ success: true, invitations: [] });
+    }
+
+    const access = await requireTripRole(params.id, userId, 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    const invitations = await withDatabase(async (db) => {
+      return await db
+        .select({
+          id: tripInvitations.id,
+          email: tripInvitations.email,
+          role: tripInvitations.role,
+          status: tripInvitations.status,
+          expiresAt: tripInvitations.expiresAt,
+          acceptedAt: tripInvitations.acceptedAt,
+          revokedAt: tripInvitations.revokedAt,
+          createdAt: tripInvitations.createdAt,
+        })
+        .from(tripInvitations)
+        .where(eq(tripInvitations.tripId, params.id))
+        .orderBy(desc(tripInvitations.createdAt))
+        .limit(50);
+    });
+
+    const now = new Date();
+    return NextResponse.json({
+      success: true,
+      invitations: (invitations || []).map(invitation => ({
+        ...invitation,
+        // Expiry is applied lazily; report it even before the row is updated
+        status: invitation.status === 'pending' && invitation.expiresAt < now ? 'expired' : invitation.status,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Failed to get invitations:', error);
+    return NextResponse.json(
+      { error: 'Failed to get invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Invite someone to collaborate on a trip (owner only)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    const body = await request.json();
+    const invitationData = createInvitationSchema.parse(body);
+    const email = invitationData.email.trim().toLowerCase();
+
+    const result = await withDatabase(async (db) => {
+      // Refuse to invite someone who already has access
+      const [existingMember] = await db
+        .select({
+          userId: users.id,
+          ownerId: trips.userId,
+          collaboratorId: tripCollaborators.id,
+        })
+        .from(users)
+        .innerJoin(trips, eq(trips.id, params.id))
+        .leftJoin(
+          tripCollaborators,
+          and(eq(tripCollaborators.tripId, params.id), eq(tripCollaborators.userId, users.id))
+        )
+        .where(sql`lower(${users.email}) = ${email}`)
+        .limit(1);
+
+      if (existingMember && (existingMember.ownerId === existingMember.userId || existingMember.collaboratorId)) {
+        return { conflict: true as const };
+      }
+
+      return await db.transaction(async (tx) => {
+        // Re-inviting replaces any outstanding invitation for the same email
+        await tx
+          .update(tripInvitations)
+          .set({ status: 'revoked', revokedAt: new Date() })
+          .where(and(
+            eq(tripInvitations.tripId, params.id),
+            eq(tripInvitations.email, email),
+            eq(tripInvitations.status, 'pending')
+          ));
+
+        const [invitation] = await tx
+          .insert(tripInvitations)
+          .values({
+            tripId: params.id,
+            email,
+            role: invitationData.role,
+            token: randomBytes(24).toString('hex'),
+            invitedBy: userId,
+            expiresAt: new Date(Date.now() + invitationData.expiresInDays * 24 * 60 * 60 * 1000),
+          })
+          .returning();
+
+        return { conflict: false as const, invitation };
+      });
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Failed to create invitation' },
+        { status: 500 }
+      );
+    }
+
+    if (result.conflict) {
+      return NextResponse.json(
+        { error: 'This person already has access to the trip' },
+        { status: 409 }
+      );
+    }
+
+    const { invitation } = result;
+    return NextResponse.json({
+      success: true,
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+        inviteUrl: getInviteUrl(invitation.token),
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to create invitation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid invitation data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { getItineraryVersion, restoreItineraryVersion } from "@/lib/planning/itinerary-versions";
+import { resetItineraryOpLog } from "@/lib/collaboration/itinerary-op-log";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+import { emitCacheEvent } from "@/lib/cache/namespaces";
+
+// POST: Restore a past itinerary version as the newest version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const version = Number(params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: 'Invalid version' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'editor');
+    if (access.response) {
+      return access.response;
+    }
+
+    if (!await getItineraryVersion(params.id, version)) {
+      return NextResponse.json(
+        { error: 'Itinerary version not found' },
+        { status: 404 }
+      );
+    }
+
+    const itinerary = await restoreItineraryVersion(params.id, version, userId);
+    if (!itinerary) {
+      return NextResponse.json(
+        { error: 'Failed to restore itinerary version' },
+        { status: 500 }
+      );
+    }
+
+    await withDatabase(async (db) => {
+      await db
+        .update(trips)
+        .set({ updatedAt: new Date() })
+        .where(eq(trips.id, params.id));
+    });
+    await resetItineraryOpLog(params.id);
+    await emitCacheEvent('trip.updated', { tripId: params.id });
+
+    return NextResponse.json({
+      success: true,
+      itinerary: {
+        version: itinerary.version,
+        restoredFrom: itinerary.restoredFrom,
+        createdBy: itinerary.createdBy,
+        createdAt: itinerary.createdAt,
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to restore itinerary version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore itinerary version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isDatabaseAvailable } from "@/lib/db";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { getItineraryVersion } from "@/lib/planning/itinerary-versions";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// GET: Fetch one itinerary version ("latest" for the newest)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const version = params.version === 'latest' ? undefined : Number(params.version);
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid version' },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const itinerary = await getItineraryVersion(params.id, version);
+    if (!itinerary) {
+      return NextResponse.json(
+        { error: 'Itinerary version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, itinerary });
+
+  } catch (error) {
+    console.error('Failed to get itinerary version:', error);
+    return NextResponse.json(
+      { error: 'Failed to get itinerary version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { diffItineraries, getItineraryVersion } from "@/lib/planning/itinerary-versions";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// GET: Summarise changes between two itinerary versions (?from=1&to=3;
+// `to` defaults to the latest version)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = diffQuerySchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const [from, to] = await Promise.all([
+      getItineraryVersion(params.id, query.from),
+      getItineraryVersion(params.id, query.to),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'Itinerary version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      from: from.version,
+      to: to.version,
+      diff: diffItineraries(from.data, to.data),
+    });
+
+  } catch (error) {
+    console.error('Failed to diff itinerary versions:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid version range', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to diff itinerary versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { appendItineraryVersion, listItineraryVersions } from "@/lib/planning/itinerary-versions";
+import { resetItineraryOpLog } from "@/lib/collaboration/itinerary-op-log";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+import { deepSanitize } from "@/lib/security/sanitize";
+import { emitCacheEvent } from "@/lib/cache/namespaces";
+
+const saveItinerarySchema = z.object({
+  data: z.record(z.any()),
+  locks: z.record(z.any()).nullable().optional(),
+});
+
+type RouteContext = { params: { id: string } };
+
+// GET: List itinerary versions for a trip, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json({ success: true, versions: [] });
+    }
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const versions = await listItineraryVersions(params.id);
+
+    return NextResponse.json({ success: true, versions });
+
+  } catch (error) {
+    console.error('Failed to list itinerary versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list itinerary versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save an edited itinerary as a new version
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'editor');
+    if (access.response) {
+      return access.response;
+    }
+
+    const body = await request.json();
+    const itineraryData = saveItinerarySchema.parse(body);
+
+    const itinerary = await appendItineraryVersion(params.id, {
+      data: deepSanitize(itineraryData.data),
+      locks: itineraryData.locks ? deepSanitize(itineraryData.locks) : null,
+      source: 'edit',
+      createdBy: userId,
+    });
+
+    if (!itinerary) {
+      return NextResponse.json(
+        { error: 'Failed to save itinerary' },
+        { status: 500 }
+      );
+    }
+
+    await withDatabase(async (db) => {
+      await db
+        .update(trips)
+        .set({ updatedAt: new Date() })
+        .where(eq(trips.id, params.id));
+    });
+    await resetItineraryOpLog(params.id);
+    await emitCacheEvent('trip.updated', { tripId: params.id });
+
+    return NextResponse.json({
+      success: true,
+      itinerary: {
+        version: itinerary.version,
+        source: itinerary.source,
+        createdBy: itinerary.createdBy,
+        createdAt: itinerary.createdAt,
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to save itinerary:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid itinerary data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save itinerary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,277 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import { getItineraryVersion } from "@/lib/planning/itinerary-versions";
+import { deleteTripRecords } from "@/lib/planning/trip-deletion";
+import { emitCacheEvent } from "@/lib/cache/namespaces";
+import { deleteTripDocumentFiles } from "@/lib/documents/trip-documents";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+import { sanitizeString } from "@/lib/security/sanitize";
+
+const updateTripSchema = z.object({
+  title: z.string().min(1).max(160).optional(),
+  destinations: z.array(z.object({
+    city: z.string(),
+    country: z.string(),
+    lat: z.number(),
+    lng: z.number(),
+  })).min(1).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  tripType: z.enum(['leisure', 'business', 'adventure', 'cultural']).optional(),
+  budgetTotal: z.number().int().positive().nullable().optional(),
+  budgetCurrency: z.enum(['INR', 'USD', 'EUR', 'GBP']).optional(),
+  status: z.enum(['draft', 'generated', 'shared', 'archived']).optional(),
+});
+
+type RouteContext = { params: { id: string } };
+
+// GET: Fetch a trip with its latest itinerary version
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'viewer');
+    if (access.response) {
+      return access.response;
+    }
+
+    const [tripRows, itinerary] = await Promise.all([
+      withDatabase(async (db) => {
+        return await db
+          .select()
+          .from(trips)
+          .where(eq(trips.id, params.id))
+          .limit(1);
+      }),
+      getItineraryVersion(params.id),
+    ]);
+
+    if (!tripRows || tripRows.length === 0) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      role: access.role,
+      trip: tripRows[0],
+      itinerary: itinerary
+        ? {
+            version: itinerary.version,
+            data: itinerary.data,
+            locks: itinerary.locks,
+            source: itinerary.source,
+            createdBy: itinerary.createdBy,
+            createdAt: itinerary.createdAt,
+          }
+        : null,
+    });
+
+  } catch (error) {
+    console.error('Failed to get trip:', error);
+    return NextResponse.json(
+      { error: 'Failed to get trip' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Update trip details. Editors may edit; archiving is owner only.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const updates = updateTripSchema.parse(body);
+
+    const archiving = updates.status === 'archived';
+    const access = await requireTripRole(params.id, userId, archiving ? 'owner' : 'editor');
+    if (access.response) {
+      return access.response;
+    }
+
+    const existing = await withDatabase(async (db) => {
+      return await db
+        .select({ startDate: trips.startDate, endDate: trips.endDate, status: trips.status })
+        .from(trips)
+        .where(eq(trips.id, params.id))
+        .limit(1);
+    });
+
+    if (!existing || existing.length === 0) {
+      return NextResponse.json(
+        { error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    // Un-archiving is also reserved for the owner
+    if (existing[0].status === 'archived' && updates.status && updates.status !== 'archived' && access.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', details: 'This action requires the owner role' },
+        { status: 403 }
+      );
+    }
+
+    const startDate = updates.startDate ? new Date(updates.startDate) : existing[0].startDate;
+    const endDate = updates.endDate ? new Date(updates.endDate) : existing[0].endDate;
+
+    if (startDate >= endDate) {
+      return NextResponse.json(
+        { error: 'End date must be after start date' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await withDatabase(async (db) => {
+      const [trip] = await db
+        .update(trips)
+        .set({
+          ...(updates.title !== undefined && { title: sanitizeString(updates.title, 160) }),
+          ...(updates.destinations !== undefined && {
+            destinations: updates.destinations.map(dest => ({
+              ...dest,
+              city: sanitizeString(dest.city, 100),
+              country: sanitizeString(dest.country, 100),
+            })),
+          }),
+          ...(updates.startDate !== undefined && { startDate }),
+          ...(updates.endDate !== undefined && { endDate }),
+          ...(updates.tripType !== undefined && { tripType: updates.tripType }),
+          ...(updates.budgetTotal !== undefined && { budgetTotal: updates.budgetTotal }),
+          ...(updates.budgetCurrency !== undefined && { budgetCurrency: updates.budgetCurrency }),
+          ...(updates.status !== undefined && { status: updates.status }),
+          updatedAt: new Date(),
+        })
+        .where(eq(trips.id, params.id))
+        .returning();
+
+      return trip;
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Failed to update trip' },
+        { status: 500 }
+      );
+    }
+
+    await emitCacheEvent('trip.updated', { tripId: params.id });
+
+    return NextResponse.json({ success: true, trip: updated });
+
+  } catch (error) {
+    console.error('Failed to update trip:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid trip data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update trip' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Permanently delete a trip and everything attached to it (owner only)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const access = await requireTripRole(params.id, userId, 'owner');
+    if (access.response) {
+      return access.response;
+    }
+
+    const deleted = await withDatabase(async (db) => {
+      return await db.transaction(async (tx) => deleteTripRecords(tx, [params.id]));
+    });
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Failed to delete trip' },
+        { status: 500 }
+      );
+    }
+
+    await emitCacheEvent('trip.deleted', { tripId: params.id });
+    await deleteTripDocumentFiles([params.id]);
+
+    return NextResponse.json({ success: true, message: 'Trip deleted' });
+
+  } catch (error) {
+    console.error('Failed to delete trip:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete trip' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { isDatabaseAvailable } from "@/lib/db";
+import type { SharedTrip } from "@/lib/database/schema";
+import { requireTripRole } from "@/lib/auth/trip-access";
+import {
+  countShareViews,
+  createShare,
+  getActiveShare,
+  getShareUrl,
+  revokeShare,
+  updateShare,
+} from "@/lib/collaboration/share-links";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+const shareSettingsSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+  password: z.string().min(4).max(128).nullable().optional(),
+  allowComments: z.boolean().optional(),
+});
+
+type RouteContext = { params: { id: string } };
+
+function toExpiresAt(expiresInDays: number | null | undefined): Date | null | undefined {
+  if (expiresInDays === undefined || expiresInDays === null) {
+    return expiresInDays;
+  }
+  return new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+}
+
+async function serializeShare(share: SharedTrip) {
+  return {
+    token: share.id,
+    url: getShareUrl(share.id),
+    expiresAt: share.expiresAt,
+    passwordProtected: Boolean(share.passwordHash),
+    allowComments: share.allowComments,
+    createdAt: share.createdAt,
+    views: await countShareViews(share.tripId),
+  };
+}
+
+async function authorizeOwner(tripId: string): Promise<{ userId: string; response?: undefined } | { userId?: undefined; response: NextResponse }> {
+  const { userId } = auth();
+
+  if (!userId) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!isDatabaseAvailable()) {
+    return {
+      response: NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      ),
+    };
+  }
+
+  const access = await requireTripRole(tripId, userId, 'owner');
+  if (access.response) {
+    return { response: access.response };
+  }
+
+  return { userId };
+}
+
+// GET: Current share link settings and view count (owner only)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const owner = await authorizeOwner(params.id);
+    if (owner.response) {
+      return owner.response;
+    }
+
+    const share = await getActiveShare(params.id);
+
+    return NextResponse.json({
+      success: true,
+      share: share ? await serializeShare(share) : null,
+    });
+
+  } catch (error) {
+    console.error('Failed to get share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to get share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a share link, or rotate the token of an existing one
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const owner = await authorizeOwner(params.id);
+    if (owner.response) {
+      return owner.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const settings = shareSettingsSchema.parse(body);
+
+    const share = await createShare(params.id, owner.userId, {
+      expiresAt: toExpiresAt(settings.expiresInDays),
+      password: settings.password,
+      allowComments: settings.allowComments,
+    });
+
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Failed to create share link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      share: await serializeShare(share),
+    });
+
+  } catch (error) {
+    console.error('Failed to create share link:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid share settings', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Change expiry, password or comments without rotating the token
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const owner = await authorizeOwner(params.id);
+    if (owner.response) {
+      return owner.response;
+    }
+
+    const body = await request.json();
+    const settings = shareSettingsSchema.parse(body);
+
+    const share = await updateShare(params.id, {
+      expiresAt: toExpiresAt(settings.expiresInDays),
+      password: settings.password,
+      allowComments: settings.allowComments,
+    });
+
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Trip is not shared' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      share: await serializeShare(share),
+    });
+
+  } catch (error) {
+    console.error('Failed to update share link:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid share settings', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Revoke the share link
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const owner = await authorizeOwner(params.id);
+    if (owner.response) {
+      return owner.response;
+    }
+
+    const revoked = await revokeShare(params.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Failed to revoke share link' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Share link revoked' });
+
+  } catch (error) {
+    console.error('Failed to revoke share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { withDatabase } from "@/lib/db";
+import { profiles } from "@/lib/database/schema";
+import type { TripPace } from "@/lib/planning/day-distributor";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// The traveller's saved pace, if they have set one
+async function getProfilePace(userId: string): Promise<TripPace | null> {
+  const rows = await withDatabase(async (db) =>
+    db.select({ pace: profiles.pace }).from(profiles).where(eq(profiles.userId, userId)).limit(1)
+  );
+  return rows?.[0]?.pace ?? null;
+}
+
+// GET: The pace the wizard distributes a trip's activities at. The
+// distribution itself runs in the browser, because day windows and opening
+// hours are wall-clock times in the planner's local time zone.
+export async function GET(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const pace = (await getProfilePace(userId)) ?? 'standard';
+    return NextResponse.json({ success: true, pace });
+  } catch (error) {
+    console.error('Failed to load trip pace:', error);
+    return NextResponse.json(
+      { error: 'Failed to load trip pace' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { draftTrips } from '@/lib/database/schema';
-import { eq, desc } from 'drizzle-orm';
+import { and, eq, desc, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { DRAFT_STEPS } from '@/lib/storage/draftSync';
 
 // Validation schema for draft trip data
 const draftTripSchema = z.object({
-  currentStep: z.enum(['destination', 'transport', 'rental', 'accommodation', 'activities', 'dining']),
+  // Stable per-draft ID chosen by the client; legacy clients omit it
+  clientId: z.string().min(1).max(64).optional(),
+  // Server revision the edit is based on; 0 when the draft is new
+  baseRevision: z.number().int().min(0).default(0),
+  deviceId: z.string().max(64).optional(),
+  currentStep: z.enum(DRAFT_STEPS),
   completedSteps: z.array(z.string()),
   formData: z.object({
     from: z.any().nullable(),
@@ -27,11 +34,11 @@ const draftTripSchema = z.object({
   title: z.string().optional(),
 });
 
-// GET: Retrieve user's draft trips
-export async function GET() {
+// GET: Retrieve user's draft trips, or one draft by ?clientId=
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -40,12 +47,28 @@ export async function GET() {
       return NextResponse.json({ error: 'Database unavailable' }, { status: 503 });
     }
 
+    const clientId = request.nextUrl.searchParams.get('clientId');
+
+    if (clientId) {
+      const [draft] = await db
+        .select()
+        .from(draftTrips)
+        .where(and(eq(draftTrips.userId, userId), eq(draftTrips.clientId, clientId)))
+        .limit(1);
+
+      if (!draft) {
+        return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ draft });
+    }
+
     const drafts = await db
       .select()
       .from(draftTrips)
       .where(eq(draftTrips.userId, userId))
       .orderBy(desc(draftTrips.lastSaved))
-      .limit(10); // Limit to 10 most recent drafts
+      .limit(20); // Limit to 20 most recent drafts
 
     return NextResponse.json({ drafts });
   } catch (error) {
@@ -54,11 +77,12 @@ export async function GET() {
   }
 }
 
-// POST: Save/update draft trip
+// POST: Save a draft with compare-and-swap on its revision. A stale
+// baseRevision gets 409 with the current server copy so the client can merge.
 export async function POST(request: NextRequest) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -70,74 +94,82 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Database unavailable' }, { status: 503 });
     }
 
-    // Check if there's an existing draft to update
-    const existingDrafts = await db
-      .select()
-      .from(draftTrips)
-      .where(eq(draftTrips.userId, userId))
-      .orderBy(desc(draftTrips.lastSaved))
-      .limit(1);
-
-    let result;
-
-    if (existingDrafts.length > 0) {
-      // Update existing draft
-      result = await db
+    const clientId = validatedData.clientId || randomUUID();
+    const fields = {
+      currentStep: validatedData.currentStep,
+      completedSteps: validatedData.completedSteps,
+      formData: validatedData.formData,
+      stepData: validatedData.stepData,
+      title: validatedData.title,
+      deviceId: validatedData.deviceId,
+    };
+    const byClientId = and(eq(draftTrips.userId, userId), eq(draftTrips.clientId, clientId));
+
+    if (validatedData.baseRevision > 0) {
+      const [updated] = await db
         .update(draftTrips)
         .set({
-          currentStep: validatedData.currentStep,
-          completedSteps: validatedData.completedSteps,
-          formData: validatedData.formData,
-          stepData: validatedData.stepData,
-          title: validatedData.title,
+          ...fields,
+          revision: sql`${draftTrips.revision} + 1`,
           lastSaved: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(draftTrips.id, existingDrafts[0].id))
-        .returning();
-    } else {
-      // Create new draft
-      result = await db
-        .insert(draftTrips)
-        .values({
-          userId,
-          currentStep: validatedData.currentStep,
-          completedSteps: validatedData.completedSteps,
-          formData: validatedData.formData,
-          stepData: validatedData.stepData,
-          title: validatedData.title,
-        })
+        .where(and(byClientId, eq(draftTrips.revision, validatedData.baseRevision)))
         .returning();
+
+      if (updated) {
+        return NextResponse.json({ success: true, draft: updated, message: 'Draft updated' });
+      }
+    }
+
+    // New draft, or one deleted on another device since this edit began
+    const [created] = await db
+      .insert(draftTrips)
+      .values({ userId, clientId, ...fields })
+      .onConflictDoNothing({ target: [draftTrips.userId, draftTrips.clientId] })
+      .returning();
+
+    if (created) {
+      return NextResponse.json(
+        { success: true, draft: created, message: 'Draft created' },
+        { status: 201 }
+      );
     }
 
-    return NextResponse.json({ 
-      success: true, 
-      draft: result[0],
-      message: existingDrafts.length > 0 ? 'Draft updated' : 'Draft created'
-    });
+    const [server] = await db.select().from(draftTrips).where(byClientId).limit(1);
+
+    return NextResponse.json(
+      {
+        error: 'Draft was changed on another device',
+        code: 'DRAFT_CONFLICT',
+        server,
+      },
+      { status: 409 }
+    );
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: 'Invalid data', details: error.errors }, { status: 400 });
     }
-    
+
     console.error('Error saving draft trip:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-// DELETE: Remove draft trip
+// DELETE: Remove a draft trip by ?id= or ?clientId=
 export async function DELETE(request: NextRequest) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const { searchParams } = new URL(request.url);
     const draftId = searchParams.get('id');
+    const clientId = searchParams.get('clientId');
 
-    if (!draftId) {
+    if (!draftId && !clientId) {
       return NextResponse.json({ error: 'Draft ID required' }, { status: 400 });
     }
 
@@ -148,9 +180,10 @@ export async function DELETE(request: NextRequest) {
     // Delete the draft, ensuring it belongs to the user
     const result = await db
       .delete(draftTrips)
-      .where(
-        eq(draftTrips.id, draftId) && eq(draftTrips.userId, userId)
-      )
+      .where(and(
+        eq(draftTrips.userId, userId),
+        draftId ? eq(draftTrips.id, draftId) : eq(draftTrips.clientId, clientId!)
+      ))
       .returning();
 
     if (result.length === 0) {
@@ -162,4 +195,4 @@ export async function DELETE(request: NextRequest) {
     console.error('Error deleting draft trip:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
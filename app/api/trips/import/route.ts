@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  importTripFiles,
+  MAX_IMPORT_FILE_BYTES,
+  MAX_IMPORT_FILES,
+} from "@/lib/import/trip-import";
+import { readCappedForm } from "@/lib/api/multipart";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+
+// Whole upload, with room for the multipart framing
+const MAX_IMPORT_BODY_BYTES = MAX_IMPORT_FILES * MAX_IMPORT_FILE_BYTES + 64 * 1024;
+
+function uploadTooLarge() {
+  return NextResponse.json(
+    { error: 'Upload too large', details: `Import up to ${MAX_IMPORT_FILES} files of ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB each` },
+    { status: 413 }
+  );
+}
+
+// POST: Parse uploaded itinerary files (ICS, GPX, KML, trip JSON export or
+// confirmation emails) into a plan preview. Nothing is saved; the client
+// turns the reviewed preview into a draft.
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Reject uploads that declare an oversized body before reading anything
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_IMPORT_BODY_BYTES) {
+      return uploadTooLarge();
+    }
+
+    const form = await readCappedForm(request, MAX_IMPORT_BODY_BYTES);
+    if (form === 'too_large') {
+      return uploadTooLarge();
+    }
+    const files = (form?.getAll('files') || []).filter((file): file is File => typeof file !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid import data', details: 'Send the files as multipart form data in the "files" field' },
+        { status: 400 }
+      );
+    }
+
+    const result = importTripFiles(await Promise.all(files.map(async file => ({
+      fileName: file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    }))));
+
+    switch (result.status) {
+      case 'ok':
+        return NextResponse.json({ success: true, preview: result.preview });
+      case 'too_many_files':
+        return NextResponse.json(
+          { error: 'Too many files', details: `Import up to ${result.limit} files at a time` },
+          { status: 400 }
+        );
+      case 'too_large':
+        return NextResponse.json(
+          { error: 'File too large', details: `${result.fileName} is over ${result.maxBytes / (1024 * 1024)} MB` },
+          { status: 413 }
+        );
+      case 'unsupported_format':
+        return NextResponse.json(
+          { error: 'Unsupported file type', details: `${result.fileName} is not an ICS, GPX, KML, trip JSON or .eml file` },
+          { status: 415 }
+        );
+      case 'invalid_file':
+        return NextResponse.json(
+          { error: 'Could not read file', details: `${result.fileName}: ${result.message}` },
+          { status: 422 }
+        );
+    }
+
+  } catch (error) {
+    console.error('Failed to import itinerary:', error);
+    return NextResponse.json(
+      { error: 'Failed to import itinerary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { withDatabase, isDatabaseAvailable } from "@/lib/db";
+import { trips, tripCollaborators, tripInvitations } from "@/lib/database/schema";
+import { createUserProfile } from "@/lib/auth/profile";
+import { apiRateLimit } from "@/lib/security/rate-limit";
+import { emitCacheEvent } from "@/lib/cache/namespaces";
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1).max(64),
+});
+
+// POST: Accept a trip invitation on behalf of the signed-in user
+export async function POST(request: NextRequest) {
+  const rateLimitResponse = await apiRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isDatabaseAvailable()) {
+      return NextResponse.json(
+        { error: 'Service temporarily unavailable', details: 'Database not configured' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json();
+    const { token } = acceptInvitationSchema.parse(body);
+
+    const invitations = await withDatabase(async (db) => {
+      return await db
+        .select({
+          invitation: tripInvitations,
+          ownerId: trips.userId,
+          tripTitle: trips.title,
+        })
+        .from(tripInvitations)
+        .innerJoin(trips, eq(tripInvitations.tripId, trips.id))
+        .where(eq(tripInvitations.token, token))
+        .limit(1);
+    });
+
+    if (!invitations || invitations.length === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    const [{ invitation, ownerId, tripTitle }] = invitations;
+
+    if (invitation.status === 'pending' && invitation.expiresAt < new Date()) {
+      await withDatabase(async (db) => {
+        await db
+          .update(tripInvitations)
+          .set({ status: 'expired' })
+          .where(eq(tripInvitations.id, invitation.id));
+      });
+      return NextResponse.json(
+        { error: 'This invitation has expired' },
+        { status: 410 }
+      );
+    }
+
+    if (invitation.status !== 'pending') {
+      return NextResponse.json(
+        { error: `This invitation has been ${invitation.status}` },
+        { status: 410 }
+      );
+    }
+
+    if (ownerId === userId) {
+      return NextResponse.json(
+        { error: 'You already own this trip' },
+        { status: 409 }
+      );
+    }
+
+    // Invitations are bound to an email address; the accepting account must own
+    // it, and only a verified address proves that
+    const user = await currentUser();
+    const emails = (user?.emailAddresses || [])
+      .filter(address => address.verification?.status === 'verified')
+      .map(address => address.emailAddress.toLowerCase());
+    if (!emails.includes(invitation.email.toLowerCase())) {
+      return NextResponse.json(
+        { error: 'This invitation was sent to a different email address' },
+        { status: 403 }
+      );
+    }
+
+    // Collaborators reference users, so make sure the user row exists
+    await createUserProfile(userId, user?.primaryEmailAddress?.emailAddress || invitation.email);
+
+    const accepted = await withDatabase(async (db) => {
+      return await db.transaction(async (tx) => {
+        // Claim the invitation first; a revoke or a concurrent accept since
+        // the read above leaves nothing to update
+        const claimed = await tx
+          .update(tripInvitations)
+          .set({ status: 'accepted', acceptedBy: userId, acceptedAt: new Date() })
+          .where(and(eq(tripInvitations.id, invitation.id), eq(tripInvitations.status, 'pending')))
+          .returning({ id: tripInvitations.id });
+
+        if (claimed.length === 0) {
+          return 'unavailable' as const;
+        }
+
+        await tx
+          .insert(tripCollaborators)
+          .values({
+            tripId: invitation.tripId,
+            userId,
+            role: invitation.role,
+            invitedBy: invitation.invitedBy,
+          })
+          .onConflictDoUpdate({
+            target: [tripCollaborators.tripId, tripCollaborators.userId],
+            set: { role: invitation.role, updatedAt: new Date() },
+          });
+
+        return 'accepted' as const;
+      });
+    });
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: 'Failed to accept invitation' },
+        { status: 500 }
+      );
+    }
+
+    if (accepted === 'unavailable') {
+      return NextResponse.json(
+        { error: 'This invitation is no longer available' },
+        { status: 409 }
+      );
+    }
+
+    await emitCacheEvent('trip.collaborators_changed', { tripId: invitation.tripId, userIds: [userId] });
+
+    return NextResponse.json({
+      success: true,
+      trip: { id: invitation.tripId, title: tripTitle },
+      role: invitation.role,
+    });
+
+  } catch (error) {
+    console.error('Failed to accept invitation:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid invitation token', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
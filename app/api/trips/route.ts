@@ -2,12 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
 import { withDatabase, isDatabaseAvailable } from "@/lib/db";
-import { trips } from "@/lib/database/schema";
-import { getCurrentUserProfile, incrementTripUsage } from "@/lib/auth/profile";
-import { canCreateTrip } from "@/lib/subscription/config";
-import { eq, desc } from "drizzle-orm";
+import { trips, tripCollaborators } from "@/lib/database/schema";
+import { getCurrentUserProfile } from "@/lib/auth/profile";
+import { consumeQuota, releaseQuota, withQuotaHeaders } from "@/lib/subscription/metering";
+import { and, eq, desc, isNotNull, or } from "drizzle-orm";
 import { apiRateLimit, tripCreationRateLimit } from "@/lib/security/rate-limit";
 import { sanitizeTripData } from "@/lib/security/sanitize";
+import { CacheTags, defineCacheNamespace, emitCacheEvent } from "@/lib/cache/namespaces";
 
 const createTripSchema = z.object({
   title: z.string().min(1).max(160),
@@ -24,6 +25,18 @@ const createTripSchema = z.object({
   budgetCurrency: z.enum(['INR', 'USD']).default('INR'),
 });
 
+type TripListItem = Record<string, unknown> & { id: string; role: string | null };
+
+// Per-user trip lists, invalidated through trip.* events when any listed
+// trip or the user's memberships change
+const tripListCache = defineCacheNamespace<string, TripListItem[] | null>({
+  name: 'trip-list',
+  ttl: 5 * 60,
+  key: userId => userId,
+  tags: (userId, list) => [CacheTags.user(userId), ...(list || []).map(trip => CacheTags.trip(trip.id))],
+  shouldCache: list => list !== null,
+});
+
 export async function POST(request: NextRequest) {
   // Apply rate limiting
   const rateLimitResponse = await tripCreationRateLimit(request);
@@ -49,7 +62,7 @@ export async function POST(request: NextRequest) {
     // Then validate with Zod schema
     const tripData = createTripSchema.parse(sanitizedData);
 
-    // Get user profile and check limits
+    // Make sure the user has a profile to meter against
     const profile = await getCurrentUserProfile();
     if (!profile) {
       return NextResponse.json(
@@ -58,17 +71,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user can create a trip
-    if (!canCreateTrip(profile.subscriptionTier, profile.tripsUsedThisMonth, profile.subscriptionStatus)) {
-      return NextResponse.json(
-        { 
-          error: 'Trip limit exceeded',
-          details: 'Please upgrade your subscription to create more trips'
-        },
-        { status: 402 }
-      );
-    }
-
     // Validate dates
     const startDate = new Date(tripData.startDate);
     const endDate = new Date(tripData.endDate);
@@ -98,6 +100,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reserve a trip from this billing period's quota
+    const metered = await consumeQuota(userId, 'trips');
+    if (!metered.allowed) {
+      return metered.response;
+    }
+
     // Create trip using safe database operation
     const result = await withDatabase(async (db) => {
       const [trip] = await db.insert(trips).values({
@@ -117,16 +125,16 @@ export async function POST(request: NextRequest) {
     });
 
     if (!result) {
+      await releaseQuota(userId, 'trips');
       return NextResponse.json(
         { error: 'Failed to create trip' },
         { status: 500 }
       );
     }
 
-    // Increment user's trip usage
-    await incrementTripUsage(userId);
+    await emitCacheEvent('trip.created', { tripId: result.id, userId });
 
-    return NextResponse.json({
+    return withQuotaHeaders(NextResponse.json({
       success: true,
       trip: {
         id: result.id,
@@ -141,7 +149,7 @@ export async function POST(request: NextRequest) {
         generationStatus: result.generationStatus,
         createdAt: result.createdAt,
       },
-    });
+    }), metered.quota);
 
   } catch (error) {
     console.error('Failed to create trip:', error);
@@ -187,27 +195,42 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get user's trips using safe database operation
-    const userTrips = await withDatabase(async (db) => {
-      return await db
-        .select({
-          id: trips.id,
-          title: trips.title,
-          destinations: trips.destinations,
-          startDate: trips.startDate,
-          endDate: trips.endDate,
-          tripType: trips.tripType,
-          budgetTotal: trips.budgetTotal,
-          budgetCurrency: trips.budgetCurrency,
-          status: trips.status,
-          generationStatus: trips.generationStatus,
-          createdAt: trips.createdAt,
-          updatedAt: trips.updatedAt,
-        })
-        .from(trips)
-        .where(eq(trips.userId, userId))
-        .orderBy(desc(trips.createdAt))
-        .limit(50);
+    // Get trips the user owns or collaborates on using safe database operation
+    const { value: userTrips } = await tripListCache.fetch(userId, async () => {
+      const rows = await withDatabase(async (db) => {
+        return await db
+          .select({
+            id: trips.id,
+            title: trips.title,
+            destinations: trips.destinations,
+            startDate: trips.startDate,
+            endDate: trips.endDate,
+            tripType: trips.tripType,
+            budgetTotal: trips.budgetTotal,
+            budgetCurrency: trips.budgetCurrency,
+            status: trips.status,
+            generationStatus: trips.generationStatus,
+            createdAt: trips.createdAt,
+            updatedAt: trips.updatedAt,
+            ownerId: trips.userId,
+            collaboratorRole: tripCollaborators.role,
+          })
+          .from(trips)
+          .leftJoin(
+            tripCollaborators,
+            and(eq(tripCollaborators.tripId, trips.id), eq(tripCollaborators.userId, userId))
+          )
+          .where(or(eq(trips.userId, userId), isNotNull(tripCollaborators.id)))
+          .orderBy(desc(trips.createdAt))
+          .limit(50);
+      });
+
+      return rows
+        ? rows.map(({ ownerId, collaboratorRole, ...trip }) => ({
+            ...trip,
+            role: ownerId === userId ? 'owner' : collaboratorRole,
+          }))
+        : null;
     });
 
     return NextResponse.json({
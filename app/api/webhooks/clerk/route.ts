@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { WebhookEvent } from "@clerk/nextjs/server";
+import { Webhook } from "svix";
+import { deleteUserData, syncClerkUser, wasUserDeleted } from "@/lib/auth/user-sync";
+import { claimWebhook, markWebhookProcessed } from "@/lib/webhooks/webhook-log";
+
+// Clerk delivers user lifecycle events through Svix, which signs each
+// delivery and retries until it gets a 2xx. The svix-id header is stable
+// across retries and is used to handle each event once.
+export async function POST(request: NextRequest) {
+  const secret = process.env.CLERK_WEBHOOK_SECRET;
+  const svixId = request.headers.get('svix-id');
+  const svixTimestamp = request.headers.get('svix-timestamp');
+  const svixSignature = request.headers.get('svix-signature');
+  const rawBody = await request.text();
+
+  if (!secret || !svixId || !svixTimestamp || !svixSignature) {
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    );
+  }
+
+  let event: WebhookEvent;
+  try {
+    event = new Webhook(secret).verify(rawBody, {
+      'svix-id': svixId,
+      'svix-timestamp': svixTimestamp,
+      'svix-signature': svixSignature,
+    }) as WebhookEvent;
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const claim = await claimWebhook('clerk', svixId, event.type, event);
+
+    if (claim?.status === 'processed') {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+    if (claim?.status === 'in_progress') {
+      // Another delivery is handling it; a 409 makes the provider retry later
+      return NextResponse.json(
+        { error: 'Event is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    let failure: string | null = null;
+
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated':
+        if (await wasUserDeleted(event.data.id)) {
+          console.warn(`Ignoring Clerk ${event.type} for deleted user ${event.data.id}`);
+          break;
+        }
+        if (!await syncClerkUser(event.data)) {
+          failure = 'Failed to sync user';
+        }
+        break;
+      case 'user.deleted':
+        if (event.data.id && !await deleteUserData(event.data.id)) {
+          failure = 'Failed to delete user data';
+        }
+        break;
+      default:
+        break;
+    }
+
+    if (failure) {
+      if (claim) {
+        await markWebhookProcessed(claim.id, failure);
+      }
+      // Non-2xx so Svix redelivers
+      return NextResponse.json(
+        { error: 'Failed to process webhook' },
+        { status: 500 }
+      );
+    }
+
+    if (claim) {
+      await markWebhookProcessed(claim.id);
+    }
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    console.error('Failed to process Clerk webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
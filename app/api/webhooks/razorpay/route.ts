@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  applySubscriptionUpdate,
+  deriveSubscriptionUpdate,
+  verifyWebhookSignature,
+  type RazorpayWebhookEvent,
+} from "@/lib/payments/razorpay";
+import { claimWebhook, markWebhookProcessed } from "@/lib/webhooks/webhook-log";
+
+// Razorpay retries deliveries until it gets a 2xx, and may deliver the same
+// event more than once or out of order. Events are stored and claimed first
+// and handled at most once; events older than the last applied one are
+// acknowledged without changing the subscription.
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-razorpay-signature');
+
+  if (!verifyWebhookSignature(rawBody, signature)) {
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    );
+  }
+
+  let event: RazorpayWebhookEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid payload' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const primaryEntity = event.contains?.[0] ? event.payload[event.contains[0]]?.entity : undefined;
+    const eventId = request.headers.get('x-razorpay-event-id')
+      || `${event.event}:${primaryEntity?.id || 'unknown'}:${event.created_at}`;
+
+    const claim = await claimWebhook('razorpay', eventId, event.event, event);
+
+    if (claim?.status === 'processed') {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+    if (claim?.status === 'in_progress') {
+      // Another delivery is handling it; a 409 makes the provider retry later
+      return NextResponse.json(
+        { error: 'Event is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    const update = deriveSubscriptionUpdate(event);
+    if (update) {
+      const outcome = await applySubscriptionUpdate(update);
+
+      if (outcome === 'failed') {
+        if (claim) {
+          await markWebhookProcessed(claim.id, 'Failed to update subscription');
+        }
+        // Non-2xx so Razorpay redelivers
+        return NextResponse.json(
+          { error: 'Failed to process webhook' },
+          { status: 500 }
+        );
+      }
+
+      if (outcome === 'unattributed') {
+        console.warn(`Razorpay ${event.event} event ${eventId} could not be attributed to a user`);
+      }
+      if (outcome === 'stale') {
+        console.warn(`Razorpay ${event.event} event ${eventId} is older than the subscription state and was skipped`);
+      }
+    }
+
+    if (claim) {
+      await markWebhookProcessed(claim.id);
+    }
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    console.error('Failed to process Razorpay webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to process webhook' },
+      { status: 500 }
+    );
+  }
+}
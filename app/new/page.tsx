@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useRouter } from 'next/navigation';
 import { useUser } from '@clerk/nextjs';
@@ -11,6 +11,19 @@ import { ArrowLeft, Plane, MapPin, Calendar, Users, ChevronRight, Save, CheckCir
 import { FlexibleStepper } from '@/components/forms/FlexibleStepper';
 import { TopographicalGrid } from '@/components/backgrounds/TopographicalGrid';
 import { AnimatedButton } from '@/components/effects/AnimatedButton';
+import { DraftMergeDialog } from '@/components/drafts/DraftMergeDialog';
+import {
+  fetchServerDraft,
+  flushDraftOutbox,
+  generateDraftClientId,
+  getQueuedDraft,
+  removeQueuedDraft,
+  saveDraftToServer,
+  type DraftPayload,
+  type DraftSaveResult,
+  type DraftStep,
+  type ServerDraft,
+} from '@/lib/storage/draftSync';
 
 // Lazy load heavy components for better performance
 import dynamic from 'next/dynamic';
@@ -33,6 +46,10 @@ const TransportSearchResults = dynamic(() => import('@/components/transport/Tran
   loading: () => <div className="animate-pulse bg-navy-800/50 rounded-xl h-96 w-full" />
 });
 
+const FareCalendar = dynamic(() => import('@/components/transport/FareCalendar'), {
+  ssr: false
+});
+
 const TripOptimizer = dynamic(() => import('@/components/ai/TripOptimizer').then(mod => ({ default: mod.TripOptimizer })), {
   loading: () => <div className="animate-pulse bg-navy-800/50 rounded-2xl h-80 w-full max-w-sm" />
 });
@@ -75,9 +92,15 @@ export default function NewTripPage() {
   const [completedSteps, setCompletedSteps] = useState<string[]>([]);
   
   // Auto-save state
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error' | 'offline' | 'conflict'>('idle');
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
-  const [draftId, setDraftId] = useState<string | null>(null);
+  // Stable ID of the draft being edited (?draft=<clientId>); each wizard
+  // session without one starts a new draft
+  const [draftClientId, setDraftClientId] = useState<string | null>(null);
+  // Server revision our edits are based on. Kept in a ref so a save does not
+  // re-arm the auto-save effect.
+  const draftRevisionRef = useRef(0);
+  const [draftConflict, setDraftConflict] = useState<{ local: DraftPayload; server: ServerDraft } | null>(null);
   
   // Transport step state
   const [selectedTransport, setSelectedTransport] = useState<any>(null);
@@ -115,100 +138,163 @@ export default function NewTripPage() {
     budget: 50000
   });
 
-  // Load existing draft trip on page load
+  // Restore wizard state from a saved or merged draft
+  const applyDraft = useCallback((draft: Pick<DraftPayload, 'formData' | 'currentStep' | 'completedSteps' | 'stepData'>) => {
+    setFormData(draft.formData as TripFormData);
+    setCurrentStep(draft.currentStep);
+    setCompletedSteps(draft.completedSteps);
+
+    // Restore step selections if they exist
+    if (draft.stepData) {
+      if (draft.stepData.selectedTransport) {
+        setSelectedTransport(draft.stepData.selectedTransport);
+      }
+      if (draft.stepData.selectedRentals) {
+        setSelectedRentals(draft.stepData.selectedRentals);
+      }
+      if (draft.stepData.selectedAccommodations) {
+        setSelectedAccommodations(draft.stepData.selectedAccommodations);
+      }
+      if (draft.stepData.selectedHotels) {
+        setSelectedHotels(draft.stepData.selectedHotels);
+      }
+      if (draft.stepData.accommodationViewMode) {
+        setAccommodationViewMode(draft.stepData.accommodationViewMode);
+      }
+      if (draft.stepData.selectedActivities) {
+        setSelectedActivities(draft.stepData.selectedActivities);
+      }
+      if (draft.stepData.selectedDining) {
+        setSelectedDining(draft.stepData.selectedDining);
+      }
+    }
+  }, []);
+
+  // Load the draft named by ?draft=, or start a new one
   const loadDraftTrip = useCallback(async () => {
     if (!user) return;
 
+    const requestedId = new URLSearchParams(window.location.search).get('draft');
+    if (!requestedId) {
+      setDraftClientId(generateDraftClientId());
+      return;
+    }
+
     try {
-      const response = await fetch('/api/trips/draft');
-      if (response.ok) {
-        const { drafts } = await response.json();
-        if (drafts && drafts.length > 0) {
-          const draft = drafts[0]; // Load most recent draft
-          setDraftId(draft.id);
-          setFormData(draft.formData);
-          setCurrentStep(draft.currentStep);
-          setCompletedSteps(draft.completedSteps);
-          setLastSaved(new Date(draft.lastSaved));
-          
-          // Restore step selections if they exist
-          if (draft.stepData) {
-            if (draft.stepData.selectedTransport) {
-              setSelectedTransport(draft.stepData.selectedTransport);
-            }
-            if (draft.stepData.selectedRentals) {
-              setSelectedRentals(draft.stepData.selectedRentals);
-            }
-            if (draft.stepData.selectedAccommodations) {
-              setSelectedAccommodations(draft.stepData.selectedAccommodations);
-            }
-            if (draft.stepData.selectedHotels) {
-              setSelectedHotels(draft.stepData.selectedHotels);
-            }
-            if (draft.stepData.accommodationViewMode) {
-              setAccommodationViewMode(draft.stepData.accommodationViewMode);
-            }
-            if (draft.stepData.selectedActivities) {
-              setSelectedActivities(draft.stepData.selectedActivities);
-            }
-            if (draft.stepData.selectedDining) {
-              setSelectedDining(draft.stepData.selectedDining);
-            }
-          }
+      const server = await fetchServerDraft(requestedId);
+      // An edit made offline on this device that never reached the server
+      const queued = getQueuedDraft(requestedId);
+
+      if (queued) {
+        applyDraft(queued);
+        draftRevisionRef.current = queued.baseRevision;
+        if (server && server.revision !== queued.baseRevision) {
+          setDraftConflict({ local: queued, server });
+          setSaveStatus('conflict');
         }
+      } else if (server) {
+        applyDraft(server);
+        draftRevisionRef.current = server.revision;
+        setLastSaved(new Date(server.lastSaved));
       }
     } catch (error) {
       console.error('Error loading draft trip:', error);
+    } finally {
+      setDraftClientId(requestedId);
+    }
+  }, [user, applyDraft]);
+
+  const handleSaveResult = useCallback((payload: DraftPayload, result: DraftSaveResult) => {
+    switch (result.status) {
+      case 'saved':
+        draftRevisionRef.current = result.draft.revision;
+        setSaveStatus('saved');
+        setLastSaved(new Date());
+
+        // Keep the draft ID in the URL so a reload resumes this draft
+        if (!window.location.search.includes('draft=')) {
+          window.history.replaceState(null, '', `/new?draft=${encodeURIComponent(payload.clientId)}`);
+        }
+
+        // Reset to idle after 3 seconds
+        setTimeout(() => setSaveStatus('idle'), 3000);
+        break;
+      case 'conflict':
+        setDraftConflict({ local: payload, server: result.server });
+        setSaveStatus('conflict');
+        break;
+      case 'offline':
+        setSaveStatus('offline');
+        break;
+      case 'error':
+        setSaveStatus('error');
+        break;
     }
-  }, [user]);
+  }, []);
+
+  const buildDraftPayload = useCallback((clientId: string): DraftPayload => ({
+    clientId,
+    baseRevision: draftRevisionRef.current,
+    currentStep: currentStep as DraftStep,
+    completedSteps,
+    formData,
+    stepData: {
+      selectedTransport,
+      selectedRentals,
+      selectedAccommodations,
+      selectedHotels,
+      accommodationViewMode,
+      selectedActivities,
+      selectedDining
+    },
+    title: formData.from && formData.to ?
+      `Trip to ${formData.to.name} from ${formData.from.name}` :
+      'Untitled Trip'
+  }), [formData, currentStep, completedSteps, selectedTransport, selectedRentals, selectedAccommodations, selectedHotels, accommodationViewMode, selectedActivities, selectedDining]);
 
   // Auto-save draft trip
   const saveDraftTrip = useCallback(async () => {
-    if (!user || !formData.from || !formData.to) return; // Only save if basic data exists
+    if (!user || !draftClientId || !formData.from || !formData.to) return; // Only save if basic data exists
+    if (draftConflict) return; // Wait until the user has merged
 
     setSaveStatus('saving');
-    
-    try {
-      const response = await fetch('/api/trips/draft', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          currentStep,
-          completedSteps,
-          formData,
-          stepData: {
-            selectedTransport,
-            selectedRentals,
-            selectedAccommodations,
-            selectedHotels,
-            accommodationViewMode,
-            selectedActivities,
-            selectedDining
-          },
-          title: formData.from && formData.to ? 
-            `Trip to ${formData.to.name} from ${formData.from.name}` : 
-            'Untitled Trip'
-        }),
+
+    const payload = buildDraftPayload(draftClientId);
+    handleSaveResult(payload, await saveDraftToServer(payload));
+  }, [user, draftClientId, draftConflict, formData, buildDraftPayload, handleSaveResult]);
+
+  const handleResolveConflict = useCallback(async (merged: DraftPayload) => {
+    applyDraft(merged);
+    draftRevisionRef.current = merged.baseRevision;
+    setDraftConflict(null);
+    setSaveStatus('saving');
+    handleSaveResult(merged, await saveDraftToServer(merged));
+  }, [applyDraft, handleSaveResult]);
+
+  // Push edits made while offline once the connection is back
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = async () => {
+      const { saved } = await flushDraftOutbox((local, server) => {
+        if (local.clientId === draftClientId) {
+          setDraftConflict({ local, server });
+          setSaveStatus('conflict');
+        }
       });
 
-      if (response.ok) {
-        const result = await response.json();
-        setDraftId(result.draft.id);
+      const current = saved.find(draft => draft.clientId === draftClientId);
+      if (current) {
+        draftRevisionRef.current = current.revision;
         setSaveStatus('saved');
         setLastSaved(new Date());
-        
-        // Reset to idle after 3 seconds
         setTimeout(() => setSaveStatus('idle'), 3000);
-      } else {
-        setSaveStatus('error');
       }
-    } catch (error) {
-      console.error('Error saving draft trip:', error);
-      setSaveStatus('error');
-    }
-  }, [user, formData, currentStep, completedSteps, selectedTransport, selectedRentals, selectedAccommodations, selectedHotels, accommodationViewMode, selectedActivities, selectedDining]);
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user, draftClientId]);
 
   useEffect(() => {
     setMounted(true);
@@ -313,8 +399,9 @@ export default function NewTripPage() {
         const result = await response.json();
         
         // Clean up draft if it exists
-        if (draftId) {
-          await fetch(`/api/trips/draft?id=${draftId}`, {
+        if (draftClientId) {
+          removeQueuedDraft(draftClientId);
+          await fetch(`/api/trips/draft?clientId=${encodeURIComponent(draftClientId)}`, {
             method: 'DELETE'
           });
         }
@@ -730,6 +817,23 @@ export default function NewTripPage() {
               </div>
             </div>
 
+            {/* Fare calendar for flexible dates; needs airport codes at both ends */}
+            {formData.from.iataCode && formData.to.iataCode && (
+              <FareCalendar
+                from={{ name: formData.from.name, code: formData.from.iataCode, coordinates: formData.from.coordinates }}
+                to={{ name: formData.to.name, code: formData.to.iataCode, coordinates: formData.to.coordinates }}
+                departureDate={formData.startDate}
+                returnDate={formData.endDate}
+                adults={formData.travelers}
+                currency="INR"
+                onSelectDates={(cell) => setFormData(prev => ({
+                  ...prev,
+                  startDate: cell.departureDate,
+                  endDate: cell.returnDate || prev.endDate
+                }))}
+              />
+            )}
+
             {/* Transport Search Results */}
             <TransportSearchResults
               searchParams={{
@@ -2049,6 +2153,12 @@ export default function NewTripPage() {
                   {saveStatus === 'error' && (
                     <span className="text-red-400">Save failed</span>
                   )}
+                  {saveStatus === 'offline' && (
+                    <span className="text-amber-400">Offline - will sync when reconnected</span>
+                  )}
+                  {saveStatus === 'conflict' && (
+                    <span className="text-amber-400">Changed on another device</span>
+                  )}
                   {lastSaved && saveStatus === 'idle' && (
                     <span className="text-navy-400">
                       Last saved {new Date(lastSaved).toLocaleTimeString()}
@@ -2152,6 +2262,15 @@ export default function NewTripPage() {
           </div>
         </motion.div>
       )}
+
+      {/* Merge step when the saved draft diverged from this device's copy */}
+      {draftConflict && (
+        <DraftMergeDialog
+          local={draftConflict.local}
+          server={draftConflict.server}
+          onResolve={handleResolveConflict}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { Calendar, Clock, MapPin } from 'lucide-react';
+import SharePasswordForm from '@/components/planning/SharePasswordForm';
+import {
+  getShareAccessCookieName,
+  hasShareAccess,
+  recordShareView,
+  resolveSharedTrip,
+} from '@/lib/collaboration/share-links';
+import { getItineraryVersion } from '@/lib/planning/itinerary-versions';
+
+// Share pages depend on expiry, passwords and view counting
+export const dynamic = 'force-dynamic';
+
+interface SharePageProps {
+  params: { token: string };
+}
+
+interface SharedDestination {
+  city: string;
+  country: string;
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const resolution = await resolveSharedTrip(params.token);
+  const title = resolution.status === 'ok' && !resolution.share.passwordHash
+    ? `${resolution.trip.title} | Tripthesia`
+    : 'Shared Trip | Tripthesia';
+
+  return {
+    title,
+    robots: { index: false, follow: false },
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim()) return value;
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+function getDays(data: unknown): Record<string, any>[] {
+  const record = (data && typeof data === 'object' ? data : {}) as Record<string, any>;
+  if (Array.isArray(record.days)) return record.days;
+  if (Array.isArray(record.dailyItinerary)) return record.dailyItinerary;
+  return [];
+}
+
+function ShareMessage({ title, message }: { title: string; message: string }) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+        <p className="text-gray-600 mb-6">{message}</p>
+        <Link href="/" className="text-indigo-600 hover:text-indigo-700 font-medium">
+          Plan your own trip
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default async function SharedTripPage({ params }: SharePageProps) {
+  const resolution = await resolveSharedTrip(params.token);
+
+  if (resolution.status === 'not_found') {
+    notFound();
+  }
+
+  if (resolution.status === 'expired') {
+    return (
+      <ShareMessage
+        title="Link expired"
+        message="This share link has expired. Ask the trip owner for a new one."
+      />
+    );
+  }
+
+  const { share, trip } = resolution;
+  const proof = cookies().get(getShareAccessCookieName(share.id))?.value;
+
+  if (!hasShareAccess(share, proof)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-sm w-full bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center">
+          <SharePasswordForm token={share.id} />
+        </div>
+      </div>
+    );
+  }
+
+  const [itinerary] = await Promise.all([
+    getItineraryVersion(trip.id),
+    recordShareView(share),
+  ]);
+
+  const destinations = (Array.isArray(trip.destinations) ? trip.destinations : []) as SharedDestination[];
+  const days = getDays(itinerary?.data);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-10">
+        <header className="mb-8">
+          <p className="text-sm font-medium text-indigo-600 mb-2">Shared trip · read only</p>
+          <h1 className="text-3xl font-bold text-gray-900 mb-3">{trip.title}</h1>
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+            <span className="flex items-center">
+              <Calendar className="h-4 w-4 mr-1" />
+              {formatDate(trip.startDate)} – {formatDate(trip.endDate)}
+            </span>
+            {destinations.length > 0 && (
+              <span className="flex items-center">
+                <MapPin className="h-4 w-4 mr-1" />
+                {destinations.map(dest => `${dest.city}, ${dest.country}`).join(' → ')}
+              </span>
+            )}
+          </div>
+        </header>
+
+        {days.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-200 p-8 text-center text-gray-600">
+            The itinerary for this trip hasn&apos;t been planned yet.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {days.map((day, index) => {
+              const activities: Record<string, any>[] = Array.isArray(day.activities) ? day.activities : [];
+              return (
+                <section key={asText(day.id) || index} className="bg-white rounded-xl border border-gray-200 p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-1">
+                    {asText(day.title) || `Day ${asText(day.day) || index + 1}`}
+                  </h2>
+                  {asText(day.date) && (
+                    <p className="text-sm text-gray-500 mb-4">{asText(day.date)}</p>
+                  )}
+                  {activities.length === 0 ? (
+                    <p className="text-sm text-gray-500">No activities planned.</p>
+                  ) : (
+                    <ul className="space-y-3">
+                      {activities.map((activity, activityIndex) => {
+                        const time = asText(activity.time) || asText(activity.startTime);
+                        const location = asText(activity.location) || asText(activity.address);
+                        const description = asText(activity.description) || asText(activity.notes);
+                        return (
+                          <li key={asText(activity.id) || activityIndex} className="flex gap-3">
+                            <div className="w-16 shrink-0 text-sm text-gray-500 flex items-start">
+                              {time && (
+                                <>
+                                  <Clock className="h-3.5 w-3.5 mr-1 mt-0.5" />
+                                  {time}
+                                </>
+                              )}
+                            </div>
+                            <div>
+                              <p className="font-medium text-gray-900">
+                                {asText(activity.name) || asText(activity.title) || 'Activity'}
+                              </p>
+                              {location && <p className="text-sm text-gray-500">{location}</p>}
+                              {description && <p className="text-sm text-gray-600 mt-1">{description}</p>}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        <footer className="mt-10 text-center text-sm text-gray-500">
+          Planned with{' '}
+          <Link href="/" className="text-indigo-600 hover:text-indigo-700 font-medium">
+            Tripthesia
+          </Link>
+        </footer>
+      </div>
+    </div>
+  );
+}
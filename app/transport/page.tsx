@@ -15,7 +15,7 @@ import { CurrencyCode } from '@/lib/currency/currency-converter';
 import { useGeolocationCurrency } from '@/hooks/useGeolocationCurrency';
 import TransportSearchResults from '@/components/transport/TransportSearchResults';
 import LocalTransportOptions from '@/components/transport/LocalTransportOptions';
-import PriceTracker from '@/components/transport/PriceTracker';
+import PriceTracker, { type TrackedSearch } from '@/components/transport/PriceTracker';
 
 export default function TransportPage() {
   const { isLoaded, isSignedIn, user } = useUser();
@@ -554,6 +554,37 @@ function LocalTransportView({ destination }: { destination: string }) {
   );
 }
 
+// Price alerts track a route between two airports, so only flight searches
+// with IATA codes on both ends can be tracked
+function flightTracking(selectedTransport: any, searchParams: any): { search: TrackedSearch; historyQuery: string } | null {
+  const from: LocationData | null = searchParams.from;
+  const to: LocationData | null = searchParams.to;
+  if (selectedTransport.type !== 'flight' || !from?.iataCode || !to?.iataCode || !searchParams.departureDate) {
+    return null;
+  }
+
+  const airport = (location: LocationData) => ({
+    code: location.iataCode,
+    name: location.name,
+    coordinates: location.coordinates,
+  });
+
+  return {
+    search: {
+      kind: 'flight',
+      query: {
+        from: airport(from),
+        to: airport(to),
+        departureDate: new Date(searchParams.departureDate).toISOString(),
+        returnDate: searchParams.returnDate ? new Date(searchParams.returnDate).toISOString() : undefined,
+        passengers: { adults: searchParams.adults || 1 },
+        currency: selectedTransport.currency || searchParams.currency || 'USD',
+      },
+    },
+    historyQuery: new URLSearchParams({ kind: 'flight', from: from.iataCode, to: to.iataCode }).toString(),
+  };
+}
+
 // Price Tracker View Component
 function PriceTrackerView({ selectedTransport, searchParams }: any) {
   if (!selectedTransport) {
@@ -586,6 +617,8 @@ function PriceTrackerView({ selectedTransport, searchParams }: any) {
     );
   }
 
+  const tracking = flightTracking(selectedTransport, searchParams);
+
   return (
     <div className="space-y-6">
       <InteractiveCard
@@ -608,11 +641,12 @@ function PriceTrackerView({ selectedTransport, searchParams }: any) {
             id: selectedTransport.id,
             type: selectedTransport.type,
             provider: selectedTransport.airline || selectedTransport.provider,
-            route: `${searchParams.from} → ${searchParams.to}`,
+            route: `${searchParams.from?.name || searchParams.from} → ${searchParams.to?.name || searchParams.to}`,
             currentPrice: selectedTransport.price,
             currency: selectedTransport.currency || 'USD',
           }}
-          onPriceAlert={(alert) => console.log('Price alert created:', alert)}
+          search={tracking?.search || null}
+          historyQuery={tracking?.historyQuery || null}
         />
       </InteractiveCard>
     </div>
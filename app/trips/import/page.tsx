@@ -0,0 +1,62 @@
+"use client";
+
+import { useUser, SignInButton } from '@clerk/nextjs';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { TopographicalGrid } from '@/components/backgrounds/TopographicalGrid';
+import { GPSLoader } from '@/components/loading/GPSLoader';
+import { TripImportPreview } from '@/components/import/TripImportPreview';
+
+export default function ImportTripPage() {
+  const { isLoaded, isSignedIn } = useUser();
+
+  return (
+    <div className="min-h-screen bg-navy-950 relative overflow-hidden">
+      <TopographicalGrid
+        density="light"
+        animation={true}
+        theme="dark"
+        className="absolute inset-0"
+      />
+      <div className="relative z-10 max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!isLoaded ? (
+          <div className="flex justify-center py-24">
+            <GPSLoader size="lg" message="Loading..." />
+          </div>
+        ) : !isSignedIn ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="text-center py-24"
+          >
+            <h1 className="text-3xl font-bold mb-4 text-navy-50">Import a Plan</h1>
+            <p className="text-navy-200 mb-8">Sign in to turn your bookings and routes into a trip draft.</p>
+            <SignInButton mode="modal">
+              <button className="bg-teal-500 hover:bg-teal-600 px-6 py-3 rounded-lg text-white font-medium transition-colors duration-200">
+                Sign In
+              </button>
+            </SignInButton>
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Link
+              href="/trips"
+              className="inline-flex items-center text-sm text-teal-400 hover:text-teal-300 transition-colors duration-200 mb-6"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to My Trips
+            </Link>
+            <h1 className="text-3xl font-bold text-navy-50 mb-6">Import a Plan</h1>
+            <TripImportPreview />
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useUser, SignInButton } from '@clerk/nextjs';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { TopographicalGrid } from '@/components/backgrounds/TopographicalGrid';
+import { GPSLoader } from '@/components/loading/GPSLoader';
+
+type AcceptState =
+  | { status: 'pending' }
+  | { status: 'accepted'; tripId: string; tripTitle: string; role: string }
+  | { status: 'error'; message: string };
+
+export default function AcceptInvitationPage({ params }: { params: { token: string } }) {
+  const { isLoaded, isSignedIn } = useUser();
+  const [state, setState] = useState<AcceptState>({ status: 'pending' });
+
+  useEffect(() => {
+    if (!isLoaded || !isSignedIn) return;
+
+    let cancelled = false;
+
+    const acceptInvitation = async () => {
+      try {
+        const response = await fetch('/api/trips/invitations/accept', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: params.token }),
+        });
+        const result = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setState({ status: 'error', message: result.error || 'Failed to accept invitation' });
+          return;
+        }
+
+        setState({
+          status: 'accepted',
+          tripId: result.trip.id,
+          tripTitle: result.trip.title,
+          role: result.role,
+        });
+      } catch (error) {
+        if (!cancelled) {
+          setState({ status: 'error', message: 'Failed to accept invitation' });
+        }
+      }
+    };
+
+    acceptInvitation();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, isSignedIn, params.token]);
+
+  return (
+    <div className="min-h-screen bg-navy-950 flex items-center justify-center relative overflow-hidden">
+      <TopographicalGrid
+        density="light"
+        animation={true}
+        theme="dark"
+        className="absolute inset-0"
+      />
+      <div className="relative z-10 text-center max-w-md mx-auto px-6">
+        {!isLoaded || (isSignedIn && state.status === 'pending') ? (
+          <GPSLoader size="lg" message="Joining the trip..." />
+        ) : !isSignedIn ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <h1 className="text-3xl font-bold mb-4 text-navy-50">You&apos;re Invited</h1>
+            <p className="text-navy-200 mb-8">Sign in with the email address this invitation was sent to.</p>
+            <SignInButton mode="modal">
+              <button className="w-full bg-teal-500 hover:bg-teal-600 px-6 py-3 rounded-lg text-white font-medium transition-colors duration-200">
+                Sign In
+              </button>
+            </SignInButton>
+          </motion.div>
+        ) : state.status === 'accepted' ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <h1 className="text-3xl font-bold mb-4 text-navy-50">Invitation Accepted</h1>
+            <p className="text-navy-200 mb-8">
+              You can now {state.role === 'editor' ? 'edit' : 'view'}{' '}
+              <span className="text-teal-400">{state.tripTitle}</span>.
+            </p>
+            <Link
+              href="/trips"
+              className="block w-full bg-teal-500 hover:bg-teal-600 px-6 py-3 rounded-lg text-white font-medium transition-colors duration-200"
+            >
+              Go to My Trips
+            </Link>
+          </motion.div>
+        ) : state.status === 'error' ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <h1 className="text-3xl font-bold mb-4 text-navy-50">Unable to Join Trip</h1>
+            <p className="text-navy-200 mb-8">{state.message}</p>
+            <Link
+              href="/trips"
+              className="block text-teal-400 hover:text-teal-300 transition-colors duration-200"
+            >
+              Back to My Trips
+            </Link>
+          </motion.div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useUser, useAuth, SignInButton } from '@clerk/nextjs';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, MapPin, Calendar, Users, Plane, Globe, Star, ArrowRight } from 'lucide-react';
+import { Plus, MapPin, Calendar, Users, Plane, Globe, Star, ArrowRight, Upload } from 'lucide-react';
 import { TopographicalGrid } from '@/components/backgrounds/TopographicalGrid';
 import { GPSLoader } from '@/components/loading/GPSLoader';
 
@@ -161,7 +161,16 @@ export default function TripsPage() {
           transition={{ duration: 0.6, delay: 0.4 }}
           className="mb-12"
         >
-          <h2 className="text-2xl font-semibold text-navy-50 mb-8 text-center">Quick Actions</h2>
+          <h2 className="text-2xl font-semibold text-navy-50 mb-2 text-center">Quick Actions</h2>
+          <p className="text-center mb-8">
+            <Link
+              href="/trips/import"
+              className="inline-flex items-center text-sm text-teal-400 hover:text-teal-300 transition-colors duration-200"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import a plan
+            </Link>
+          </p>
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             
             {/* Create New Trip Card */}
@@ -431,6 +440,13 @@ export default function TripsPage() {
                   Create Your First Trip
                 </Link>
               </motion.div>
+
+              <Link
+                href="/trips/import"
+                className="inline-block mt-4 text-sm text-teal-400 hover:text-teal-300 transition-colors duration-200"
+              >
+                Or import a plan from your calendar, routes or booking emails
+              </Link>
             </motion.div>
           </div>
         </motion.div>
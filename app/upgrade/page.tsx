@@ -1,9 +1,24 @@
 "use client";
 
+import { useState } from 'react';
 import { useUser } from '@clerk/nextjs';
 import Link from 'next/link';
 import { CheckIcon } from 'lucide-react';
 
+interface RazorpayCheckoutResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id?: string;
+  razorpay_subscription_id?: string;
+  razorpay_signature: string;
+}
+
+// Razorpay Checkout is loaded from checkout.razorpay.com in the root layout
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => { open: () => void };
+  }
+}
+
 const plans = [
   {
     name: 'Starter',
@@ -17,7 +32,7 @@ const plans = [
       'Priority support',
       'Export to PDF/Calendar',
     ],
-    razorpayPlanId: 'plan_starter_monthly',
+    tier: 'starter' as const,
     popular: true,
   },
   {
@@ -34,22 +49,80 @@ const plans = [
       'API access',
       'White-label options',
     ],
-    razorpayPlanId: 'plan_pro_monthly',
+    tier: 'pro' as const,
     popular: false,
   },
 ];
 
 export default function UpgradePage() {
   const { isLoaded, isSignedIn, user } = useUser();
+  const [pendingTier, setPendingTier] = useState<string | null>(null);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
 
-  const handleUpgrade = (planId: string, planName: string, price: string) => {
+  const handleUpgrade = async (tier: 'starter' | 'pro', planName: string) => {
     if (!isSignedIn) {
       window.location.href = '/sign-up';
       return;
     }
 
-    // For now, show alert - in production this would integrate with Razorpay
-    alert(`Upgrade to ${planName} plan (${price}/month) - Coming soon! This will integrate with Razorpay payment gateway.`);
+    if (!window.Razorpay) {
+      setCheckoutError('Payment gateway failed to load. Please refresh and try again.');
+      return;
+    }
+
+    setPendingTier(tier);
+    setCheckoutError(null);
+
+    try {
+      const response = await fetch('/api/subscription/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tier }),
+      });
+      const session = await response.json();
+
+      if (!response.ok) {
+        setCheckoutError(session.error || 'Failed to start checkout');
+        setPendingTier(null);
+        return;
+      }
+
+      const checkout = new window.Razorpay({
+        key: session.razorpayKeyId,
+        ...(session.subscriptionId
+          ? { subscription_id: session.subscriptionId }
+          : { order_id: session.orderId, amount: session.amount, currency: session.currency }),
+        name: 'Tripthesia',
+        description: `${planName} plan`,
+        prefill: {
+          name: session.user?.name,
+          email: session.user?.email,
+        },
+        handler: async (payment: RazorpayCheckoutResponse) => {
+          const verification = await fetch('/api/subscription/verify', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ tier, ...payment }),
+          });
+
+          if (verification.ok) {
+            window.location.href = '/trips?upgraded=1';
+          } else {
+            setCheckoutError('Payment received but verification failed. Please contact support.');
+            setPendingTier(null);
+          }
+        },
+        modal: {
+          ondismiss: () => setPendingTier(null),
+        },
+      });
+
+      checkout.open();
+    } catch (error) {
+      console.error('Checkout failed:', error);
+      setCheckoutError('Failed to start checkout');
+      setPendingTier(null);
+    }
   };
 
   return (
@@ -71,6 +144,12 @@ export default function UpgradePage() {
               </p>
             </div>
           )}
+
+          {checkoutError && (
+            <div className="mt-6 p-4 bg-red-900/20 border border-red-500/30 rounded-lg inline-block">
+              <p className="text-red-300">{checkoutError}</p>
+            </div>
+          )}
         </div>
 
         {/* Current Plan Status */}
@@ -129,14 +208,17 @@ export default function UpgradePage() {
               </ul>
 
               <button
-                onClick={() => handleUpgrade(plan.razorpayPlanId, plan.name, plan.price.inr)}
+                onClick={() => handleUpgrade(plan.tier, plan.name)}
+                disabled={pendingTier !== null}
                 className={`w-full py-3 px-6 rounded-lg font-medium transition-colors ${
                   plan.popular
                     ? 'bg-blue-600 hover:bg-blue-700 text-white'
                     : 'bg-gray-700 hover:bg-gray-600 text-white'
                 }`}
               >
-                {isSignedIn ? `Upgrade to ${plan.name}` : `Sign Up for ${plan.name}`}
+                {pendingTier === plan.tier
+                  ? 'Processing...'
+                  : isSignedIn ? `Upgrade to ${plan.name}` : `Sign Up for ${plan.name}`}
               </button>
             </div>
           ))}
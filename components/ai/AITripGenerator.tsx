@@ -20,6 +20,8 @@ import {
 
 interface AITripGeneratorProps {
   onTripGenerated?: (trip: GeneratedTrip) => void;
+  // Saved trip the result is recorded against as a new itinerary version
+  tripId?: string;
   className?: string;
 }
 
@@ -105,7 +107,7 @@ const destinations = [
   'Goa, India', 'Kerala, India', 'Rajasthan, India', 'Bali, Indonesia'
 ];
 
-export default function AITripGenerator({ onTripGenerated, className = '' }: AITripGeneratorProps) {
+export default function AITripGenerator({ onTripGenerated, tripId, className = '' }: AITripGeneratorProps) {
   const [formData, setFormData] = useState<TripGenerationForm>({
     destination: '',
     duration: 7,
@@ -151,7 +153,7 @@ export default function AITripGenerator({ onTripGenerated, className = '' }: AIT
       const response = await fetch('/api/ai/generate-trip', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, ...(tripId && { tripId }) }),
       });
 
       if (!response.ok) {
@@ -168,7 +170,7 @@ export default function AITripGenerator({ onTripGenerated, className = '' }: AIT
     } finally {
       setIsGenerating(false);
     }
-  }, [formData, onTripGenerated]);
+  }, [formData, onTripGenerated, tripId]);
 
   const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-US', {
@@ -13,6 +13,7 @@ const AITripGenerator = dynamic(() => import('./AITripGenerator'), {
 
 interface AITripGeneratorLazyProps {
   onTripGenerated?: (tripData: any) => void;
+  tripId?: string;
   preferences?: {
     budget?: string;
     interests?: string[];
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertCircle, Laptop, Cloud } from 'lucide-react';
+import { AnimatedButton } from '@/components/effects/AnimatedButton';
+import {
+  diffDraftFields,
+  describeDraftValue,
+  mergeDrafts,
+  DraftMergeChoice,
+  DraftPayload,
+  ServerDraft,
+} from '@/lib/storage/draftSync';
+import { formatDistanceToNow } from 'date-fns';
+
+interface DraftMergeDialogProps {
+  local: DraftPayload;
+  server: ServerDraft;
+  onResolve: (merged: DraftPayload) => void;
+  onCancel?: () => void;
+}
+
+export const DraftMergeDialog: React.FC<DraftMergeDialogProps> = ({
+  local,
+  server,
+  onResolve,
+  onCancel
+}) => {
+  const conflicts = useMemo(() => diffDraftFields(local, server), [local, server]);
+  const [choices, setChoices] = useState<Record<string, DraftMergeChoice>>({});
+
+  const chooseAll = (choice: DraftMergeChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.path, choice])));
+  };
+
+  const handleApply = () => {
+    onResolve(mergeDrafts(local, server, choices));
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-navy-950/80 backdrop-blur-sm p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <motion.div
+          className="w-full max-w-2xl max-h-[85vh] overflow-y-auto bg-navy-900 border border-navy-700 rounded-2xl p-6"
+          initial={{ scale: 0.95, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.95, y: 20 }}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="draft-merge-title"
+        >
+          <div className="flex items-start space-x-3 mb-6">
+            <AlertCircle className="w-6 h-6 text-amber-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <h2 id="draft-merge-title" className="text-xl font-semibold text-navy-100">
+                This draft was changed on another device
+              </h2>
+              <p className="text-sm text-navy-400 mt-1">
+                The saved copy was updated {formatDistanceToNow(new Date(server.lastSaved), { addSuffix: true })}.
+                Pick which version to keep for each field.
+              </p>
+            </div>
+          </div>
+
+          {conflicts.length === 0 ? (
+            <p className="text-navy-300 mb-6">
+              Both copies have the same details. Only the completed steps will be combined.
+            </p>
+          ) : (
+            <>
+              <div className="flex justify-end space-x-2 mb-3 text-sm">
+                <button
+                  type="button"
+                  onClick={() => chooseAll('local')}
+                  className="px-3 py-1 rounded-lg text-teal-300 hover:bg-teal-500/10 transition-colors"
+                >
+                  Keep all mine
+                </button>
+                <button
+                  type="button"
+                  onClick={() => chooseAll('server')}
+                  className="px-3 py-1 rounded-lg text-sky-300 hover:bg-sky-500/10 transition-colors"
+                >
+                  Keep all saved
+                </button>
+              </div>
+
+              <div className="space-y-3 mb-6">
+                {conflicts.map(conflict => {
+                  const choice = choices[conflict.path] || 'local';
+
+                  return (
+                    <div key={conflict.path} className="bg-navy-800/50 rounded-xl p-4">
+                      <div className="text-sm font-medium text-navy-200 mb-2">{conflict.label}</div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setChoices(prev => ({ ...prev, [conflict.path]: 'local' }))}
+                          className={`flex items-center space-x-2 p-3 rounded-lg border text-left transition-colors ${
+                            choice === 'local'
+                              ? 'border-teal-400 bg-teal-500/10 text-teal-200'
+                              : 'border-navy-700 text-navy-300 hover:border-navy-500'
+                          }`}
+                        >
+                          <Laptop className="w-4 h-4 flex-shrink-0" />
+                          <span className="truncate">{describeDraftValue(conflict.local)}</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setChoices(prev => ({ ...prev, [conflict.path]: 'server' }))}
+                          className={`flex items-center space-x-2 p-3 rounded-lg border text-left transition-colors ${
+                            choice === 'server'
+                              ? 'border-sky-400 bg-sky-500/10 text-sky-200'
+                              : 'border-navy-700 text-navy-300 hover:border-navy-500'
+                          }`}
+                        >
+                          <Cloud className="w-4 h-4 flex-shrink-0" />
+                          <span className="truncate">{describeDraftValue(conflict.server)}</span>
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            {onCancel && (
+              <AnimatedButton variant="ghost" onClick={onCancel}>
+                Decide later
+              </AnimatedButton>
+            )}
+            <AnimatedButton variant="primary" onClick={handleApply}>
+              Save merged draft
+            </AnimatedButton>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  AlertCircle,
+  Bus,
+  Calendar,
+  CheckCircle,
+  Download,
+  FileUp,
+  Hotel,
+  MapPin,
+  Plane,
+  Sparkles,
+  Train,
+  Users,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { AnimatedButton } from '@/components/effects/AnimatedButton';
+import { DraftMergeDialog } from '@/components/drafts/DraftMergeDialog';
+import {
+  describeDraftValue,
+  diffDraftFields,
+  generateDraftClientId,
+  mergeDrafts,
+  saveDraftToServer,
+  DraftMergeChoice,
+  DraftPayload,
+  ServerDraft,
+} from '@/lib/storage/draftSync';
+import { buildImportDraft, mergeImportIntoDraft } from '@/lib/import/import-draft';
+import { IMPORTED_ITEM_KINDS, type ImportedItemKind, type ImportPreview } from '@/lib/import/plan';
+
+const ACCEPTED_FILES = '.ics,.ical,.gpx,.kml,.json,.eml,text/calendar,message/rfc822';
+
+const KIND_SECTIONS: Record<ImportedItemKind, { label: string; icon: React.ElementType }> = {
+  flight: { label: 'Flights', icon: Plane },
+  train: { label: 'Trains', icon: Train },
+  bus: { label: 'Buses', icon: Bus },
+  lodging: { label: 'Stays', icon: Hotel },
+  activity: { label: 'Activities', icon: Sparkles },
+  place: { label: 'Places', icon: MapPin },
+};
+
+// "2026-11-02T08:30+01:00" -> "2026-11-02 08:30 +01:00"
+function formatImportTime(time: string | undefined): string {
+  return time ? time.replace('T', ' ').replace(/(\d)([+-]\d{2}:\d{2}|Z)$/, '$1 $2') : '';
+}
+
+function draftLabel(draft: ServerDraft): string {
+  return draft.title || draft.formData?.to?.name || 'Untitled draft';
+}
+
+export const TripImportPreview: React.FC = () => {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<ServerDraft[]>([]);
+  const [targetClientId, setTargetClientId] = useState<string>('new');
+  const [choices, setChoices] = useState<Record<string, DraftMergeChoice>>({});
+  const [conflict, setConflict] = useState<{ local: DraftPayload; server: ServerDraft } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/trips/draft')
+      .then(response => response.ok ? response.json() : { drafts: [] })
+      .then(result => {
+        if (!cancelled) {
+          setDrafts((result.drafts || []).filter((draft: ServerDraft) => draft.clientId));
+        }
+      })
+      .catch(() => {
+        // Without the list only a new draft can be created
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const targetDraft = drafts.find(draft => draft.clientId === targetClientId) || null;
+
+  // The import merged into the chosen draft, and the fields it would change
+  const merged = useMemo(() => {
+    if (!preview || !targetDraft) return null;
+    return mergeImportIntoDraft(targetDraft, buildImportDraft(preview, selectedIds, targetDraft.clientId));
+  }, [preview, selectedIds, targetDraft]);
+  const changes = useMemo(() => merged && targetDraft ? diffDraftFields(merged, targetDraft) : [], [merged, targetDraft]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const form = new FormData();
+    Array.from(fileList).forEach(file => form.append('files', file));
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/trips/import', { method: 'POST', body: form });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(result.details || result.error || 'Failed to import files');
+        return;
+      }
+
+      setPreview(result.preview);
+      setSelectedIds(result.preview.items.map((item: { id: string }) => item.id));
+      setChoices({});
+    } catch (error) {
+      setError('Failed to import files');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const toggleItem = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const saveDraft = async (payload: DraftPayload) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await saveDraftToServer(payload);
+
+      switch (result.status) {
+        case 'saved':
+          router.push(`/new?draft=${encodeURIComponent(payload.clientId)}`);
+          return;
+        case 'conflict':
+          // The draft changed while we were reviewing; merge again on top of it
+          setConflict({ local: payload, server: result.server });
+          return;
+        case 'offline':
+          setError('You are offline. The draft will be saved when you reconnect.');
+          return;
+        case 'error':
+          setError(result.error);
+          return;
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!preview) return;
+
+    if (merged && targetDraft) {
+      saveDraft(mergeDrafts(merged, targetDraft, choices));
+    } else {
+      saveDraft(buildImportDraft(preview, selectedIds, generateDraftClientId()));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* File picker */}
+      <div className="bg-navy-900/40 backdrop-blur-sm border border-navy-700/50 rounded-2xl p-6 text-center">
+        <FileUp className="w-10 h-10 text-teal-400 mx-auto mb-3" />
+        <h2 className="text-xl font-semibold text-navy-100 mb-2">Import an existing plan</h2>
+        <p className="text-sm text-navy-300 mb-4">
+          Calendar files (.ics), GPX or KML routes, Tripthesia JSON exports and forwarded booking
+          confirmation emails (.eml). Up to 5 files at a time.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILES}
+          className="hidden"
+          onChange={event => handleFiles(event.target.files)}
+        />
+        <AnimatedButton
+          variant={preview ? 'outline' : 'primary'}
+          loading={isUploading}
+          disabled={isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <span className="flex items-center space-x-2">
+            <Download className="w-4 h-4" />
+            <span>{preview ? 'Choose other files' : 'Choose files'}</span>
+          </span>
+        </AnimatedButton>
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-sm text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {preview && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="space-y-6"
+          >
+            {/* Trip summary */}
+            <div className="bg-navy-900/40 backdrop-blur-sm border border-navy-700/50 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-navy-100 mb-1">{preview.title || 'Imported trip'}</h3>
+              <p className="text-xs text-navy-400 mb-4">
+                From {preview.sources.map(source => `${source.fileName} (${source.items} items)`).join(', ')}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                <div className="flex items-center text-navy-200">
+                  <MapPin className="w-4 h-4 text-teal-400 mr-2 flex-shrink-0" />
+                  <span className="truncate">
+                    {preview.from?.name || '—'} → {preview.to?.name || '—'}
+                  </span>
+                </div>
+                <div className="flex items-center text-navy-200">
+                  <Calendar className="w-4 h-4 text-teal-400 mr-2 flex-shrink-0" />
+                  <span>{preview.startDate || '—'} – {preview.endDate || '—'}</span>
+                </div>
+                <div className="flex items-center text-navy-200">
+                  <Users className="w-4 h-4 text-teal-400 mr-2 flex-shrink-0" />
+                  <span>{preview.travelers ? `${preview.travelers} travelers` : 'Travelers not stated'}</span>
+                </div>
+              </div>
+
+              {preview.warnings.length > 0 && (
+                <ul className="mt-4 space-y-1 text-xs text-amber-300">
+                  {preview.warnings.map(warning => (
+                    <li key={warning} className="flex items-start space-x-2">
+                      <AlertCircle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                      <span>{warning}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Items by kind */}
+            {IMPORTED_ITEM_KINDS.map(kind => {
+              const items = preview.items.filter(item => item.kind === kind);
+              if (items.length === 0) return null;
+              const { label, icon: Icon } = KIND_SECTIONS[kind];
+
+              return (
+                <div key={kind} className="bg-navy-900/40 backdrop-blur-sm border border-navy-700/50 rounded-2xl p-6">
+                  <h4 className="flex items-center text-sm font-semibold text-navy-200 mb-3">
+                    <Icon className="w-4 h-4 text-teal-400 mr-2" />
+                    {label}
+                  </h4>
+                  <div className="space-y-2">
+                    {items.map(item => {
+                      const isSelected = selectedIds.includes(item.id);
+                      return (
+                        <label
+                          key={item.id}
+                          className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            isSelected
+                              ? 'border-teal-500/40 bg-teal-500/10'
+                              : 'border-navy-700 hover:border-navy-500'
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            onChange={() => toggleItem(item.id)}
+                            className="mt-1 accent-teal-500"
+                          />
+                          <span className="min-w-0 flex-1 text-sm font-medium text-navy-100">
+                            {item.title}
+                            <span className="block text-xs font-normal text-navy-400">
+                              {[
+                                [formatImportTime(item.start), formatImportTime(item.end)].filter(Boolean).join(' → '),
+                                item.provider,
+                                item.reference && `Ref. ${item.reference}`,
+                                item.location?.address,
+                              ].filter(Boolean).join(' · ')}
+                            </span>
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Target draft */}
+            <div className="bg-navy-900/40 backdrop-blur-sm border border-navy-700/50 rounded-2xl p-6">
+              <label htmlFor="import-target" className="block text-sm font-semibold text-navy-200 mb-2">
+                Add to
+              </label>
+              <select
+                id="import-target"
+                value={targetClientId}
+                onChange={event => {
+                  setTargetClientId(event.target.value);
+                  setChoices({});
+                }}
+                className="w-full bg-navy-800 border border-navy-700 rounded-lg px-3 py-2 text-navy-100"
+              >
+                <option value="new">A new draft</option>
+                {drafts.map(draft => (
+                  <option key={draft.clientId} value={draft.clientId}>
+                    {draftLabel(draft)} (saved {formatDistanceToNow(new Date(draft.lastSaved), { addSuffix: true })})
+                  </option>
+                ))}
+              </select>
+
+              {targetDraft && (
+                <div className="mt-4">
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-navy-300">The import does not change this draft.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-navy-300">Choose what to keep for each field the import changes.</p>
+                      {changes.map(change => {
+                        const choice = choices[change.path] || 'local';
+                        return (
+                          <div key={change.path} className="bg-navy-800/50 rounded-xl p-4">
+                            <div className="text-sm font-medium text-navy-200 mb-2">{change.label}</div>
+                            <div className="grid grid-cols-2 gap-2">
+                              <button
+                                type="button"
+                                onClick={() => setChoices(prev => ({ ...prev, [change.path]: 'local' }))}
+                                title="Imported"
+                                className={`flex items-center space-x-2 p-3 rounded-lg border text-left transition-colors ${
+                                  choice === 'local'
+                                    ? 'border-teal-400 bg-teal-500/10 text-teal-200'
+                                    : 'border-navy-700 text-navy-300 hover:border-navy-500'
+                                }`}
+                              >
+                                <FileUp className="w-4 h-4 flex-shrink-0" />
+                                <span className="truncate">{describeDraftValue(change.local)}</span>
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setChoices(prev => ({ ...prev, [change.path]: 'server' }))}
+                                title="Keep current"
+                                className={`flex items-center space-x-2 p-3 rounded-lg border text-left transition-colors ${
+                                  choice === 'server'
+                                    ? 'border-sky-400 bg-sky-500/10 text-sky-200'
+                                    : 'border-navy-700 text-navy-300 hover:border-navy-500'
+                                }`}
+                              >
+                                <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                                <span className="truncate">{describeDraftValue(change.server)}</span>
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <AnimatedButton
+                variant="primary"
+                loading={isSaving}
+                disabled={isSaving || (selectedIds.length === 0 && !preview.to)}
+                onClick={handleCreate}
+              >
+                {targetDraft ? 'Update draft' : 'Create draft'}
+              </AnimatedButton>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {conflict && (
+        <DraftMergeDialog
+          local={conflict.local}
+          server={conflict.server}
+          onResolve={merged => {
+            setConflict(null);
+            saveDraft(merged);
+          }}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+    </div>
+  );
+};
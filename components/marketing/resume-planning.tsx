@@ -10,6 +10,7 @@ import { fadeInUp, staggerContainer } from '@/lib/motion-variants';
 
 interface DraftTrip {
   id: string;
+  clientId: string;
   currentStep: string;
   completedSteps: string[];
   formData: {
@@ -20,7 +21,7 @@ interface DraftTrip {
     travelers?: number;
     budget?: number;
   };
-  lastModified: string;
+  lastSaved: string;
   createdAt: string;
 }
 
@@ -43,7 +44,7 @@ export function ResumePlanning() {
       const response = await fetch('/api/trips/draft');
       if (response.ok) {
         const data = await response.json();
-        setDraftTrips(data.draftTrips || []);
+        setDraftTrips(data.drafts || []);
       }
     } catch (error) {
       console.error('Error fetching draft trips:', error);
@@ -55,12 +56,8 @@ export function ResumePlanning() {
   const deleteDraftTrip = async (tripId: string) => {
     setDeletingId(tripId);
     try {
-      const response = await fetch('/api/trips/draft', {
+      const response = await fetch(`/api/trips/draft?id=${encodeURIComponent(tripId)}`, {
         method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ tripId }),
       });
       
       if (response.ok) {
@@ -164,7 +161,7 @@ export function ResumePlanning() {
                       )}
                       <div className="flex items-center text-sm text-navy-400">
                         <Clock className="w-3 h-3 mr-1" />
-                        {new Date(trip.lastModified).toLocaleDateString()}
+                        {new Date(trip.lastSaved).toLocaleDateString()}
                       </div>
                     </div>
                     
@@ -233,7 +230,7 @@ export function ResumePlanning() {
                     asChild
                     className="w-full bg-teal-600 hover:bg-teal-500 text-white font-medium group-hover:shadow-lg group-hover:shadow-teal-500/20 transition-all duration-300"
                   >
-                    <Link href="/new" className="flex items-center justify-center">
+                    <Link href={`/new?draft=${encodeURIComponent(trip.clientId)}`} className="flex items-center justify-center">
                       Continue Planning
                       <ChevronRight className="w-4 h-4 ml-1 group-hover:translate-x-1 transition-transform" />
                     </Link>
@@ -25,6 +25,7 @@ import {
   Clock,
   Shield
 } from 'lucide-react';
+import { ProvenanceBadge } from '@/components/ui/provenance-badge';
 import { HotelClusteringService } from '@/lib/services/hotel-clustering';
 import type { 
   HotelClusterAnalysis, 
@@ -172,7 +173,7 @@ export function HotelClusteringResults({
 
   const clusterHotels = async () => {
     try {
-      // Create mock search result from hotels data
+      // Wrap the fetched offers in a search result for clustering
       const searchResult: HotelSearchResult = {
         query: {
           location: {
@@ -219,7 +220,7 @@ export function HotelClusteringResults({
         meta: {
           totalResults: hotels.length,
           searchTime: Date.now(),
-          providers: ['mock'],
+          providers: [...new Set(hotels.map(hotel => hotel.provider))],
           currency: 'INR',
           location: {
             resolved: searchParams.location.value,
@@ -231,7 +232,8 @@ export function HotelClusteringResults({
             nights: Math.ceil((new Date(searchParams.checkOut).getTime() - new Date(searchParams.checkIn).getTime()) / (1000 * 60 * 60 * 24))
           },
           lastUpdated: new Date().toISOString(),
-          cacheHit: false
+          cacheHit: false,
+          sandbox: hotels.some(hotel => hotel.provenance === 'synthetic')
         }
       };
 
@@ -336,6 +338,7 @@ export function HotelClusteringResults({
                 }`}>
                   per night
                 </div>
+                <ProvenanceBadge provenance={hotel.provenance} className="mt-1" />
               </div>
             </div>
 
@@ -18,10 +18,12 @@ import {
   Fuel,
   ParkingCircle,
   Activity as ActivityIcon,
-  Leaf
+  Leaf,
+  Utensils
 } from 'lucide-react';
 import { optimizeRoute, RouteOptimizationResult, findLocationClusters, suggestOptimalTiming } from '@/lib/planning/route-optimizer';
 import { enhancedOptimizeRoute, EnhancedRouteOptimizationResult, type EnhancedOptimizationOptions } from '@/lib/planning/enhanced-route-optimizer';
+import { solveDaySchedule, type DayScheduleResult } from '@/lib/planning/schedule-solver';
 import type { DayPlan } from './TimelineBuilder';
 import type { Activity } from './TimelineBuilder';
 
@@ -52,6 +54,8 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
   const [optimizationResult, setOptimizationResult] = useState<RouteOptimizationResult | null>(null);
   const [enhancedResult, setEnhancedResult] = useState<EnhancedRouteOptimizationResult | null>(null);
   const [useEnhancedOptimization, setUseEnhancedOptimization] = useState(true);
+  const [respectOpeningHours, setRespectOpeningHours] = useState(true);
+  const [scheduleResult, setScheduleResult] = useState<DayScheduleResult | null>(null);
   const [vehicleType, setVehicleType] = useState<'compact' | 'standard' | 'suv' | 'electric'>('standard');
   const [considerTraffic, setConsiderTraffic] = useState(true);
   const [considerCosts, setConsiderCosts] = useState(true);
@@ -80,7 +84,13 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
     setIsOptimizing(true);
     
     try {
-      if (useEnhancedOptimization) {
+      if (respectOpeningHours) {
+        // Time windows first: distance-only ordering can land on closed places
+        const result = solveDaySchedule(dayPlan.activities, { date: dayPlan.date, travelMode });
+        setScheduleResult(result);
+        setEnhancedResult(null);
+        setOptimizationResult(null);
+      } else if (useEnhancedOptimization) {
         const enhancedOptions: EnhancedOptimizationOptions = {
           travelMode,
           vehicleType,
@@ -118,17 +128,24 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
     } finally {
       setIsOptimizing(false);
     }
-  }, [dayPlan.activities, travelMode, useEnhancedOptimization, vehicleType, considerTraffic, considerCosts]);
+  }, [dayPlan.activities, dayPlan.date, travelMode, respectOpeningHours, useEnhancedOptimization, vehicleType, considerTraffic, considerCosts]);
 
   const handleApplyOptimization = useCallback(() => {
-    if (enhancedResult) {
+    if (scheduleResult) {
+      // Unplaceable activities stay in the day at their current times
+      onOptimize([
+        ...scheduleResult.scheduledActivities,
+        ...scheduleResult.unscheduled.map(item => item.activity),
+      ]);
+      setScheduleResult(null);
+    } else if (enhancedResult) {
       onOptimize(enhancedResult.optimizedActivities);
       setEnhancedResult(null);
     } else if (optimizationResult) {
       onOptimize(optimizationResult.optimizedActivities);
       setOptimizationResult(null);
     }
-  }, [enhancedResult, optimizationResult, onOptimize]);
+  }, [scheduleResult, enhancedResult, optimizationResult, onOptimize]);
 
   const formatTime = (minutes: number): string => {
     if (minutes < 60) return `${Math.round(minutes)}m`;
@@ -142,6 +159,14 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
     return `${km.toFixed(1)}km`;
   };
 
+  const formatClock = (isoString: string): string => {
+    return new Date(isoString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  };
+
   if (dayPlan.activities.length === 0) {
     return (
       <div className={`bg-gray-50 rounded-lg border border-gray-200 p-6 text-center ${className}`}>
@@ -173,6 +198,26 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
         </button>
       </div>
 
+      {/* Opening Hours Toggle */}
+      <div className="flex items-center justify-between p-3 bg-teal-50 rounded-lg border border-teal-200">
+        <div>
+          <h4 className="text-sm font-medium text-teal-900">Respect Opening Hours</h4>
+          <p className="text-xs text-teal-700">Schedules around opening hours, locked bookings and meal times</p>
+        </div>
+        <button
+          onClick={() => setRespectOpeningHours(!respectOpeningHours)}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            respectOpeningHours ? 'bg-teal-600' : 'bg-gray-200'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              respectOpeningHours ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
       {/* Optimization Mode Toggle */}
       <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg border border-blue-200">
         <div>
@@ -223,7 +268,7 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
       </fieldset>
 
       {/* Enhanced Options for Driving */}
-      {useEnhancedOptimization && travelMode === 'driving' && (
+      {useEnhancedOptimization && !respectOpeningHours && travelMode === 'driving' && (
         <div className="space-y-4">
           {/* Vehicle Selection */}
           <fieldset className="space-y-2">
@@ -366,6 +411,111 @@ export default function RouteOptimizer({ dayPlan, onOptimize, className = '' }:
         )}
       </motion.button>
 
+      {/* Schedule Solver Results */}
+      <AnimatePresence>
+        {scheduleResult && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h4 className="text-lg font-medium text-gray-900">Opening Hours Schedule</h4>
+              <div className={`px-3 py-1 rounded-full text-sm font-medium ${
+                scheduleResult.unscheduled.length === 0
+                  ? 'bg-green-100 text-green-700'
+                  : 'bg-red-100 text-red-700'
+              }`}>
+                {scheduleResult.scheduledActivities.length}/{dayPlan.activities.length} Scheduled
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-blue-50 rounded-lg p-3 border border-blue-200">
+                <div className="flex items-center space-x-2">
+                  <Clock className="h-4 w-4 text-blue-600" />
+                  <span className="text-xs font-medium text-blue-900">Travel Time</span>
+                </div>
+                <p className="text-lg font-bold text-blue-700 mt-1">
+                  {formatTime(scheduleResult.totalTravelTime)}
+                </p>
+                {scheduleResult.totalWaitTime > 0 && (
+                  <p className="text-xs text-blue-600">
+                    +{formatTime(scheduleResult.totalWaitTime)} waiting for opening
+                  </p>
+                )}
+              </div>
+              <div className="bg-green-50 rounded-lg p-3 border border-green-200">
+                <div className="flex items-center space-x-2">
+                  <Navigation className="h-4 w-4 text-green-600" />
+                  <span className="text-xs font-medium text-green-900">Distance</span>
+                </div>
+                <p className="text-lg font-bold text-green-700 mt-1">
+                  {formatDistance(scheduleResult.totalDistance)}
+                </p>
+              </div>
+            </div>
+
+            {/* Timeline Preview */}
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+              {scheduleResult.scheduledActivities.map(activity => (
+                <div key={activity.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900 truncate">{activity.title}</span>
+                  <span className="text-gray-600 flex-shrink-0 ml-2">
+                    {formatClock(activity.timeSlot.start)} - {formatClock(activity.timeSlot.end)}
+                  </span>
+                </div>
+              ))}
+              {scheduleResult.mealBreaks.filter(meal => !meal.activityId).map(meal => (
+                <div key={meal.name} className="flex items-center justify-between text-sm text-orange-700">
+                  <span className="flex items-center">
+                    <Utensils className="h-3 w-3 mr-1" /> {meal.name} break
+                  </span>
+                  <span className="flex-shrink-0 ml-2">
+                    {formatClock(meal.start)} - {formatClock(meal.end)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Infeasible Activities */}
+            {(scheduleResult.unscheduled.length > 0 || scheduleResult.warnings.length > 0) && (
+              <div className="bg-red-50 rounded-lg p-4 border border-red-200">
+                <h5 className="text-sm font-medium text-red-900 mb-2 flex items-center">
+                  <AlertCircle className="h-4 w-4 mr-1" /> Could Not Be Fitted
+                </h5>
+                <div className="space-y-1">
+                  {scheduleResult.unscheduled.map(item => (
+                    <p key={item.activity.id} className="text-sm text-red-700">• {item.message}</p>
+                  ))}
+                  {scheduleResult.warnings.map((warning, index) => (
+                    <p key={index} className="text-xs text-red-600">• {warning}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <motion.button
+                onClick={handleApplyOptimization}
+                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-green-700 transition-colors"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                Apply Schedule
+              </motion.button>
+              <button
+                onClick={() => setScheduleResult(null)}
+                className="px-4 py-2 text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Enhanced Optimization Results */}
       <AnimatePresence>
         {enhancedResult && (
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Lock } from 'lucide-react';
+
+interface SharePasswordFormProps {
+  token: string;
+}
+
+export default function SharePasswordForm({ token }: SharePasswordFormProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!password) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/share/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        setError(result.error || 'Failed to unlock trip');
+        return;
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError('Failed to unlock trip');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-center w-12 h-12 mx-auto bg-indigo-100 rounded-full">
+        <Lock className="h-6 w-6 text-indigo-600" />
+      </div>
+      <label htmlFor="share-password-input" className="block text-sm font-medium text-gray-700">
+        This trip is password protected
+      </label>
+      <input
+        id="share-password-input"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Enter password"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={!password || isSubmitting}
+        className={`w-full px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+          !password || isSubmitting
+            ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+            : 'bg-indigo-600 text-white hover:bg-indigo-700'
+        }`}
+      >
+        {isSubmitting ? 'Unlocking...' : 'View Trip'}
+      </button>
+    </form>
+  );
+}
@@ -12,8 +12,12 @@ import {
   Route,
   DollarSign,
   Edit,
-  Trash2
+  Trash2,
+  Lock,
+  Unlock,
+  Wand2
 } from 'lucide-react';
+import { checkOpeningHours, solveDaySchedule, type UnscheduledActivity } from '@/lib/planning/schedule-solver';
 
 export interface Activity {
   id: string;
@@ -33,6 +37,9 @@ export interface Activity {
   budget?: number;
   bookingUrl?: string;
   notes?: string;
+  placeId?: string;
+  openingHours?: unknown; // Raw `places.hours` value, parsed by the schedule solver
+  locked?: boolean; // Fixed-time booking the schedule solver must not move
 }
 
 export interface DayPlan {
@@ -42,7 +49,7 @@ export interface DayPlan {
 }
 
 export interface ConflictInfo {
-  type: 'overlap' | 'travel_time' | 'location_conflict';
+  type: 'overlap' | 'travel_time' | 'location_conflict' | 'opening_hours';
   activities: string[]; // activity IDs
   message: string;
   severity: 'warning' | 'error';
@@ -81,6 +88,8 @@ export default function TimelineBuilder({
 }: TimelineBuilderProps) {
   const [selectedActivity, setSelectedActivity] = useState<string | null>(null);
   const [draggedActivity, setDraggedActivity] = useState<string | null>(null);
+  const [unscheduled, setUnscheduled] = useState<UnscheduledActivity[]>([]);
+  const [scheduleWarnings, setScheduleWarnings] = useState<string[]>([]);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const formatTime = (isoString: string): string => {
@@ -127,6 +136,19 @@ export default function TimelineBuilder({
       new Date(a.timeSlot.start).getTime() - new Date(b.timeSlot.start).getTime()
     );
 
+    // Check opening hours
+    for (const activity of sortedActivities) {
+      const message = checkOpeningHours(activity);
+      if (message) {
+        conflicts.push({
+          type: 'opening_hours',
+          activities: [activity.id],
+          message,
+          severity: 'error',
+        });
+      }
+    }
+
     for (let i = 0; i < sortedActivities.length - 1; i++) {
       const current = sortedActivities[i];
       const next = sortedActivities[i + 1];
@@ -197,6 +219,24 @@ export default function TimelineBuilder({
     onUpdateDayPlan(updatedDayPlan);
   }, [dayPlan, detectConflicts, onUpdateDayPlan]);
 
+  // Rebuild the day around opening hours, locked bookings and meal times.
+  // Activities that don't fit keep their current slot and are listed below.
+  const handleFitToOpeningHours = useCallback(() => {
+    const schedule = solveDaySchedule(dayPlan.activities, { date: dayPlan.date });
+    const updatedActivities = [
+      ...schedule.scheduledActivities,
+      ...schedule.unscheduled.map(item => item.activity),
+    ];
+
+    setUnscheduled(schedule.unscheduled);
+    setScheduleWarnings(schedule.warnings);
+    onUpdateDayPlan({
+      ...dayPlan,
+      activities: updatedActivities,
+      conflicts: detectConflicts(updatedActivities),
+    });
+  }, [dayPlan, detectConflicts, onUpdateDayPlan]);
+
   const getConflictsForActivity = useCallback((activityId: string) => {
     return dayPlan.conflicts.filter(conflict => 
       conflict.activities.includes(activityId)
@@ -266,6 +306,22 @@ export default function TimelineBuilder({
             </h3>
             {isEditable && (
               <div className="flex space-x-2 ml-2">
+                <motion.button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleActivityUpdate(activity.id, { locked: !activity.locked });
+                  }}
+                  className={`p-2 rounded-lg transition-all duration-200 ${
+                    activity.locked
+                      ? 'text-amber-300 bg-amber-400/10 hover:bg-amber-400/20'
+                      : 'text-navy-400 hover:text-amber-300 bg-navy-700/50 hover:bg-amber-400/10'
+                  }`}
+                  title={activity.locked ? 'Unlock time' : 'Lock time (fixed booking)'}
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  {activity.locked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+                </motion.button>
                 <motion.button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -354,6 +410,7 @@ export default function TimelineBuilder({
                         <div className="font-medium mb-1">
                           {conflict.type === 'overlap' ? 'Schedule Conflict' :
                            conflict.type === 'travel_time' ? 'Travel Time Issue' : 
+                           conflict.type === 'opening_hours' ? 'Closed at This Time' :
                            'Location Conflict'}
                         </div>
                         <div className="text-xs opacity-90 leading-relaxed">
@@ -406,21 +463,75 @@ export default function TimelineBuilder({
         </div>
         
         {isEditable && (
-          <motion.button
-            onClick={onAddActivity}
-            className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-teal-500 to-blue-500 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
-            whileHover={{ scale: 1.05, y: -2 }}
-            whileTap={{ scale: 0.95 }}
-            initial={{ opacity: 0, x: 20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.2 }}
-          >
-            <Plus className="h-5 w-5" />
-            <span>Add Activity</span>
-          </motion.button>
+          <div className="flex items-center space-x-3">
+            {dayPlan.activities.length > 0 && (
+              <motion.button
+                onClick={handleFitToOpeningHours}
+                className="flex items-center space-x-2 px-4 py-3 bg-navy-700/50 text-navy-100 border border-navy-500 rounded-xl font-semibold hover:bg-navy-600/50 transition-all duration-300"
+                title="Reschedule around opening hours, locked bookings and meal times"
+                whileHover={{ scale: 1.05, y: -2 }}
+                whileTap={{ scale: 0.95 }}
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.1 }}
+              >
+                <Wand2 className="h-5 w-5 text-teal-400" />
+                <span>Fit to Opening Hours</span>
+              </motion.button>
+            )}
+            <motion.button
+              onClick={onAddActivity}
+              className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-teal-500 to-blue-500 text-white rounded-xl font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+              whileHover={{ scale: 1.05, y: -2 }}
+              whileTap={{ scale: 0.95 }}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.2 }}
+            >
+              <Plus className="h-5 w-5" />
+              <span>Add Activity</span>
+            </motion.button>
+          </div>
         )}
       </div>
 
+      {/* Schedule Solver Report */}
+      <AnimatePresence>
+        {(unscheduled.length > 0 || scheduleWarnings.length > 0) && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="bg-red-400/10 border border-red-400/30 rounded-xl p-6 backdrop-blur-md space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-red-300 text-lg">
+                {unscheduled.length > 0
+                  ? `${unscheduled.length} Activit${unscheduled.length > 1 ? 'ies' : 'y'} Could Not Be Fitted`
+                  : 'Schedule Notes'}
+              </h3>
+              <button
+                onClick={() => {
+                  setUnscheduled([]);
+                  setScheduleWarnings([]);
+                }}
+                className="text-xs text-red-200 hover:text-red-100"
+              >
+                Dismiss
+              </button>
+            </div>
+            {unscheduled.map(item => (
+              <div key={item.activity.id} className="text-sm text-red-200">
+                <span className="font-semibold">{item.activity.title}:</span> {item.message}
+              </div>
+            ))}
+            {scheduleWarnings.map((warning, index) => (
+              <div key={index} className="text-sm text-yellow-200">{warning}</div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Conflicts Summary */}
       {dayPlan.conflicts.length > 0 && (
         <motion.div
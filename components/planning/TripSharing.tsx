@@ -40,6 +40,7 @@ export interface SharedUser {
   permission: SharePermission['level'];
   addedAt: string;
   avatarUrl?: string;
+  status?: 'pending' | 'active';
 }
 
 export interface TripShareSettings {
@@ -85,6 +86,16 @@ const PERMISSION_LEVELS: SharePermission[] = [
   },
 ];
 
+// Stored trip roles only distinguish editors from viewers; commenting is
+// available to every collaborator
+function toTripRole(level: SharePermission['level']): 'editor' | 'viewer' {
+  return level === 'edit' ? 'editor' : 'viewer';
+}
+
+function toPermissionLevel(role: string): SharePermission['level'] {
+  return role === 'editor' ? 'edit' : 'view';
+}
+
 export default function TripSharing({
   tripId,
   tripTitle,
@@ -99,19 +110,114 @@ export default function TripSharing({
   const [inviteEmail, setInviteEmail] = useState('');
   const [invitePermission, setInvitePermission] = useState<SharePermission['level']>('view');
   const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
   const [copiedLink, setCopiedLink] = useState(false);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [activeCollaborators, setActiveCollaborators] = useState<CollaboratorInfo[]>([]);
   const [isCollaborationConnected, setIsCollaborationConnected] = useState(false);
   const [realtimeActivity, setRealtimeActivity] = useState<string[]>([]);
 
-  const shareUrl = `${window.location.origin}/shared-trip/${tripId}`;
+  const [sharePassword, setSharePassword] = useState('');
+  const [shareExpiryDays, setShareExpiryDays] = useState<string>('never');
+  const [isPasswordProtected, setIsPasswordProtected] = useState(false);
+  const [shareViews, setShareViews] = useState(0);
+
+  const shareUrl = settings.shareLink;
 
   // Update local settings when props change
   useEffect(() => {
     setSettings(currentSettings);
   }, [currentSettings]);
 
+  // Load persisted collaborators and pending invitations
+  useEffect(() => {
+    if (!tripId || !isOpen) return;
+
+    let cancelled = false;
+
+    const loadSharedUsers = async () => {
+      try {
+        const [collaboratorsResponse, invitationsResponse] = await Promise.all([
+          fetch(`/api/trips/${tripId}/collaborators`),
+          currentUserRole === 'owner' ? fetch(`/api/trips/${tripId}/invitations`) : Promise.resolve(null),
+        ]);
+
+        if (!collaboratorsResponse.ok) return;
+
+        const { collaborators } = await collaboratorsResponse.json();
+        const invitations = invitationsResponse?.ok ? (await invitationsResponse.json()).invitations : [];
+
+        const sharedUsers: SharedUser[] = [
+          ...collaborators
+            .filter((collaborator: any) => collaborator.role !== 'owner')
+            .map((collaborator: any) => ({
+              id: collaborator.userId,
+              email: collaborator.email || '',
+              name: collaborator.displayName || undefined,
+              permission: toPermissionLevel(collaborator.role),
+              addedAt: collaborator.createdAt,
+              status: 'active' as const,
+            })),
+          ...invitations
+            .filter((invitation: any) => invitation.status === 'pending')
+            .map((invitation: any) => ({
+              id: invitation.id,
+              email: invitation.email,
+              permission: toPermissionLevel(invitation.role),
+              addedAt: invitation.createdAt,
+              status: 'pending' as const,
+            })),
+        ];
+
+        if (!cancelled) {
+          setSettings(prev => ({ ...prev, sharedUsers }));
+        }
+      } catch (error) {
+        console.error('Failed to load collaborators:', error);
+      }
+    };
+
+    loadSharedUsers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, isOpen, currentUserRole]);
+
+  // Load the public share link (owner only)
+  useEffect(() => {
+    if (!tripId || !isOpen || currentUserRole !== 'owner') return;
+
+    let cancelled = false;
+
+    const loadShare = async () => {
+      try {
+        const response = await fetch(`/api/trips/${tripId}/share`);
+        if (!response.ok) return;
+
+        const { share } = await response.json();
+        if (cancelled) return;
+
+        setSettings(prev => ({
+          ...prev,
+          isPublic: Boolean(share),
+          shareLink: share?.url || '',
+          allowPublicComments: share?.allowComments ?? prev.allowPublicComments,
+        }));
+        setIsPasswordProtected(Boolean(share?.passwordProtected));
+        setShareViews(share?.views || 0);
+      } catch (error) {
+        console.error('Failed to load share link:', error);
+      }
+    };
+
+    loadShare();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, isOpen, currentUserRole]);
+
   // Initialize real-time collaboration
   useEffect(() => {
     if (!user || !tripId || !isOpen) return;
@@ -146,7 +252,7 @@ export default function TripSharing({
         });
       },
       onContentChange: (change) => {
-        setRealtimeActivity(prev => ["Content updated by " + change.author, ...prev.slice(0, 4)]);
+        setRealtimeActivity(prev => ["Content updated by " + (change.author || 'a collaborator'), ...prev.slice(0, 4)]);
       },
     });
 
@@ -171,33 +277,74 @@ export default function TripSharing({
     if (!inviteEmail.trim()) return;
 
     setIsInviting(true);
+    setInviteError(null);
 
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    const newUser: SharedUser = {
-      id: `user-${Date.now()}`,
-      email: inviteEmail.trim(),
-      name: inviteEmail.split('@')[0], // Extract name from email
-      permission: invitePermission,
-      addedAt: new Date().toISOString(),
-    };
+    try {
+      const response = await fetch(`/api/trips/${tripId}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: inviteEmail.trim(),
+          role: toTripRole(invitePermission),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setInviteError(result.error || 'Failed to send invitation');
+        return;
+      }
+
+      const newUser: SharedUser = {
+        id: result.invitation.id,
+        email: result.invitation.email,
+        name: inviteEmail.split('@')[0], // Extract name from email
+        permission: toPermissionLevel(result.invitation.role),
+        addedAt: result.invitation.createdAt,
+        status: 'pending',
+      };
+
+      const updatedSettings = {
+        ...settings,
+        sharedUsers: [
+          ...settings.sharedUsers.filter(user => !(user.status === 'pending' && user.email === newUser.email)),
+          newUser,
+        ],
+      };
+
+      setSettings(updatedSettings);
+      onSettingsChange(updatedSettings);
+
+      // Reset form
+      setInviteEmail('');
+      setInvitePermission('view');
+    } catch (error) {
+      console.error('Failed to send invitation:', error);
+      setInviteError('Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  }, [tripId, inviteEmail, invitePermission, settings, onSettingsChange]);
 
-    const updatedSettings = {
-      ...settings,
-      sharedUsers: [...settings.sharedUsers, newUser],
-    };
+  const handleRemoveUser = useCallback(async (userId: string) => {
+    const target = settings.sharedUsers.find(user => user.id === userId);
+    if (!target) return;
 
-    setSettings(updatedSettings);
-    onSettingsChange(updatedSettings);
+    const endpoint = target.status === 'pending'
+      ? `/api/trips/${tripId}/invitations/${userId}`
+      : `/api/trips/${tripId}/collaborators/${userId}`;
 
-    // Reset form
-    setInviteEmail('');
-    setInvitePermission('view');
-    setIsInviting(false);
-  }, [inviteEmail, invitePermission, settings, onSettingsChange]);
+    try {
+      const response = await fetch(endpoint, { method: 'DELETE' });
+      if (!response.ok) {
+        console.error('Failed to remove collaborator:', await response.text());
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to remove collaborator:', error);
+      return;
+    }
 
-  const handleRemoveUser = useCallback((userId: string) => {
     const updatedSettings = {
       ...settings,
       sharedUsers: settings.sharedUsers.filter(user => user.id !== userId),
@@ -205,9 +352,27 @@ export default function TripSharing({
 
     setSettings(updatedSettings);
     onSettingsChange(updatedSettings);
-  }, [settings, onSettingsChange]);
+  }, [tripId, settings, onSettingsChange]);
+
+  const handleChangePermission = useCallback(async (userId: string, newPermission: SharePermission['level']) => {
+    const target = settings.sharedUsers.find(user => user.id === userId);
+    if (!target || target.status === 'pending') return;
+
+    try {
+      const response = await fetch(`/api/trips/${tripId}/collaborators/${userId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: toTripRole(newPermission) }),
+      });
+      if (!response.ok) {
+        console.error('Failed to change permission:', await response.text());
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to change permission:', error);
+      return;
+    }
 
-  const handleChangePermission = useCallback((userId: string, newPermission: SharePermission['level']) => {
     const updatedSettings = {
       ...settings,
       sharedUsers: settings.sharedUsers.map(user =>
@@ -217,18 +382,71 @@ export default function TripSharing({
 
     setSettings(updatedSettings);
     onSettingsChange(updatedSettings);
-  }, [settings, onSettingsChange]);
+  }, [tripId, settings, onSettingsChange]);
+
+  const applyShareResponse = useCallback(async (response: Response) => {
+    if (!response.ok) {
+      console.error('Failed to update share link:', await response.text());
+      return;
+    }
 
-  const handlePublicToggle = useCallback(() => {
+    const { share } = await response.json();
     const updatedSettings = {
       ...settings,
-      isPublic: !settings.isPublic,
+      isPublic: Boolean(share),
+      shareLink: share?.url || '',
+      allowPublicComments: share?.allowComments ?? settings.allowPublicComments,
     };
 
+    setIsPasswordProtected(Boolean(share?.passwordProtected));
+    setShareViews(share?.views || 0);
     setSettings(updatedSettings);
     onSettingsChange(updatedSettings);
   }, [settings, onSettingsChange]);
 
+  const handlePublicToggle = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trips/${tripId}/share`, {
+        method: settings.isPublic ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: settings.isPublic ? undefined : JSON.stringify({ allowComments: settings.allowPublicComments }),
+      });
+      await applyShareResponse(response);
+    } catch (error) {
+      console.error('Failed to update share link:', error);
+    }
+  }, [tripId, settings, applyShareResponse]);
+
+  const handleRotateLink = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trips/${tripId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      await applyShareResponse(response);
+    } catch (error) {
+      console.error('Failed to rotate share link:', error);
+    }
+  }, [tripId, applyShareResponse]);
+
+  const handleUpdateShareSettings = useCallback(async (updates: {
+    expiresInDays?: number | null;
+    password?: string | null;
+    allowComments?: boolean;
+  }) => {
+    try {
+      const response = await fetch(`/api/trips/${tripId}/share`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      await applyShareResponse(response);
+    } catch (error) {
+      console.error('Failed to update share settings:', error);
+    }
+  }, [tripId, applyShareResponse]);
+
   const getPermissionIcon = (level: SharePermission['level']) => {
     const permission = PERMISSION_LEVELS.find(p => p.level === level);
     return permission?.icon || Eye;
@@ -399,47 +617,63 @@ export default function TripSharing({
             </div>
 
             {/* Share Link */}
-            <div className="space-y-3">
-              <label htmlFor="share-link-input" className="block text-sm font-medium text-gray-700">
-                Share Link
-              </label>
-              <div className="flex items-center space-x-2">
-                <div className="flex-1 flex items-center border border-gray-300 rounded-lg">
-                  <div className="p-3 border-r border-gray-300">
-                    <LinkIcon className="h-4 w-4 text-gray-400" />
+            {settings.isPublic && shareUrl && (
+              <div className="space-y-3">
+                <label htmlFor="share-link-input" className="block text-sm font-medium text-gray-700">
+                  Share Link
+                </label>
+                <div className="flex items-center space-x-2">
+                  <div className="flex-1 flex items-center border border-gray-300 rounded-lg">
+                    <div className="p-3 border-r border-gray-300">
+                      <LinkIcon className="h-4 w-4 text-gray-400" />
+                    </div>
+                    <input
+                      id="share-link-input"
+                      type="text"
+                      value={shareUrl}
+                      readOnly
+                      className="flex-1 px-3 py-2 bg-gray-50 text-sm text-gray-600"
+                    />
                   </div>
-                  <input
-                    id="share-link-input"
-                    type="text"
-                    value={shareUrl}
-                    readOnly
-                    className="flex-1 px-3 py-2 bg-gray-50 text-sm text-gray-600"
-                  />
+                  <motion.button
+                    onClick={handleCopyLink}
+                    className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                      copiedLink
+                        ? 'bg-green-100 text-green-700 border-green-300'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    {copiedLink ? (
+                      <div className="flex items-center space-x-1">
+                        <Check className="h-4 w-4" />
+                        <span>Copied!</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-1">
+                        <Copy className="h-4 w-4" />
+                        <span>Copy</span>
+                      </div>
+                    )}
+                  </motion.button>
                 </div>
-                <motion.button
-                  onClick={handleCopyLink}
-                  className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
-                    copiedLink
-                      ? 'bg-green-100 text-green-700 border-green-300'
-                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-                  }`}
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                >
-                  {copiedLink ? (
-                    <div className="flex items-center space-x-1">
-                      <Check className="h-4 w-4" />
-                      <span>Copied!</span>
-                    </div>
-                  ) : (
-                    <div className="flex items-center space-x-1">
-                      <Copy className="h-4 w-4" />
-                      <span>Copy</span>
-                    </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {shareViews} {shareViews === 1 ? 'view' : 'views'}
+                    {isPasswordProtected && ' • Password protected'}
+                  </span>
+                  {currentUserRole === 'owner' && (
+                    <button
+                      onClick={handleRotateLink}
+                      className="text-indigo-600 hover:text-indigo-700"
+                    >
+                      Reset link
+                    </button>
                   )}
-                </motion.button>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Invite Users */}
             <div className="space-y-4">
@@ -490,6 +724,10 @@ export default function TripSharing({
                 <div className="text-xs text-gray-500">
                   {PERMISSION_LEVELS.find(p => p.level === invitePermission)?.description}
                 </div>
+
+                {inviteError && (
+                  <div className="text-xs text-red-600">{inviteError}</div>
+                )}
               </div>
             </div>
 
@@ -532,7 +770,7 @@ export default function TripSharing({
                               {user.name || user.email.split('@')[0]}
                             </p>
                             <p className="text-xs text-gray-500">
-                              {user.email} • Added {formatDate(user.addedAt)}
+                              {user.email} • {user.status === 'pending' ? 'Invited' : 'Added'} {formatDate(user.addedAt)}
                             </p>
                           </div>
                         </div>
@@ -550,7 +788,7 @@ export default function TripSharing({
                             value={user.permission}
                             onChange={(e) => handleChangePermission(user.id, e.target.value as SharePermission['level'])}
                             className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                            disabled={currentUserRole !== 'owner'}
+                            disabled={currentUserRole !== 'owner' || user.status === 'pending'}
                           >
                             {PERMISSION_LEVELS.map((permission) => (
                               <option key={permission.level} value={permission.level}>
@@ -601,6 +839,10 @@ export default function TripSharing({
                       </div>
                       <motion.button
                         onClick={() => {
+                          if (settings.isPublic) {
+                            handleUpdateShareSettings({ allowComments: !settings.allowPublicComments });
+                            return;
+                          }
                           const updatedSettings = {
                             ...settings,
                             allowPublicComments: !settings.allowPublicComments,
@@ -621,6 +863,67 @@ export default function TripSharing({
                         />
                       </motion.button>
                     </div>
+
+                    {settings.isPublic && currentUserRole === 'owner' && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <label htmlFor="share-expiry-select" className="text-sm font-medium text-gray-900">Link Expiry</label>
+                            <p className="text-xs text-gray-600">The link stops working after this period</p>
+                          </div>
+                          <select
+                            id="share-expiry-select"
+                            value={shareExpiryDays}
+                            onChange={(e) => {
+                              setShareExpiryDays(e.target.value);
+                              handleUpdateShareSettings({
+                                expiresInDays: e.target.value === 'never' ? null : Number(e.target.value),
+                              });
+                            }}
+                            className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          >
+                            <option value="never">Never</option>
+                            <option value="1">1 day</option>
+                            <option value="7">7 days</option>
+                            <option value="30">30 days</option>
+                          </select>
+                        </div>
+
+                        <div className="space-y-2">
+                          <label htmlFor="share-password-setting" className="block text-sm font-medium text-gray-900">
+                            Link Password
+                          </label>
+                          <div className="flex items-center space-x-2">
+                            <input
+                              id="share-password-setting"
+                              type="password"
+                              value={sharePassword}
+                              onChange={(e) => setSharePassword(e.target.value)}
+                              placeholder={isPasswordProtected ? 'Enter a new password' : 'No password'}
+                              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => {
+                                handleUpdateShareSettings({ password: sharePassword });
+                                setSharePassword('');
+                              }}
+                              disabled={sharePassword.length < 4}
+                              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-100 disabled:text-gray-400"
+                            >
+                              Set
+                            </button>
+                            {isPasswordProtected && (
+                              <button
+                                onClick={() => handleUpdateShareSettings({ password: null })}
+                                className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </>
+                    )}
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarDays, Hotel, Loader2, Plane, TrendingDown } from 'lucide-react';
+import type { CombinedFareCalendar, CombinedFareCalendarCell } from '@/lib/services/unified-travel-orchestrator';
+
+interface FareCalendarPlace {
+  name: string;
+  code?: string; // IATA code
+  coordinates?: [number, number];
+}
+
+interface FareCalendarProps {
+  from: FareCalendarPlace;
+  to: FareCalendarPlace;
+  departureDate: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD
+  adults: number;
+  currency: string;
+  // Add the cheapest hotel stay at the destination to each fare
+  includeHotels?: boolean;
+  onSelectDates: (cell: CombinedFareCalendarCell) => void;
+}
+
+type RangeMode = 'window' | 'month';
+
+const WINDOW_DAYS = 3;
+
+function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount)}`;
+  }
+}
+
+function isSameDates(a: CombinedFareCalendarCell, b: CombinedFareCalendarCell): boolean {
+  return a.departureDate === b.departureDate && a.returnDate === b.returnDate;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export default function FareCalendar({
+  from,
+  to,
+  departureDate,
+  returnDate,
+  adults,
+  currency,
+  includeHotels = true,
+  onSelectDates
+}: FareCalendarProps) {
+  const [mode, setMode] = useState<RangeMode>('window');
+  const [calendar, setCalendar] = useState<CombinedFareCalendar | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const searchCalendar = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/travel/fare-calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          journey: {
+            from: { ...from, type: 'city' },
+            to: { ...to, type: 'city' },
+            departureDate,
+            returnDate: returnDate || undefined
+          },
+          passengers: { adults },
+          services: { types: includeHotels ? ['flight', 'hotel'] : ['flight'] },
+          preferences: { currency },
+          flightOptions: mode === 'month'
+            ? { flexibleDates: true, flexibleMonth: departureDate.slice(0, 7) }
+            : { flexibleDates: true, flexibleDays: WINDOW_DAYS }
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Fare calendar search failed');
+      }
+      setCalendar(data.calendar);
+    } catch (searchError) {
+      console.error('Fare calendar error:', searchError);
+      setError(searchError instanceof Error ? searchError.message : 'Fare calendar search failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, departureDate, returnDate, adults, currency, includeHotels, mode]);
+
+  const totals = calendar?.cells.flatMap(cell => cell.combinedTotal !== null ? [cell.combinedTotal] : []) || [];
+  const minTotal = Math.min(...totals);
+  const maxTotal = Math.max(...totals);
+
+  // Cheaper thirds of the range in teal, dearer in amber
+  const cellTone = (cell: CombinedFareCalendarCell | undefined): string => {
+    if (!cell || cell.combinedTotal === null) {
+      return 'bg-navy-900/20 border-navy-800/30 text-navy-500 cursor-default';
+    }
+    if (calendar?.cheapest && isSameDates(cell, calendar.cheapest)) {
+      return 'bg-green-500/20 border-green-400/60 text-green-100 hover:bg-green-500/30';
+    }
+    const position = maxTotal > minTotal ? (cell.combinedTotal - minTotal) / (maxTotal - minTotal) : 0;
+    if (position < 1 / 3) return 'bg-teal-500/10 border-teal-500/30 text-teal-100 hover:bg-teal-500/20';
+    if (position < 2 / 3) return 'bg-navy-800/30 border-navy-700/30 text-navy-100 hover:bg-navy-700/30';
+    return 'bg-amber-500/10 border-amber-500/30 text-amber-100 hover:bg-amber-500/20';
+  };
+
+  const isSelected = (cell: CombinedFareCalendarCell): boolean =>
+    cell.departureDate === departureDate && (cell.returnDate || '') === (returnDate || '');
+
+  const renderCell = (cell: CombinedFareCalendarCell | undefined, key: string, label?: string) => (
+    <button
+      key={key}
+      type="button"
+      disabled={!cell || cell.combinedTotal === null}
+      onClick={() => cell && onSelectDates(cell)}
+      title={cell?.hotel ? `Flight ${formatPrice(cell.price!.total, cell.price!.currency)} + ${cell.hotel.hotelName} ${formatPrice(cell.hotel.total, cell.hotel.currency)}` : undefined}
+      className={`min-w-[88px] p-2 rounded-lg border text-xs transition-colors ${cellTone(cell)} ${cell && isSelected(cell) ? 'ring-2 ring-teal-400' : ''}`}
+    >
+      {label && <div className="text-navy-400 mb-1">{label}</div>}
+      <div className="font-semibold">
+        {cell?.combinedTotal != null ? formatPrice(cell.combinedTotal, calendar?.meta.currency || currency) : '—'}
+      </div>
+    </button>
+  );
+
+  const cellFor = (departure: string, returning?: string) =>
+    calendar?.cells.find(cell => cell.departureDate === departure && cell.returnDate === returning);
+
+  return (
+    <div className="bg-navy-900/20 backdrop-blur-sm rounded-2xl p-6 border border-navy-800/30">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-navy-100 flex items-center">
+            <CalendarDays className="w-5 h-5 text-teal-400 mr-2" />
+            Flexible Dates
+          </h3>
+          <p className="text-sm text-navy-400">
+            Cheapest {includeHotels && returnDate ? 'flight and hotel' : 'flight'} total for nearby dates
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-navy-700/30 overflow-hidden text-sm">
+            {(['window', 'month'] as RangeMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-3 py-2 ${mode === option ? 'bg-teal-600 text-white' : 'bg-navy-800/30 text-navy-300 hover:bg-navy-700/30'}`}
+              >
+                {option === 'window' ? `±${WINDOW_DAYS} days` : 'Whole month'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={searchCalendar}
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 text-sm"
+          >
+            {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <TrendingDown className="w-4 h-4 mr-2" />}
+            {calendar ? 'Refresh' : 'Compare dates'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {calendar && calendar.cells.length === 0 && (
+        <p className="text-sm text-navy-400">No upcoming dates to compare in this range.</p>
+      )}
+
+      {calendar && calendar.cells.length > 0 && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+          {calendar.range.type === 'window' && calendar.returnDates.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="border-separate border-spacing-1">
+                <thead>
+                  <tr>
+                    <th className="text-xs text-navy-400 font-normal text-left p-1">Depart ↓ / Return →</th>
+                    {calendar.returnDates.map(date => (
+                      <th key={date} className="text-xs text-navy-300 font-medium p-1">{formatDay(date)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {calendar.departureDates.map(departure => (
+                    <tr key={departure}>
+                      <th className="text-xs text-navy-300 font-medium text-left p-1 whitespace-nowrap">{formatDay(departure)}</th>
+                      {calendar.returnDates.map(returning => (
+                        <td key={returning}>{renderCell(cellFor(departure, returning), `${departure}|${returning}`)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+              {calendar.cells.map(cell => renderCell(
+                cell,
+                `${cell.departureDate}|${cell.returnDate}`,
+                cell.returnDate ? `${formatDay(cell.departureDate)} – ${formatDay(cell.returnDate)}` : formatDay(cell.departureDate)
+              ))}
+            </div>
+          )}
+
+          {calendar.cheapest && (
+            <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 bg-green-900/20 rounded-xl border border-green-500/30">
+              <div className="text-sm text-green-100">
+                <div className="font-medium">
+                  Cheapest: {formatDay(calendar.cheapest.departureDate)}
+                  {calendar.cheapest.returnDate && ` – ${formatDay(calendar.cheapest.returnDate)}`}
+                </div>
+                <div className="text-green-300 flex flex-wrap items-center gap-3 mt-1">
+                  <span className="flex items-center">
+                    <Plane className="w-3 h-3 mr-1" />
+                    {calendar.cheapest.airline || 'Flight'} {formatPrice(calendar.cheapest.price!.total, calendar.cheapest.price!.currency)}
+                  </span>
+                  {calendar.cheapest.hotel && (
+                    <span className="flex items-center">
+                      <Hotel className="w-3 h-3 mr-1" />
+                      {calendar.cheapest.hotel.nights} nights from {formatPrice(calendar.cheapest.hotel.perNight, calendar.cheapest.hotel.currency)}/night
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onSelectDates(calendar.cheapest!)}
+                disabled={isSelected(calendar.cheapest)}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 text-sm"
+              >
+                {isSelected(calendar.cheapest) ? 'Selected' : `Use these dates for ${formatPrice(calendar.cheapest.combinedTotal!, calendar.meta.currency)}`}
+              </button>
+            </div>
+          )}
+
+          {calendar.meta.sandbox && (
+            <p className="text-xs text-navy-500 mt-3">Sandbox fares: sample prices, not bookable.</p>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+}
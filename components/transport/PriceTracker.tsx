@@ -3,6 +3,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Bell, TrendingDown, TrendingUp, AlertCircle, DollarSign, Calendar, Clock } from 'lucide-react';
+import { subscribeToPush } from '@/lib/serviceWorker';
+
+// Body of POST /api/price-watches and the `search` of POST /api/price-alerts
+export interface TrackedSearch {
+  kind: 'flight' | 'hotel' | 'car_rental';
+  query: Record<string, unknown>;
+  label?: string;
+}
 
 interface PriceTrackerProps {
   transportOption: {
@@ -13,16 +21,23 @@ interface PriceTrackerProps {
     currentPrice: number;
     currency: string;
   };
+  // Search that produced this offer; null when it can't be tracked
+  search: TrackedSearch | null;
+  // Query string for GET /api/price-history
+  historyQuery: string | null;
   onPriceAlert?: (alertData: PriceAlert) => void;
 }
 
 interface PriceAlert {
   id: string;
-  transportId: string;
-  alertType: 'drop' | 'threshold' | 'increase';
+  series: string;
+  label: string;
+  currency: string;
+  targetPrice: number | null;
+  dropPercent: number | null;
   threshold: number;
-  enabled: boolean;
-  notificationEmail?: string;
+  active: boolean;
+  currentPrice?: number | null;
 }
 
 interface PriceHistory {
@@ -32,76 +47,147 @@ interface PriceHistory {
   changePercent?: number;
 }
 
-export default function PriceTracker({ transportOption, onPriceAlert }: PriceTrackerProps) {
+const HISTORY_DAYS = 30;
+
+function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount)}`;
+  }
+}
+
+export default function PriceTracker({ transportOption, search, historyQuery, onPriceAlert }: PriceTrackerProps) {
   const [priceHistory, setPriceHistory] = useState<PriceHistory[]>([]);
+  const [series, setSeries] = useState<string | null>(null);
   const [alerts, setAlerts] = useState<PriceAlert[]>([]);
   const [showAlertForm, setShowAlertForm] = useState(false);
-  const [alertThreshold, setAlertThreshold] = useState(transportOption.currentPrice * 0.9);
-  const [notificationEmail, setNotificationEmail] = useState('');
-  const [tracking, setTracking] = useState(false);
+  const [alertMode, setAlertMode] = useState<'target' | 'drop'>('target');
+  const [alertThreshold, setAlertThreshold] = useState(Math.round(transportOption.currentPrice * 0.9));
+  const [dropPercent, setDropPercent] = useState(10);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const currency = transportOption.currency;
 
   const loadPriceHistory = useCallback(async () => {
-    // Simulate loading price history - replace with real API
-    const mockHistory: PriceHistory[] = [];
-    const basePrice = transportOption.currentPrice;
-    
-    // Generate 7 days of mock price history
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      const variation = (Math.random() - 0.5) * 0.2; // ±20% variation
-      const price = Math.round(basePrice * (1 + variation));
-      const prevPrice = mockHistory.length > 0 ? mockHistory[mockHistory.length - 1].price : price;
-      const change = price - prevPrice;
-      const changePercent = prevPrice !== 0 ? (change / prevPrice) * 100 : 0;
-      
-      mockHistory.push({
-        date: date.toISOString().split('T')[0],
-        price,
-        change: mockHistory.length > 0 ? change : 0,
-        changePercent: mockHistory.length > 0 ? changePercent : 0,
+    if (!historyQuery) {
+      setPriceHistory([]);
+      setSeries(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/price-history?${historyQuery}&currency=${currency}&days=${HISTORY_DAYS}`);
+      if (!response.ok) return;
+      const data = await response.json();
+
+      const history: PriceHistory[] = data.history.map((day: { date: string; min: number }, index: number, days: { min: number }[]) => {
+        const previous = index > 0 ? days[index - 1].min : day.min;
+        return {
+          date: day.date,
+          price: Math.round(day.min),
+          change: Math.round(day.min - previous),
+          changePercent: previous !== 0 ? ((day.min - previous) / previous) * 100 : 0,
+        };
       });
+      setPriceHistory(history);
+      setSeries(data.series);
+    } catch (loadError) {
+      console.error('Failed to load price history:', loadError);
+    }
+  }, [historyQuery, currency]);
+
+  const loadAlerts = useCallback(async () => {
+    if (!series) return;
+
+    try {
+      const response = await fetch('/api/price-alerts');
+      if (!response.ok) return;
+      const data = await response.json();
+      setAlerts(data.alerts.filter((alert: PriceAlert) => alert.series === series && alert.currency === currency));
+    } catch (loadError) {
+      console.error('Failed to load price alerts:', loadError);
     }
-    
-    setPriceHistory(mockHistory);
-  }, [transportOption.currentPrice]);
+  }, [series, currency]);
 
   useEffect(() => {
     loadPriceHistory();
-  }, [transportOption.id, transportOption.currentPrice, loadPriceHistory]);
-
-  const createPriceAlert = () => {
-    const newAlert: PriceAlert = {
-      id: `alert-${Date.now()}`,
-      transportId: transportOption.id,
-      alertType: 'threshold',
-      threshold: alertThreshold,
-      enabled: true,
-      notificationEmail: notificationEmail || undefined,
-    };
-    
-    setAlerts([...alerts, newAlert]);
-    setTracking(true);
-    setShowAlertForm(false);
-    onPriceAlert?.(newAlert);
+  }, [transportOption.id, loadPriceHistory]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const createPriceAlert = async () => {
+    if (!search) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/price-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          search,
+          ...(alertMode === 'target'
+            ? { targetPrice: alertThreshold }
+            : { dropPercent, baselinePrice: transportOption.currentPrice }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(typeof data.details === 'string' ? data.details : data.error);
+        return;
+      }
+
+      setAlerts([data.alert, ...alerts]);
+      setShowAlertForm(false);
+      onPriceAlert?.(data.alert);
+    } catch (createError) {
+      console.error('Failed to create price alert:', createError);
+      setError('Could not create the alert. Please try again.');
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const toggleAlert = (alertId: string) => {
-    setAlerts(alerts.map(alert => 
-      alert.id === alertId 
-        ? { ...alert, enabled: !alert.enabled }
-        : alert
-    ));
+  const toggleAlert = async (alert: PriceAlert) => {
+    const response = await fetch(`/api/price-alerts/${alert.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: !alert.active }),
+    });
+    if (response.ok) {
+      setAlerts(alerts.map(a => a.id === alert.id ? { ...a, active: !alert.active } : a));
+    }
   };
 
-  const deleteAlert = (alertId: string) => {
-    setAlerts(alerts.filter(alert => alert.id !== alertId));
-    if (alerts.length <= 1) {
-      setTracking(false);
+  const deleteAlert = async (alertId: string) => {
+    const response = await fetch(`/api/price-alerts/${alertId}`, { method: 'DELETE' });
+    if (response.ok) {
+      setAlerts(alerts.filter(alert => alert.id !== alertId));
     }
   };
 
+  const enablePush = async () => {
+    if (!await subscribeToPush()) {
+      setError('Push notifications are not available in this browser.');
+      return;
+    }
+
+    const settings = await fetch('/api/notifications/settings').then(response => response.json());
+    const channels: string[] = settings.settings?.channels || [];
+    await fetch('/api/notifications/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channels: Array.from(new Set([...channels, 'push'])) }),
+    });
+    setPushEnabled(true);
+  };
+
+  const tracking = alerts.some(alert => alert.active);
   const currentPrice = priceHistory.length > 0 ? priceHistory[priceHistory.length - 1] : null;
   const priceChange = currentPrice?.change || 0;
   const priceChangePercent = currentPrice?.changePercent || 0;
@@ -137,7 +223,9 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
         
         <motion.button
           onClick={() => setShowAlertForm(!showAlertForm)}
-          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+          disabled={!search}
+          title={search ? undefined : 'Price alerts need a flight search between two airports'}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
             tracking
               ? 'bg-green-100 text-green-700 border border-green-300'
               : 'bg-indigo-100 text-indigo-700 border border-indigo-300 hover:bg-indigo-200'
@@ -160,7 +248,7 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
           <div>
             <p className="text-sm text-gray-600">Current Price</p>
             <p className="text-3xl font-bold text-gray-900">
-              ${transportOption.currentPrice}
+              {formatPrice(transportOption.currentPrice, currency)}
             </p>
           </div>
           
@@ -181,7 +269,7 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
               ) : null}
               <div className="text-right">
                 <p className="font-semibold">
-                  {priceChange > 0 ? '+' : ''}${Math.abs(priceChange)}
+                  {priceChange > 0 ? '+' : '-'}{formatPrice(Math.abs(priceChange), currency)}
                 </p>
                 <p className="text-xs">
                   {priceChangePercent > 0 ? '+' : ''}{priceChangePercent.toFixed(1)}%
@@ -196,12 +284,12 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
       {priceHistory.length > 0 && (
         <div className="grid grid-cols-2 gap-4">
           <div className="text-center p-3 bg-green-50 rounded-lg">
-            <p className="text-sm text-gray-600">Lowest (7 days)</p>
-            <p className="text-xl font-bold text-green-600">${getLowestPrice()}</p>
+            <p className="text-sm text-gray-600">Lowest ({HISTORY_DAYS} days)</p>
+            <p className="text-xl font-bold text-green-600">{formatPrice(getLowestPrice()!, currency)}</p>
           </div>
           <div className="text-center p-3 bg-red-50 rounded-lg">
-            <p className="text-sm text-gray-600">Highest (7 days)</p>
-            <p className="text-xl font-bold text-red-600">${getHighestPrice()}</p>
+            <p className="text-sm text-gray-600">Highest ({HISTORY_DAYS} days)</p>
+            <p className="text-xl font-bold text-red-600">{formatPrice(getHighestPrice()!, currency)}</p>
           </div>
         </div>
       )}
@@ -209,12 +297,12 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
       {/* Price Chart (Simple) */}
       {priceHistory.length > 0 && (
         <div className="space-y-2">
-          <h4 className="font-medium text-gray-900">7-Day Price History</h4>
+          <h4 className="font-medium text-gray-900">{HISTORY_DAYS}-Day Price History</h4>
           <div className="h-24 flex items-end space-x-1">
             {priceHistory.map((entry, index) => {
               const maxPrice = Math.max(...priceHistory.map(h => h.price));
               const minPrice = Math.min(...priceHistory.map(h => h.price));
-              const height = ((entry.price - minPrice) / (maxPrice - minPrice)) * 80 + 10;
+              const height = ((entry.price - minPrice) / (maxPrice - minPrice || 1)) * 80 + 10;
               
               return (
                 <motion.div
@@ -229,7 +317,7 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
                   animate={{ height: `${height}px` }}
                   transition={{ duration: 0.5, delay: index * 0.1 }}
                   whileHover={{ scale: 1.1 }}
-                  title={`${entry.date}: $${entry.price}`}
+                  title={`${entry.date}: ${formatPrice(entry.price, currency)}`}
                 />
               );
             })}
@@ -241,6 +329,14 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
         </div>
       )}
 
+      {priceHistory.length === 0 && (
+        <p className="text-sm text-gray-600">
+          {search
+            ? 'No prices recorded for this route yet. Set an alert and we will check it several times a day.'
+            : 'Price history and alerts are available for flights between airports.'}
+        </p>
+      )}
+
       {/* Alert Form */}
       <AnimatePresence>
         {showAlertForm && (
@@ -258,45 +354,80 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <label htmlFor="alert-threshold-input" className="block text-sm font-medium text-gray-700 mb-1">
-                  Alert when price drops below:
+                <label htmlFor="alert-mode-select" className="block text-sm font-medium text-gray-700 mb-1">
+                  Alert me when:
                 </label>
-                <div className="relative">
-                  <DollarSign className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+                <select
+                  id="alert-mode-select"
+                  value={alertMode}
+                  onChange={(e) => setAlertMode(e.target.value as 'target' | 'drop')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  <option value="target">the price drops below a target</option>
+                  <option value="drop">the price falls by a percentage</option>
+                </select>
+              </div>
+
+              {alertMode === 'target' ? (
+                <div>
+                  <label htmlFor="alert-threshold-input" className="block text-sm font-medium text-gray-700 mb-1">
+                    Target price ({currency}):
+                  </label>
+                  <div className="relative">
+                    <DollarSign className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+                    <input
+                      id="alert-threshold-input"
+                      type="number"
+                      min={1}
+                      value={alertThreshold}
+                      onChange={(e) => setAlertThreshold(parseFloat(e.target.value) || 0)}
+                      className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="alert-drop-input" className="block text-sm font-medium text-gray-700 mb-1">
+                    Drop from {formatPrice(transportOption.currentPrice, currency)} (%):
+                  </label>
                   <input
-                    id="alert-threshold-input"
+                    id="alert-drop-input"
                     type="number"
-                    value={alertThreshold}
-                    onChange={(e) => setAlertThreshold(parseFloat(e.target.value) || 0)}
-                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    placeholder="0.00"
+                    min={1}
+                    max={90}
+                    value={dropPercent}
+                    onChange={(e) => setDropPercent(parseInt(e.target.value, 10) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                   />
                 </div>
-              </div>
-              
-              <div>
-                <label htmlFor="notification-email-input" className="block text-sm font-medium text-gray-700 mb-1">
-                  Email notifications (optional):
-                </label>
-                <input
-                  id="notification-email-input"
-                  type="email"
-                  value={notificationEmail}
-                  onChange={(e) => setNotificationEmail(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  placeholder="your@email.com"
-                />
-              </div>
+              )}
             </div>
+
+            <p className="text-xs text-gray-600">
+              Alerts arrive in your notification inbox and by email.{' '}
+              {pushEnabled ? (
+                <span className="text-green-700">Push notifications are on for this browser.</span>
+              ) : (
+                <button type="button" onClick={enablePush} className="text-indigo-600 hover:underline">
+                  Also send push notifications to this browser
+                </button>
+              )}
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
             
             <div className="flex space-x-3">
               <motion.button
                 onClick={createPriceAlert}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                disabled={saving}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
-                Create Alert
+                {saving ? 'Saving…' : 'Create Alert'}
               </motion.button>
               <motion.button
                 onClick={() => setShowAlertForm(false)}
@@ -319,7 +450,7 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
             <motion.div
               key={alert.id}
               className={`flex items-center justify-between p-3 rounded-lg border ${
-                alert.enabled 
+                alert.active 
                   ? 'bg-green-50 border-green-200' 
                   : 'bg-gray-50 border-gray-200'
               }`}
@@ -328,14 +459,16 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
               transition={{ duration: 0.3 }}
             >
               <div className="flex items-center space-x-3">
-                <Bell className={`h-4 w-4 ${alert.enabled ? 'text-green-600' : 'text-gray-400'}`} />
+                <Bell className={`h-4 w-4 ${alert.active ? 'text-green-600' : 'text-gray-400'}`} />
                 <div>
                   <p className="text-sm font-medium text-gray-900">
-                    Alert when price drops below ${alert.threshold}
+                    {alert.dropPercent && alert.targetPrice === null
+                      ? `Alert when price falls ${alert.dropPercent}% (below ${formatPrice(alert.threshold, alert.currency)})`
+                      : `Alert when price drops below ${formatPrice(alert.threshold, alert.currency)}`}
                   </p>
-                  {alert.notificationEmail && (
+                  {alert.currentPrice != null && (
                     <p className="text-xs text-gray-600">
-                      Email: {alert.notificationEmail}
+                      Last checked: {formatPrice(alert.currentPrice, alert.currency)}
                     </p>
                   )}
                 </div>
@@ -343,16 +476,16 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
               
               <div className="flex items-center space-x-2">
                 <motion.button
-                  onClick={() => toggleAlert(alert.id)}
+                  onClick={() => toggleAlert(alert)}
                   className={`px-3 py-1 text-xs rounded ${
-                    alert.enabled
+                    alert.active
                       ? 'bg-green-100 text-green-700 hover:bg-green-200'
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                   }`}
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                 >
-                  {alert.enabled ? 'Enabled' : 'Disabled'}
+                  {alert.active ? 'Enabled' : 'Paused'}
                 </motion.button>
                 <motion.button
                   onClick={() => deleteAlert(alert.id)}
@@ -379,7 +512,7 @@ export default function PriceTracker({ transportOption, onPriceAlert }: PriceTra
           <li>• Tuesday and Wednesday often have lower prices</li>
           <li>• Book early morning or late evening for better deals</li>
           {getLowestPrice() && getLowestPrice()! < transportOption.currentPrice && (
-            <li>• Current price is ${transportOption.currentPrice - getLowestPrice()!} above the recent low</li>
+            <li>• Current price is {formatPrice(transportOption.currentPrice - getLowestPrice()!, currency)} above the recent low</li>
           )}
         </ul>
       </div>
@@ -4,11 +4,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Plane, Train, Car, Clock, MapPin, Star, ArrowRight, Filter, SlidersHorizontal, ExternalLink } from 'lucide-react';
 import { FlightSearchLoading } from '@/components/loading/SmartLoadingStates';
+import { ProvenanceBadge } from '@/components/ui/provenance-badge';
+import type { DataProvenance } from '@/lib/services/sandbox';
 
 interface TransportOption {
   id: string;
   type: 'flight' | 'train' | 'bus';
   provider: string;
+  provenance?: DataProvenance;
   airline?: string;
   flightNumber?: string;
   trainNumber?: string;
@@ -91,134 +94,36 @@ export default function TransportSearchResults({
     }
   }, [searchParams]);
 
-  // Mock train search (can be replaced with real API)
-  const searchTrains = useCallback(async (): Promise<TransportOption[]> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    // Mock train data for European/Asian routes primarily
-    const isLongDistance = calculateDistance(searchParams.from, searchParams.to) > 500;
-    
-    if (!isLongDistance) {
-      return []; // No trains for very long distances
-    }
-
-    const trainOptions: TransportOption[] = [
-      {
-        id: 'train-1',
-        type: 'train',
-        provider: 'Eurail Express',
-        trainNumber: 'ER-2847',
-        price: Math.floor(Math.random() * 150) + 80,
-        currency: searchParams.currency,
-        duration: `${Math.floor(Math.random() * 6) + 4}h ${Math.floor(Math.random() * 60)}m`,
-        departure: {
-          time: '08:30 AM',
-          airport: 'Central Station',
-          city: searchParams.from,
-        },
-        arrival: {
-          time: '14:15 PM',
-          airport: 'Central Station',
-          city: searchParams.to,
-        },
-        stops: Math.floor(Math.random() * 3),
-        rating: 4.2 + Math.random() * 0.8,
-        bookingLink: 'https://eurail.com',
-        amenities: ['WiFi', 'Power Outlet', 'Cafe Car'],
-        score: 7 + Math.random() * 2,
-        co2Emissions: 25,
-        comfort: 'Standard'
-      },
-      {
-        id: 'train-2',
-        type: 'train',
-        provider: 'High Speed Rail',
-        trainNumber: 'HSR-1205',
-        price: Math.floor(Math.random() * 200) + 120,
-        currency: searchParams.currency,
-        duration: `${Math.floor(Math.random() * 4) + 2}h ${Math.floor(Math.random() * 60)}m`,
-        departure: {
-          time: '12:45 PM',
-          airport: 'Main Station',
-          city: searchParams.from,
-        },
-        arrival: {
-          time: '16:30 PM',
-          airport: 'Main Station',
-          city: searchParams.to,
+  // Train and bus search. Only sandbox mode returns sample fares; otherwise
+  // the API returns nothing until a live provider covers the route.
+  const searchGroundTransport = useCallback(async (): Promise<TransportOption[]> => {
+    try {
+      const response = await fetch('/api/transport/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-        stops: 1,
-        rating: 4.6 + Math.random() * 0.4,
-        bookingLink: 'https://raileurope.com',
-        amenities: ['WiFi', 'Power Outlet', 'Restaurant', 'First Class'],
-        score: 8 + Math.random() * 1.5,
-        co2Emissions: 18,
-        comfort: 'Premium'
-      }
-    ];
-
-    return trainOptions;
-  }, [searchParams]);
-
-  // Mock bus search
-  const searchBuses = useCallback(async (): Promise<TransportOption[]> => {
-    await new Promise(resolve => setTimeout(resolve, 600));
+        body: JSON.stringify({
+          from: searchParams.from,
+          to: searchParams.to,
+          departureDate: new Date(searchParams.departureDate).toISOString(),
+          returnDate: searchParams.returnDate ? new Date(searchParams.returnDate).toISOString() : undefined,
+          adults: searchParams.adults,
+          currency: searchParams.currency,
+          transportTypes: ['train', 'bus'],
+        }),
+      });
 
-    const busOptions: TransportOption[] = [
-      {
-        id: 'bus-1',
-        type: 'bus',
-        provider: 'FlixBus',
-        price: Math.floor(Math.random() * 60) + 25,
-        currency: searchParams.currency,
-        duration: `${Math.floor(Math.random() * 8) + 6}h ${Math.floor(Math.random() * 60)}m`,
-        departure: {
-          time: '07:00 AM',
-          airport: 'Bus Terminal',
-          city: searchParams.from,
-        },
-        arrival: {
-          time: '15:30 PM',
-          airport: 'Bus Terminal',
-          city: searchParams.to,
-        },
-        stops: Math.floor(Math.random() * 4) + 1,
-        rating: 3.8 + Math.random() * 1.2,
-        bookingLink: 'https://flixbus.com',
-        amenities: ['WiFi', 'Power Outlet', 'Air Conditioning'],
-        score: 6 + Math.random() * 2,
-        co2Emissions: 35,
-        comfort: 'Standard'
-      },
-      {
-        id: 'bus-2',
-        type: 'bus',
-        provider: 'MegaBus Premium',
-        price: Math.floor(Math.random() * 80) + 45,
-        currency: searchParams.currency,
-        duration: `${Math.floor(Math.random() * 7) + 5}h ${Math.floor(Math.random() * 60)}m`,
-        departure: {
-          time: '14:15 PM',
-          airport: 'Central Bus Station',
-          city: searchParams.from,
-        },
-        arrival: {
-          time: '21:45 PM',
-          airport: 'Central Bus Station',
-          city: searchParams.to,
-        },
-        stops: 2,
-        rating: 4.1 + Math.random() * 0.9,
-        bookingLink: 'https://megabus.com',
-        amenities: ['WiFi', 'Power Outlet', 'Reclining Seats', 'Snacks'],
-        score: 7 + Math.random() * 1.5,
-        co2Emissions: 28,
-        comfort: 'Premium'
+      if (!response.ok) {
+        throw new Error('Transport search failed');
       }
-    ];
 
-    return busOptions;
+      const data = await response.json();
+      return data.transportOptions || [];
+    } catch (error) {
+      console.error('Ground transport search error:', error);
+      return [];
+    }
   }, [searchParams]);
 
   // Search for all transport options
@@ -227,8 +132,7 @@ export default function TransportSearchResults({
     try {
       const results = await Promise.allSettled([
         searchFlights(),
-        searchTrains(),
-        searchBuses(),
+        searchGroundTransport(),
       ]);
 
       const allOptions: TransportOption[] = [];
@@ -247,13 +151,7 @@ export default function TransportSearchResults({
     } finally {
       setLoading(false);
     }
-  }, [searchFlights, searchTrains, searchBuses]);
-
-  // Helper function to calculate approximate distance
-  const calculateDistance = (from: string, to: string): number => {
-    // Mock distance calculation - in real app, use geocoding
-    return Math.random() * 3000 + 200;
-  };
+  }, [searchFlights, searchGroundTransport]);
 
   // Filter and sort transport options
   const filteredOptions = transportOptions
@@ -590,6 +488,7 @@ function TransportOptionCard({
                   {option.trainNumber}
                 </span>
               )}
+              <ProvenanceBadge provenance={option.provenance} />
             </div>
             
             <div className="flex items-center space-x-4 mb-2">
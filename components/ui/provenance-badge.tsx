@@ -0,0 +1,33 @@
+import * as React from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { PROVENANCE_LABELS, type DataProvenance } from "@/lib/services/sandbox"
+
+const provenanceStyles: Record<DataProvenance, string> = {
+  live: "border-transparent bg-green-100 text-green-800",
+  cached: "border-transparent bg-blue-100 text-blue-800",
+  synthetic: "border-transparent bg-amber-100 text-amber-800",
+}
+
+export interface ProvenanceBadgeProps {
+  provenance?: DataProvenance
+  className?: string
+}
+
+function ProvenanceBadge({ provenance, className }: ProvenanceBadgeProps) {
+  if (!provenance) {
+    return null
+  }
+
+  return (
+    <Badge
+      className={cn(provenanceStyles[provenance], className)}
+      title={provenance === "synthetic" ? "Generated sample data. This price cannot be booked." : undefined}
+    >
+      {PROVENANCE_LABELS[provenance]}
+    </Badge>
+  )
+}
+
+export { ProvenanceBadge }
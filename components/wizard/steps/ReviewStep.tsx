@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   MapPin,
@@ -28,6 +28,14 @@ import {
 import { useTripWizard } from '@/contexts/TripWizardContext';
 import { InteractiveCard } from '@/components/effects/InteractiveCard';
 import { staggerContainer, staggerItem } from '@/lib/animations/variants';
+import {
+  activitiesFromWizard,
+  distributeActivities,
+  hotelBasesFromWizard,
+  type DistributedDay,
+  type TripDistributionResult,
+  type TripPace
+} from '@/lib/planning/day-distributor';
 
 // ==================== TYPES ====================
 
@@ -83,6 +91,7 @@ interface ItineraryDay {
     checkIn?: string;
     checkOut?: string;
   };
+  notes?: string[]; // Why the day's activities were grouped
 }
 
 interface ItineraryItem {
@@ -120,6 +129,45 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
   const [showShareModal, setShowShareModal] = useState(false);
   const [isBooking, setIsBooking] = useState(false);
   const [bookingStep, setBookingStep] = useState(0);
+  const [pace, setPace] = useState<TripPace>('standard');
+
+  // The traveller's saved pace
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/trips/distribute', { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (data?.pace) {
+          setPace(data.pace);
+        }
+      })
+      .catch(error => {
+        if (error.name !== 'AbortError') {
+          console.error('Failed to load trip pace:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  // Assign selected activities to days around each night's hotel. This runs
+  // here rather than on the server so day windows and opening hours are read
+  // in the traveller's local time, the same clock the times are shown in.
+  const distribution: TripDistributionResult | null = useMemo(() => {
+    const selections = state.formData.activities || [];
+    const { startDate, endDate } = state.formData.dates;
+
+    if (selections.length === 0 || !startDate || !endDate) {
+      return null;
+    }
+
+    return distributeActivities(activitiesFromWizard(selections, startDate), {
+      startDate: startDate.slice(0, 10),
+      endDate: endDate.slice(0, 10),
+      pace,
+      bases: hotelBasesFromWizard(state.formData.accommodation)
+    });
+  }, [state.formData.activities, state.formData.accommodation, state.formData.dates, pace]);
 
   // Generate comprehensive itinerary
   const itinerary: TripItinerary = useMemo(() => {
@@ -141,7 +189,7 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
       const currentDate = new Date(startDate);
       currentDate.setDate(startDate.getDate() + i);
       
-      timeline.push(generateDayItinerary(currentDate, i + 1, state.formData, duration));
+      timeline.push(generateDayItinerary(currentDate, i + 1, state.formData, duration, distribution?.days[i]));
     }
 
     return {
@@ -176,7 +224,7 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
         currency: 'USD accepted, consider local currency exchange'
       }
     };
-  }, [state.formData, getTripDuration]);
+  }, [state.formData, getTripDuration, distribution]);
 
   // Handle trip finalization
   const handleFinalizeTrip = useCallback(async () => {
@@ -363,6 +411,21 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
             exit={{ opacity: 0, x: 20 }}
             className="space-y-6"
           >
+            {/* Activities the day planner could not fit */}
+            {distribution && distribution.unassigned.length > 0 && (
+              <div className="p-4 bg-orange-400/10 border border-orange-400/30 rounded-lg">
+                <div className="flex items-center gap-2 mb-2 text-orange-300 font-medium">
+                  <AlertTriangle size={16} />
+                  <span>
+                    {distribution.unassigned.length} activit{distribution.unassigned.length > 1 ? 'ies' : 'y'} could not be fitted at a {distribution.pace} pace
+                  </span>
+                </div>
+                {distribution.unassigned.map(item => (
+                  <p key={item.activity.id} className="text-sm text-orange-200">• {item.message}</p>
+                ))}
+              </div>
+            )}
+
             {/* Timeline */}
             <motion.div
               variants={staggerContainer}
@@ -453,6 +516,15 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
                       ))}
                     </div>
 
+                    {/* Why these activities are grouped */}
+                    {day.notes && day.notes.length > 0 && (
+                      <div className="mt-4 p-3 bg-navy-700/30 rounded-lg space-y-1">
+                        {day.notes.map((note, noteIndex) => (
+                          <p key={noteIndex} className="text-xs text-navy-400">• {note}</p>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Accommodation for the night */}
                     {day.accommodation && (
                       <div className="mt-4 pt-4 border-t border-navy-600">
@@ -683,7 +755,13 @@ export const ReviewStep: React.FC<ReviewStepProps> = ({ className = '' }) => {
 };
 
 // Helper functions
-function generateDayItinerary(date: Date, dayNumber: number, formData: any, totalDuration: number): ItineraryDay {
+function generateDayItinerary(
+  date: Date,
+  dayNumber: number,
+  formData: any,
+  totalDuration: number,
+  plannedDay?: DistributedDay
+): ItineraryDay {
   const dateStr = date.toLocaleDateString('en-US', { 
     weekday: 'long', 
     year: 'numeric', 
@@ -691,6 +769,27 @@ function generateDayItinerary(date: Date, dayNumber: number, formData: any, tota
     day: 'numeric' 
   });
 
+  // Activities the day distributor placed on this day, already timed
+  const plannedItems: ItineraryItem[] | null = plannedDay
+    ? plannedDay.activities.map(activity => ({
+        id: activity.id,
+        type: 'activity' as const,
+        time: new Date(activity.timeSlot.start).toLocaleTimeString('en-US', {
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        }),
+        title: activity.title,
+        description: activity.description,
+        location: activity.location.name || undefined,
+        duration: formatMinutes(activity.timeSlot.duration),
+        price: activity.budget,
+        status: 'confirmed' as const,
+        icon: Camera,
+        color: 'bg-purple-500'
+      }))
+    : null;
+
   // Generate realistic schedule based on day
   let schedule: ItineraryItem[] = [];
   
@@ -720,17 +819,17 @@ function generateDayItinerary(date: Date, dayNumber: number, formData: any, tota
         icon: Hotel,
         color: 'bg-green-500'
       },
-      {
+      ...(plannedItems && plannedItems.length > 0 ? plannedItems : [{
         id: 'explore',
-        type: 'activity',
+        type: 'activity' as const,
         time: '4:00 PM',
         title: 'Explore the Area',
         description: 'Get oriented and explore nearby attractions',
         duration: '3 hours',
-        status: 'tentative',
+        status: 'tentative' as const,
         icon: Camera,
         color: 'bg-purple-500'
-      }
+      }])
     ];
   } else {
     // Regular day with activities
@@ -750,7 +849,7 @@ function generateDayItinerary(date: Date, dayNumber: number, formData: any, tota
         color: 'bg-orange-500',
         price: 15
       },
-      ...dayActivities.map((activity: any, index: number) => ({
+      ...(plannedItems ?? dayActivities.map((activity: any, index: number) => ({
         id: activity.id,
         type: 'activity' as const,
         time: index === 0 ? '10:00 AM' : '2:00 PM',
@@ -762,7 +861,7 @@ function generateDayItinerary(date: Date, dayNumber: number, formData: any, tota
         status: 'confirmed' as const,
         icon: Camera,
         color: 'bg-purple-500'
-      })),
+      }))),
       {
         id: 'dinner',
         type: 'meal',
@@ -787,14 +886,23 @@ function generateDayItinerary(date: Date, dayNumber: number, formData: any, tota
       icon: ['☀️', '⛅', '🌤️'][Math.floor(Math.random() * 3)]
     },
     schedule,
-    accommodation: formData.accommodation?.selectedHotel ? {
-      name: formData.accommodation.selectedHotel.name,
+    accommodation: plannedDay?.base || formData.accommodation?.selectedHotel ? {
+      name: plannedDay?.base?.name || formData.accommodation.selectedHotel.name,
       checkIn: dayNumber === 1 ? '3:00 PM' : undefined,
       checkOut: dayNumber === totalDuration ? '11:00 AM' : undefined
-    } : undefined
+    } : undefined,
+    notes: plannedDay?.explanation
   };
 }
 
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0 && mins > 0) return `${hours}h ${mins}m`;
+  if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''}`;
+  return `${mins}m`;
+}
+
 function generatePackingList(tripType: string, duration: number): string[] {
   const baseItems = [
     'Comfortable walking shoes',
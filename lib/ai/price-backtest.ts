@@ -0,0 +1,545 @@
+// Price Prediction Backtesting
+// Replays a historical price dataset through PricePredictionEngine as of
+// each past date, using only the prices observed up to that moment, and
+// scores it against what prices actually did next:
+// - MAPE of the price predicted `horizonDays` ahead, scored against the
+//   quote observed nearest that day (within `horizonToleranceDays`)
+// - directional accuracy (up / flat / down) over the same horizon
+// - money saved by following the book-now/wait advice versus buying at the
+//   first quote, per trip
+// Model weights are then tuned per route type on the earlier part of the
+// dataset and checked on the later part, so a tuned weight set is only
+// adopted when it also predicts unseen dates better.
+
+import {
+  MemoryPriceHistoryStore,
+  priceSeriesKey,
+  type PriceObservation,
+} from '@/lib/services/price-history-store';
+import {
+  PricePredictionEngine,
+  blendModelPredictions,
+  type ModelPrediction,
+  type ModelWeights,
+  type PredictionModelName,
+} from './price-prediction-engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Candidate weights for each model during tuning
+const WEIGHT_GRID = [0, 0.5, 1, 2, 4];
+// Route types with fewer accuracy samples are not tuned
+const MIN_TUNING_SAMPLES = 20;
+
+export type BacktestServiceType = 'flight' | 'hotel' | 'car_rental';
+
+export interface BacktestRecord {
+  route: string; // "JFK-LHR" for flights, a location for hotels and rentals
+  kind: BacktestServiceType;
+  cabin?: string; // Flight cabin class
+  routeType: string; // Weight group; defaults to the service type
+  provider: string;
+  currency: string;
+  price: number;
+  travelDate: string; // YYYY-MM-DD
+  observedAt: Date;
+}
+
+export interface BacktestOptions {
+  horizonDays?: number; // How far ahead prices are predicted (default 7)
+  horizonToleranceDays?: number; // How far the scored quote may be from the horizon (default 1)
+  directionThreshold?: number; // Changes smaller than this fraction count as flat (default 0.02)
+  holdoutFraction?: number; // Latest share of samples kept out of tuning (default 0.3)
+  riskTolerance?: number; // Passed to getBookingRecommendation (default 0.5)
+  weights?: Record<string, ModelWeights>; // Weights to evaluate; defaults to the engine's tuned weights
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface AccuracyMetrics {
+  samples: number;
+  mape: number; // Percent
+  directionalAccuracy: number; // Percent of samples
+}
+
+export interface SavingsSummary {
+  trips: number;
+  bookNowSpend: number; // Buying at each trip's first quote
+  recommendedSpend: number; // Following the advice
+  savings: number; // bookNowSpend - recommendedSpend; negative when the advice cost money
+  savingsPercent: number;
+  bestPossibleSavings: number; // Buying every trip at its lowest quote
+  tripsSaved: number;
+  tripsLost: number;
+  averageWaitDays: number;
+}
+
+export interface WeightTuning {
+  samples: { train: number; holdout: number };
+  current: ModelWeights;
+  tuned: ModelWeights;
+  trainMape: { current: number; tuned: number };
+  holdoutMape: { current: number; tuned: number };
+  improved: boolean; // Tuned weights beat the current ones on the holdout
+}
+
+export interface BacktestReport {
+  dataset: {
+    records: number;
+    trips: number;
+    routeTypes: string[];
+    from: string | null;
+    to: string | null;
+  };
+  horizonDays: number;
+  horizonToleranceDays: number;
+  accuracy: AccuracyMetrics & { byRouteType: Record<string, AccuracyMetrics> };
+  savings: SavingsSummary & { byRouteType: Record<string, SavingsSummary> };
+  tuning: Record<string, WeightTuning | null>; // null: too few samples to tune
+  skipped: { noHistory: number; noTargetQuote: number };
+}
+
+export class BacktestDatasetError extends Error {
+  constructor(message: string, public readonly row?: number) {
+    super(row === undefined ? message : `Row ${row}: ${message}`);
+    this.name = 'BacktestDatasetError';
+  }
+}
+
+// ==================== DATASET IMPORT ====================
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
+
+function parseCsv(content: string): Record<string, string>[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = parseCsvLine(lines[0]).map(name => name.toLowerCase());
+  return lines.slice(1).map(line => {
+    const cells = parseCsvLine(line);
+    return Object.fromEntries(header.map((name, i) => [name, cells[i] ?? '']));
+  });
+}
+
+function toRecord(row: Record<string, unknown>, index: number): BacktestRecord {
+  const text = (...names: string[]) => {
+    for (const name of names) {
+      const value = row[name];
+      if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+    }
+    return undefined;
+  };
+
+  const kind = (text('kind', 'service_type') || 'flight') as BacktestServiceType;
+  if (!['flight', 'hotel', 'car_rental'].includes(kind)) {
+    throw new BacktestDatasetError(`unknown kind "${kind}"`, index);
+  }
+
+  const from = text('from', 'origin');
+  const to = text('to', 'destination');
+  const route = text('route', 'location') || (from && to ? `${from}-${to}` : undefined);
+  if (!route) {
+    throw new BacktestDatasetError('needs route (or from and to)', index);
+  }
+
+  const price = Number(text('price'));
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new BacktestDatasetError(`invalid price "${text('price')}"`, index);
+  }
+
+  const observedAt = new Date(text('observed_at', 'date') || '');
+  if (isNaN(observedAt.getTime())) {
+    throw new BacktestDatasetError(`invalid observed_at "${text('observed_at', 'date')}"`, index);
+  }
+
+  const travelDate = (text('travel_date', 'departure_date', 'check_in') || '').slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(travelDate)) {
+    throw new BacktestDatasetError(`invalid travel_date "${text('travel_date', 'departure_date', 'check_in')}"`, index);
+  }
+
+  return {
+    route,
+    kind,
+    cabin: text('cabin', 'class'),
+    routeType: text('route_type') || kind,
+    provider: text('provider') || 'dataset',
+    currency: (text('currency') || 'USD').toUpperCase(),
+    price,
+    travelDate,
+    observedAt,
+  };
+}
+
+/**
+ * Parse a CSV (header row required) or JSON (array, or { observations })
+ * price dataset. Columns: route or from/to, observed_at, travel_date, price,
+ * and optionally kind, cabin, currency, provider and route_type.
+ * Quotes observed after their travel date are dropped.
+ */
+export function parseBacktestDataset(content: string, format: 'csv' | 'json'): BacktestRecord[] {
+  let rows: Record<string, unknown>[];
+
+  if (format === 'csv') {
+    rows = parseCsv(content);
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new BacktestDatasetError(`invalid JSON: ${(error as Error).message}`);
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { observations?: unknown })?.observations;
+    if (!Array.isArray(list)) {
+      throw new BacktestDatasetError('JSON dataset must be an array or { "observations": [...] }');
+    }
+    rows = list as Record<string, unknown>[];
+  }
+
+  return rows
+    .map((row, i) => toRecord(row, i + 1))
+    .filter(record => record.observedAt.toISOString().slice(0, 10) <= record.travelDate);
+}
+
+// ==================== REPLAY ====================
+
+interface Quote {
+  day: string; // YYYY-MM-DD observed
+  observedAt: Date; // Latest observation that day
+  price: number; // Cheapest that day
+}
+
+interface Trip {
+  record: BacktestRecord; // Route, kind, cabin, route type and currency of the trip
+  quotes: Quote[];
+}
+
+interface AccuracySample {
+  routeType: string;
+  asOf: Date;
+  current: number;
+  actual: number;
+  predicted: number;
+  breakdown: ModelPrediction[];
+  factorMultiplier: number; // Effect of the engine's factor adjustments on the blend
+}
+
+interface TripOutcome {
+  routeType: string;
+  firstPrice: number;
+  paid: number;
+  lowest: number;
+  waitDays: number;
+}
+
+function seriesFor(record: BacktestRecord): string {
+  // Must match PricePredictionEngine's route keys
+  return priceSeriesKey(record.kind, record.route, record.kind === 'flight' ? record.cabin || 'economy' : record.cabin);
+}
+
+function groupTrips(records: BacktestRecord[]): Trip[] {
+  const trips = new Map<string, { record: BacktestRecord; quotes: Map<string, Quote> }>();
+
+  records.forEach(record => {
+    const key = [seriesFor(record), record.travelDate, record.currency, record.routeType].join('|');
+    const trip = trips.get(key) || { record, quotes: new Map<string, Quote>() };
+    const day = record.observedAt.toISOString().slice(0, 10);
+    const quote = trip.quotes.get(day);
+
+    trip.quotes.set(day, {
+      day,
+      observedAt: !quote || record.observedAt > quote.observedAt ? record.observedAt : quote.observedAt,
+      price: quote ? Math.min(quote.price, record.price) : record.price,
+    });
+    trips.set(key, trip);
+  });
+
+  return Array.from(trips.values()).map(trip => ({
+    record: trip.record,
+    quotes: Array.from(trip.quotes.values()).sort((a, b) => a.day.localeCompare(b.day)),
+  }));
+}
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// The quote observed nearest `day`, no further than `tolerance` days away
+// and after `after`; ties go to the earlier quote
+function nearestQuote(quotes: Quote[], day: string, tolerance: number, after: string): Quote | undefined {
+  const target = Date.parse(day);
+  let nearest: Quote | undefined;
+  let nearestDistance = Infinity;
+  quotes.forEach(quote => {
+    const distance = Math.abs(Date.parse(quote.day) - target) / DAY_MS;
+    if (quote.day > after && distance <= tolerance && distance < nearestDistance) {
+      nearest = quote;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+function direction(from: number, to: number, threshold: number): -1 | 0 | 1 {
+  const change = (to - from) / from;
+  return change > threshold ? 1 : change < -threshold ? -1 : 0;
+}
+
+function accuracyOf(samples: AccuracySample[], threshold: number, predict: (sample: AccuracySample) => number = s => s.predicted): AccuracyMetrics {
+  if (samples.length === 0) {
+    return { samples: 0, mape: 0, directionalAccuracy: 0 };
+  }
+
+  let errorSum = 0;
+  let correct = 0;
+  samples.forEach(sample => {
+    const predicted = predict(sample);
+    errorSum += Math.abs(predicted - sample.actual) / sample.actual;
+    if (direction(sample.current, predicted, threshold) === direction(sample.current, sample.actual, threshold)) {
+      correct++;
+    }
+  });
+
+  return {
+    samples: samples.length,
+    mape: (errorSum / samples.length) * 100,
+    directionalAccuracy: (correct / samples.length) * 100,
+  };
+}
+
+function savingsOf(outcomes: TripOutcome[]): SavingsSummary {
+  const bookNowSpend = outcomes.reduce((sum, trip) => sum + trip.firstPrice, 0);
+  const recommendedSpend = outcomes.reduce((sum, trip) => sum + trip.paid, 0);
+
+  return {
+    trips: outcomes.length,
+    bookNowSpend,
+    recommendedSpend,
+    savings: bookNowSpend - recommendedSpend,
+    savingsPercent: bookNowSpend > 0 ? ((bookNowSpend - recommendedSpend) / bookNowSpend) * 100 : 0,
+    bestPossibleSavings: outcomes.reduce((sum, trip) => sum + trip.firstPrice - trip.lowest, 0),
+    tripsSaved: outcomes.filter(trip => trip.paid < trip.firstPrice).length,
+    tripsLost: outcomes.filter(trip => trip.paid > trip.firstPrice).length,
+    averageWaitDays: outcomes.length > 0 ? outcomes.reduce((sum, trip) => sum + trip.waitDays, 0) / outcomes.length : 0,
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) || []), item]));
+  return groups;
+}
+
+// ==================== WEIGHT TUNING ====================
+
+function weightCandidates(): ModelWeights[] {
+  const candidates: ModelWeights[] = [];
+  WEIGHT_GRID.forEach(linear => WEIGHT_GRID.forEach(seasonal => WEIGHT_GRID.forEach(market => {
+    if (linear + seasonal + market > 0) {
+      candidates.push({ linear_regression: linear, seasonal, market_based: market });
+    }
+  })));
+  return candidates;
+}
+
+// Scale so the largest weight is 1; weights only matter relative to each other
+function normalizeWeights(weights: ModelWeights): ModelWeights {
+  const max = Math.max(...Object.values(weights));
+  const normalized = { ...weights };
+  (Object.keys(normalized) as PredictionModelName[]).forEach(model => {
+    normalized[model] = Math.round((normalized[model] / max) * 100) / 100;
+  });
+  return normalized;
+}
+
+function reweighted(sample: AccuracySample, weights: ModelWeights): number {
+  return blendModelPredictions(sample.breakdown, weights).predicted_price * sample.factorMultiplier;
+}
+
+function tuneWeights(samples: AccuracySample[], current: ModelWeights, threshold: number, holdoutFraction: number): WeightTuning | null {
+  if (samples.length < MIN_TUNING_SAMPLES) {
+    return null;
+  }
+
+  const ordered = [...samples].sort((a, b) => a.asOf.getTime() - b.asOf.getTime());
+  const split = Math.max(1, Math.floor(ordered.length * (1 - holdoutFraction)));
+  const train = ordered.slice(0, split);
+  const holdout = ordered.slice(split);
+  const mape = (set: AccuracySample[], weights: ModelWeights) =>
+    accuracyOf(set, threshold, sample => reweighted(sample, weights)).mape;
+
+  let tuned = current;
+  let bestTrainMape = mape(train, current);
+  weightCandidates().forEach(candidate => {
+    const candidateMape = mape(train, candidate);
+    if (candidateMape < bestTrainMape - 1e-9) {
+      tuned = candidate;
+      bestTrainMape = candidateMape;
+    }
+  });
+  tuned = normalizeWeights(tuned);
+
+  const holdoutMape = { current: mape(holdout, current), tuned: mape(holdout, tuned) };
+  return {
+    samples: { train: train.length, holdout: holdout.length },
+    current,
+    tuned,
+    trainMape: { current: mape(train, current), tuned: mape(train, tuned) },
+    holdoutMape,
+    improved: holdout.length > 0 && holdoutMape.tuned < holdoutMape.current,
+  };
+}
+
+// ==================== BACKTEST ====================
+
+/**
+ * Replay the dataset and score the engine's predictions and advice
+ */
+export async function runBacktest(records: BacktestRecord[], options: BacktestOptions = {}): Promise<BacktestReport> {
+  const horizonDays = options.horizonDays ?? 7;
+  const tolerance = options.horizonToleranceDays ?? 1;
+  const threshold = options.directionThreshold ?? 0.02;
+  const holdoutFraction = options.holdoutFraction ?? 0.3;
+  const riskTolerance = options.riskTolerance ?? 0.5;
+
+  const store = new MemoryPriceHistoryStore();
+  await store.record(records.map<PriceObservation>(record => ({
+    series: seriesFor(record),
+    kind: record.kind,
+    provider: record.provider,
+    currency: record.currency,
+    price: record.price,
+    travelDate: record.travelDate,
+    observedAt: record.observedAt,
+  })));
+
+  const engine = new PricePredictionEngine({ historyStore: store });
+  Object.entries(options.weights || {}).forEach(([routeType, weights]) => engine.setModelWeights(routeType, weights));
+
+  const trips = groupTrips(records);
+  const samples: AccuracySample[] = [];
+  const outcomes: TripOutcome[] = [];
+  const skipped = { noHistory: 0, noTargetQuote: 0 };
+  const total = trips.reduce((sum, trip) => sum + trip.quotes.length, 0);
+  let done = 0;
+
+  for (const trip of trips) {
+    const { record } = trip;
+    const departure = new Date(`${record.travelDate}T00:00:00Z`);
+    const predict = (bookingDate: Date, asOf: Date) => engine.predictPrice(record.route, departure, bookingDate, {
+      service_type: record.kind,
+      class_type: record.cabin,
+      route_type: record.routeType,
+      as_of: asOf,
+    });
+    let purchase: Quote | null = null;
+
+    for (const quote of trip.quotes) {
+      // Accuracy: predict the price `horizonDays` later from what was known
+      // today; datasets are rarely scraped daily, so score against the
+      // nearest quote to that day
+      const target = nearestQuote(trip.quotes, addDays(quote.day, horizonDays), tolerance, quote.day);
+      if (!target) {
+        skipped.noTargetQuote++;
+      } else {
+        const prediction = await predict(new Date(`${target.day}T12:00:00Z`), quote.observedAt);
+        const blended = blendModelPredictions(prediction.model_breakdown, prediction.model_weights).predicted_price;
+        if (prediction.predicted_price > 0 && blended > 0) {
+          samples.push({
+            routeType: record.routeType,
+            asOf: quote.observedAt,
+            current: quote.price,
+            actual: target.price,
+            predicted: prediction.predicted_price,
+            breakdown: prediction.model_breakdown,
+            factorMultiplier: prediction.predicted_price / blended,
+          });
+        } else {
+          skipped.noHistory++;
+        }
+      }
+
+      // Savings: buy at the first quote the engine says to book
+      if (!purchase) {
+        const prediction = await predict(quote.observedAt, quote.observedAt);
+        const advice = await engine.getBookingRecommendation(prediction, {
+          risk_tolerance: riskTolerance,
+          budget_flexibility: 0.5,
+          date_flexibility: 0,
+        });
+        if (advice.action === 'book_now') {
+          purchase = quote;
+        }
+      }
+
+      options.onProgress?.(++done, total);
+    }
+
+    // Never told to book: the traveller buys at the last quote
+    purchase = purchase || trip.quotes[trip.quotes.length - 1];
+    outcomes.push({
+      routeType: record.routeType,
+      firstPrice: trip.quotes[0].price,
+      paid: purchase.price,
+      lowest: Math.min(...trip.quotes.map(quote => quote.price)),
+      waitDays: Math.round((Date.parse(purchase.day) - Date.parse(trip.quotes[0].day)) / DAY_MS),
+    });
+  }
+
+  const routeTypes = Array.from(new Set(records.map(record => record.routeType))).sort();
+  const samplesByType = groupBy(samples, sample => sample.routeType);
+  const outcomesByType = groupBy(outcomes, outcome => outcome.routeType);
+  const observedDays = records.map(record => record.observedAt.toISOString().slice(0, 10)).sort();
+
+  return {
+    dataset: {
+      records: records.length,
+      trips: trips.length,
+      routeTypes,
+      from: observedDays[0] || null,
+      to: observedDays[observedDays.length - 1] || null,
+    },
+    horizonDays,
+    horizonToleranceDays: tolerance,
+    accuracy: {
+      ...accuracyOf(samples, threshold),
+      byRouteType: Object.fromEntries(routeTypes.map(type => [type, accuracyOf(samplesByType.get(type) || [], threshold)])),
+    },
+    savings: {
+      ...savingsOf(outcomes),
+      byRouteType: Object.fromEntries(routeTypes.map(type => [type, savingsOf(outcomesByType.get(type) || [])])),
+    },
+    tuning: Object.fromEntries(routeTypes.map(type => [
+      type,
+      tuneWeights(samplesByType.get(type) || [], engine.getModelWeights(type), threshold, holdoutFraction),
+    ])),
+    skipped,
+  };
+}
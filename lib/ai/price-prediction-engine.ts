@@ -1,7 +1,19 @@
-'use client';
-
 // Smart Price Prediction Engine - Phase 10 Platform Evolution
-// Historical data analysis for optimal booking timing and price forecasting
+// Historical data analysis for optimal booking timing and price forecasting.
+// History comes from the shared price history store, fed by the price
+// tracking job. The blend of the three models is weighted per route type;
+// weights are tuned offline by the backtesting harness (lib/ai/price-backtest.ts).
+
+import {
+  HISTORY_RETENTION_DAYS,
+  getPriceHistoryStore,
+  priceSeriesKey,
+  type PriceHistoryStore,
+  type PriceObservation,
+} from '@/lib/services/price-history-store';
+import tunedModelWeights from './price-model-weights.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface PricePoint {
   date: Date;
@@ -24,6 +36,23 @@ export interface PricePoint {
   };
 }
 
+export type PredictionModelName = 'linear_regression' | 'seasonal' | 'market_based';
+
+// Relative trust in each model on top of its own confidence
+export type ModelWeights = Record<PredictionModelName, number>;
+
+export const DEFAULT_MODEL_WEIGHTS: ModelWeights = {
+  linear_regression: 1,
+  seasonal: 1,
+  market_based: 1,
+};
+
+export interface ModelPrediction {
+  model: PredictionModelName;
+  prediction: number;
+  confidence: number; // 0-1
+}
+
 export interface PricePrediction {
   predicted_price: number;
   confidence: number; // 0-1
@@ -46,6 +75,9 @@ export interface PricePrediction {
     percentile: number; // 0-100
   };
   alerts: PriceAlert[];
+  advance_booking_days: number; // Days between booking and departure
+  model_breakdown: ModelPrediction[]; // Before weighting and factor adjustments
+  model_weights: ModelWeights;
 }
 
 export interface PriceFactor {
@@ -142,16 +174,79 @@ export interface PricingModel {
   version: string;
 }
 
+// A stored observation as a prediction data point. Booking lead time comes
+// from the travel date the price was quoted for.
+function pricePointFromObservation(observation: PriceObservation): PricePoint {
+  const advanceBookingDays = observation.travelDate
+    ? Math.max(0, Math.round((Date.parse(observation.travelDate) - observation.observedAt.getTime()) / DAY_MS))
+    : 0;
+
+  return {
+    date: observation.observedAt,
+    price: observation.price,
+    currency: observation.currency,
+    source: observation.provider,
+    metadata: {
+      advance_booking_days: advanceBookingDays,
+      seasonality_factor: 1,
+      demand_level: 'medium',
+    },
+  };
+}
+
+/**
+ * Combine model predictions, weighting each by its confidence times the
+ * model weight. Confidence is the plain average over the models.
+ */
+export function blendModelPredictions(
+  predictions: ModelPrediction[],
+  weights: ModelWeights = DEFAULT_MODEL_WEIGHTS
+): { predicted_price: number; confidence: number } {
+  if (predictions.length === 0) {
+    return { predicted_price: 0, confidence: 0 };
+  }
+
+  const totalWeight = predictions.reduce((sum, pred) => sum + pred.confidence * weights[pred.model], 0);
+  if (totalWeight === 0) {
+    return { predicted_price: 0, confidence: 0 };
+  }
+
+  const weightedPrice = predictions.reduce(
+    (sum, pred) => sum + (pred.prediction * pred.confidence * weights[pred.model]),
+    0
+  ) / totalWeight;
+
+  const averageConfidence = predictions.reduce((sum, pred) => sum + pred.confidence, 0) / predictions.length;
+
+  return {
+    predicted_price: weightedPrice,
+    confidence: averageConfidence,
+  };
+}
+
 class PricePredictionEngine {
-  private priceHistory: Map<string, PricePoint[]> = new Map();
   private predictionModels: Map<string, PricingModel> = new Map();
   private marketAnalyses: Map<string, MarketAnalysis> = new Map();
   private externalDataSources: Map<string, any> = new Map();
+  private modelWeights: Map<string, ModelWeights> = new Map();
+  private historyStore: PriceHistoryStore | null;
 
-  constructor() {
+  // A history store can be passed in to replay a dataset (see price-backtest)
+  constructor(options: { historyStore?: PriceHistoryStore } = {}) {
+    this.historyStore = options.historyStore || null;
     this.initializeEngine();
   }
 
+  // Route types are free-form ("flight", "hotel", "domestic", ...); a route
+  // type without tuned weights uses the defaults
+  setModelWeights(routeType: string, weights: ModelWeights): void {
+    this.modelWeights.set(routeType, weights);
+  }
+
+  getModelWeights(routeType: string): ModelWeights {
+    return this.modelWeights.get(routeType) || DEFAULT_MODEL_WEIGHTS;
+  }
+
   async predictPrice(
     route: string,
     departureDate: Date,
@@ -161,11 +256,14 @@ class PricePredictionEngine {
       class_type?: string;
       flexibility?: number; // days
       group_size?: number;
+      route_type?: string; // Selects tuned model weights; defaults to the service type
+      as_of?: Date; // Only history observed up to this moment is used; defaults to now
     } = {}
   ): Promise<PricePrediction> {
     try {
       // Get historical data
       const historicalData = await this.getHistoricalData(route, options);
+      const modelWeights = this.getModelWeights(options.route_type || options.service_type || 'flight');
       
       // Calculate advance booking days
       const advanceBookingDays = Math.floor(
@@ -205,7 +303,7 @@ class PricePredictionEngine {
       );
       
       // Calculate final prediction
-      const basePrediction = this.calculateWeightedPrediction(modelPredictions);
+      const basePrediction = blendModelPredictions(modelPredictions, modelWeights);
       const adjustedPrediction = this.applyFactorAdjustments(
         basePrediction,
         priceFactors
@@ -247,6 +345,9 @@ class PricePredictionEngine {
         optimal_booking_window: optimalWindow,
         historical_comparison: historicalComparison,
         alerts,
+        advance_booking_days: advanceBookingDays,
+        model_breakdown: modelPredictions,
+        model_weights: modelWeights,
       };
       
     } catch (error) {
@@ -263,7 +364,7 @@ class PricePredictionEngine {
       date_flexibility: number; // days
     }
   ): Promise<BookingRecommendation> {
-    const currentAdvanceDays = prediction.optimal_booking_window.start_days;
+    const currentAdvanceDays = prediction.advance_booking_days;
     const riskAssessment = this.assessBookingRisk(prediction, userPreferences);
     
     let action: BookingRecommendation['action'] = 'monitor';
@@ -278,10 +379,11 @@ class PricePredictionEngine {
       action = 'wait';
       reasoning.push('Prices are expected to fall - wait for better deals');
       potentialSavings = prediction.predicted_price * 0.1; // Estimate 10% savings
-    } else if (currentAdvanceDays < prediction.optimal_booking_window.start_days) {
-      action = 'wait';
-      reasoning.push(`Wait ${prediction.optimal_booking_window.start_days - currentAdvanceDays} more days for optimal booking window`);
     } else if (currentAdvanceDays > prediction.optimal_booking_window.end_days) {
+      // The window is counted in days before departure, so it is still ahead
+      action = 'wait';
+      reasoning.push(`Wait ${currentAdvanceDays - prediction.optimal_booking_window.end_days} more days for optimal booking window`);
+    } else if (currentAdvanceDays < prediction.optimal_booking_window.start_days) {
       action = 'book_now';
       reasoning.push('Past optimal booking window - prices likely to increase');
     }
@@ -311,26 +413,27 @@ class PricePredictionEngine {
     };
   }
 
-  async trackPriceHistory(pricePoint: PricePoint): Promise<void> {
-    const routeKey = this.generateRouteKey(pricePoint);
-    
-    if (!this.priceHistory.has(routeKey)) {
-      this.priceHistory.set(routeKey, []);
-    }
-    
-    const history = this.priceHistory.get(routeKey)!;
-    history.push(pricePoint);
-    
-    // Keep only recent data (last 2 years)
-    const twoYearsAgo = new Date();
-    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
-    
-    this.priceHistory.set(
-      routeKey,
-      history.filter(point => point.date >= twoYearsAgo)
-    );
-    
+  async trackPriceHistory(
+    pricePoint: PricePoint,
+    options: { service_type?: 'flight' | 'hotel' | 'car_rental'; class_type?: string } = {}
+  ): Promise<void> {
+    const route = pricePoint.route ? `${pricePoint.route.from}-${pricePoint.route.to}` : 'unknown';
+    const routeKey = this.generateRouteKey({ route, ...options });
+    const travelDate = new Date(pricePoint.date.getTime() + pricePoint.metadata.advance_booking_days * DAY_MS);
+
+    // Retention and downsampling are handled by the store's maintenance job
+    await (this.historyStore || getPriceHistoryStore()).record([{
+      series: routeKey,
+      kind: options.service_type || 'flight',
+      provider: pricePoint.source,
+      currency: pricePoint.currency,
+      price: pricePoint.price,
+      travelDate: travelDate.toISOString().slice(0, 10),
+      observedAt: pricePoint.date,
+    }]);
+
     // Update models if we have enough data
+    const history = await this.getHistoricalData(route, options);
     if (history.length > 100) {
       await this.updatePredictionModel(routeKey, history);
     }
@@ -356,7 +459,18 @@ class PricePredictionEngine {
     options: any = {}
   ): Promise<PricePoint[]> {
     const routeKey = this.generateRouteKey({ route, ...options });
-    return this.priceHistory.get(routeKey) || [];
+    const asOf: Date = options.as_of || new Date();
+
+    try {
+      const observations = await (this.historyStore || getPriceHistoryStore()).query(routeKey, {
+        since: new Date(asOf.getTime() - HISTORY_RETENTION_DAYS * DAY_MS),
+        until: asOf,
+      });
+      return observations.map(pricePointFromObservation);
+    } catch (error) {
+      console.error('Failed to load price history:', error);
+      return [];
+    }
   }
 
   private async getMarketAnalysis(route: string): Promise<MarketAnalysis> {
@@ -369,8 +483,8 @@ class PricePredictionEngine {
     advanceBookingDays: number,
     historicalData: PricePoint[],
     marketAnalysis: MarketAnalysis
-  ): Promise<Array<{ model: string; prediction: number; confidence: number }>> {
-    const predictions: Array<{ model: string; prediction: number; confidence: number }> = [];
+  ): Promise<ModelPrediction[]> {
+    const predictions: ModelPrediction[] = [];
     
     // Linear regression model
     const linearPrediction = this.applyLinearRegression(
@@ -507,31 +621,6 @@ class PricePredictionEngine {
     return { price: adjustedPrice, confidence };
   }
 
-  private calculateWeightedPrediction(
-    predictions: Array<{ model: string; prediction: number; confidence: number }>
-  ): { predicted_price: number; confidence: number } {
-    if (predictions.length === 0) {
-      return { predicted_price: 0, confidence: 0 };
-    }
-    
-    const totalWeight = predictions.reduce((sum, pred) => sum + pred.confidence, 0);
-    if (totalWeight === 0) {
-      return { predicted_price: 0, confidence: 0 };
-    }
-    
-    const weightedPrice = predictions.reduce(
-      (sum, pred) => sum + (pred.prediction * pred.confidence),
-      0
-    ) / totalWeight;
-    
-    const averageConfidence = totalWeight / predictions.length;
-    
-    return {
-      predicted_price: weightedPrice,
-      confidence: averageConfidence,
-    };
-  }
-
   private calculateSeasonalityFactor(
     departureDate: Date,
     historicalData: PricePoint[]
@@ -724,11 +813,21 @@ class PricePredictionEngine {
   // More helper methods would be implemented here...
   
   private initializeEngine(): void {
-    // Initialize prediction models and external data connections
+    // Weights tuned by `npm run prices:backtest -- --write-weights`
+    Object.entries(tunedModelWeights as Record<string, Partial<ModelWeights>>).forEach(([routeType, weights]) => {
+      this.setModelWeights(routeType, { ...DEFAULT_MODEL_WEIGHTS, ...weights });
+    });
   }
 
+  // Price history series for a route: flights are split by cabin class,
+  // hotel and car rental series cover the whole location
   private generateRouteKey(data: any): string {
-    return `${data.route || 'unknown'}_${data.service_type || 'flight'}_${data.class_type || 'economy'}`;
+    const serviceType = data.service_type || 'flight';
+    return priceSeriesKey(
+      serviceType,
+      data.route || 'unknown',
+      serviceType === 'flight' ? data.class_type || 'economy' : data.class_type
+    );
   }
 
   private createDefaultMarketAnalysis(route: string): MarketAnalysis {
@@ -787,11 +886,11 @@ class PricePredictionEngine {
     const alerts: PriceAlert[] = [];
     
     // Check for booking deadline alerts
-    if (currentAdvanceDays < optimalWindow.start_days - 7) {
+    if (currentAdvanceDays > optimalWindow.end_days + 7) {
       alerts.push({
         type: 'booking_deadline',
         severity: 'medium',
-        message: `Optimal booking window starts in ${optimalWindow.start_days - currentAdvanceDays} days`,
+        message: `Optimal booking window starts in ${currentAdvanceDays - optimalWindow.end_days} days`,
         action_required: false,
       });
     }
@@ -924,4 +1023,5 @@ class PricePredictionEngine {
 }
 
 export const pricePredictionEngine = new PricePredictionEngine();
+export { PricePredictionEngine };
 export default PricePredictionEngine;
\ No newline at end of file
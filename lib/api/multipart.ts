@@ -0,0 +1,42 @@
+/**
+ * Multipart request bodies read under a byte cap
+ */
+
+import type { NextRequest } from 'next/server';
+
+/**
+ * Parse the multipart body, giving up as soon as it passes `maxBytes`.
+ * Content-Length can be missing (chunked uploads) or wrong, so the bytes are
+ * counted as they arrive instead of trusting the header. Returns null when
+ * the body is missing or is not valid form data.
+ */
+export async function readCappedForm(request: NextRequest, maxBytes: number): Promise<FormData | 'too_large' | null> {
+  const reader = request.body?.getReader();
+  if (!reader) {
+    return null;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return 'too_large';
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  return new Response(body, {
+    headers: { 'content-type': request.headers.get('content-type') || '' },
+  }).formData().catch(() => null);
+}
@@ -0,0 +1,199 @@
+// Personal Data Export
+// Collects every row tied to a user into one JSON archive. Trips the user
+// owns are exported with their itineraries and sharing records; on trips
+// owned by others only the user's own membership and contributions are
+// included.
+
+import { eq, inArray } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import {
+  users,
+  profiles,
+  trips,
+  draftTrips,
+  itineraries,
+  itineraryOps,
+  tripCollaborators,
+  tripInvitations,
+  sharedTrips,
+  usageEvents,
+  usageCounters,
+  priceWatches,
+  priceAlerts,
+  notifications,
+  notificationSettings,
+  pushSubscriptions,
+  bookings,
+  bookingItems,
+  bookingEvents,
+  tripDocuments,
+  calendarFeeds,
+  userPreferences,
+  userInteractions,
+  recommendationFeedback,
+  userClusters,
+  personalizedRecommendations,
+} from '@/lib/database/schema';
+
+export const DATA_EXPORT_FORMAT = 'tripthesia.personal-data';
+export const DATA_EXPORT_VERSION = 1;
+
+export interface UserDataExport {
+  format: typeof DATA_EXPORT_FORMAT;
+  version: typeof DATA_EXPORT_VERSION;
+  userId: string;
+  exportedAt: string;
+  data: Record<string, unknown[] | unknown>;
+}
+
+/**
+ * Build the export archive for a user. Returns null when the database is
+ * unavailable or a query failed.
+ */
+export async function exportUserData(userId: string): Promise<UserDataExport | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const data = await withDatabase(async (db) => {
+    // Read from one snapshot so the sections agree with each other
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      const [profile] = await tx.select().from(profiles).where(eq(profiles.userId, userId));
+
+      const ownedTrips = await tx.select().from(trips).where(eq(trips.userId, userId));
+      const tripIds = ownedTrips.map(trip => trip.id);
+
+      const ownedBookings = await tx.select().from(bookings).where(eq(bookings.userId, userId));
+      const bookingIds = ownedBookings.map(booking => booking.id);
+
+      const ownedTripData = tripIds.length === 0
+        ? { itineraries: [], collaborators: [], invitations: [], shares: [] }
+        : {
+            itineraries: await tx.select().from(itineraries).where(inArray(itineraries.tripId, tripIds)),
+            collaborators: await tx.select().from(tripCollaborators).where(inArray(tripCollaborators.tripId, tripIds)),
+            invitations: await tx
+              .select({
+                id: tripInvitations.id,
+                tripId: tripInvitations.tripId,
+                email: tripInvitations.email,
+                role: tripInvitations.role,
+                status: tripInvitations.status,
+                expiresAt: tripInvitations.expiresAt,
+                acceptedAt: tripInvitations.acceptedAt,
+                revokedAt: tripInvitations.revokedAt,
+                createdAt: tripInvitations.createdAt,
+              })
+              .from(tripInvitations)
+              .where(inArray(tripInvitations.tripId, tripIds)),
+            shares: await tx
+              .select({
+                id: sharedTrips.id,
+                tripId: sharedTrips.tripId,
+                allowComments: sharedTrips.allowComments,
+                expiresAt: sharedTrips.expiresAt,
+                createdAt: sharedTrips.createdAt,
+              })
+              .from(sharedTrips)
+              .where(inArray(sharedTrips.tripId, tripIds)),
+          };
+
+      return {
+        user: user || null,
+        profile: profile || null,
+        trips: ownedTrips,
+        itineraries: ownedTripData.itineraries,
+        tripCollaborators: ownedTripData.collaborators,
+        tripInvitations: ownedTripData.invitations,
+        sharedTrips: ownedTripData.shares,
+        collaborations: await tx.select().from(tripCollaborators).where(eq(tripCollaborators.userId, userId)),
+        authoredItineraryVersions: await tx
+          .select({
+            tripId: itineraries.tripId,
+            version: itineraries.version,
+            source: itineraries.source,
+            createdAt: itineraries.createdAt,
+          })
+          .from(itineraries)
+          .where(eq(itineraries.createdBy, userId)),
+        authoredItineraryOps: await tx.select().from(itineraryOps).where(eq(itineraryOps.author, userId)),
+        draftTrips: await tx.select().from(draftTrips).where(eq(draftTrips.userId, userId)),
+        userPreferences: await tx.select().from(userPreferences).where(eq(userPreferences.userId, userId)),
+        userInteractions: await tx.select().from(userInteractions).where(eq(userInteractions.userId, userId)),
+        recommendationFeedback: await tx.select().from(recommendationFeedback).where(eq(recommendationFeedback.userId, userId)),
+        userClusters: await tx.select().from(userClusters).where(eq(userClusters.userId, userId)),
+        personalizedRecommendations: await tx
+          .select()
+          .from(personalizedRecommendations)
+          .where(eq(personalizedRecommendations.userId, userId)),
+        usageEvents: await tx.select().from(usageEvents).where(eq(usageEvents.userId, userId)),
+        usageCounters: await tx.select().from(usageCounters).where(eq(usageCounters.userId, userId)),
+        priceWatches: await tx.select().from(priceWatches).where(eq(priceWatches.userId, userId)),
+        priceAlerts: await tx.select().from(priceAlerts).where(eq(priceAlerts.userId, userId)),
+        notifications: await tx.select().from(notifications).where(eq(notifications.userId, userId)),
+        notificationSettings: await tx.select().from(notificationSettings).where(eq(notificationSettings.userId, userId)),
+        // Endpoints only; the encryption keys are browser secrets
+        pushSubscriptions: await tx
+          .select({ endpoint: pushSubscriptions.endpoint, createdAt: pushSubscriptions.createdAt })
+          .from(pushSubscriptions)
+          .where(eq(pushSubscriptions.userId, userId)),
+        bookings: ownedBookings.map(({ idempotencyKey: _idempotencyKey, ...booking }) => booking),
+        bookingItems: bookingIds.length === 0
+          ? []
+          : await tx.select().from(bookingItems).where(inArray(bookingItems.bookingId, bookingIds)),
+        bookingEvents: bookingIds.length === 0
+          ? []
+          : await tx
+            .select({
+              bookingId: bookingEvents.bookingId,
+              action: bookingEvents.action,
+              fromStatus: bookingEvents.fromStatus,
+              toStatus: bookingEvents.toStatus,
+              details: bookingEvents.details,
+              createdAt: bookingEvents.createdAt,
+            })
+            .from(bookingEvents)
+            .where(inArray(bookingEvents.bookingId, bookingIds)),
+        // Metadata of uploaded documents; the files are downloadable from the trip
+        tripDocuments: await tx
+          .select({
+            id: tripDocuments.id,
+            tripId: tripDocuments.tripId,
+            kind: tripDocuments.kind,
+            title: tripDocuments.title,
+            fileName: tripDocuments.fileName,
+            contentType: tripDocuments.contentType,
+            size: tripDocuments.size,
+            sha256: tripDocuments.sha256,
+            itineraryItemId: tripDocuments.itineraryItemId,
+            bookingId: tripDocuments.bookingId,
+            createdAt: tripDocuments.createdAt,
+          })
+          .from(tripDocuments)
+          .where(eq(tripDocuments.uploadedBy, userId)),
+        // Without the secret tokens, which would let anyone holding the export subscribe
+        calendarFeeds: await tx
+          .select({
+            tripId: calendarFeeds.tripId,
+            lastAccessedAt: calendarFeeds.lastAccessedAt,
+            createdAt: calendarFeeds.createdAt,
+            updatedAt: calendarFeeds.updatedAt,
+          })
+          .from(calendarFeeds)
+          .where(eq(calendarFeeds.userId, userId)),
+      };
+    });
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    format: DATA_EXPORT_FORMAT,
+    version: DATA_EXPORT_VERSION,
+    userId,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
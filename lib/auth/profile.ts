@@ -1,7 +1,7 @@
-import { auth } from '@clerk/nextjs/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
 import { db, withDatabase, isDatabaseAvailable } from '@/lib/db';
-import { profiles, users } from '@/lib/database/schema';
-import { eq, sql } from 'drizzle-orm';
+import { profiles, usageCounters, users } from '@/lib/database/schema';
+import { and, eq, isNull, lt, notInArray, or, sql } from 'drizzle-orm';
 import { type SubscriptionTier } from '@/lib/subscription/config';
 
 export interface UserProfile {
@@ -55,8 +55,11 @@ export async function getCurrentUserProfile(): Promise<UserProfile | null> {
   });
 
   if (!profileData || profileData.length === 0) {
-    // Profile doesn't exist, create it
-    return await createUserProfile(userId);
+    // Profile doesn't exist yet (signed up before the Clerk webhook synced
+    // them), so create it along with the user row it references
+    const clerkUser = await currentUser();
+    const email = clerkUser?.primaryEmailAddress?.emailAddress || clerkUser?.emailAddresses[0]?.emailAddress;
+    return await createUserProfile(userId, email);
   }
 
   const profile = profileData[0];
@@ -115,7 +118,10 @@ export async function createUserProfile(userId: string, email?: string): Promise
 }
 
 /**
- * Update user subscription
+ * Update user subscription. Updates carrying `eventAt` (the provider's time
+ * for the billing event) are skipped as 'stale' when a later event has
+ * already been applied, so out-of-order webhooks cannot undo a newer state.
+ * On a tie, a cancellation or expiry is not reactivated.
  */
 export async function updateUserSubscription(
   userId: string,
@@ -125,15 +131,28 @@ export async function updateUserSubscription(
     subscriptionId?: string;
     customerId?: string;
     currentPeriodEnd?: Date;
+    eventAt?: Date;
   }
-): Promise<boolean> {
+): Promise<'updated' | 'stale' | 'failed'> {
   // Skip if database is not configured
   if (!isDatabaseAvailable()) {
-    return false;
+    return 'failed';
   }
 
+  const { eventAt } = updates;
+  const inOrder = eventAt && or(
+    isNull(profiles.subscriptionEventAt),
+    lt(profiles.subscriptionEventAt, eventAt),
+    and(
+      eq(profiles.subscriptionEventAt, eventAt),
+      updates.status === 'active'
+        ? or(isNull(profiles.subscriptionStatus), notInArray(profiles.subscriptionStatus, ['cancelled', 'expired']))
+        : undefined
+    )
+  );
+
   const result = await withDatabase(async (db) => {
-    await db
+    return await db
       .update(profiles)
       .set({
         ...(updates.tier && { subscriptionTier: updates.tier }),
@@ -141,54 +160,43 @@ export async function updateUserSubscription(
         ...(updates.subscriptionId && { subscriptionId: updates.subscriptionId }),
         ...(updates.customerId && { razorpayCustomerId: updates.customerId }),
         ...(updates.currentPeriodEnd && { subscriptionCurrentPeriodEnd: updates.currentPeriodEnd }),
+        ...(eventAt && { subscriptionEventAt: eventAt }),
         updatedAt: new Date(),
       })
-      .where(eq(profiles.userId, userId));
-    
-    return true;
+      .where(and(eq(profiles.userId, userId), inOrder))
+      .returning({ userId: profiles.userId });
   });
 
-  return result || false;
-}
-
-/**
- * Increment user's trip usage
- */
-export async function incrementTripUsage(userId: string): Promise<boolean> {
-  // Skip if database is not configured
-  if (!isDatabaseAvailable()) {
-    return true; // Return true to not block functionality
+  if (!result) {
+    return 'failed';
   }
-
-  const result = await withDatabase(async (db) => {
-    await db
-      .update(profiles)
-      .set({
-        tripsUsedThisMonth: sql`${profiles.tripsUsedThisMonth} + 1`,
-        lastTripCreated: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(profiles.userId, userId));
-    
-    return true;
-  });
-
-  return result || false;
+  return result.length === 0 && eventAt ? 'stale' : 'updated';
 }
 
 /**
- * Reset monthly usage (run via cron job)
+ * Resync the denormalised monthly trip counter from the usage meter (run via
+ * cron job). Metered counters are keyed by billing period, so this only
+ * zeroes profiles whose period has rolled over since their last trip.
  */
 export async function resetMonthlyUsage(): Promise<boolean> {
   if (!isDatabaseAvailable()) {
     return false;
   }
 
+  // Timestamps are stored as UTC without a zone
+  const now = new Date().toISOString();
+
   const result = await withDatabase(async (db) => {
     await db
       .update(profiles)
       .set({
-        tripsUsedThisMonth: 0,
+        tripsUsedThisMonth: sql`coalesce((
+          SELECT ${usageCounters.count} FROM ${usageCounters}
+          WHERE ${usageCounters.userId} = ${profiles.userId}
+            AND ${usageCounters.metric} = 'trips'
+            AND ${usageCounters.periodStart} <= ${now}::timestamp
+            AND ${usageCounters.periodEnd} > ${now}::timestamp
+        ), 0)`,
         updatedAt: new Date(),
       });
     
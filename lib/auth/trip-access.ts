@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { trips, tripCollaborators } from '@/lib/database/schema';
+
+export type TripRole = 'owner' | 'editor' | 'viewer';
+
+const ROLE_RANK: Record<TripRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Check whether a role grants at least the required level of access
+ */
+export function hasTripRole(role: TripRole | null, required: TripRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// The caller's role, or undefined when it could not be looked up
+async function lookupTripRole(tripId: string, userId: string): Promise<TripRole | null | undefined> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({
+        ownerId: trips.userId,
+        collaboratorRole: tripCollaborators.role,
+      })
+      .from(trips)
+      .leftJoin(
+        tripCollaborators,
+        and(eq(tripCollaborators.tripId, trips.id), eq(tripCollaborators.userId, userId))
+      )
+      .where(eq(trips.id, tripId))
+      .limit(1);
+  });
+
+  if (!rows) {
+    return undefined;
+  }
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const [row] = rows;
+  if (row.ownerId === userId) {
+    return 'owner';
+  }
+
+  return row.collaboratorRole || null;
+}
+
+/**
+ * Resolve a user's role on a trip, or null when they have no access.
+ * Access is denied when the database is unavailable or the lookup fails.
+ */
+export async function resolveTripRole(tripId: string, userId: string): Promise<TripRole | null> {
+  return (await lookupTripRole(tripId, userId)) ?? null;
+}
+
+/**
+ * Enforce a minimum trip role inside a route handler. Returns the caller's
+ * role, or an error response to return as-is. Trips the caller cannot see
+ * yield 404 rather than 403 so trip IDs cannot be probed, and a failed
+ * lookup yields 503.
+ */
+export async function requireTripRole(
+  tripId: string,
+  userId: string,
+  required: TripRole
+): Promise<{ role: TripRole; response?: undefined } | { role?: undefined; response: NextResponse }> {
+  const role = await lookupTripRole(tripId, userId);
+
+  if (role === undefined) {
+    return {
+      response: NextResponse.json({ error: 'Trip access could not be checked' }, { status: 503 }),
+    };
+  }
+
+  if (!role) {
+    return {
+      response: NextResponse.json({ error: 'Trip not found' }, { status: 404 }),
+    };
+  }
+
+  if (!hasTripRole(role, required)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Insufficient permissions', details: `This action requires the ${required} role` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { role };
+}
@@ -0,0 +1,339 @@
+// User Sync
+// Mirrors Clerk users into `users` and `profiles`, and removes a user's data
+// when their Clerk account is deleted. On deletion, the user's own trips,
+// drafts, personalization data and counters are deleted; their footprint on
+// other people's trips and in analytics is anonymized instead.
+
+import type { UserJSON } from '@clerk/nextjs/server';
+import { and, eq, inArray, like, ne, or, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import {
+  users,
+  profiles,
+  trips,
+  draftTrips,
+  tripCollaborators,
+  tripInvitations,
+  sharedTrips,
+  itineraries,
+  itineraryOps,
+  usageEvents,
+  usageCounters,
+  priceWatches,
+  priceAlerts,
+  notifications,
+  notificationSettings,
+  pushSubscriptions,
+  bookings,
+  tripDocuments,
+  calendarFeeds,
+  bookingItems,
+  bookingEvents,
+  userPreferences,
+  userInteractions,
+  recommendationFeedback,
+  userClusters,
+  personalizedRecommendations,
+  webhooks,
+} from '@/lib/database/schema';
+import { deleteTripRecords } from '@/lib/planning/trip-deletion';
+import { emitCacheEvent } from '@/lib/cache/namespaces';
+import { deleteDocumentFiles, deleteTripDocumentFiles } from '@/lib/documents/trip-documents';
+
+// Row counts per table, keyed by table name
+export interface UserErasureReport {
+  deleted: Record<string, number>;
+  anonymized: Record<string, number>;
+}
+
+/**
+ * The user's primary email, falling back to their first address
+ */
+export function getPrimaryEmail(user: Pick<UserJSON, 'email_addresses' | 'primary_email_address_id'>): string | null {
+  const primary = user.email_addresses.find(address => address.id === user.primary_email_address_id);
+  return (primary || user.email_addresses[0])?.email_address || null;
+}
+
+function getDisplayName(user: Pick<UserJSON, 'first_name' | 'last_name' | 'username'>): string | null {
+  const name = [user.first_name, user.last_name].filter(Boolean).join(' ').trim();
+  return (name || user.username || '').slice(0, 120) || null;
+}
+
+/**
+ * Whether a user.deleted event has already been handled for this user. Guards
+ * against late user.updated deliveries recreating a deleted account.
+ */
+export async function wasUserDeleted(userId: string): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ id: webhooks.id })
+      .from(webhooks)
+      .where(and(
+        eq(webhooks.source, 'clerk'),
+        eq(webhooks.eventType, 'user.deleted'),
+        eq(webhooks.processed, true),
+        sql`${webhooks.payload}->'data'->>'id' = ${userId}`
+      ))
+      .limit(1);
+  });
+
+  return Boolean(rows && rows.length > 0);
+}
+
+/**
+ * Create or update the user and profile rows for a Clerk user. Email changes
+ * overwrite the stored address; the display name is only filled in when the
+ * profile does not have one.
+ */
+export async function syncClerkUser(user: UserJSON): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false;
+  }
+
+  // Phone-only accounts have no email; users.email is required
+  const email = getPrimaryEmail(user) || '';
+  const displayName = getDisplayName(user);
+
+  const result = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(users)
+        .values({ id: user.id, email })
+        .onConflictDoUpdate({
+          target: users.id,
+          set: { email },
+        });
+
+      await tx
+        .insert(profiles)
+        .values({
+          userId: user.id,
+          displayName,
+          subscriptionTier: 'free',
+          tripsUsedThisMonth: 0,
+        })
+        .onConflictDoUpdate({
+          target: profiles.userId,
+          set: {
+            displayName: sql`coalesce(${profiles.displayName}, ${displayName})`,
+            updatedAt: new Date(),
+          },
+        });
+
+      return true;
+    });
+  });
+
+  return result === true;
+}
+
+// jsonb columns written through the driver hold JSON text as a string
+// scalar; unwrap it so paths and operators see the object either way
+function jsonValue(column: AnyColumn): SQL {
+  return sql`(case when jsonb_typeof(${column}) = 'string' then (${column} #>> '{}')::jsonb else ${column} end)`;
+}
+
+/**
+ * Delete a user and everything they own, anonymizing what they contributed
+ * to trips owned by others, in one transaction. Returns what was removed, or
+ * null when the database is unavailable or the transaction failed.
+ */
+export async function deleteUserData(userId: string): Promise<UserErasureReport | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  let deletedTripIds: string[] = [];
+  let deletedDocumentKeys: string[] = [];
+
+  const result = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      const report: UserErasureReport = { deleted: {}, anonymized: {} };
+      const [account] = await tx
+        .select({ email: users.email })
+        .from(users)
+        .where(eq(users.id, userId));
+
+      const ownedTrips = await tx
+        .select({ id: trips.id })
+        .from(trips)
+        .where(eq(trips.userId, userId));
+      deletedTripIds = await deleteTripRecords(tx, ownedTrips.map(trip => trip.id));
+      report.deleted.trips = deletedTripIds.length;
+      // Documents they uploaded to trips owned by others
+      const uploadedDocuments = await tx
+        .delete(tripDocuments)
+        .where(eq(tripDocuments.uploadedBy, userId))
+        .returning({ storageKey: tripDocuments.storageKey });
+      deletedDocumentKeys = uploadedDocuments.map(document => document.storageKey);
+      report.deleted.trip_documents = uploadedDocuments.length;
+
+      report.deleted.draft_trips = (await tx
+        .delete(draftTrips)
+        .where(eq(draftTrips.userId, userId))
+        .returning({ id: draftTrips.id })).length;
+
+      // Memberships and shares on other people's trips
+      report.deleted.trip_collaborators = (await tx
+        .delete(tripCollaborators)
+        .where(eq(tripCollaborators.userId, userId))
+        .returning({ id: tripCollaborators.id })).length;
+      // Invitations they sent, accepted, or that are addressed to them
+      report.deleted.trip_invitations = (await tx
+        .delete(tripInvitations)
+        .where(or(
+          eq(tripInvitations.invitedBy, userId),
+          eq(tripInvitations.acceptedBy, userId),
+          account ? sql`lower(${tripInvitations.email}) = lower(${account.email})` : undefined
+        ))
+        .returning({ id: tripInvitations.id })).length;
+      report.deleted.shared_trips = (await tx
+        .delete(sharedTrips)
+        .where(eq(sharedTrips.createdBy, userId))
+        .returning({ id: sharedTrips.id })).length;
+      report.deleted.calendar_feeds = (await tx
+        .delete(calendarFeeds)
+        .where(eq(calendarFeeds.userId, userId))
+        .returning({ id: calendarFeeds.id })).length;
+
+      // Keep collaborative history on other trips, without the author
+      report.anonymized.itineraries = (await tx
+        .update(itineraries)
+        .set({ createdBy: null })
+        .where(eq(itineraries.createdBy, userId))
+        .returning({ id: itineraries.id })).length;
+      // The op payload repeats the author, and replica IDs from older clients
+      // embed the user ID. Their random prefix still orders replicas, so
+      // renaming the suffix leaves merge results unchanged.
+      report.anonymized.itinerary_ops = (await tx
+        .update(itineraryOps)
+        .set({
+          author: null,
+          opId: sql`replace(${itineraryOps.opId}, ${userId}, 'erased')`,
+          op: sql`replace((${jsonValue(itineraryOps.op)} - 'author')::text, ${userId}, 'erased')::jsonb`,
+        })
+        .where(or(eq(itineraryOps.author, userId), like(itineraryOps.opId, `%${userId}%`)))
+        .returning({ id: itineraryOps.id })).length;
+
+      // Analytics events stay for aggregate counts
+      report.anonymized.usage_events = (await tx
+        .update(usageEvents)
+        .set({ userId: null })
+        .where(eq(usageEvents.userId, userId))
+        .returning({ id: usageEvents.id })).length;
+
+      report.deleted.usage_counters = (await tx
+        .delete(usageCounters)
+        .where(eq(usageCounters.userId, userId))
+        .returning({ id: usageCounters.id })).length;
+      // Alerts reference their watches, so they go first
+      report.deleted.price_alerts = (await tx
+        .delete(priceAlerts)
+        .where(eq(priceAlerts.userId, userId))
+        .returning({ id: priceAlerts.id })).length;
+      report.deleted.price_watches = (await tx
+        .delete(priceWatches)
+        .where(eq(priceWatches.userId, userId))
+        .returning({ id: priceWatches.id })).length;
+      report.deleted.notifications = (await tx
+        .delete(notifications)
+        .where(eq(notifications.userId, userId))
+        .returning({ id: notifications.id })).length;
+      report.deleted.notification_settings = (await tx
+        .delete(notificationSettings)
+        .where(eq(notificationSettings.userId, userId))
+        .returning({ userId: notificationSettings.userId })).length;
+      report.deleted.push_subscriptions = (await tx
+        .delete(pushSubscriptions)
+        .where(eq(pushSubscriptions.userId, userId))
+        .returning({ id: pushSubscriptions.id })).length;
+      // Items and events reference their bookings, so they go first
+      const bookingIds = (await tx
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(eq(bookings.userId, userId))).map(booking => booking.id);
+      if (bookingIds.length > 0) {
+        report.anonymized.trip_documents = (await tx
+          .update(tripDocuments)
+          .set({ bookingId: null })
+          .where(inArray(tripDocuments.bookingId, bookingIds))
+          .returning({ id: tripDocuments.id })).length;
+        report.deleted.booking_events = (await tx
+          .delete(bookingEvents)
+          .where(inArray(bookingEvents.bookingId, bookingIds))
+          .returning({ id: bookingEvents.id })).length;
+        report.deleted.booking_items = (await tx
+          .delete(bookingItems)
+          .where(inArray(bookingItems.bookingId, bookingIds))
+          .returning({ id: bookingItems.id })).length;
+      }
+      report.deleted.bookings = (await tx
+        .delete(bookings)
+        .where(eq(bookings.userId, userId))
+        .returning({ id: bookings.id })).length;
+      report.deleted.user_preferences = (await tx
+        .delete(userPreferences)
+        .where(eq(userPreferences.userId, userId))
+        .returning({ id: userPreferences.id })).length;
+      report.deleted.user_interactions = (await tx
+        .delete(userInteractions)
+        .where(eq(userInteractions.userId, userId))
+        .returning({ id: userInteractions.id })).length;
+      report.deleted.recommendation_feedback = (await tx
+        .delete(recommendationFeedback)
+        .where(eq(recommendationFeedback.userId, userId))
+        .returning({ id: recommendationFeedback.id })).length;
+      report.deleted.user_clusters = (await tx
+        .delete(userClusters)
+        .where(eq(userClusters.userId, userId))
+        .returning({ id: userClusters.id })).length;
+      report.deleted.personalized_recommendations = (await tx
+        .delete(personalizedRecommendations)
+        .where(eq(personalizedRecommendations.userId, userId))
+        .returning({ id: personalizedRecommendations.id })).length;
+
+      // Stored Clerk payloads carry the user's email and name, and Razorpay
+      // payloads the user ID in their entities' notes
+      const payload = jsonValue(webhooks.payload);
+      report.deleted.webhooks = (await tx
+        .delete(webhooks)
+        .where(or(
+          and(
+            eq(webhooks.source, 'clerk'),
+            ne(webhooks.eventType, 'user.deleted'),
+            sql`${payload}->'data'->>'id' = ${userId}`
+          ),
+          and(
+            eq(webhooks.source, 'razorpay'),
+            sql`jsonb_path_exists(${payload}, '$.payload.*.entity.notes.userId ? (@ == $id)', jsonb_build_object('id', ${userId}::text))`
+          )
+        ))
+        .returning({ id: webhooks.id })).length;
+
+      report.deleted.profiles = (await tx
+        .delete(profiles)
+        .where(eq(profiles.userId, userId))
+        .returning({ userId: profiles.userId })).length;
+      report.deleted.users = (await tx
+        .delete(users)
+        .where(eq(users.id, userId))
+        .returning({ id: users.id })).length;
+
+      return report;
+    });
+  });
+
+  if (result) {
+    await emitCacheEvent('user.deleted', { userId });
+    for (const tripId of deletedTripIds) {
+      await emitCacheEvent('trip.deleted', { tripId });
+    }
+    await deleteTripDocumentFiles(deletedTripIds);
+    await deleteDocumentFiles(deletedDocumentKeys);
+  }
+  return result;
+}
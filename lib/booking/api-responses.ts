@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { serializeBooking, type BookingActionResult, type BookingQuoteResult } from './bookings';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+/**
+ * Idempotency-Key header of a booking request, or an error response to
+ * return as-is when it is missing or malformed
+ */
+export function readIdempotencyKey(request: NextRequest): { key: string; response?: undefined } | { key?: undefined; response: NextResponse } {
+  const key = request.headers.get('Idempotency-Key')?.trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return {
+      response: NextResponse.json(
+        { error: 'Idempotency-Key header required', details: `Send a unique key of up to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters per booking request` },
+        { status: 400 }
+      ),
+    };
+  }
+  return { key };
+}
+
+/**
+ * HTTP response for the outcome of a booking operation. Null means the
+ * database is unavailable.
+ */
+export function bookingResultResponse(result: BookingActionResult | BookingQuoteResult | null): NextResponse {
+  if (!result) {
+    return NextResponse.json(
+      { error: 'Service temporarily unavailable', details: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  switch (result.status) {
+    case 'ok':
+    case 'created':
+      return NextResponse.json(
+        { success: true, booking: serializeBooking(result.booking), replayed: result.replayed },
+        { status: result.status === 'created' && !result.replayed ? 201 : 200 }
+      );
+    case 'not_found':
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    case 'invalid_transition':
+      return NextResponse.json(
+        { error: `Cannot ${result.action} this booking`, details: `Booking is ${result.from}` },
+        { status: 409 }
+      );
+    case 'expired':
+      return NextResponse.json(
+        { error: 'Booking has expired', details: 'Request a new quote', booking: serializeBooking(result.booking) },
+        { status: 410 }
+      );
+    case 'price_changed':
+      return NextResponse.json(
+        {
+          error: 'Price changed',
+          details: 'Confirm again to book at the new price',
+          previousTotal: result.previousTotal,
+          booking: serializeBooking(result.booking),
+        },
+        { status: 409 }
+      );
+    case 'unavailable':
+      return NextResponse.json(
+        { error: 'Some items are no longer available', items: result.items },
+        { status: 409 }
+      );
+    case 'unsupported_provider':
+      return NextResponse.json(
+        { error: 'Provider does not support booking', details: result.providerId },
+        { status: 422 }
+      );
+    case 'not_supported':
+      return NextResponse.json(
+        { error: `Provider does not support ${result.action}`, details: result.providerId },
+        { status: 422 }
+      );
+    case 'provider_error':
+      return NextResponse.json(
+        { error: 'Booking provider error', details: result.message, providerId: result.providerId },
+        { status: 502 }
+      );
+  }
+}
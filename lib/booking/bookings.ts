@@ -0,0 +1,850 @@
+// Bookings
+// Server-side booking lifecycle. A booking starts as a quote priced by the
+// providers, is held while the traveller checks out, and is confirmed only
+// after every item has been priced again; confirmed bookings can then be
+// modified or cancelled with the provider.
+//
+//   quoted → held → confirmed → modified (→ modified)
+//   quoted/held → expired when the quote or hold lapses
+//   any live booking → cancelled, or refunded once the refund completes
+//
+// Each transition is an UPDATE guarded by the status it starts from, so two
+// concurrent requests cannot both move a booking. Action requests carry an
+// idempotency key; its outcome is recorded in booking_events and a retry
+// with the same key returns the booking instead of acting again.
+
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { and, desc, eq, inArray, lt, or } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable, type DatabaseTransaction } from '@/lib/db';
+import {
+  bookings,
+  bookingItems,
+  bookingEvents,
+  type Booking,
+  type BookingItemRecord,
+} from '@/lib/database/schema';
+import { currencyConverter, type CurrencyCode } from '@/lib/currency/currency-converter';
+import {
+  BookingProviderError,
+  getBookingProvider,
+  type BookableKind,
+  type BookingItemChanges,
+  type BookingOfferRef,
+  type BookingPrice,
+  type BookingProviderAdapter,
+  type BookingTraveler,
+  type ProviderBookingItem,
+  type ProviderRequestContext,
+} from './providers';
+
+// How long a quote can be held or confirmed before it has to be requested again
+const QUOTE_TTL_MS = 30 * 60 * 1000;
+// Used when no provider on the booking supports holds
+const DEFAULT_HOLD_MS = 15 * 60 * 1000;
+// Price differences below this are rounding, not a price change
+const PRICE_TOLERANCE = 0.01;
+
+export type BookingStatus = Booking['status'];
+export type BookingAction = 'hold' | 'confirm' | 'modify' | 'cancel';
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  quoted: ['held', 'cancelled', 'expired'],
+  held: ['confirmed', 'cancelled', 'expired'],
+  confirmed: ['modified', 'cancelled', 'refunded'],
+  modified: ['modified', 'cancelled', 'refunded'],
+  cancelled: [],
+  refunded: [],
+  expired: [],
+};
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from].includes(to);
+}
+
+// Statuses with a voucher to show at check-in
+export const VOUCHER_STATUSES: BookingStatus[] = ['confirmed', 'modified'];
+
+// ==================== TYPES ====================
+
+export const bookingTravelerSchema: z.ZodType<BookingTraveler> = z.object({
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  type: z.enum(['adult', 'child', 'infant']).optional(),
+});
+
+export interface BookingDetails {
+  booking: Booking;
+  items: BookingItemRecord[];
+}
+
+export interface BookingQuoteInput {
+  idempotencyKey: string;
+  tripId?: string;
+  currency?: string; // Defaults to the currency of the first item
+  contactEmail?: string;
+  travelers: BookingTraveler[];
+  items: BookingOfferRef[];
+}
+
+export interface BookingModificationInput {
+  idempotencyKey: string;
+  itemId: string;
+  changes: BookingItemChanges;
+  travelers?: BookingTraveler[];
+}
+
+type BookingFailure =
+  | { status: 'unsupported_provider'; providerId: string }
+  | { status: 'not_supported'; providerId: string; action: BookingAction }
+  | { status: 'unavailable'; items: Array<{ offerId: string; reason: string }> }
+  | { status: 'provider_error'; providerId: string; message: string };
+
+export type BookingQuoteResult =
+  | { status: 'created'; booking: BookingDetails; replayed: boolean }
+  | BookingFailure;
+
+export type BookingActionResult =
+  | { status: 'ok'; booking: BookingDetails; replayed: boolean }
+  | { status: 'not_found' }
+  | { status: 'invalid_transition'; from: BookingStatus; action: BookingAction }
+  | { status: 'expired'; booking: BookingDetails }
+  | { status: 'price_changed'; booking: BookingDetails; previousTotal: number }
+  | BookingFailure;
+
+// ==================== HELPERS ====================
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function generateReference(): string {
+  return `TR${randomBytes(5).toString('hex').toUpperCase()}`;
+}
+
+async function convertPrice(price: BookingPrice, currency: string): Promise<number> {
+  if (price.currency === currency) {
+    return price.amount;
+  }
+  const { convertedAmount } = await currencyConverter.convert(
+    price.amount,
+    price.currency as CurrencyCode,
+    currency as CurrencyCode
+  );
+  return round(convertedAmount);
+}
+
+async function totalIn(prices: BookingPrice[], currency: string): Promise<number> {
+  const amounts = await Promise.all(prices.map(price => convertPrice(price, currency)));
+  return round(amounts.reduce((sum, amount) => sum + amount, 0));
+}
+
+function itemPrice(item: BookingItemRecord): BookingPrice {
+  return { amount: Number(item.amount), currency: item.currency };
+}
+
+// The stored price doubles as the listed price: it is what the traveller was last shown
+function toProviderItem(item: BookingItemRecord): ProviderBookingItem {
+  return {
+    providerId: item.providerId,
+    kind: item.kind as BookableKind,
+    offerId: item.offerId,
+    title: item.title,
+    listedPrice: itemPrice(item),
+    details: item.details as Record<string, unknown>,
+    price: itemPrice(item),
+    holdReference: item.holdReference,
+    providerReference: item.providerReference,
+  };
+}
+
+// Providers get a key per booking, action and request: a retried request
+// collapses into one provider call, while a new attempt after a failure
+// books afresh instead of being handed back a reservation that was cancelled
+// when the failed attempt was undone
+function providerContext(booking: Booking, action: BookingAction, idempotencyKey: string): ProviderRequestContext {
+  return {
+    bookingId: booking.id,
+    idempotencyKey: `${booking.id}:${action}:${idempotencyKey}`,
+    travelers: booking.travelers as BookingTraveler[],
+    contactEmail: booking.contactEmail,
+  };
+}
+
+function providerFailure(providerId: string, error: unknown): BookingFailure {
+  if (!(error instanceof BookingProviderError)) {
+    console.error(`Booking provider ${providerId} failed:`, error);
+  }
+  return {
+    status: 'provider_error',
+    providerId,
+    message: error instanceof BookingProviderError ? error.message : 'Provider is not responding',
+  };
+}
+
+function resolveAdapters(providerIds: string[]): Map<string, BookingProviderAdapter> | BookingFailure {
+  const adapters = new Map<string, BookingProviderAdapter>();
+  for (const providerId of providerIds) {
+    const adapter = getBookingProvider(providerId);
+    if (!adapter) {
+      return { status: 'unsupported_provider', providerId };
+    }
+    adapters.set(providerId, adapter);
+  }
+  return adapters;
+}
+
+async function loadBooking(userId: string, bookingId: string): Promise<BookingDetails | null> {
+  const result = await withDatabase(async (db) => {
+    const [booking] = await db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.id, bookingId), eq(bookings.userId, userId)))
+      .limit(1);
+    if (!booking) {
+      return null;
+    }
+    const items = await db
+      .select()
+      .from(bookingItems)
+      .where(eq(bookingItems.bookingId, booking.id))
+      .orderBy(bookingItems.createdAt);
+    return { booking, items };
+  });
+  return result || null;
+}
+
+async function hasRecordedEvent(bookingId: string, idempotencyKey: string): Promise<boolean> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ id: bookingEvents.id })
+      .from(bookingEvents)
+      .where(and(eq(bookingEvents.bookingId, bookingId), eq(bookingEvents.idempotencyKey, idempotencyKey)))
+      .limit(1);
+  });
+  return !!rows && rows.length > 0;
+}
+
+interface TransitionInput {
+  action: string;
+  to: BookingStatus;
+  idempotencyKey?: string;
+  booking?: Partial<typeof bookings.$inferInsert>;
+  items?: Array<{ id: string } & Partial<typeof bookingItems.$inferInsert>>;
+  details?: Record<string, unknown>;
+}
+
+async function applyItemUpdates(tx: DatabaseTransaction, items: TransitionInput['items'], now: Date): Promise<void> {
+  for (const { id, ...changes } of items || []) {
+    await tx.update(bookingItems).set({ ...changes, updatedAt: now }).where(eq(bookingItems.id, id));
+  }
+}
+
+/**
+ * Move a booking from its current status, updating items and recording the
+ * event in one transaction. Returns false when another request moved the
+ * booking first.
+ */
+async function transition(booking: Booking, input: TransitionInput): Promise<boolean> {
+  if (input.to !== booking.status && !canTransition(booking.status, input.to)) {
+    throw new Error(`Invalid booking transition ${booking.status} → ${input.to}`);
+  }
+
+  const result = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const updated = await tx
+        .update(bookings)
+        .set({ ...input.booking, status: input.to, updatedAt: now })
+        .where(and(eq(bookings.id, booking.id), eq(bookings.status, booking.status)))
+        .returning({ id: bookings.id });
+      if (updated.length === 0) {
+        return false;
+      }
+
+      await applyItemUpdates(tx, input.items, now);
+      await tx.insert(bookingEvents).values({
+        bookingId: booking.id,
+        action: input.action,
+        fromStatus: booking.status,
+        toStatus: input.to,
+        idempotencyKey: input.idempotencyKey,
+        details: input.details,
+      }).onConflictDoNothing();
+      return true;
+    });
+  });
+  return result === true;
+}
+
+async function reload(userId: string, bookingId: string): Promise<BookingDetails> {
+  const details = await loadBooking(userId, bookingId);
+  if (!details) {
+    throw new Error(`Booking ${bookingId} disappeared`);
+  }
+  return details;
+}
+
+async function releaseHolds(details: BookingDetails): Promise<void> {
+  await Promise.all(details.items.filter(item => item.holdReference).map(async (item) => {
+    try {
+      await getBookingProvider(item.providerId)?.release(toProviderItem(item));
+    } catch (error) {
+      console.error(`Failed to release hold ${item.holdReference}:`, error);
+    }
+  }));
+}
+
+async function expire(details: BookingDetails, reason: 'quote' | 'hold'): Promise<boolean> {
+  if (reason === 'hold') {
+    await releaseHolds(details);
+  }
+  return transition(details.booking, {
+    action: 'expire',
+    to: 'expired',
+    items: details.items.map(item => ({ id: item.id, status: 'expired' })),
+    details: { reason },
+  });
+}
+
+/**
+ * Shared preamble of every action: load the booking, replay a request
+ * already handled, and check the action is allowed from the current status
+ */
+async function prepareAction(
+  userId: string,
+  bookingId: string,
+  action: BookingAction,
+  to: BookingStatus,
+  idempotencyKey: string
+): Promise<{ details: BookingDetails } | { result: BookingActionResult }> {
+  const details = await loadBooking(userId, bookingId);
+  if (!details) {
+    return { result: { status: 'not_found' } };
+  }
+  if (await hasRecordedEvent(bookingId, idempotencyKey)) {
+    return { result: { status: 'ok', booking: details, replayed: true } };
+  }
+  if (!canTransition(details.booking.status, to)) {
+    return { result: { status: 'invalid_transition', from: details.booking.status, action } };
+  }
+  return { details };
+}
+
+// ==================== QUERIES ====================
+
+export async function listBookings(userId: string, options: { tripId?: string } = {}): Promise<BookingDetails[]> {
+  const result = await withDatabase(async (db) => {
+    const rows = await db
+      .select()
+      .from(bookings)
+      .where(options.tripId
+        ? and(eq(bookings.userId, userId), eq(bookings.tripId, options.tripId))
+        : eq(bookings.userId, userId))
+      .orderBy(desc(bookings.createdAt))
+      .limit(100);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .select()
+      .from(bookingItems)
+      .where(inArray(bookingItems.bookingId, rows.map(booking => booking.id)))
+      .orderBy(bookingItems.createdAt);
+    return rows.map(booking => ({ booking, items: items.filter(item => item.bookingId === booking.id) }));
+  });
+  return result || [];
+}
+
+export async function getBooking(userId: string, bookingId: string): Promise<BookingDetails | null> {
+  return loadBooking(userId, bookingId);
+}
+
+/**
+ * Booking as returned by the API: amounts as numbers, without the
+ * idempotency key of the request that created it
+ */
+export function serializeBooking({ booking, items }: BookingDetails) {
+  const { idempotencyKey: _idempotencyKey, ...rest } = booking;
+  return {
+    ...rest,
+    totalAmount: Number(booking.totalAmount),
+    refundedAmount: booking.refundedAmount === null ? null : Number(booking.refundedAmount),
+    voucherUrl: VOUCHER_STATUSES.includes(booking.status) ? `/api/bookings/${booking.id}/voucher` : null,
+    items: items.map(item => ({
+      ...item,
+      amount: Number(item.amount),
+      refundedAmount: item.refundedAmount === null ? null : Number(item.refundedAmount),
+    })),
+  };
+}
+
+// ==================== LIFECYCLE ====================
+
+/**
+ * Price the offers with their providers and store the quote. Offers are
+ * priced by the provider, never by the caller. Returns the existing quote
+ * when the idempotency key was used before, or null when the database is
+ * unavailable.
+ */
+export async function createBookingQuote(userId: string, input: BookingQuoteInput): Promise<BookingQuoteResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const findExisting = async () => {
+    const rows = await withDatabase(async (db) => {
+      return await db
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(and(eq(bookings.userId, userId), eq(bookings.idempotencyKey, input.idempotencyKey)))
+        .limit(1);
+    });
+    return rows && rows.length > 0 ? loadBooking(userId, rows[0].id) : null;
+  };
+
+  const existing = await findExisting();
+  if (existing) {
+    return { status: 'created', booking: existing, replayed: true };
+  }
+
+  const adapters = resolveAdapters(Array.from(new Set(input.items.map(item => item.providerId))));
+  if (!(adapters instanceof Map)) {
+    return adapters;
+  }
+
+  const quotes = [];
+  for (const offer of input.items) {
+    try {
+      quotes.push(await adapters.get(offer.providerId)!.quote(offer));
+    } catch (error) {
+      return providerFailure(offer.providerId, error);
+    }
+  }
+
+  const unavailable = quotes.flatMap((quote, index) =>
+    quote.available ? [] : [{ offerId: input.items[index].offerId, reason: quote.reason }]
+  );
+  const priced = quotes.flatMap(quote => quote.available ? [quote] : []);
+  if (unavailable.length > 0) {
+    return { status: 'unavailable', items: unavailable };
+  }
+
+  const currency = input.currency || priced[0].price.currency;
+  const totalAmount = await totalIn(priced.map(quote => quote.price), currency);
+
+  const created = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx
+        .insert(bookings)
+        .values({
+          userId,
+          tripId: input.tripId,
+          reference: generateReference(),
+          currency,
+          totalAmount: totalAmount.toFixed(2),
+          idempotencyKey: input.idempotencyKey,
+          contactEmail: input.contactEmail,
+          travelers: input.travelers,
+          quoteExpiresAt: new Date(Date.now() + QUOTE_TTL_MS),
+        })
+        .onConflictDoNothing({ target: [bookings.userId, bookings.idempotencyKey] })
+        .returning();
+      if (!booking) {
+        return null;
+      }
+
+      await tx.insert(bookingItems).values(input.items.map((offer, index) => ({
+        bookingId: booking.id,
+        providerId: offer.providerId,
+        kind: offer.kind,
+        offerId: offer.offerId,
+        title: priced[index].title.slice(0, 200),
+        amount: priced[index].price.amount.toFixed(2),
+        currency: priced[index].price.currency,
+        details: priced[index].details,
+      })));
+      await tx.insert(bookingEvents).values({
+        bookingId: booking.id,
+        action: 'quote',
+        toStatus: 'quoted',
+        idempotencyKey: input.idempotencyKey,
+      });
+      return booking.id;
+    });
+  });
+
+  // A concurrent request with the same key created it first
+  const booking = created ? await loadBooking(userId, created) : await findExisting();
+  if (!booking) {
+    throw new Error('Failed to store booking quote');
+  }
+  return { status: 'created', booking, replayed: !created };
+}
+
+/**
+ * Reserve every item with its provider while the traveller checks out.
+ * When one hold fails the others are released and the booking stays quoted.
+ */
+export async function holdBooking(userId: string, bookingId: string, idempotencyKey: string): Promise<BookingActionResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const prepared = await prepareAction(userId, bookingId, 'hold', 'held', idempotencyKey);
+  if ('result' in prepared) {
+    return prepared.result;
+  }
+  const { booking, items } = prepared.details;
+
+  if (booking.quoteExpiresAt.getTime() < Date.now()) {
+    await expire(prepared.details, 'quote');
+    return { status: 'expired', booking: await reload(userId, bookingId) };
+  }
+
+  const adapters = resolveAdapters(Array.from(new Set(items.map(item => item.providerId))));
+  if (!(adapters instanceof Map)) {
+    return adapters;
+  }
+
+  const context = providerContext(booking, 'hold', idempotencyKey);
+  const held: Array<{ item: BookingItemRecord; holdReference: string | null; expiresAt: Date; price: BookingPrice }> = [];
+  for (const item of items) {
+    const adapter = adapters.get(item.providerId)!;
+    if (!adapter.capabilities.hold) {
+      held.push({ item, holdReference: null, expiresAt: new Date(Date.now() + DEFAULT_HOLD_MS), price: itemPrice(item) });
+      continue;
+    }
+    try {
+      const hold = await adapter.hold(toProviderItem(item), context);
+      held.push({ item, ...hold });
+    } catch (error) {
+      await releaseHolds({ booking, items: held.map(entry => ({ ...entry.item, holdReference: entry.holdReference })) });
+      return providerFailure(item.providerId, error);
+    }
+  }
+
+  const moved = await transition(booking, {
+    action: 'hold',
+    to: 'held',
+    idempotencyKey,
+    booking: {
+      totalAmount: (await totalIn(held.map(entry => entry.price), booking.currency)).toFixed(2),
+      holdExpiresAt: new Date(Math.min(...held.map(entry => entry.expiresAt.getTime()))),
+    },
+    items: held.map(entry => ({
+      id: entry.item.id,
+      status: 'held',
+      holdReference: entry.holdReference,
+      amount: entry.price.amount.toFixed(2),
+      currency: entry.price.currency,
+    })),
+  });
+
+  if (!moved) {
+    // Another request moved the booking; its holds are the ones that count
+    await releaseHolds({ booking, items: held.map(entry => ({ ...entry.item, holdReference: entry.holdReference })) });
+  }
+  return { status: 'ok', booking: await reload(userId, bookingId), replayed: !moved };
+}
+
+/**
+ * Price every item again and confirm it with its provider. When the price
+ * moved since the traveller saw it, the new prices are stored and
+ * price_changed is returned instead; confirming again accepts them. When a
+ * provider declines, items already confirmed are cancelled and the booking
+ * stays held.
+ */
+export async function confirmBooking(userId: string, bookingId: string, idempotencyKey: string): Promise<BookingActionResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const prepared = await prepareAction(userId, bookingId, 'confirm', 'confirmed', idempotencyKey);
+  if ('result' in prepared) {
+    return prepared.result;
+  }
+  const { booking, items } = prepared.details;
+
+  if (!booking.holdExpiresAt || booking.holdExpiresAt.getTime() < Date.now()) {
+    await expire(prepared.details, 'hold');
+    return { status: 'expired', booking: await reload(userId, bookingId) };
+  }
+
+  const adapters = resolveAdapters(Array.from(new Set(items.map(item => item.providerId))));
+  if (!(adapters instanceof Map)) {
+    return adapters;
+  }
+
+  // Re-validate prices and availability before anything is booked
+  const repriced: Array<{ item: BookingItemRecord; price: BookingPrice }> = [];
+  const unavailable: Array<{ offerId: string; reason: string }> = [];
+  for (const item of items) {
+    try {
+      const quote = await adapters.get(item.providerId)!.quote(toProviderItem(item));
+      if (!quote.available) {
+        unavailable.push({ offerId: item.offerId, reason: quote.reason });
+      } else if (quote.price.currency !== item.currency || Math.abs(quote.price.amount - Number(item.amount)) >= PRICE_TOLERANCE) {
+        repriced.push({ item, price: quote.price });
+      }
+    } catch (error) {
+      return providerFailure(item.providerId, error);
+    }
+  }
+
+  if (unavailable.length > 0) {
+    return { status: 'unavailable', items: unavailable };
+  }
+
+  if (repriced.length > 0) {
+    const prices = items.map(item => repriced.find(entry => entry.item.id === item.id)?.price || itemPrice(item));
+    const moved = await transition(booking, {
+      action: 'reprice',
+      to: 'held',
+      booking: { totalAmount: (await totalIn(prices, booking.currency)).toFixed(2) },
+      items: repriced.map(({ item, price }) => ({ id: item.id, amount: price.amount.toFixed(2), currency: price.currency })),
+      details: { previousTotal: Number(booking.totalAmount) },
+    });
+    if (moved) {
+      return { status: 'price_changed', booking: await reload(userId, bookingId), previousTotal: Number(booking.totalAmount) };
+    }
+    return { status: 'ok', booking: await reload(userId, bookingId), replayed: true };
+  }
+
+  const context = providerContext(booking, 'confirm', idempotencyKey);
+  const confirmed: Array<{ item: BookingItemRecord; providerReference: string }> = [];
+  const undoConfirmations = () => Promise.all(confirmed.map(async (entry) => {
+    try {
+      await adapters.get(entry.item.providerId)!.cancel(
+        { ...toProviderItem(entry.item), providerReference: entry.providerReference },
+        providerContext(booking, 'cancel', idempotencyKey)
+      );
+    } catch (cancelError) {
+      console.error(`Failed to cancel ${entry.providerReference} after a failed confirmation:`, cancelError);
+    }
+  }));
+
+  for (const item of items) {
+    try {
+      const confirmation = await adapters.get(item.providerId)!.confirm(toProviderItem(item), context);
+      confirmed.push({ item, providerReference: confirmation.providerReference });
+    } catch (error) {
+      // Undo the items already booked so the traveller is not charged for part of the trip
+      await undoConfirmations();
+      return providerFailure(item.providerId, error);
+    }
+  }
+
+  const moved = await transition(booking, {
+    action: 'confirm',
+    to: 'confirmed',
+    idempotencyKey,
+    booking: { confirmedAt: new Date() },
+    items: confirmed.map(entry => ({
+      id: entry.item.id,
+      status: 'confirmed',
+      providerReference: entry.providerReference,
+      holdReference: null,
+    })),
+  });
+
+  if (!moved) {
+    // Another request confirmed the booking first; these reservations are extra
+    await undoConfirmations();
+  }
+  return { status: 'ok', booking: await reload(userId, bookingId), replayed: !moved };
+}
+
+/**
+ * Change one confirmed item, e.g. switch it to other dates, with the
+ * provider. The booking total follows the provider's new price.
+ */
+export async function modifyBooking(
+  userId: string,
+  bookingId: string,
+  input: BookingModificationInput
+): Promise<BookingActionResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const prepared = await prepareAction(userId, bookingId, 'modify', 'modified', input.idempotencyKey);
+  if ('result' in prepared) {
+    return prepared.result;
+  }
+  const { booking, items } = prepared.details;
+
+  const item = items.find(candidate => candidate.id === input.itemId);
+  if (!item || !['confirmed', 'modified'].includes(item.status)) {
+    return { status: 'not_found' };
+  }
+
+  const adapter = getBookingProvider(item.providerId);
+  if (!adapter) {
+    return { status: 'unsupported_provider', providerId: item.providerId };
+  }
+  if (!adapter.capabilities.modify) {
+    return { status: 'not_supported', providerId: item.providerId, action: 'modify' };
+  }
+
+  const travelers = input.travelers || booking.travelers as BookingTraveler[];
+  let modification;
+  try {
+    modification = await adapter.modify(
+      toProviderItem(item),
+      input.changes,
+      { ...providerContext(booking, 'modify', input.idempotencyKey), travelers }
+    );
+  } catch (error) {
+    return providerFailure(item.providerId, error);
+  }
+
+  const prices = items.map(candidate => candidate.id === item.id ? modification.price : itemPrice(candidate));
+  const moved = await transition(booking, {
+    action: 'modify',
+    to: 'modified',
+    idempotencyKey: input.idempotencyKey,
+    booking: {
+      totalAmount: (await totalIn(prices, booking.currency)).toFixed(2),
+      travelers,
+    },
+    items: [{
+      id: item.id,
+      status: 'modified',
+      offerId: modification.offerId,
+      providerReference: modification.providerReference,
+      amount: modification.price.amount.toFixed(2),
+      currency: modification.price.currency,
+      details: modification.details,
+    }],
+    details: { itemId: item.id, previousOfferId: item.offerId, previousAmount: Number(item.amount) },
+  });
+  return { status: 'ok', booking: await reload(userId, bookingId), replayed: !moved };
+}
+
+/**
+ * Cancel a booking at any live stage: quotes are dropped, holds released
+ * and confirmed items cancelled with their providers. The booking ends
+ * refunded when every refund has completed, cancelled otherwise. Items
+ * cancelled before a provider failure stay cancelled, so a retry only
+ * cancels the rest.
+ */
+export async function cancelBooking(
+  userId: string,
+  bookingId: string,
+  idempotencyKey: string,
+  reason?: string
+): Promise<BookingActionResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const prepared = await prepareAction(userId, bookingId, 'cancel', 'cancelled', idempotencyKey);
+  if ('result' in prepared) {
+    return prepared.result;
+  }
+  const { booking, items } = prepared.details;
+
+  if (booking.status === 'quoted' || booking.status === 'held') {
+    await releaseHolds(prepared.details);
+    const moved = await transition(booking, {
+      action: 'cancel',
+      to: 'cancelled',
+      idempotencyKey,
+      booking: { cancelledAt: new Date() },
+      items: items.map(item => ({ id: item.id, status: 'cancelled', holdReference: null })),
+      details: reason ? { reason } : undefined,
+    });
+    return { status: 'ok', booking: await reload(userId, bookingId), replayed: !moved };
+  }
+
+  const adapters = resolveAdapters(Array.from(new Set(items.map(item => item.providerId))));
+  if (!(adapters instanceof Map)) {
+    return adapters;
+  }
+  const unsupported = items.find(item => !adapters.get(item.providerId)!.capabilities.cancel);
+  if (unsupported) {
+    return { status: 'not_supported', providerId: unsupported.providerId, action: 'cancel' };
+  }
+
+  const context = providerContext(booking, 'cancel', idempotencyKey);
+  const cancelled: Array<{ id: string; status: BookingStatus; refundedAmount: string }> = [];
+  let failure: BookingFailure | null = null;
+  let allRefunded = true;
+
+  for (const item of items) {
+    if (item.status === 'cancelled' || item.status === 'refunded') {
+      allRefunded = allRefunded && item.status === 'refunded';
+      continue;
+    }
+    try {
+      const { refund, refundStatus } = await adapters.get(item.providerId)!.cancel(toProviderItem(item), context);
+      allRefunded = allRefunded && refundStatus === 'completed';
+      cancelled.push({
+        id: item.id,
+        status: refundStatus === 'completed' ? 'refunded' : 'cancelled',
+        refundedAmount: (await convertPrice(refund, item.currency)).toFixed(2),
+      });
+    } catch (error) {
+      failure = providerFailure(item.providerId, error);
+      break;
+    }
+  }
+
+  if (failure) {
+    if (cancelled.length > 0) {
+      await withDatabase(async (db) => db.transaction(async (tx) => applyItemUpdates(tx, cancelled, new Date())));
+    }
+    return failure;
+  }
+
+  const refunds = items.map(item => {
+    const entry = cancelled.find(candidate => candidate.id === item.id);
+    return { amount: Number(entry?.refundedAmount ?? item.refundedAmount ?? 0), currency: item.currency };
+  });
+  const refundedAmount = await totalIn(refunds, booking.currency);
+
+  const moved = await transition(booking, {
+    action: 'cancel',
+    to: allRefunded && refundedAmount > 0 ? 'refunded' : 'cancelled',
+    idempotencyKey,
+    booking: { cancelledAt: new Date(), refundedAmount: refundedAmount.toFixed(2) },
+    items: cancelled,
+    details: reason ? { reason } : undefined,
+  });
+  return { status: 'ok', booking: await reload(userId, bookingId), replayed: !moved };
+}
+
+// ==================== MAINTENANCE ====================
+
+/**
+ * Expire quotes and holds that lapsed without being confirmed, releasing
+ * any holds still open with the providers
+ */
+export async function expireBookings(options: { limit?: number } = {}): Promise<{ expired: number } | null> {
+  const now = new Date();
+  const lapsed = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(bookings)
+      .where(or(
+        and(eq(bookings.status, 'quoted'), lt(bookings.quoteExpiresAt, now)),
+        and(eq(bookings.status, 'held'), lt(bookings.holdExpiresAt, now))
+      ))
+      .limit(options.limit || 200);
+  });
+  if (!lapsed) {
+    return null;
+  }
+
+  let expired = 0;
+  for (const booking of lapsed) {
+    const details = await loadBooking(booking.userId, booking.id);
+    if (details && await expire(details, booking.status === 'held' ? 'hold' : 'quote')) {
+      expired++;
+    }
+  }
+  return { expired };
+}
@@ -0,0 +1,162 @@
+// Fake Booking Provider
+// In-memory provider for sandbox mode and tests. Prices come from the
+// listed price (or a seeded price) and can move by a configurable fraction
+// after the first quote; individual operations can be made to fail. Holds,
+// confirmations and cancellations are tracked so repeated calls behave
+// like a real provider's: the same idempotency key confirms only once.
+
+import { createSeededRandom } from '@/lib/services/sandbox';
+import {
+  BookingProviderError,
+  type BookingItemChanges,
+  type BookingOfferRef,
+  type BookingPrice,
+  type BookingProviderAdapter,
+  type ProviderBookingItem,
+  type ProviderCancellation,
+  type ProviderConfirmation,
+  type ProviderHold,
+  type ProviderModification,
+  type ProviderQuote,
+  type ProviderRequestContext,
+} from './providers';
+
+export type FakeProviderOperation = 'quote' | 'hold' | 'confirm' | 'modify' | 'cancel';
+
+export interface FakeBookingProviderOptions {
+  id: string;
+  holdMinutes?: number;
+  priceDrift?: number; // Fraction the price moves by after the first quote, e.g. 0.05
+  refundRate?: number; // Share of the price refunded on cancellation
+  soldOut?: string[]; // Offer IDs that are no longer available
+  failOn?: FakeProviderOperation[]; // Operations that throw BookingProviderError
+  capabilities?: Partial<BookingProviderAdapter['capabilities']>;
+}
+
+const DEFAULT_HOLD_MINUTES = 15;
+const DEFAULT_REFUND_RATE = 0.9;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export class FakeBookingProvider implements BookingProviderAdapter {
+  readonly id: string;
+  readonly capabilities: BookingProviderAdapter['capabilities'];
+  private options: FakeBookingProviderOptions;
+  private inventory = new Map<string, BookingPrice>(); // Price of each offer when first quoted
+  private quoteCounts = new Map<string, number>();
+  private holds = new Map<string, { offerId: string; expiresAt: Date }>();
+  private confirmations = new Map<string, string>(); // idempotency key + offer -> provider reference
+  private cancelled = new Set<string>();
+
+  constructor(options: FakeBookingProviderOptions) {
+    this.id = options.id;
+    this.options = options;
+    this.capabilities = { hold: true, modify: true, cancel: true, ...options.capabilities };
+  }
+
+  private check(operation: FakeProviderOperation): void {
+    if (this.options.failOn?.includes(operation)) {
+      throw new BookingProviderError(`Provider declined ${operation}`, this.id);
+    }
+  }
+
+  private priceFor(offer: BookingOfferRef, quoteCount: number): BookingPrice {
+    const base = this.inventory.get(offer.offerId) || offer.listedPrice || {
+      amount: createSeededRandom('booking', offer.kind, offer.offerId).int(40, 900),
+      currency: 'USD',
+    };
+    this.inventory.set(offer.offerId, base);
+    const drift = quoteCount > 0 ? this.options.priceDrift || 0 : 0;
+    return { amount: round(base.amount * (1 + drift)), currency: base.currency };
+  }
+
+  async quote(offer: BookingOfferRef): Promise<ProviderQuote> {
+    this.check('quote');
+    if (this.options.soldOut?.includes(offer.offerId)) {
+      return { available: false, reason: 'Sold out' };
+    }
+
+    const count = this.quoteCounts.get(offer.offerId) || 0;
+    this.quoteCounts.set(offer.offerId, count + 1);
+    return {
+      available: true,
+      price: this.priceFor(offer, count),
+      title: offer.title || `${offer.kind} ${offer.offerId}`,
+      details: { ...offer.details, provider: this.id },
+    };
+  }
+
+  async hold(item: ProviderBookingItem, context: ProviderRequestContext): Promise<ProviderHold> {
+    this.check('hold');
+    if (this.options.soldOut?.includes(item.offerId)) {
+      throw new BookingProviderError('Sold out', this.id);
+    }
+
+    const holdReference = `HOLD-${createSeededRandom(this.id, context.idempotencyKey, item.offerId).id('h')}`;
+    const expiresAt = new Date(Date.now() + (this.options.holdMinutes ?? DEFAULT_HOLD_MINUTES) * 60000);
+    this.holds.set(holdReference, { offerId: item.offerId, expiresAt });
+    return { holdReference, expiresAt, price: item.price };
+  }
+
+  async release(item: ProviderBookingItem): Promise<void> {
+    if (item.holdReference) {
+      this.holds.delete(item.holdReference);
+    }
+  }
+
+  async confirm(item: ProviderBookingItem, context: ProviderRequestContext): Promise<ProviderConfirmation> {
+    this.check('confirm');
+    const key = `${context.idempotencyKey}|${item.offerId}`;
+    const existing = this.confirmations.get(key);
+    if (existing) {
+      return { providerReference: existing };
+    }
+
+    if (this.capabilities.hold) {
+      const hold = item.holdReference ? this.holds.get(item.holdReference) : undefined;
+      if (!hold || hold.expiresAt.getTime() < Date.now()) {
+        throw new BookingProviderError('Hold has expired', this.id);
+      }
+      this.holds.delete(item.holdReference!);
+    }
+
+    const providerReference = createSeededRandom(this.id, key).id('PNR').toUpperCase();
+    this.confirmations.set(key, providerReference);
+    return { providerReference };
+  }
+
+  async modify(item: ProviderBookingItem, changes: BookingItemChanges, _context: ProviderRequestContext): Promise<ProviderModification> {
+    this.check('modify');
+    const offerId = changes.offerId || item.offerId;
+    if (this.options.soldOut?.includes(offerId)) {
+      throw new BookingProviderError('Sold out', this.id);
+    }
+
+    const price = offerId === item.offerId
+      ? item.price
+      : this.priceFor({ ...item, offerId, listedPrice: undefined }, 0);
+    return {
+      providerReference: item.providerReference || createSeededRandom(this.id, offerId).id('PNR').toUpperCase(),
+      offerId,
+      price,
+      details: { ...item.details, ...changes.details },
+    };
+  }
+
+  async cancel(item: ProviderBookingItem, _context: ProviderRequestContext): Promise<ProviderCancellation> {
+    this.check('cancel');
+    const reference = item.providerReference || item.offerId;
+    if (this.cancelled.has(reference)) {
+      return { refund: { amount: 0, currency: item.price.currency }, refundStatus: 'none' };
+    }
+
+    this.cancelled.add(reference);
+    const refund = round(item.price.amount * (this.options.refundRate ?? DEFAULT_REFUND_RATE));
+    return {
+      refund: { amount: refund, currency: item.price.currency },
+      refundStatus: refund > 0 ? 'completed' : 'none',
+    };
+  }
+}
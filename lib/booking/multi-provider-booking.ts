@@ -3,6 +3,11 @@
 // Multi-Provider Booking System - Phase 10 Advanced Features
 // Unified booking interface for flights, hotels, car rentals, and activities
 
+import { getCache } from '@/lib/cache/cache';
+import { defineCacheNamespace } from '@/lib/cache/namespaces';
+import type { serializeBooking } from './bookings';
+import type { BookingTraveler } from './providers';
+
 interface BookingProvider {
   id: string;
   name: string;
@@ -106,37 +111,30 @@ interface BookingResponse {
   };
 }
 
-interface BookingConfirmation {
-  bookingId: string;
-  providerId: string;
-  referenceNumber: string;
-  status: 'confirmed' | 'pending' | 'failed' | 'cancelled';
-  items: BookingItem[];
-  totalPrice: {
-    amount: number;
-    currency: string;
-    paid: number;
-    remaining: number;
-  };
-  travelerDetails: any;
-  paymentStatus: 'paid' | 'pending' | 'failed' | 'refunded';
-  confirmationEmail: string;
-  vouchers: {
-    type: 'pdf' | 'qr' | 'reference';
-    url: string;
-    validUntil: Date;
-  }[];
-  cancellationInfo: {
-    deadline: Date;
-    penalty: number;
-    refundAmount: number;
-  };
-}
+type SerializedBooking = ReturnType<typeof serializeBooking>;
+
+// Outcome of booking through the server-side booking API
+type BookingFlowResult =
+  | { status: 'confirmed'; booking: SerializedBooking }
+  | { status: 'cancelled'; booking: SerializedBooking }
+  | { status: 'price_changed'; booking: SerializedBooking; previousTotal: number }
+  | { status: 'failed'; step: 'quote' | 'hold' | 'confirm' | 'cancel'; error: string; booking?: SerializedBooking };
+
+const providerSearchCache = defineCacheNamespace<{ providerId: string; searchCriteria: any }, BookingItem[]>({
+  name: 'booking-provider-search',
+  ttl: 180, // 3 minutes
+});
+
+// Booking requests are tried this many times when the server gives no answer
+const BOOKING_REQUEST_ATTEMPTS = 2;
+const BOOKING_RETRY_DELAY_MS = 500;
+// Statuses that say nothing about whether the step was carried out
+const UNANSWERED_BOOKING_STATUSES = [429, 500, 503, 504];
 
 class MultiProviderBookingEngine {
   private providers: Map<string, BookingProvider> = new Map();
-  private cache = new Map<string, { data: any; expires: Date }>();
   private activeSearches = new Map<string, AbortController>();
+  private bookingStepKeys = new Map<string, string>();
 
   constructor() {
     this.initializeProviders();
@@ -334,12 +332,6 @@ class MultiProviderBookingEngine {
         recommendations,
       };
 
-      // Cache results
-      this.cache.set(requestId, {
-        data: response,
-        expires: new Date(Date.now() + 300000), // 5 minutes
-      });
-
       console.log(`🔍 Search completed: ${rankedResults.length} results in ${searchTime}ms`);
       return response;
 
@@ -359,42 +351,27 @@ class MultiProviderBookingEngine {
     signal: AbortSignal
   ): Promise<BookingItem[]> {
     try {
-      // Check cache first
-      const cacheKey = `${provider.id}_${JSON.stringify(item.searchCriteria)}`;
-      const cached = this.cache.get(cacheKey);
-      if (cached && cached.expires > new Date()) {
-        return cached.data;
-      }
-
-      let results: BookingItem[] = [];
-
-      switch (provider.id) {
-        case 'amadeus':
-          results = await this.searchAmadeus(provider, item, request, signal);
-          break;
-        case 'skyscanner':
-          results = await this.searchSkyscanner(provider, item, request, signal);
-          break;
-        case 'booking_com':
-          results = await this.searchBookingCom(provider, item, request, signal);
-          break;
-        case 'hertz':
-          results = await this.searchHertz(provider, item, request, signal);
-          break;
-        case 'viator':
-          results = await this.searchViator(provider, item, request, signal);
-          break;
-        default:
-          results = await this.searchGenericProvider(provider, item, request, signal);
-      }
-
-      // Cache results
-      this.cache.set(cacheKey, {
-        data: results,
-        expires: new Date(Date.now() + 180000), // 3 minutes
-      });
+      const { value } = await providerSearchCache.fetch(
+        { providerId: provider.id, searchCriteria: item.searchCriteria },
+        async () => {
+          switch (provider.id) {
+            case 'amadeus':
+              return this.searchAmadeus(provider, item, request, signal);
+            case 'skyscanner':
+              return this.searchSkyscanner(provider, item, request, signal);
+            case 'booking_com':
+              return this.searchBookingCom(provider, item, request, signal);
+            case 'hertz':
+              return this.searchHertz(provider, item, request, signal);
+            case 'viator':
+              return this.searchViator(provider, item, request, signal);
+            default:
+              return this.searchGenericProvider(provider, item, request, signal);
+          }
+        }
+      );
 
-      return results;
+      return value;
 
     } catch (error) {
       if (signal.aborted) {
@@ -855,61 +832,103 @@ class MultiProviderBookingEngine {
     };
   }
 
-  // Booking confirmation
-  async confirmBooking(
-    itemIds: string[],
-    travelerDetails: any,
-    paymentInfo: any
-  ): Promise<BookingConfirmation> {
-    try {
-      // Validate items are still available
-      const items: BookingItem[] = [];
-      for (const itemId of itemIds) {
-        // In a real implementation, re-check availability
-        // For now, simulate booking confirmation
-      }
+  // Booking runs server-side (lib/booking/bookings.ts): the items are quoted
+  // by their providers, held, re-priced and only then confirmed
+  async bookItems(
+    items: BookingItem[],
+    travelers: BookingTraveler[],
+    options: { tripId?: string; contactEmail?: string; currency?: string } = {}
+  ): Promise<BookingFlowResult> {
+    const quote = await this.postBookingRequest('/api/bookings', {
+      tripId: options.tripId,
+      contactEmail: options.contactEmail,
+      currency: options.currency,
+      travelers,
+      items: items.map(item => ({
+        providerId: item.providerId,
+        kind: item.type === 'car' ? 'car_rental' : item.type,
+        offerId: item.id,
+        title: item.title,
+        listedPrice: { amount: item.price.amount, currency: item.price.currency },
+      })),
+    });
+    if (!quote.ok) {
+      return { status: 'failed', step: 'quote', error: quote.error };
+    }
 
-      const bookingId = `booking_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const totalPrice = items.reduce((sum, item) => sum + item.price.amount, 0);
+    const hold = await this.postBookingRequest(`/api/bookings/${quote.booking.id}/hold`);
+    if (!hold.ok) {
+      return { status: 'failed', step: 'hold', error: hold.error, booking: quote.booking };
+    }
 
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    return this.confirmBooking(quote.booking.id);
+  }
 
-      const confirmation: BookingConfirmation = {
-        bookingId,
-        providerId: 'multi_provider',
-        referenceNumber: `TR${Math.floor(100000 + Math.random() * 900000)}`,
-        status: 'confirmed',
-        items,
-        totalPrice: {
-          amount: totalPrice,
-          currency: 'USD',
-          paid: totalPrice,
-          remaining: 0,
-        },
-        travelerDetails,
-        paymentStatus: 'paid',
-        confirmationEmail: travelerDetails.email,
-        vouchers: [
-          {
-            type: 'pdf',
-            url: `/api/booking/${bookingId}/voucher.pdf`,
-            validUntil: new Date(Date.now() + 31536000000), // 1 year
-          },
-        ],
-        cancellationInfo: {
-          deadline: new Date(Date.now() + 86400000), // 24 hours
-          penalty: totalPrice * 0.1,
-          refundAmount: totalPrice * 0.9,
-        },
-      };
+  // Confirm a held booking; after a price change, confirming again accepts the new price
+  async confirmBooking(bookingId: string): Promise<BookingFlowResult> {
+    const confirmation = await this.postBookingRequest(`/api/bookings/${bookingId}/confirm`);
+    if (confirmation.ok) {
+      return { status: 'confirmed', booking: confirmation.booking };
+    }
+    if (confirmation.data.previousTotal !== undefined && confirmation.data.booking) {
+      return { status: 'price_changed', booking: confirmation.data.booking, previousTotal: confirmation.data.previousTotal };
+    }
+    return { status: 'failed', step: 'confirm', error: confirmation.error, booking: confirmation.data.booking };
+  }
 
-      console.log(`✅ Booking confirmed: ${bookingId} for $${totalPrice}`);
-      return confirmation;
+  async cancelBooking(bookingId: string, reason?: string): Promise<BookingFlowResult> {
+    const cancellation = await this.postBookingRequest(`/api/bookings/${bookingId}/cancel`, { reason });
+    if (!cancellation.ok) {
+      return { status: 'failed', step: 'cancel', error: cancellation.error, booking: cancellation.data.booking };
+    }
+    return { status: 'cancelled', booking: cancellation.booking };
+  }
 
-    } catch (error) {
-      console.error('Booking confirmation failed:', error);
-      throw error;
+  /**
+   * POST one booking step. The step (URL and body) keeps its idempotency key
+   * until the server has answered it, so a retry, here or by calling the
+   * flow again, is deduplicated instead of booking twice. Once answered, the
+   * key is dropped and trying the step again is a new request.
+   */
+  private async postBookingRequest(url: string, body: Record<string, unknown> = {}): Promise<
+    | { ok: true; booking: SerializedBooking }
+    | { ok: false; error: string; data: { booking?: SerializedBooking; previousTotal?: number } }
+  > {
+    const step = `${url}|${JSON.stringify(body)}`;
+    const idempotencyKey = this.bookingStepKeys.get(step) || crypto.randomUUID();
+    this.bookingStepKeys.set(step, idempotencyKey);
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+          body: JSON.stringify(body),
+        });
+      } catch (error) {
+        if (attempt < BOOKING_REQUEST_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, BOOKING_RETRY_DELAY_MS * attempt));
+          continue;
+        }
+        console.error('Booking request failed:', error);
+        return { ok: false, error: 'Booking service is unreachable', data: {} };
+      }
+
+      const unanswered = UNANSWERED_BOOKING_STATUSES.includes(response.status);
+      if (unanswered && attempt < BOOKING_REQUEST_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, BOOKING_RETRY_DELAY_MS * attempt));
+        continue;
+      }
+      if (!unanswered) {
+        this.bookingStepKeys.delete(step);
+      }
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return { ok: false, error: data.details || data.error || 'Booking request failed', data };
+      }
+      return { ok: true, booking: data.booking };
     }
   }
 
@@ -936,7 +955,7 @@ class MultiProviderBookingEngine {
   getSystemHealth(): {
     status: 'healthy' | 'degraded' | 'down';
     providers: { id: string; status: string }[];
-    cacheSize: number;
+    cacheHitRate: number;
     activeSearches: number;
   } {
     return {
@@ -945,7 +964,7 @@ class MultiProviderBookingEngine {
         id: p.id,
         status: 'operational', // Would check actual status
       })),
-      cacheSize: this.cache.size,
+      cacheHitRate: getCache().getStats().namespaces[providerSearchCache.name]?.hitRate || 0,
       activeSearches: this.activeSearches.size,
     };
   }
@@ -960,5 +979,5 @@ export type {
   BookingItem, 
   BookingRequest, 
   BookingResponse, 
-  BookingConfirmation 
+  BookingFlowResult 
 };
\ No newline at end of file
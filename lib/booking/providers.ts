@@ -0,0 +1,125 @@
+// Booking Provider Adapters
+// Each provider we can book with sits behind a BookingProviderAdapter, so
+// the booking state machine never talks to a provider API directly. Quoting
+// doubles as price re-validation: the booking flow quotes every item again
+// before confirming it. registerBookingProvider adds or replaces an adapter
+// (e.g. a real provider client or a test double); in sandbox mode every
+// unregistered provider is served by the fake provider.
+
+import { isSandboxMode } from '@/lib/services/sandbox';
+import { FakeBookingProvider } from './fake-provider';
+
+export type BookableKind = 'flight' | 'hotel' | 'car_rental' | 'activity' | 'train' | 'bus';
+
+export interface BookingPrice {
+  amount: number;
+  currency: string;
+}
+
+export interface BookingTraveler {
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: string; // YYYY-MM-DD
+  type?: 'adult' | 'child' | 'infant';
+}
+
+// An offer as found by search, identified by the provider's offer ID
+export interface BookingOfferRef {
+  providerId: string;
+  kind: BookableKind;
+  offerId: string;
+  title?: string;
+  listedPrice?: BookingPrice; // Price shown in search results; providers decide the real price
+  details?: Record<string, unknown>;
+}
+
+// An item the provider already quoted, as stored on the booking
+export interface ProviderBookingItem extends BookingOfferRef {
+  price: BookingPrice;
+  holdReference: string | null;
+  providerReference: string | null;
+}
+
+export interface ProviderRequestContext {
+  bookingId: string;
+  idempotencyKey: string; // Passed on so providers can deduplicate retried calls
+  travelers: BookingTraveler[];
+  contactEmail: string | null;
+}
+
+export type ProviderQuote =
+  | { available: true; price: BookingPrice; title: string; details: Record<string, unknown> }
+  | { available: false; reason: string };
+
+export interface ProviderHold {
+  holdReference: string;
+  expiresAt: Date;
+  price: BookingPrice;
+}
+
+export interface ProviderConfirmation {
+  providerReference: string;
+}
+
+export interface BookingItemChanges {
+  offerId?: string; // Switch to another offer from the same provider, e.g. other dates
+  details?: Record<string, unknown>;
+}
+
+export interface ProviderModification {
+  providerReference: string;
+  offerId: string;
+  price: BookingPrice;
+  details: Record<string, unknown>;
+}
+
+export interface ProviderCancellation {
+  refund: BookingPrice;
+  refundStatus: 'completed' | 'pending' | 'none';
+}
+
+// Thrown by adapters when the provider declines a request (sold out, hold
+// lapsed, outside the change window); other errors are treated as outages
+export class BookingProviderError extends Error {
+  constructor(message: string, public readonly providerId: string) {
+    super(message);
+    this.name = 'BookingProviderError';
+  }
+}
+
+export interface BookingProviderAdapter {
+  readonly id: string;
+  readonly capabilities: {
+    hold: boolean; // Without holds, confirm books at the re-validated price
+    modify: boolean;
+    cancel: boolean;
+  };
+  quote(offer: BookingOfferRef): Promise<ProviderQuote>;
+  hold(item: ProviderBookingItem, context: ProviderRequestContext): Promise<ProviderHold>;
+  release(item: ProviderBookingItem): Promise<void>;
+  confirm(item: ProviderBookingItem, context: ProviderRequestContext): Promise<ProviderConfirmation>;
+  modify(item: ProviderBookingItem, changes: BookingItemChanges, context: ProviderRequestContext): Promise<ProviderModification>;
+  cancel(item: ProviderBookingItem, context: ProviderRequestContext): Promise<ProviderCancellation>;
+}
+
+const adapters = new Map<string, BookingProviderAdapter>();
+let sandboxProvider: FakeBookingProvider | null = null;
+
+export function registerBookingProvider(adapter: BookingProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Adapter for a provider, or null when we cannot book with it
+ */
+export function getBookingProvider(providerId: string): BookingProviderAdapter | null {
+  const adapter = adapters.get(providerId);
+  if (adapter) {
+    return adapter;
+  }
+  if (isSandboxMode()) {
+    sandboxProvider = sandboxProvider || new FakeBookingProvider({ id: 'sandbox' });
+    return sandboxProvider;
+  }
+  return null;
+}
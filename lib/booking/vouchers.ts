@@ -0,0 +1,60 @@
+// Booking Vouchers
+// Printable voucher for a confirmed booking, generated on request with the
+// trip export PDF pipeline rather than stored.
+
+import { TripExportService, type BookingVoucherData, type ExportResult } from '@/lib/services/trip-export';
+import { VOUCHER_STATUSES, type BookingDetails } from './bookings';
+import type { BookingTraveler } from './providers';
+
+// Offer details worth printing; the rest are provider internals
+const PRINTED_DETAILS: Record<string, string> = {
+  departure: 'Departure',
+  arrival: 'Arrival',
+  checkIn: 'Check-in',
+  checkOut: 'Check-out',
+  pickupDate: 'Pick-up',
+  dropoffDate: 'Drop-off',
+  date: 'Date',
+  address: 'Address',
+  seat: 'Seat',
+  cabinClass: 'Cabin',
+  roomType: 'Room',
+};
+
+export function buildVoucherData({ booking, items }: BookingDetails): BookingVoucherData {
+  return {
+    reference: booking.reference,
+    status: booking.status,
+    confirmedAt: booking.confirmedAt?.toISOString(),
+    contactEmail: booking.contactEmail || undefined,
+    travelers: (booking.travelers as BookingTraveler[]).map(traveler =>
+      `${traveler.firstName} ${traveler.lastName}${traveler.type && traveler.type !== 'adult' ? ` (${traveler.type})` : ''}`
+    ),
+    total: { amount: Number(booking.totalAmount), currency: booking.currency },
+    items: items.map(item => {
+      const details = item.details as Record<string, unknown>;
+      return {
+        title: item.title,
+        kind: item.kind,
+        providerId: item.providerId,
+        providerReference: item.providerReference,
+        status: item.status,
+        price: { amount: Number(item.amount), currency: item.currency },
+        details: Object.entries(PRINTED_DETAILS).flatMap(([key, label]): Array<[string, string]> => {
+          const value = details[key];
+          return typeof value === 'string' || typeof value === 'number' ? [[label, String(value)]] : [];
+        }),
+      };
+    }),
+  };
+}
+
+/**
+ * Voucher PDF for a booking, or null while the booking has no confirmed items
+ */
+export async function generateBookingVoucher(details: BookingDetails): Promise<ExportResult | null> {
+  if (!VOUCHER_STATUSES.includes(details.booking.status)) {
+    return null;
+  }
+  return new TripExportService().exportBookingVoucher(buildVoucherData(details));
+}
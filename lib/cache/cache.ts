@@ -0,0 +1,438 @@
+/**
+ * Cache
+ *
+ * The one cache behind search services and API routes:
+ * - L1: per-process LRU, always on
+ * - L2: pluggable shared store (Redis when configured)
+ * - Entries are fresh until `ttl`, then served stale for `staleTtl` while a
+ *   single background load refreshes them
+ * - Concurrent misses for the same key share one load
+ * - Tags on every entry, so a trip or a flight route can be invalidated
+ *   wherever it was cached
+ *
+ * Callers normally go through a namespace from ./namespaces rather than
+ * using keys directly.
+ */
+
+import type { Redis } from '@upstash/redis';
+import { getRedisClient } from '@/lib/redis';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  tags: string[];
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt: number;
+}
+
+export interface CacheWriteOptions {
+  ttl: number; // Seconds the entry is fresh
+  staleTtl?: number; // Seconds it may be served stale after that
+  tags?: string[];
+}
+
+export interface CacheFetchOptions<T> extends Omit<CacheWriteOptions, 'tags'> {
+  namespace: string; // Stats bucket
+  tags?: string[] | ((value: T) => string[]);
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Shared (L2) store. Implementations must drop entries after `staleUntil`
+ * and keep a tag index so invalidateTags works across instances.
+ */
+export interface CacheStore {
+  readonly name: 'memory' | 'redis';
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  // Delete every entry carrying any of `tags`; returns how many were removed
+  invalidateTags(tags: string[]): Promise<number>;
+  ping(): Promise<void>;
+}
+
+/**
+ * Process-local LRU store. Used as L1 in front of the shared store, and on
+ * its own when no shared store is configured.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+  private tagIndex = new Map<string, Set<string>>();
+
+  // `maxAgeMs` caps how long an entry lives here regardless of its TTL, so
+  // L1 copies of invalidated entries on other instances age out quickly
+  constructor(private maxEntries = 2000, private maxAgeMs = Infinity) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+
+    if (stored.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+
+    this.entries.set(key, {
+      entry,
+      expiresAt: Math.min(entry.staleUntil, Date.now() + this.maxAgeMs),
+    });
+    entry.tags.forEach(tag => {
+      if (!this.tagIndex.has(tag)) {
+        this.tagIndex.set(tag, new Set());
+      }
+      this.tagIndex.get(tag)!.add(key);
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.remove(oldest);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.remove(key));
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set<string>();
+    tags.forEach(tag => this.tagIndex.get(tag)?.forEach(key => keys.add(key)));
+    keys.forEach(key => this.remove(key));
+    return keys.size;
+  }
+
+  async ping(): Promise<void> {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private remove(key: string): void {
+    const stored = this.entries.get(key);
+    if (!stored) return;
+
+    this.entries.delete(key);
+    stored.entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    });
+  }
+}
+
+/**
+ * Redis store. Each tag is a set of the keys carrying it; tag sets expire
+ * with the longest-lived entry added to them.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly name = 'redis' as const;
+
+  constructor(private client: Redis, private prefix = 'cache') {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return await this.client.get<CacheEntry<T>>(this.entryKey(key));
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = Math.max(1, entry.staleUntil - Date.now());
+    const pipeline = this.client.multi();
+
+    pipeline.set(this.entryKey(key), entry, { px: ttlMs });
+    entry.tags.forEach(tag => {
+      pipeline.sadd(this.tagKey(tag), key);
+      pipeline.pexpire(this.tagKey(tag), ttlMs);
+    });
+
+    await pipeline.exec();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await this.client.del(...keys.map(key => this.entryKey(key)));
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    const keys = new Set<string>();
+    for (const tag of tags) {
+      const members = await this.client.smembers(this.tagKey(tag));
+      members.forEach(key => keys.add(key));
+    }
+
+    if (keys.size > 0) {
+      await this.delete(Array.from(keys));
+    }
+    if (tags.length > 0) {
+      await this.client.del(...tags.map(tag => this.tagKey(tag)));
+    }
+    return keys.size;
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}:tag:${tag}`;
+  }
+}
+
+export interface CacheNamespaceStats {
+  hits: number;
+  stale: number;
+  misses: number;
+  errors: number;
+  hitRate: number; // Percentage of reads served from cache (fresh or stale)
+}
+
+export interface CacheStats {
+  store: 'memory' | 'redis';
+  l1Entries: number;
+  inflight: number;
+  namespaces: Record<string, CacheNamespaceStats>;
+}
+
+/**
+ * Deterministic JSON for cache keys: object keys are sorted so equal
+ * queries built in a different order share an entry.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(',')}}`;
+}
+
+export class Cache {
+  private l1: MemoryCacheStore;
+  private inflight = new Map<string, Promise<CacheEntry>>();
+  private stats = new Map<string, Omit<CacheNamespaceStats, 'hitRate'>>();
+
+  constructor(private l2: CacheStore | null = null) {
+    // With a shared store, L1 only smooths bursts; the shared store is the
+    // source of truth for invalidation across instances
+    this.l1 = new MemoryCacheStore(2000, l2 ? 30 * 1000 : Infinity);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const local = await this.l1.get<T>(key);
+    if (local) return local;
+    if (!this.l2) return null;
+
+    try {
+      const shared = await this.l2.get<T>(key);
+      if (shared && shared.staleUntil > Date.now()) {
+        await this.l1.set(key, shared);
+        return shared;
+      }
+    } catch (error) {
+      console.error('Cache read error:', error);
+    }
+    return null;
+  }
+
+  async set<T>(key: string, value: T, options: CacheWriteOptions): Promise<CacheEntry<T>> {
+    const now = Date.now();
+    const freshUntil = now + options.ttl * 1000;
+    const entry: CacheEntry<T> = {
+      value,
+      tags: options.tags || [],
+      storedAt: now,
+      freshUntil,
+      staleUntil: freshUntil + (options.staleTtl || 0) * 1000,
+    };
+
+    await this.l1.set(key, entry);
+    if (this.l2) {
+      try {
+        await this.l2.set(key, entry);
+      } catch (error) {
+        console.error('Cache write error:', error);
+      }
+    }
+    return entry;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await this.l1.delete(keys);
+    if (this.l2) {
+      await this.l2.delete(keys);
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) return 0;
+
+    const local = await this.l1.invalidateTags(tags);
+    if (!this.l2) return local;
+
+    try {
+      return await this.l2.invalidateTags(tags);
+    } catch (error) {
+      console.error('Cache invalidation error:', error);
+      return local;
+    }
+  }
+
+  /**
+   * Read-through: return the cached value, or run `loader` and cache what it
+   * returns. Stale entries are returned immediately and refreshed in the
+   * background. Loader errors on a miss propagate to the caller.
+   */
+  async fetch<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheFetchOptions<T>
+  ): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const cached = await this.get<T>(key);
+
+    if (cached && cached.freshUntil > now) {
+      this.record(options.namespace, 'hits');
+      return { value: cached.value, status: 'hit', storedAt: cached.storedAt };
+    }
+
+    if (cached && cached.staleUntil > now) {
+      this.record(options.namespace, 'stale');
+      this.load(key, loader, options).catch(error => {
+        this.record(options.namespace, 'errors');
+        console.error(`Cache refresh failed for ${key}:`, error);
+      });
+      return { value: cached.value, status: 'stale', storedAt: cached.storedAt };
+    }
+
+    this.record(options.namespace, 'misses');
+    const entry = await this.load(key, loader, options);
+    return { value: entry.value, status: 'miss', storedAt: entry.storedAt };
+  }
+
+  getStats(): CacheStats {
+    const namespaces: Record<string, CacheNamespaceStats> = {};
+    this.stats.forEach((counts, namespace) => {
+      const reads = counts.hits + counts.stale + counts.misses;
+      namespaces[namespace] = {
+        ...counts,
+        hitRate: reads > 0 ? Math.round(((counts.hits + counts.stale) / reads) * 100) : 0,
+      };
+    });
+
+    return {
+      store: this.l2?.name || 'memory',
+      l1Entries: this.l1.size,
+      inflight: this.inflight.size,
+      namespaces,
+    };
+  }
+
+  async healthCheck(): Promise<{
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    latency: number;
+    details: Record<string, unknown>;
+  }> {
+    const startTime = Date.now();
+    const store = this.l2?.name || 'memory';
+
+    try {
+      await (this.l2 || this.l1).ping();
+      const latency = Date.now() - startTime;
+      return {
+        status: latency > 500 ? 'degraded' : 'healthy',
+        latency,
+        details: { store, l1Entries: this.l1.size },
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        latency: Date.now() - startTime,
+        details: { store, error: error instanceof Error ? error.message : 'Unknown error' },
+      };
+    }
+  }
+
+  // One load per key at a time; later callers join the pending one
+  private load<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheFetchOptions<T>
+  ): Promise<CacheEntry<T>> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<CacheEntry<T>>;
+    }
+
+    const promise = (async () => {
+      const value = await loader();
+      if (options.shouldCache && !options.shouldCache(value)) {
+        const now = Date.now();
+        return { value, tags: [], storedAt: now, freshUntil: now, staleUntil: now };
+      }
+      const tags = typeof options.tags === 'function' ? options.tags(value) : options.tags;
+      return this.set(key, value, { ...options, tags });
+    })();
+
+    this.inflight.set(key, promise);
+    const cleanup = () => {
+      this.inflight.delete(key);
+    };
+    promise.then(cleanup, cleanup);
+
+    return promise;
+  }
+
+  private record(namespace: string, field: 'hits' | 'stale' | 'misses' | 'errors'): void {
+    if (!this.stats.has(namespace)) {
+      this.stats.set(namespace, { hits: 0, stale: 0, misses: 0, errors: 0 });
+    }
+    this.stats.get(namespace)![field]++;
+  }
+}
+
+let sharedCache: Cache | null = null;
+
+/**
+ * Get the cache for this process. CACHE_STORE=memory disables the shared
+ * store; otherwise Redis is used when configured.
+ */
+export function getCache(): Cache {
+  if (!sharedCache) {
+    const redisClient = process.env.CACHE_STORE === 'memory' ? null : getRedisClient();
+    sharedCache = new Cache(redisClient ? new RedisCacheStore(redisClient) : null);
+  }
+  return sharedCache;
+}
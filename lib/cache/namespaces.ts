@@ -0,0 +1,122 @@
+/**
+ * Cache namespaces, tags and events
+ *
+ * A namespace gives one kind of cached data a typed key, its TTLs and the
+ * tags its entries carry. Namespaces are declared next to the code that owns
+ * the data (services, routes); tags and events are shared here so
+ * invalidation can reach every namespace that cached a trip, a route or a
+ * user.
+ */
+
+import { getCache, stableStringify, type CacheResult } from './cache';
+
+export interface CacheNamespaceConfig<K, V> {
+  name: string;
+  ttl: number; // Seconds an entry is fresh
+  staleTtl?: number; // Seconds it may be served stale while refreshing
+  key?: (key: K) => string; // Defaults to canonical JSON of the key
+  tags?: (key: K, value: V) => string[];
+  shouldCache?: (value: V) => boolean;
+}
+
+export class CacheNamespace<K, V> {
+  constructor(private config: CacheNamespaceConfig<K, V>) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  keyFor(key: K): string {
+    return `${this.config.name}:${this.config.key ? this.config.key(key) : stableStringify(key)}`;
+  }
+
+  async fetch(key: K, loader: () => Promise<V>): Promise<CacheResult<V>> {
+    return getCache().fetch(this.keyFor(key), loader, {
+      namespace: this.config.name,
+      ttl: this.config.ttl,
+      staleTtl: this.config.staleTtl,
+      tags: value => this.tagsFor(key, value),
+      shouldCache: this.config.shouldCache,
+    });
+  }
+
+  async get(key: K): Promise<V | null> {
+    const entry = await getCache().get<V>(this.keyFor(key));
+    return entry && entry.staleUntil > Date.now() ? entry.value : null;
+  }
+
+  async set(key: K, value: V): Promise<void> {
+    if (this.config.shouldCache && !this.config.shouldCache(value)) {
+      return;
+    }
+
+    await getCache().set(this.keyFor(key), value, {
+      ttl: this.config.ttl,
+      staleTtl: this.config.staleTtl,
+      tags: this.tagsFor(key, value),
+    });
+  }
+
+  async delete(key: K): Promise<void> {
+    await getCache().delete([this.keyFor(key)]);
+  }
+
+  // Drop every entry in this namespace
+  async clear(): Promise<number> {
+    return getCache().invalidateTags([CacheTags.namespace(this.config.name)]);
+  }
+
+  private tagsFor(key: K, value: V): string[] {
+    return [CacheTags.namespace(this.config.name), ...(this.config.tags?.(key, value) || [])];
+  }
+}
+
+export function defineCacheNamespace<K, V>(config: CacheNamespaceConfig<K, V>): CacheNamespace<K, V> {
+  return new CacheNamespace(config);
+}
+
+export const CacheTags = {
+  namespace: (name: string) => `ns:${name}`,
+  user: (userId: string) => `user:${userId}`,
+  trip: (tripId: string) => `trip:${tripId}`,
+  flightRoute: (from: string, to: string) => `flight-route:${from.toUpperCase()}-${to.toUpperCase()}`,
+  hotelLocation: (location: string) => `hotel-location:${location.trim().toLowerCase()}`,
+};
+
+// Domain events and the tags each one invalidates
+export interface CacheEventMap {
+  'trip.created': { tripId: string; userId: string };
+  'trip.updated': { tripId: string };
+  'trip.deleted': { tripId: string };
+  'trip.collaborators_changed': { tripId: string; userIds: string[] };
+  'user.deleted': { userId: string };
+  'flight.prices_changed': { from: string; to: string };
+  'hotel.availability_changed': { location: string };
+}
+
+export type CacheEvent = keyof CacheEventMap;
+
+const CACHE_EVENT_TAGS: { [E in CacheEvent]: (payload: CacheEventMap[E]) => string[] } = {
+  'trip.created': ({ tripId, userId }) => [CacheTags.trip(tripId), CacheTags.user(userId)],
+  'trip.updated': ({ tripId }) => [CacheTags.trip(tripId)],
+  'trip.deleted': ({ tripId }) => [CacheTags.trip(tripId)],
+  'trip.collaborators_changed': ({ tripId, userIds }) => [
+    CacheTags.trip(tripId),
+    ...userIds.map(CacheTags.user),
+  ],
+  'user.deleted': ({ userId }) => [CacheTags.user(userId)],
+  'flight.prices_changed': ({ from, to }) => [CacheTags.flightRoute(from, to)],
+  'hotel.availability_changed': ({ location }) => [CacheTags.hotelLocation(location)],
+};
+
+/**
+ * Invalidate everything cached under the tags an event maps to. Never
+ * throws: a failed invalidation only means entries live until their TTL.
+ */
+export async function emitCacheEvent<E extends CacheEvent>(event: E, payload: CacheEventMap[E]): Promise<void> {
+  try {
+    await getCache().invalidateTags(CACHE_EVENT_TAGS[event](payload));
+  } catch (error) {
+    console.error(`Failed to invalidate cache for ${event}:`, error);
+  }
+}
@@ -11,7 +11,7 @@
  * - User experience impact analysis and optimization
  */
 
-import { createCacheManager, CacheKeyType } from './redis-cache-manager';
+import { defineCacheNamespace } from './namespaces';
 
 // ==================== PERFORMANCE METRICS ====================
 
@@ -104,9 +104,15 @@ export const PERFORMANCE_THRESHOLDS: PerformanceThreshold[] = [
 
 // ==================== PERFORMANCE OPTIMIZER CLASS ====================
 
+// Metrics and alerts kept for the monitoring dashboard
+const performanceRecords = defineCacheNamespace<string, unknown>({
+  name: 'performance',
+  ttl: 86400, // 24 hours
+  key: key => key
+});
+
 export class PerformanceOptimizer {
   private metrics: Map<string, PerformanceMetric[]> = new Map();
-  private cache = createCacheManager();
   private optimizationRules: Map<PerformanceMetricType, () => Promise<void>> = new Map();
   private isMonitoring = false;
 
@@ -135,12 +141,7 @@ export class PerformanceOptimizer {
     );
 
     // Cache metric for persistence
-    await this.cache.set(
-      `perf_metric:${key}:${metric.timestamp}`,
-      metric,
-      'analytics_data',
-      { customTTL: 86400 } // 24 hours
-    );
+    await performanceRecords.set(`perf_metric:${key}:${metric.timestamp}`, metric);
 
     // Check thresholds and trigger optimizations
     await this.checkPerformanceThresholds(metric);
@@ -204,7 +205,7 @@ export class PerformanceOptimizer {
   }
 
   async recordCachePerformance(
-    cacheType: CacheKeyType,
+    cacheNamespace: string,
     hitRate: number,
     avgResponseTime: number
   ): Promise<void> {
@@ -214,15 +215,15 @@ export class PerformanceOptimizer {
         metricType: 'cache_hit_rate',
         value: hitRate,
         unit: '%',
-        metadata: { cacheType }
+        metadata: { cacheNamespace }
       }),
       this.recordMetric({
         timestamp: Date.now(),
         metricType: 'api_response_time',
         value: avgResponseTime,
         unit: 'ms',
-        context: { endpoint: `cache:${cacheType}` },
-        metadata: { cacheType }
+        context: { endpoint: `cache:${cacheNamespace}` },
+        metadata: { cacheNamespace }
       })
     ]);
   }
@@ -559,17 +560,12 @@ export class PerformanceOptimizer {
       }
 
       // Store alert for monitoring dashboard
-      await this.cache.set(
-        `perf_alert:${metric.metricType}:${metric.timestamp}`,
-        {
-          metric,
-          threshold,
-          level: isCritical ? 'critical' : 'warning',
-          timestamp: Date.now()
-        },
-        'analytics_data',
-        { customTTL: 86400 } // 24 hours
-      );
+      await performanceRecords.set(`perf_alert:${metric.metricType}:${metric.timestamp}`, {
+        metric,
+        threshold,
+        level: isCritical ? 'critical' : 'warning',
+        timestamp: Date.now()
+      });
     }
   }
 
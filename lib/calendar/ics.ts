@@ -0,0 +1,363 @@
+// iCalendar Writer
+// Renders VCALENDAR documents (RFC 5545) for calendar subscriptions. Timed
+// events are written in the destination's local time with a TZID, and every
+// zone used gets a VTIMEZONE built from the Intl time zone database so
+// clients that only trust the feed's own definitions still place events
+// correctly across daylight saving changes.
+
+import { Country } from 'country-state-city';
+
+const PRODUCT_ID = '-//Tripthesia//Trip Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * When an event happens. `local` times carry the wall-clock time in the
+ * zone in their UTC fields, the same convention trip export data uses.
+ */
+export type IcsTime =
+  | { type: 'date'; date: Date }
+  | { type: 'local'; wallClock: Date; timeZone: string }
+  | { type: 'utc'; instant: Date };
+
+export interface IcsAlarm {
+  trigger: string; // Duration before the start, e.g. -PT3H
+  description: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  start: IcsTime;
+  end?: IcsTime;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  categories?: string[];
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;
+  lastModified?: Date;
+  url?: string;
+  alarms?: IcsAlarm[];
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  timeZone?: string; // Default zone shown by clients that support X-WR-TIMEZONE
+  refreshMinutes?: number;
+  events: IcsEvent[];
+}
+
+// ==================== TEXT ====================
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space.
+ * Splits between characters, never inside a UTF-8 sequence.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const character of line) {
+    const size = encoder.encode(character).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+// Wall-clock fields of a date, without a zone designator
+function formatLocal(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+export function formatUtc(date: Date): string {
+  return `${formatLocal(date)}Z`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+function timeProperty(name: string, time: IcsTime): string {
+  switch (time.type) {
+    case 'date':
+      return `${name};VALUE=DATE:${formatDate(time.date)}`;
+    case 'local':
+      return `${name};TZID=${time.timeZone}:${formatLocal(time.wallClock)}`;
+    case 'utc':
+      return `${name}:${formatUtc(time.instant)}`;
+  }
+}
+
+// ==================== TIME ZONES ====================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC offset of a zone at an instant, in minutes east of Greenwich
+ */
+export function timeZoneOffset(timeZone: string, instant: Date): number {
+  const fields: Record<string, number> = {};
+  zoneFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  });
+  const wallClock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - truncated) / MINUTE_MS);
+}
+
+/**
+ * The instant a wall-clock time in a zone refers to. Times skipped by a
+ * daylight saving change resolve to the later offset.
+ */
+export function wallClockToInstant(wallClock: Date, timeZone: string): Date {
+  const guess = wallClock.getTime() - timeZoneOffset(timeZone, wallClock) * MINUTE_MS;
+  const offset = timeZoneOffset(timeZone, new Date(guess));
+  return new Date(wallClock.getTime() - offset * MINUTE_MS);
+}
+
+/**
+ * Time zone of a destination from its country, using the longitude to
+ * choose between the zones of countries that span several. Falls back to
+ * UTC when the country is unknown.
+ */
+export function resolveDestinationTimeZone(country: string | undefined, longitude?: number): string {
+  const name = country?.trim().toLowerCase();
+  const match = name
+    ? Country.getAllCountries().find(candidate =>
+        candidate.isoCode.toLowerCase() === name || candidate.name.toLowerCase() === name)
+    : undefined;
+  const zones = (match?.timezones || []).filter(zone => isValidTimeZone(zone.zoneName));
+
+  if (zones.length === 0) {
+    return 'UTC';
+  }
+  if (zones.length === 1 || longitude === undefined || !Number.isFinite(longitude)) {
+    return zones[0].zoneName;
+  }
+
+  // Solar offset of the longitude, in seconds like gmtOffset
+  const solarOffset = (longitude / 15) * 3600;
+  return zones.reduce((best, zone) =>
+    Math.abs(zone.gmtOffset - solarOffset) < Math.abs(best.gmtOffset - solarOffset) ? zone : best
+  ).zoneName;
+}
+
+interface OffsetTransition {
+  at: Date;
+  from: number;
+  to: number;
+}
+
+// Offset changes between two instants, located to the minute
+function findTransitions(timeZone: string, from: Date, to: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let previous = from.getTime();
+  let previousOffset = timeZoneOffset(timeZone, from);
+
+  for (let time = previous + DAY_MS; previous < to.getTime(); time += DAY_MS) {
+    const offset = timeZoneOffset(timeZone, new Date(time));
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (timeZoneOffset(timeZone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+  return transitions;
+}
+
+/**
+ * VTIMEZONE lines for a zone covering the given range. Each offset in
+ * effect gets an observance starting at its transition; the larger offsets
+ * of the year are daylight time.
+ */
+export function buildTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const year = from.getUTCFullYear();
+  const standardOffset = Math.min(
+    timeZoneOffset(timeZone, new Date(Date.UTC(year, 0, 1))),
+    timeZoneOffset(timeZone, new Date(Date.UTC(year, 6, 1)))
+  );
+  const initialOffset = timeZoneOffset(timeZone, from);
+
+  const observance = (start: Date, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      // Observance starts are in the local time in effect before the change
+      `DTSTART:${formatLocal(new Date(start.getTime() + offsetFrom * MINUTE_MS))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    `X-LIC-LOCATION:${timeZone}`,
+    ...observance(from, initialOffset, initialOffset),
+    ...findTransitions(timeZone, from, to).flatMap(transition =>
+      observance(transition.at, transition.from, transition.to)
+    ),
+    'END:VTIMEZONE',
+  ];
+}
+
+// ==================== CALENDAR ====================
+
+function eventLines(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    timeProperty('DTSTART', event.start),
+  ];
+  if (event.end) lines.push(timeProperty('DTEND', event.end));
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.lat.toFixed(6)};${event.geo.lng.toFixed(6)}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  // All-day events stay free so they do not block the whole day
+  lines.push(`TRANSP:${event.start.type === 'date' ? 'TRANSPARENT' : 'OPAQUE'}`);
+
+  // Reminders for cancelled events would only be noise
+  if (event.status !== 'CANCELLED') {
+    (event.alarms || []).forEach(alarm => {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeIcsText(alarm.description)}`,
+        `TRIGGER:${alarm.trigger}`,
+        'END:VALARM'
+      );
+    });
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Range each zone has to cover, in whole days with a day of margin for the offsets
+function zoneRanges(events: IcsEvent[]): Map<string, { from: Date; to: Date }> {
+  const ranges = new Map<string, { from: Date; to: Date }>();
+  events.flatMap(event => [event.start, event.end]).forEach(time => {
+    if (time?.type !== 'local') {
+      return;
+    }
+    const from = new Date(Math.floor(time.wallClock.getTime() / DAY_MS) * DAY_MS - DAY_MS);
+    const to = new Date(time.wallClock.getTime() + DAY_MS);
+    const range = ranges.get(time.timeZone);
+    ranges.set(time.timeZone, range
+      ? { from: from < range.from ? from : range.from, to: to > range.to ? to : range.to }
+      : { from, to });
+  });
+  return ranges;
+}
+
+/**
+ * Render a calendar as iCalendar text with CRLF line endings
+ */
+export function renderCalendar(calendar: IcsCalendar, stamp: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    `NAME:${escapeIcsText(calendar.name)}`,
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeIcsText(calendar.description)}`);
+  if (calendar.timeZone) lines.push(`X-WR-TIMEZONE:${calendar.timeZone}`);
+  if (calendar.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`
+    );
+  }
+
+  zoneRanges(calendar.events).forEach((range, timeZone) => {
+    lines.push(...buildTimeZone(timeZone, range.from, range.to));
+  });
+  calendar.events.forEach(event => {
+    lines.push(...eventLines(event, stamp));
+  });
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
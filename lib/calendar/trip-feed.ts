@@ -0,0 +1,435 @@
+// Trip Calendar Feeds
+// Secret subscription (webcal) URL per member of a trip. The feed is
+// rendered on every request from the latest itinerary version and the
+// member's bookings on the trip, so calendar clients pick up edits on their
+// next refresh. UIDs derive from activity and booking item IDs, which stay
+// the same across versions: clients update events instead of duplicating
+// them.
+
+import { createHash, randomBytes } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { calendarFeeds, trips, type BookingItemRecord, type CalendarFeed, type Trip } from '@/lib/database/schema';
+import { resolveTripRole } from '@/lib/auth/trip-access';
+import { listBookings, type BookingDetails, type BookingStatus } from '@/lib/booking/bookings';
+import { getItineraryVersion } from '@/lib/planning/itinerary-versions';
+import { buildTripExportData } from '@/lib/services/trip-export-data';
+import type { ActivityInfo } from '@/lib/services/trip-export';
+import {
+  renderCalendar,
+  resolveDestinationTimeZone,
+  wallClockToInstant,
+  type IcsAlarm,
+  type IcsEvent,
+  type IcsTime,
+} from './ics';
+
+export const CALENDAR_REFRESH_MINUTES = 60;
+
+const UID_DOMAIN = 'tripthesia.com';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Reminder for events without a time: 09:00 the day before
+const ALL_DAY_ALARM_TRIGGER = '-PT15H';
+
+// Items that never got past a quote are not on the traveller's calendar
+const ITEM_EVENT_STATUS: Partial<Record<BookingStatus, IcsEvent['status']>> = {
+  held: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  modified: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  refunded: 'CANCELLED',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  flight: 'Flight',
+  train: 'Train',
+  bus: 'Bus',
+  activity: 'Activity',
+};
+
+interface StoredDestination {
+  city?: string;
+  country?: string;
+  lat?: number;
+  lng?: number;
+}
+
+interface DestinationZone {
+  timeZone: string;
+  lat?: number;
+  lng?: number;
+}
+
+interface FeedContext {
+  trip: Trip;
+  zones: DestinationZone[];
+}
+
+export interface RenderedCalendar {
+  body: string;
+  lastModified: Date;
+}
+
+// ==================== FEED MANAGEMENT ====================
+
+/**
+ * Generate a URL-safe feed token (32 characters)
+ */
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * The feed URL over https and as webcal://, which calendar apps open as a
+ * subscription
+ */
+export function getCalendarFeedUrls(token: string): { url: string; webcalUrl: string } {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const url = `${appUrl}/api/calendar/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+}
+
+export async function getCalendarFeed(tripId: string, userId: string): Promise<CalendarFeed | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.tripId, tripId), eq(calendarFeeds.userId, userId)))
+      .limit(1);
+  });
+  return rows?.[0] || null;
+}
+
+/**
+ * Create the member's feed, or rotate its token so the old URL stops working
+ */
+export async function createCalendarFeed(tripId: string, userId: string): Promise<CalendarFeed | null> {
+  const token = generateFeedToken();
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .insert(calendarFeeds)
+      .values({ tripId, userId, token })
+      .onConflictDoUpdate({
+        target: [calendarFeeds.tripId, calendarFeeds.userId],
+        set: { token, lastAccessedAt: null, updatedAt: new Date() },
+      })
+      .returning();
+  });
+  return rows?.[0] || null;
+}
+
+export async function revokeCalendarFeed(tripId: string, userId: string): Promise<boolean | null> {
+  const deleted = await withDatabase(async (db) => {
+    return await db
+      .delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.tripId, tripId), eq(calendarFeeds.userId, userId)))
+      .returning({ id: calendarFeeds.id });
+  });
+  return deleted ? deleted.length > 0 : null;
+}
+
+/**
+ * Resolve a feed token. Members removed from the trip lose their feed
+ * along with their access.
+ */
+export async function resolveCalendarFeed(token: string): Promise<CalendarFeed | null> {
+  if (!isDatabaseAvailable() || token.length > 64) {
+    return null;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.token, token))
+      .limit(1);
+  });
+  const feed = rows?.[0];
+  if (!feed) {
+    return null;
+  }
+
+  const role = await resolveTripRole(feed.tripId, feed.userId);
+  return role ? feed : null;
+}
+
+export async function touchCalendarFeed(feedId: string): Promise<void> {
+  await withDatabase(async (db) => {
+    await db
+      .update(calendarFeeds)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(calendarFeeds.id, feedId));
+  });
+}
+
+// ==================== TIME ZONES ====================
+
+function destinationZones(trip: Trip): DestinationZone[] {
+  const destinations = (Array.isArray(trip.destinations) ? trip.destinations : []) as StoredDestination[];
+  const zones = destinations.map(destination => ({
+    timeZone: resolveDestinationTimeZone(destination.country, destination.lng),
+    lat: destination.lat,
+    lng: destination.lng,
+  }));
+  return zones.length > 0 ? zones : [{ timeZone: 'UTC' }];
+}
+
+// Without better information the trip's days are split evenly between its destinations
+function zoneForDate({ trip, zones }: FeedContext, wallClock: Date): string {
+  const start = Date.UTC(trip.startDate.getUTCFullYear(), trip.startDate.getUTCMonth(), trip.startDate.getUTCDate());
+  const days = Math.max(1, Math.round((trip.endDate.getTime() - trip.startDate.getTime()) / DAY_MS));
+  const day = Math.floor((wallClock.getTime() - start) / DAY_MS);
+  const index = Math.floor((day * zones.length) / days);
+  return zones[Math.min(zones.length - 1, Math.max(0, index))].timeZone;
+}
+
+// Activities with coordinates belong to the nearest destination
+function zoneForActivity(context: FeedContext, activity: ActivityInfo, wallClock: Date): string {
+  const [lng, lat] = activity.location.coordinates;
+  const located = context.zones.filter(zone => zone.lat !== undefined && zone.lng !== undefined);
+  if ((lng === 0 && lat === 0) || located.length === 0) {
+    return zoneForDate(context, wallClock);
+  }
+
+  const distance = (zone: DestinationZone) => Math.hypot((zone.lat ?? 0) - lat, (zone.lng ?? 0) - lng);
+  return located.reduce((nearest, zone) => distance(zone) < distance(nearest) ? zone : nearest).timeZone;
+}
+
+/**
+ * Provider dates are either a day ("2026-11-02"), a local time at the
+ * destination ("2026-11-02T08:30") or an exact time with an offset
+ */
+function parseProviderTime(context: FeedContext, value: unknown): IcsTime | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const raw = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    const date = new Date(`${raw}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) ? null : { type: 'date', date };
+  }
+
+  const local = raw.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})(:\d{2})?$/);
+  if (local) {
+    const wallClock = new Date(`${local[1]}T${local[2]}${local[3] || ':00'}Z`);
+    return Number.isNaN(wallClock.getTime())
+      ? null
+      : { type: 'local', wallClock, timeZone: zoneForDate(context, wallClock) };
+  }
+
+  const instant = new Date(raw);
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(raw) && !Number.isNaN(instant.getTime())
+    ? { type: 'utc', instant }
+    : null;
+}
+
+function addMinutes(time: IcsTime, minutes: number): IcsTime {
+  switch (time.type) {
+    case 'date':
+      return { type: 'date', date: new Date(time.date.getTime() + Math.max(1, Math.ceil(minutes / 1440)) * DAY_MS) };
+    case 'local':
+      return { ...time, wallClock: new Date(time.wallClock.getTime() + minutes * MINUTE_MS) };
+    case 'utc':
+      return { type: 'utc', instant: new Date(time.instant.getTime() + minutes * MINUTE_MS) };
+  }
+}
+
+function toInstant(time: IcsTime): Date {
+  switch (time.type) {
+    case 'date':
+      return time.date;
+    case 'local':
+      return wallClockToInstant(time.wallClock, time.timeZone);
+    case 'utc':
+      return time.instant;
+  }
+}
+
+// An end that is missing or not after the start falls back to a default length
+function eventEnd(start: IcsTime, end: IcsTime | null, defaultMinutes: number): IcsTime {
+  return end && toInstant(end) > toInstant(start) ? end : addMinutes(start, defaultMinutes);
+}
+
+// ==================== EVENTS ====================
+
+function uid(prefix: string, id: string): string {
+  return `${prefix}-${id}@${UID_DOMAIN}`;
+}
+
+// Activity IDs come from user edits, so they are hashed into a safe UID
+function activityUid(tripId: string, activityId: string): string {
+  return uid('activity', createHash('sha256').update(`${tripId}:${activityId}`).digest('hex').slice(0, 32));
+}
+
+function overviewEvent({ trip }: FeedContext): IcsEvent {
+  const destinations = (Array.isArray(trip.destinations) ? trip.destinations : []) as StoredDestination[];
+  const day = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return {
+    uid: uid('trip', trip.id),
+    start: { type: 'date', date: day(trip.startDate) },
+    // DTEND of an all-day event is exclusive
+    end: { type: 'date', date: new Date(day(trip.endDate).getTime() + DAY_MS) },
+    summary: trip.title,
+    location: destinations.map(destination => destination.city || destination.country).filter(Boolean).join(' → ') || undefined,
+    lastModified: trip.updatedAt,
+  };
+}
+
+function activityEvent(context: FeedContext, activity: ActivityInfo, version: number, lastModified: Date): IcsEvent {
+  const wallClock = new Date(activity.dateTime);
+  const timeZone = zoneForActivity(context, activity, wallClock);
+  const [lng, lat] = activity.location.coordinates;
+  return {
+    uid: activityUid(context.trip.id, activity.id),
+    start: { type: 'local', wallClock, timeZone },
+    end: { type: 'local', wallClock: new Date(wallClock.getTime() + activity.duration * MINUTE_MS), timeZone },
+    summary: activity.name,
+    description: [
+      activity.description,
+      activity.notes,
+      activity.bookingReference && `Booking: ${activity.bookingReference}`,
+    ].filter(Boolean).join('\n') || undefined,
+    location: activity.location.address,
+    geo: lng === 0 && lat === 0 ? undefined : { lat, lng },
+    categories: [activity.category],
+    sequence: version,
+    lastModified,
+  };
+}
+
+function alarms(start: IcsTime, reminders: IcsAlarm[]): IcsAlarm[] {
+  if (start.type !== 'date') {
+    return reminders;
+  }
+  return reminders.length > 0 ? [{ trigger: ALL_DAY_ALARM_TRIGGER, description: reminders[0].description }] : [];
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Events for the bookable items of a booking: departures for transport,
+ * check-in and check-out for hotels, pick-up and drop-off for cars. Items
+ * whose offer carries no date have nothing to put on the calendar.
+ */
+function bookingItemEvents(context: FeedContext, { booking }: BookingDetails, item: BookingItemRecord): IcsEvent[] {
+  const status = ITEM_EVENT_STATUS[item.status];
+  // A quote cancelled before it was confirmed was never on the calendar
+  if (!status || (status === 'CANCELLED' && !booking.confirmedAt)) {
+    return [];
+  }
+
+  const details = item.details as Record<string, unknown>;
+  const base = {
+    status,
+    lastModified: item.updatedAt,
+    location: text(details.address),
+    description: [
+      `Booking ${booking.reference}`,
+      item.providerReference && `Confirmation: ${item.providerReference}`,
+      text(details.seat) && `Seat: ${text(details.seat)}`,
+      text(details.roomType) && `Room: ${text(details.roomType)}`,
+    ].filter(Boolean).join('\n'),
+  };
+
+  // One event per moment of a stay or rental, each with its own UID
+  const moments = (entries: Array<{ key: string; suffix: string; label: string; reminder: string }>): IcsEvent[] => {
+    return entries.flatMap((entry): IcsEvent[] => {
+      const start = parseProviderTime(context, details[entry.key]);
+      if (!start) {
+        return [];
+      }
+      return [{
+        ...base,
+        uid: uid('booking', `${item.id}-${entry.suffix}`),
+        start,
+        end: addMinutes(start, 60),
+        summary: `${entry.label}: ${item.title}`,
+        alarms: alarms(start, [{ trigger: entry.reminder, description: `${entry.label}: ${item.title}` }]),
+      }];
+    });
+  };
+
+  switch (item.kind) {
+    case 'hotel':
+      return moments([
+        { key: 'checkIn', suffix: 'checkin', label: 'Check-in', reminder: '-PT2H' },
+        { key: 'checkOut', suffix: 'checkout', label: 'Check-out', reminder: '-PT1H' },
+      ]);
+    case 'car_rental':
+      return moments([
+        { key: 'pickupDate', suffix: 'pickup', label: 'Car pick-up', reminder: '-PT1H' },
+        { key: 'dropoffDate', suffix: 'dropoff', label: 'Car drop-off', reminder: '-PT1H' },
+      ]);
+  }
+
+  const start = parseProviderTime(context, details.departure ?? details.date);
+  if (!start) {
+    return [];
+  }
+  const label = KIND_LABELS[item.kind] || 'Booking';
+  const reminders: IcsAlarm[] = item.kind === 'flight'
+    ? [
+        { trigger: '-P1D', description: `Online check-in opens: ${item.title}` },
+        { trigger: '-PT3H', description: `Flight departs in 3 hours: ${item.title}` },
+      ]
+    : [{ trigger: '-PT1H', description: `${label} starts in 1 hour: ${item.title}` }];
+
+  return [{
+    ...base,
+    uid: uid('booking', item.id),
+    start,
+    end: eventEnd(start, parseProviderTime(context, details.arrival), 60),
+    summary: `${label}: ${item.title}`,
+    alarms: alarms(start, reminders),
+  }];
+}
+
+// ==================== RENDERING ====================
+
+/**
+ * Render a feed as iCalendar text. Returns null when the trip no longer
+ * exists or the database is unavailable.
+ */
+export async function renderTripCalendar(feed: CalendarFeed): Promise<RenderedCalendar | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db.select().from(trips).where(eq(trips.id, feed.tripId)).limit(1);
+  });
+  if (!rows || rows.length === 0) {
+    return null;
+  }
+
+  const [trip] = rows;
+  const itinerary = await getItineraryVersion(trip.id);
+  const bookingDetails = await listBookings(feed.userId, { tripId: trip.id });
+  const context: FeedContext = { trip, zones: destinationZones(trip) };
+
+  const itineraryModified = itinerary?.createdAt || trip.updatedAt;
+  const tripData = buildTripExportData(trip, itinerary?.data ?? null);
+  const events = [
+    overviewEvent(context),
+    ...tripData.activities.map(activity => activityEvent(context, activity, itinerary?.version ?? 0, itineraryModified)),
+    ...bookingDetails.flatMap(details => details.items.flatMap(item => bookingItemEvents(context, details, item))),
+  ];
+
+  // Stamped with the last change rather than the request time, so unchanged feeds render identically
+  const lastModified = new Date(Math.max(
+    trip.updatedAt.getTime(),
+    itineraryModified.getTime(),
+    ...bookingDetails.flatMap(details => details.items.map(item => item.updatedAt.getTime())),
+  ));
+
+  return {
+    body: renderCalendar({
+      name: trip.title,
+      description: `Itinerary for ${trip.title}`,
+      timeZone: context.zones[0].timeZone,
+      refreshMinutes: CALENDAR_REFRESH_MINUTES,
+      events,
+    }, lastModified),
+    lastModified,
+  };
+}
@@ -0,0 +1,544 @@
+// Real-time Collaboration Server - Phase 10 Advanced Features
+// WebSocket server that authenticates collaborators with Clerk and fans out
+// CollaborationEvents to everyone connected to the same trip session.
+// Runs as a standalone Node process (see scripts/collaboration-server.ts)
+// because Next.js route handlers cannot upgrade connections. Several
+// instances can run side by side: broadcasts are relayed through the session
+// store's pub/sub, so collaborators on different instances still see each
+// other's changes.
+
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { verifyToken } from '@clerk/nextjs/server';
+import { resolveTripRole, type TripRole } from '@/lib/auth/trip-access';
+import { emitCacheEvent } from '@/lib/cache/namespaces';
+import {
+  getCollaborationSessionStore,
+  type BroadcastEnvelope,
+  type CollaborationSessionStore,
+  type SessionPresence,
+} from './session-store';
+import { itineraryOpSchema } from './itinerary-crdt';
+import { appendItineraryOps, getOpLogBase, loadItineraryOpLog, snapshotItineraryOps } from './itinerary-op-log';
+import type { CollaborationEvent, CollaboratorInfo } from './real-time-sync';
+
+interface ConnectionContext {
+  connectionId: string;
+  ws: WebSocket;
+  tripId: string;
+  userId: string;
+  role: TripRole;
+  roleCheckedAt: number;
+  isAlive: boolean;
+}
+
+export interface ServerMessage {
+  type: string;
+  data?: any;
+}
+
+export interface CollaborationServerOptions {
+  path?: string;
+  store?: CollaborationSessionStore;
+  heartbeatIntervalMs?: number;
+  snapshotDebounceMs?: number;
+  authenticate?: (token: string) => Promise<string | null>;
+  resolveRole?: (tripId: string, userId: string) => Promise<TripRole | null>;
+}
+
+const DEFAULT_PATHS = ['/ws/collaboration', '/api/ws/collaboration'];
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// How long a resolved role is trusted before privileged messages re-check it
+const ROLE_RECHECK_MS = 30 * 1000;
+// Quiet period after the last edit before the op log is saved as a version
+const SNAPSHOT_DEBOUNCE_MS = 30 * 1000;
+
+/**
+ * Verify a Clerk session token and return the user ID it belongs to
+ */
+export async function authenticateClerkToken(token: string): Promise<string | null> {
+  try {
+    const payload = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY,
+    });
+    return payload.sub || null;
+  } catch (error) {
+    console.warn('Collaboration token verification failed:', error);
+    return null;
+  }
+}
+
+function canEdit(role: TripRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+function canComment(role: TripRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+function readSessionCookie(request: IncomingMessage): string | null {
+  const cookieHeader = request.headers.cookie;
+  if (!cookieHeader) return null;
+
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === '__session') {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export class CollaborationServer {
+  private wss: WebSocketServer;
+  private connections = new Map<string, ConnectionContext>();
+  private tripConnections = new Map<string, Set<string>>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private pendingSnapshots = new Map<string, { timer: NodeJS.Timeout; editorId: string }>();
+  private snapshotDebounceMs: number;
+  private paths: string[];
+  private store: CollaborationSessionStore;
+  private authenticate: (token: string) => Promise<string | null>;
+  private resolveRole: (tripId: string, userId: string) => Promise<TripRole | null>;
+  private instanceId = crypto.randomUUID();
+  private unsubscribe: () => Promise<void>;
+
+  constructor(options: CollaborationServerOptions = {}) {
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+    this.paths = options.path ? [options.path] : DEFAULT_PATHS;
+    this.store = options.store || getCollaborationSessionStore();
+    this.authenticate = options.authenticate || authenticateClerkToken;
+    this.resolveRole = options.resolveRole || resolveTripRole;
+    this.snapshotDebounceMs = options.snapshotDebounceMs || SNAPSHOT_DEBOUNCE_MS;
+    this.unsubscribe = this.store.subscribe(envelope => this.handleRelayed(envelope));
+
+    this.heartbeatTimer = setInterval(
+      () => this.runHeartbeat(),
+      options.heartbeatIntervalMs || 30000
+    );
+  }
+
+  /**
+   * Handle an HTTP upgrade request. Intended to be wired to the `upgrade`
+   * event of a Node HTTP server.
+   */
+  async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (!this.paths.includes(url.pathname)) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const tripId = url.searchParams.get('tripId');
+    const token = url.searchParams.get('token') || readSessionCookie(request);
+
+    if (!tripId || !token) {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+
+    try {
+      const userId = await this.authenticate(token);
+      if (!userId) {
+        rejectUpgrade(socket, 401, 'Unauthorized');
+        return;
+      }
+
+      const claimedUserId = url.searchParams.get('userId');
+      if (claimedUserId && claimedUserId !== userId) {
+        rejectUpgrade(socket, 400, 'Bad Request');
+        return;
+      }
+
+      const role = await this.resolveRole(tripId, userId);
+      if (!role) {
+        rejectUpgrade(socket, 403, 'Forbidden');
+        return;
+      }
+
+      this.wss.handleUpgrade(request, socket, head, (ws) => {
+        this.handleConnection(ws, tripId, userId, role).catch(error => {
+          console.error('Failed to initialise collaboration connection:', error);
+          ws.close(1011, 'Internal error');
+        });
+      });
+    } catch (error) {
+      console.error('Collaboration upgrade error:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+  }
+
+  private async handleConnection(ws: WebSocket, tripId: string, userId: string, role: TripRole): Promise<void> {
+    const connectionId = `${userId}:${crypto.randomUUID()}`;
+    const context: ConnectionContext = { connectionId, ws, tripId, userId, role, roleCheckedAt: Date.now(), isAlive: true };
+
+    this.connections.set(connectionId, context);
+    if (!this.tripConnections.has(tripId)) {
+      this.tripConnections.set(tripId, new Set());
+    }
+    this.tripConnections.get(tripId)!.add(connectionId);
+
+    ws.on('pong', () => {
+      context.isAlive = true;
+    });
+    ws.on('message', (raw) => {
+      this.handleMessage(context, raw).catch(error => {
+        console.error('Collaboration message error:', error);
+        this.send(context, { type: 'error', data: { message: 'Failed to process message' } });
+      });
+    });
+    ws.on('close', () => {
+      this.handleDisconnection(context).catch(error => {
+        console.error('Collaboration disconnect error:', error);
+      });
+    });
+    ws.on('error', (error) => {
+      console.error('Collaboration socket error:', error);
+    });
+
+    const now = new Date().toISOString();
+    await this.store.addPresence({
+      connectionId,
+      userId,
+      tripId,
+      collaborator: {
+        id: userId,
+        name: 'Collaborator',
+        email: '',
+        role,
+        isOnline: true,
+        lastSeen: now,
+      },
+      connectedAt: now,
+      lastSeen: now,
+    });
+
+    const presence = await this.store.getPresence(tripId);
+    this.send(context, {
+      type: 'connection-established',
+      data: {
+        connectionId,
+        tripId,
+        userId,
+        role,
+        version: await this.store.getVersion(tripId),
+        collaborators: this.uniqueCollaborators(presence).filter(c => c.id !== userId),
+        timestamp: now,
+      },
+    });
+
+    // Bring the new replica up to date with the persisted op log
+    this.send(context, { type: 'itinerary-sync', data: await loadItineraryOpLog(tripId) });
+
+    console.log(`👥 User ${userId} joined trip ${tripId} as ${role}`);
+  }
+
+  private async handleMessage(context: ConnectionContext, raw: RawData): Promise<void> {
+    let message: Omit<Partial<CollaborationEvent>, 'type'> & { type?: string; baseVersion?: number };
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.send(context, { type: 'error', data: { message: 'Invalid JSON' } });
+      return;
+    }
+
+    const { tripId, userId, role } = context;
+    const timestamp = new Date().toISOString();
+
+    switch (message.type) {
+      case 'ping':
+        context.isAlive = true;
+        await this.store.updatePresence(tripId, context.connectionId, { lastSeen: timestamp });
+        this.send(context, { type: 'pong' });
+        break;
+
+      case 'user-join': {
+        const info = (message.data || {}) as Partial<CollaboratorInfo>;
+        const collaborator = {
+          id: userId,
+          name: typeof info.name === 'string' && info.name ? info.name.slice(0, 120) : 'Collaborator',
+          email: typeof info.email === 'string' ? info.email.slice(0, 255) : '',
+          avatar: typeof info.avatar === 'string' ? info.avatar : undefined,
+          // Role always comes from the server-side access check
+          role,
+          isOnline: true,
+          lastSeen: timestamp,
+        };
+        await this.store.updatePresence(tripId, context.connectionId, { collaborator, lastSeen: timestamp });
+        this.broadcast(tripId, { type: 'collaborator-joined', data: collaborator }, userId);
+        break;
+      }
+
+      case 'user-leave':
+        context.ws.close(1000, 'User left');
+        break;
+
+      case 'cursor-move':
+        this.broadcast(tripId, {
+          type: 'cursor-moved',
+          data: { userId, cursor: message.data?.cursor, timestamp },
+        }, userId);
+        break;
+
+      case 'content-change': {
+        const current = await this.refreshRole(context);
+        if (!current) return;
+        if (!canEdit(current)) {
+          this.send(context, { type: 'error', data: { message: 'Edit permission required' } });
+          return;
+        }
+        const parsed = itineraryOpSchema.safeParse(message.data);
+        if (!parsed.success) {
+          this.send(context, { type: 'error', data: { message: 'Invalid itinerary operation' } });
+          return;
+        }
+
+        // An op made on a replaced itinerary would edit days that are gone;
+        // drop it and hand the sender the current log instead
+        const baseVersion = await getOpLogBase(tripId);
+        if (baseVersion === null) {
+          this.send(context, { type: 'error', data: { message: 'Failed to save itinerary change', opId: parsed.data.id } });
+          return;
+        }
+        if (message.baseVersion !== baseVersion) {
+          this.send(context, { type: 'error', data: { message: 'The itinerary was replaced; edit discarded', opId: parsed.data.id } });
+          this.send(context, { type: 'itinerary-sync', data: await loadItineraryOpLog(tripId) });
+          return;
+        }
+
+        // Authorship always comes from the authenticated connection
+        const op = { ...parsed.data, author: userId };
+        // Only ops that reached the log are shared; otherwise a reload would
+        // silently lose an edit everyone else already applied
+        if (await appendItineraryOps(tripId, baseVersion, [op]) === null) {
+          this.send(context, { type: 'error', data: { message: 'Failed to save itinerary change', opId: op.id } });
+          return;
+        }
+        const version = await this.store.nextVersion(tripId);
+        this.broadcast(tripId, {
+          type: 'content-changed',
+          data: { op, version, baseVersion },
+        }, userId);
+        this.scheduleSnapshot(tripId, userId);
+        break;
+      }
+
+      case 'comment-add': {
+        const current = await this.refreshRole(context);
+        if (!current) return;
+        if (!canComment(current)) {
+          this.send(context, { type: 'error', data: { message: 'Comment permission required' } });
+          return;
+        }
+        this.broadcast(tripId, {
+          type: 'comment-added',
+          data: { userId, comment: message.data, timestamp },
+        }, userId);
+        break;
+      }
+
+      case 'permission-change': {
+        const current = await this.refreshRole(context);
+        if (!current) return;
+        if (current !== 'owner') {
+          this.send(context, { type: 'error', data: { message: 'Only the trip owner can change permissions' } });
+          return;
+        }
+        this.broadcast(tripId, {
+          type: 'permission-updated',
+          data: { permissions: message.data, changedBy: userId, timestamp },
+        });
+        break;
+      }
+
+      default:
+        this.send(context, { type: 'error', data: { message: `Unknown message type: ${message.type}` } });
+    }
+  }
+
+  /**
+   * Re-resolve the connection's role once the cached one is older than
+   * ROLE_RECHECK_MS, so a revoked or downgraded collaborator loses access
+   * mid-session. Closes the socket and returns null when access is gone.
+   */
+  private async refreshRole(context: ConnectionContext): Promise<TripRole | null> {
+    const now = Date.now();
+    if (now - context.roleCheckedAt < ROLE_RECHECK_MS) {
+      return context.role;
+    }
+
+    const role = await this.resolveRole(context.tripId, context.userId);
+    if (!role) {
+      this.send(context, { type: 'error', data: { message: 'Access to this trip has been revoked' } });
+      context.ws.close(4403, 'Access revoked');
+      return null;
+    }
+
+    context.role = role;
+    context.roleCheckedAt = now;
+    return role;
+  }
+
+  private async handleDisconnection(context: ConnectionContext): Promise<void> {
+    const { connectionId, tripId, userId } = context;
+
+    if (!this.connections.delete(connectionId)) {
+      return;
+    }
+
+    const tripSet = this.tripConnections.get(tripId);
+    tripSet?.delete(connectionId);
+    if (tripSet && tripSet.size === 0) {
+      this.tripConnections.delete(tripId);
+      // The session on this instance ended; save its edits now
+      await this.flushSnapshot(tripId);
+    }
+
+    const presence = await this.store.getPresence(tripId);
+    const leaving = presence.find(p => p.connectionId === connectionId);
+    await this.store.removePresence(tripId, connectionId);
+
+    const stillConnected = presence.some(p => p.userId === userId && p.connectionId !== connectionId);
+    if (!stillConnected) {
+      this.broadcast(tripId, {
+        type: 'collaborator-left',
+        data: {
+          userId,
+          name: leaving?.collaborator.name || 'Collaborator',
+          timestamp: new Date().toISOString(),
+        },
+      }, userId);
+    }
+
+    console.log(`👋 User ${userId} disconnected from trip ${tripId}`);
+  }
+
+  /**
+   * Save the trip's op log as an `edit` itinerary version once edits have
+   * been quiet for the debounce period
+   */
+  private scheduleSnapshot(tripId: string, editorId: string): void {
+    const pending = this.pendingSnapshots.get(tripId);
+    if (pending) {
+      clearTimeout(pending.timer);
+    }
+
+    const timer = setTimeout(() => this.flushSnapshot(tripId), this.snapshotDebounceMs);
+    this.pendingSnapshots.set(tripId, { timer, editorId });
+  }
+
+  private async flushSnapshot(tripId: string): Promise<void> {
+    const pending = this.pendingSnapshots.get(tripId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingSnapshots.delete(tripId);
+
+    try {
+      if (await snapshotItineraryOps(tripId, pending.editorId)) {
+        await emitCacheEvent('trip.updated', { tripId });
+      }
+    } catch (error) {
+      console.error('Failed to snapshot itinerary edits:', error);
+    }
+  }
+
+  /**
+   * Send a message to every connection in a trip session, on this instance
+   * and (through the session store) on every other instance. Returns the
+   * number of local deliveries.
+   */
+  broadcast(tripId: string, message: ServerMessage, excludeUserId?: string): number {
+    this.store.publish({ origin: this.instanceId, tripId, message, excludeUserId }).catch(error => {
+      console.error('Failed to relay collaboration broadcast:', error);
+    });
+    return this.deliver(tripId, message, excludeUserId);
+  }
+
+  private handleRelayed(envelope: BroadcastEnvelope): void {
+    if (envelope.origin !== this.instanceId) {
+      this.deliver(envelope.tripId, envelope.message, envelope.excludeUserId);
+    }
+  }
+
+  private deliver(tripId: string, message: ServerMessage, excludeUserId?: string): number {
+    const connectionIds = this.tripConnections.get(tripId);
+    if (!connectionIds) return 0;
+
+    let delivered = 0;
+    connectionIds.forEach(connectionId => {
+      const context = this.connections.get(connectionId);
+      if (!context || context.userId === excludeUserId) return;
+      if (this.send(context, message)) delivered++;
+    });
+    return delivered;
+  }
+
+  private send(context: ConnectionContext, message: ServerMessage): boolean {
+    if (context.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    try {
+      context.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Failed to send message to', context.userId, error);
+      return false;
+    }
+  }
+
+  private uniqueCollaborators(presence: SessionPresence[]): CollaboratorInfo[] {
+    const byUser = new Map<string, CollaboratorInfo>();
+    presence.forEach(p => {
+      byUser.set(p.userId, { ...p.collaborator, lastSeen: new Date(p.lastSeen) });
+    });
+    return Array.from(byUser.values());
+  }
+
+  private runHeartbeat(): void {
+    const now = new Date().toISOString();
+
+    this.connections.forEach(context => {
+      if (!context.isAlive) {
+        context.ws.terminate();
+        return;
+      }
+
+      context.isAlive = false;
+      context.ws.ping();
+      this.store.updatePresence(context.tripId, context.connectionId, { lastSeen: now }).catch(error => {
+        console.error('Failed to refresh collaboration presence:', error);
+      });
+    });
+  }
+
+  getStats(): { connections: number; trips: number } {
+    return {
+      connections: this.connections.size,
+      trips: this.tripConnections.size,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    const contexts = Array.from(this.connections.values());
+    contexts.forEach(context => context.ws.close(1001, 'Server shutting down'));
+    await Promise.all(contexts.map(context => this.handleDisconnection(context)));
+    await Promise.all(Array.from(this.pendingSnapshots.keys()).map(tripId => this.flushSnapshot(tripId)));
+    await this.unsubscribe();
+
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+  }
+}
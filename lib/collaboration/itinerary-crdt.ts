@@ -0,0 +1,546 @@
+// Itinerary CRDT - Phase 10 Advanced Features
+// Convergent document model for collaborative itinerary editing.
+//
+// An itinerary is a tree of days → activities → fields. Every mutable piece of
+// that tree is a last-writer-wins register stamped with a Lamport clock
+// (counter, replicaId), and sibling order comes from fractional position keys.
+// Applying an operation only ever replaces a register with a higher stamp, so
+// operations commute, are idempotent and may arrive in any order: two replicas
+// that have seen the same set of ops always materialise the same itinerary.
+
+import { z } from 'zod';
+
+export type ItineraryFieldValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ItineraryFieldValue[]
+  | { [key: string]: ItineraryFieldValue };
+
+export interface Stamp {
+  counter: number;
+  replicaId: string;
+}
+
+interface Register<T> {
+  value: T;
+  stamp: Stamp;
+}
+
+const fieldValueSchema: z.ZodType<ItineraryFieldValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(fieldValueSchema),
+    z.record(fieldValueSchema),
+  ])
+);
+
+const fieldsSchema = z.record(fieldValueSchema);
+const idSchema = z.string().min(1).max(64);
+const positionSchema = z.string().min(1).max(128).regex(/^[0-9a-z]+$/);
+const fieldNameSchema = z.string().min(1).max(64).refine(
+  name => name !== 'id' && name !== 'activities',
+  'Reserved field name'
+);
+
+const opBaseSchema = z.object({
+  id: z.string().min(1).max(160),
+  replicaId: idSchema,
+  counter: z.number().int().positive(),
+  author: z.string().max(64).optional(),
+  timestamp: z.string(),
+});
+
+const opVariantsSchema = z.discriminatedUnion('type', [
+  opBaseSchema.extend({
+    type: z.literal('day.insert'),
+    dayId: idSchema,
+    position: positionSchema,
+    fields: fieldsSchema.optional(),
+  }),
+  opBaseSchema.extend({ type: z.literal('day.move'), dayId: idSchema, position: positionSchema }),
+  opBaseSchema.extend({ type: z.literal('day.set'), dayId: idSchema, field: fieldNameSchema, value: fieldValueSchema }),
+  opBaseSchema.extend({ type: z.literal('day.delete'), dayId: idSchema }),
+  opBaseSchema.extend({
+    type: z.literal('activity.insert'),
+    activityId: idSchema,
+    dayId: idSchema,
+    position: positionSchema,
+    fields: fieldsSchema.optional(),
+  }),
+  opBaseSchema.extend({
+    type: z.literal('activity.move'),
+    activityId: idSchema,
+    dayId: idSchema,
+    position: positionSchema,
+  }),
+  opBaseSchema.extend({
+    type: z.literal('activity.set'),
+    activityId: idSchema,
+    field: fieldNameSchema,
+    value: fieldValueSchema,
+  }),
+  opBaseSchema.extend({ type: z.literal('activity.delete'), activityId: idSchema }),
+]);
+
+// An op's id is derived from its stamp, so two different ops can never share
+// a (counter, replicaId) pair and win different registers on different replicas
+export const itineraryOpSchema = opVariantsSchema.refine(
+  op => op.id === opIdFor(op.replicaId, op.counter),
+  { message: 'Op id must be <replicaId>:<counter>', path: ['id'] }
+);
+
+export type ItineraryOp = z.infer<typeof itineraryOpSchema>;
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+type ItineraryOpPayload = DistributiveOmit<ItineraryOp, 'id' | 'replicaId' | 'counter' | 'timestamp' | 'author'>;
+
+export interface MaterializedActivity {
+  id: string;
+  [field: string]: ItineraryFieldValue;
+}
+
+export interface MaterializedDay {
+  id: string;
+  activities: MaterializedActivity[];
+  [field: string]: ItineraryFieldValue | MaterializedActivity[];
+}
+
+export interface ItineraryData {
+  days: MaterializedDay[];
+}
+
+export interface ApplyResult {
+  applied: boolean;
+  // True when at least one register touched by the op already held a newer
+  // write, i.e. the op lost a concurrent edit
+  superseded: boolean;
+}
+
+interface DayState {
+  alive: Register<boolean> | null;
+  position: Register<string> | null;
+  fields: Map<string, Register<ItineraryFieldValue>>;
+}
+
+interface ActivityState {
+  alive: Register<boolean> | null;
+  placement: Register<{ dayId: string; position: string }> | null;
+  fields: Map<string, Register<ItineraryFieldValue>>;
+}
+
+// ==================== CLOCKS & POSITIONS ====================
+
+export function opIdFor(replicaId: string, counter: number): string {
+  return `${replicaId}:${counter}`;
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.replicaId === b.replicaId) return 0;
+  return a.replicaId < b.replicaId ? -1 : 1;
+}
+
+const POSITION_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const POSITION_BASE = POSITION_DIGITS.length;
+
+/**
+ * Generate a position key strictly between `before` and `after` (either may
+ * be null for the list boundaries). Keys compare lexicographically and never
+ * end in '0', so there is always room for another key between two of them.
+ */
+export function positionBetween(before: string | null, after: string | null): string {
+  const lower = before || '';
+  let upper = after;
+
+  if (upper !== null && lower >= upper) {
+    // Concurrent inserts can produce equal keys; fall back to appending after
+    // the lower bound; ties are still ordered deterministically by id
+    upper = null;
+  }
+
+  let result = '';
+  for (let i = 0; ; i++) {
+    const lo = i < lower.length ? POSITION_DIGITS.indexOf(lower[i]) : 0;
+    const hi = upper !== null && i < upper.length ? POSITION_DIGITS.indexOf(upper[i]) : POSITION_BASE;
+
+    if (hi - lo > 1) {
+      return result + POSITION_DIGITS[Math.floor((lo + hi) / 2)];
+    }
+
+    result += POSITION_DIGITS[lo];
+    if (hi - lo === 1) {
+      // Anything appended now sorts below the upper bound
+      upper = null;
+    }
+  }
+}
+
+function writeRegister<T>(current: Register<T> | null, value: T, stamp: Stamp): { register: Register<T>; won: boolean } {
+  if (current && compareStamps(current.stamp, stamp) >= 0) {
+    return { register: current, won: false };
+  }
+  return { register: { value, stamp }, won: true };
+}
+
+function orderByPosition<T extends { id: string; position: string }>(items: T[]): T[] {
+  return items.sort((a, b) => {
+    if (a.position !== b.position) return a.position < b.position ? -1 : 1;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+// Field maps fill up in delivery order, which differs between replicas
+function sortedFields(fields: Map<string, Register<ItineraryFieldValue>>): Array<[string, Register<ItineraryFieldValue>]> {
+  return Array.from(fields.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 20)}`;
+}
+
+// ==================== DOCUMENT ====================
+
+export class ItineraryDocument {
+  readonly replicaId: string;
+  private clock = 0;
+  private days = new Map<string, DayState>();
+  private activities = new Map<string, ActivityState>();
+  private log: ItineraryOp[] = [];
+  private seen = new Set<string>();
+
+  constructor(replicaId: string) {
+    this.replicaId = replicaId;
+  }
+
+  /**
+   * Rebuild a document from a persisted op log
+   */
+  static fromOps(ops: ItineraryOp[], replicaId = 'server'): ItineraryDocument {
+    const doc = new ItineraryDocument(replicaId);
+    ops.forEach(op => doc.apply(op));
+    return doc;
+  }
+
+  /**
+   * Seed a document from plain itinerary JSON (e.g. an existing
+   * `itineraries.data` row). Accepts `{ days: [...] }` or a bare array of days,
+   * each with an optional `activities` array.
+   */
+  static fromItineraryData(data: unknown, replicaId = 'import'): ItineraryDocument {
+    const doc = new ItineraryDocument(replicaId);
+    const days: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.days) ? data.days : [];
+
+    days.forEach((day, dayIndex) => {
+      const { id, activities, ...dayFields }: Record<string, unknown> = isRecord(day) ? day : {};
+      const dayId = typeof id === 'string' && id ? id : `day_${dayIndex + 1}`;
+      doc.insertDay(dayFields as Record<string, ItineraryFieldValue>, undefined, dayId);
+
+      (Array.isArray(activities) ? activities : []).forEach((activity: unknown, activityIndex: number) => {
+        const { id: activityId, ...activityFields }: Record<string, unknown> = isRecord(activity) ? activity : {};
+        doc.insertActivity(
+          dayId,
+          activityFields as Record<string, ItineraryFieldValue>,
+          undefined,
+          typeof activityId === 'string' && activityId ? activityId : `${dayId}_activity_${activityIndex + 1}`
+        );
+      });
+    });
+
+    return doc;
+  }
+
+  get version(): number {
+    return this.log.length;
+  }
+
+  getOps(): ItineraryOp[] {
+    return [...this.log];
+  }
+
+  getOpsSince(version: number): ItineraryOp[] {
+    return this.log.slice(version);
+  }
+
+  hasOp(opId: string): boolean {
+    return this.seen.has(opId);
+  }
+
+  /**
+   * Apply a local or remote operation. Re-applying a known op is a no-op, and
+   * an op whose id does not match its stamp is rejected.
+   */
+  apply(op: ItineraryOp): ApplyResult {
+    if (this.seen.has(op.id) || op.id !== opIdFor(op.replicaId, op.counter)) {
+      return { applied: false, superseded: false };
+    }
+
+    this.seen.add(op.id);
+    this.log.push(op);
+    this.clock = Math.max(this.clock, op.counter);
+
+    const stamp: Stamp = { counter: op.counter, replicaId: op.replicaId };
+    let superseded = false;
+    const track = (won: boolean) => {
+      if (!won) superseded = true;
+    };
+
+    switch (op.type) {
+      case 'day.insert': {
+        const day = this.getDay(op.dayId);
+        const alive = writeRegister(day.alive, true, stamp);
+        day.alive = alive.register;
+        const position = writeRegister(day.position, op.position, stamp);
+        day.position = position.register;
+        track(alive.won && position.won);
+        Object.entries(op.fields || {}).forEach(([field, value]) => {
+          const result = writeRegister(day.fields.get(field) || null, value, stamp);
+          day.fields.set(field, result.register);
+          track(result.won);
+        });
+        break;
+      }
+
+      case 'day.move': {
+        const day = this.getDay(op.dayId);
+        const result = writeRegister(day.position, op.position, stamp);
+        day.position = result.register;
+        track(result.won);
+        break;
+      }
+
+      case 'day.set': {
+        const day = this.getDay(op.dayId);
+        const result = writeRegister(day.fields.get(op.field) || null, op.value, stamp);
+        day.fields.set(op.field, result.register);
+        track(result.won);
+        break;
+      }
+
+      case 'day.delete': {
+        const day = this.getDay(op.dayId);
+        const result = writeRegister(day.alive, false, stamp);
+        day.alive = result.register;
+        track(result.won);
+        break;
+      }
+
+      case 'activity.insert': {
+        const activity = this.getActivity(op.activityId);
+        const alive = writeRegister(activity.alive, true, stamp);
+        activity.alive = alive.register;
+        const placement = writeRegister(activity.placement, { dayId: op.dayId, position: op.position }, stamp);
+        activity.placement = placement.register;
+        track(alive.won && placement.won);
+        Object.entries(op.fields || {}).forEach(([field, value]) => {
+          const result = writeRegister(activity.fields.get(field) || null, value, stamp);
+          activity.fields.set(field, result.register);
+          track(result.won);
+        });
+        break;
+      }
+
+      case 'activity.move': {
+        const activity = this.getActivity(op.activityId);
+        const result = writeRegister(activity.placement, { dayId: op.dayId, position: op.position }, stamp);
+        activity.placement = result.register;
+        track(result.won);
+        break;
+      }
+
+      case 'activity.set': {
+        const activity = this.getActivity(op.activityId);
+        const result = writeRegister(activity.fields.get(op.field) || null, op.value, stamp);
+        activity.fields.set(op.field, result.register);
+        track(result.won);
+        break;
+      }
+
+      case 'activity.delete': {
+        const activity = this.getActivity(op.activityId);
+        const result = writeRegister(activity.alive, false, stamp);
+        activity.alive = result.register;
+        track(result.won);
+        break;
+      }
+    }
+
+    return { applied: true, superseded };
+  }
+
+  /**
+   * Apply every op from another replica that this one has not seen yet
+   */
+  merge(other: ItineraryDocument | ItineraryOp[]): number {
+    const ops = Array.isArray(other) ? other : other.getOps();
+    return ops.filter(op => this.apply(op).applied).length;
+  }
+
+  // ==================== LOCAL EDITS ====================
+
+  insertDay(fields: Record<string, ItineraryFieldValue> = {}, index?: number, dayId = generateId('day')): ItineraryOp {
+    const days = this.orderedDays();
+    return this.emit({
+      type: 'day.insert',
+      dayId,
+      position: this.positionAt(days.map(d => d.position), index ?? days.length),
+      fields,
+    });
+  }
+
+  moveDay(dayId: string, toIndex: number): ItineraryOp {
+    const siblings = this.orderedDays().filter(d => d.id !== dayId);
+    return this.emit({
+      type: 'day.move',
+      dayId,
+      position: this.positionAt(siblings.map(d => d.position), toIndex),
+    });
+  }
+
+  setDayField(dayId: string, field: string, value: ItineraryFieldValue): ItineraryOp {
+    return this.emit({ type: 'day.set', dayId, field, value });
+  }
+
+  deleteDay(dayId: string): ItineraryOp {
+    return this.emit({ type: 'day.delete', dayId });
+  }
+
+  insertActivity(
+    dayId: string,
+    fields: Record<string, ItineraryFieldValue> = {},
+    index?: number,
+    activityId = generateId('act')
+  ): ItineraryOp {
+    const siblings = this.orderedActivities(dayId);
+    return this.emit({
+      type: 'activity.insert',
+      activityId,
+      dayId,
+      position: this.positionAt(siblings.map(a => a.position), index ?? siblings.length),
+      fields,
+    });
+  }
+
+  /**
+   * Move an activity to `toIndex` within `toDayId`; covers both reordering
+   * inside a day and moving between days
+   */
+  moveActivity(activityId: string, toDayId: string, toIndex: number): ItineraryOp {
+    const siblings = this.orderedActivities(toDayId).filter(a => a.id !== activityId);
+    return this.emit({
+      type: 'activity.move',
+      activityId,
+      dayId: toDayId,
+      position: this.positionAt(siblings.map(a => a.position), toIndex),
+    });
+  }
+
+  setActivityField(activityId: string, field: string, value: ItineraryFieldValue): ItineraryOp {
+    return this.emit({ type: 'activity.set', activityId, field, value });
+  }
+
+  deleteActivity(activityId: string): ItineraryOp {
+    return this.emit({ type: 'activity.delete', activityId });
+  }
+
+  // ==================== MATERIALIZATION ====================
+
+  /**
+   * Materialize the current state as plain itinerary JSON, suitable for
+   * `itineraries.data`. Activities whose day was deleted are dropped.
+   */
+  toItineraryData(): ItineraryData {
+    const days = this.orderedDays().map(({ id }) => {
+      const state = this.days.get(id)!;
+      const day: MaterializedDay = { id, activities: [] };
+      sortedFields(state.fields).forEach(([field, register]) => {
+        day[field] = register.value;
+      });
+      day.activities = this.orderedActivities(id).map(({ id: activityId }) => {
+        const activityState = this.activities.get(activityId)!;
+        const activity: MaterializedActivity = { id: activityId };
+        sortedFields(activityState.fields).forEach(([field, register]) => {
+          activity[field] = register.value;
+        });
+        return activity;
+      });
+      return day;
+    });
+
+    return { days };
+  }
+
+  private emit(payload: ItineraryOpPayload): ItineraryOp {
+    const counter = this.clock + 1;
+    const op = {
+      ...payload,
+      id: opIdFor(this.replicaId, counter),
+      replicaId: this.replicaId,
+      counter,
+      timestamp: new Date().toISOString(),
+    } as ItineraryOp;
+
+    this.apply(op);
+    return op;
+  }
+
+  private positionAt(positions: string[], index: number): string {
+    const clamped = Math.max(0, Math.min(index, positions.length));
+    const before = clamped > 0 ? positions[clamped - 1] : null;
+    // Skip siblings that share the lower key (concurrent inserts) so the new
+    // key lands before the next distinct position
+    const after = positions.slice(clamped).find(position => before === null || position > before) || null;
+    return positionBetween(before, after);
+  }
+
+  private orderedDays(): Array<{ id: string; position: string }> {
+    const days: Array<{ id: string; position: string }> = [];
+    this.days.forEach((state, id) => {
+      if (state.alive?.value && state.position) {
+        days.push({ id, position: state.position.value });
+      }
+    });
+    return orderByPosition(days);
+  }
+
+  private orderedActivities(dayId: string): Array<{ id: string; position: string }> {
+    const day = this.days.get(dayId);
+    if (!day?.alive?.value || !day.position) return [];
+
+    const activities: Array<{ id: string; position: string }> = [];
+    this.activities.forEach((state, id) => {
+      if (state.alive?.value && state.placement?.value.dayId === dayId) {
+        activities.push({ id, position: state.placement.value.position });
+      }
+    });
+    return orderByPosition(activities);
+  }
+
+  // Ops may reference an entity before its insert arrives; registers start
+  // empty and the entity stays invisible until it has been inserted
+  private getDay(dayId: string): DayState {
+    let day = this.days.get(dayId);
+    if (!day) {
+      day = { alive: null, position: null, fields: new Map() };
+      this.days.set(dayId, day);
+    }
+    return day;
+  }
+
+  private getActivity(activityId: string): ActivityState {
+    let activity = this.activities.get(activityId);
+    if (!activity) {
+      activity = { alive: null, placement: null, fields: new Map() };
+      this.activities.set(activityId, activity);
+    }
+    return activity;
+  }
+}
@@ -0,0 +1,199 @@
+// Itinerary Op Log
+// Persistence for itinerary CRDT operations. The op log holds the
+// collaborative edits made on top of one itinerary version, its base: it is
+// seeded from that version's days and snapshotted back as `edit` versions.
+// Any other new version (a generation, restore or full save) becomes the next
+// base, so an older log can never write over it.
+
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { itineraries, itineraryOps, type Itinerary } from '@/lib/database/schema';
+import { appendItineraryVersion, getItineraryVersion } from '@/lib/planning/itinerary-versions';
+import { ItineraryDocument, itineraryOpSchema, type ItineraryData, type ItineraryOp } from './itinerary-crdt';
+import { getCollaborationSessionStore } from './session-store';
+
+export interface ItineraryOpLog {
+  // Itinerary version the ops build on; 0 before the trip has one
+  baseVersion: number;
+  ops: ItineraryOp[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+// Generated itineraries keep their days in `dailyItinerary`, edited ones in `days`
+function daysKey(data: Record<string, unknown>): 'days' | 'dailyItinerary' {
+  return Array.isArray(data.days) || !Array.isArray(data.dailyItinerary) ? 'days' : 'dailyItinerary';
+}
+
+/**
+ * Ops that rebuild a version's days. The replica ID is derived from the
+ * version, so concurrent seeds of the same base produce the same ops.
+ */
+function seedOps(data: unknown, version: number): ItineraryOp[] {
+  const record = asRecord(data);
+  return ItineraryDocument.fromItineraryData(record[daysKey(record)], `v${version}`).getOps();
+}
+
+/**
+ * The version a trip's op log builds on: the latest version, or that
+ * version's own base when it is a snapshot of the log. Returns null when the
+ * lookup failed.
+ */
+export async function getOpLogBase(tripId: string): Promise<number | null> {
+  if (!isDatabaseAvailable()) {
+    return 0;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ version: itineraries.version, baseVersion: itineraries.baseVersion })
+      .from(itineraries)
+      .where(eq(itineraries.tripId, tripId))
+      .orderBy(desc(itineraries.version))
+      .limit(1);
+  });
+
+  if (!rows) {
+    return null;
+  }
+  return rows[0] ? rows[0].baseVersion ?? rows[0].version ?? 0 : 0;
+}
+
+/**
+ * Append ops to a trip's log on the given base. Ops already stored are
+ * skipped, so replays and retries are safe. Returns the number of newly
+ * stored ops, or null when the write failed.
+ */
+export async function appendItineraryOps(tripId: string, baseVersion: number, ops: ItineraryOp[]): Promise<number | null> {
+  if (!isDatabaseAvailable() || ops.length === 0) {
+    return 0;
+  }
+
+  const inserted = await withDatabase(async (db) => {
+    return await db
+      .insert(itineraryOps)
+      .values(ops.map(op => ({
+        tripId,
+        baseVersion,
+        opId: op.id,
+        opType: op.type,
+        author: op.author,
+        op,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: itineraryOps.id });
+  });
+
+  return inserted ? inserted.length : null;
+}
+
+async function loadOps(tripId: string, baseVersion: number): Promise<ItineraryOp[]> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ op: itineraryOps.op })
+      .from(itineraryOps)
+      .where(and(eq(itineraryOps.tripId, tripId), eq(itineraryOps.baseVersion, baseVersion)))
+      .orderBy(asc(itineraryOps.id));
+  });
+
+  return (rows || [])
+    .map(row => itineraryOpSchema.safeParse(row.op))
+    .filter(result => result.success)
+    .map(result => (result as { success: true; data: ItineraryOp }).data);
+}
+
+/**
+ * Load a trip's current op log in storage order, seeding it from its base
+ * version the first time the log is read after that version was written
+ */
+export async function loadItineraryOpLog(tripId: string): Promise<ItineraryOpLog> {
+  const baseVersion = await getOpLogBase(tripId);
+  if (baseVersion === null) {
+    return { baseVersion: 0, ops: [] };
+  }
+
+  const ops = await loadOps(tripId, baseVersion);
+  if (ops.length > 0 || baseVersion === 0) {
+    return { baseVersion, ops };
+  }
+
+  const base = await getItineraryVersion(tripId, baseVersion);
+  const seed = seedOps(base?.data, baseVersion);
+  if (seed.length === 0) {
+    return { baseVersion, ops };
+  }
+
+  await appendItineraryOps(tripId, baseVersion, seed);
+  return { baseVersion, ops: await loadOps(tripId, baseVersion) };
+}
+
+/**
+ * Rebuild the CRDT document for a trip from its op log
+ */
+export async function rebuildItineraryDocument(tripId: string): Promise<ItineraryDocument> {
+  return ItineraryDocument.fromOps((await loadItineraryOpLog(tripId)).ops);
+}
+
+/**
+ * Rebuild the materialised itinerary JSON (the shape stored in
+ * `itineraries.data`) together with the op-log version it reflects
+ */
+export async function rebuildItineraryData(tripId: string): Promise<{ data: ItineraryData; version: number }> {
+  const doc = await rebuildItineraryDocument(tripId);
+  return { data: doc.toItineraryData(), version: doc.version };
+}
+
+/**
+ * Save the op log's current days as a new `edit` itinerary version. The days
+ * go back under the key the base stored them in; fields the op log does not
+ * carry (overview, budget, locks) are kept from the latest version. Returns
+ * null when the days are unchanged, the itinerary was replaced since the log
+ * was read, or the write failed.
+ */
+export async function snapshotItineraryOps(tripId: string, createdBy?: string): Promise<Itinerary | null> {
+  const { baseVersion, ops } = await loadItineraryOpLog(tripId);
+  if (ops.length === 0) {
+    return null;
+  }
+
+  const latest = await getItineraryVersion(tripId);
+  if (latest && (latest.baseVersion ?? latest.version) !== baseVersion) {
+    return null;
+  }
+
+  const latestData = asRecord(latest?.data);
+  const key = daysKey(latestData);
+  const days = ItineraryDocument.fromOps(ops).toItineraryData().days;
+  const latestDays = ItineraryDocument.fromItineraryData(latestData[key]).toItineraryData().days;
+  if (JSON.stringify(latestDays) === JSON.stringify(days)) {
+    return null;
+  }
+
+  return await appendItineraryVersion(tripId, {
+    data: { ...latestData, [key]: days },
+    locks: latest?.locks,
+    source: 'edit',
+    baseVersion,
+    createdBy,
+  });
+}
+
+/**
+ * Start the op log over from a version that replaced the itinerary (a
+ * generation, restore or full save) and push it to connected collaborators,
+ * whose replicas still hold the previous base
+ */
+export async function resetItineraryOpLog(tripId: string): Promise<void> {
+  try {
+    const log = await loadItineraryOpLog(tripId);
+    await getCollaborationSessionStore().publish({
+      origin: 'api',
+      tripId,
+      message: { type: 'itinerary-sync', data: log },
+    });
+  } catch (error) {
+    console.error('Failed to reset itinerary op log:', error);
+  }
+}
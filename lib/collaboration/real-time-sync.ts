@@ -3,6 +3,8 @@
 // Real-time Collaboration System - Phase 10 Advanced Features
 // WebSocket-based synchronization for collaborative trip planning
 
+import { ItineraryDocument, type ItineraryData, type ItineraryOp } from './itinerary-crdt';
+
 interface CollaboratorInfo {
   id: string;
   name: string;
@@ -29,7 +31,7 @@ interface TripCollaboration {
   };
   version: number;
   lastModified: Date;
-  conflictResolution: 'last-write-wins' | 'operational-transform';
+  conflictResolution: 'last-write-wins' | 'crdt';
 }
 
 interface CollaborationEvent {
@@ -39,27 +41,26 @@ interface CollaborationEvent {
   timestamp: Date;
   data: any;
   version: number;
-}
-
-interface OperationalTransform {
-  operation: 'insert' | 'delete' | 'retain';
-  position: number;
-  content?: any;
-  length?: number;
-  author: string;
-  timestamp: Date;
+  // Itinerary version the sender's op log builds on (content changes only)
+  baseVersion?: number;
 }
 
 interface ConflictResolution {
   conflictId: string;
   conflictType: 'concurrent-edit' | 'deletion-conflict' | 'permission-conflict';
   participants: string[];
-  changes: OperationalTransform[];
+  changes: ItineraryOp[];
   resolution: 'merge' | 'reject' | 'manual';
   resolvedBy?: string;
   resolvedAt?: Date;
 }
 
+// Replica IDs are stored in the op log, so they carry no user ID; authorship
+// comes from the server-stamped `author`
+function newReplicaId(): string {
+  return `r_${crypto.randomUUID().replace(/-/g, '').slice(0, 20)}`;
+}
+
 class RealTimeCollaborationEngine {
   private ws: WebSocket | null = null;
   private tripId: string | null = null;
@@ -67,16 +68,21 @@ class RealTimeCollaborationEngine {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private heartbeatInterval: NodeJS.Timeout | null = null;
-  private operationQueue: OperationalTransform[] = [];
+  private document: ItineraryDocument | null = null;
+  // Itinerary version the replica's ops build on; null until the first sync
+  private baseVersion: number | null = null;
+  // Local ops not yet delivered to the server (sent on reconnect)
+  private pendingOps: ItineraryOp[] = [];
   private versionVector: Map<string, number> = new Map();
-  private conflictResolver = new ConflictResolver();
   
   // Event handlers
   private onCollaboratorJoin?: (collaborator: CollaboratorInfo) => void;
   private onCollaboratorLeave?: (userId: string) => void;
   private onCursorMove?: (userId: string, cursor: { x: number; y: number; section?: string }) => void;
-  private onContentChange?: (change: OperationalTransform) => void;
+  private onContentChange?: (change: ItineraryOp) => void;
+  private onItineraryChange?: (itinerary: ItineraryData) => void;
   private onConflictDetected?: (conflict: ConflictResolution) => void;
+  private onCommentAdd?: (comment: { userId: string; comment: any; timestamp: string }) => void;
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -93,6 +99,9 @@ class RealTimeCollaborationEngine {
     try {
       this.tripId = tripId;
       this.userId = userId;
+      this.document = new ItineraryDocument(newReplicaId());
+      this.baseVersion = null;
+      this.pendingOps = [];
       
       // Establish WebSocket connection
       await this.connectWebSocket();
@@ -134,15 +143,32 @@ class RealTimeCollaborationEngine {
 
   // WebSocket connection management
   private async connectWebSocket(): Promise<void> {
+    // Session token for the collaboration server, which runs outside Next.js
+    // and cannot always read the Clerk session cookie
+    const token = await this.getSessionToken();
+
     return new Promise((resolve, reject) => {
-      const wsUrl = process.env.NODE_ENV === 'production' 
-        ? 'wss://api.tripthesia.com/ws/collaboration'
-        : 'ws://localhost:3000/api/ws/collaboration';
+      const wsUrl = process.env.NEXT_PUBLIC_COLLABORATION_WS_URL || (
+        process.env.NODE_ENV === 'production'
+          ? 'wss://api.tripthesia.com/ws/collaboration'
+          : 'ws://localhost:3001/ws/collaboration'
+      );
+
+      const params = new URLSearchParams({
+        tripId: this.tripId || '',
+        userId: this.userId || '',
+      });
+      if (token) {
+        params.set('token', token);
+      }
+
+      this.ws = new WebSocket(`${wsUrl}?${params.toString()}`);
 
-      this.ws = new WebSocket(`${wsUrl}?tripId=${this.tripId}&userId=${this.userId}`);
+      const connectTimeout = setTimeout(() => reject(new Error('WebSocket connection timeout')), 10000);
       
       this.ws.onopen = () => {
         console.log('🔗 WebSocket connected');
+        clearTimeout(connectTimeout);
         this.reconnectAttempts = 0;
         this.startHeartbeat();
         resolve();
@@ -163,13 +189,22 @@ class RealTimeCollaborationEngine {
 
       this.ws.onerror = (error) => {
         console.error('WebSocket error:', error);
+        clearTimeout(connectTimeout);
         reject(error);
       };
-
-      setTimeout(() => reject(new Error('WebSocket connection timeout')), 10000);
     });
   }
 
+  private async getSessionToken(): Promise<string | null> {
+    try {
+      const clerk = (window as any).Clerk;
+      return (await clerk?.session?.getToken()) || null;
+    } catch (error) {
+      console.warn('Unable to read Clerk session token:', error);
+      return null;
+    }
+  }
+
   private attemptReconnect(): void {
     this.reconnectAttempts++;
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
@@ -206,12 +241,18 @@ class RealTimeCollaborationEngine {
     }
     this.tripId = null;
     this.userId = null;
+    this.document = null;
+    this.baseVersion = null;
+    this.pendingOps = [];
   }
 
   // Message handling
   private handleMessage(message: any): void {
     try {
       switch (message.type) {
+        case 'connection-established':
+          this.handleConnectionEstablished(message.data);
+          break;
         case 'collaborator-joined':
           this.handleCollaboratorJoined(message.data);
           break;
@@ -224,12 +265,24 @@ class RealTimeCollaborationEngine {
         case 'content-changed':
           this.handleContentChanged(message.data);
           break;
+        case 'itinerary-sync':
+          this.handleItinerarySync(message.data);
+          break;
         case 'conflict-detected':
           this.handleConflictDetected(message.data);
           break;
         case 'permission-updated':
           this.handlePermissionUpdated(message.data);
           break;
+        case 'comment-added':
+          this.onCommentAdd?.(message.data);
+          break;
+        case 'notification':
+          console.log('🔔 Collaboration notification:', message.data);
+          break;
+        case 'error':
+          console.warn('Collaboration server error:', message.data?.message);
+          break;
         case 'pong':
           // Heartbeat response
           break;
@@ -241,6 +294,14 @@ class RealTimeCollaborationEngine {
     }
   }
 
+  private handleConnectionEstablished(data: { version: number; collaborators: CollaboratorInfo[] }): void {
+    if (this.userId) {
+      this.versionVector.set(this.userId, data.version || 0);
+    }
+    // Surface collaborators who were already in the session before we joined
+    (data.collaborators || []).forEach(collaborator => this.handleCollaboratorJoined(collaborator));
+  }
+
   private handleCollaboratorJoined(collaborator: CollaboratorInfo): void {
     console.log(`👤 Collaborator joined: ${collaborator.name}`);
     this.onCollaboratorJoin?.(collaborator);
@@ -255,17 +316,58 @@ class RealTimeCollaborationEngine {
     this.onCursorMove?.(data.userId, data.cursor);
   }
 
-  private handleContentChanged(change: OperationalTransform): void {
-    // Apply operational transformation
-    const transformedChange = this.conflictResolver.transformOperation(change, this.operationQueue);
-    
-    // Update version vector
-    this.versionVector.set(change.author, (this.versionVector.get(change.author) || 0) + 1);
-    
-    // Apply change to local state
-    this.onContentChange?.(transformedChange);
+  private handleContentChanged(data: { op: ItineraryOp; version: number; baseVersion: number }): void {
+    // Ops on another base belong to a replaced itinerary, or to one this
+    // replica has not synced yet
+    if (!this.document || data.baseVersion !== this.baseVersion) return;
+
+    const result = this.document.apply(data.op);
+    if (!result.applied) return;
+
+    const author = data.op.author || data.op.replicaId;
+    this.versionVector.set(author, (this.versionVector.get(author) || 0) + 1);
+
+    // The CRDT merge is deterministic; a superseded op simply lost a
+    // concurrent write, which is worth telling the user about
+    if (result.superseded && this.userId) {
+      this.handleConflictDetected({
+        conflictId: `conflict_${data.op.id}`,
+        conflictType: data.op.type.endsWith('.delete') ? 'deletion-conflict' : 'concurrent-edit',
+        participants: [author, this.userId],
+        changes: [data.op],
+        resolution: 'merge',
+        resolvedAt: new Date(),
+      });
+    }
+
+    this.onContentChange?.(data.op);
+    this.onItineraryChange?.(this.document.toItineraryData());
     
-    console.log('📝 Content change applied:', transformedChange);
+    console.log('📝 Content change applied:', data.op.type, data.op.id);
+  }
+
+  private handleItinerarySync(data: { baseVersion: number; ops: ItineraryOp[] }): void {
+    if (!this.document) return;
+
+    if (this.baseVersion !== null && data.baseVersion !== this.baseVersion) {
+      // The itinerary was restored, regenerated or saved whole; edits made
+      // on the old one no longer apply
+      this.document = ItineraryDocument.fromOps(data.ops || [], newReplicaId());
+      this.baseVersion = data.baseVersion;
+      this.pendingOps = [];
+      this.onItineraryChange?.(this.document.toItineraryData());
+      console.log(`🔄 Itinerary replaced (version ${data.baseVersion})`);
+      return;
+    }
+
+    this.baseVersion = data.baseVersion;
+    const applied = this.document.merge(data.ops || []);
+    if (applied > 0) {
+      this.onItineraryChange?.(this.document.toItineraryData());
+    }
+    console.log(`🔄 Itinerary synced (${applied} ops)`);
+    // Edits made offline go out once the server has said which base it is on
+    this.flushPendingOps();
   }
 
   private handleConflictDetected(conflict: ConflictResolution): void {
@@ -301,12 +403,33 @@ class RealTimeCollaborationEngine {
     });
   }
 
-  applyContentChange(operation: OperationalTransform): void {
-    if (!this.userId || !this.tripId) return;
+  // Local itinerary replica; edits made through it must be sent with
+  // applyContentChange (or use editItinerary, which does both)
+  getDocument(): ItineraryDocument | null {
+    return this.document;
+  }
+
+  editItinerary(edit: (document: ItineraryDocument) => ItineraryOp | ItineraryOp[]): ItineraryOp[] {
+    if (!this.document) return [];
+
+    const ops = edit(this.document);
+    const list = Array.isArray(ops) ? ops : [ops];
+    list.forEach(op => this.applyContentChange(op));
+    this.onItineraryChange?.(this.document.toItineraryData());
+    return list;
+  }
 
-    // Add to operation queue for conflict resolution
-    this.operationQueue.push(operation);
+  applyContentChange(operation: ItineraryOp): void {
+    if (!this.userId || !this.tripId || !this.document) return;
+
+    // Ops built elsewhere are applied locally first; re-applying is a no-op
+    this.document.apply(operation);
     
+    if (this.ws?.readyState !== WebSocket.OPEN || this.baseVersion === null) {
+      this.pendingOps.push(operation);
+      return;
+    }
+
     // Send to other collaborators
     this.sendEvent({
       type: 'content-change',
@@ -314,10 +437,43 @@ class RealTimeCollaborationEngine {
       tripId: this.tripId,
       timestamp: new Date(),
       data: operation,
+      version: this.document.version,
+      baseVersion: this.baseVersion,
+    });
+
+    console.log('📤 Sent content change:', operation.type, operation.id);
+  }
+
+  private flushPendingOps(): void {
+    const pending = this.pendingOps;
+    this.pendingOps = [];
+    pending.forEach(op => this.applyContentChange(op));
+  }
+
+  addComment(comment: { section?: string; itemId?: string; text: string }): void {
+    if (!this.userId || !this.tripId) return;
+
+    this.sendEvent({
+      type: 'comment-add',
+      userId: this.userId,
+      tripId: this.tripId,
+      timestamp: new Date(),
+      data: comment,
       version: this.versionVector.get(this.userId) || 0,
     });
+  }
 
-    console.log('📤 Sent content change:', operation);
+  updatePermissions(permissions: TripCollaboration['permissions']): void {
+    if (!this.userId || !this.tripId) return;
+
+    this.sendEvent({
+      type: 'permission-change',
+      userId: this.userId,
+      tripId: this.tripId,
+      timestamp: new Date(),
+      data: permissions,
+      version: 0,
+    });
   }
 
   // Event handlers setup
@@ -325,14 +481,18 @@ class RealTimeCollaborationEngine {
     onCollaboratorJoin?: (collaborator: CollaboratorInfo) => void;
     onCollaboratorLeave?: (userId: string) => void;
     onCursorMove?: (userId: string, cursor: { x: number; y: number; section?: string }) => void;
-    onContentChange?: (change: OperationalTransform) => void;
+    onContentChange?: (change: ItineraryOp) => void;
+    onItineraryChange?: (itinerary: ItineraryData) => void;
     onConflictDetected?: (conflict: ConflictResolution) => void;
+    onCommentAdd?: (comment: { userId: string; comment: any; timestamp: string }) => void;
   }): void {
     this.onCollaboratorJoin = handlers.onCollaboratorJoin;
     this.onCollaboratorLeave = handlers.onCollaboratorLeave;
     this.onCursorMove = handlers.onCursorMove;
     this.onContentChange = handlers.onContentChange;
+    this.onItineraryChange = handlers.onItineraryChange;
     this.onConflictDetected = handlers.onConflictDetected;
+    this.onCommentAdd = handlers.onCommentAdd;
   }
 
   // Get current collaboration state
@@ -340,155 +500,21 @@ class RealTimeCollaborationEngine {
     isConnected: boolean;
     tripId: string | null;
     userId: string | null;
-    operationQueueLength: number;
+    pendingOpsLength: number;
+    documentVersion: number;
     versionVector: Record<string, number>;
   } {
     return {
       isConnected: this.ws?.readyState === WebSocket.OPEN,
       tripId: this.tripId,
       userId: this.userId,
-      operationQueueLength: this.operationQueue.length,
+      pendingOpsLength: this.pendingOps.length,
+      documentVersion: this.document?.version || 0,
       versionVector: Object.fromEntries(this.versionVector),
     };
   }
 }
 
-// Conflict Resolution Engine
-class ConflictResolver {
-  // Transform operation based on concurrent operations
-  transformOperation(operation: OperationalTransform, concurrentOps: OperationalTransform[]): OperationalTransform {
-    let transformedOp = { ...operation };
-    
-    for (const concurrentOp of concurrentOps) {
-      if (concurrentOp.timestamp < operation.timestamp) {
-        transformedOp = this.transformPair(transformedOp, concurrentOp);
-      }
-    }
-    
-    return transformedOp;
-  }
-
-  // Transform two operations against each other (Operational Transform)
-  private transformPair(op1: OperationalTransform, op2: OperationalTransform): OperationalTransform {
-    // Simplified OT implementation
-    if (op1.operation === 'insert' && op2.operation === 'insert') {
-      if (op1.position <= op2.position) {
-        return op1; // No transformation needed
-      } else {
-        return {
-          ...op1,
-          position: op1.position + (op2.length || 1),
-        };
-      }
-    } else if (op1.operation === 'delete' && op2.operation === 'insert') {
-      if (op1.position < op2.position) {
-        return op1;
-      } else {
-        return {
-          ...op1,
-          position: op1.position + (op2.length || 1),
-        };
-      }
-    } else if (op1.operation === 'insert' && op2.operation === 'delete') {
-      if (op1.position <= op2.position) {
-        return op1;
-      } else {
-        return {
-          ...op1,
-          position: Math.max(0, op1.position - (op2.length || 1)),
-        };
-      }
-    } else if (op1.operation === 'delete' && op2.operation === 'delete') {
-      if (op1.position < op2.position) {
-        return op1;
-      } else if (op1.position >= op2.position + (op2.length || 1)) {
-        return {
-          ...op1,
-          position: op1.position - (op2.length || 1),
-        };
-      } else {
-        // Overlapping deletes - complex case
-        return this.resolveOverlappingDeletes(op1, op2);
-      }
-    }
-    
-    return op1;
-  }
-
-  private resolveOverlappingDeletes(op1: OperationalTransform, op2: OperationalTransform): OperationalTransform {
-    // Handle overlapping delete operations
-    const op1End = op1.position + (op1.length || 1);
-    const op2End = op2.position + (op2.length || 1);
-    
-    if (op1.position >= op2.position && op1End <= op2End) {
-      // op1 is completely contained in op2 - nullify op1
-      return {
-        ...op1,
-        operation: 'retain',
-        length: 0,
-      };
-    } else if (op1.position < op2.position && op1End > op2End) {
-      // op1 contains op2 - adjust op1 length
-      return {
-        ...op1,
-        length: (op1.length || 1) - (op2.length || 1),
-      };
-    } else {
-      // Partial overlap - adjust position and length
-      const newPosition = Math.min(op1.position, op2.position);
-      const newEnd = Math.max(op1End, op2End);
-      return {
-        ...op1,
-        position: newPosition,
-        length: newEnd - newPosition,
-      };
-    }
-  }
-
-  // Detect conflicts in operation sequences
-  detectConflicts(operations: OperationalTransform[]): ConflictResolution[] {
-    const conflicts: ConflictResolution[] = [];
-    
-    for (let i = 0; i < operations.length; i++) {
-      for (let j = i + 1; j < operations.length; j++) {
-        const op1 = operations[i];
-        const op2 = operations[j];
-        
-        if (this.operationsConflict(op1, op2)) {
-          conflicts.push({
-            conflictId: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            conflictType: this.getConflictType(op1, op2),
-            participants: [op1.author, op2.author],
-            changes: [op1, op2],
-            resolution: 'merge',
-          });
-        }
-      }
-    }
-    
-    return conflicts;
-  }
-
-  private operationsConflict(op1: OperationalTransform, op2: OperationalTransform): boolean {
-    // Check if operations affect the same region
-    const op1End = op1.position + (op1.length || 1);
-    const op2End = op2.position + (op2.length || 1);
-    
-    return !(op1End <= op2.position || op2End <= op1.position);
-  }
-
-  private getConflictType(op1: OperationalTransform, op2: OperationalTransform): ConflictResolution['conflictType'] {
-    if (op1.operation === 'delete' && op2.operation === 'delete') {
-      return 'deletion-conflict';
-    } else if ((op1.operation === 'insert' || op1.operation === 'delete') && 
-               (op2.operation === 'insert' || op2.operation === 'delete')) {
-      return 'concurrent-edit';
-    } else {
-      return 'concurrent-edit';
-    }
-  }
-}
-
 // Singleton instance
 const collaborationEngine = new RealTimeCollaborationEngine();
 
@@ -497,6 +523,5 @@ export type {
   CollaboratorInfo, 
   TripCollaboration, 
   CollaborationEvent, 
-  OperationalTransform, 
   ConflictResolution 
 };
\ No newline at end of file
@@ -0,0 +1,205 @@
+// Collaboration Session Store
+// Presence and version state for collaborative trip sessions, shared between
+// the WebSocket server and the /api/ws/collaboration route
+
+import type { Redis } from '@upstash/redis';
+import { getRedisClient } from '@/lib/redis';
+import type { CollaboratorInfo } from './real-time-sync';
+
+export interface SessionPresence {
+  connectionId: string;
+  userId: string;
+  tripId: string;
+  collaborator: Omit<CollaboratorInfo, 'lastSeen'> & { lastSeen: string };
+  connectedAt: string;
+  lastSeen: string;
+}
+
+// A broadcast relayed between server instances. `origin` lets an instance
+// skip its own messages, which it has already delivered locally.
+export interface BroadcastEnvelope {
+  origin: string;
+  tripId: string;
+  message: { type: string; data?: any };
+  excludeUserId?: string;
+}
+
+export interface CollaborationSessionStore {
+  addPresence(presence: SessionPresence): Promise<void>;
+  updatePresence(tripId: string, connectionId: string, updates: Partial<SessionPresence>): Promise<void>;
+  removePresence(tripId: string, connectionId: string): Promise<void>;
+  getPresence(tripId: string): Promise<SessionPresence[]>;
+  nextVersion(tripId: string): Promise<number>;
+  getVersion(tripId: string): Promise<number>;
+  publish(envelope: BroadcastEnvelope): Promise<void>;
+  subscribe(handler: (envelope: BroadcastEnvelope) => void): () => Promise<void>;
+}
+
+// Presence entries not refreshed within this window are treated as stale
+// (a server instance died without cleaning up its connections)
+export const PRESENCE_TTL_MS = 90 * 1000;
+
+function isFresh(presence: SessionPresence, now = Date.now()): boolean {
+  return now - new Date(presence.lastSeen).getTime() < PRESENCE_TTL_MS;
+}
+
+/**
+ * Process-local store, used when Redis is not configured (local dev, tests)
+ */
+export class InMemorySessionStore implements CollaborationSessionStore {
+  private sessions = new Map<string, Map<string, SessionPresence>>();
+  private versions = new Map<string, number>();
+
+  async addPresence(presence: SessionPresence): Promise<void> {
+    if (!this.sessions.has(presence.tripId)) {
+      this.sessions.set(presence.tripId, new Map());
+    }
+    this.sessions.get(presence.tripId)!.set(presence.connectionId, presence);
+  }
+
+  async updatePresence(tripId: string, connectionId: string, updates: Partial<SessionPresence>): Promise<void> {
+    const existing = this.sessions.get(tripId)?.get(connectionId);
+    if (existing) {
+      this.sessions.get(tripId)!.set(connectionId, { ...existing, ...updates });
+    }
+  }
+
+  async removePresence(tripId: string, connectionId: string): Promise<void> {
+    const session = this.sessions.get(tripId);
+    if (!session) return;
+
+    session.delete(connectionId);
+    if (session.size === 0) {
+      this.sessions.delete(tripId);
+    }
+  }
+
+  async getPresence(tripId: string): Promise<SessionPresence[]> {
+    const session = this.sessions.get(tripId);
+    if (!session) return [];
+
+    const now = Date.now();
+    return Array.from(session.values()).filter(presence => isFresh(presence, now));
+  }
+
+  async nextVersion(tripId: string): Promise<number> {
+    const version = (this.versions.get(tripId) || 0) + 1;
+    this.versions.set(tripId, version);
+    return version;
+  }
+
+  async getVersion(tripId: string): Promise<number> {
+    return this.versions.get(tripId) || 0;
+  }
+
+  // A single process has no other instances to reach
+  async publish(): Promise<void> {}
+
+  subscribe(): () => Promise<void> {
+    return async () => {};
+  }
+}
+
+/**
+ * Redis-backed store so several server instances (and the API routes) see the
+ * same sessions. Works against Upstash or any local Redis REST stand-in
+ * configured through UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN.
+ */
+export class RedisSessionStore implements CollaborationSessionStore {
+  constructor(private client: Redis, private keyPrefix = 'collab') {}
+
+  private presenceKey(tripId: string): string {
+    return `${this.keyPrefix}:trip:${tripId}:presence`;
+  }
+
+  private versionKey(tripId: string): string {
+    return `${this.keyPrefix}:trip:${tripId}:version`;
+  }
+
+  private get broadcastChannel(): string {
+    return `${this.keyPrefix}:broadcast`;
+  }
+
+  async addPresence(presence: SessionPresence): Promise<void> {
+    const key = this.presenceKey(presence.tripId);
+    await this.client.hset(key, { [presence.connectionId]: JSON.stringify(presence) });
+    await this.client.pexpire(key, PRESENCE_TTL_MS * 2);
+  }
+
+  async updatePresence(tripId: string, connectionId: string, updates: Partial<SessionPresence>): Promise<void> {
+    const key = this.presenceKey(tripId);
+    const existing = this.parse(await this.client.hget(key, connectionId));
+    if (!existing) return;
+
+    await this.client.hset(key, { [connectionId]: JSON.stringify({ ...existing, ...updates }) });
+    await this.client.pexpire(key, PRESENCE_TTL_MS * 2);
+  }
+
+  async removePresence(tripId: string, connectionId: string): Promise<void> {
+    await this.client.hdel(this.presenceKey(tripId), connectionId);
+  }
+
+  async getPresence(tripId: string): Promise<SessionPresence[]> {
+    const entries = await this.client.hgetall<Record<string, unknown>>(this.presenceKey(tripId));
+    if (!entries) return [];
+
+    const now = Date.now();
+    return Object.values(entries)
+      .map(value => this.parse(value))
+      .filter((presence): presence is SessionPresence => presence !== null && isFresh(presence, now));
+  }
+
+  async nextVersion(tripId: string): Promise<number> {
+    return this.client.incr(this.versionKey(tripId));
+  }
+
+  async getVersion(tripId: string): Promise<number> {
+    const version = await this.client.get<number | string>(this.versionKey(tripId));
+    return version ? Number(version) : 0;
+  }
+
+  async publish(envelope: BroadcastEnvelope): Promise<void> {
+    await this.client.publish(this.broadcastChannel, JSON.stringify(envelope));
+  }
+
+  subscribe(handler: (envelope: BroadcastEnvelope) => void): () => Promise<void> {
+    const subscriber = this.client.subscribe<unknown>(this.broadcastChannel);
+    subscriber.on('message', ({ message }) => {
+      const envelope = this.parse<BroadcastEnvelope>(message);
+      if (envelope?.tripId && envelope.message?.type) {
+        handler(envelope);
+      }
+    });
+    subscriber.on('error', error => {
+      console.error('Collaboration broadcast subscription error:', error);
+    });
+    return () => subscriber.unsubscribe();
+  }
+
+  // The Upstash client deserializes JSON automatically, so values may arrive
+  // either as strings or as already-parsed objects
+  private parse<T = SessionPresence>(value: unknown): T | null {
+    if (!value) return null;
+    if (typeof value === 'object') return value as T;
+
+    try {
+      return JSON.parse(value as string) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+let sharedStore: CollaborationSessionStore | null = null;
+
+/**
+ * Get the session store for this process: Redis when configured, otherwise
+ * an in-memory store
+ */
+export function getCollaborationSessionStore(): CollaborationSessionStore {
+  if (!sharedStore) {
+    const client = getRedisClient();
+    sharedStore = client ? new RedisSessionStore(client) : new InMemorySessionStore();
+  }
+  return sharedStore;
+}
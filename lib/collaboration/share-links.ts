@@ -0,0 +1,284 @@
+// Share Links
+// Public read-only access to a trip through a share token. The active token
+// lives in `shared_trips` (its primary key) and is mirrored on
+// `trips.sharedToken`; rotating or revoking replaces both.
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { and, eq, sql } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { itineraries, sharedTrips, trips, usageEvents, type SharedTrip, type Trip } from '@/lib/database/schema';
+import { emitCacheEvent } from '@/lib/cache/namespaces';
+
+export const SHARE_VIEW_EVENT = 'shared_trip_view';
+
+const SHARE_ACCESS_COOKIE_PREFIX = 'share_access_';
+
+export type SharedTripResolution =
+  | { status: 'ok'; share: SharedTrip; trip: Trip }
+  | { status: 'not_found' }
+  | { status: 'expired' };
+
+/**
+ * Generate a URL-safe share token (16 characters, fits shared_trips.id)
+ */
+export function generateShareToken(): string {
+  return randomBytes(12).toString('base64url');
+}
+
+export function getShareUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return `${appUrl}/share/${token}`;
+}
+
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifySharePassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function getShareAccessSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.CLERK_SECRET_KEY;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET is not configured');
+  }
+  return secret;
+}
+
+export function getShareAccessCookieName(token: string): string {
+  return `${SHARE_ACCESS_COOKIE_PREFIX}${token}`;
+}
+
+/**
+ * Proof that a visitor unlocked a password-protected share. It is bound to
+ * the current password hash, so changing the password locks visitors out.
+ */
+export function createShareAccessProof(token: string, passwordHash: string): string {
+  return createHmac('sha256', getShareAccessSecret())
+    .update(`${token}:${passwordHash}`)
+    .digest('base64url');
+}
+
+export function hasShareAccess(share: SharedTrip, proof: string | undefined): boolean {
+  if (!share.passwordHash) {
+    return true;
+  }
+  if (!proof) {
+    return false;
+  }
+
+  const expected = Buffer.from(createShareAccessProof(share.id, share.passwordHash));
+  const actual = Buffer.from(proof);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Resolve a share token to its trip, enforcing expiry
+ */
+export async function resolveSharedTrip(token: string): Promise<SharedTripResolution> {
+  if (!isDatabaseAvailable() || token.length > 16) {
+    return { status: 'not_found' };
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ share: sharedTrips, trip: trips })
+      .from(sharedTrips)
+      .innerJoin(trips, and(eq(sharedTrips.tripId, trips.id), eq(trips.sharedToken, sharedTrips.id)))
+      .where(eq(sharedTrips.id, token))
+      .limit(1);
+  });
+
+  if (!rows || rows.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const [{ share, trip }] = rows;
+  if (share.expiresAt && share.expiresAt < new Date()) {
+    return { status: 'expired' };
+  }
+
+  return { status: 'ok', share, trip };
+}
+
+/**
+ * Get the active share for a trip, if any
+ */
+export async function getActiveShare(tripId: string): Promise<SharedTrip | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ share: sharedTrips })
+      .from(sharedTrips)
+      .innerJoin(trips, and(eq(sharedTrips.tripId, trips.id), eq(trips.sharedToken, sharedTrips.id)))
+      .where(eq(sharedTrips.tripId, tripId))
+      .limit(1);
+  });
+
+  return rows?.[0]?.share || null;
+}
+
+/**
+ * Issue a new share token for a trip, replacing any existing one. Settings
+ * that are not given carry over from the replaced share.
+ */
+export async function createShare(
+  tripId: string,
+  userId: string,
+  options: { expiresAt?: Date | null; password?: string | null; allowComments?: boolean }
+): Promise<SharedTrip | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const existing = await getActiveShare(tripId);
+  const passwordHash = options.password === undefined
+    ? existing?.passwordHash ?? null
+    : options.password ? hashSharePassword(options.password) : null;
+
+  const created = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      await tx.delete(sharedTrips).where(eq(sharedTrips.tripId, tripId));
+
+      const [share] = await tx
+        .insert(sharedTrips)
+        .values({
+          id: generateShareToken(),
+          tripId,
+          createdBy: userId,
+          isPublic: true,
+          allowComments: options.allowComments ?? existing?.allowComments ?? false,
+          permissions: ['view'],
+          passwordHash,
+          expiresAt: options.expiresAt === undefined ? existing?.expiresAt ?? null : options.expiresAt,
+        })
+        .returning();
+
+      await tx
+        .update(trips)
+        .set({ sharedToken: share.id, status: 'shared', updatedAt: new Date() })
+        .where(eq(trips.id, tripId));
+
+      return share;
+    });
+  });
+
+  if (created) {
+    await emitCacheEvent('trip.updated', { tripId });
+  }
+  return created;
+}
+
+/**
+ * Update expiry, password or comment settings without rotating the token
+ */
+export async function updateShare(
+  tripId: string,
+  updates: { expiresAt?: Date | null; password?: string | null; allowComments?: boolean }
+): Promise<SharedTrip | null> {
+  const active = await getActiveShare(tripId);
+  if (!active) {
+    return null;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .update(sharedTrips)
+      .set({
+        ...(updates.expiresAt !== undefined && { expiresAt: updates.expiresAt }),
+        ...(updates.password !== undefined && {
+          passwordHash: updates.password ? hashSharePassword(updates.password) : null,
+        }),
+        ...(updates.allowComments !== undefined && { allowComments: updates.allowComments }),
+      })
+      .where(eq(sharedTrips.id, active.id))
+      .returning();
+  });
+
+  return rows?.[0] || null;
+}
+
+/**
+ * Revoke public access to a trip
+ */
+export async function revokeShare(tripId: string): Promise<boolean> {
+  if (!isDatabaseAvailable()) {
+    return false;
+  }
+
+  const result = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      await tx.delete(sharedTrips).where(eq(sharedTrips.tripId, tripId));
+      await tx
+        .update(trips)
+        .set({
+          sharedToken: null,
+          // Only undo the status sharing set; fall back to whether an itinerary exists
+          status: sql`CASE
+            WHEN ${trips.status} <> 'shared' THEN ${trips.status}
+            WHEN EXISTS (SELECT 1 FROM ${itineraries} WHERE ${itineraries.tripId} = ${trips.id}) THEN 'generated'::trip_status
+            ELSE 'draft'::trip_status
+          END`,
+          updatedAt: new Date(),
+        })
+        .where(eq(trips.id, tripId));
+      return true;
+    });
+  });
+
+  if (result === true) {
+    await emitCacheEvent('trip.updated', { tripId });
+  }
+  return result === true;
+}
+
+/**
+ * Record a view of a shared trip. Views are anonymous usage events.
+ */
+export async function recordShareView(share: SharedTrip): Promise<void> {
+  if (!isDatabaseAvailable()) {
+    return;
+  }
+
+  await withDatabase(async (db) => {
+    await db.insert(usageEvents).values({
+      userId: null,
+      eventType: SHARE_VIEW_EVENT,
+      eventData: { tripId: share.tripId, token: share.id },
+    });
+  });
+}
+
+/**
+ * Count views of a trip's shares, across rotated tokens
+ */
+export async function countShareViews(tripId: string): Promise<number> {
+  if (!isDatabaseAvailable()) {
+    return 0;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ views: sql<number>`count(*)` })
+      .from(usageEvents)
+      .where(and(
+        eq(usageEvents.eventType, SHARE_VIEW_EVENT),
+        sql`${usageEvents.eventData}->>'tripId' = ${tripId}`
+      ));
+  });
+
+  return Number(rows?.[0]?.views || 0);
+}
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "itinerary_ops" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"op_id" varchar(160) NOT NULL,
+	"op_type" varchar(24) NOT NULL,
+	"author" varchar(64),
+	"op" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "itinerary_ops_trip_op_idx" ON "itinerary_ops" ("trip_id","op_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "itinerary_ops_trip_id_idx" ON "itinerary_ops" ("trip_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "itinerary_ops" ADD CONSTRAINT "itinerary_ops_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,66 @@
+DO $$ BEGIN
+ CREATE TYPE "collaborator_role" AS ENUM('editor', 'viewer');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "invitation_status" AS ENUM('pending', 'accepted', 'revoked', 'expired');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "trip_collaborators" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"role" "collaborator_role" DEFAULT 'viewer' NOT NULL,
+	"invited_by" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "trip_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" "collaborator_role" DEFAULT 'viewer' NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"status" "invitation_status" DEFAULT 'pending' NOT NULL,
+	"invited_by" varchar(64) NOT NULL,
+	"accepted_by" varchar(64),
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "trip_collaborators_trip_user_idx" ON "trip_collaborators" ("trip_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_collaborators_user_id_idx" ON "trip_collaborators" ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "trip_invitations_token_idx" ON "trip_invitations" ("token");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_invitations_trip_id_idx" ON "trip_invitations" ("trip_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_invitations_email_idx" ON "trip_invitations" ("email");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_invitations_status_idx" ON "trip_invitations" ("status");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_collaborators" ADD CONSTRAINT "trip_collaborators_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_collaborators" ADD CONSTRAINT "trip_collaborators_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_invitations" ADD CONSTRAINT "trip_invitations_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_invitations" ADD CONSTRAINT "trip_invitations_invited_by_fk" FOREIGN KEY ("invited_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
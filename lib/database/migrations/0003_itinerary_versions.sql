@@ -0,0 +1,16 @@
+DO $$ BEGIN
+ CREATE TYPE "itinerary_source" AS ENUM('generated', 'edit', 'restore');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "itineraries" ADD COLUMN IF NOT EXISTS "source" "itinerary_source" DEFAULT 'generated' NOT NULL;--> statement-breakpoint
+ALTER TABLE "itineraries" ADD COLUMN IF NOT EXISTS "restored_from" integer;--> statement-breakpoint
+ALTER TABLE "itineraries" ADD COLUMN IF NOT EXISTS "created_by" varchar(64);--> statement-breakpoint
+UPDATE "itineraries" SET "version" = "ranked"."rn"
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY "trip_id" ORDER BY "created_at", "id") AS "rn"
+	FROM "itineraries"
+) AS "ranked"
+WHERE "itineraries"."id" = "ranked"."id";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "itineraries_trip_version_idx" ON "itineraries" ("trip_id","version");
@@ -0,0 +1 @@
+ALTER TABLE "shared_trips" ADD COLUMN IF NOT EXISTS "password_hash" varchar(255);
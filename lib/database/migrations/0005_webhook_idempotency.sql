@@ -0,0 +1,4 @@
+ALTER TABLE "webhooks" ADD COLUMN IF NOT EXISTS "event_id" varchar(128);--> statement-breakpoint
+ALTER TABLE "webhooks" ADD COLUMN IF NOT EXISTS "processed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "webhooks" ADD COLUMN IF NOT EXISTS "error" text;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "webhooks_source_event_idx" ON "webhooks" ("source","event_id");
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "usage_counters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"metric" varchar(48) NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "usage_counters_count_check" CHECK (count >= 0)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "usage_counters_user_metric_period_idx" ON "usage_counters" ("user_id","metric","period_start");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "usage_counters" ADD CONSTRAINT "usage_counters_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
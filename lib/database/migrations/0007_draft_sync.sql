@@ -0,0 +1,12 @@
+ALTER TABLE "draft_trips" ADD COLUMN IF NOT EXISTS "client_id" varchar(64);--> statement-breakpoint
+ALTER TABLE "draft_trips" ADD COLUMN IF NOT EXISTS "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "draft_trips" ADD COLUMN IF NOT EXISTS "device_id" varchar(64);--> statement-breakpoint
+UPDATE "draft_trips" SET "client_id" = "id"::text WHERE "client_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "draft_trips" ALTER COLUMN "client_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "draft_trips" ADD CONSTRAINT "draft_revision_check" CHECK (revision >= 1);
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "draft_trips_user_client_idx" ON "draft_trips" ("user_id","client_id");
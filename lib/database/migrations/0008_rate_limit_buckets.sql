@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "rate_limit_buckets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "rate_limit_buckets_key_window_idx" ON "rate_limit_buckets" ("key","window_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "rate_limit_buckets_expires_at_idx" ON "rate_limit_buckets" ("expires_at");
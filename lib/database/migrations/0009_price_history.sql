@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS "price_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"series" varchar(255) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"provider" varchar(32) NOT NULL,
+	"currency" varchar(8) NOT NULL,
+	"price" numeric(12, 2) NOT NULL,
+	"min_price" numeric(12, 2) NOT NULL,
+	"max_price" numeric(12, 2) NOT NULL,
+	"samples" integer DEFAULT 1 NOT NULL,
+	"granularity" varchar(8) DEFAULT 'raw' NOT NULL,
+	"travel_date" varchar(10),
+	"observed_at" timestamp NOT NULL,
+	CONSTRAINT "price_history_price_check" CHECK (price >= 0 AND min_price <= max_price),
+	CONSTRAINT "price_history_granularity_check" CHECK (granularity IN ('raw', 'daily'))
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "price_watches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"series" varchar(255) NOT NULL,
+	"label" varchar(200) NOT NULL,
+	"query" jsonb NOT NULL,
+	"travel_date" varchar(10) NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"last_price" numeric(12, 2),
+	"last_currency" varchar(8),
+	"last_checked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_history_series_observed_idx" ON "price_history" ("series","observed_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_history_granularity_observed_idx" ON "price_history" ("granularity","observed_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_watches_user_id_idx" ON "price_watches" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_watches_due_idx" ON "price_watches" ("active","last_checked_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "price_watches" ADD CONSTRAINT "price_watches_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
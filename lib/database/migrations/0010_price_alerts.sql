@@ -0,0 +1,88 @@
+CREATE TABLE IF NOT EXISTS "price_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"watch_id" uuid NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"series" varchar(255) NOT NULL,
+	"label" varchar(200) NOT NULL,
+	"currency" varchar(8) NOT NULL,
+	"target_price" numeric(12, 2),
+	"drop_percent" integer,
+	"baseline_price" numeric(12, 2),
+	"active" boolean DEFAULT true NOT NULL,
+	"last_notified_price" numeric(12, 2),
+	"last_notified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "price_alerts_threshold_check" CHECK (target_price IS NOT NULL OR (drop_percent BETWEEN 1 AND 90 AND baseline_price IS NOT NULL))
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"type" varchar(32) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"body" text NOT NULL,
+	"url" varchar(500),
+	"data" jsonb,
+	"dedupe_key" varchar(200) NOT NULL,
+	"pending_channels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"deliveries" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"deliver_after" timestamp,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notification_settings" (
+	"user_id" varchar(64) PRIMARY KEY NOT NULL,
+	"channels" jsonb DEFAULT '["email"]'::jsonb NOT NULL,
+	"quiet_hours_start" varchar(5),
+	"quiet_hours_end" varchar(5),
+	"timezone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "push_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"endpoint" text NOT NULL,
+	"p256dh" varchar(128) NOT NULL,
+	"auth" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_alerts_user_id_idx" ON "price_alerts" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "price_alerts_series_idx" ON "price_alerts" ("series");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "notifications_user_dedupe_idx" ON "notifications" ("user_id","dedupe_key");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notifications_user_created_idx" ON "notifications" ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notifications_deliver_after_idx" ON "notifications" ("deliver_after");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "push_subscriptions_endpoint_idx" ON "push_subscriptions" ("endpoint");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "push_subscriptions_user_id_idx" ON "push_subscriptions" ("user_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "price_alerts" ADD CONSTRAINT "price_alerts_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "price_alerts" ADD CONSTRAINT "price_alerts_watch_id_fk" FOREIGN KEY ("watch_id") REFERENCES "price_watches"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notification_settings" ADD CONSTRAINT "notification_settings_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "push_subscriptions" ADD CONSTRAINT "push_subscriptions_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,88 @@
+DO $$ BEGIN
+ CREATE TYPE "booking_status" AS ENUM('quoted', 'held', 'confirmed', 'modified', 'cancelled', 'refunded', 'expired');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bookings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"trip_id" uuid,
+	"reference" varchar(16) NOT NULL,
+	"status" "booking_status" DEFAULT 'quoted' NOT NULL,
+	"currency" varchar(8) NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"refunded_amount" numeric(12, 2),
+	"idempotency_key" varchar(128) NOT NULL,
+	"contact_email" varchar(255),
+	"travelers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"hold_expires_at" timestamp,
+	"quote_expires_at" timestamp NOT NULL,
+	"confirmed_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bookings_total_check" CHECK (total_amount >= 0)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"provider_id" varchar(64) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"offer_id" varchar(255) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"status" "booking_status" DEFAULT 'quoted' NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"currency" varchar(8) NOT NULL,
+	"hold_reference" varchar(128),
+	"provider_reference" varchar(128),
+	"refunded_amount" numeric(12, 2),
+	"details" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "booking_items_amount_check" CHECK (amount >= 0)
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "booking_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"action" varchar(16) NOT NULL,
+	"from_status" "booking_status",
+	"to_status" "booking_status" NOT NULL,
+	"idempotency_key" varchar(128),
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "bookings_user_idempotency_idx" ON "bookings" ("user_id","idempotency_key");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "bookings_reference_idx" ON "bookings" ("reference");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bookings_user_created_idx" ON "bookings" ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bookings_trip_id_idx" ON "bookings" ("trip_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bookings_status_idx" ON "bookings" ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_items_booking_id_idx" ON "booking_items" ("booking_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_events_booking_idempotency_idx" ON "booking_events" ("booking_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "booking_events_booking_created_idx" ON "booking_events" ("booking_id","created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_items" ADD CONSTRAINT "booking_items_booking_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "booking_events" ADD CONSTRAINT "booking_events_booking_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
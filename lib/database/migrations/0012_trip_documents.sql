@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "trip_documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"uploaded_by" varchar(64) NOT NULL,
+	"kind" varchar(16) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"content_type" varchar(100) NOT NULL,
+	"size" integer NOT NULL,
+	"sha256" varchar(64) NOT NULL,
+	"storage_key" varchar(255) NOT NULL,
+	"itinerary_item_id" varchar(255),
+	"booking_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "trip_documents_size_check" CHECK (size > 0)
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_documents_trip_id_idx" ON "trip_documents" ("trip_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trip_documents_uploaded_by_idx" ON "trip_documents" ("uploaded_by");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_documents" ADD CONSTRAINT "trip_documents_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_documents" ADD CONSTRAINT "trip_documents_uploaded_by_fk" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "trip_documents" ADD CONSTRAINT "trip_documents_booking_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
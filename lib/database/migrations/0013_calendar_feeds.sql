@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trip_id" uuid NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"last_accessed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_token_idx" ON "calendar_feeds" ("token");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_trip_user_idx" ON "calendar_feeds" ("trip_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "calendar_feeds_user_id_idx" ON "calendar_feeds" ("user_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_trip_id_fk" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
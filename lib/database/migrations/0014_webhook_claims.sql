@@ -0,0 +1,2 @@
+ALTER TABLE "webhooks" ADD COLUMN IF NOT EXISTS "claimed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "profiles" ADD COLUMN IF NOT EXISTS "subscription_event_at" timestamp;
@@ -0,0 +1,4 @@
+ALTER TABLE "itinerary_ops" ADD COLUMN IF NOT EXISTS "base_version" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "itineraries" ADD COLUMN IF NOT EXISTS "base_version" integer;--> statement-breakpoint
+DROP INDEX IF EXISTS "itinerary_ops_trip_op_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "itinerary_ops_trip_base_op_idx" ON "itinerary_ops" ("trip_id","base_version","op_id");
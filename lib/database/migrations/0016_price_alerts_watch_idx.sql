@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS "price_alerts_watch_id_idx" ON "price_alerts" ("watch_id");
@@ -12,6 +12,7 @@ import {
   check,
   foreignKey,
   index,
+  uniqueIndex,
   pgEnum,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
@@ -23,9 +24,13 @@ export const tripTypeEnum = pgEnum('trip_type', ['leisure', 'business', 'adventu
 export const budgetCurrencyEnum = pgEnum('budget_currency', ['INR', 'USD', 'EUR', 'GBP']);
 export const tripStatusEnum = pgEnum('trip_status', ['draft', 'generated', 'shared', 'archived']);
 export const generationStatusEnum = pgEnum('generation_status', ['pending', 'generating', 'completed', 'failed']);
+export const itinerarySourceEnum = pgEnum('itinerary_source', ['generated', 'edit', 'restore']);
 export const budgetBandEnum = pgEnum('budget_band', ['low', 'med', 'high']);
 export const paceEnum = pgEnum('pace', ['chill', 'standard', 'packed']);
 export const mobilityEnum = pgEnum('mobility', ['walk', 'public', 'car']);
+export const collaboratorRoleEnum = pgEnum('collaborator_role', ['editor', 'viewer']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'revoked', 'expired']);
+export const bookingStatusEnum = pgEnum('booking_status', ['quoted', 'held', 'confirmed', 'modified', 'cancelled', 'refunded', 'expired']);
 
 // Personalization enums for Phase 4.3
 export const preferenceTypeEnum = pgEnum('preference_type', [
@@ -68,6 +73,7 @@ export const profiles = pgTable("profiles", {
   subscriptionId: varchar("subscription_id", { length: 64 }), // Razorpay subscription ID
   razorpayCustomerId: varchar("razorpay_customer_id", { length: 64 }),
   subscriptionCurrentPeriodEnd: timestamp("subscription_current_period_end"),
+  subscriptionEventAt: timestamp("subscription_event_at"), // Provider time of the last applied billing event
   
   // Usage tracking
   tripsUsedThisMonth: integer("trips_used_this_month").default(0).notNull(),
@@ -127,10 +133,75 @@ export const trips = pgTable("trips", {
   sharedTokenIdx: index("trips_shared_token_idx").on(table.sharedToken),
 }));
 
+// Trip collaborators (the owner is trips.userId and is not listed here)
+export const tripCollaborators = pgTable("trip_collaborators", {
+  id: serial("id").primaryKey(),
+  tripId: uuid("trip_id").notNull(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  role: collaboratorRoleEnum("role").default("viewer").notNull(),
+  invitedBy: varchar("invited_by", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "trip_collaborators_trip_id_fk"
+  }),
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "trip_collaborators_user_id_fk"
+  }),
+  // One membership per user per trip
+  uniqueTripUser: uniqueIndex("trip_collaborators_trip_user_idx").on(table.tripId, table.userId),
+  // Indexes for performance
+  userIdIdx: index("trip_collaborators_user_id_idx").on(table.userId),
+}));
+
+// Pending and historical invitations to collaborate on a trip
+export const tripInvitations = pgTable("trip_invitations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  tripId: uuid("trip_id").notNull(),
+  email: varchar("email", { length: 255 }).notNull(),
+  role: collaboratorRoleEnum("role").default("viewer").notNull(),
+  token: varchar("token", { length: 64 }).notNull(),
+  status: invitationStatusEnum("status").default("pending").notNull(),
+  invitedBy: varchar("invited_by", { length: 64 }).notNull(),
+  acceptedBy: varchar("accepted_by", { length: 64 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "trip_invitations_trip_id_fk"
+  }),
+  invitedByFk: foreignKey({
+    columns: [table.invitedBy],
+    foreignColumns: [users.id],
+    name: "trip_invitations_invited_by_fk"
+  }),
+  // Check constraints
+  emailCheck: check("invitation_email_check", sql`LENGTH(email) > 3`),
+  // Indexes for performance
+  tokenIdx: uniqueIndex("trip_invitations_token_idx").on(table.token),
+  tripIdIdx: index("trip_invitations_trip_id_idx").on(table.tripId),
+  emailIdx: index("trip_invitations_email_idx").on(table.email),
+  statusIdx: index("trip_invitations_status_idx").on(table.status),
+}));
+
 // Draft trips for step-by-step progress saving
 export const draftTrips = pgTable("draft_trips", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: varchar("user_id", { length: 64 }).notNull(),
+  clientId: varchar("client_id", { length: 64 }).notNull(), // Stable ID generated by the device that started the draft
+  revision: integer("revision").default(1).notNull(), // Bumped on every save; used for compare-and-swap
+  deviceId: varchar("device_id", { length: 64 }), // Device that made the last save
   currentStep: varchar("current_step", { length: 24 }).default("destination").notNull(),
   completedSteps: jsonb("completed_steps").$type<string[]>().default([]).notNull(),
   formData: jsonb("form_data").notNull(), // Complete form data from all steps
@@ -149,8 +220,10 @@ export const draftTrips = pgTable("draft_trips", {
   // Check constraints
   currentStepCheck: check("current_step_check", sql`current_step IN ('destination', 'transport', 'rental', 'accommodation', 'activities', 'dining')`),
   titleCheck: check("title_check", sql`title IS NULL OR LENGTH(title) > 0`),
+  revisionCheck: check("draft_revision_check", sql`revision >= 1`),
   // Indexes for performance
   userIdIdx: index("draft_trips_user_id_idx").on(table.userId),
+  clientIdIdx: uniqueIndex("draft_trips_user_client_idx").on(table.userId, table.clientId),
   lastSavedIdx: index("draft_trips_last_saved_idx").on(table.lastSaved),
   currentStepIdx: index("draft_trips_current_step_idx").on(table.currentStep),
   createdAtIdx: index("draft_trips_created_at_idx").on(table.createdAt),
@@ -166,6 +239,10 @@ export const itineraries = pgTable("itineraries", {
   aiPrompt: text("ai_prompt"), // Original prompt sent to AI
   aiModel: varchar("ai_model", { length: 32 }), // gpt-4o-mini, etc.
   generationTime: integer("generation_time"), // Time taken in seconds
+  source: itinerarySourceEnum("source").default("generated").notNull(),
+  restoredFrom: integer("restored_from"), // Version this one was restored from
+  baseVersion: integer("base_version"), // Op-log base an edit snapshot was built from
+  createdBy: varchar("created_by", { length: 64 }), // Clerk user ID; null for system writes
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   // Foreign key to trips table
@@ -180,6 +257,31 @@ export const itineraries = pgTable("itineraries", {
   // Indexes for performance
   tripIdIdx: index("itineraries_trip_id_idx").on(table.tripId),
   createdAtIdx: index("itineraries_created_at_idx").on(table.createdAt),
+  // Versions are append-only, one row per version
+  tripVersionIdx: uniqueIndex("itineraries_trip_version_idx").on(table.tripId, table.version),
+}));
+
+// Itinerary CRDT operation log; itineraries.data can be rebuilt from it
+export const itineraryOps = pgTable("itinerary_ops", {
+  id: serial("id").primaryKey(),
+  tripId: uuid("trip_id").notNull(),
+  opId: varchar("op_id", { length: 160 }).notNull(), // replicaId:counter
+  opType: varchar("op_type", { length: 24 }).notNull(),
+  author: varchar("author", { length: 64 }), // Clerk user ID
+  baseVersion: integer("base_version").default(0).notNull(), // Itinerary version the log was seeded from
+  op: jsonb("op").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to trips table
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "itinerary_ops_trip_id_fk"
+  }),
+  // Ops are idempotent; the same op is stored once per trip and base
+  uniqueTripOp: uniqueIndex("itinerary_ops_trip_base_op_idx").on(table.tripId, table.baseVersion, table.opId),
+  // Indexes for performance
+  tripIdIdx: index("itinerary_ops_trip_id_idx").on(table.tripId),
 }));
 
 // Places cache for fast lookups
@@ -254,6 +356,7 @@ export const sharedTrips = pgTable("shared_trips", {
   isPublic: boolean("is_public").default(false),
   allowComments: boolean("allow_comments").default(false),
   permissions: jsonb("permissions").notNull().default(['view']),
+  passwordHash: varchar("password_hash", { length: 255 }), // scrypt salt:hash; null when not password protected
   expiresAt: timestamp("expires_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
@@ -278,11 +381,18 @@ export const sharedTrips = pgTable("shared_trips", {
 export const webhooks = pgTable("webhooks", {
   id: serial("id").primaryKey(),
   source: varchar("source", { length: 24 }).notNull(), // razorpay/clerk
+  eventId: varchar("event_id", { length: 128 }), // Provider delivery ID, used for idempotency
   eventType: varchar("event_type", { length: 64 }),
   payload: jsonb("payload").notNull(),
   processed: boolean("processed").default(false),
+  processedAt: timestamp("processed_at"),
+  claimedAt: timestamp("claimed_at"), // Set while a delivery is being handled
+  error: text("error"), // Last processing error, if any
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // Each provider event is stored once
+  sourceEventIdx: uniqueIndex("webhooks_source_event_idx").on(table.source, table.eventId),
+}));
 
 // Usage analytics
 export const usageEvents = pgTable("usage_events", {
@@ -306,6 +416,356 @@ export const usageEvents = pgTable("usage_events", {
   createdAtIdx: index("usage_events_created_at_idx").on(table.createdAt),
 }));
 
+// Metered usage per user, metric and billing period
+export const usageCounters = pgTable("usage_counters", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  metric: varchar("metric", { length: 48 }).notNull(), // trips/exports/ai:<feature>
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  count: integer("count").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to users table
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "usage_counters_user_id_fk"
+  }),
+  // Check constraints
+  countCheck: check("usage_counters_count_check", sql`count >= 0`),
+  // One counter per metric per billing period
+  userMetricPeriodIdx: uniqueIndex("usage_counters_user_metric_period_idx").on(table.userId, table.metric, table.periodStart),
+}));
+
+// Fixed-window request counters for the Postgres rate limiter store
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 255 }).notNull(), // rate_limit:<budget>:<user or ip>
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  // One counter per key per window
+  keyWindowIdx: uniqueIndex("rate_limit_buckets_key_window_idx").on(table.key, table.windowStart),
+  expiresAtIdx: index("rate_limit_buckets_expires_at_idx").on(table.expiresAt),
+}));
+
+// Observed prices per flight route / hotel location series. Raw rows are
+// rolled up into one daily row per provider after RAW_RETENTION_DAYS.
+export const priceHistory = pgTable("price_history", {
+  id: serial("id").primaryKey(),
+  series: varchar("series", { length: 255 }).notNull(), // flight:JFK-LHR:economy / hotel:paris
+  kind: varchar("kind", { length: 16 }).notNull(), // flight/hotel/transport/car_rental
+  provider: varchar("provider", { length: 32 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  price: numeric("price", { precision: 12, scale: 2 }).notNull(), // Average price for daily rows
+  minPrice: numeric("min_price", { precision: 12, scale: 2 }).notNull(),
+  maxPrice: numeric("max_price", { precision: 12, scale: 2 }).notNull(),
+  samples: integer("samples").default(1).notNull(),
+  granularity: varchar("granularity", { length: 8 }).default('raw').notNull(), // raw/daily
+  travelDate: varchar("travel_date", { length: 10 }), // YYYY-MM-DD departure or check-in
+  observedAt: timestamp("observed_at").notNull(),
+}, (table) => ({
+  // Check constraints
+  priceCheck: check("price_history_price_check", sql`price >= 0 AND min_price <= max_price`),
+  granularityCheck: check("price_history_granularity_check", sql`granularity IN ('raw', 'daily')`),
+  // Indexes for performance
+  seriesObservedIdx: index("price_history_series_observed_idx").on(table.series, table.observedAt),
+  granularityObservedIdx: index("price_history_granularity_observed_idx").on(table.granularity, table.observedAt),
+}));
+
+// Searches the price tracking job re-runs on a schedule
+export const priceWatches = pgTable("price_watches", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 16 }).notNull(), // flight/hotel/car_rental
+  series: varchar("series", { length: 255 }).notNull(),
+  label: varchar("label", { length: 200 }).notNull(),
+  query: jsonb("query").notNull(), // FlightSearchQuery / HotelSearchQuery / CarRentalSearchQuery
+  travelDate: varchar("travel_date", { length: 10 }).notNull(), // Tracking stops after this date
+  active: boolean("active").default(true).notNull(),
+  lastPrice: numeric("last_price", { precision: 12, scale: 2 }),
+  lastCurrency: varchar("last_currency", { length: 8 }),
+  lastCheckedAt: timestamp("last_checked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to users table
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "price_watches_user_id_fk"
+  }),
+  // Indexes for performance
+  userIdIdx: index("price_watches_user_id_idx").on(table.userId),
+  dueIdx: index("price_watches_due_idx").on(table.active, table.lastCheckedAt),
+}));
+
+// Price drop alerts on a watched search: fire below a target price or a
+// percentage under the price when the alert was created
+export const priceAlerts = pgTable("price_alerts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  watchId: uuid("watch_id").notNull(),
+  kind: varchar("kind", { length: 16 }).notNull(), // flight/hotel/car_rental
+  series: varchar("series", { length: 255 }).notNull(),
+  label: varchar("label", { length: 200 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  targetPrice: numeric("target_price", { precision: 12, scale: 2 }),
+  dropPercent: integer("drop_percent"),
+  baselinePrice: numeric("baseline_price", { precision: 12, scale: 2 }),
+  active: boolean("active").default(true).notNull(),
+  lastNotifiedPrice: numeric("last_notified_price", { precision: 12, scale: 2 }), // Cleared when the price rises back above the threshold
+  lastNotifiedAt: timestamp("last_notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "price_alerts_user_id_fk"
+  }),
+  watchIdFk: foreignKey({
+    columns: [table.watchId],
+    foreignColumns: [priceWatches.id],
+    name: "price_alerts_watch_id_fk"
+  }),
+  // Check constraints
+  thresholdCheck: check("price_alerts_threshold_check", sql`target_price IS NOT NULL OR (drop_percent BETWEEN 1 AND 90 AND baseline_price IS NOT NULL)`),
+  // Indexes for performance
+  userIdIdx: index("price_alerts_user_id_idx").on(table.userId),
+  seriesIdx: index("price_alerts_series_idx").on(table.series),
+  watchIdIdx: index("price_alerts_watch_id_idx").on(table.watchId),
+}));
+
+// In-app inbox; every notification is stored here first, then delivered to
+// the user's other channels
+export const notifications = pgTable("notifications", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  type: varchar("type", { length: 32 }).notNull(), // price_alert/deal
+  title: varchar("title", { length: 200 }).notNull(),
+  body: text("body").notNull(),
+  url: varchar("url", { length: 500 }),
+  data: jsonb("data"),
+  dedupeKey: varchar("dedupe_key", { length: 200 }).notNull(),
+  pendingChannels: jsonb("pending_channels").$type<string[]>().default([]).notNull(), // email/push still to deliver
+  deliveries: jsonb("deliveries").$type<Record<string, string>>().default({}).notNull(), // channel -> sent/failed/skipped
+  deliverAfter: timestamp("deliver_after"), // End of quiet hours
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to users table
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notifications_user_id_fk"
+  }),
+  // One notification per user per dedupe key
+  userDedupeIdx: uniqueIndex("notifications_user_dedupe_idx").on(table.userId, table.dedupeKey),
+  userCreatedIdx: index("notifications_user_created_idx").on(table.userId, table.createdAt),
+  deliverAfterIdx: index("notifications_deliver_after_idx").on(table.deliverAfter),
+}));
+
+// Per-user delivery channels and quiet hours
+export const notificationSettings = pgTable("notification_settings", {
+  userId: varchar("user_id", { length: 64 }).primaryKey(),
+  channels: jsonb("channels").$type<string[]>().default(['email']).notNull(), // email/push; in-app is always on
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }), // HH:MM local time
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }),
+  timezone: varchar("timezone", { length: 64 }).default('UTC').notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to users table
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notification_settings_user_id_fk"
+  }),
+}));
+
+// Browser push endpoints registered by the service worker
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  endpoint: text("endpoint").notNull(),
+  p256dh: varchar("p256dh", { length: 128 }).notNull(),
+  auth: varchar("auth", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to users table
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "push_subscriptions_user_id_fk"
+  }),
+  endpointIdx: uniqueIndex("push_subscriptions_endpoint_idx").on(table.endpoint),
+  userIdIdx: index("push_subscriptions_user_id_idx").on(table.userId),
+}));
+
+// Bookings made through provider adapters; the status follows the booking
+// state machine in lib/booking/bookings.ts
+export const bookings = pgTable("bookings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: varchar("user_id", { length: 64 }).notNull(),
+  tripId: uuid("trip_id"), // Cleared when the trip is deleted; the booking stays
+  reference: varchar("reference", { length: 16 }).notNull(),
+  status: bookingStatusEnum("status").default("quoted").notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
+  refundedAmount: numeric("refunded_amount", { precision: 12, scale: 2 }),
+  idempotencyKey: varchar("idempotency_key", { length: 128 }).notNull(), // Key of the request that created the quote
+  contactEmail: varchar("contact_email", { length: 255 }),
+  travelers: jsonb("travelers").default([]).notNull(),
+  holdExpiresAt: timestamp("hold_expires_at"),
+  quoteExpiresAt: timestamp("quote_expires_at").notNull(),
+  confirmedAt: timestamp("confirmed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "bookings_user_id_fk"
+  }),
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "bookings_trip_id_fk"
+  }),
+  // Check constraints
+  totalCheck: check("bookings_total_check", sql`total_amount >= 0`),
+  // One booking per user per idempotency key
+  userIdempotencyIdx: uniqueIndex("bookings_user_idempotency_idx").on(table.userId, table.idempotencyKey),
+  referenceIdx: uniqueIndex("bookings_reference_idx").on(table.reference),
+  // Indexes for performance
+  userCreatedIdx: index("bookings_user_created_idx").on(table.userId, table.createdAt),
+  tripIdIdx: index("bookings_trip_id_idx").on(table.tripId),
+  statusIdx: index("bookings_status_idx").on(table.status),
+}));
+
+// One offer within a booking, held and confirmed with its own provider
+export const bookingItems = pgTable("booking_items", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  bookingId: uuid("booking_id").notNull(),
+  providerId: varchar("provider_id", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 16 }).notNull(), // flight/hotel/car_rental/activity/train/bus
+  offerId: varchar("offer_id", { length: 255 }).notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  status: bookingStatusEnum("status").default("quoted").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 8 }).notNull(),
+  holdReference: varchar("hold_reference", { length: 128 }),
+  providerReference: varchar("provider_reference", { length: 128 }), // Provider's confirmation number
+  refundedAmount: numeric("refunded_amount", { precision: 12, scale: 2 }),
+  details: jsonb("details").default({}).notNull(), // Offer snapshot from the provider
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to bookings table
+  bookingIdFk: foreignKey({
+    columns: [table.bookingId],
+    foreignColumns: [bookings.id],
+    name: "booking_items_booking_id_fk"
+  }),
+  // Check constraints
+  amountCheck: check("booking_items_amount_check", sql`amount >= 0`),
+  // Indexes for performance
+  bookingIdIdx: index("booking_items_booking_id_idx").on(table.bookingId),
+}));
+
+// Audit trail of booking transitions; the idempotency key of each action
+// request makes retries return the recorded outcome instead of acting twice
+export const bookingEvents = pgTable("booking_events", {
+  id: serial("id").primaryKey(),
+  bookingId: uuid("booking_id").notNull(),
+  action: varchar("action", { length: 16 }).notNull(), // quote/hold/confirm/reprice/modify/cancel/refund/expire
+  fromStatus: bookingStatusEnum("from_status"),
+  toStatus: bookingStatusEnum("to_status").notNull(),
+  idempotencyKey: varchar("idempotency_key", { length: 128 }),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign key to bookings table
+  bookingIdFk: foreignKey({
+    columns: [table.bookingId],
+    foreignColumns: [bookings.id],
+    name: "booking_events_booking_id_fk"
+  }),
+  // One recorded outcome per booking per idempotency key
+  bookingIdempotencyIdx: uniqueIndex("booking_events_booking_idempotency_idx").on(table.bookingId, table.idempotencyKey),
+  bookingCreatedIdx: index("booking_events_booking_created_idx").on(table.bookingId, table.createdAt),
+}));
+
+// Travel documents in a trip's wallet; the file itself is in object storage
+export const tripDocuments = pgTable("trip_documents", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  tripId: uuid("trip_id").notNull(),
+  uploadedBy: varchar("uploaded_by", { length: 64 }).notNull(),
+  kind: varchar("kind", { length: 16 }).notNull(), // ticket/voucher/visa/insurance/passport/other
+  title: varchar("title", { length: 200 }).notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  sha256: varchar("sha256", { length: 64 }).notNull(),
+  storageKey: varchar("storage_key", { length: 255 }).notNull(),
+  itineraryItemId: varchar("itinerary_item_id", { length: 255 }), // Day or activity ID in the trip's itinerary
+  bookingId: uuid("booking_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "trip_documents_trip_id_fk"
+  }),
+  uploadedByFk: foreignKey({
+    columns: [table.uploadedBy],
+    foreignColumns: [users.id],
+    name: "trip_documents_uploaded_by_fk"
+  }),
+  bookingIdFk: foreignKey({
+    columns: [table.bookingId],
+    foreignColumns: [bookings.id],
+    name: "trip_documents_booking_id_fk"
+  }),
+  // Check constraints
+  sizeCheck: check("trip_documents_size_check", sql`size > 0`),
+  // Indexes for performance
+  tripIdIdx: index("trip_documents_trip_id_idx").on(table.tripId),
+  uploadedByIdx: index("trip_documents_uploaded_by_idx").on(table.uploadedBy),
+}));
+
+// Secret calendar subscription (webcal) URLs, one per member of a trip
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  tripId: uuid("trip_id").notNull(),
+  userId: varchar("user_id", { length: 64 }).notNull(), // Whose access and bookings the feed reflects
+  token: varchar("token", { length: 64 }).notNull(),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  // Foreign keys
+  tripIdFk: foreignKey({
+    columns: [table.tripId],
+    foreignColumns: [trips.id],
+    name: "calendar_feeds_trip_id_fk"
+  }),
+  userIdFk: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "calendar_feeds_user_id_fk"
+  }),
+  // Indexes for performance
+  tokenIdx: uniqueIndex("calendar_feeds_token_idx").on(table.token),
+  tripUserIdx: uniqueIndex("calendar_feeds_trip_user_idx").on(table.tripId, table.userId),
+  userIdIdx: index("calendar_feeds_user_id_idx").on(table.userId),
+}));
+
 // ==================== PERSONALIZATION TABLES - PHASE 4.3 ====================
 
 // User preference profiles for personalized recommendations
@@ -460,11 +920,28 @@ export const personalizedRecommendations = pgTable("personalized_recommendations
 export type User = typeof users.$inferSelect;
 export type Profile = typeof profiles.$inferSelect;
 export type Trip = typeof trips.$inferSelect;
+export type TripCollaborator = typeof tripCollaborators.$inferSelect;
+export type TripInvitation = typeof tripInvitations.$inferSelect;
 export type DraftTrip = typeof draftTrips.$inferSelect;
 export type Itinerary = typeof itineraries.$inferSelect;
+export type ItineraryOpRecord = typeof itineraryOps.$inferSelect;
 export type Place = typeof places.$inferSelect;
 export type PriceQuote = typeof priceQuotes.$inferSelect;
 export type SharedTrip = typeof sharedTrips.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type UsageCounter = typeof usageCounters.$inferSelect;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type PriceHistoryRecord = typeof priceHistory.$inferSelect;
+export type PriceWatch = typeof priceWatches.$inferSelect;
+export type PriceAlert = typeof priceAlerts.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationSettings = typeof notificationSettings.$inferSelect;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type Booking = typeof bookings.$inferSelect;
+export type BookingItemRecord = typeof bookingItems.$inferSelect;
+export type BookingEvent = typeof bookingEvents.$inferSelect;
+export type TripDocument = typeof tripDocuments.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
 
 // Personalization type exports - Phase 4.3
 export type UserPreference = typeof userPreferences.$inferSelect;
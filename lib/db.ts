@@ -5,6 +5,9 @@ import * as schema from './database/schema';
 // Type for the database instance
 type DatabaseType = ReturnType<typeof drizzle<typeof schema>>;
 
+// Type for the handle passed to db.transaction callbacks
+export type DatabaseTransaction = Parameters<Parameters<DatabaseType['transaction']>[0]>[0];
+
 // Database URL with proper fallbacks
 function getDatabaseURL(): string | null {
   const url = process.env.DATABASE_URL;
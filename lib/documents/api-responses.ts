@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import type { TripDocumentResult } from './trip-documents';
+
+/**
+ * HTTP response for the outcome of a document upload or update. Null means
+ * the database is unavailable.
+ */
+export function documentResultResponse(result: TripDocumentResult | null): NextResponse {
+  if (!result) {
+    return NextResponse.json(
+      { error: 'Service temporarily unavailable', details: 'Database not configured' },
+      { status: 503 }
+    );
+  }
+
+  switch (result.status) {
+    case 'created':
+    case 'ok':
+      return NextResponse.json(
+        { success: true, document: result.document },
+        { status: result.status === 'created' ? 201 : 200 }
+      );
+    case 'not_found':
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    case 'unsupported_type':
+      return NextResponse.json(
+        { error: 'Unsupported file type', details: 'Upload a PDF, PNG, JPEG, WebP or HEIC file' },
+        { status: 415 }
+      );
+    case 'too_large':
+      return NextResponse.json(
+        { error: 'File too large', details: `Documents are limited to ${result.maxBytes / (1024 * 1024)} MB` },
+        { status: 413 }
+      );
+    case 'limit_reached':
+      return NextResponse.json(
+        { error: 'Document limit reached', details: `A trip can hold up to ${result.limit} documents` },
+        { status: 409 }
+      );
+    case 'unknown_item':
+      return NextResponse.json(
+        { error: 'Itinerary item not found', details: result.itineraryItemId },
+        { status: 422 }
+      );
+    case 'unknown_booking':
+      return NextResponse.json(
+        { error: 'Booking not found on this trip', details: result.bookingId },
+        { status: 422 }
+      );
+  }
+}
@@ -0,0 +1,150 @@
+// DOCX Documents
+// Writes simple Word documents (headings, paragraphs, bullets and tables)
+// as Office Open XML. Only the parts Word requires are emitted, plus a small
+// style sheet so headings render as headings and appear in the navigation
+// pane.
+
+import { createZip } from './zip';
+
+export type DocxBlock =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; level: 1 | 2; text: string }
+  | { type: 'paragraph'; text: string; bold?: boolean; italic?: boolean }
+  | { type: 'bullet'; text: string }
+  | { type: 'table'; header?: string[]; rows: string[][] }
+  | { type: 'pageBreak' };
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function headingStyle(id: string, name: string, size: number, outline?: number): string {
+  return `  <w:style w:type="paragraph" w:styleId="${id}">
+    <w:name w:val="${name}"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/>${outline === undefined ? '' : `<w:outlineLvl w:val="${outline}"/>`}</w:pPr>
+    <w:rPr><w:b/><w:color w:val="1F3A5F"/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>`;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NAMESPACE}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="100"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headingStyle('Title', 'Title', 40)}
+${headingStyle('Heading1', 'heading 1', 30, 0)}
+${headingStyle('Heading2', 'heading 2', 25, 1)}
+  <w:style w:type="table" w:styleId="TableGrid">
+    <w:name w:val="Table Grid"/>
+    <w:tblPr><w:tblBorders>
+      <w:top w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+      <w:left w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+      <w:bottom w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+      <w:right w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+      <w:insideH w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+      <w:insideV w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>
+    </w:tblBorders></w:tblPr>
+  </w:style>
+</w:styles>`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Characters XML 1.0 does not allow at all
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// Line breaks inside a run become <w:br/>
+function run(text: string, format: { bold?: boolean; italic?: boolean } = {}): string {
+  const properties = `${format.bold ? '<w:b/>' : ''}${format.italic ? '<w:i/>' : ''}`;
+  const content = text
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(text: string, options: { style?: string; bold?: boolean; italic?: boolean; indent?: number } = {}): string {
+  const properties = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+    options.indent ? `<w:ind w:left="${options.indent}" w:hanging="240"/>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${run(text, options)}</w:p>`;
+}
+
+function table(header: string[] | undefined, rows: string[][]): string {
+  const cell = (text: string, bold: boolean) => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(text, { bold })}</w:tc>`;
+  const headerRow = header ? `<w:tr><w:trPr><w:tblHeader/></w:trPr>${header.map(text => cell(text, true)).join('')}</w:tr>` : '';
+  const bodyRows = rows.map(row => `<w:tr>${row.map(text => cell(text, false)).join('')}</w:tr>`).join('');
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>${headerRow}${bodyRows}</w:tbl>`;
+}
+
+function renderBlock(block: DocxBlock): string {
+  switch (block.type) {
+    case 'title':
+      return paragraph(block.text, { style: 'Title' });
+    case 'heading':
+      return paragraph(block.text, { style: `Heading${block.level}` });
+    case 'paragraph':
+      return paragraph(block.text, block);
+    case 'bullet':
+      return paragraph(`•\t${block.text}`, { indent: 480 });
+    case 'table':
+      // Word needs a paragraph between adjacent tables
+      return `${table(block.header, block.rows)}<w:p/>`;
+    case 'pageBreak':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+  }
+}
+
+/**
+ * Build a .docx file from blocks
+ */
+export function createDocx(blocks: DocxBlock[], metadata: { title: string; createdAt?: Date }): Uint8Array {
+  const body = blocks.map(renderBlock).join('');
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const created = (metadata.createdAt || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(metadata.title)}</dc:title>
+  <dc:creator>Tripthesia</dc:creator>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+</cp:coreProperties>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELATIONSHIPS },
+    { name: 'word/styles.xml', data: STYLES },
+  ]);
+}
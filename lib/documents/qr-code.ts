@@ -0,0 +1,298 @@
+// QR Codes
+// Minimal QR code encoder for vouchers: byte mode, error correction level M,
+// versions 1-6 (up to 106 bytes), which covers booking references and
+// short URLs. Returns the module matrix; callers draw it in their own
+// format. Follows ISO/IEC 18004, choosing the mask with the lowest penalty.
+
+// Per version (index 0 = version 1): total codewords, EC codewords per block, blocks
+const VERSIONS: Array<{ codewords: number; ecPerBlock: number; blocks: number; alignment: number[] }> = [
+  { codewords: 26, ecPerBlock: 10, blocks: 1, alignment: [] },
+  { codewords: 44, ecPerBlock: 16, blocks: 1, alignment: [6, 18] },
+  { codewords: 70, ecPerBlock: 26, blocks: 1, alignment: [6, 22] },
+  { codewords: 100, ecPerBlock: 18, blocks: 2, alignment: [6, 26] },
+  { codewords: 134, ecPerBlock: 24, blocks: 2, alignment: [6, 30] },
+  { codewords: 172, ecPerBlock: 16, blocks: 4, alignment: [6, 34] },
+];
+
+const EC_LEVEL_M_BITS = 0;
+
+export class QrCodeCapacityError extends Error {
+  constructor(length: number) {
+    super(`Text of ${length} bytes is too long for a QR code`);
+    this.name = 'QrCodeCapacityError';
+  }
+}
+
+// ==================== REED-SOLOMON ====================
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ==================== CODEWORDS ====================
+
+function encodeData(bytes: number[], dataCodewords: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, 8);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, dataCodewords * 8 - bits.length)); // Terminator
+  append(0, (8 - bits.length % 8) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  for (let pad = 0xec; codewords.length < dataCodewords; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+// Split into blocks, add error correction and interleave
+function addErrorCorrection(data: number[], version: typeof VERSIONS[number]): number[] {
+  const shortBlocks = version.blocks - version.codewords % version.blocks;
+  const shortLength = Math.floor(version.codewords / version.blocks) - version.ecPerBlock;
+  const divisor = reedSolomonDivisor(version.ecPerBlock);
+
+  const blocks: Array<{ data: number[]; ec: number[] }> = [];
+  let offset = 0;
+  for (let i = 0; i < version.blocks; i++) {
+    const length = shortLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data: block, ec: reedSolomonRemainder(block, divisor) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength; i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < version.ecPerBlock; i++) {
+    blocks.forEach(block => result.push(block.ec[i]));
+  }
+  return result;
+}
+
+// ==================== MATRIX ====================
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns(alignment: number[]): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    [[3, 3], [this.size - 4, 3], [3, this.size - 4]].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    const last = alignment.length - 1;
+    alignment.forEach((cx, i) => alignment.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    this.drawFormatBits(0);
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (EC_LEVEL_M_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true); // Dark module
+  }
+
+  // Zigzag through two-column strips from the bottom right, skipping the timing column
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penalty(): number {
+    let score = 0;
+    const lines = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x])),
+    ];
+
+    lines.forEach(line => {
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+
+      const pattern = line.map(dark => (dark ? '1' : '0')).join('');
+      score += 40 * (pattern.match(/(?=10111010000|00001011101)/g) || []).length;
+    });
+
+    for (let y = 0; y + 1 < this.size; y++) {
+      for (let x = 0; x + 1 < this.size; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+  }
+}
+
+/**
+ * Encode text as a QR code. Returns rows of modules, true for dark, without
+ * the quiet zone; leave four modules of white space around it when drawing.
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const versionIndex = VERSIONS.findIndex(version =>
+    4 + 8 + bytes.length * 8 <= (version.codewords - version.ecPerBlock * version.blocks) * 8
+  );
+  if (versionIndex < 0) {
+    throw new QrCodeCapacityError(bytes.length);
+  }
+
+  const version = VERSIONS[versionIndex];
+  const data = encodeData(bytes, version.codewords - version.ecPerBlock * version.blocks);
+  const codewords = addErrorCorrection(data, version);
+
+  let best: QrMatrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const matrix = new QrMatrix(versionIndex + 1);
+    matrix.drawFunctionPatterns(version.alignment);
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  return best!.modules;
+}
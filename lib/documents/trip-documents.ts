@@ -0,0 +1,332 @@
+// Trip Documents
+// Per-trip wallet of travel documents (tickets, visas, insurance...). Files
+// go to object storage under trips/<tripId>/documents/<documentId>; the
+// `trip_documents` row holds the metadata and an optional link to a day or
+// activity of the itinerary and to a booking on the same trip.
+
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { z } from 'zod';
+import { and, count, desc, eq } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { bookings, tripDocuments, type TripDocument } from '@/lib/database/schema';
+import { findItineraryItem, getItineraryVersion, type ItineraryItemRef } from '@/lib/planning/itinerary-versions';
+import { getObjectStore, type StoredObject } from '@/lib/storage/object-store';
+
+export const DOCUMENT_KINDS = ['ticket', 'voucher', 'visa', 'insurance', 'passport', 'other'] as const;
+export type DocumentKind = typeof DOCUMENT_KINDS[number];
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENTS_PER_TRIP = 100;
+
+// Magic bytes of the accepted formats; the client's content type is not trusted
+const SIGNATURES: Array<{ contentType: string; extension: string; matches: (data: Buffer) => boolean }> = [
+  { contentType: 'application/pdf', extension: 'pdf', matches: data => data.subarray(0, 5).toString('latin1') === '%PDF-' },
+  { contentType: 'image/png', extension: 'png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/jpeg', extension: 'jpg', matches: data => data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { contentType: 'image/webp', extension: 'webp', matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { contentType: 'image/heic', extension: 'heic', matches: data => data.subarray(4, 8).toString('latin1') === 'ftyp' && ['heic', 'heix', 'mif1'].includes(data.subarray(8, 12).toString('latin1')) },
+];
+
+export const tripDocumentMetadataSchema = z.object({
+  kind: z.enum(DOCUMENT_KINDS).default('other'),
+  title: z.string().trim().min(1).max(200).optional(),
+  itineraryItemId: z.string().min(1).max(255).nullable().optional(),
+  bookingId: z.string().uuid().nullable().optional(),
+});
+
+export const tripDocumentUpdateSchema = tripDocumentMetadataSchema
+  .extend({ kind: z.enum(DOCUMENT_KINDS).optional() })
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export type TripDocumentMetadata = z.infer<typeof tripDocumentMetadataSchema>;
+export type TripDocumentUpdate = z.infer<typeof tripDocumentUpdateSchema>;
+
+export interface TripDocumentUpload extends TripDocumentMetadata {
+  fileName: string;
+  data: Buffer;
+}
+
+export interface TripDocumentView extends Omit<TripDocument, 'storageKey'> {
+  itineraryItem: ItineraryItemRef | null;
+  downloadUrl: string;
+}
+
+type LinkError = { status: 'unknown_item'; itineraryItemId: string } | { status: 'unknown_booking'; bookingId: string };
+
+export type TripDocumentResult =
+  | { status: 'created' | 'ok'; document: TripDocumentView }
+  | { status: 'not_found' }
+  | { status: 'unsupported_type' }
+  | { status: 'too_large'; maxBytes: number }
+  | { status: 'limit_reached'; limit: number }
+  | LinkError;
+
+// ==================== HELPERS ====================
+
+export function detectDocumentType(data: Buffer): { contentType: string; extension: string } | null {
+  const signature = SIGNATURES.find(candidate => candidate.matches(data));
+  return signature ? { contentType: signature.contentType, extension: signature.extension } : null;
+}
+
+function storageKeyFor(tripId: string, documentId: string): string {
+  return `trips/${tripId}/documents/${documentId}`;
+}
+
+// Base name only, without control characters or quotes that would break the download header
+function sanitizeFileName(fileName: string, extension: string): string {
+  const base = path.basename(fileName.replace(/\\/g, '/'))
+    .replace(/[\u0000-\u001f\u007f"]/g, '')
+    .trim()
+    .slice(0, 200);
+  return base || `document.${extension}`;
+}
+
+function toView(document: TripDocument, itineraryItem: ItineraryItemRef | null): TripDocumentView {
+  const { storageKey: _storageKey, ...rest } = document;
+  return {
+    ...rest,
+    itineraryItem,
+    downloadUrl: `/api/trips/${document.tripId}/documents/${document.id}`,
+  };
+}
+
+async function loadItineraryData(tripId: string): Promise<unknown> {
+  const itinerary = await getItineraryVersion(tripId);
+  return itinerary?.data ?? null;
+}
+
+/**
+ * Check that the linked itinerary item exists in the current version and
+ * the linked booking belongs to the same trip
+ */
+async function validateLinks(
+  tripId: string,
+  links: { itineraryItemId?: string | null; bookingId?: string | null },
+  itinerary: unknown
+): Promise<LinkError | null> {
+  if (links.itineraryItemId && !findItineraryItem(itinerary, links.itineraryItemId)) {
+    return { status: 'unknown_item', itineraryItemId: links.itineraryItemId };
+  }
+
+  if (links.bookingId) {
+    const bookingId = links.bookingId;
+    const rows = await withDatabase(async (db) => {
+      return await db
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(and(eq(bookings.id, bookingId), eq(bookings.tripId, tripId)))
+        .limit(1);
+    });
+    if (!rows || rows.length === 0) {
+      return { status: 'unknown_booking', bookingId };
+    }
+  }
+  return null;
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * Documents of a trip, newest first, with the itinerary item each is linked
+ * to. Items removed from the itinerary since resolve to null.
+ */
+export async function listTripDocuments(tripId: string): Promise<TripDocumentView[] | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(tripDocuments)
+      .where(eq(tripDocuments.tripId, tripId))
+      .orderBy(desc(tripDocuments.createdAt));
+  });
+  if (!rows) {
+    return null;
+  }
+
+  const itinerary = rows.some(row => row.itineraryItemId) ? await loadItineraryData(tripId) : null;
+  return rows.map(row => toView(row, row.itineraryItemId ? findItineraryItem(itinerary, row.itineraryItemId) : null));
+}
+
+async function findTripDocument(tripId: string, documentId: string): Promise<TripDocument | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(tripDocuments)
+      .where(and(eq(tripDocuments.id, documentId), eq(tripDocuments.tripId, tripId)))
+      .limit(1);
+  });
+  return rows?.[0] || null;
+}
+
+export async function getTripDocumentFile(
+  tripId: string,
+  documentId: string
+): Promise<{ document: TripDocument; file: StoredObject } | null> {
+  const document = await findTripDocument(tripId, documentId);
+  if (!document) {
+    return null;
+  }
+
+  const file = await getObjectStore().get(document.storageKey);
+  return file ? { document, file } : null;
+}
+
+// ==================== MUTATIONS ====================
+
+export async function createTripDocument(
+  tripId: string,
+  userId: string,
+  upload: TripDocumentUpload
+): Promise<TripDocumentResult | null> {
+  if (upload.data.length > MAX_DOCUMENT_BYTES) {
+    return { status: 'too_large', maxBytes: MAX_DOCUMENT_BYTES };
+  }
+
+  const type = detectDocumentType(upload.data);
+  if (!type) {
+    return { status: 'unsupported_type' };
+  }
+
+  const existing = await withDatabase(async (db) => {
+    const [row] = await db
+      .select({ total: count() })
+      .from(tripDocuments)
+      .where(eq(tripDocuments.tripId, tripId));
+    return row.total;
+  });
+  if (existing === null) {
+    return null;
+  }
+  if (existing >= MAX_DOCUMENTS_PER_TRIP) {
+    return { status: 'limit_reached', limit: MAX_DOCUMENTS_PER_TRIP };
+  }
+
+  const itinerary = upload.itineraryItemId ? await loadItineraryData(tripId) : null;
+  const linkError = await validateLinks(tripId, upload, itinerary);
+  if (linkError) {
+    return linkError;
+  }
+
+  const id = randomUUID();
+  const fileName = sanitizeFileName(upload.fileName, type.extension);
+  const storageKey = storageKeyFor(tripId, id);
+  const store = getObjectStore();
+  await store.put(storageKey, upload.data, type.contentType);
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .insert(tripDocuments)
+      .values({
+        id,
+        tripId,
+        uploadedBy: userId,
+        kind: upload.kind,
+        title: upload.title || fileName,
+        fileName,
+        contentType: type.contentType,
+        size: upload.data.length,
+        sha256: createHash('sha256').update(upload.data).digest('hex'),
+        storageKey,
+        itineraryItemId: upload.itineraryItemId || null,
+        bookingId: upload.bookingId || null,
+      })
+      .returning();
+  });
+
+  if (!rows || rows.length === 0) {
+    await store.delete(storageKey);
+    return null;
+  }
+
+  const itineraryItem = upload.itineraryItemId ? findItineraryItem(itinerary, upload.itineraryItemId) : null;
+  return { status: 'created', document: toView(rows[0], itineraryItem) };
+}
+
+/**
+ * Rename, reclassify or relink a document. Passing null for a link clears it.
+ */
+export async function updateTripDocument(
+  tripId: string,
+  documentId: string,
+  update: TripDocumentUpdate
+): Promise<TripDocumentResult | null> {
+  const document = await findTripDocument(tripId, documentId);
+  if (!document) {
+    return { status: 'not_found' };
+  }
+
+  const itineraryItemId = update.itineraryItemId === undefined ? document.itineraryItemId : update.itineraryItemId;
+  const itinerary = itineraryItemId ? await loadItineraryData(tripId) : null;
+  const linkError = await validateLinks(tripId, {
+    itineraryItemId: update.itineraryItemId,
+    bookingId: update.bookingId,
+  }, itinerary);
+  if (linkError) {
+    return linkError;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .update(tripDocuments)
+      .set({
+        ...(update.kind !== undefined && { kind: update.kind }),
+        ...(update.title !== undefined && { title: update.title }),
+        ...(update.itineraryItemId !== undefined && { itineraryItemId: update.itineraryItemId }),
+        ...(update.bookingId !== undefined && { bookingId: update.bookingId }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(tripDocuments.id, documentId), eq(tripDocuments.tripId, tripId)))
+      .returning();
+  });
+
+  if (!rows) {
+    return null;
+  }
+  if (rows.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const itineraryItem = itineraryItemId ? findItineraryItem(itinerary, itineraryItemId) : null;
+  return { status: 'ok', document: toView(rows[0], itineraryItem) };
+}
+
+export async function deleteTripDocument(tripId: string, documentId: string): Promise<boolean | null> {
+  const deleted = await withDatabase(async (db) => {
+    return await db
+      .delete(tripDocuments)
+      .where(and(eq(tripDocuments.id, documentId), eq(tripDocuments.tripId, tripId)))
+      .returning({ storageKey: tripDocuments.storageKey });
+  });
+  if (!deleted) {
+    return null;
+  }
+
+  await deleteDocumentFiles(deleted.map(row => row.storageKey));
+  return deleted.length > 0;
+}
+
+// ==================== CLEANUP ====================
+
+/**
+ * Remove stored files once their rows are gone. Called after the deleting
+ * transaction commits; a failure leaves orphaned files, not broken rows.
+ */
+export async function deleteDocumentFiles(storageKeys: string[]): Promise<void> {
+  const store = getObjectStore();
+  for (const key of storageKeys) {
+    await store.delete(key).catch(error => {
+      console.error(`Failed to delete document file ${key}:`, error);
+    });
+  }
+}
+
+export async function deleteTripDocumentFiles(tripIds: string[]): Promise<void> {
+  const store = getObjectStore();
+  for (const tripId of tripIds) {
+    await store.deletePrefix(`trips/${tripId}/documents`).catch(error => {
+      console.error(`Failed to delete documents of trip ${tripId}:`, error);
+    });
+  }
+}
@@ -0,0 +1,232 @@
+// Email Import
+// Reads forwarded booking confirmations (.eml). Airlines and hotels embed
+// schema.org reservations as JSON-LD in the HTML body; flight, train, bus,
+// lodging, event and restaurant reservations are turned into plan items.
+// Microdata markup is not read.
+
+import { parseMimeMessage } from './mime';
+import {
+  asNumber,
+  asRecord,
+  asText,
+  importItemId,
+  itemDateRange,
+  normalizeImportTime,
+  validCoordinates,
+  type ImportedItem,
+  type ImportedPlace,
+  type ParsedImport,
+} from './plan';
+
+export class EmailImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailImportError';
+  }
+}
+
+const JSON_LD_SCRIPT = /<script[^>]+type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+const MICRODATA_RESERVATION = /itemtype\s*=\s*["']https?:\/\/schema\.org\/\w*Reservation["']/i;
+
+function schemaType(node: Record<string, any>): string {
+  const type = Array.isArray(node['@type']) ? node['@type'][0] : node['@type'];
+  return (asText(type) || '').replace(/^https?:\/\/schema\.org\//, '');
+}
+
+// Nodes of a JSON-LD document, including arrays and @graph
+function flattenNodes(value: unknown): Record<string, any>[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenNodes);
+  }
+  const node = asRecord(value);
+  return Array.isArray(node['@graph']) ? flattenNodes(node['@graph']) : Object.keys(node).length ? [node] : [];
+}
+
+// HTML entities that survive in script bodies of some senders
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function addressText(value: unknown): { address?: string; city?: string; country?: string } {
+  if (typeof value === 'string') {
+    return { address: asText(value) };
+  }
+  const address = asRecord(value);
+  const country = asText(address.addressCountry) || asText(asRecord(address.addressCountry).name);
+  const city = asText(address.addressLocality);
+  const parts = [asText(address.streetAddress), city, asText(address.addressRegion), asText(address.postalCode), country];
+  return { address: parts.filter(Boolean).join(', ') || undefined, city, country };
+}
+
+function schemaPlace(value: unknown): ImportedPlace | undefined {
+  const place = asRecord(value);
+  const iataCode = asText(place.iataCode);
+  const name = asText(place.name) || iataCode;
+  if (!name) {
+    return undefined;
+  }
+  const geo = asRecord(place.geo);
+  const lat = asNumber(geo.latitude);
+  const lng = asNumber(geo.longitude);
+  return {
+    name,
+    iataCode,
+    ...addressText(place.address),
+    ...(validCoordinates(lat, lng) && { lat, lng }),
+  };
+}
+
+// checkinDate may be a date or a date-time; checkinTime alone is a time of day
+function stayTime(date: unknown, timeOfDay: unknown): string | undefined {
+  const day = normalizeImportTime(date);
+  const time = asText(timeOfDay)?.match(/^(\d{2}:\d{2})/)?.[1];
+  return day && day.length === 10 && time ? `${day}T${time}` : day;
+}
+
+function reservationItem(node: Record<string, any>, fileName: string): ImportedItem | null {
+  const type = schemaType(node);
+  const reservation = asRecord(node.reservationFor);
+  const reference = asText(node.reservationNumber) || asText(node.reservationId);
+  const source = { format: 'eml' as const, fileName };
+  const id = (suffix: string) => importItemId('eml', `${type}-${reference || ''}-${suffix}`);
+  const provider = asText(asRecord(node.provider).name) || asText(asRecord(node.broker).name);
+
+  switch (type) {
+    case 'FlightReservation': {
+      const airline = asRecord(reservation.airline);
+      const flightNumber = [asText(airline.iataCode), asText(reservation.flightNumber)].filter(Boolean).join('');
+      const from = schemaPlace(reservation.departureAirport);
+      const to = schemaPlace(reservation.arrivalAirport);
+      const start = normalizeImportTime(reservation.departureTime);
+      return {
+        id: id(`${flightNumber}-${start}`),
+        kind: 'flight',
+        title: [flightNumber, `${from?.iataCode || from?.name || '?'} → ${to?.iataCode || to?.name || '?'}`].filter(Boolean).join(' '),
+        start,
+        end: normalizeImportTime(reservation.arrivalTime),
+        location: from,
+        destination: to,
+        provider: asText(airline.name) || provider,
+        reference,
+        notes: asText(node.airplaneSeat) ? `Seat ${asText(node.airplaneSeat)}` : undefined,
+        source,
+      };
+    }
+    case 'TrainReservation':
+    case 'BusReservation': {
+      const train = type === 'TrainReservation';
+      const from = schemaPlace(train ? reservation.departureStation : reservation.departureBusStop);
+      const to = schemaPlace(train ? reservation.arrivalStation : reservation.arrivalBusStop);
+      const start = normalizeImportTime(reservation.departureTime);
+      return {
+        id: id(`${from?.name}-${start}`),
+        kind: train ? 'train' : 'bus',
+        title: `${from?.name || '?'} → ${to?.name || '?'}`,
+        start,
+        end: normalizeImportTime(reservation.arrivalTime),
+        location: from,
+        destination: to,
+        provider: asText(asRecord(reservation.provider).name) || provider,
+        reference,
+        source,
+      };
+    }
+    case 'LodgingReservation': {
+      const start = stayTime(node.checkinDate ?? node.checkinTime, node.checkinTime);
+      return {
+        id: id(`${reservation.name}-${start}`),
+        kind: 'lodging',
+        title: asText(reservation.name) || 'Accommodation',
+        start,
+        end: stayTime(node.checkoutDate ?? node.checkoutTime, node.checkoutTime),
+        location: schemaPlace(reservation),
+        provider,
+        reference,
+        notes: asText(node.lodgingUnitDescription),
+        source,
+      };
+    }
+    case 'EventReservation':
+    case 'FoodEstablishmentReservation': {
+      const food = type === 'FoodEstablishmentReservation';
+      const start = normalizeImportTime(food ? node.startTime : reservation.startDate);
+      return {
+        id: id(`${reservation.name}-${start}`),
+        kind: 'activity',
+        title: asText(reservation.name) || (food ? 'Restaurant' : 'Event'),
+        start,
+        end: normalizeImportTime(food ? node.endTime : reservation.endDate),
+        location: schemaPlace(food ? reservation : reservation.location),
+        category: food ? 'dining' : 'entertainment',
+        provider,
+        reference,
+        source,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function parseEmailImport(source: string, fileName: string): ParsedImport {
+  const message = parseMimeMessage(source);
+  const warnings: string[] = [];
+  const blocks: string[] = [];
+
+  message.parts.forEach(part => {
+    if (part.contentType === 'application/ld+json') {
+      blocks.push(part.body);
+    } else if (part.contentType === 'text/html') {
+      for (const match of Array.from(part.body.matchAll(JSON_LD_SCRIPT))) {
+        blocks.push(match[1]);
+      }
+    }
+  });
+
+  const nodes = blocks.flatMap(block => {
+    try {
+      return flattenNodes(JSON.parse(decodeHtmlEntities(block.trim())));
+    } catch {
+      warnings.push('A structured data block in the email could not be read');
+      return [];
+    }
+  });
+
+  const reservations = nodes.filter(node => schemaType(node).endsWith('Reservation'));
+  const active = reservations.filter(node => !/Cancelled$/i.test(asText(node.reservationStatus) || ''));
+  if (active.length < reservations.length) {
+    warnings.push(`${reservations.length - active.length} cancelled reservation(s) were skipped`);
+  }
+
+  // A reservation can list several legs or guests; each leg is its own item
+  const items = active
+    .flatMap(node => Array.isArray(node.reservationFor)
+      ? node.reservationFor.map((leg: unknown) => ({ ...node, reservationFor: leg }))
+      : [node])
+    .map(node => reservationItem(node, fileName))
+    .filter((item): item is ImportedItem => item !== null);
+
+  // The same reservation is often repeated in several parts of one email
+  const unique = items.filter((item, index) => items.findIndex(other => other.id === item.id) === index);
+
+  if (unique.length === 0) {
+    const hasMicrodata = message.parts.some(part => part.contentType === 'text/html' && MICRODATA_RESERVATION.test(part.body));
+    throw new EmailImportError(hasMicrodata
+      ? 'This email uses microdata markup, which cannot be imported yet'
+      : 'No flight or hotel reservation found in this email');
+  }
+
+  // Endpoints are left to the combined plan: one email rarely holds the whole journey
+  const guests = new Set(active.flatMap(node => flattenNodes(node.underName).map(person => asText(person.name)).filter(Boolean)));
+  return {
+    ...itemDateRange(unique),
+    travelers: guests.size > 0 ? guests.size : undefined,
+    items: unique,
+    warnings,
+  };
+}
@@ -0,0 +1,181 @@
+// GPX and KML Import
+// Named points become places on the plan. Points typed as cities (our own
+// exports write the trip's destinations that way) set the origin and
+// destination instead; hotel points become stays. Tracks and lines carry no
+// itinerary information and are skipped.
+
+import { childElement, childElements, childText, findElements, parseXml, type XmlElement } from './xml';
+import {
+  MAX_IMPORTED_ITEMS,
+  asNumber,
+  importItemId,
+  itemDateRange,
+  normalizeImportTime,
+  validCoordinates,
+  type ImportFormat,
+  type ImportedItem,
+  type ImportedPlace,
+  type ParsedImport,
+} from './plan';
+
+export class GeoImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoImportError';
+  }
+}
+
+interface GeoPoint {
+  key: string;
+  name: string;
+  lat: number;
+  lng: number;
+  type?: string;
+  description?: string;
+  start?: string;
+  end?: string;
+}
+
+// KML descriptions are often HTML
+function plainText(value: string | undefined): string | undefined {
+  const text = value
+    ?.replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*/g, '\n')
+    .trim();
+  return text || undefined;
+}
+
+function buildImport(format: ImportFormat, fileName: string, title: string | undefined, points: GeoPoint[], skipped: string[]): ParsedImport {
+  const warnings = [...skipped];
+  const cities = points.filter(point => point.type === 'city');
+  const place = (point: GeoPoint): ImportedPlace => ({
+    name: point.name,
+    address: point.description?.split('\n')[0],
+    lat: point.lat,
+    lng: point.lng,
+  });
+
+  const items: ImportedItem[] = points
+    .filter(point => point.type !== 'city')
+    .map(point => ({
+      id: importItemId(format, point.key),
+      kind: point.type === 'hotel' ? 'lodging' : 'place',
+      title: point.name,
+      start: point.start,
+      end: point.end,
+      location: place(point),
+      notes: point.description,
+      category: point.type === 'restaurant' ? 'dining' : undefined,
+      source: { format, fileName },
+    }));
+
+  if (items.length > MAX_IMPORTED_ITEMS) {
+    warnings.push(`Only the first ${MAX_IMPORTED_ITEMS} of ${items.length} points were imported`);
+  }
+
+  return {
+    title,
+    ...itemDateRange(items),
+    origin: cities[0] ? place(cities[0]) : undefined,
+    destination: cities.length > 1 ? place(cities[cities.length - 1]) : undefined,
+    items: items.slice(0, MAX_IMPORTED_ITEMS),
+    warnings,
+  };
+}
+
+// ==================== GPX ====================
+
+function gpxPoint(element: XmlElement, index: number): GeoPoint | null {
+  const lat = asNumber(element.attributes.lat);
+  const lng = asNumber(element.attributes.lon);
+  const name = childText(element, 'name');
+  if (!name || !validCoordinates(lat, lng)) {
+    return null;
+  }
+  return {
+    key: `${element.name}-${index}-${name}-${lat},${lng}`,
+    name,
+    lat: lat!,
+    lng: lng!,
+    type: childText(element, 'type')?.toLowerCase(),
+    description: childText(element, 'desc') || childText(element, 'cmt'),
+    start: normalizeImportTime(childText(element, 'time')),
+  };
+}
+
+export function parseGpxImport(source: string, fileName: string): ParsedImport {
+  const root = parseXml(source);
+  if (root.name !== 'gpx') {
+    throw new GeoImportError('Not a GPX file');
+  }
+
+  // Named route points are stops worth keeping; unnamed ones only shape the line
+  const points = [
+    ...childElements(root, 'wpt'),
+    ...childElements(root, 'rte').flatMap(route => childElements(route, 'rtept')),
+  ].map(gpxPoint).filter((point): point is GeoPoint => point !== null);
+
+  const tracks = childElements(root, 'trk').length;
+  const metadata = childElement(root, 'metadata');
+  return buildImport(
+    'gpx',
+    fileName,
+    (metadata && childText(metadata, 'name')) || childText(root, 'name'),
+    points,
+    tracks > 0 ? [`${tracks} recorded track(s) were skipped; only named waypoints are imported`] : []
+  );
+}
+
+// ==================== KML ====================
+
+const KML_STYLE_TYPES: Record<string, string> = {
+  hotel: 'hotel',
+  lodging: 'hotel',
+  restaurant: 'restaurant',
+  dining: 'restaurant',
+};
+
+function kmlPoint(placemark: XmlElement, index: number): GeoPoint | null {
+  const coordinates = findElements(placemark, 'Point')[0];
+  const [lng, lat] = (coordinates && childText(coordinates, 'coordinates') || '').split(',').map(asNumber);
+  const name = childText(placemark, 'name');
+  if (!name || !validCoordinates(lat, lng)) {
+    return null;
+  }
+
+  const style = childText(placemark, 'styleUrl')?.replace(/^#/, '').toLowerCase() || '';
+  const timeStamp = childElement(placemark, 'TimeStamp');
+  const timeSpan = childElement(placemark, 'TimeSpan');
+  return {
+    key: `placemark-${index}-${name}-${lat},${lng}`,
+    name,
+    lat: lat!,
+    lng: lng!,
+    type: KML_STYLE_TYPES[style],
+    description: plainText(childText(placemark, 'description')),
+    start: normalizeImportTime((timeStamp && childText(timeStamp, 'when')) || (timeSpan && childText(timeSpan, 'begin'))),
+    end: normalizeImportTime(timeSpan && childText(timeSpan, 'end')),
+  };
+}
+
+export function parseKmlImport(source: string, fileName: string): ParsedImport {
+  const root = parseXml(source);
+  if (root.name !== 'kml') {
+    throw new GeoImportError('Not a KML file');
+  }
+
+  const placemarks = findElements(root, 'Placemark');
+  const points = placemarks.map(kmlPoint).filter((point): point is GeoPoint => point !== null);
+  const document = childElement(root, 'Document') || childElement(root, 'Folder');
+  const skipped = placemarks.length - points.length;
+
+  return buildImport(
+    'kml',
+    fileName,
+    document && childText(document, 'name'),
+    points,
+    skipped > 0 ? [`${skipped} placemark(s) without a name or point location were skipped`] : []
+  );
+}
@@ -0,0 +1,257 @@
+// ICS Import
+// Reads VEVENTs from an iCalendar file. Events from our own exports and
+// calendar feeds are recognized by their UIDs and summaries (flights,
+// hotel check-in/check-out pairs, the trip overview); any other event
+// becomes an activity.
+
+import {
+  MAX_IMPORTED_ITEMS,
+  asNumber,
+  importItemId,
+  itemDateRange,
+  normalizeImportTime,
+  validCoordinates,
+  type ImportedItem,
+  type ImportedPlace,
+  type ParsedImport,
+} from './plan';
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+type IcsComponent = Record<string, IcsProperty[]>;
+
+const TRANSPORT_SUMMARY = /^(flight|train|bus)\s*:\s*(.+)$/i;
+const CHECK_IN_SUMMARY = /^check-in\s*:\s*(.+)$/i;
+const CHECK_OUT_SUMMARY = /^check-out\s*:\s*(.+)$/i;
+
+export class IcsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsImportError';
+  }
+}
+
+// ==================== PARSING ====================
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, character: string) =>
+    character === 'n' || character === 'N' ? '\n' : character
+  );
+}
+
+// NAME;PARAM=VALUE;PARAM="QUOTED:VALUE":value
+function parseLine(line: string): { name: string; property: IcsProperty } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const separator = param.indexOf('=');
+    if (separator !== -1) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+    }
+  });
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+/**
+ * Split a calendar into its VCALENDAR properties and VEVENTs
+ */
+function parseCalendar(source: string): { calendar: IcsComponent; events: IcsComponent[] } {
+  const lines = source.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const calendar: IcsComponent = {};
+  const events: IcsComponent[] = [];
+  const stack: string[] = [];
+  let event: IcsComponent | null = null;
+
+  lines.forEach(line => {
+    const parsed = line.trim() ? parseLine(line) : null;
+    if (!parsed) {
+      return;
+    }
+    const { name, property } = parsed;
+
+    if (name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') {
+        event = {};
+      }
+      return;
+    }
+    if (name === 'END') {
+      if (stack.pop() === 'VEVENT' && event) {
+        events.push(event);
+        event = null;
+      }
+      return;
+    }
+
+    const current = stack[stack.length - 1];
+    // Properties of alarms and time zones nested in an event are not the event's
+    const target = current === 'VEVENT' ? event : current === 'VCALENDAR' ? calendar : null;
+    if (target) {
+      (target[name] ||= []).push(property);
+    }
+  });
+
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcsImportError('Not an iCalendar file');
+  }
+  return { calendar, events };
+}
+
+function text(component: IcsComponent, name: string): string | undefined {
+  const value = component[name]?.[0]?.value;
+  return value ? unescapeText(value).trim() || undefined : undefined;
+}
+
+// DATE values become days, UTC values exact times, TZID and floating values local times
+function time(component: IcsComponent, name: string): string | undefined {
+  const property = component[name]?.[0];
+  if (!property) {
+    return undefined;
+  }
+  const value = property.value.trim();
+  if (property.params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+    return normalizeImportTime(value.slice(0, 8));
+  }
+  if (value.endsWith('Z')) {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    return match ? normalizeImportTime(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`) : undefined;
+  }
+  return normalizeImportTime(value);
+}
+
+function place(component: IcsComponent): ImportedPlace | undefined {
+  const location = text(component, 'LOCATION');
+  const [lat, lng] = (component.GEO?.[0]?.value || '').split(/[;,]/).map(asNumber);
+  const hasCoordinates = validCoordinates(lat, lng);
+  if (!location && !hasCoordinates) {
+    return undefined;
+  }
+  return {
+    name: location?.split('\n')[0] || 'Location',
+    address: location,
+    ...(hasCoordinates && { lat, lng }),
+  };
+}
+
+// "Delhi → Rome", "DEL - FCO", "Delhi to Rome"
+function splitRoute(route: string): [string, string] | null {
+  const parts = route.split(/\s*(?:→|->|–| - | to )\s*/i);
+  return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+}
+
+// ==================== IMPORT ====================
+
+export function parseIcsImport(source: string, fileName: string): ParsedImport {
+  const { calendar, events } = parseCalendar(source);
+  const warnings: string[] = [];
+  const items: ImportedItem[] = [];
+  const checkOuts = new Map<string, string>();
+  let overview: IcsComponent | undefined;
+  let recurring = 0;
+  let cancelled = 0;
+
+  events.forEach(event => {
+    const uid = text(event, 'UID') || `${text(event, 'SUMMARY')}-${text(event, 'DTSTART')}`;
+    const summary = text(event, 'SUMMARY') || 'Untitled event';
+
+    if (text(event, 'STATUS')?.toUpperCase() === 'CANCELLED') {
+      cancelled++;
+      return;
+    }
+    if (event.RRULE) {
+      recurring++;
+    }
+    // Overview event written by our own exports and feeds
+    if (/^trip-/i.test(uid)) {
+      overview = event;
+      return;
+    }
+
+    const checkOut = summary.match(CHECK_OUT_SUMMARY);
+    if (checkOut) {
+      const start = time(event, 'DTSTART');
+      if (start) {
+        checkOuts.set(checkOut[1].toLowerCase(), start);
+      }
+      return;
+    }
+
+    const base = {
+      id: importItemId('ics', uid),
+      start: time(event, 'DTSTART'),
+      end: time(event, 'DTEND'),
+      notes: text(event, 'DESCRIPTION'),
+      source: { format: 'ics' as const, fileName },
+    };
+
+    const transport = summary.match(TRANSPORT_SUMMARY);
+    if (transport) {
+      const route = splitRoute(transport[2]);
+      items.push({
+        ...base,
+        kind: transport[1].toLowerCase() as ImportedItem['kind'],
+        title: transport[2],
+        location: route ? { name: route[0] } : place(event),
+        destination: route ? { name: route[1] } : undefined,
+      });
+      return;
+    }
+
+    const checkIn = summary.match(CHECK_IN_SUMMARY);
+    items.push({
+      ...base,
+      kind: checkIn ? 'lodging' : 'activity',
+      title: checkIn ? checkIn[1] : summary,
+      // The check-in event's own end is only the reminder slot; the stay ends at check-out
+      end: checkIn ? undefined : base.end,
+      location: place(event),
+      category: text(event, 'CATEGORIES')?.split(',')[0]?.toLowerCase(),
+    });
+  });
+
+  items.forEach(item => {
+    if (item.kind === 'lodging') {
+      item.end = checkOuts.get(item.title.toLowerCase());
+    }
+  });
+
+  if (recurring > 0) {
+    warnings.push(`${recurring} recurring event(s) were imported as a single occurrence`);
+  }
+  if (cancelled > 0) {
+    warnings.push(`${cancelled} cancelled event(s) were skipped`);
+  }
+  if (items.length > MAX_IMPORTED_ITEMS) {
+    warnings.push(`Only the first ${MAX_IMPORTED_ITEMS} of ${items.length} events were imported`);
+  }
+
+  const range = itemDateRange(items);
+  const overviewEnd = overview ? time(overview, 'DTEND') : undefined;
+  return {
+    title: (overview && text(overview, 'SUMMARY')) || text(calendar, 'X-WR-CALNAME'),
+    startDate: (overview && time(overview, 'DTSTART')?.slice(0, 10)) || range.startDate,
+    // All-day DTEND is exclusive
+    endDate: overviewEnd && overviewEnd.length === 10
+      ? new Date(Date.parse(`${overviewEnd}T00:00:00Z`) - 86400000).toISOString().slice(0, 10)
+      : overviewEnd?.slice(0, 10) || range.endDate,
+    items: items.slice(0, MAX_IMPORTED_ITEMS),
+    warnings,
+  };
+}
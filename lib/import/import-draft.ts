@@ -0,0 +1,170 @@
+// Import Drafts
+// Turns a reviewed import preview into a wizard draft, either a new one or
+// merged into a draft the user already has. Client-safe: no server imports.
+
+import { DRAFT_STEPS, type DraftPayload, type DraftStep, type ServerDraft } from '@/lib/storage/draftSync';
+import type { ImportedItem, ImportPreview } from './plan';
+
+// Wizard defaults for what imported files rarely say
+const DEFAULT_TRAVELERS = 2;
+const DEFAULT_BUDGET = 50000;
+
+const TRANSPORT_KINDS = ['flight', 'train', 'bus'];
+const IMPORT_TRANSPORT_ID = 'import-transport';
+
+// "2026-11-02T08:30+01:00" -> "08:30"
+function timeOfDay(time: string | undefined): string {
+  return time?.match(/T(\d{2}:\d{2})/)?.[1] || '';
+}
+
+function placeName(item: ImportedItem, key: 'location' | 'destination'): string | undefined {
+  const place = item[key];
+  return place?.iataCode || place?.city || place?.name;
+}
+
+// Imported legs as one transport selection, shaped like a search result
+function transportSelection(legs: ImportedItem[]): Record<string, any> {
+  const first = legs[0];
+  const last = legs[legs.length - 1];
+  return {
+    id: IMPORT_TRANSPORT_ID,
+    type: first.kind,
+    source: 'import',
+    airline: first.kind === 'flight' ? first.provider : undefined,
+    carrier: first.kind === 'flight' ? undefined : first.provider,
+    departure: timeOfDay(first.start),
+    arrival: timeOfDay(last.end),
+    from: placeName(first, 'location'),
+    to: placeName(last, 'destination'),
+    price: '',
+    legs,
+  };
+}
+
+function hotelSelection(item: ImportedItem): Record<string, any> {
+  return {
+    id: item.id,
+    source: 'import',
+    name: item.title,
+    hotel: { name: item.title, address: item.location?.address },
+    checkIn: item.start,
+    checkOut: item.end,
+    reference: item.reference,
+    location: item.location,
+  };
+}
+
+function activitySelection(item: ImportedItem): Record<string, any> {
+  return {
+    id: item.id,
+    source: 'import',
+    type: item.category || (item.kind === 'place' ? 'sightseeing' : 'activity'),
+    title: item.title,
+    description: item.notes,
+    startTime: item.start,
+    endTime: item.end,
+    location: item.location,
+  };
+}
+
+/**
+ * Draft for the selected items of a preview. Steps the import filled in are
+ * marked complete, and the wizard opens at the first step still to do.
+ */
+export function buildImportDraft(preview: ImportPreview, selectedIds: string[], clientId: string): DraftPayload {
+  const selected = preview.items.filter(item => selectedIds.includes(item.id));
+  const legs = selected.filter(item => TRANSPORT_KINDS.includes(item.kind));
+  const hotels = selected.filter(item => item.kind === 'lodging').map(hotelSelection);
+  const activities = selected.filter(item => item.kind === 'activity' || item.kind === 'place').map(activitySelection);
+  const transport = legs.length > 0 ? transportSelection(legs) : null;
+
+  const completedSteps: DraftStep[] = [];
+  if (preview.to && preview.startDate && preview.endDate) completedSteps.push('destination');
+  if (transport) completedSteps.push('transport');
+  if (hotels.length > 0) completedSteps.push('accommodation');
+  if (activities.length > 0) completedSteps.push('activities');
+
+  return {
+    clientId,
+    baseRevision: 0,
+    currentStep: DRAFT_STEPS.find(step => !completedSteps.includes(step)) || 'dining',
+    completedSteps,
+    formData: {
+      from: preview.from,
+      to: preview.to,
+      startDate: preview.startDate || '',
+      endDate: preview.endDate || '',
+      tripType: '',
+      travelers: preview.travelers || DEFAULT_TRAVELERS,
+      budget: preview.budget || DEFAULT_BUDGET,
+      ...(transport && { transport: { mode: transport.type, selection: transport } }),
+      ...(hotels.length > 0 && { accommodation: hotels }),
+      ...(activities.length > 0 && { activities }),
+    },
+    stepData: {
+      selectedTransport: transport,
+      selectedRentals: [],
+      selectedAccommodations: [],
+      selectedHotels: hotels,
+      accommodationViewMode: hotels.length > 0 ? 'hotels' : 'types',
+      selectedActivities: activities,
+      selectedDining: [],
+    },
+    title: preview.title,
+  };
+}
+
+function unionById(existing: unknown, imported: unknown[]): unknown[] {
+  const current = Array.isArray(existing) ? existing : [];
+  const ids = new Set(current.map(entry => entry?.id));
+  return [...current, ...imported.filter(entry => !ids.has((entry as { id?: string }).id))];
+}
+
+/**
+ * An existing draft with an import added. Lists gain the imported entries
+ * they do not already have; a transport selection that came from an earlier
+ * import gains the new legs. Other fields take the imported value when the
+ * import has one, so the caller can offer each change for review with
+ * diffDraftFields against the server copy.
+ */
+export function mergeImportIntoDraft(server: ServerDraft, imported: DraftPayload): DraftPayload {
+  const formData = { ...server.formData };
+  const stepData = { ...(server.stepData || {}) };
+  const importedStep = imported.stepData || {};
+
+  (['from', 'to', 'startDate', 'endDate', 'travelers', 'budget'] as const).forEach(key => {
+    if (imported.formData[key]) {
+      formData[key] = imported.formData[key];
+    }
+  });
+
+  const importedTransport = importedStep.selectedTransport;
+  if (importedTransport) {
+    const existing = stepData.selectedTransport;
+    const legs = existing?.source === 'import'
+      ? (unionById(existing.legs, importedTransport.legs) as ImportedItem[]).sort((a, b) => (a.start || '').localeCompare(b.start || ''))
+      : null;
+    const selection = legs ? transportSelection(legs) : importedTransport;
+    stepData.selectedTransport = selection;
+    formData.transport = { mode: selection.type, selection };
+  }
+
+  stepData.selectedHotels = unionById(stepData.selectedHotels, importedStep.selectedHotels || []);
+  stepData.selectedActivities = unionById(stepData.selectedActivities, importedStep.selectedActivities || []);
+  if (stepData.selectedHotels.length > 0) {
+    formData.accommodation = [...(stepData.selectedAccommodations || []), ...stepData.selectedHotels];
+  }
+  if (stepData.selectedActivities.length > 0) {
+    formData.activities = stepData.selectedActivities;
+  }
+
+  return {
+    clientId: server.clientId,
+    baseRevision: server.revision,
+    currentStep: server.currentStep,
+    completedSteps: Array.from(new Set([...server.completedSteps, ...imported.completedSteps])),
+    formData,
+    stepData,
+    title: server.title || imported.title,
+  };
+}
@@ -0,0 +1,143 @@
+// JSON Import
+// Reads back the JSON export of a trip (TripData plus exportMetadata).
+// Activity times in exports are the destination's wall-clock time written
+// as UTC, so they come back as local times.
+
+import {
+  MAX_IMPORTED_ITEMS,
+  asNumber,
+  asRecord,
+  asText,
+  importItemId,
+  normalizeImportTime,
+  validCoordinates,
+  type ImportedItem,
+  type ImportedPlace,
+  type ParsedImport,
+} from './plan';
+
+export class JsonImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonImportError';
+  }
+}
+
+const TRANSPORT_KINDS: Record<string, ImportedItem['kind']> = {
+  flight: 'flight',
+  train: 'train',
+  bus: 'bus',
+};
+
+function exportPlace(value: unknown): ImportedPlace | undefined {
+  const location = asRecord(value);
+  const name = asText(location.name);
+  if (!name) {
+    return undefined;
+  }
+  const coordinates = Array.isArray(location.coordinates) ? location.coordinates : [];
+  const lng = asNumber(coordinates[0]);
+  const lat = asNumber(coordinates[1]);
+  return {
+    name,
+    address: asText(location.address),
+    ...(validCoordinates(lat, lng) && { lat, lng }),
+  };
+}
+
+// Wall-clock time stored as UTC -> local time
+function wallClock(value: unknown): string | undefined {
+  const time = normalizeImportTime(value);
+  return time?.endsWith('Z') ? time.slice(0, -1) : time;
+}
+
+function list(value: unknown): Record<string, any>[] {
+  return Array.isArray(value) ? value.map(asRecord) : [];
+}
+
+export function parseJsonImport(source: string, fileName: string): ParsedImport {
+  let data: Record<string, any>;
+  try {
+    data = asRecord(JSON.parse(source));
+  } catch {
+    throw new JsonImportError('File is not valid JSON');
+  }
+
+  const dates = asRecord(data.dates);
+  const destinations = asRecord(data.destinations);
+  if (!asText(data.title) || !asText(dates.startDate) || !Object.keys(destinations).length) {
+    throw new JsonImportError('Not a Tripthesia trip export');
+  }
+
+  const itemSource = { format: 'json' as const, fileName };
+  const item = (kind: ImportedItem['kind'], record: Record<string, any>, fields: Omit<ImportedItem, 'id' | 'kind' | 'source'>): ImportedItem => ({
+    id: importItemId('json', `${kind}-${asText(record.id) || fields.title}`),
+    kind,
+    source: itemSource,
+    ...fields,
+  });
+
+  const items: ImportedItem[] = [
+    ...list(data.transportation)
+      .filter(transport => TRANSPORT_KINDS[asText(transport.type) || ''])
+      .map(transport => item(TRANSPORT_KINDS[transport.type], transport, {
+        title: `${exportPlace(transport.from)?.name || 'Departure'} → ${exportPlace(transport.to)?.name || 'Arrival'}`,
+        start: normalizeImportTime(transport.departure),
+        end: normalizeImportTime(transport.arrival),
+        location: exportPlace(transport.from),
+        destination: exportPlace(transport.to),
+        provider: asText(transport.provider),
+        reference: asText(transport.bookingReference),
+        notes: asText(transport.notes),
+      })),
+    ...list(data.accommodations).map(hotel => item('lodging', hotel, {
+      title: asText(hotel.name) || 'Accommodation',
+      start: normalizeImportTime(hotel.checkIn),
+      end: normalizeImportTime(hotel.checkOut),
+      location: exportPlace(hotel.location),
+      reference: asText(hotel.bookingReference),
+      notes: asText(hotel.notes),
+    })),
+    ...list(data.activities).map(activity => {
+      const start = wallClock(activity.dateTime);
+      const duration = asNumber(activity.duration);
+      return item('activity', activity, {
+        title: asText(activity.name) || 'Activity',
+        start,
+        end: start && duration && start.length === 16
+          ? wallClock(new Date(Date.parse(`${start}:00Z`) + duration * 60000).toISOString())
+          : undefined,
+        location: exportPlace(activity.location),
+        category: asText(activity.category),
+        reference: asText(activity.bookingReference),
+        notes: asText(activity.description) || asText(activity.notes),
+      });
+    }),
+    ...list(data.dining).map(restaurant => item('activity', restaurant, {
+      title: asText(restaurant.name) || 'Restaurant',
+      start: normalizeImportTime(restaurant.reservationTime),
+      location: exportPlace(restaurant.location),
+      category: 'dining',
+      reference: asText(restaurant.reservationReference),
+      notes: asText(restaurant.notes),
+    })),
+  ];
+
+  const participants = asRecord(data.participants);
+  const travelers = (asNumber(participants.adults) ?? 0) + (asNumber(participants.children) ?? 0);
+  const warnings = items.length > MAX_IMPORTED_ITEMS
+    ? [`Only the first ${MAX_IMPORTED_ITEMS} of ${items.length} items were imported`]
+    : [];
+
+  return {
+    title: asText(data.title),
+    startDate: normalizeImportTime(dates.startDate)?.slice(0, 10),
+    endDate: normalizeImportTime(dates.endDate)?.slice(0, 10),
+    travelers: travelers > 0 ? travelers : undefined,
+    budget: asNumber(asRecord(data.budget).total),
+    origin: exportPlace(destinations.origin),
+    destination: exportPlace(destinations.destination),
+    items: items.slice(0, MAX_IMPORTED_ITEMS),
+    warnings,
+  };
+}
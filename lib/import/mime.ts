@@ -0,0 +1,152 @@
+// MIME Messages
+// Just enough of RFC 2045-2047 to read forwarded confirmation emails:
+// header unfolding and encoded words, nested multiparts, base64 and
+// quoted-printable bodies, and charsets TextDecoder knows.
+
+export interface MimePart {
+  contentType: string; // Lower-case type/subtype
+  headers: Record<string, string>;
+  body: string; // Decoded text; binary parts are left empty
+}
+
+export interface MimeMessage {
+  subject?: string;
+  from?: string;
+  date?: string;
+  parts: MimePart[]; // Leaf parts in document order
+}
+
+const MAX_DEPTH = 10;
+
+function decodeCharset(bytes: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, character => character.charCodeAt(0) & 0xff);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  return latin1Bytes(atob(clean.slice(0, clean.length - (clean.length % 4))));
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  const unwrapped = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+// =?charset?B|Q?text?= in headers
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      // Repeated headers keep the first value, which is the outermost
+      headers[name] ??= decodeEncodedWords(line.slice(colon + 1).trim());
+    }
+  });
+  return headers;
+}
+
+// Content-Type: text/html; charset="utf-8"
+function headerParam(header: string | undefined, name: string): string | undefined {
+  const match = header?.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function splitHeaderBlock(source: string): { headers: Record<string, string>; body: string } {
+  const match = source.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaders(source), body: '' };
+  }
+  return {
+    headers: parseHeaders(source.slice(0, match.index)),
+    body: source.slice(match.index + match[0].length),
+  };
+}
+
+function parseEntity(source: string, depth: number): MimePart[] {
+  const { headers, body } = splitHeaderBlock(source);
+  const contentTypeHeader = headers['content-type'] || 'text/plain';
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase();
+
+  if (contentType.startsWith('multipart/') && depth < MAX_DEPTH) {
+    const boundary = headerParam(contentTypeHeader, 'boundary');
+    if (!boundary) {
+      return [];
+    }
+    const delimiter = `--${boundary}`;
+    return body
+      .split(delimiter)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .flatMap(part => parseEntity(part.replace(/^\r?\n/, ''), depth + 1));
+  }
+
+  if (contentType === 'message/rfc822' && depth < MAX_DEPTH) {
+    return parseEntity(body, depth + 1);
+  }
+
+  if (!contentType.startsWith('text/') && contentType !== 'application/ld+json' && contentType !== 'application/json') {
+    return [{ contentType, headers, body: '' }];
+  }
+
+  const encoding = (headers['content-transfer-encoding'] || '').trim().toLowerCase();
+  const charset = headerParam(contentTypeHeader, 'charset');
+  const bytes = encoding === 'base64'
+    ? decodeBase64(body)
+    : encoding === 'quoted-printable'
+      ? decodeQuotedPrintable(body)
+      : latin1Bytes(body);
+  return [{ contentType, headers, body: decodeCharset(bytes, charset) }];
+}
+
+/**
+ * Parse a raw message. The source must be read as latin1 (binary) so
+ * 8-bit bodies decode with their declared charset.
+ */
+export function parseMimeMessage(source: string): MimeMessage {
+  const { headers } = splitHeaderBlock(source);
+  return {
+    subject: headers.subject,
+    from: headers.from,
+    date: headers.date,
+    parts: parseEntity(source, 0),
+  };
+}
+
+/**
+ * Whether a file looks like a message rather than some other text
+ */
+export function looksLikeMimeMessage(source: string): boolean {
+  const head = source.slice(0, 4096);
+  return /^(from|to|subject|date|received|return-path|mime-version|message-id|delivered-to):/im.test(head)
+    && /^(subject|mime-version|content-type):/im.test(head);
+}
@@ -0,0 +1,154 @@
+// Imported Plans
+// Common shape every import format is parsed into before it becomes a draft
+// trip. Times follow the convention of booking offer details: a day
+// ("2026-11-02"), a local time at the place ("2026-11-02T08:30") or an exact
+// time with an offset. Parsers keep what the file says and leave out what
+// it does not, rather than guessing.
+
+import type { LocationData } from '@/lib/data/locations';
+
+export const IMPORT_FORMATS = ['ics', 'gpx', 'kml', 'json', 'eml'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORTED_ITEM_KINDS = ['flight', 'train', 'bus', 'lodging', 'activity', 'place'] as const;
+export type ImportedItemKind = typeof IMPORTED_ITEM_KINDS[number];
+
+export interface ImportedPlace {
+  name: string;
+  address?: string;
+  city?: string;
+  country?: string;
+  iataCode?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface ImportedItem {
+  id: string; // Derived from the source (UID, reservation number...) so re-imports match
+  kind: ImportedItemKind;
+  title: string;
+  start?: string;
+  end?: string;
+  location?: ImportedPlace; // Departure for transport
+  destination?: ImportedPlace; // Arrival for transport
+  provider?: string;
+  reference?: string;
+  notes?: string;
+  category?: string;
+  source: { format: ImportFormat; fileName: string };
+}
+
+export interface ImportSource {
+  fileName: string;
+  format: ImportFormat;
+  items: number;
+}
+
+export interface ImportedPlan {
+  title?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+  travelers?: number;
+  budget?: number;
+  origin?: ImportedPlace;
+  destination?: ImportedPlace;
+  items: ImportedItem[];
+  sources: ImportSource[];
+  warnings: string[];
+}
+
+// A plan ready for preview, with its endpoints matched to wizard locations
+export interface ImportPreview extends ImportedPlan {
+  from: LocationData | null;
+  to: LocationData | null;
+}
+
+// What a parser returns for one file
+export type ParsedImport = Omit<ImportedPlan, 'sources'>;
+
+export const MAX_IMPORTED_ITEMS = 500;
+
+// ==================== HELPERS ====================
+
+export function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+export function asText(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function asNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Normalize a date or date-time string to the import time convention.
+ * Times without an offset stay local; anything unparseable is dropped.
+ */
+export function normalizeImportTime(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) {
+    return undefined;
+  }
+
+  const day = text.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (day) {
+    return `${day[1]}-${day[2]}-${day[3]}`;
+  }
+
+  // Offsets are kept as written so the local time stays readable
+  const time = text.match(/^(\d{4})-?(\d{2})-?(\d{2})[T ](\d{2}):?(\d{2})(?::?\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (time) {
+    const offset = !time[6] || time[6].toUpperCase() === 'Z'
+      ? time[6]?.toUpperCase() || ''
+      : `${time[6].slice(0, 3)}:${time[6].slice(-2)}`;
+    return `${time[1]}-${time[2]}-${time[3]}T${time[4]}:${time[5]}${offset}`;
+  }
+
+  // Other formats (e.g. email dates) are only usable with an explicit zone
+  const parsed = new Date(text);
+  return /(Z|GMT|UTC|[+-]\d{2}:?\d{2})$/i.test(text) && !Number.isNaN(parsed.getTime())
+    ? parsed.toISOString().replace(/:\d{2}\.\d{3}Z$/, 'Z')
+    : undefined;
+}
+
+// The calendar day an import time falls on, as written
+export function importTimeDate(time: string | undefined): string | undefined {
+  return time?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+}
+
+export function validCoordinates(lat: number | undefined, lng: number | undefined): boolean {
+  return lat !== undefined && lng !== undefined
+    && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+    && !(lat === 0 && lng === 0);
+}
+
+/**
+ * First and last day covered by the items, for plans whose file does not
+ * state the trip dates
+ */
+export function itemDateRange(items: ImportedItem[]): { startDate?: string; endDate?: string } {
+  const dates = items
+    .flatMap(item => [importTimeDate(item.start), importTimeDate(item.end)])
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  return { startDate: dates[0], endDate: dates[dates.length - 1] };
+}
+
+/**
+ * Stable item ID from the source's own identifier, so importing the same
+ * file twice yields the same items
+ */
+export function importItemId(format: ImportFormat, key: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `import-${format}-${(hash >>> 0).toString(36)}`;
+}
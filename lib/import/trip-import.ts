@@ -0,0 +1,235 @@
+// Trip Import
+// Turns uploaded files into one plan preview: detects each file's format,
+// parses it, combines the results and matches the trip's endpoints to
+// wizard locations. Nothing is stored; the client saves the draft once the
+// user has reviewed the preview.
+
+import { Country } from 'country-state-city';
+import { getAllLocations, type LocationData } from '@/lib/data/locations';
+import { resolveDestinationTimeZone } from '@/lib/calendar/ics';
+import { EmailImportError, parseEmailImport } from './email-import';
+import { GeoImportError, parseGpxImport, parseKmlImport } from './geo-import';
+import { IcsImportError, parseIcsImport } from './ics-import';
+import { JsonImportError, parseJsonImport } from './json-import';
+import { looksLikeMimeMessage } from './mime';
+import { XmlParseError } from './xml';
+import {
+  MAX_IMPORTED_ITEMS,
+  itemDateRange,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportedItem,
+  type ImportedPlace,
+  type ImportedPlan,
+  type ParsedImport,
+} from './plan';
+
+export const MAX_IMPORT_FILES = 5;
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+
+export interface ImportFile {
+  fileName: string;
+  data: Uint8Array;
+}
+
+export type TripImportResult =
+  | { status: 'ok'; preview: ImportPreview }
+  | { status: 'too_many_files'; limit: number }
+  | { status: 'too_large'; fileName: string; maxBytes: number }
+  | { status: 'unsupported_format'; fileName: string }
+  | { status: 'invalid_file'; fileName: string; message: string };
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  ics: 'ics',
+  ical: 'ics',
+  ifb: 'ics',
+  gpx: 'gpx',
+  kml: 'kml',
+  json: 'json',
+  eml: 'eml',
+};
+
+const PARSERS: Record<ImportFormat, (source: string, fileName: string) => ParsedImport> = {
+  ics: parseIcsImport,
+  gpx: parseGpxImport,
+  kml: parseKmlImport,
+  json: parseJsonImport,
+  eml: parseEmailImport,
+};
+
+// Errors that describe a bad file rather than a bug
+const FILE_ERRORS = [IcsImportError, GeoImportError, JsonImportError, EmailImportError, XmlParseError];
+
+/**
+ * Format of a file from its extension, or from its content when the
+ * extension is missing or unknown (e.g. "confirmation.txt")
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension];
+  }
+
+  const head = text.slice(0, 4096).trimStart();
+  if (/^BEGIN:VCALENDAR/i.test(head)) {
+    return 'ics';
+  }
+  if (head.startsWith('<')) {
+    const root = head.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, '').trimStart();
+    if (/^<(\w+:)?gpx\b/.test(root)) return 'gpx';
+    if (/^<(\w+:)?kml\b/.test(root)) return 'kml';
+    return null;
+  }
+  if (head.startsWith('{')) {
+    return 'json';
+  }
+  return looksLikeMimeMessage(text) ? 'eml' : null;
+}
+
+// ==================== LOCATIONS ====================
+
+function findCountry(name: string | undefined) {
+  const value = name?.trim().toLowerCase();
+  return value
+    ? Country.getAllCountries().find(country => country.isoCode.toLowerCase() === value || country.name.toLowerCase() === value)
+    : undefined;
+}
+
+/**
+ * Wizard location for an imported place: a known location with the same
+ * IATA code or name when there is one, otherwise one built from the place
+ */
+export function resolveImportedLocation(place: ImportedPlace | undefined): LocationData | null {
+  if (!place) {
+    return null;
+  }
+
+  const names = [place.city, place.name].filter((name): name is string => Boolean(name)).map(name => name.toLowerCase());
+  const iataCode = place.iataCode?.toUpperCase();
+  const locations = getAllLocations();
+  const known = (iataCode && locations.find(location => location.iataCode?.toUpperCase() === iataCode))
+    || names.map(name => locations.find(location => location.name.toLowerCase() === name)).find(Boolean);
+  if (known) {
+    return known;
+  }
+
+  const country = findCountry(place.country);
+  const name = place.city || place.name;
+  const flagEmoji = country?.flag || '🌍';
+  return {
+    id: `import-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    displayName: `${[name, country?.name].filter(Boolean).join(', ')} ${flagEmoji}`,
+    type: !place.city && iataCode ? 'airport' : 'city',
+    country: country?.name || place.country || '',
+    countryCode: country?.isoCode || '',
+    coordinates: [place.lng ?? 0, place.lat ?? 0],
+    timezone: resolveDestinationTimeZone(country?.isoCode, place.lng),
+    iataCode,
+    flagEmoji,
+    searchTerms: [name.toLowerCase(), ...(iataCode ? [iataCode.toLowerCase()] : [])],
+  };
+}
+
+// ==================== COMBINING ====================
+
+function byStart(a: ImportedItem, b: ImportedItem): number {
+  if (!a.start || !b.start) {
+    return a.start ? -1 : b.start ? 1 : 0;
+  }
+  return a.start.localeCompare(b.start);
+}
+
+/**
+ * Combine the plans of several files. Items with the same ID (the same
+ * booking in two files) are kept once; the trip runs from the earliest to
+ * the latest date any file mentions.
+ */
+export function combineImports(parsed: { fileName: string; format: ImportFormat; plan: ParsedImport }[]): ImportedPlan {
+  const items: ImportedItem[] = [];
+  const seen = new Set<string>();
+  parsed.flatMap(({ plan }) => plan.items).sort(byStart).forEach(item => {
+    if (!seen.has(item.id)) {
+      seen.add(item.id);
+      items.push(item);
+    }
+  });
+
+  const plans = parsed.map(({ plan }) => plan);
+  const first = <K extends keyof ParsedImport>(key: K) => plans.map(plan => plan[key]).find(value => value !== undefined);
+  const range = itemDateRange(items);
+  const startDates = [...plans.map(plan => plan.startDate), range.startDate].filter((date): date is string => Boolean(date)).sort();
+  const endDates = [...plans.map(plan => plan.endDate), range.endDate].filter((date): date is string => Boolean(date)).sort();
+  const travelers = plans.map(plan => plan.travelers ?? 0).reduce((max, count) => Math.max(max, count), 0);
+
+  // Without stated endpoints, the first leg of the journey gives them
+  const firstLeg = items.find(item => item.destination);
+  const origin = first('origin') || firstLeg?.location;
+  const destination = first('destination')
+    || firstLeg?.destination
+    || items.find(item => item.kind === 'lodging')?.location;
+
+  const warnings = parsed.flatMap(({ fileName, plan }) => plan.warnings.map(warning => `${fileName}: ${warning}`));
+  if (items.length > MAX_IMPORTED_ITEMS) {
+    warnings.push(`Only the first ${MAX_IMPORTED_ITEMS} of ${items.length} items were imported`);
+  }
+
+  return {
+    title: first('title')
+      || (destination ? `Trip to ${destination.city || destination.name}` : undefined),
+    startDate: startDates[0],
+    endDate: endDates[endDates.length - 1],
+    travelers: travelers > 0 ? travelers : undefined,
+    budget: first('budget'),
+    origin,
+    destination,
+    items: items.slice(0, MAX_IMPORTED_ITEMS),
+    sources: parsed.map(({ fileName, format, plan }) => ({ fileName, format, items: plan.items.length })),
+    warnings,
+  };
+}
+
+// ==================== IMPORT ====================
+
+/**
+ * Parse uploaded files into a preview. Emails are decoded as latin1 so
+ * their parts keep the bytes of their own charsets.
+ */
+export function importTripFiles(files: ImportFile[]): TripImportResult {
+  if (files.length > MAX_IMPORT_FILES) {
+    return { status: 'too_many_files', limit: MAX_IMPORT_FILES };
+  }
+
+  const parsed: { fileName: string; format: ImportFormat; plan: ParsedImport }[] = [];
+  for (const { fileName, data } of files) {
+    if (data.length > MAX_IMPORT_FILE_BYTES) {
+      return { status: 'too_large', fileName, maxBytes: MAX_IMPORT_FILE_BYTES };
+    }
+
+    const text = new TextDecoder('utf-8').decode(data);
+    const format = detectImportFormat(fileName, text);
+    if (!format) {
+      return { status: 'unsupported_format', fileName };
+    }
+
+    try {
+      const source = format === 'eml' ? Buffer.from(data).toString('latin1') : text;
+      parsed.push({ fileName, format, plan: PARSERS[format](source, fileName) });
+    } catch (error) {
+      if (FILE_ERRORS.some(ErrorClass => error instanceof ErrorClass)) {
+        return { status: 'invalid_file', fileName, message: (error as Error).message };
+      }
+      throw error;
+    }
+  }
+
+  const plan = combineImports(parsed);
+  return {
+    status: 'ok',
+    preview: {
+      ...plan,
+      from: resolveImportedLocation(plan.origin),
+      to: resolveImportedLocation(plan.destination),
+    },
+  };
+}
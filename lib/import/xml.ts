@@ -0,0 +1,189 @@
+// XML Reader
+// Small non-validating XML parser for imported GPX and KML files. Namespace
+// prefixes are dropped from element names, and DOCTYPE declarations are
+// skipped without expanding their entities, so a crafted file cannot make
+// the parser read local files or blow up memory. Nesting is capped, so a
+// crafted file is rejected as invalid instead of exhausting the stack.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text directly inside the element
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+// Far deeper than any GPX or KML file needs
+const MAX_DEPTH = 256;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse a document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) {
+      throw new XmlParseError(`Unterminated markup, expected "${terminator}"`);
+    }
+    const content = source.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  while (position < source.length) {
+    const next = source.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (next === -1 || next > position) {
+      const text = source.slice(position, next === -1 ? source.length : next);
+      if (stack.length > 1) {
+        current.text += decodeEntities(text);
+      }
+      if (next === -1) {
+        break;
+      }
+      position = next;
+      continue;
+    }
+
+    if (source.startsWith('<!--', position)) {
+      position += 4;
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += 9;
+      current.text += skipPast(']]>');
+    } else if (source.startsWith('<?', position)) {
+      position += 2;
+      skipPast('?>');
+    } else if (source.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', position);
+      const close = source.indexOf('>', position);
+      if (bracket !== -1 && bracket < close) {
+        const subsetEnd = /\]\s*>/g;
+        subsetEnd.lastIndex = bracket;
+        const match = subsetEnd.exec(source);
+        if (!match) {
+          throw new XmlParseError('Unterminated DOCTYPE');
+        }
+        position = match.index + match[0].length;
+      } else if (close !== -1) {
+        position = close + 1;
+      } else {
+        throw new XmlParseError('Unterminated DOCTYPE');
+      }
+    } else if (source.startsWith('</', position)) {
+      position += 2;
+      const name = localName(skipPast('>').trim());
+      if (stack.length === 1 || current.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+    } else {
+      position += 1;
+      const tag = skipPast('>');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+      const element: XmlElement = {
+        name: localName(body.slice(0, nameEnd)),
+        attributes: parseAttributes(body.slice(nameEnd)),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        if (stack.length > MAX_DEPTH) {
+          throw new XmlParseError(`Elements are nested more than ${MAX_DEPTH} levels deep`);
+        }
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  const [documentElement] = root.children;
+  if (!documentElement) {
+    throw new XmlParseError('Document has no root element');
+  }
+  return documentElement;
+}
+
+// ==================== QUERIES ====================
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+/**
+ * All descendants with the given name, in document order. Walks the tree
+ * with an explicit stack rather than recursion.
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const pending = [...element.children].reverse();
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (next.name === name) {
+      found.push(next);
+    }
+    for (let i = next.children.length - 1; i >= 0; i--) {
+      pending.push(next.children[i]);
+    }
+  }
+  return found;
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+  const text = childElement(element, name)?.text.trim();
+  return text || undefined;
+}
@@ -0,0 +1,36 @@
+// Background Jobs
+// Scheduled work that runs outside request handling. Each job is safe to
+// run repeatedly; `npm run jobs:run` executes them from cron or by hand.
+
+import { expireBookings } from '@/lib/booking/bookings';
+import { deliverPendingNotifications } from '@/lib/notifications/dispatcher';
+import { compactPriceHistory } from '@/lib/services/price-history-store';
+import { runPriceTracking } from './price-tracking';
+
+export interface JobOptions {
+  limit?: number;
+}
+
+export interface JobDefinition {
+  description: string;
+  run: (options: JobOptions) => Promise<unknown>;
+}
+
+export const JOBS: Record<string, JobDefinition> = {
+  'price-tracking': {
+    description: 'Re-run saved searches, record live prices and fire price alerts',
+    run: ({ limit }) => runPriceTracking({ limit }),
+  },
+  'price-history-maintenance': {
+    description: 'Roll old price observations up to daily rows and apply retention',
+    run: () => compactPriceHistory(),
+  },
+  'notification-delivery': {
+    description: 'Deliver notifications held back by quiet hours and retry failed channels',
+    run: ({ limit }) => deliverPendingNotifications({ limit }),
+  },
+  'booking-expiry': {
+    description: 'Expire lapsed booking quotes and holds and release them with providers',
+    run: ({ limit }) => expireBookings({ limit }),
+  },
+};
@@ -0,0 +1,150 @@
+// Price Tracking Job
+// Re-runs saved flight, hotel and car rental searches, records the cheapest
+// live price per provider in the price history store and checks the price
+// alerts set on each watch. Cached offers are skipped
+// (that price was already observed when it was fetched), and nothing is
+// recorded while the search sandbox is on, so synthetic fares never reach
+// the history the prediction and deal engines learn from.
+
+import type { PriceWatch } from '@/lib/database/schema';
+import { createCarRentalSearchService, type CarRentalSearchQuery } from '@/lib/services/car-rental-search';
+import { createFlightSearchService, type FlightSearchQuery } from '@/lib/services/flight-search';
+import { createHotelSearchService, type HotelSearchQuery } from '@/lib/services/hotel-search';
+import { evaluatePriceAlerts } from '@/lib/services/price-alerts';
+import { getPriceHistoryStore, type PriceObservation, type PriceSeriesKind } from '@/lib/services/price-history-store';
+import { getDuePriceWatches, markPriceWatchChecked } from '@/lib/services/price-watches';
+import { isSandboxMode, type DataProvenance } from '@/lib/services/sandbox';
+
+// Minimum time between two checks of the same watch
+export const PRICE_CHECK_INTERVAL_MINUTES = 6 * 60;
+export const DEFAULT_PRICE_CHECK_BATCH = 50;
+
+export interface PriceTrackingResult {
+  checked: number;
+  recorded: number; // Observations written
+  notified: number; // Price alerts that fired
+  retired: number; // Watches whose travel date has passed
+  failed: number;
+}
+
+interface PricedOffer {
+  provider: string;
+  provenance: DataProvenance;
+  price: number;
+  currency: string;
+}
+
+/**
+ * Cheapest live offer from each provider, as observations for one series
+ */
+export function observationsFromOffers(
+  offers: PricedOffer[],
+  series: { series: string; kind: PriceSeriesKind; travelDate?: string },
+  observedAt: Date = new Date()
+): PriceObservation[] {
+  const cheapest = new Map<string, PricedOffer>();
+
+  offers.forEach(offer => {
+    if (offer.provenance !== 'live' || !(offer.price > 0)) return;
+    const current = cheapest.get(offer.provider);
+    if (!current || offer.price < current.price) {
+      cheapest.set(offer.provider, offer);
+    }
+  });
+
+  return Array.from(cheapest.values()).map(offer => ({
+    ...series,
+    provider: offer.provider,
+    currency: offer.currency,
+    price: offer.price,
+    observedAt,
+  }));
+}
+
+async function searchWatch(watch: PriceWatch): Promise<PricedOffer[]> {
+  if (watch.kind === 'flight') {
+    const result = await createFlightSearchService().searchFlights(watch.query as FlightSearchQuery);
+    return result.offers.map(offer => ({
+      provider: offer.provider,
+      provenance: offer.provenance,
+      price: offer.price.total,
+      currency: offer.price.currency,
+    }));
+  }
+
+  // Like hotels, rentals are compared per day
+  if (watch.kind === 'car_rental') {
+    const result = await createCarRentalSearchService().searchCarRentals(watch.query as CarRentalSearchQuery);
+    return result.carRentals.map(offer => ({
+      provider: offer.provider,
+      provenance: offer.provenance,
+      price: offer.pricing.pricePerDay,
+      currency: offer.pricing.currency,
+    }));
+  }
+
+  // Hotel series cover a whole location, so nightly rates keep stays of
+  // different lengths comparable
+  const result = await createHotelSearchService().searchHotels(watch.query as HotelSearchQuery);
+  return result.offers.map(offer => ({
+    provider: offer.provider,
+    provenance: offer.provenance,
+    price: offer.pricing.perNight,
+    currency: offer.pricing.currency,
+  }));
+}
+
+/**
+ * Check every watch that is due, oldest first. Providers are queried one
+ * watch at a time to stay inside their rate limits.
+ */
+export async function runPriceTracking(
+  options: { limit?: number; now?: Date } = {}
+): Promise<PriceTrackingResult> {
+  const result: PriceTrackingResult = { checked: 0, recorded: 0, notified: 0, retired: 0, failed: 0 };
+
+  if (isSandboxMode()) {
+    console.warn('SEARCH_SANDBOX is on, skipping price tracking');
+    return result;
+  }
+
+  const now = options.now || new Date();
+  const today = now.toISOString().slice(0, 10);
+  const watches = await getDuePriceWatches(
+    new Date(now.getTime() - PRICE_CHECK_INTERVAL_MINUTES * 60 * 1000),
+    options.limit || DEFAULT_PRICE_CHECK_BATCH
+  );
+  const store = getPriceHistoryStore();
+
+  for (const watch of watches) {
+    if (watch.travelDate < today) {
+      await markPriceWatchChecked(watch.id, null, false);
+      result.retired++;
+      continue;
+    }
+
+    try {
+      const observations = observationsFromOffers(await searchWatch(watch), {
+        series: watch.series,
+        kind: watch.kind as PriceSeriesKind,
+        travelDate: watch.travelDate,
+      }, now);
+      result.recorded += await store.record(observations);
+      result.notified += (await evaluatePriceAlerts(watch.id, observations)).notified;
+
+      const cheapest = observations.reduce<PriceObservation | null>(
+        (best, observation) => !best || observation.price < best.price ? observation : best,
+        null
+      );
+      await markPriceWatchChecked(watch.id, cheapest && { price: cheapest.price, currency: cheapest.currency });
+      result.checked++;
+    } catch (error) {
+      console.error(`Failed to check price watch ${watch.id}:`, error);
+      // Still stamp the watch so one failing search doesn't starve the rest
+      await markPriceWatchChecked(watch.id, null);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
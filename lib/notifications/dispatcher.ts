@@ -0,0 +1,199 @@
+// Notification Dispatcher
+// notifyUser stores a notification in the inbox, deduplicated per user by
+// `dedupeKey`, then delivers it on the user's other channels. During quiet
+// hours delivery waits until they end; failed channels are retried by the
+// notification-delivery job for up to a day.
+
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { notifications, users, type Notification } from '@/lib/database/schema';
+import { getNotifier, type DeliveryStatus, type NotificationRecipient } from './notifiers';
+import { getNotificationPreferences, isDeliveryChannel, type NotificationPreferences } from './preferences';
+
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const MAX_RETRY_AGE_MS = 24 * 60 * 60 * 1000;
+// How long a delivery run holds a notification before another run may retry it
+const DELIVERY_LEASE_MS = 10 * 60 * 1000;
+
+export interface NotificationInput {
+  type: 'price_alert' | 'deal';
+  title: string;
+  body: string;
+  url?: string;
+  data?: Record<string, unknown>;
+  dedupeKey: string; // Same key for the same user is only ever notified once
+}
+
+export type NotifyResult =
+  | { status: 'created'; notification: Notification; deferredUntil: Date | null }
+  | { status: 'duplicate' };
+
+function parseClock(value: string): number | null {
+  const match = value.match(/^(\d{2}):(\d{2})$/);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+function localMinutes(now: Date, timezone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * When the user's quiet hours end, or null when `now` is outside them.
+ * Windows may wrap past midnight (22:00-07:00).
+ */
+export function quietHoursEnd(now: Date, preferences: Pick<NotificationPreferences, 'quietHoursStart' | 'quietHoursEnd' | 'timezone'>): Date | null {
+  const start = preferences.quietHoursStart ? parseClock(preferences.quietHoursStart) : null;
+  const end = preferences.quietHoursEnd ? parseClock(preferences.quietHoursEnd) : null;
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const local = localMinutes(now, preferences.timezone);
+  const quiet = start < end ? local >= start && local < end : local >= start || local < end;
+  if (!quiet) {
+    return null;
+  }
+
+  const minutesLeft = (end - local + 24 * 60) % (24 * 60);
+  const intoMinute = now.getUTCSeconds() * 1000 + now.getUTCMilliseconds();
+  return new Date(now.getTime() + minutesLeft * 60 * 1000 - intoMinute);
+}
+
+async function getRecipient(userId: string): Promise<NotificationRecipient> {
+  const rows = await withDatabase(async (db) => {
+    return await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  });
+  return { userId, email: rows?.[0]?.email || null };
+}
+
+/**
+ * Send a stored notification on its pending channels and record the outcome
+ */
+export async function deliverNotification(notification: Notification, now: Date = new Date()): Promise<Notification> {
+  const recipient = await getRecipient(notification.userId);
+  const deliveries: Record<string, DeliveryStatus> = { ...notification.deliveries } as Record<string, DeliveryStatus>;
+  const stillPending: string[] = [];
+
+  for (const channel of notification.pendingChannels.filter(isDeliveryChannel)) {
+    const notifier = getNotifier(channel);
+    if (!notifier) {
+      deliveries[channel] = 'unconfigured';
+      continue;
+    }
+
+    try {
+      deliveries[channel] = await notifier.send(notification, recipient);
+    } catch (error) {
+      console.error(`Failed to deliver notification ${notification.id} by ${channel}:`, error);
+      deliveries[channel] = 'failed';
+      if (now.getTime() - notification.createdAt.getTime() < MAX_RETRY_AGE_MS) {
+        stillPending.push(channel);
+      }
+    }
+  }
+
+  const updates = {
+    pendingChannels: stillPending,
+    deliveries,
+    deliverAfter: stillPending.length > 0 ? new Date(now.getTime() + RETRY_DELAY_MS) : null,
+  };
+  await withDatabase(async (db) => {
+    await db.update(notifications).set(updates).where(eq(notifications.id, notification.id));
+  });
+
+  return { ...notification, ...updates };
+}
+
+/**
+ * Store a notification and deliver it, unless the user already received
+ * one with the same dedupe key. Returns null when the database is unavailable.
+ */
+export async function notifyUser(userId: string, input: NotificationInput): Promise<NotifyResult | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const now = new Date();
+  const preferences = await getNotificationPreferences(userId);
+  const channels = preferences.channels;
+  const deferredUntil = channels.length > 0 ? quietHoursEnd(now, preferences) : null;
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .insert(notifications)
+      .values({
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        url: input.url,
+        data: input.data,
+        dedupeKey: input.dedupeKey,
+        pendingChannels: channels,
+        deliverAfter: channels.length > 0 ? deferredUntil || now : null,
+      })
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+  });
+
+  if (!rows) {
+    return null;
+  }
+  if (rows.length === 0) {
+    return { status: 'duplicate' };
+  }
+
+  const notification = channels.length > 0 && !deferredUntil
+    ? await deliverNotification(rows[0], now)
+    : rows[0];
+  return { status: 'created', notification, deferredUntil };
+}
+
+/**
+ * Deliver notifications held back by quiet hours or waiting on a retry.
+ * Each one is leased first so overlapping runs never send it twice.
+ */
+export async function deliverPendingNotifications(
+  options: { limit?: number; now?: Date } = {}
+): Promise<{ delivered: number; retrying: number }> {
+  const now = options.now || new Date();
+  const due = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        lte(notifications.deliverAfter, now),
+        gt(sql`jsonb_array_length(${notifications.pendingChannels})`, 0)
+      ))
+      .orderBy(notifications.deliverAfter)
+      .limit(options.limit || 100);
+  });
+
+  const result = { delivered: 0, retrying: 0 };
+  for (const notification of due || []) {
+    const leased = await withDatabase(async (db) => {
+      return await db
+        .update(notifications)
+        .set({ deliverAfter: new Date(now.getTime() + DELIVERY_LEASE_MS) })
+        .where(and(eq(notifications.id, notification.id), lte(notifications.deliverAfter, now)))
+        .returning({ id: notifications.id });
+    });
+    if (!leased || leased.length === 0) continue;
+
+    const delivered = await deliverNotification(notification, now);
+    if (delivered.pendingChannels.length > 0) {
+      result.retrying++;
+    } else {
+      result.delivered++;
+    }
+  }
+
+  return result;
+}
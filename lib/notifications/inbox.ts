@@ -0,0 +1,42 @@
+// Notification Inbox
+// The in-app channel: every notification a user has been sent, newest first.
+
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { notifications, type Notification } from '@/lib/database/schema';
+
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit || 50);
+  });
+  return rows || [];
+}
+
+/**
+ * Mark notifications read; all unread ones when no IDs are given
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const updated = await withDatabase(async (db) => {
+    return await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning({ id: notifications.id });
+  });
+  return updated?.length || 0;
+}
@@ -0,0 +1,115 @@
+// Notifiers
+// Delivery channels behind the in-app inbox. Every notification is stored
+// in the inbox first; each notifier then pushes it out on one other channel.
+// Email and web push are registered when configured; registerNotifier adds
+// or replaces a channel (e.g. a test double or another email provider).
+
+import { eq } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { pushSubscriptions, type Notification } from '@/lib/database/schema';
+import { getSmtpConfig, sendMail } from './smtp';
+import { getVapidConfig, sendPush } from './web-push';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+export type DeliveryChannel = Exclude<NotificationChannel, 'in_app'>;
+export const DELIVERY_CHANNELS: DeliveryChannel[] = ['email', 'push'];
+
+// 'skipped' means the recipient cannot be reached on the channel (no email
+// address, no push subscription); delivery failures throw instead
+export type DeliveryStatus = 'sent' | 'skipped' | 'failed' | 'unconfigured';
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+}
+
+export interface Notifier {
+  readonly channel: DeliveryChannel;
+  send(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'>;
+}
+
+function absoluteUrl(path: string | null): string | null {
+  if (!path) return null;
+  return new URL(path, process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').toString();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export class EmailNotifier implements Notifier {
+  readonly channel = 'email' as const;
+
+  async send(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'> {
+    const config = getSmtpConfig();
+    if (!config) {
+      throw new Error('SMTP is not configured');
+    }
+    if (!recipient.email) {
+      return 'skipped';
+    }
+
+    const link = absoluteUrl(notification.url);
+    await sendMail(config, {
+      from: process.env.NOTIFICATIONS_FROM || 'Tripthesia <alerts@tripthesia.app>',
+      to: recipient.email,
+      subject: notification.title,
+      text: [notification.body, link].filter(Boolean).join('\n\n'),
+      html: [
+        `<p>${escapeHtml(notification.body)}</p>`,
+        link ? `<p><a href="${escapeHtml(link)}">View in Tripthesia</a></p>` : '',
+      ].join(''),
+    });
+    return 'sent';
+  }
+}
+
+export class WebPushNotifier implements Notifier {
+  readonly channel = 'push' as const;
+
+  async send(_notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'> {
+    const config = getVapidConfig();
+    if (!config) {
+      throw new Error('Web push is not configured');
+    }
+
+    const subscriptions = await withDatabase(async (db) => {
+      return await db
+        .select({ id: pushSubscriptions.id, endpoint: pushSubscriptions.endpoint })
+        .from(pushSubscriptions)
+        .where(eq(pushSubscriptions.userId, recipient.userId));
+    });
+    if (!subscriptions || subscriptions.length === 0) {
+      return 'skipped';
+    }
+
+    let sent = 0;
+    for (const subscription of subscriptions) {
+      if (await sendPush(config, subscription) === 'expired') {
+        await withDatabase(async (db) => db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, subscription.id)));
+      } else {
+        sent++;
+      }
+    }
+    return sent > 0 ? 'sent' : 'skipped';
+  }
+}
+
+const notifiers = new Map<DeliveryChannel, Notifier>();
+let defaultsRegistered = false;
+
+export function registerNotifier(notifier: Notifier): void {
+  notifiers.set(notifier.channel, notifier);
+}
+
+/**
+ * Notifier for a channel, or null when the channel is not configured
+ */
+export function getNotifier(channel: DeliveryChannel): Notifier | null {
+  if (!defaultsRegistered) {
+    defaultsRegistered = true;
+    if (getSmtpConfig() && !notifiers.has('email')) registerNotifier(new EmailNotifier());
+    if (getVapidConfig() && !notifiers.has('push')) registerNotifier(new WebPushNotifier());
+  }
+  return notifiers.get(channel) || null;
+}
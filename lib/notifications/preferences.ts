@@ -0,0 +1,104 @@
+// Notification Preferences
+// Which channels a user wants besides the in-app inbox, their quiet hours,
+// and the browser push subscriptions registered for them.
+
+import { and, eq } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { notificationSettings, pushSubscriptions } from '@/lib/database/schema';
+import { DELIVERY_CHANNELS, type DeliveryChannel } from './notifiers';
+
+export interface NotificationPreferences {
+  channels: DeliveryChannel[];
+  quietHoursStart: string | null; // HH:MM in `timezone`
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: ['email'],
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+};
+
+export function isDeliveryChannel(value: string): value is DeliveryChannel {
+  return (DELIVERY_CHANNELS as string[]).includes(value);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(notificationSettings)
+      .where(eq(notificationSettings.userId, userId))
+      .limit(1);
+  });
+
+  const row = rows?.[0];
+  if (!row) {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+
+  return {
+    channels: row.channels.filter(isDeliveryChannel),
+    quietHoursStart: row.quietHoursStart,
+    quietHoursEnd: row.quietHoursEnd,
+    timezone: row.timezone,
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: Partial<NotificationPreferences>
+): Promise<NotificationPreferences | null> {
+  const next = { ...(await getNotificationPreferences(userId)), ...updates };
+
+  const saved = await withDatabase(async (db) => {
+    const values = { ...next, updatedAt: new Date() };
+    return await db
+      .insert(notificationSettings)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: notificationSettings.userId, set: values })
+      .returning();
+  });
+
+  return saved ? next : null;
+}
+
+/**
+ * Register a browser's push endpoint. An endpoint belongs to one browser
+ * profile, so re-registering it moves it to the signed-in user.
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: { endpoint: string; keys: { p256dh: string; auth: string } }
+): Promise<boolean> {
+  const saved = await withDatabase(async (db) => {
+    const values = { userId, p256dh: subscription.keys.p256dh, auth: subscription.keys.auth };
+    return await db
+      .insert(pushSubscriptions)
+      .values({ endpoint: subscription.endpoint, ...values })
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning({ id: pushSubscriptions.id });
+  });
+  return (saved?.length || 0) > 0;
+}
+
+export async function deletePushSubscription(userId: string, endpoint: string): Promise<boolean> {
+  const deleted = await withDatabase(async (db) => {
+    return await db
+      .delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)))
+      .returning({ id: pushSubscriptions.id });
+  });
+  return (deleted?.length || 0) > 0;
+}
@@ -0,0 +1,236 @@
+// SMTP Client
+// Minimal SMTP submission for notification emails: EHLO, optional STARTTLS
+// or implicit TLS, AUTH LOGIN, and one message per connection. Enough for a
+// relay (SES, Postmark, Mailgun) or a local sink (npm run notifications:smtp-sink).
+
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * SMTP settings from SMTP_HOST/SMTP_PORT/SMTP_SECURE/SMTP_USER/SMTP_PASSWORD,
+ * or null when no host is configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  };
+}
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+// Reads complete (possibly multi-line) SMTP replies off a socket
+class SmtpConnection {
+  private buffer = '';
+  private waiting: { resolve: (reply: { code: number; text: string }) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(public socket: SmtpSocket) {
+    this.attach(socket);
+  }
+
+  attach(socket: SmtpSocket): void {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  async expect(codes: number[]): Promise<string> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    }
+    return reply.text;
+  }
+
+  async command(line: string, codes: number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  private read(): Promise<{ code: number; text: string }> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+
+    // A reply ends with a line whose code is followed by a space
+    const lines = this.buffer.split('\r\n');
+    const end = lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (end < 0) return;
+
+    const replyLines = lines.slice(0, end + 1);
+    this.buffer = lines.slice(end + 1).join('\r\n');
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting.resolve({
+      code: parseInt(replyLines[end].slice(0, 3), 10),
+      text: replyLines.map(line => line.slice(4)).join('\n'),
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(error);
+    }
+  }
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 for non-ASCII subjects and names
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function wrapBase64(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+/**
+ * Build the RFC 5322 message: plain text, or multipart/alternative when an
+ * HTML body is given. Bodies are base64 so no line needs dot-stuffing.
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = `tripthesia-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+function connect(config: SmtpConfig): Promise<SmtpSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(config.timeoutMs || 15000, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('close');
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+/**
+ * Send one message. Throws on any rejected command; the caller decides
+ * whether to retry.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const connection = new SmtpConnection(await connect(config));
+  const hostname = process.env.SMTP_HELO_NAME || 'localhost';
+
+  try {
+    await connection.expect([220]);
+    let capabilities = await connection.command(`EHLO ${hostname}`, [250]);
+
+    if (!config.secure && /^STARTTLS$/im.test(capabilities)) {
+      await connection.command('STARTTLS', [220]);
+      connection.attach(await upgradeToTls(connection.socket as net.Socket, config.host));
+      capabilities = await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (config.user && config.password) {
+      if (!/^AUTH\b.*\bLOGIN\b/im.test(capabilities)) {
+        throw new Error('SMTP server does not offer AUTH LOGIN');
+      }
+      await connection.command('AUTH LOGIN', [334]);
+      await connection.command(Buffer.from(config.user).toString('base64'), [334]);
+      await connection.command(Buffer.from(config.password).toString('base64'), [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+    await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+    await connection.command(`${buildMimeMessage(message)}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.socket.destroy();
+  }
+}
@@ -0,0 +1,100 @@
+// Web Push
+// Sends payload-less pushes signed with VAPID (RFC 8292). The service worker
+// wakes up, fetches the newest unread notification from the inbox and shows
+// it, so no message content has to be encrypted for the push service.
+
+import { createPrivateKey, sign, type KeyObject } from 'crypto';
+
+export interface VapidConfig {
+  publicKey: string; // base64url uncompressed P-256 point
+  privateKey: string; // base64url 32-byte scalar
+  subject: string; // mailto: or https: contact for the push service
+}
+
+export interface PushTarget {
+  endpoint: string;
+}
+
+export type PushResult = 'sent' | 'expired';
+
+/**
+ * VAPID keys from NEXT_PUBLIC_VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY/VAPID_SUBJECT,
+ * or null when push is not configured
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || 'mailto:alerts@tripthesia.app',
+  };
+}
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function vapidSigningKey(config: VapidConfig): KeyObject {
+  const point = Buffer.from(config.publicKey, 'base64url');
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error('NEXT_PUBLIC_VAPID_PUBLIC_KEY must be an uncompressed P-256 public key');
+  }
+
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.privateKey,
+      x: base64url(point.subarray(1, 33)),
+      y: base64url(point.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Authorization header value for one push service origin
+ */
+export function createVapidAuthorization(config: VapidConfig, endpoint: string, now: Date = new Date()): string {
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + 12 * 60 * 60,
+    sub: config.subject,
+  }));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: vapidSigningKey(config),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${config.publicKey}`;
+}
+
+/**
+ * Deliver a push to one subscription. Returns 'expired' when the push
+ * service says the subscription is gone and should be deleted.
+ */
+export async function sendPush(config: VapidConfig, target: PushTarget): Promise<PushResult> {
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(config, target.endpoint),
+      TTL: String(24 * 60 * 60),
+      Urgency: 'high',
+      'Content-Length': '0',
+    },
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return 'expired';
+  }
+  if (!response.ok) {
+    throw new Error(`Push service responded ${response.status}: ${await response.text()}`);
+  }
+  return 'sent';
+}
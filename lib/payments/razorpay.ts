@@ -0,0 +1,292 @@
+/**
+ * Razorpay integration for Tripthesia subscriptions
+ * Order/subscription creation, payment signature verification and webhook
+ * event interpretation
+ */
+
+import Razorpay from 'razorpay';
+import { validatePaymentVerification, validateWebhookSignature } from 'razorpay/dist/utils/razorpay-utils';
+import { getUserBySubscriptionId, updateUserSubscription } from '@/lib/auth/profile';
+import { SUBSCRIPTION_TIERS, type SubscriptionTier } from '@/lib/subscription/config';
+
+export type PaidTier = Exclude<SubscriptionTier, 'free'>;
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'paused';
+
+// One-off orders buy a single billing period
+const ORDER_PERIOD_DAYS = 30;
+
+// Subscriptions renew monthly for up to a year before needing renewal
+const SUBSCRIPTION_TOTAL_COUNT = 12;
+
+let client: Razorpay | null = null;
+
+export function isRazorpayConfigured(): boolean {
+  return Boolean(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET);
+}
+
+export function getRazorpayClient(): Razorpay {
+  if (!isRazorpayConfigured()) {
+    throw new Error('Razorpay is not configured');
+  }
+
+  if (!client) {
+    client = new Razorpay({
+      key_id: process.env.RAZORPAY_KEY_ID,
+      key_secret: process.env.RAZORPAY_KEY_SECRET,
+    });
+  }
+
+  return client;
+}
+
+/**
+ * Razorpay plan ID for a tier and currency, when subscriptions are set up
+ */
+export function getPlanId(tier: PaidTier, currency: 'INR' | 'USD'): string | undefined {
+  const config = SUBSCRIPTION_TIERS[tier];
+  return (currency === 'USD' ? config.planIdUSD : config.planId) || undefined;
+}
+
+/**
+ * Map a Razorpay plan ID back to the tier it sells
+ */
+export function getTierForPlanId(planId: string | undefined | null): PaidTier | null {
+  if (!planId) {
+    return null;
+  }
+
+  const tiers: PaidTier[] = ['starter', 'pro'];
+  return tiers.find(tier => {
+    const config = SUBSCRIPTION_TIERS[tier];
+    return config.planId === planId || config.planIdUSD === planId;
+  }) || null;
+}
+
+function parseTier(value: unknown): PaidTier | null {
+  return value === 'starter' || value === 'pro' ? value : null;
+}
+
+export interface CheckoutSession {
+  kind: 'subscription' | 'order';
+  id: string;
+  amount: number;
+  currency: 'INR' | 'USD';
+}
+
+/**
+ * Create a Razorpay subscription when a plan is configured for the tier and
+ * currency, otherwise an order for a single billing period. The Clerk user ID
+ * and tier travel in `notes` so webhooks can be attributed.
+ */
+export async function createCheckoutSession(
+  userId: string,
+  tier: PaidTier,
+  currency: 'INR' | 'USD',
+  amount: number
+): Promise<CheckoutSession> {
+  const razorpay = getRazorpayClient();
+  const notes = { userId, tier };
+  const planId = getPlanId(tier, currency);
+
+  if (planId) {
+    const subscription = await razorpay.subscriptions.create({
+      plan_id: planId,
+      total_count: SUBSCRIPTION_TOTAL_COUNT,
+      customer_notify: 1,
+      notes,
+    });
+    return { kind: 'subscription', id: subscription.id, amount, currency };
+  }
+
+  const order = await razorpay.orders.create({
+    amount,
+    currency,
+    receipt: `${tier}_${Date.now()}`.slice(0, 40),
+    notes,
+  });
+  return { kind: 'order', id: order.id, amount, currency };
+}
+
+/**
+ * Verify the signature Razorpay Checkout returns to the payment handler
+ */
+export function verifyCheckoutSignature(
+  payment: { paymentId: string; orderId?: string; subscriptionId?: string },
+  signature: string,
+  secret = process.env.RAZORPAY_KEY_SECRET
+): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+
+  try {
+    if (payment.subscriptionId) {
+      return validatePaymentVerification(
+        { payment_id: payment.paymentId, subscription_id: payment.subscriptionId },
+        signature,
+        secret
+      );
+    }
+    if (payment.orderId) {
+      return validatePaymentVerification(
+        { payment_id: payment.paymentId, order_id: payment.orderId },
+        signature,
+        secret
+      );
+    }
+  } catch (error) {
+    console.error('Razorpay signature verification failed:', error);
+  }
+
+  return false;
+}
+
+/**
+ * Verify the `x-razorpay-signature` header against the raw request body
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null,
+  secret = process.env.RAZORPAY_WEBHOOK_SECRET
+): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+
+  try {
+    return validateWebhookSignature(rawBody, signature, secret);
+  } catch (error) {
+    console.error('Razorpay webhook signature verification failed:', error);
+    return false;
+  }
+}
+
+// ==================== WEBHOOK EVENTS ====================
+
+interface RazorpayEntity {
+  id: string;
+  notes?: Record<string, string | number> | string[];
+  [key: string]: unknown;
+}
+
+export interface RazorpayWebhookEvent {
+  entity: 'event';
+  account_id?: string;
+  event: string;
+  contains?: string[];
+  payload: Record<string, { entity: RazorpayEntity } | undefined>;
+  created_at: number;
+}
+
+export interface SubscriptionUpdate {
+  userId?: string;
+  subscriptionId?: string;
+  customerId?: string;
+  tier?: SubscriptionTier;
+  status?: SubscriptionStatus;
+  currentPeriodEnd?: Date;
+  // When Razorpay created the event; orders updates against each other
+  eventAt?: Date;
+}
+
+function getNotes(entity: RazorpayEntity | undefined): Record<string, string | number> {
+  // Razorpay sends empty notes as an empty array
+  return entity?.notes && !Array.isArray(entity.notes) ? entity.notes : {};
+}
+
+function fromUnixSeconds(value: unknown): Date | undefined {
+  return typeof value === 'number' && value > 0 ? new Date(value * 1000) : undefined;
+}
+
+export function addBillingPeriod(from: Date): Date {
+  return new Date(from.getTime() + ORDER_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Work out the profile change a webhook event implies. Returns null for
+ * events that do not affect subscriptions.
+ */
+export function deriveSubscriptionUpdate(event: RazorpayWebhookEvent): SubscriptionUpdate | null {
+  const subscription = event.payload.subscription?.entity;
+
+  if (event.event.startsWith('subscription.') && subscription) {
+    const notes = getNotes(subscription);
+    const base: SubscriptionUpdate = {
+      userId: notes.userId ? String(notes.userId) : undefined,
+      subscriptionId: subscription.id,
+      customerId: typeof subscription.customer_id === 'string' ? subscription.customer_id : undefined,
+      eventAt: fromUnixSeconds(event.created_at),
+    };
+    const tier = parseTier(notes.tier) || getTierForPlanId(subscription.plan_id as string | undefined);
+
+    switch (event.event) {
+      case 'subscription.activated':
+      case 'subscription.charged':
+      case 'subscription.resumed':
+        return {
+          ...base,
+          ...(tier && { tier }),
+          status: 'active',
+          currentPeriodEnd: fromUnixSeconds(subscription.current_end),
+        };
+      case 'subscription.paused':
+      case 'subscription.halted':
+        return { ...base, status: 'paused' };
+      case 'subscription.cancelled':
+        // Access continues until the paid period ends
+        return { ...base, status: 'cancelled', currentPeriodEnd: fromUnixSeconds(subscription.current_end) };
+      case 'subscription.completed':
+        return { ...base, tier: 'free', status: 'expired' };
+      default:
+        return null;
+    }
+  }
+
+  if (event.event === 'order.paid') {
+    const order = event.payload.order?.entity;
+    const notes = getNotes(order);
+    const tier = parseTier(notes.tier);
+    if (!order || !tier) {
+      return null;
+    }
+
+    const paidAt = fromUnixSeconds(event.created_at) || new Date();
+    return {
+      userId: notes.userId ? String(notes.userId) : undefined,
+      tier,
+      status: 'active',
+      currentPeriodEnd: addBillingPeriod(paidAt),
+      eventAt: fromUnixSeconds(event.created_at),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Apply a derived update to the subscriber's profile. Events without a
+ * userId note are attributed through the stored subscription ID; events
+ * older than the last applied one are skipped as 'stale'.
+ */
+export async function applySubscriptionUpdate(update: SubscriptionUpdate): Promise<'applied' | 'stale' | 'unattributed' | 'failed'> {
+  let userId = update.userId;
+
+  if (!userId && update.subscriptionId) {
+    userId = (await getUserBySubscriptionId(update.subscriptionId))?.userId;
+  }
+
+  if (!userId) {
+    return 'unattributed';
+  }
+
+  const updated = await updateUserSubscription(userId, {
+    tier: update.tier,
+    status: update.status,
+    subscriptionId: update.subscriptionId,
+    customerId: update.customerId,
+    currentPeriodEnd: update.currentPeriodEnd,
+    eventAt: update.eventAt,
+  });
+
+  return updated === 'updated' ? 'applied' : updated;
+}
@@ -0,0 +1,627 @@
+/**
+ * Multi-day activity distribution
+ *
+ * Decides which day each selected activity lands on. Activities are clustered
+ * geographically, clusters are matched to the days whose hotel base is
+ * closest, and days are then rebalanced against the traveller's pace. Each
+ * day is finally ordered and timed by the schedule solver starting from that
+ * night's hotel, and carries a short explanation of why its items were
+ * grouped together.
+ */
+
+import type { Activity } from '@/components/planning/TimelineBuilder';
+import { calculateDistance, type Location } from './route-optimizer';
+import {
+  getOpenWindows,
+  parseOpeningHours,
+  solveDaySchedule,
+  type UnscheduledActivity,
+} from './schedule-solver';
+
+type TravelMode = 'walking' | 'driving' | 'public_transport';
+
+// Mirrors the `pace` enum on profiles
+export type TripPace = 'chill' | 'standard' | 'packed';
+
+export interface PaceProfile {
+  maxActivities: number; // per full day
+  maxMinutes: number; // activity time per full day
+  dayStart: string; // HH:MM
+  dayEnd: string; // HH:MM
+}
+
+export const PACE_PROFILES: Record<TripPace, PaceProfile> = {
+  chill: { maxActivities: 3, maxMinutes: 5 * 60, dayStart: '10:00', dayEnd: '20:00' },
+  standard: { maxActivities: 4, maxMinutes: 7 * 60, dayStart: '09:00', dayEnd: '21:00' },
+  packed: { maxActivities: 6, maxMinutes: 10 * 60, dayStart: '08:00', dayEnd: '22:00' },
+};
+
+export interface HotelBase {
+  id: string;
+  name: string;
+  location: Location;
+  checkIn?: string; // YYYY-MM-DD, first night
+  checkOut?: string; // YYYY-MM-DD, morning of departure
+}
+
+export interface DistributionOptions {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  pace?: TripPace;
+  bases?: HotelBase[];
+  travelMode?: TravelMode;
+}
+
+export interface DistributedDay {
+  date: string;
+  dayNumber: number;
+  base?: HotelBase;
+  activities: Activity[]; // Ordered and timed
+  unscheduled: UnscheduledActivity[]; // Assigned here but could not be timed
+  load: {
+    activities: number;
+    minutes: number;
+    maxActivities: number;
+    maxMinutes: number;
+  };
+  averageBaseDistance: number; // km from the hotel to the day's activities
+  explanation: string[];
+}
+
+export type UnassignedReason = 'over_capacity' | 'closed_every_day' | 'outside_trip';
+
+export interface UnassignedActivity {
+  activity: Activity;
+  reason: UnassignedReason;
+  message: string;
+}
+
+export interface TripDistributionResult {
+  pace: TripPace;
+  days: DistributedDay[];
+  unassigned: UnassignedActivity[];
+  totalActivities: number;
+}
+
+interface DayBucket {
+  date: string;
+  dayOfWeek: number;
+  base?: HotelBase;
+  maxActivities: number;
+  maxMinutes: number;
+  activities: Activity[];
+  pinned: Set<string>;
+  notes: DayNote[];
+}
+
+// Notes about one activity are dropped if it later leaves the day
+interface DayNote {
+  text: string;
+  activityId?: string;
+}
+
+const KMEANS_ITERATIONS = 12;
+
+/**
+ * Spread activities over the days of a trip.
+ */
+export function distributeActivities(activities: Activity[], options: DistributionOptions): TripDistributionResult {
+  const pace = options.pace || 'standard';
+  const profile = PACE_PROFILES[pace];
+  const dates = enumerateDates(options.startDate, options.endDate);
+  const result: TripDistributionResult = { pace, days: [], unassigned: [], totalActivities: activities.length };
+
+  if (dates.length === 0) {
+    result.unassigned = activities.map(activity => ({
+      activity,
+      reason: 'outside_trip',
+      message: 'The trip has no valid dates',
+    }));
+    return result;
+  }
+
+  const bases = options.bases || [];
+  const buckets: DayBucket[] = dates.map((date, index) => {
+    // Arrival and departure days only get half a day of activities
+    const isTravelDay = dates.length > 1 && (index === 0 || index === dates.length - 1);
+    const capacityFactor = isTravelDay ? 0.5 : 1;
+    return {
+      date,
+      dayOfWeek: parseDate(date).getDay(),
+      base: baseForDay(bases, dates, index),
+      maxActivities: Math.max(1, Math.round(profile.maxActivities * capacityFactor)),
+      maxMinutes: Math.round(profile.maxMinutes * capacityFactor),
+      activities: [],
+      pinned: new Set(),
+      notes: isTravelDay ? [{ text: `${index === 0 ? 'Arrival' : 'Departure'} day, planned at half capacity` }] : [],
+    };
+  });
+
+  // Locked activities stay on their booked day
+  const flexible: Activity[] = [];
+  for (const activity of activities) {
+    if (!activity.locked) {
+      flexible.push(activity);
+      continue;
+    }
+    const bucket = buckets.find(day => day.date === toDateKey(new Date(activity.timeSlot.start)));
+    if (!bucket) {
+      result.unassigned.push({
+        activity,
+        reason: 'outside_trip',
+        message: `${activity.title} is booked outside the trip dates`,
+      });
+      continue;
+    }
+    bucket.activities.push(activity);
+    bucket.pinned.add(activity.id);
+    bucket.notes.push({ text: `${activity.title} is a fixed booking on this day`, activityId: activity.id });
+  }
+
+  const located = flexible.filter(hasLocation);
+  const unlocated = flexible.filter(activity => !hasLocation(activity));
+
+  // Cluster, then give each cluster the day whose hotel is closest to it
+  const clusters = clusterActivities(located, Math.min(buckets.length, located.length), buckets[0].base?.location);
+  assignClustersToDays(clusters, buckets);
+
+  // Places closed on their assigned weekday move to the nearest open day
+  for (const bucket of buckets) {
+    for (const activity of [...bucket.activities]) {
+      if (bucket.pinned.has(activity.id) || isOpenOn(activity, bucket.dayOfWeek)) continue;
+
+      const target = cheapestDay(activity, buckets, day => day !== bucket && isOpenOn(activity, day.dayOfWeek), true);
+      removeFrom(bucket, activity);
+      if (target) {
+        target.activities.push(activity);
+        target.notes.push({
+          text: `${activity.title} moved here because it is closed on ${weekdayName(bucket.dayOfWeek)}s`,
+          activityId: activity.id,
+        });
+      } else {
+        result.unassigned.push({
+          activity,
+          reason: 'closed_every_day',
+          message: `${activity.title} is not open on any day of the trip`,
+        });
+      }
+    }
+  }
+
+  rebalance(buckets, pace, result.unassigned);
+
+  // Activities without coordinates fill whichever day has the most room
+  for (const activity of unlocated) {
+    const target = buckets
+      .filter(day => fits(day, activity) && isOpenOn(activity, day.dayOfWeek))
+      .sort((a, b) => spareMinutes(b) - spareMinutes(a))[0];
+    if (target) {
+      target.activities.push(activity);
+      target.notes.push({
+        text: `${activity.title} has no map location, so it went to the lightest day`,
+        activityId: activity.id,
+      });
+    } else {
+      result.unassigned.push(overCapacity(activity, pace, buckets.length));
+    }
+  }
+
+  result.days = buckets.map((bucket, index) => buildDay(bucket, index, profile, pace, options.travelMode));
+  return result;
+}
+
+// ==================== CLUSTERING ====================
+
+/**
+ * k-means over activity coordinates. Seeds are chosen farthest-first from the
+ * first hotel (or the first activity) so results are deterministic.
+ */
+export function clusterActivities(activities: Activity[], k: number, anchor?: Location): Activity[][] {
+  if (activities.length === 0 || k <= 0) return [];
+  if (k >= activities.length) return activities.map(activity => [activity]);
+
+  const points = activities.map(activity => activity.location.coordinates);
+  const centroids: Location[] = [];
+  const first = anchor
+    ? points.reduce((closest, point) =>
+        calculateDistance(anchor, point) < calculateDistance(anchor, closest) ? point : closest)
+    : points[0];
+  centroids.push(first);
+
+  while (centroids.length < k) {
+    const farthest = points.reduce((best, point) =>
+      nearestDistance(point, centroids) > nearestDistance(best, centroids) ? point : best);
+    centroids.push(farthest);
+  }
+
+  let assignment = points.map(point => nearestIndex(point, centroids));
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    for (let c = 0; c < centroids.length; c++) {
+      const members = points.filter((_, index) => assignment[index] === c);
+      if (members.length > 0) centroids[c] = centroidOf(members);
+    }
+    const next = points.map(point => nearestIndex(point, centroids));
+    if (next.every((value, index) => value === assignment[index])) break;
+    assignment = next;
+  }
+
+  return centroids
+    .map((_, c) => activities.filter((__, index) => assignment[index] === c))
+    .filter(cluster => cluster.length > 0);
+}
+
+function assignClustersToDays(clusters: Activity[][], buckets: DayBucket[]): void {
+  const pairs: { cluster: number; day: number; cost: number }[] = [];
+
+  clusters.forEach((cluster, c) => {
+    const centroid = centroidOf(cluster.map(activity => activity.location.coordinates));
+    const minutes = totalMinutes(cluster);
+    buckets.forEach((bucket, d) => {
+      const distance = bucket.base ? calculateDistance(bucket.base.location, centroid) : 0;
+      // Prefer full days for big clusters; a km is worth about 20 minutes of overload
+      const overload = Math.max(0, minutes - spareMinutes(bucket));
+      pairs.push({ cluster: c, day: d, cost: distance + overload / 20 + d * 1e-6 });
+    });
+  });
+
+  const usedClusters = new Set<number>();
+  const usedDays = new Set<number>();
+  for (const pair of pairs.sort((a, b) => a.cost - b.cost)) {
+    if (usedClusters.has(pair.cluster) || usedDays.has(pair.day)) continue;
+    usedClusters.add(pair.cluster);
+    usedDays.add(pair.day);
+
+    buckets[pair.day].activities.push(...clusters[pair.cluster]);
+  }
+}
+
+// ==================== BALANCING ====================
+
+// Move activities out of overloaded days into the nearest day with room
+function rebalance(buckets: DayBucket[], pace: TripPace, unassigned: UnassignedActivity[]): void {
+  const maxMoves = buckets.reduce((sum, bucket) => sum + bucket.activities.length, 0) * buckets.length;
+
+  for (let move = 0; move < maxMoves; move++) {
+    const overloaded = buckets
+      .filter(isOverloaded)
+      .sort((a, b) => overloadOf(b) - overloadOf(a))[0];
+    if (!overloaded) return;
+
+    let best: { activity: Activity; target: DayBucket; cost: number } | null = null;
+    for (const activity of overloaded.activities) {
+      if (overloaded.pinned.has(activity.id)) continue;
+
+      const target = cheapestDay(activity, buckets, day =>
+        day !== overloaded && fits(day, activity) && isOpenOn(activity, day.dayOfWeek));
+      if (!target) continue;
+
+      const cost = anchorDistance(activity, target) - anchorDistance(activity, overloaded, activity);
+      if (!best || cost < best.cost) best = { activity, target, cost };
+    }
+
+    if (!best) {
+      // Nothing fits anywhere else: drop the activity farthest from the rest of its day
+      const candidates = overloaded.activities.filter(activity => !overloaded.pinned.has(activity.id));
+      if (candidates.length === 0) return;
+      const outlier = candidates.reduce((farthest, activity) =>
+        anchorDistance(activity, overloaded, activity) > anchorDistance(farthest, overloaded, farthest) ? activity : farthest);
+      removeFrom(overloaded, outlier);
+      unassigned.push(overCapacity(outlier, pace, buckets.length));
+      continue;
+    }
+
+    const dayNumber = buckets.indexOf(overloaded) + 1;
+    removeFrom(overloaded, best.activity);
+    best.target.activities.push(best.activity);
+    best.target.notes.push({
+      text: `${best.activity.title} moved here from Day ${dayNumber} to keep that day at a ${pace} pace`,
+      activityId: best.activity.id,
+    });
+  }
+}
+
+function isOverloaded(bucket: DayBucket): boolean {
+  return bucket.activities.length > bucket.maxActivities || totalMinutes(bucket.activities) > bucket.maxMinutes;
+}
+
+function overloadOf(bucket: DayBucket): number {
+  return Math.max(0, totalMinutes(bucket.activities) - bucket.maxMinutes) +
+    Math.max(0, bucket.activities.length - bucket.maxActivities) * 60;
+}
+
+function fits(bucket: DayBucket, activity: Activity): boolean {
+  return bucket.activities.length + 1 <= bucket.maxActivities &&
+    totalMinutes(bucket.activities) + durationOf(activity) <= bucket.maxMinutes;
+}
+
+function spareMinutes(bucket: DayBucket): number {
+  return bucket.maxMinutes - totalMinutes(bucket.activities);
+}
+
+// Distance from an activity to a day's centre of gravity (its other activities, else its hotel)
+function anchorDistance(activity: Activity, bucket: DayBucket, exclude?: Activity): number {
+  if (!hasLocation(activity)) return 0;
+  const others = bucket.activities.filter(other => other !== exclude && hasLocation(other));
+  if (others.length > 0) {
+    return calculateDistance(activity.location.coordinates, centroidOf(others.map(other => other.location.coordinates)));
+  }
+  return bucket.base ? calculateDistance(activity.location.coordinates, bucket.base.location) : 0;
+}
+
+function cheapestDay(
+  activity: Activity,
+  buckets: DayBucket[],
+  allowed: (bucket: DayBucket) => boolean,
+  ignoreCapacity: boolean = false
+): DayBucket | undefined {
+  return buckets
+    .filter(bucket => allowed(bucket) && (ignoreCapacity || fits(bucket, activity)))
+    .sort((a, b) => anchorDistance(activity, a) - anchorDistance(activity, b))[0];
+}
+
+function overCapacity(activity: Activity, pace: TripPace, days: number): UnassignedActivity {
+  return {
+    activity,
+    reason: 'over_capacity',
+    message: `${activity.title} does not fit into ${days} day${days === 1 ? '' : 's'} at a ${pace} pace`,
+  };
+}
+
+// ==================== DAY ASSEMBLY ====================
+
+function buildDay(
+  bucket: DayBucket,
+  index: number,
+  profile: PaceProfile,
+  pace: TripPace,
+  travelMode: TravelMode = 'public_transport'
+): DistributedDay {
+  const schedule = solveDaySchedule(bucket.activities, {
+    date: bucket.date,
+    dayStart: profile.dayStart,
+    dayEnd: profile.dayEnd,
+    travelMode,
+    startLocation: bucket.base?.location,
+  });
+
+  const minutes = totalMinutes(bucket.activities);
+  const located = bucket.activities.filter(hasLocation);
+  const averageBaseDistance = bucket.base && located.length > 0
+    ? located.reduce((sum, activity) => sum + calculateDistance(bucket.base!.location, activity.location.coordinates), 0) / located.length
+    : 0;
+
+  const assigned = new Set(bucket.activities.map(activity => activity.id));
+  const explanation = bucket.notes
+    .filter(note => !note.activityId || assigned.has(note.activityId))
+    .map(note => note.text);
+
+  // Describe the day's final grouping rather than the initial clusters
+  if (located.length > 0) {
+    const centroid = centroidOf(located.map(activity => activity.location.coordinates));
+    const anchor = located.reduce((closest, activity) =>
+      calculateDistance(activity.location.coordinates, centroid) < calculateDistance(closest.location.coordinates, centroid)
+        ? activity
+        : closest);
+    const radius = Math.max(...located.map(activity => calculateDistance(activity.location.coordinates, centroid)));
+
+    explanation.push(
+      located.length === 1
+        ? `Built around ${anchor.title}`
+        : `Grouped ${located.length} activities within ${formatKm(radius)} of ${anchor.title}`
+    );
+    if (bucket.base) {
+      explanation.push(`Centred ${formatKm(calculateDistance(bucket.base.location, centroid))} from ${bucket.base.name}, the hotel for this night`);
+    }
+  }
+
+  if (bucket.activities.length === 0) {
+    explanation.push('Free day: no activities needed to be scheduled here');
+  } else {
+    explanation.push(`${formatMinutes(minutes)} of activities against a ${pace} pace limit of ${formatMinutes(bucket.maxMinutes)}`);
+  }
+
+  return {
+    date: bucket.date,
+    dayNumber: index + 1,
+    base: bucket.base,
+    activities: schedule.scheduledActivities,
+    unscheduled: schedule.unscheduled,
+    load: {
+      activities: bucket.activities.length,
+      minutes,
+      maxActivities: bucket.maxActivities,
+      maxMinutes: bucket.maxMinutes,
+    },
+    averageBaseDistance,
+    explanation,
+  };
+}
+
+/**
+ * The hotel the traveller sleeps at on the night of each day. Dated bases
+ * cover check-in up to the night before check-out; undated bases split the
+ * nights evenly in the order given. The departure day keeps the previous
+ * night's base.
+ */
+export function baseForDay(bases: HotelBase[], dates: string[], index: number): HotelBase | undefined {
+  if (bases.length === 0) return undefined;
+  const nightIndex = Math.min(index, Math.max(0, dates.length - 2));
+  const night = dates[nightIndex];
+
+  const dated = bases.find(base => base.checkIn && base.checkOut && base.checkIn <= night && night < base.checkOut);
+  if (dated) return dated;
+
+  const undated = bases.filter(base => !base.checkIn || !base.checkOut);
+  if (undated.length === 0) return undefined;
+
+  const nights = Math.max(1, dates.length - 1);
+  return undated[Math.min(undated.length - 1, Math.floor((nightIndex * undated.length) / nights))];
+}
+
+// ==================== WIZARD ADAPTERS ====================
+
+// Wizard selections use [longitude, latitude] tuples, with [0, 0] meaning unknown
+function fromTuple(coordinates: unknown): Location {
+  if (Array.isArray(coordinates) && coordinates.length === 2) {
+    return { lat: Number(coordinates[1]) || 0, lng: Number(coordinates[0]) || 0 };
+  }
+  return { lat: 0, lng: 0 };
+}
+
+const WIZARD_CATEGORIES: Record<string, Activity['category']> = {
+  food: 'dining',
+  dining: 'dining',
+  restaurant: 'dining',
+  nightlife: 'entertainment',
+  entertainment: 'entertainment',
+  shows: 'entertainment',
+  shopping: 'shopping',
+  markets: 'shopping',
+};
+
+/**
+ * Convert activities picked in the trip wizard into planner activities.
+ */
+export function activitiesFromWizard(selections: any[], startDate: string): Activity[] {
+  const anchor = parseDate(startDate);
+  const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate(), 9);
+
+  return selections.map((selection, index) => {
+    const duration = selection.duration?.min || selection.duration || 120;
+    return {
+      id: String(selection.id ?? `activity-${index}`),
+      title: selection.name || selection.title || 'Activity',
+      description: selection.description,
+      category: WIZARD_CATEGORIES[String(selection.category || '').toLowerCase()] || 'sightseeing',
+      location: {
+        name: selection.location?.name || '',
+        address: selection.location?.address || '',
+        coordinates: fromTuple(selection.location?.coordinates),
+      },
+      timeSlot: {
+        start: start.toISOString(),
+        end: new Date(start.getTime() + duration * 60000).toISOString(),
+        duration,
+      },
+      budget: selection.price?.adult,
+      placeId: selection.placeId,
+      openingHours: selection.openingHours ?? selection.hours,
+    };
+  });
+}
+
+/**
+ * Hotel bases from the accommodation step: either `{ selectedHotel }` from
+ * AccommodationStep or a list of selected stays.
+ */
+export function hotelBasesFromWizard(accommodation: any): HotelBase[] {
+  const selections = Array.isArray(accommodation)
+    ? accommodation
+    : accommodation?.selectedHotel
+      ? [accommodation.selectedHotel]
+      : [];
+
+  return selections
+    .map((hotel: any) => ({
+      id: String(hotel.id),
+      name: hotel.name || 'Hotel',
+      location: fromTuple(hotel.location?.coordinates),
+      checkIn: hotel.checkIn,
+      checkOut: hotel.checkOut,
+    }))
+    .filter((base: HotelBase) => base.location.lat !== 0 || base.location.lng !== 0);
+}
+
+// Helper functions
+function hasLocation(activity: Activity): boolean {
+  const { lat, lng } = activity.location.coordinates;
+  return Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0);
+}
+
+function isOpenOn(activity: Activity, dayOfWeek: number): boolean {
+  const hours = parseOpeningHours(activity.openingHours);
+  return !hours || getOpenWindows(hours, dayOfWeek).length > 0;
+}
+
+function removeFrom(bucket: DayBucket, activity: Activity): void {
+  bucket.activities.splice(bucket.activities.indexOf(activity), 1);
+}
+
+function durationOf(activity: Activity): number {
+  return activity.timeSlot.duration > 0 ? activity.timeSlot.duration : 60;
+}
+
+function totalMinutes(activities: Activity[]): number {
+  return activities.reduce((sum, activity) => sum + durationOf(activity), 0);
+}
+
+function centroidOf(points: Location[]): Location {
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+  };
+}
+
+function nearestIndex(point: Location, centroids: Location[]): number {
+  let best = 0;
+  for (let i = 1; i < centroids.length; i++) {
+    if (calculateDistance(point, centroids[i]) < calculateDistance(point, centroids[best])) best = i;
+  }
+  return best;
+}
+
+function nearestDistance(point: Location, centroids: Location[]): number {
+  return Math.min(...centroids.map(centroid => calculateDistance(point, centroid)));
+}
+
+function parseDate(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match
+    ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+    : new Date(value);
+}
+
+function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function enumerateDates(startDate: string, endDate: string): string[] {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) return [];
+
+  const dates: string[] = [];
+  for (const day = new Date(start); day <= end && dates.length < 60; day.setDate(day.getDate() + 1)) {
+    dates.push(toDateKey(day));
+  }
+  return dates;
+}
+
+function weekdayName(dayOfWeek: number): string {
+  return ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek];
+}
+
+function formatKm(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0 && mins > 0) return `${hours}h ${mins}m`;
+  if (hours > 0) return `${hours}h`;
+  return `${mins}m`;
+}
+
+/**
+ * Export all utilities as a single distributor class
+ */
+export class DayDistributor {
+  static distribute = distributeActivities;
+  static clusterActivities = clusterActivities;
+  static baseForDay = baseForDay;
+  static activitiesFromWizard = activitiesFromWizard;
+  static hotelBasesFromWizard = hotelBasesFromWizard;
+}
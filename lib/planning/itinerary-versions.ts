@@ -0,0 +1,335 @@
+// Itinerary Versions
+// Itineraries are append-only: every generation, edit and restore writes a
+// new row in `itineraries` with the next version number for the trip.
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { itineraries, type Itinerary } from '@/lib/database/schema';
+
+export type ItinerarySource = 'generated' | 'edit' | 'restore';
+
+export interface ItineraryVersionInput {
+  data: unknown;
+  locks?: unknown;
+  source: ItinerarySource;
+  createdBy?: string;
+  restoredFrom?: number;
+  // Set on `edit` snapshots of the collaboration op log
+  baseVersion?: number;
+  aiPrompt?: string;
+  aiModel?: string;
+  generationTime?: number;
+}
+
+export type ItineraryVersionSummary = Pick<
+  Itinerary,
+  'id' | 'version' | 'source' | 'restoredFrom' | 'createdBy' | 'aiModel' | 'createdAt'
+>;
+
+/**
+ * Append a new itinerary version. Appends for the same trip are serialised
+ * with a transaction-scoped advisory lock so version numbers never collide.
+ */
+export async function appendItineraryVersion(
+  tripId: string,
+  input: ItineraryVersionInput
+): Promise<Itinerary | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  return await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${tripId}))`);
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${itineraries.version}), 0)` })
+        .from(itineraries)
+        .where(eq(itineraries.tripId, tripId));
+
+      const [itinerary] = await tx
+        .insert(itineraries)
+        .values({
+          tripId,
+          version: Number(latest) + 1,
+          data: input.data,
+          locks: input.locks ?? null,
+          source: input.source,
+          restoredFrom: input.restoredFrom,
+          baseVersion: input.baseVersion,
+          createdBy: input.createdBy,
+          aiPrompt: input.aiPrompt,
+          aiModel: input.aiModel,
+          generationTime: input.generationTime,
+        })
+        .returning();
+
+      return itinerary;
+    });
+  });
+}
+
+/**
+ * List a trip's itinerary versions, newest first, without their data
+ */
+export async function listItineraryVersions(tripId: string): Promise<ItineraryVersionSummary[]> {
+  if (!isDatabaseAvailable()) {
+    return [];
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({
+        id: itineraries.id,
+        version: itineraries.version,
+        source: itineraries.source,
+        restoredFrom: itineraries.restoredFrom,
+        createdBy: itineraries.createdBy,
+        aiModel: itineraries.aiModel,
+        createdAt: itineraries.createdAt,
+      })
+      .from(itineraries)
+      .where(eq(itineraries.tripId, tripId))
+      .orderBy(desc(itineraries.version));
+  });
+
+  return rows || [];
+}
+
+/**
+ * Fetch one itinerary version, or the latest when no version is given
+ */
+export async function getItineraryVersion(tripId: string, version?: number): Promise<Itinerary | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(itineraries)
+      .where(version === undefined
+        ? eq(itineraries.tripId, tripId)
+        : and(eq(itineraries.tripId, tripId), eq(itineraries.version, version)))
+      .orderBy(desc(itineraries.version))
+      .limit(1);
+  });
+
+  return rows?.[0] || null;
+}
+
+/**
+ * Restore a past version by appending a copy of it as the newest version
+ */
+export async function restoreItineraryVersion(
+  tripId: string,
+  version: number,
+  userId: string
+): Promise<Itinerary | null> {
+  const target = await getItineraryVersion(tripId, version);
+  if (!target) {
+    return null;
+  }
+
+  return await appendItineraryVersion(tripId, {
+    data: target.data,
+    locks: target.locks,
+    source: 'restore',
+    restoredFrom: version,
+    createdBy: userId,
+  });
+}
+
+// ==================== DIFF ====================
+
+export interface ItineraryChange {
+  id: string;
+  label: string;
+  day?: string;
+  fromDay?: string;
+  fields?: string[];
+}
+
+export interface ItineraryDiff {
+  days: {
+    added: ItineraryChange[];
+    removed: ItineraryChange[];
+    modified: ItineraryChange[];
+  };
+  activities: {
+    added: ItineraryChange[];
+    removed: ItineraryChange[];
+    modified: ItineraryChange[];
+    moved: ItineraryChange[];
+  };
+  summary: string;
+}
+
+export interface NormalizedDay {
+  id: string;
+  label: string;
+  fields: Record<string, unknown>;
+}
+
+export interface NormalizedActivity {
+  id: string;
+  label: string;
+  dayId: string;
+  dayLabel: string;
+  fields: Record<string, unknown>;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter(key => stableStringify(before[key]) !== stableStringify(after[key]))
+    .sort();
+}
+
+/**
+ * Flatten the itinerary shapes we store (CRDT `days` with ids, or generated
+ * `dailyItinerary` keyed by day number) into comparable days and activities
+ */
+export function normalizeItinerary(data: unknown): { days: NormalizedDay[]; activities: NormalizedActivity[] } {
+  const record = (data && typeof data === 'object' ? data : {}) as Record<string, any>;
+  const rawDays: any[] = Array.isArray(record.days)
+    ? record.days
+    : Array.isArray(record.dailyItinerary) ? record.dailyItinerary : [];
+
+  const days: NormalizedDay[] = [];
+  const activities: NormalizedActivity[] = [];
+
+  rawDays.forEach((rawDay, index) => {
+    const { activities: rawActivities, id, ...fields } = rawDay || {};
+    const dayNumber = typeof fields.day === 'number' ? fields.day : index + 1;
+    const dayId = String(id ?? `day-${dayNumber}`);
+    const dayLabel = String(fields.title || fields.date || `Day ${dayNumber}`);
+
+    days.push({ id: dayId, label: dayLabel, fields });
+
+    (Array.isArray(rawActivities) ? rawActivities : []).forEach((rawActivity: any) => {
+      const { id: activityId, ...activityFields } = rawActivity || {};
+      const name = activityFields.name || activityFields.title || 'Untitled activity';
+      activities.push({
+        id: String(activityId ?? `${name}|${activityFields.time || activityFields.startTime || ''}`),
+        label: String(name),
+        dayId,
+        dayLabel,
+        fields: activityFields,
+      });
+    });
+  });
+
+  return { days, activities };
+}
+
+function pluralize(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Summarise what changed between two itinerary versions
+ */
+export function diffItineraries(from: unknown, to: unknown): ItineraryDiff {
+  const before = normalizeItinerary(from);
+  const after = normalizeItinerary(to);
+
+  const beforeDays = new Map(before.days.map(day => [day.id, day]));
+  const afterDays = new Map(after.days.map(day => [day.id, day]));
+  const beforeActivities = new Map(before.activities.map(activity => [activity.id, activity]));
+  const afterActivities = new Map(after.activities.map(activity => [activity.id, activity]));
+
+  const diff: ItineraryDiff = {
+    days: { added: [], removed: [], modified: [] },
+    activities: { added: [], removed: [], modified: [], moved: [] },
+    summary: '',
+  };
+
+  after.days.forEach(day => {
+    const previous = beforeDays.get(day.id);
+    if (!previous) {
+      diff.days.added.push({ id: day.id, label: day.label });
+      return;
+    }
+    const fields = changedFields(previous.fields, day.fields);
+    if (fields.length > 0) {
+      diff.days.modified.push({ id: day.id, label: day.label, fields });
+    }
+  });
+  before.days.forEach(day => {
+    if (!afterDays.has(day.id)) {
+      diff.days.removed.push({ id: day.id, label: day.label });
+    }
+  });
+
+  after.activities.forEach(activity => {
+    const previous = beforeActivities.get(activity.id);
+    if (!previous) {
+      diff.activities.added.push({ id: activity.id, label: activity.label, day: activity.dayLabel });
+      return;
+    }
+    if (previous.dayId !== activity.dayId) {
+      diff.activities.moved.push({
+        id: activity.id,
+        label: activity.label,
+        day: activity.dayLabel,
+        fromDay: previous.dayLabel,
+      });
+    }
+    const fields = changedFields(previous.fields, activity.fields);
+    if (fields.length > 0) {
+      diff.activities.modified.push({ id: activity.id, label: activity.label, day: activity.dayLabel, fields });
+    }
+  });
+  before.activities.forEach(activity => {
+    if (!afterActivities.has(activity.id)) {
+      diff.activities.removed.push({ id: activity.id, label: activity.label, day: activity.dayLabel });
+    }
+  });
+
+  const parts = [
+    diff.days.added.length && `${pluralize(diff.days.added.length, 'day')} added`,
+    diff.days.removed.length && `${pluralize(diff.days.removed.length, 'day')} removed`,
+    diff.days.modified.length && `${pluralize(diff.days.modified.length, 'day')} modified`,
+    diff.activities.added.length && `${pluralize(diff.activities.added.length, 'activity', 'activities')} added`,
+    diff.activities.removed.length && `${pluralize(diff.activities.removed.length, 'activity', 'activities')} removed`,
+    diff.activities.modified.length && `${pluralize(diff.activities.modified.length, 'activity', 'activities')} modified`,
+    diff.activities.moved.length && `${pluralize(diff.activities.moved.length, 'activity', 'activities')} moved`,
+  ].filter(Boolean);
+
+  diff.summary = parts.length > 0 ? parts.join(', ') : 'No changes';
+  return diff;
+}
+
+export interface ItineraryItemRef {
+  id: string;
+  type: 'day' | 'activity';
+  label: string;
+  day: string;
+}
+
+/**
+ * Day or activity of an itinerary by ID, using the same IDs as the diff
+ */
+export function findItineraryItem(data: unknown, itemId: string): ItineraryItemRef | null {
+  const { days, activities } = normalizeItinerary(data);
+  const activity = activities.find(candidate => candidate.id === itemId);
+  if (activity) {
+    return { id: activity.id, type: 'activity', label: activity.label, day: activity.dayLabel };
+  }
+  const day = days.find(candidate => candidate.id === itemId);
+  return day ? { id: day.id, type: 'day', label: day.label, day: day.label } : null;
+}
@@ -0,0 +1,686 @@
+/**
+ * Time-window-aware daily schedule solver
+ *
+ * Builds a day's timeline from a set of activities, respecting place opening
+ * hours, activity durations, locked (fixed-time) bookings, meal windows and
+ * the day's start and end. Activities that cannot be placed are reported with
+ * a reason instead of being silently dropped or scheduled while closed.
+ *
+ * All times are wall-clock times in the planner's local time zone.
+ */
+
+import type { Activity } from '@/components/planning/TimelineBuilder';
+import { calculateDistance, estimateTravelTime, type Location } from './route-optimizer';
+
+type TravelMode = 'walking' | 'driving' | 'public_transport';
+
+export interface TimeWindow {
+  start: number; // minutes since midnight
+  end: number; // minutes since midnight, may exceed 1440 for overnight hours
+}
+
+// Weekly opening hours keyed by day of week (0 = Sunday, as Date#getDay)
+export type OpeningHours = Record<number, TimeWindow[]>;
+
+export interface MealWindow {
+  name: string;
+  start: string; // HH:MM
+  end: string; // HH:MM
+  duration: number; // minutes
+}
+
+export interface ScheduleOptions {
+  date?: string; // YYYY-MM-DD, defaults to the first activity's day
+  dayStart?: string; // HH:MM
+  dayEnd?: string; // HH:MM
+  travelMode?: TravelMode;
+  startLocation?: Location;
+  meals?: MealWindow[];
+  locks?: Record<string, string>; // activity id -> fixed start (ISO)
+  hours?: Record<string, unknown>; // activity id or place id -> raw opening hours
+}
+
+export type InfeasibilityReason = 'closed' | 'outside_day' | 'conflicts_with_lock' | 'no_time';
+
+export interface UnscheduledActivity {
+  activity: Activity;
+  reason: InfeasibilityReason;
+  message: string;
+}
+
+export interface ScheduledStop {
+  activityId: string;
+  start: string;
+  end: string;
+  travelTime: number; // minutes from the previous stop
+  waitTime: number; // minutes spent waiting for the place to open
+  locked: boolean;
+}
+
+export interface MealBreak {
+  name: string;
+  start: string;
+  end: string;
+  activityId?: string; // Set when a dining activity covers the meal
+}
+
+export interface DayScheduleResult {
+  scheduledActivities: Activity[];
+  stops: ScheduledStop[];
+  mealBreaks: MealBreak[];
+  unscheduled: UnscheduledActivity[];
+  totalTravelTime: number; // minutes
+  totalDistance: number; // km
+  totalWaitTime: number; // minutes
+  warnings: string[];
+}
+
+export const DEFAULT_DAY_START = '09:00';
+export const DEFAULT_DAY_END = '22:00';
+
+export const DEFAULT_MEAL_WINDOWS: MealWindow[] = [
+  { name: 'Lunch', start: '12:00', end: '14:30', duration: 60 },
+  { name: 'Dinner', start: '18:30', end: '21:30', duration: 90 },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_DURATION = 60;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// ==================== OPENING HOURS ====================
+
+/**
+ * Parse a time such as "0930", "09:30", "9:30 PM" or "21h30" into minutes
+ * since midnight.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?::|h|\.)?(\d{2})?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+// Foursquare and Google send "HHMM"
+function parseCompactTime(value: unknown): number | null {
+  return typeof value === 'string' ? parseClockTime(value) : null;
+}
+
+function emptyWeek(): OpeningHours {
+  return { 0: [], 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
+}
+
+function addWindow(week: OpeningHours, day: number, open: number | null, close: number | null): void {
+  if (open === null || close === null || day < 0 || day > 6) return;
+  // Overnight hours ("18:00-02:00") run into the next day
+  const end = close <= open ? close + MINUTES_PER_DAY : close;
+  week[day].push({ start: open, end });
+}
+
+// "09:00-17:00, 18:00-22:00", "closed", "24h"
+function parseRangeText(week: OpeningHours, day: number, text: string): void {
+  const normalized = text.trim().toLowerCase();
+  if (!normalized || normalized === 'closed') return;
+  if (['24h', '24 hours', 'open 24 hours', '00:00-24:00'].includes(normalized)) {
+    week[day].push({ start: 0, end: MINUTES_PER_DAY });
+    return;
+  }
+
+  for (const range of normalized.split(',')) {
+    const [open, close] = range.split(/\s*[-–—]\s*|\s+to\s+/);
+    if (open && close) {
+      addWindow(week, day, parseClockTime(open), parseClockTime(close));
+    }
+  }
+}
+
+function dayIndexFromName(name: string): number {
+  const key = name.trim().toLowerCase();
+  return DAY_NAMES.findIndex(day => day === key || day.slice(0, 3) === key);
+}
+
+/**
+ * Normalize a stored `places.hours` value into weekly opening windows.
+ * Understands Foursquare (`regular`, days 1-7 from Monday), Google Places
+ * (`periods`, days 0-6 from Sunday, or `weekday_text`) and plain maps such as
+ * `{ mon: "09:00-17:00" }`. Returns null when the hours are unknown, which
+ * the solver treats as always open.
+ */
+export function parseOpeningHours(raw: unknown): OpeningHours | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const hours = raw as Record<string, any>;
+  const week = emptyWeek();
+
+  if (Array.isArray(hours.regular)) {
+    for (const entry of hours.regular) {
+      if (typeof entry?.day !== 'number') continue;
+      addWindow(week, entry.day % 7, parseCompactTime(entry.open), parseCompactTime(entry.close));
+    }
+    return week;
+  }
+
+  if (Array.isArray(hours.periods)) {
+    for (const period of hours.periods) {
+      if (typeof period?.open?.day !== 'number') continue;
+      // A single period without a close time means open around the clock
+      if (!period.close) {
+        for (let day = 0; day < 7; day++) week[day].push({ start: 0, end: MINUTES_PER_DAY });
+        return week;
+      }
+      const open = parseCompactTime(period.open.time);
+      const close = parseCompactTime(period.close.time);
+      if (open === null || close === null) continue;
+      const spansDays = (period.close.day - period.open.day + 7) % 7;
+      week[period.open.day].push({ start: open, end: close + spansDays * MINUTES_PER_DAY });
+    }
+    return week;
+  }
+
+  const weekdayText = hours.weekday_text || hours.weekdayText;
+  if (Array.isArray(weekdayText)) {
+    for (const line of weekdayText) {
+      if (typeof line !== 'string') continue;
+      const separator = line.indexOf(':');
+      const day = separator > 0 ? dayIndexFromName(line.slice(0, separator)) : -1;
+      if (day >= 0) parseRangeText(week, day, line.slice(separator + 1));
+    }
+    return week;
+  }
+
+  let recognized = false;
+  for (const [key, value] of Object.entries(hours)) {
+    const day = dayIndexFromName(key);
+    if (day < 0) continue;
+    recognized = true;
+
+    const ranges = Array.isArray(value) ? value : [value];
+    for (const range of ranges) {
+      if (typeof range === 'string') {
+        parseRangeText(week, day, range);
+      } else if (Array.isArray(range) && range.length === 2) {
+        addWindow(week, day, parseCompactTime(range[0]), parseCompactTime(range[1]));
+      } else if (range && typeof range === 'object') {
+        addWindow(week, day, parseCompactTime(range.open), parseCompactTime(range.close));
+      }
+    }
+  }
+
+  return recognized ? week : null;
+}
+
+/**
+ * Opening windows for one day of the week, including hours that spill over
+ * from the previous evening.
+ */
+export function getOpenWindows(hours: OpeningHours, dayOfWeek: number): TimeWindow[] {
+  const previousDay = (dayOfWeek + 6) % 7;
+  const spill = (hours[previousDay] || [])
+    .filter(window => window.end > MINUTES_PER_DAY)
+    .map(window => ({ start: 0, end: window.end - MINUTES_PER_DAY }));
+
+  return [...spill, ...(hours[dayOfWeek] || [])].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether an activity's current time slot falls inside its place's
+ * opening hours. Returns a message describing the problem, or null.
+ */
+export function checkOpeningHours(activity: Activity, rawHours: unknown = activity.openingHours): string | null {
+  const hours = parseOpeningHours(rawHours);
+  if (!hours) return null;
+
+  const start = new Date(activity.timeSlot.start);
+  const end = new Date(activity.timeSlot.end);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return null;
+
+  const dayStart = startOfDay(start);
+  const startMinute = minutesBetween(dayStart, start);
+  const endMinute = minutesBetween(dayStart, end);
+  const windows = getOpenWindows(hours, start.getDay());
+
+  if (windows.length === 0) {
+    return `${activity.title} is closed on ${capitalize(DAY_NAMES[start.getDay()])}s`;
+  }
+  if (!windows.some(window => window.start <= startMinute && window.end >= endMinute)) {
+    return `${activity.title} is open ${formatWindows(windows)}`;
+  }
+  return null;
+}
+
+// ==================== LOCKS ====================
+
+/**
+ * Read fixed start times from an itinerary's `locks` column. A lock may be
+ * `true` (keep the activity's current start), an ISO start time, or an object
+ * with a `start` field. Activities flagged `locked` are included as well.
+ */
+export function resolveLocks(raw: unknown, activities: Activity[]): Record<string, string> {
+  const locks: Record<string, string> = {};
+  const entries = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  for (const activity of activities) {
+    const lock = entries[activity.id];
+    if (typeof lock === 'string' && !Number.isNaN(new Date(lock).getTime())) {
+      locks[activity.id] = lock;
+    } else if (lock && typeof lock === 'object' && 'start' in lock && typeof lock.start === 'string') {
+      locks[activity.id] = lock.start;
+    } else if (lock === true || activity.locked) {
+      locks[activity.id] = activity.timeSlot.start;
+    }
+  }
+
+  return locks;
+}
+
+// ==================== SOLVER ====================
+
+interface PlannedItem {
+  activity: Activity;
+  start: number;
+  end: number;
+  travelTime: number;
+  waitTime: number;
+  locked: boolean;
+}
+
+interface Candidate {
+  activity: Activity;
+  start: number;
+  end: number;
+  travelTime: number;
+  score: number;
+}
+
+interface MealState extends TimeWindow {
+  name: string;
+  duration: number;
+  latestStart: number;
+  done: boolean;
+}
+
+/**
+ * Schedule one day. Locked activities keep their start time; the remaining
+ * activities are placed greedily in time order, each step choosing the
+ * reachable activity that can start soonest, favouring places that are about
+ * to close. A meal break is inserted when no dining activity covers a meal
+ * window.
+ */
+export function solveDaySchedule(activities: Activity[], options: ScheduleOptions = {}): DayScheduleResult {
+  const {
+    travelMode = 'walking',
+    startLocation,
+    meals = DEFAULT_MEAL_WINDOWS,
+    hours = {},
+  } = options;
+
+  const result: DayScheduleResult = {
+    scheduledActivities: [],
+    stops: [],
+    mealBreaks: [],
+    unscheduled: [],
+    totalTravelTime: 0,
+    totalDistance: 0,
+    totalWaitTime: 0,
+    warnings: [],
+  };
+
+  if (activities.length === 0) return result;
+
+  const day = resolveDay(options.date, activities);
+  const dayOfWeek = day.getDay();
+  const dayStart = parseClockTime(options.dayStart || DEFAULT_DAY_START) ?? 9 * 60;
+  const dayEnd = parseClockTime(options.dayEnd || DEFAULT_DAY_END) ?? 22 * 60;
+  const lockStarts = { ...resolveLocks(null, activities), ...options.locks };
+
+  const travelBetween = (from: Location | undefined, to: Location): number =>
+    from && isKnownLocation(from) && isKnownLocation(to) ? estimateTravelTime(calculateDistance(from, to), travelMode) : 0;
+
+  // Opening windows clipped to the planned day; unknown hours mean always open
+  const windowsFor = (activity: Activity): TimeWindow[] | null => {
+    const parsed = parseOpeningHours(
+      hours[activity.id] ?? (activity.placeId ? hours[activity.placeId] : undefined) ?? activity.openingHours
+    );
+    return parsed ? getOpenWindows(parsed, dayOfWeek) : null;
+  };
+
+  const dayWindowsFor = (activity: Activity): TimeWindow[] => {
+    const windows = windowsFor(activity) ?? [{ start: 0, end: MINUTES_PER_DAY }];
+    return windows
+      .map(window => ({ start: Math.max(window.start, dayStart), end: Math.min(window.end, dayEnd) }))
+      .filter(window => window.end > window.start);
+  };
+
+  // Place locked activities first
+  const locked: PlannedItem[] = [];
+  const flexible: Activity[] = [];
+
+  for (const activity of activities) {
+    const lockStart = lockStarts[activity.id];
+    if (!lockStart) {
+      flexible.push(activity);
+      continue;
+    }
+
+    const start = minutesBetween(day, new Date(lockStart));
+    const duration = durationOf(activity);
+    const clash = locked.find(item => start < item.end && start + duration > item.start);
+    if (clash) {
+      result.unscheduled.push({
+        activity,
+        reason: 'conflicts_with_lock',
+        message: `${activity.title} is locked at ${formatClock(start)}, overlapping ${clash.activity.title}`,
+      });
+      continue;
+    }
+
+    const windows = windowsFor(activity);
+    if (windows && !windows.some(window => window.start <= start && window.end >= start + duration)) {
+      result.warnings.push(`${activity.title} is locked at ${formatClock(start)} but the place is not open then`);
+    }
+    if (start < dayStart || start + duration > dayEnd) {
+      result.warnings.push(`${activity.title} is locked outside the planned day (${formatClock(dayStart)}-${formatClock(dayEnd)})`);
+    }
+
+    locked.push({ activity, start, end: start + duration, travelTime: 0, waitTime: 0, locked: true });
+  }
+  locked.sort((a, b) => a.start - b.start);
+
+  const mealStates: MealState[] = meals
+    .map(meal => {
+      const start = parseClockTime(meal.start);
+      const end = parseClockTime(meal.end);
+      if (start === null || end === null) return null;
+      return { name: meal.name, start, end, duration: meal.duration, latestStart: end - meal.duration, done: false };
+    })
+    .filter((meal): meal is MealState => meal !== null && meal.latestStart >= meal.start);
+
+  // A locked dining booking inside a meal window covers that meal
+  for (const meal of mealStates) {
+    const booking = locked.find(item =>
+      item.activity.category === 'dining' && item.start >= meal.start && item.start <= meal.latestStart
+    );
+    if (booking) {
+      meal.done = true;
+      result.mealBreaks.push(mealBreak(day, meal.name, booking.start, booking.end, booking.activity.id));
+    }
+  }
+
+  const planned: PlannedItem[] = [];
+  const pending = [...flexible];
+  let time = dayStart;
+  let location = startLocation;
+  let lockIndex = 0;
+
+  const evaluate = (activity: Activity, nextLock: PlannedItem | undefined): Candidate | null => {
+    const coordinates = activity.location.coordinates;
+    const travelTime = travelBetween(location, coordinates);
+    const arrival = time + travelTime;
+    const duration = durationOf(activity);
+    const travelToLock = nextLock ? travelBetween(coordinates, nextLock.activity.location.coordinates) : 0;
+    const horizon = (nextLock ? nextLock.start : dayEnd) - travelToLock;
+
+    for (const window of dayWindowsFor(activity)) {
+      const start = Math.max(arrival, window.start);
+      const end = start + duration;
+      if (end > window.end || end > horizon) continue;
+
+      // Little slack before closing (or before the next booking) means it should go now
+      const slack = Math.min(window.end, horizon) - end;
+      return { activity, start, end, travelTime, score: start - time + Math.min(slack, 180) * 0.5 };
+    }
+    return null;
+  };
+
+  const place = (candidate: Candidate, isLocked: boolean = false) => {
+    planned.push({
+      activity: candidate.activity,
+      start: candidate.start,
+      end: candidate.end,
+      travelTime: candidate.travelTime,
+      waitTime: isLocked ? 0 : Math.max(0, candidate.start - time - candidate.travelTime),
+      locked: isLocked,
+    });
+    time = candidate.end;
+    // Activities without coordinates don't move the traveller
+    if (isKnownLocation(candidate.activity.location.coordinates)) {
+      location = candidate.activity.location.coordinates;
+    }
+    if (!isLocked) pending.splice(pending.indexOf(candidate.activity), 1);
+  };
+
+  const best = (candidates: Candidate[]): Candidate | undefined =>
+    candidates.reduce<Candidate | undefined>((chosen, candidate) =>
+      !chosen || candidate.score < chosen.score ? candidate : chosen, undefined);
+
+  while (true) {
+    const nextLock = locked[lockIndex];
+
+    for (const meal of mealStates) {
+      if (!meal.done && time > meal.latestStart) {
+        meal.done = true;
+        result.warnings.push(`No time left for ${meal.name.toLowerCase()} between ${formatClock(meal.start)} and ${formatClock(meal.end)}`);
+      }
+    }
+    const meal = mealStates.find(state => !state.done);
+
+    const candidates = pending
+      .map(activity => evaluate(activity, nextLock))
+      .filter((candidate): candidate is Candidate => candidate !== null);
+    const chosen = best(candidates);
+
+    if (meal) {
+      const dining = best(candidates.filter(candidate =>
+        candidate.activity.category === 'dining' &&
+        candidate.start >= meal.start &&
+        candidate.start <= meal.latestStart
+      ));
+      if (dining) {
+        place(dining);
+        meal.done = true;
+        result.mealBreaks.push(mealBreak(day, meal.name, dining.start, dining.end, dining.activity.id));
+        continue;
+      }
+
+      // Take the break now if the next activity would run past the meal window
+      if (!chosen || chosen.end > meal.latestStart) {
+        const start = Math.max(time, meal.start);
+        const horizon = nextLock
+          ? nextLock.start - travelBetween(location, nextLock.activity.location.coordinates)
+          : dayEnd;
+        if (start <= meal.latestStart && start + meal.duration <= horizon) {
+          meal.done = true;
+          result.mealBreaks.push(mealBreak(day, meal.name, start, start + meal.duration));
+          time = start + meal.duration;
+          continue;
+        }
+      }
+    }
+
+    if (chosen) {
+      place(chosen);
+      continue;
+    }
+
+    if (nextLock) {
+      const coordinates = nextLock.activity.location.coordinates;
+      const travelTime = travelBetween(location, coordinates);
+      if (planned.length > 0 && time + travelTime > nextLock.start) {
+        result.warnings.push(`Not enough time to reach ${nextLock.activity.title} by ${formatClock(nextLock.start)}`);
+      }
+      place({ activity: nextLock.activity, start: nextLock.start, end: nextLock.end, travelTime, score: 0 }, true);
+      lockIndex++;
+      continue;
+    }
+
+    break;
+  }
+
+  // Explain everything that could not be placed
+  const diagnose = (activity: Activity): UnscheduledActivity => {
+    const duration = durationOf(activity);
+    const windows = windowsFor(activity);
+
+    if (windows && windows.length === 0) {
+      return {
+        activity,
+        reason: 'closed',
+        message: `${activity.title} is closed on ${capitalize(DAY_NAMES[dayOfWeek])}s`,
+      };
+    }
+
+    const dayWindows = dayWindowsFor(activity).filter(window => window.end - window.start >= duration);
+    if (dayWindows.length === 0) {
+      return {
+        activity,
+        reason: 'outside_day',
+        message: windows
+          ? `${activity.title} is open ${formatWindows(windows)}, which leaves no ${formatDuration(duration)} slot between ${formatClock(dayStart)} and ${formatClock(dayEnd)}`
+          : `${activity.title} needs ${formatDuration(duration)}, longer than the planned day`,
+      };
+    }
+
+    const blockedByLocks = dayWindows.every(window =>
+      freeGaps(window, locked).every(gap => gap.end - gap.start < duration)
+    );
+    if (blockedByLocks) {
+      return {
+        activity,
+        reason: 'conflicts_with_lock',
+        message: `Every slot while ${activity.title} is open is taken by a locked booking`,
+      };
+    }
+
+    return {
+      activity,
+      reason: 'no_time',
+      message: `No free ${formatDuration(duration)} slot left while ${activity.title} is open`,
+    };
+  };
+
+  for (const activity of pending) {
+    result.unscheduled.push(diagnose(activity));
+  }
+
+  // Assemble the timeline
+  let previous = startLocation;
+  for (const item of planned) {
+    const coordinates = item.activity.location.coordinates;
+    if (isKnownLocation(coordinates)) {
+      if (previous) result.totalDistance += calculateDistance(previous, coordinates);
+      previous = coordinates;
+    }
+
+    const start = toIso(day, item.start);
+    const end = toIso(day, item.end);
+    result.scheduledActivities.push({
+      ...item.activity,
+      timeSlot: { ...item.activity.timeSlot, start, end, duration: item.end - item.start },
+    });
+    result.stops.push({
+      activityId: item.activity.id,
+      start,
+      end,
+      travelTime: item.travelTime,
+      waitTime: item.waitTime,
+      locked: item.locked,
+    });
+    result.totalTravelTime += item.travelTime;
+    result.totalWaitTime += item.waitTime;
+  }
+  result.mealBreaks.sort((a, b) => a.start.localeCompare(b.start));
+
+  return result;
+}
+
+// Helper functions
+// [0, 0] is the placeholder for activities without a geocoded location
+function isKnownLocation(location: Location): boolean {
+  return Number.isFinite(location.lat) && Number.isFinite(location.lng) && (location.lat !== 0 || location.lng !== 0);
+}
+
+function resolveDay(date: string | undefined, activities: Activity[]): Date {
+  // Date-only strings are parsed as UTC by Date, so build them locally
+  const match = date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  }
+
+  const anchor = new Date(date || activities[0].timeSlot.start);
+  return startOfDay(Number.isNaN(anchor.getTime()) ? new Date() : anchor);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 60000);
+}
+
+function toIso(day: Date, minutes: number): string {
+  return new Date(day.getTime() + minutes * 60000).toISOString();
+}
+
+function durationOf(activity: Activity): number {
+  return activity.timeSlot.duration > 0 ? activity.timeSlot.duration : DEFAULT_DURATION;
+}
+
+function mealBreak(day: Date, name: string, start: number, end: number, activityId?: string): MealBreak {
+  return { name, start: toIso(day, start), end: toIso(day, end), activityId };
+}
+
+// Gaps inside a window that are not covered by locked activities
+function freeGaps(window: TimeWindow, locked: PlannedItem[]): TimeWindow[] {
+  const gaps: TimeWindow[] = [];
+  let cursor = window.start;
+
+  for (const item of locked) {
+    if (item.end <= cursor || item.start >= window.end) continue;
+    if (item.start > cursor) gaps.push({ start: cursor, end: item.start });
+    cursor = Math.max(cursor, item.end);
+  }
+  if (cursor < window.end) gaps.push({ start: cursor, end: window.end });
+
+  return gaps;
+}
+
+function formatClock(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+function formatWindows(windows: TimeWindow[]): string {
+  return windows.map(window => `${formatClock(window.start)}-${formatClock(window.end)}`).join(', ');
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0 && mins > 0) return `${hours}h ${mins}m`;
+  if (hours > 0) return `${hours}h`;
+  return `${mins}m`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Export all utilities as a single solver class
+ */
+export class ScheduleSolver {
+  static solve = solveDaySchedule;
+  static parseOpeningHours = parseOpeningHours;
+  static getOpenWindows = getOpenWindows;
+  static checkOpeningHours = checkOpeningHours;
+  static resolveLocks = resolveLocks;
+}
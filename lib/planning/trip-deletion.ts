@@ -0,0 +1,48 @@
+// Trip Deletion
+// Foreign keys do not cascade, so deleting a trip means removing every row
+// that references it first. Shared by the trip DELETE route and account
+// deletion.
+
+import { inArray } from 'drizzle-orm';
+import type { DatabaseTransaction } from '@/lib/db';
+import {
+  trips,
+  itineraries,
+  itineraryOps,
+  tripCollaborators,
+  tripInvitations,
+  sharedTrips,
+  priceQuotes,
+  bookings,
+  tripDocuments,
+  calendarFeeds,
+} from '@/lib/database/schema';
+
+/**
+ * Delete trips and their dependent rows inside an existing transaction.
+ * Returns the IDs of the trips that were deleted.
+ */
+export async function deleteTripRecords(tx: DatabaseTransaction, tripIds: string[]): Promise<string[]> {
+  if (tripIds.length === 0) {
+    return [];
+  }
+
+  await tx.delete(itineraryOps).where(inArray(itineraryOps.tripId, tripIds));
+  await tx.delete(itineraries).where(inArray(itineraries.tripId, tripIds));
+  await tx.delete(tripInvitations).where(inArray(tripInvitations.tripId, tripIds));
+  await tx.delete(tripCollaborators).where(inArray(tripCollaborators.tripId, tripIds));
+  await tx.delete(sharedTrips).where(inArray(sharedTrips.tripId, tripIds));
+  await tx.delete(priceQuotes).where(inArray(priceQuotes.tripId, tripIds));
+  await tx.delete(calendarFeeds).where(inArray(calendarFeeds.tripId, tripIds));
+  // Stored files are removed by the caller once the transaction commits
+  await tx.delete(tripDocuments).where(inArray(tripDocuments.tripId, tripIds));
+  // Bookings are the booker's record of what they paid for, so they outlive the trip
+  await tx.update(bookings).set({ tripId: null }).where(inArray(bookings.tripId, tripIds));
+
+  const deleted = await tx
+    .delete(trips)
+    .where(inArray(trips.id, tripIds))
+    .returning({ id: trips.id });
+
+  return deleted.map(trip => trip.id);
+}
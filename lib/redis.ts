@@ -45,6 +45,12 @@ class MockRedis {
 const redisClient = createRedisClient();
 export const redis = redisClient || new MockRedis();
 
+// Raw client for callers that need commands beyond the cache helpers
+// (hashes, counters). Null when Redis is not configured.
+export function getRedisClient(): Redis | null {
+  return redisClient;
+}
+
 // Cache helper functions
 export async function getFromCache<T>(key: string): Promise<T | null> {
   if (!redisClient) {
@@ -0,0 +1,199 @@
+// Rate Limit Stores
+// Counters behind createRateLimit. Each store keeps fixed-window counts and
+// increments them atomically; the limiter blends the current and previous
+// window into a sliding-window estimate.
+
+import type { Redis } from '@upstash/redis';
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { getRedisClient } from '@/lib/redis';
+import { db } from '@/lib/db';
+import { rateLimitBuckets } from '@/lib/database/schema';
+
+export interface RateLimitWindowCounts {
+  current: number; // Count in the current window, including this hit
+  previous: number; // Count in the window before it
+}
+
+export interface RateLimitStore {
+  readonly name: 'memory' | 'postgres' | 'redis';
+  // Atomically add one hit to the window starting at `windowStart` and
+  // return it together with the previous window's count
+  hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts>;
+  reset(key: string): Promise<void>;
+}
+
+// How often the memory store looks for idle keys
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Process-local store. Counts are per instance, so limits are only exact on
+ * a single server; used when neither Redis nor Postgres is selected.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const;
+  // Budgets with different window lengths share the map, so each entry
+  // remembers its own window
+  private windows = new Map<string, { windowStart: number; windowMs: number; count: number; previous: number }>();
+  private lastSweep = 0;
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts> {
+    this.sweep(windowStart);
+
+    const entry = this.windows.get(key);
+    if (!entry || entry.windowStart < windowStart - windowMs) {
+      this.windows.set(key, { windowStart, windowMs, count: 1, previous: 0 });
+      return { current: 1, previous: 0 };
+    }
+
+    if (entry.windowStart < windowStart) {
+      // Rolled over into the next window
+      const rolled = { windowStart, windowMs, count: 1, previous: entry.count };
+      this.windows.set(key, rolled);
+      return { current: 1, previous: rolled.previous };
+    }
+
+    entry.count++;
+    return { current: entry.count, previous: entry.previous };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  // Drop keys idle for two of their own windows so the map does not grow
+  // without bound; a key still in its previous window is kept for the
+  // sliding estimate
+  private sweep(now: number): void {
+    if (now - this.lastSweep < MEMORY_SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    this.windows.forEach((entry, key) => {
+      if (entry.windowStart + entry.windowMs * 2 <= now) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Redis store: INCR on a per-window key, expired after two windows
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis' as const;
+
+  constructor(private client: Redis) {}
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts> {
+    const currentKey = `${key}:${windowStart}`;
+    const previousKey = `${key}:${windowStart - windowMs}`;
+
+    const [current, , previous] = await this.client
+      .multi()
+      .incr(currentKey)
+      .pexpire(currentKey, windowMs * 2)
+      .get<number | string>(previousKey)
+      .exec<[number, number, number | string | null]>();
+
+    return { current, previous: Number(previous) || 0 };
+  }
+
+  async reset(key: string): Promise<void> {
+    const keys = await this.client.keys(`${key}:*`);
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+  }
+}
+
+/**
+ * Postgres store: upsert on (key, window_start). Expired rows are swept
+ * opportunistically.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres' as const;
+  private lastSweep = 0;
+
+  constructor(private database: NonNullable<typeof db>) {}
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts> {
+    const start = new Date(windowStart);
+    const previousStart = new Date(windowStart - windowMs);
+
+    const [row] = await this.database
+      .insert(rateLimitBuckets)
+      .values({ key, windowStart: start, count: 1, expiresAt: new Date(windowStart + windowMs * 2) })
+      .onConflictDoUpdate({
+        target: [rateLimitBuckets.key, rateLimitBuckets.windowStart],
+        set: { count: sql`${rateLimitBuckets.count} + 1` },
+      })
+      .returning({ count: rateLimitBuckets.count });
+
+    const [previous] = await this.database
+      .select({ count: rateLimitBuckets.count })
+      .from(rateLimitBuckets)
+      .where(and(eq(rateLimitBuckets.key, key), eq(rateLimitBuckets.windowStart, previousStart)));
+
+    void this.sweep(windowStart, windowMs);
+
+    return { current: row.count, previous: previous?.count || 0 };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.database.delete(rateLimitBuckets).where(eq(rateLimitBuckets.key, key));
+  }
+
+  private async sweep(now: number, windowMs: number): Promise<void> {
+    if (now - this.lastSweep < windowMs) return;
+    this.lastSweep = now;
+
+    try {
+      await this.database.delete(rateLimitBuckets).where(lt(rateLimitBuckets.expiresAt, new Date()));
+    } catch (error) {
+      console.error('Failed to sweep rate limit buckets:', error);
+    }
+  }
+}
+
+let sharedStore: RateLimitStore | null = null;
+
+/**
+ * Get the limiter store for this process. RATE_LIMIT_STORE picks one
+ * explicitly (memory/postgres/redis); by default Redis is used when
+ * configured, otherwise the in-memory store.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) {
+    sharedStore = createRateLimitStore(process.env.RATE_LIMIT_STORE);
+  }
+  return sharedStore;
+}
+
+// Fallback used when the configured store errors, so limits stay enforced
+// per instance instead of failing open
+let fallbackStore: MemoryRateLimitStore | null = null;
+
+export function getFallbackRateLimitStore(): RateLimitStore {
+  if (!fallbackStore) {
+    fallbackStore = new MemoryRateLimitStore();
+  }
+  return fallbackStore;
+}
+
+function createRateLimitStore(preferred?: string): RateLimitStore {
+  const redisClient = getRedisClient();
+
+  switch (preferred) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'postgres':
+      if (db) return new PostgresRateLimitStore(db);
+      console.warn('RATE_LIMIT_STORE=postgres but the database is not configured, using memory');
+      return new MemoryRateLimitStore();
+    case 'redis':
+      if (redisClient) return new RedisRateLimitStore(redisClient);
+      console.warn('RATE_LIMIT_STORE=redis but Redis is not configured, using memory');
+      return new MemoryRateLimitStore();
+    default:
+      return redisClient ? new RedisRateLimitStore(redisClient) : new MemoryRateLimitStore();
+  }
+}
@@ -1,114 +1,235 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { redis, setInCache, getFromCache } from '@/lib/redis';
+import { auth } from '@clerk/nextjs/server';
+import type { SubscriptionTier } from '@/lib/subscription/config';
+import { getMeteringContext } from '@/lib/subscription/metering';
+import { getFallbackRateLimitStore, getRateLimitStore } from './rate-limit-store';
 
-interface RateLimitOptions {
+// Requests allowed per window, either flat or per subscription tier.
+// Anonymous callers get the free budget.
+export type RateLimitBudget = number | Record<SubscriptionTier, number>;
+
+export interface RateLimitOptions {
+  name: string; // Budget name, part of the counter key
   windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Maximum requests per window
+  maxRequests: RateLimitBudget; // Maximum requests per window
   message?: string;
   statusCode?: number;
+  // Identify callers by Clerk user ID (falling back to IP) or by IP only
+  identifyBy?: 'user' | 'ip';
   keyGenerator?: (req: NextRequest) => string;
 }
 
-interface RateLimitInfo {
-  count: number;
-  resetTime: number;
+export interface RateLimitIdentity {
+  key: string; // user:<id> or ip:<address>
+  userId: string | null;
+  tier: SubscriptionTier;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number; // Unix ms when the current window ends
 }
 
-const defaultOptions: RateLimitOptions = {
+const defaultOptions: Omit<RateLimitOptions, 'name'> = {
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100,
   message: 'Too many requests, please try again later.',
   statusCode: 429,
-  keyGenerator: (req: NextRequest) => {
-    const forwarded = req.headers.get('x-forwarded-for');
-    const ip = forwarded ? forwarded.split(',')[0] : req.headers.get('x-real-ip') || 'unknown';
-    return `rate_limit:${ip}`;
-  },
+  identifyBy: 'user',
 };
 
-export function createRateLimit(options: Partial<RateLimitOptions> = {}) {
+// Shared budgets. Routes with their own cost profile (searches, feedback)
+// declare a budget next to the handler with createRateLimit.
+export const RATE_LIMIT_BUDGETS = {
+  api: { windowMs: 15 * 60 * 1000, maxRequests: { free: 100, starter: 300, pro: 1000 } },
+  auth: { windowMs: 15 * 60 * 1000, maxRequests: 5 },
+  tripCreation: { windowMs: 60 * 60 * 1000, maxRequests: { free: 10, starter: 30, pro: 100 } },
+  ai: { windowMs: 60 * 1000, maxRequests: { free: 3, starter: 10, pro: 30 } },
+} satisfies Record<string, { windowMs: number; maxRequests: RateLimitBudget }>;
+
+export function getClientIp(req: NextRequest): string {
+  const forwarded = req.headers.get('x-forwarded-for');
+  return forwarded ? forwarded.split(',')[0].trim() : req.headers.get('x-real-ip') || req.ip || 'unknown';
+}
+
+// Tier lookups hit the database, so they are cached briefly per process
+const TIER_CACHE_TTL_MS = 60 * 1000;
+const tierCache = new Map<string, { tier: SubscriptionTier; expiresAt: number }>();
+
+async function getRateLimitTier(userId: string): Promise<SubscriptionTier> {
+  const cached = tierCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tier;
+  }
+
+  const { tier } = await getMeteringContext(userId);
+  if (tierCache.size > 10000) {
+    tierCache.clear();
+  }
+  tierCache.set(userId, { tier, expiresAt: Date.now() + TIER_CACHE_TTL_MS });
+  return tier;
+}
+
+function getSignedInUserId(): string | null {
+  try {
+    return auth().userId;
+  } catch {
+    // Outside Clerk middleware (public routes, webhooks)
+    return null;
+  }
+}
+
+export async function resolveRateLimitIdentity(
+  req: NextRequest,
+  identifyBy: 'user' | 'ip' = 'user',
+  needsTier = true
+): Promise<RateLimitIdentity> {
+  const userId = identifyBy === 'user' ? getSignedInUserId() : null;
+
+  if (!userId) {
+    return { key: `ip:${getClientIp(req)}`, userId: null, tier: 'free' };
+  }
+
+  return {
+    key: `user:${userId}`,
+    userId,
+    tier: needsTier ? await getRateLimitTier(userId) : 'free',
+  };
+}
+
+export function getBudgetLimit(budget: RateLimitBudget, tier: SubscriptionTier): number {
+  return typeof budget === 'number' ? budget : budget[tier];
+}
+
+/**
+ * Count one request against `key` using a sliding window: the previous
+ * window's count is weighted by how much of it still overlaps. Falls back to
+ * the in-memory store if the configured one fails.
+ */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetTime = windowStart + windowMs;
+
+  let counts;
+  try {
+    counts = await getRateLimitStore().hit(key, windowStart, windowMs);
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    counts = await getFallbackRateLimitStore().hit(key, windowStart, windowMs);
+  }
+
+  const overlap = (resetTime - now) / windowMs;
+  const estimated = counts.current + Math.floor(counts.previous * overlap);
+
+  return {
+    allowed: estimated <= limit,
+    limit,
+    remaining: Math.max(0, limit - estimated),
+    resetTime,
+  };
+}
+
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
+  };
+}
+
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  message: string = defaultOptions.message!,
+  statusCode: number = defaultOptions.statusCode!
+): NextResponse {
+  const remainingTime = Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000));
+
+  return NextResponse.json(
+    {
+      error: message,
+      retryAfter: remainingTime,
+    },
+    {
+      status: statusCode,
+      headers: {
+        ...getRateLimitHeaders({ ...result, remaining: 0 }),
+        'Retry-After': remainingTime.toString(),
+      },
+    }
+  );
+}
+
+/**
+ * Count a request against a budget. Use this instead of createRateLimit when
+ * the route reports the remaining budget on successful responses.
+ */
+export async function checkRateLimit(
+  req: NextRequest,
+  options: Partial<RateLimitOptions> & Pick<RateLimitOptions, 'name'>
+): Promise<RateLimitResult> {
+  const config = { ...defaultOptions, ...options };
+
+  try {
+    let key: string;
+    let limit: number;
+
+    if (config.keyGenerator) {
+      key = `rate_limit:${config.name}:${config.keyGenerator(req)}`;
+      limit = getBudgetLimit(config.maxRequests, 'free');
+    } else {
+      const identity = await resolveRateLimitIdentity(
+        req,
+        config.identifyBy,
+        typeof config.maxRequests !== 'number'
+      );
+      key = `rate_limit:${config.name}:${identity.key}`;
+      limit = getBudgetLimit(config.maxRequests, identity.tier);
+    }
+
+    return await consumeRateLimit(key, limit, config.windowMs);
+  } catch (error) {
+    console.error('Rate limiting error:', error);
+    // Allow request on error (fail-open)
+    const limit = getBudgetLimit(config.maxRequests, 'free');
+    return { allowed: true, limit, remaining: limit, resetTime: Date.now() + config.windowMs };
+  }
+}
+
+export function createRateLimit(options: Partial<RateLimitOptions> & Pick<RateLimitOptions, 'name'>) {
   const config = { ...defaultOptions, ...options };
 
   return async function rateLimit(req: NextRequest): Promise<NextResponse | null> {
-    try {
-      const key = config.keyGenerator!(req);
-      const now = Date.now();
-      const windowStart = now - config.windowMs;
-
-      // Get current rate limit info
-      const rateLimitInfo = await getFromCache<RateLimitInfo>(key);
-
-      if (!rateLimitInfo) {
-        // First request in window
-        await setInCache(key, { count: 1, resetTime: now + config.windowMs }, config.windowMs / 1000);
-        return null; // Allow request
-      }
-
-      if (now > rateLimitInfo.resetTime) {
-        // Window has expired, reset counter
-        await setInCache(key, { count: 1, resetTime: now + config.windowMs }, config.windowMs / 1000);
-        return null; // Allow request
-      }
-
-      if (rateLimitInfo.count >= config.maxRequests) {
-        // Rate limit exceeded
-        const remainingTime = Math.ceil((rateLimitInfo.resetTime - now) / 1000);
-        
-        return NextResponse.json(
-          {
-            error: config.message,
-            retryAfter: remainingTime,
-          },
-          {
-            status: config.statusCode,
-            headers: {
-              'X-RateLimit-Limit': config.maxRequests.toString(),
-              'X-RateLimit-Remaining': '0',
-              'X-RateLimit-Reset': Math.ceil(rateLimitInfo.resetTime / 1000).toString(),
-              'Retry-After': remainingTime.toString(),
-            },
-          }
-        );
-      }
-
-      // Increment counter
-      const newInfo = { ...rateLimitInfo, count: rateLimitInfo.count + 1 };
-      await setInCache(key, newInfo, config.windowMs / 1000);
-
-      return null; // Allow request
-    } catch (error) {
-      console.error('Rate limiting error:', error);
-      return null; // Allow request on error (fail-open)
+    const result = await checkRateLimit(req, config);
+    if (!result.allowed) {
+      return rateLimitExceededResponse(result, config.message, config.statusCode);
     }
+
+    return null; // Allow request
   };
 }
 
 // Pre-configured rate limiters
 export const apiRateLimit = createRateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 100,
+  name: 'api',
+  ...RATE_LIMIT_BUDGETS.api,
   message: 'Too many API requests, please try again later.',
 });
 
 export const authRateLimit = createRateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 5,
+  name: 'auth',
+  ...RATE_LIMIT_BUDGETS.auth,
   message: 'Too many authentication attempts, please try again later.',
 });
 
 export const tripCreationRateLimit = createRateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  maxRequests: 10,
+  name: 'trip',
+  ...RATE_LIMIT_BUDGETS.tripCreation,
   message: 'Too many trip creation requests, please try again later.',
-  keyGenerator: (req: NextRequest) => {
-    // Use user ID from auth header if available
-    const userId = req.headers.get('x-user-id');
-    if (userId) {
-      return `rate_limit:trip:${userId}`;
-    }
-    // Fallback to IP
-    const forwarded = req.headers.get('x-forwarded-for');
-    const ip = forwarded ? forwarded.split(',')[0] : req.headers.get('x-real-ip') || 'unknown';
-    return `rate_limit:trip:${ip}`;
-  },
-});
\ No newline at end of file
+});
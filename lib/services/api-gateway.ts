@@ -9,6 +9,7 @@ import { APIManager, createAPIManager, APIError } from '@/lib/services/api-manag
 import { PerformanceMonitor } from '@/lib/performance/PerformanceMonitor';
 import { TripFormData, WizardStep } from '@/contexts/TripWizardContext';
 import { LocationData } from '@/lib/data/locations';
+import { createSeededRandom, isSandboxMode, withProvenance, type DataProvenance } from '@/lib/services/sandbox';
 
 // ==================== TYPES ====================
 
@@ -326,7 +327,7 @@ export class APIGatewayService {
       );
 
       return {
-        hotels: result.hotels || [],
+        hotels: withProvenance(result.hotels || [], 'live'),
         metadata: {
           provider: 'booking.com',
           searchTime: 0,
@@ -335,7 +336,9 @@ export class APIGatewayService {
       };
     } catch (error) {
       console.error('[APIGateway] Hotel search failed:', error);
-      return this.generateMockHotels(context);
+      return isSandboxMode()
+        ? this.generateSandboxHotels(context)
+        : { hotels: [], metadata: { provider: 'error', searchTime: 0, resultsCount: 0 } };
     }
   }
 
@@ -370,7 +373,7 @@ export class APIGatewayService {
       );
 
       return {
-        activities: result.activities || [],
+        activities: withProvenance(result.activities || [], 'live'),
         metadata: {
           provider: 'getyourguide',
           searchTime: 0,
@@ -379,7 +382,9 @@ export class APIGatewayService {
       };
     } catch (error) {
       console.error('[APIGateway] Activity search failed:', error);
-      return this.generateMockActivities(context);
+      return isSandboxMode()
+        ? this.generateSandboxActivities(context)
+        : { activities: [], metadata: { provider: 'error', searchTime: 0, resultsCount: 0 } };
     }
   }
 
@@ -420,7 +425,9 @@ export class APIGatewayService {
       };
     } catch (error) {
       console.error('[APIGateway] Transport search failed:', error);
-      return this.generateMockTransport(context);
+      return isSandboxMode()
+        ? this.generateSandboxTransport(context)
+        : { options: [], metadata: { provider: 'error', searchTime: 0, resultsCount: 0 } };
     }
   }
 
@@ -527,7 +534,8 @@ export class APIGatewayService {
       distance: Math.round(route.summary.distance / 1000), // Convert to km
       price: this.estimateDrivingCost(route.summary.distance),
       currency: 'USD',
-      instructions: route.segments?.map((seg: any) => seg.steps).flat() || []
+      instructions: route.segments?.map((seg: any) => seg.steps).flat() || [],
+      provenance: 'live'
     }));
   }
 
@@ -553,99 +561,114 @@ export class APIGatewayService {
     return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  // ==================== MOCK DATA GENERATORS ====================
+  // ==================== SANDBOX DATA GENERATORS ====================
+  // Only used in sandbox mode (SEARCH_SANDBOX=true) when a provider fails.
+  // Catalogs are seeded with the query, so the same trip always gets the
+  // same offers, and every offer is tagged `synthetic`.
 
-  private generateMockHotels(context: TripSearchContext): HotelSearchResult {
+  private sandboxRandom(kind: string, context: TripSearchContext) {
+    const { formData } = context;
+    return createSeededRandom(kind, formData.to?.name, formData.from?.name, formData.dates.startDate, formData.dates.endDate);
+  }
+
+  private generateSandboxHotels(context: TripSearchContext): HotelSearchResult {
+    const rng = this.sandboxRandom('gateway-hotels', context);
     const hotelNames = [
       'Grand Plaza Hotel', 'Luxury Resort & Spa', 'City Center Inn', 'Budget Comfort Lodge',
       'Boutique Design Hotel', 'Seaside Resort', 'Mountain View Lodge', 'Urban Suites'
     ];
 
-    const hotels = Array.from({ length: 6 }, (_, i) => ({
-      id: `hotel-${i + 1}`,
+    const hotels: HotelOption[] = Array.from({ length: 6 }, (_, i) => ({
+      id: `sandbox-hotel-${i + 1}`,
       name: hotelNames[i % hotelNames.length],
-      starRating: Math.floor(Math.random() * 3) + 3,
-      price: 150 + Math.random() * 300,
+      starRating: rng.int(3, 5),
+      price: Math.round(rng.float(150, 450)),
       currency: 'USD',
       location: {
-        address: `${Math.floor(Math.random() * 999) + 1} Main Street`,
+        address: `${rng.int(1, 999)} Main Street`,
         coordinates: context.formData.to?.coordinates || [0, 0]
       },
-      amenities: ['WiFi', 'Pool', 'Gym', 'Restaurant'].slice(0, Math.floor(Math.random() * 4) + 1),
-      rating: 4 + Math.random(),
-      reviewCount: Math.floor(Math.random() * 1000) + 100,
-      images: [`https://picsum.photos/400/300?random=${i + 1}`]
+      amenities: ['WiFi', 'Pool', 'Gym', 'Restaurant'].slice(0, rng.int(1, 4)),
+      rating: Math.round(rng.float(4, 5) * 10) / 10,
+      reviewCount: rng.int(100, 1099),
+      images: [],
+      provenance: 'synthetic'
     }));
 
     return {
       hotels,
       metadata: {
-        provider: 'mock',
-        searchTime: 500,
+        provider: 'sandbox',
+        searchTime: 0,
         resultsCount: hotels.length
       }
     };
   }
 
-  private generateMockActivities(context: TripSearchContext): ActivitySearchResult {
+  private generateSandboxActivities(context: TripSearchContext): ActivitySearchResult {
+    const rng = this.sandboxRandom('gateway-activities', context);
     const activityTypes = [
       'City Tour', 'Museum Visit', 'Food Experience', 'Adventure Sports',
       'Cultural Experience', 'Nature Walk', 'Art Gallery', 'Local Market Tour'
     ];
 
-    const activities = Array.from({ length: 8 }, (_, i) => ({
-      id: `activity-${i + 1}`,
+    const activities: ActivityOption[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `sandbox-activity-${i + 1}`,
       name: `${activityTypes[i % activityTypes.length]} in ${context.formData.to?.name}`,
       description: `Experience the best of ${context.formData.to?.name} with this curated activity`,
-      price: 25 + Math.random() * 200,
+      price: Math.round(rng.float(25, 225)),
       currency: 'USD',
-      duration: Math.floor(Math.random() * 6) + 2, // 2-8 hours
-      rating: 4 + Math.random(),
-      reviewCount: Math.floor(Math.random() * 500) + 50,
+      duration: rng.int(2, 8), // Hours
+      rating: Math.round(rng.float(4, 5) * 10) / 10,
+      reviewCount: rng.int(50, 549),
       category: activityTypes[i % activityTypes.length].toLowerCase().replace(/\s+/g, '-'),
-      images: [`https://picsum.photos/400/300?random=${i + 10}`],
-      availability: true
+      images: [],
+      availability: true,
+      provenance: 'synthetic'
     }));
 
     return {
       activities,
       metadata: {
-        provider: 'mock',
-        searchTime: 400,
+        provider: 'sandbox',
+        searchTime: 0,
         resultsCount: activities.length
       }
     };
   }
 
-  private generateMockTransport(context: TripSearchContext): TransportSearchResult {
+  private generateSandboxTransport(context: TripSearchContext): TransportSearchResult {
+    const rng = this.sandboxRandom('gateway-transport', context);
     const options: TransportOption[] = [
       {
-        id: 'drive-1',
+        id: 'sandbox-drive-1',
         type: 'driving',
-        provider: 'mock',
-        duration: 180 + Math.random() * 120, // 3-5 hours
-        distance: 250 + Math.random() * 200, // 250-450 km
-        price: 45 + Math.random() * 30,
+        provider: 'sandbox',
+        duration: rng.int(180, 300), // Minutes
+        distance: rng.int(250, 450), // km
+        price: Math.round(rng.float(45, 75)),
         currency: 'USD',
-        instructions: ['Head north on Main St', 'Take highway exit', 'Continue for 3 hours']
+        instructions: ['Head north on Main St', 'Take highway exit', 'Continue for 3 hours'],
+        provenance: 'synthetic'
       },
       {
-        id: 'train-1',
+        id: 'sandbox-train-1',
         type: 'train',
-        provider: 'mock',
-        duration: 150 + Math.random() * 60, // 2.5-3.5 hours
+        provider: 'sandbox',
+        duration: rng.int(150, 210),
         distance: 0, // Not applicable for train
-        price: 65 + Math.random() * 40,
+        price: Math.round(rng.float(65, 105)),
         currency: 'USD',
-        instructions: ['Board at Central Station', 'Direct service', 'Arrive at destination']
+        instructions: ['Board at Central Station', 'Direct service', 'Arrive at destination'],
+        provenance: 'synthetic'
       }
     ];
 
     return {
       options,
       metadata: {
-        provider: 'mock',
-        searchTime: 200,
+        provider: 'sandbox',
+        searchTime: 0,
         resultsCount: options.length
       }
     };
@@ -732,6 +755,7 @@ interface HotelOption {
   rating: number;
   reviewCount: number;
   images: string[];
+  provenance: DataProvenance;
 }
 
 interface ActivityOption {
@@ -746,6 +770,7 @@ interface ActivityOption {
   category: string;
   images: string[];
   availability: boolean;
+  provenance: DataProvenance;
 }
 
 interface TransportOption {
@@ -757,6 +782,7 @@ interface TransportOption {
   price: number;
   currency: string;
   instructions: string[];
+  provenance: DataProvenance;
 }
 
 // ==================== SINGLETON INSTANCE ====================
@@ -2,6 +2,8 @@
  * Comprehensive API management with error handling, caching, and monitoring
  */
 
+import { defineCacheNamespace, type CacheNamespace } from '@/lib/cache/namespaces';
+
 interface APIConfig {
   baseUrl: string;
   timeout?: number;
@@ -48,6 +50,7 @@ export class APIError extends Error {
 export class APIManager {
   private config: APIConfig;
   private cacheConfig: CacheConfig;
+  private responseCache: CacheNamespace<string, unknown>;
 
   constructor(config: APIConfig, cacheConfig: CacheConfig = {}) {
     this.config = {
@@ -65,6 +68,13 @@ export class APIManager {
       prefix: 'api_cache',
       ...cacheConfig,
     };
+
+    this.responseCache = defineCacheNamespace<string, unknown>({
+      name: this.cacheConfig.prefix!,
+      ttl: this.cacheConfig.ttl!,
+      key: key => key,
+      shouldCache: result => Boolean(result),
+    });
   }
 
   /**
@@ -82,23 +92,20 @@ export class APIManager {
       // Check rate limiting
       await this.checkRateLimit(endpoint);
 
-      // Try cache first if enabled
+      // Read through the cache if enabled; concurrent identical requests
+      // share one upstream call
       if (this.cacheConfig.enabled && cacheKey) {
-        const cachedResult = await this.getFromCache<T>(cacheKey);
-        if (cachedResult) {
-          this.updateMetrics(requestId, { success: true, fromCache: true });
-          return cachedResult;
-        }
+        const { value, status } = await this.responseCache.fetch(
+          cacheKey,
+          () => this.requestWithRetry<T>(endpoint, options, requestId)
+        );
+        this.updateMetrics(requestId, { success: true, fromCache: status !== 'miss' });
+        return value as T;
       }
 
       // Make request with retry logic
       const result = await this.requestWithRetry<T>(endpoint, options, requestId);
 
-      // Cache successful result
-      if (this.cacheConfig.enabled && cacheKey && result) {
-        await this.setCache(cacheKey, result);
-      }
-
       this.updateMetrics(requestId, { success: true });
       return result;
 
@@ -204,47 +211,6 @@ export class APIManager {
     store.requests.push(now);
   }
 
-  /**
-   * Cache operations (simplified - in production use Redis)
-   */
-  private async getFromCache<T>(key: string): Promise<T | null> {
-    try {
-      // In production, this would use Redis or another cache
-      // For now, use a simple in-memory cache with TTL
-      const cacheKey = `${this.cacheConfig.prefix}:${key}`;
-      const cached = (global as any).__apiCache?.[cacheKey];
-      
-      if (!cached || Date.now() > cached.expires) {
-        return null;
-      }
-      
-      console.log(`[APIManager] Cache hit for key: ${key}`);
-      return cached.data;
-    } catch (error) {
-      console.error('[APIManager] Cache read error:', error);
-      return null;
-    }
-  }
-
-  private async setCache<T>(key: string, data: T): Promise<void> {
-    try {
-      // Initialize global cache if it doesn't exist
-      if (!(global as any).__apiCache) {
-        (global as any).__apiCache = {};
-      }
-      
-      const cacheKey = `${this.cacheConfig.prefix}:${key}`;
-      (global as any).__apiCache[cacheKey] = {
-        data,
-        expires: Date.now() + (this.cacheConfig.ttl! * 1000),
-      };
-      
-      console.log(`[APIManager] Cached data for key: ${key}`);
-    } catch (error) {
-      console.error('[APIManager] Cache write error:', error);
-    }
-  }
-
   /**
    * Error handling utilities
    */
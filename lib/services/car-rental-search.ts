@@ -24,6 +24,15 @@
  */
 
 import { z } from 'zod';
+import { defineCacheNamespace } from '@/lib/cache/namespaces';
+import {
+  createSeededRandom,
+  isSandboxMode,
+  sandboxTimestamp,
+  withCacheProvenance,
+  type DataProvenance,
+  type SeededRandom
+} from './sandbox';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -118,6 +127,7 @@ export interface AdditionalService {
 export interface CarRentalOffer {
   id: string;
   provider: string;
+  provenance: DataProvenance;
   providerLogo?: string;
   vehicle: Vehicle;
   pickupLocation: RentalLocation;
@@ -181,6 +191,7 @@ export interface RideShareEstimate {
   id: string;
   service: 'uber' | 'lyft' | 'taxi' | 'local';
   provider: string;
+  provenance: DataProvenance;
   rideType: RideType;
   vehicleInfo: {
     category: string;
@@ -318,6 +329,7 @@ export interface CarRentalSearchResponse {
       currency: string;
     };
     cacheHit: boolean;
+    sandbox: boolean;
     warnings?: string[];
   };
 }
@@ -366,9 +378,9 @@ export const CarRentalSearchQuerySchema = z.object({
   }).optional().default({})
 });
 
-// ==================== MOCK DATA ====================
+// ==================== SANDBOX FIXTURES ====================
 
-const MOCK_RENTAL_LOCATIONS: RentalLocation[] = [
+const SANDBOX_RENTAL_LOCATIONS: RentalLocation[] = [
   {
     id: 'lhr_airport',
     name: 'London Heathrow Airport',
@@ -428,7 +440,7 @@ const MOCK_RENTAL_LOCATIONS: RentalLocation[] = [
   }
 ];
 
-const MOCK_VEHICLES: Vehicle[] = [
+const SANDBOX_VEHICLES: Vehicle[] = [
   {
     id: 'ford_fiesta_economy',
     make: 'Ford',
@@ -504,10 +516,14 @@ const MOCK_VEHICLES: Vehicle[] = [
 
 // ==================== SERVICE IMPLEMENTATION ====================
 
-export class CarRentalSearchService {
-  private readonly cache = new Map<string, { data: CarRentalSearchResponse; expires: number }>();
-  private readonly cacheTimeout = 60 * 60 * 1000; // 1 hour
+const carRentalSearchCache = defineCacheNamespace<CarRentalSearchQuery, CarRentalSearchResponse>({
+  name: 'car-rental-search',
+  ttl: 60 * 60, // Rental inventory is stable
+  staleTtl: 15 * 60,
+  shouldCache: response => response.carRentals.length > 0
+});
 
+export class CarRentalSearchService {
   constructor(
     private readonly providers: {
       carTrawler?: { apiKey: string; baseUrl?: string };
@@ -519,76 +535,90 @@ export class CarRentalSearchService {
   ) {}
 
   async searchCarRentals(query: CarRentalSearchQuery): Promise<CarRentalSearchResponse> {
-    const searchId = this.generateSearchId(query);
-    const cacheKey = this.getCacheKey(query);
-    
-    // Check cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() < cached.expires) {
+    try {
+      if (isSandboxMode()) {
+        return this.runSandboxSearch(query);
+      }
+
+      const { value, status } = await carRentalSearchCache.fetch(query, () => this.runSearch(query));
+      const carRentals = withCacheProvenance(value.carRentals, status);
       return {
-        ...cached.data,
+        ...value,
+        carRentals,
+        rideShares: value.rideShares && withCacheProvenance(value.rideShares, status),
+        alternatives: this.generateAlternatives(carRentals),
         meta: {
-          ...cached.data.meta,
-          cacheHit: true
+          ...value.meta,
+          cacheHit: status !== 'miss'
         }
       };
+    } catch (error) {
+      throw new Error(`Car rental search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
+  private async runSearch(query: CarRentalSearchQuery): Promise<CarRentalSearchResponse> {
     const startTime = Date.now();
-    
-    try {
-      // Generate mock car rental offers
-      const carRentals = await this.generateCarRentalOffers(query);
-      
-      // Generate ride sharing estimates if requested
-      let rideShares: RideShareEstimate[] = [];
-      if (query.options?.includeRideSharing) {
-        rideShares = await this.generateRideShareEstimates(query);
-      }
-      
-      // Sort offers by price and value
-      const sortedRentals = this.sortCarRentalOffers(carRentals, query.preferences);
-      
-      // Generate alternatives
-      const alternatives = this.generateAlternatives(sortedRentals);
-      
-      const response: CarRentalSearchResponse = {
-        carRentals: sortedRentals,
-        rideShares: rideShares.length > 0 ? rideShares : undefined,
-        alternatives,
-        meta: {
-          searchId,
-          searchTime: Date.now() - startTime,
-          totalResults: sortedRentals.length,
-          providers: ['CarTrawler', 'Hertz', 'Avis', 'Enterprise', 'Budget'],
-          coverage: {
-            carRental: ['Europe', 'North America', 'Asia Pacific'],
-            rideShare: ['Uber', 'Lyft', 'Local Taxi'],
-            peerToPeer: ['Turo', 'Zipcar']
-          },
-          priceRange: {
-            min: Math.min(...sortedRentals.map(r => r.pricing.totalPrice)),
-            max: Math.max(...sortedRentals.map(r => r.pricing.totalPrice)),
-            currency: query.preferences?.priceRange?.currency || 'USD'
-          },
-          cacheHit: false,
-          warnings: []
-        }
-      };
 
-      // Cache the response
-      this.cache.set(cacheKey, {
-        data: response,
-        expires: Date.now() + this.cacheTimeout
-      });
+    // No rental or ride-hailing integration returns inventory yet
+    return this.buildResponse(query, [], [], [], startTime, ['No live car rental providers are available for this location']);
+  }
 
-      return response;
-    } catch (error) {
-      throw new Error(`Car rental search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private runSandboxSearch(query: CarRentalSearchQuery): CarRentalSearchResponse {
+    const startTime = Date.now();
+    const rng = createSeededRandom(
+      'car-rental',
+      query.pickupLocation.name.toLowerCase(),
+      query.dropoffLocation?.name.toLowerCase(),
+      query.pickupDateTime,
+      query.dropoffDateTime,
+      query.driverAge
+    );
+
+    const carRentals = this.sortCarRentalOffers(this.generateCarRentalOffers(query, rng), query.preferences);
+    const rideShares = query.options?.includeRideSharing ? this.generateRideShareEstimates(query, rng) : [];
+
+    return this.buildResponse(query, carRentals, rideShares, ['sandbox'], startTime);
   }
 
-  private async generateCarRentalOffers(query: CarRentalSearchQuery): Promise<CarRentalOffer[]> {
+  private buildResponse(
+    query: CarRentalSearchQuery,
+    carRentals: CarRentalOffer[],
+    rideShares: RideShareEstimate[],
+    providers: string[],
+    startTime: number,
+    warnings: string[] = []
+  ): CarRentalSearchResponse {
+    const prices = carRentals.map(rental => rental.pricing.totalPrice);
+
+    return {
+      carRentals,
+      rideShares: rideShares.length > 0 ? rideShares : undefined,
+      alternatives: this.generateAlternatives(carRentals),
+      meta: {
+        searchId: this.generateSearchId(query),
+        searchTime: Date.now() - startTime,
+        totalResults: carRentals.length,
+        providers,
+        coverage: {
+          carRental: ['Europe', 'North America', 'Asia Pacific'],
+          rideShare: ['Uber', 'Lyft', 'Local Taxi'],
+          peerToPeer: ['Turo', 'Zipcar']
+        },
+        priceRange: {
+          min: prices.length > 0 ? Math.min(...prices) : 0,
+          max: prices.length > 0 ? Math.max(...prices) : 0,
+          currency: query.preferences?.priceRange?.currency || 'USD'
+        },
+        cacheHit: false,
+        sandbox: providers.includes('sandbox'),
+        warnings
+      }
+    };
+  }
+
+  // Seeded fixture catalog: the same pickup, dropoff and dates always yield the same offers
+  private generateCarRentalOffers(query: CarRentalSearchQuery, rng: SeededRandom): CarRentalOffer[] {
     const offers: CarRentalOffer[] = [];
     const pickupDate = new Date(query.pickupDateTime);
     const dropoffDate = new Date(query.dropoffDateTime);
@@ -609,8 +639,9 @@ export class CarRentalSearchService {
         const totalPrice = basePrice + taxes + fees;
         
         const offer: CarRentalOffer = {
-          id: `${provider.toLowerCase()}_${vehicle.id}_${Date.now()}`,
+          id: rng.id(`${provider.toLowerCase()}_${vehicle.id}`),
           provider,
+          provenance: 'synthetic',
           vehicle,
           pickupLocation: this.getPickupLocation(query.pickupLocation.name),
           dropoffLocation: query.dropoffLocation ? 
@@ -628,7 +659,7 @@ export class CarRentalSearchService {
               days,
               taxes,
               fees,
-              discount: Math.random() > 0.7 ? basePrice * 0.1 : undefined
+              discount: rng.chance(0.3) ? basePrice * 0.1 : undefined
             },
             pricePerDay: totalPrice / days,
             cancellationFee: totalPrice * 0.15
@@ -649,9 +680,9 @@ export class CarRentalSearchService {
             cancellationPolicy: 'Free cancellation up to 48 hours before pickup'
           },
           availability: {
-            available: Math.random() > 0.1,
-            lastUpdated: new Date().toISOString(),
-            vehicleCount: Math.floor(Math.random() * 5) + 1
+            available: rng.chance(0.9),
+            lastUpdated: sandboxTimestamp(query.pickupDateTime, -24 * 7),
+            vehicleCount: rng.int(1, 5)
           },
           bookingInfo: {
             bookingUrl: `https://booking.cartrawler.com/${provider.toLowerCase()}`,
@@ -660,9 +691,9 @@ export class CarRentalSearchService {
             cancellationDeadline: new Date(pickupDate.getTime() - 48 * 60 * 60 * 1000).toISOString()
           },
           rating: {
-            provider: 3.5 + Math.random() * 1.5,
-            vehicle: 3.8 + Math.random() * 1.2,
-            location: 4.0 + Math.random() * 1.0
+            provider: rng.float(3.5, 5),
+            vehicle: rng.float(3.8, 5),
+            location: rng.float(4, 5)
           },
           carbonFootprint: vehicle.carbonEmissions ? {
             total: vehicle.carbonEmissions * days * 100, // Assume 100km per day
@@ -678,7 +709,7 @@ export class CarRentalSearchService {
     return offers.filter(offer => offer.availability.available);
   }
 
-  private async generateRideShareEstimates(query: CarRentalSearchQuery): Promise<RideShareEstimate[]> {
+  private generateRideShareEstimates(query: CarRentalSearchQuery, rng: SeededRandom): RideShareEstimate[] {
     if (!query.pickupLocation.coordinates || !query.dropoffLocation?.coordinates) {
       return [];
     }
@@ -701,13 +732,14 @@ export class CarRentalSearchService {
     
     for (const { service, provider, rideType } of services) {
       const basePrice = this.calculateRidePrice(distance, rideType);
-      const surgeActive = Math.random() > 0.8;
-      const surgeMultiplier = surgeActive ? 1.2 + Math.random() * 0.8 : 1;
+      const surgeActive = rng.chance(0.2);
+      const surgeMultiplier = surgeActive ? rng.float(1.2, 2) : 1;
       
       estimates.push({
-        id: `${service}_${rideType}_${Date.now()}`,
+        id: rng.id(`${service}_${rideType}`),
         service,
         provider,
+        provenance: 'synthetic',
         rideType,
         vehicleInfo: {
           category: this.getRideVehicleCategory(rideType),
@@ -729,7 +761,7 @@ export class CarRentalSearchService {
           } : undefined
         },
         timing: {
-          estimatedPickupTime: Math.floor(Math.random() * 8) + 2, // 2-10 minutes
+          estimatedPickupTime: rng.int(2, 10),
           estimatedDuration: Math.round(duration),
           distance
         },
@@ -742,9 +774,9 @@ export class CarRentalSearchService {
           coordinates: query.dropoffLocation.coordinates
         },
         availability: {
-          available: Math.random() > 0.2,
-          reason: Math.random() > 0.8 ? 'High demand in area' : undefined,
-          alternatives: Math.random() > 0.5 ? ['Try again in 5 minutes', 'Consider nearby pickup point'] : undefined
+          available: rng.chance(0.8),
+          reason: rng.chance(0.2) ? 'High demand in area' : undefined,
+          alternatives: rng.chance(0.5) ? ['Try again in 5 minutes', 'Consider nearby pickup point'] : undefined
         },
         bookingInfo: {
           deepLink: `${service}://ride?pickup=${query.pickupLocation.coordinates[1]},${query.pickupLocation.coordinates[0]}&destination=${query.dropoffLocation.coordinates[1]},${query.dropoffLocation.coordinates[0]}`,
@@ -803,18 +835,14 @@ export class CarRentalSearchService {
     return `car_rental_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private getCacheKey(query: CarRentalSearchQuery): string {
-    return `car_rental_${JSON.stringify(query)}`.replace(/\s/g, '');
-  }
-
   private getVehicleForCategory(category: VehicleCategory): Vehicle | null {
-    return MOCK_VEHICLES.find(v => v.category === category) || MOCK_VEHICLES[0];
+    return SANDBOX_VEHICLES.find(v => v.category === category) || SANDBOX_VEHICLES[0];
   }
 
   private getPickupLocation(name: string): RentalLocation {
-    return MOCK_RENTAL_LOCATIONS.find(loc => 
+    return SANDBOX_RENTAL_LOCATIONS.find(loc => 
       loc.name.toLowerCase().includes(name.toLowerCase())
-    ) || MOCK_RENTAL_LOCATIONS[0];
+    ) || SANDBOX_RENTAL_LOCATIONS[0];
   }
 
   private getDropoffLocation(name: string): RentalLocation {
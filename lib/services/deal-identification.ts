@@ -13,6 +13,11 @@
  */
 
 import { Currency, TravelServiceType, PricePoint, PriceComparison } from './price-comparison-engine';
+import { getPriceHistoryStore, summarizeByDay } from './price-history-store';
+import { notifyUser } from '@/lib/notifications/dispatcher';
+
+// Days of price history deal detection looks back over
+const PRICE_HISTORY_WINDOW_DAYS = 90;
 
 // ==================== CORE TYPES ====================
 
@@ -73,8 +78,8 @@ export interface DealAlert {
 
 export interface PriceHistory {
   serviceType: TravelServiceType;
-  provider: string;
-  route: string; // e.g., "NYC-LON" for flights, "Paris-Hotel" for hotels
+  provider: string; // 'all' when built from every provider's observations
+  route: string; // Price history series, e.g. "flight:NYC-LON:economy" or "hotel:paris"
   currency: Currency;
   dataPoints: Array<{
     timestamp: Date;
@@ -110,7 +115,8 @@ export interface DealPattern {
 // ==================== DEAL IDENTIFICATION ENGINE ====================
 
 export class DealIdentificationEngine {
-  private readonly priceHistoryStore = new Map<string, PriceHistory>();
+  // Loaded once per series and currency for the lifetime of the engine
+  private readonly priceHistoryCache = new Map<string, Promise<PriceHistory | null>>();
   private readonly activeDeals = new Map<string, Deal>();
   private readonly dealPatterns = new Map<string, DealPattern[]>();
   private readonly userAlertPreferences = new Map<string, any>();
@@ -176,11 +182,11 @@ export class DealIdentificationEngine {
       for (const offer of comparison.offers) {
         // Check for various deal types
         const detectedDeals = await Promise.all([
-          this.detectPriceDrop(offer, comparison.serviceType),
+          this.detectPriceDrop(offer, comparison),
           this.detectFlashSale(offer, comparison.serviceType),
           this.detectLastMinuteDeal(offer, comparison.serviceType),
           this.detectSeasonalSpecial(offer, comparison.serviceType),
-          this.detectErrorFare(offer, comparison.serviceType),
+          this.detectErrorFare(offer, comparison),
           this.detectCompetitorBeat(offer, comparison)
         ]);
 
@@ -195,10 +201,10 @@ export class DealIdentificationEngine {
 
   private async detectPriceDrop(
     offer: any,
-    serviceType: TravelServiceType
+    comparison: PriceComparison
   ): Promise<Deal | null> {
-    const historyKey = this.generateHistoryKey(serviceType, offer.provider, offer.id);
-    const history = this.priceHistoryStore.get(historyKey);
+    const serviceType = comparison.serviceType;
+    const history = await this.loadPriceHistory(comparison, offer.price.currency);
 
     if (!history || history.dataPoints.length < 7) {
       // Not enough data for price drop detection
@@ -398,13 +404,13 @@ export class DealIdentificationEngine {
 
   private async detectErrorFare(
     offer: any,
-    serviceType: TravelServiceType
+    comparison: PriceComparison
   ): Promise<Deal | null> {
     // Error fare detection for extremely unusual pricing
+    const serviceType = comparison.serviceType;
     if (serviceType !== 'flight') return null; // Error fares primarily for flights
 
-    const historyKey = this.generateHistoryKey(serviceType, offer.provider, offer.id);
-    const history = this.priceHistoryStore.get(historyKey);
+    const history = await this.loadPriceHistory(comparison, offer.price.currency);
 
     if (!history || history.dataPoints.length < 14) {
       return null; // Need sufficient history for error fare detection
@@ -495,10 +501,6 @@ export class DealIdentificationEngine {
 
   // ==================== UTILITY METHODS ====================
 
-  private generateHistoryKey(serviceType: TravelServiceType, provider: string, route: string): string {
-    return `${serviceType}_${provider}_${route}`;
-  }
-
   private calculateDealSeverity(
     percentage: number,
     minor: number,
@@ -534,53 +536,93 @@ export class DealIdentificationEngine {
 
   // ==================== PRICE HISTORY MANAGEMENT ====================
 
-  updatePriceHistory(
+  /**
+   * Record an observed price in the shared price history. `series` is a
+   * price history series key (see priceSeriesKey).
+   */
+  async updatePriceHistory(
     serviceType: TravelServiceType,
     provider: string,
-    route: string,
+    series: string,
     price: number,
-    currency: Currency,
-    availability: boolean = true,
-    demand: 'low' | 'medium' | 'high' = 'medium'
-  ) {
-    const historyKey = this.generateHistoryKey(serviceType, provider, route);
-    let history = this.priceHistoryStore.get(historyKey);
+    currency: Currency
+  ): Promise<void> {
+    await getPriceHistoryStore().record([{
+      series,
+      kind: serviceType,
+      provider,
+      currency,
+      price,
+      observedAt: new Date()
+    }]);
+
+    // Reload on next use so detection sees the new observation
+    Array.from(this.priceHistoryCache.keys())
+      .filter(key => key.startsWith(`${series}|`))
+      .forEach(key => this.priceHistoryCache.delete(key));
+  }
 
+  // Daily history for the series a comparison's offers belong to, in the
+  // offers' currency and price unit
+  private loadPriceHistory(comparison: PriceComparison, currency: Currency): Promise<PriceHistory | null> {
+    if (!comparison.history) {
+      return Promise.resolve(null);
+    }
+
+    const { series, nights = 1 } = comparison.history;
+    const key = `${series}|${currency}|${nights}`;
+    let history = this.priceHistoryCache.get(key);
     if (!history) {
-      history = {
+      history = this.fetchPriceHistory(comparison.serviceType, series, currency, nights);
+      this.priceHistoryCache.set(key, history);
+    }
+    return history;
+  }
+
+  private async fetchPriceHistory(
+    serviceType: TravelServiceType,
+    series: string,
+    currency: Currency,
+    scale: number
+  ): Promise<PriceHistory | null> {
+    try {
+      const observations = await getPriceHistoryStore().query(series, {
+        since: new Date(Date.now() - PRICE_HISTORY_WINDOW_DAYS * 24 * 3600000)
+      });
+      const days = summarizeByDay(observations.filter(observation => observation.currency === currency));
+
+      if (days.length === 0) {
+        return null;
+      }
+
+      const history: PriceHistory = {
         serviceType,
-        provider,
-        route,
+        provider: 'all',
+        route: series,
         currency,
-        dataPoints: [],
+        dataPoints: days.map(day => ({
+          timestamp: new Date(`${day.date}T00:00:00Z`),
+          price: day.average * scale,
+          availability: true,
+          demand: 'medium' as const
+        })),
         statistics: {
-          minPrice: price,
-          maxPrice: price,
-          averagePrice: price,
-          medianPrice: price,
+          minPrice: 0,
+          maxPrice: 0,
+          averagePrice: 0,
+          medianPrice: 0,
           volatility: 0,
           trendDirection: 'stable',
           confidence: 50
         }
       };
-    }
-
-    // Add new data point
-    history.dataPoints.push({
-      timestamp: new Date(),
-      price,
-      availability,
-      demand
-    });
-
-    // Keep only last 90 days of data
-    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 3600000);
-    history.dataPoints = history.dataPoints.filter(dp => dp.timestamp >= ninetyDaysAgo);
 
-    // Recalculate statistics
-    this.recalculateStatistics(history);
-
-    this.priceHistoryStore.set(historyKey, history);
+      this.recalculateStatistics(history);
+      return history;
+    } catch (error) {
+      console.error('Failed to load price history:', error);
+      return null;
+    }
   }
 
   private recalculateStatistics(history: PriceHistory) {
@@ -634,9 +676,15 @@ export class DealIdentificationEngine {
       acknowledged: false
     };
 
-    // In production, save to database and send notification
-    console.log(`🔔 Deal Alert for User ${userId}: ${alert.message}`);
-    
+    // The inbox dedupes on the offer, so re-running a search never repeats an alert
+    await notifyUser(userId, {
+      type: 'deal',
+      title: deal.title,
+      body: alert.message,
+      data: { dealId: deal.id, offerId: deal.offerId, dealType: deal.dealType, urgency: alert.urgency },
+      dedupeKey: `deal:${deal.offerId}:${deal.dealType}`,
+    });
+
     return alert;
   }
 
@@ -17,6 +17,16 @@
 'use client';
 
 import { z } from 'zod';
+import { stableStringify } from '@/lib/cache/cache';
+import { CacheTags, defineCacheNamespace } from '@/lib/cache/namespaces';
+import {
+  createSeededRandom,
+  isSandboxMode,
+  sandboxTimestamp,
+  withCacheProvenance,
+  withProvenance,
+  type DataProvenance
+} from './sandbox';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -39,7 +49,7 @@ export interface FlightSearchQuery {
     infants?: number;
   };
   cabinClass: 'economy' | 'premium_economy' | 'business' | 'first';
-  flexibleDates?: boolean; // +/- 3 days search
+  flexibleDates?: boolean; // Also build a fare calendar around the dates (see searchFareCalendar)
   maxStops?: number;
   preferredAirlines?: string[];
   maxPrice?: number;
@@ -48,7 +58,8 @@ export interface FlightSearchQuery {
 
 export interface FlightOffer {
   id: string;
-  provider: 'kiwi' | 'amadeus' | 'mock';
+  provider: 'kiwi' | 'amadeus' | 'sandbox';
+  provenance: DataProvenance;
   price: {
     total: number;
     currency: string;
@@ -148,6 +159,7 @@ export interface FlightSearchResult {
     currency: string;
     lastUpdated: string;
     cacheHit: boolean;
+    sandbox: boolean;
   };
   filters: {
     airlines: { code: string; name: string; count: number }[];
@@ -158,6 +170,37 @@ export interface FlightSearchResult {
   };
 }
 
+// Dates searched by searchFareCalendar
+export type FlexibleDateRange =
+  | { type: 'window'; days: number } // +/- days around the requested departure and return
+  | { type: 'month'; month: string }; // YYYY-MM: every departure in the month, same stay length
+
+export interface FareCalendarCell {
+  departureDate: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD
+  nights?: number;
+  price: { total: number; currency: string } | null; // null when no offers came back
+  offerId?: string;
+  airline?: string;
+  stops?: number;
+  provenance?: DataProvenance;
+}
+
+export interface FareCalendar {
+  range: FlexibleDateRange;
+  departureDates: string[];
+  returnDates: string[]; // Empty for one-way searches
+  cells: FareCalendarCell[];
+  cheapest: FareCalendarCell | null;
+  meta: {
+    searches: number;
+    cacheHits: number;
+    searchTime: number; // milliseconds
+    currency: string;
+    sandbox: boolean;
+  };
+}
+
 // ==================== VALIDATION SCHEMAS ====================
 
 const FlightSearchQuerySchema = z.object({
@@ -211,17 +254,81 @@ const FLIGHT_SEARCH_CONFIG = {
   },
   cache: {
     ttl: 300, // 5 minutes for flight search results
-    maxSize: 1000,
-    keyPrefix: 'flight_search:'
+    staleTtl: 120 // Served while a refresh runs
   },
   search: {
     maxResults: 50,
     defaultSort: 'price',
-    flexibleDaysRange: 3,
+    flexibleDaysRange: 3, // Widest +/- window searchFareCalendar accepts
+    calendarConcurrency: 4, // Date pairs searched at once
     timeoutMs: 30000 // Overall search timeout
   }
 } as const;
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function shiftDate(isoDateTime: string, days: number): string {
+  return new Date(Date.parse(isoDateTime) + days * DAY_MS).toISOString();
+}
+
+/**
+ * Departure and return datetimes a fare calendar searches. Dates before
+ * today and returns on or before their departure are left out.
+ */
+function fareCalendarPairs(query: FlightSearchQuery, range: FlexibleDateRange): { departure: string; return?: string }[] {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const departures: string[] = [];
+  let offsets: number[] = [0];
+
+  if (range.type === 'window') {
+    const days = Math.max(0, Math.min(Math.floor(range.days), FLIGHT_SEARCH_CONFIG.search.flexibleDaysRange));
+    offsets = Array.from({ length: days * 2 + 1 }, (_, i) => i - days);
+    offsets.forEach(offset => departures.push(shiftDate(query.departureDate, offset)));
+  } else {
+    const time = query.departureDate.slice(10) || 'T00:00:00.000Z';
+    const first = new Date(`${range.month}-01${time}`);
+    if (Number.isNaN(first.getTime())) {
+      return [];
+    }
+    for (let day = first; day.getUTCMonth() === first.getUTCMonth(); day = new Date(day.getTime() + DAY_MS)) {
+      departures.push(day.toISOString());
+    }
+  }
+
+  const stayDays = query.returnDate
+    ? Math.round((Date.parse(query.returnDate) - Date.parse(query.departureDate)) / DAY_MS)
+    : 0;
+  const pairs: { departure: string; return?: string }[] = [];
+  departures
+    .filter(departure => Date.parse(departure) >= today.getTime())
+    .forEach(departure => {
+      if (!query.returnDate) {
+        pairs.push({ departure });
+        return;
+      }
+      // A window also moves the return; a month keeps the requested stay length
+      const returns = range.type === 'window'
+        ? offsets.map(offset => shiftDate(query.returnDate!, offset))
+        : [shiftDate(departure, stayDays)];
+      returns
+        .filter(returnDate => Date.parse(returnDate) > Date.parse(departure))
+        .forEach(returnDate => pairs.push({ departure, return: returnDate }));
+    });
+
+  return pairs;
+}
+
+// Results depend on the whole query; airport names and coordinates do not
+const flightSearchCache = defineCacheNamespace<FlightSearchQuery, FlightSearchResult>({
+  name: 'flight-search',
+  ttl: FLIGHT_SEARCH_CONFIG.cache.ttl,
+  staleTtl: FLIGHT_SEARCH_CONFIG.cache.staleTtl,
+  key: query => stableStringify({ ...query, from: query.from.code, to: query.to.code }),
+  tags: query => [CacheTags.flightRoute(query.from.code, query.to.code)],
+  shouldCache: result => result.offers.length > 0
+});
+
 // ==================== FLIGHT SEARCH SERVICE CLASS ====================
 
 export class FlightSearchService {
@@ -250,106 +357,161 @@ export class FlightSearchService {
       // Validate search query
       const validatedQuery = FlightSearchQuerySchema.parse(query);
       
-      // Check cache first
-      const cacheKey = this.generateCacheKey(validatedQuery);
-      const cachedResult = await this.getFromCache(cacheKey);
-      
-      if (cachedResult) {
-        return {
-          ...cachedResult,
-          meta: {
-            ...cachedResult.meta,
-            cacheHit: true,
-            searchTime: Date.now() - startTime
-          }
-        };
-      }
-
-      // Orchestrate search across providers
-      const searchPromises = [];
-      
-      if (this.apiKeys.kiwi) {
-        searchPromises.push(this.searchKiwiFlights(validatedQuery));
-      }
-      
-      if (this.apiKeys.amadeus) {
-        searchPromises.push(this.searchAmadeusFlights(validatedQuery));
+      if (isSandboxMode()) {
+        const offers = this.rankOffers(this.generateSandboxFlights(validatedQuery), validatedQuery);
+        return this.buildResult(validatedQuery, offers, ['sandbox'], startTime);
       }
 
-      // Execute searches in parallel with timeout
-      const results = await Promise.allSettled(
-        searchPromises.map(promise => 
-          this.withTimeout(promise, FLIGHT_SEARCH_CONFIG.search.timeoutMs)
-        )
+      const { value, status } = await flightSearchCache.fetch(
+        validatedQuery,
+        () => this.searchProviders(validatedQuery, startTime)
       );
 
-      // Aggregate and normalize results
-      const allOffers: FlightOffer[] = [];
-      const usedProviders: string[] = [];
-
-      for (let i = 0; i < results.length; i++) {
-        const result = results[i];
-        if (result.status === 'fulfilled' && result.value) {
-          allOffers.push(...result.value.offers);
-          usedProviders.push(...result.value.providers);
-        } else {
-          console.warn(`Flight search provider failed:`, result.status === 'rejected' ? result.reason : 'Unknown error');
+      return {
+        ...value,
+        offers: withCacheProvenance(value.offers, status),
+        meta: {
+          ...value.meta,
+          cacheHit: status !== 'miss',
+          searchTime: Date.now() - startTime
         }
-      }
+      };
 
-      // Fallback to mock data if no results
-      if (allOffers.length === 0) {
-        console.info('Using mock flight data as fallback');
-        const mockResult = await this.generateMockFlights(validatedQuery);
-        allOffers.push(...mockResult.offers);
-        usedProviders.push('mock');
-      }
+    } catch (error) {
+      console.error('Flight search failed:', error);
 
-      // Deduplicate and rank offers
-      const deduplicatedOffers = this.deduplicateOffers(allOffers);
-      const rankedOffers = this.rankOffers(deduplicatedOffers, validatedQuery);
-      
-      // Generate filters
-      const filters = this.generateFilters(rankedOffers);
+      // Never substitute fabricated fares for a failed live search
+      return this.buildResult(query, [], [], startTime);
+    }
+  }
 
-      const finalResult: FlightSearchResult = {
-        query: validatedQuery,
-        offers: rankedOffers.slice(0, FLIGHT_SEARCH_CONFIG.search.maxResults),
-        meta: {
-          totalResults: rankedOffers.length,
-          searchTime: Date.now() - startTime,
-          providers: [...new Set(usedProviders)],
-          currency: validatedQuery.currency || 'USD',
-          lastUpdated: new Date().toISOString(),
-          cacheHit: false
-        },
-        filters
-      };
+  /**
+   * Search every departure (and return) date in a range and keep the
+   * cheapest fare for each pair. Each pair is an ordinary searchFlights call,
+   * so the calendar shares cache entries and provider fan-out with regular
+   * searches for the same dates.
+   */
+  async searchFareCalendar(
+    query: FlightSearchQuery,
+    range: FlexibleDateRange = { type: 'window', days: FLIGHT_SEARCH_CONFIG.search.flexibleDaysRange }
+  ): Promise<FareCalendar> {
+    const startTime = Date.now();
+    const pairs = fareCalendarPairs(query, range);
+    const cells: FareCalendarCell[] = new Array(pairs.length);
+    let cacheHits = 0;
+    let sandbox = false;
+    let next = 0;
+
+    const searchNext = async (): Promise<void> => {
+      while (next < pairs.length) {
+        const index = next++;
+        const pair = pairs[index];
+        const result = await this.searchFlights({
+          ...query,
+          departureDate: pair.departure,
+          returnDate: pair.return,
+          flexibleDates: undefined
+        });
+        if (result.meta.cacheHit) cacheHits++;
+        sandbox = sandbox || result.meta.sandbox;
+
+        // Offers are ranked on more than price, so look for the cheapest
+        const cheapest = result.offers.reduce<FlightOffer | null>(
+          (best, offer) => !best || offer.price.total < best.price.total ? offer : best,
+          null
+        );
+        cells[index] = {
+          departureDate: pair.departure.slice(0, 10),
+          returnDate: pair.return?.slice(0, 10),
+          nights: pair.return ? Math.round((Date.parse(pair.return) - Date.parse(pair.departure)) / DAY_MS) : undefined,
+          price: cheapest ? { total: cheapest.price.total, currency: cheapest.price.currency } : null,
+          offerId: cheapest?.id,
+          airline: cheapest?.airlines[0]?.name,
+          stops: cheapest?.stops,
+          provenance: cheapest?.provenance
+        };
+      }
+    };
 
-      // Cache the result
-      await this.setCache(cacheKey, finalResult);
+    await Promise.all(
+      Array.from({ length: Math.min(FLIGHT_SEARCH_CONFIG.search.calendarConcurrency, pairs.length) }, searchNext)
+    );
 
-      return finalResult;
+    const priced = cells.filter(cell => cell.price);
+    return {
+      range,
+      departureDates: [...new Set(cells.map(cell => cell.departureDate))],
+      returnDates: [...new Set(cells.flatMap(cell => cell.returnDate ? [cell.returnDate] : []))].sort(),
+      cells,
+      cheapest: priced.reduce<FareCalendarCell | null>(
+        (best, cell) => !best || cell.price!.total < best.price!.total ? cell : best,
+        null
+      ),
+      meta: {
+        searches: pairs.length,
+        cacheHits,
+        searchTime: Date.now() - startTime,
+        currency: query.currency || 'USD',
+        sandbox
+      }
+    };
+  }
 
-    } catch (error) {
-      console.error('Flight search failed:', error);
-      
-      // Return mock data as ultimate fallback
-      const mockResult = await this.generateMockFlights(query);
-      return {
-        query,
-        offers: mockResult.offers,
-        meta: {
-          totalResults: mockResult.offers.length,
-          searchTime: Date.now() - startTime,
-          providers: ['mock'],
-          currency: query.currency || 'USD',
-          lastUpdated: new Date().toISOString(),
-          cacheHit: false
-        },
-        filters: this.generateFilters(mockResult.offers)
-      };
+  private async searchProviders(validatedQuery: FlightSearchQuery, startTime: number): Promise<FlightSearchResult> {
+    // Orchestrate search across providers
+    const searchPromises = [];
+    
+    if (this.apiKeys.kiwi) {
+      searchPromises.push(this.searchKiwiFlights(validatedQuery));
+    }
+    
+    if (this.apiKeys.amadeus) {
+      searchPromises.push(this.searchAmadeusFlights(validatedQuery));
+    }
+
+    // Execute searches in parallel with timeout
+    const results = await Promise.allSettled(
+      searchPromises.map(promise => 
+        this.withTimeout(promise, FLIGHT_SEARCH_CONFIG.search.timeoutMs)
+      )
+    );
+
+    // Aggregate and normalize results
+    const allOffers: FlightOffer[] = [];
+    const usedProviders: string[] = [];
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'fulfilled' && result.value) {
+        allOffers.push(...withProvenance(result.value.offers, 'live'));
+        usedProviders.push(...result.value.providers);
+      } else {
+        console.warn(`Flight search provider failed:`, result.status === 'rejected' ? result.reason : 'Unknown error');
+      }
     }
+
+    // Deduplicate and rank offers
+    const deduplicatedOffers = this.deduplicateOffers(allOffers);
+    const rankedOffers = this.rankOffers(deduplicatedOffers, validatedQuery);
+    
+    return this.buildResult(validatedQuery, rankedOffers, usedProviders, startTime);
+  }
+
+  private buildResult(query: FlightSearchQuery, rankedOffers: FlightOffer[], providers: string[], startTime: number): FlightSearchResult {
+    return {
+      query,
+      offers: rankedOffers.slice(0, FLIGHT_SEARCH_CONFIG.search.maxResults),
+      meta: {
+        totalResults: rankedOffers.length,
+        searchTime: Date.now() - startTime,
+        providers: [...new Set(providers)],
+        currency: query.currency || 'USD',
+        lastUpdated: new Date().toISOString(),
+        cacheHit: false,
+        sandbox: providers.includes('sandbox')
+      },
+      filters: this.generateFilters(rankedOffers)
+    };
   }
 
   // ==================== PROVIDER-SPECIFIC SEARCH METHODS ====================
@@ -375,91 +537,122 @@ export class FlightSearchService {
     };
   }
 
-  private async generateMockFlights(query: FlightSearchQuery): Promise<{ offers: FlightOffer[]; providers: string[] }> {
-    // Generate realistic mock flight data for development/fallback
-    const mockOffers: FlightOffer[] = [
-      {
-        id: 'mock_1',
-        provider: 'mock',
+  private generateSandboxFlights(query: FlightSearchQuery): FlightOffer[] {
+    // Seeded fixture catalog: the same route, dates and cabin always yield the same offers
+    const rng = createSeededRandom('flights', query.from.code, query.to.code, query.departureDate, query.returnDate, query.cabinClass);
+    const carriers = [
+      { code: 'AA', name: 'American Airlines' },
+      { code: 'BA', name: 'British Airways' },
+      { code: 'DL', name: 'Delta Air Lines' },
+      { code: 'EK', name: 'Emirates' },
+      { code: 'LH', name: 'Lufthansa' },
+      { code: 'AF', name: 'Air France' },
+      { code: 'SQ', name: 'Singapore Airlines' },
+      { code: 'QR', name: 'Qatar Airways' }
+    ];
+    const aircraft = ['Boeing 737-800', 'Airbus A320neo', 'Boeing 787-9', 'Airbus A350-900'];
+    const hubs = ['DXB', 'FRA', 'LHR', 'CDG', 'AMS', 'IST', 'DOH', 'SIN'];
+    const cabinMultiplier = { economy: 1, premium_economy: 1.6, business: 3.2, first: 5 }[query.cabinClass];
+    const passengers = query.passengers.adults + (query.passengers.children || 0);
+    const distance = this.estimateDistance(query) || rng.int(400, 9000);
+    const offerCount = rng.int(6, 10);
+
+    const offers: FlightOffer[] = [];
+    for (let i = 0; i < offerCount; i++) {
+      const carrier = rng.pick(carriers);
+      const stops = rng.chance(0.55) ? 0 : rng.chance(0.8) ? 1 : 2;
+      const route = [query.from.code];
+      for (let s = 0; s < stops; s++) {
+        route.push(rng.pick(hubs.filter(hub => !route.includes(hub) && hub !== query.to.code)));
+      }
+      route.push(query.to.code);
+
+      const departure = new Date(query.departureDate);
+      departure.setUTCHours(rng.int(5, 22), rng.pick([0, 15, 30, 45]), 0, 0);
+
+      const segments: FlightSegment[] = [];
+      let cursor = departure.getTime();
+      for (let s = 0; s < route.length - 1; s++) {
+        const legDistance = Math.round(distance / (route.length - 1));
+        const legDuration = Math.max(45, Math.round(legDistance / 13) + rng.int(20, 50));
+        const departureTime = new Date(cursor).toISOString();
+        const arrivalTime = new Date(cursor + legDuration * 60 * 1000).toISOString();
+        const airport = (code: string) => ({
+          code,
+          name: code === query.from.code ? query.from.name : code === query.to.code ? query.to.name : `${code} International`,
+          city: code === query.from.code ? query.from.name.split(' ')[0] : code === query.to.code ? query.to.name.split(' ')[0] : code,
+          country: 'Sandbox'
+        });
+
+        segments.push({
+          id: rng.id('seg'),
+          departure: { airport: airport(route[s]), time: departureTime, timezone: 'UTC' },
+          arrival: { airport: airport(route[s + 1]), time: arrivalTime, timezone: 'UTC' },
+          airline: carrier,
+          flight: {
+            number: `${carrier.code}${rng.int(100, 9899)}`,
+            aircraft: { model: rng.pick(aircraft) }
+          },
+          duration: legDuration,
+          distance: legDistance,
+          cabinClass: query.cabinClass
+        });
+        cursor += (legDuration + rng.int(60, 180)) * 60 * 1000;
+      }
+
+      const totalDuration = Math.round((new Date(segments[segments.length - 1].arrival.time).getTime() - departure.getTime()) / 60000);
+      const base = Math.round((60 + distance * rng.float(0.07, 0.12)) * cabinMultiplier * (stops === 0 ? 1.15 : 1) * passengers);
+      const taxes = Math.round(base * 0.14);
+      const fees = rng.int(5, 25) * passengers;
+
+      offers.push({
+        id: rng.id('sandbox_flight'),
+        provider: 'sandbox',
+        provenance: 'synthetic',
         price: {
-          total: 299,
+          total: base + taxes + fees,
           currency: query.currency || 'USD',
-          breakdown: {
-            base: 249,
-            taxes: 35,
-            fees: 15
-          }
+          breakdown: { base, taxes, fees }
         },
-        segments: [
-          {
-            id: 'seg_1',
-            departure: {
-              airport: {
-                code: query.from.code,
-                name: query.from.name,
-                city: query.from.name.split(' ')[0],
-                country: 'Country'
-              },
-              time: query.departureDate,
-              timezone: 'UTC'
-            },
-            arrival: {
-              airport: {
-                code: query.to.code,
-                name: query.to.name,
-                city: query.to.name.split(' ')[0],
-                country: 'Country'
-              },
-              time: new Date(new Date(query.departureDate).getTime() + 2 * 60 * 60 * 1000).toISOString(),
-              timezone: 'UTC'
-            },
-            airline: {
-              code: 'AA',
-              name: 'American Airlines'
-            },
-            flight: {
-              number: 'AA1234',
-              aircraft: {
-                model: 'Boeing 737-800'
-              }
-            },
-            duration: 120,
-            distance: 800,
-            cabinClass: query.cabinClass
-          }
-        ],
-        duration: {
-          total: 120,
-          outbound: 120
-        },
-        stops: 0,
-        airlines: [{
-          code: 'AA',
-          name: 'American Airlines'
-        }],
+        segments,
+        duration: { total: totalDuration, outbound: totalDuration },
+        stops,
+        airlines: [carrier],
         bookingUrl: '#',
-        lastUpdated: new Date().toISOString(),
-        validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        lastUpdated: sandboxTimestamp(query.departureDate, -24 * 14),
+        validUntil: sandboxTimestamp(query.departureDate),
         baggage: {
           carry: { included: true, weight: 7 },
-          checked: { included: false, weight: 23, price: 25 }
+          checked: rng.chance(0.5) ? { included: true, weight: 23 } : { included: false, weight: 23, price: rng.int(25, 60) }
         },
         amenities: {
-          wifi: true,
-          entertainment: true,
-          power: true,
-          meals: false
+          wifi: rng.chance(0.6),
+          entertainment: distance > 2000 || rng.chance(0.3),
+          power: rng.chance(0.7),
+          meals: distance > 3000
         },
-        changeable: true,
-        refundable: false,
-        score: 85
-      }
-    ];
+        changeable: rng.chance(0.6),
+        refundable: rng.chance(0.2),
+        score: rng.int(60, 95)
+      });
+    }
 
-    return {
-      offers: mockOffers,
-      providers: ['mock']
-    };
+    return offers;
+  }
+
+  // Great-circle distance in kilometres, or 0 when coordinates are unknown
+  private estimateDistance(query: FlightSearchQuery): number {
+    const [fromLng, fromLat] = query.from.coordinates;
+    const [toLng, toLat] = query.to.coordinates;
+    if ((fromLng === 0 && fromLat === 0) || (toLng === 0 && toLat === 0)) {
+      return 0;
+    }
+
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(toLat - fromLat);
+    const dLng = toRad(toLng - fromLng);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(fromLat)) * Math.cos(toRad(toLat)) * Math.sin(dLng / 2) ** 2;
+    return Math.round(6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
   }
 
   // ==================== UTILITY METHODS ====================
@@ -545,22 +738,6 @@ export class FlightSearchService {
     };
   }
 
-  private generateCacheKey(query: FlightSearchQuery): string {
-    const { from, to, departureDate, returnDate, passengers, cabinClass } = query;
-    return `${FLIGHT_SEARCH_CONFIG.cache.keyPrefix}${from.code}-${to.code}-${departureDate}-${returnDate || 'oneway'}-${passengers.adults}-${cabinClass}`;
-  }
-
-  private async getFromCache(key: string): Promise<FlightSearchResult | null> {
-    // Redis cache implementation would go here
-    // For now, return null (no cache)
-    return null;
-  }
-
-  private async setCache(key: string, data: FlightSearchResult): Promise<void> {
-    // Redis cache implementation would go here
-    // For now, do nothing
-  }
-
   private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Operation timed out')), timeoutMs);
@@ -19,6 +19,15 @@
 'use client';
 
 import { z } from 'zod';
+import { CacheTags, defineCacheNamespace } from '@/lib/cache/namespaces';
+import {
+  createSeededRandom,
+  isSandboxMode,
+  sandboxTimestamp,
+  withCacheProvenance,
+  withProvenance,
+  type DataProvenance
+} from './sandbox';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -65,7 +74,8 @@ export interface HotelSearchQuery {
 
 export interface HotelOffer {
   id: string;
-  provider: 'booking' | 'amadeus' | 'mock';
+  provider: 'booking' | 'amadeus' | 'sandbox';
+  provenance: DataProvenance;
   hotel: {
     id: string;
     name: string;
@@ -220,6 +230,7 @@ export interface HotelSearchResult {
     };
     lastUpdated: string;
     cacheHit: boolean;
+    sandbox: boolean;
   };
   filters: {
     priceRange: { min: number; max: number };
@@ -231,6 +242,19 @@ export interface HotelSearchResult {
   };
 }
 
+// Cheapest available offer for one stay, as used by the fare calendar
+export interface HotelStayRate {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  total: number;
+  perNight: number;
+  currency: string;
+  offerId: string;
+  hotelName: string;
+  provenance: DataProvenance;
+}
+
 // ==================== VALIDATION SCHEMAS ====================
 
 const HotelSearchQuerySchema = z.object({
@@ -293,8 +317,7 @@ const HOTEL_SEARCH_CONFIG = {
   },
   cache: {
     ttl: 1800, // 30 minutes for hotel search results
-    maxSize: 1000,
-    keyPrefix: 'hotel_search:'
+    staleTtl: 600 // Served while a refresh runs
   },
   search: {
     maxResults: 200,
@@ -305,6 +328,14 @@ const HOTEL_SEARCH_CONFIG = {
   }
 } as const;
 
+const hotelSearchCache = defineCacheNamespace<HotelSearchQuery, HotelSearchResult>({
+  name: 'hotel-search',
+  ttl: HOTEL_SEARCH_CONFIG.cache.ttl,
+  staleTtl: HOTEL_SEARCH_CONFIG.cache.staleTtl,
+  tags: query => [CacheTags.hotelLocation(query.location.value)],
+  shouldCache: result => result.offers.length > 0
+});
+
 // ==================== HOTEL SEARCH SERVICE CLASS ====================
 
 export class HotelSearchService {
@@ -336,133 +367,128 @@ export class HotelSearchService {
       this.validateDates(validatedQuery);
       this.validateRoomConfiguration(validatedQuery);
       
-      // Check cache first
-      const cacheKey = this.generateCacheKey(validatedQuery);
-      const cachedResult = await this.getFromCache(cacheKey);
-      
-      if (cachedResult) {
-        return {
-          ...cachedResult,
-          meta: {
-            ...cachedResult.meta,
-            cacheHit: true,
-            searchTime: Date.now() - startTime
-          }
-        };
-      }
-
-      // Orchestrate search across providers
-      const searchPromises = [];
-      
-      if (this.apiKeys.booking) {
-        searchPromises.push(this.searchBookingHotels(validatedQuery));
-      }
-      
-      if (this.apiKeys.amadeus) {
-        searchPromises.push(this.searchAmadeusHotels(validatedQuery));
+      if (isSandboxMode()) {
+        const offers = this.rankOffers(this.generateSandboxHotels(validatedQuery), validatedQuery);
+        return this.buildResult(validatedQuery, offers, ['sandbox'], startTime);
       }
 
-      // Execute searches in parallel with timeout
-      const results = await Promise.allSettled(
-        searchPromises.map(promise => 
-          this.withTimeout(promise, HOTEL_SEARCH_CONFIG.search.timeoutMs)
-        )
+      const { value, status } = await hotelSearchCache.fetch(
+        validatedQuery,
+        () => this.searchProviders(validatedQuery, startTime)
       );
 
-      // Aggregate and normalize results
-      const allOffers: HotelOffer[] = [];
-      const usedProviders: string[] = [];
-
-      for (let i = 0; i < results.length; i++) {
-        const result = results[i];
-        if (result.status === 'fulfilled' && result.value) {
-          allOffers.push(...result.value.offers);
-          usedProviders.push(...result.value.providers);
-        } else {
-          console.warn(`Hotel search provider failed:`, result.status === 'rejected' ? result.reason : 'Unknown error');
+      return {
+        ...value,
+        offers: withCacheProvenance(value.offers, status),
+        meta: {
+          ...value.meta,
+          cacheHit: status !== 'miss',
+          searchTime: Date.now() - startTime
         }
-      }
+      };
 
-      // Fallback to mock data if no results
-      if (allOffers.length === 0) {
-        console.info('Using mock hotel data as fallback');
-        const mockResult = await this.generateMockHotels(validatedQuery);
-        allOffers.push(...mockResult.offers);
-        usedProviders.push('mock');
-      }
+    } catch (error) {
+      console.error('Hotel search failed:', error);
 
-      // Deduplicate and rank offers
-      const deduplicatedOffers = this.deduplicateOffers(allOffers);
-      const rankedOffers = this.rankOffers(deduplicatedOffers, validatedQuery);
-      
-      // Generate filters
-      const filters = this.generateFilters(rankedOffers);
-      
-      // Calculate nights
-      const checkIn = new Date(validatedQuery.checkIn);
-      const checkOut = new Date(validatedQuery.checkOut);
-      const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-
-      const finalResult: HotelSearchResult = {
-        query: validatedQuery,
-        offers: rankedOffers.slice(0, HOTEL_SEARCH_CONFIG.search.maxResults),
-        meta: {
-          totalResults: rankedOffers.length,
-          searchTime: Date.now() - startTime,
-          providers: [...new Set(usedProviders)],
-          currency: validatedQuery.currency || 'USD',
-          location: {
-            resolved: validatedQuery.location.value,
-            coordinates: validatedQuery.location.coordinates,
-          },
-          dates: {
-            nights,
-            checkIn: validatedQuery.checkIn,
-            checkOut: validatedQuery.checkOut
-          },
-          lastUpdated: new Date().toISOString(),
-          cacheHit: false
-        },
-        filters
-      };
+      // Never substitute fabricated rates for a failed live search
+      return this.buildResult(query, [], [], startTime);
+    }
+  }
 
-      // Cache the result
-      await this.setCache(cacheKey, finalResult);
+  /**
+   * Cheapest available offer for the stay, or null when nothing is available.
+   * Goes through searchHotels, so repeated stays are served from its cache.
+   */
+  async findCheapestStay(query: HotelSearchQuery): Promise<HotelStayRate | null> {
+    const result = await this.searchHotels(query);
+    const cheapest = result.offers
+      .filter(offer => offer.availability.available)
+      .reduce<HotelOffer | null>((best, offer) => !best || offer.pricing.total < best.pricing.total ? offer : best, null);
+    if (!cheapest) {
+      return null;
+    }
 
-      return finalResult;
+    return {
+      checkIn: query.checkIn,
+      checkOut: query.checkOut,
+      nights: result.meta.dates.nights,
+      total: cheapest.pricing.total,
+      perNight: cheapest.pricing.perNight,
+      currency: cheapest.pricing.currency,
+      offerId: cheapest.id,
+      hotelName: cheapest.hotel.name,
+      provenance: cheapest.provenance
+    };
+  }
 
-    } catch (error) {
-      console.error('Hotel search failed:', error);
-      
-      // Return mock data as ultimate fallback
-      const mockResult = await this.generateMockHotels(query);
-      const checkIn = new Date(query.checkIn);
-      const checkOut = new Date(query.checkOut);
-      const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-      
-      return {
-        query,
-        offers: mockResult.offers,
-        meta: {
-          totalResults: mockResult.offers.length,
-          searchTime: Date.now() - startTime,
-          providers: ['mock'],
-          currency: query.currency || 'USD',
-          location: {
-            resolved: query.location.value,
-            coordinates: query.location.coordinates,
-          },
-          dates: {
-            nights,
-            checkIn: query.checkIn,
-            checkOut: query.checkOut
-          },
-          lastUpdated: new Date().toISOString(),
-          cacheHit: false
-        },
-        filters: this.generateFilters(mockResult.offers)
-      };
+  private async searchProviders(validatedQuery: HotelSearchQuery, startTime: number): Promise<HotelSearchResult> {
+    // Orchestrate search across providers
+    const searchPromises = [];
+    
+    if (this.apiKeys.booking) {
+      searchPromises.push(this.searchBookingHotels(validatedQuery));
     }
+    
+    if (this.apiKeys.amadeus) {
+      searchPromises.push(this.searchAmadeusHotels(validatedQuery));
+    }
+
+    // Execute searches in parallel with timeout
+    const results = await Promise.allSettled(
+      searchPromises.map(promise => 
+        this.withTimeout(promise, HOTEL_SEARCH_CONFIG.search.timeoutMs)
+      )
+    );
+
+    // Aggregate and normalize results
+    const allOffers: HotelOffer[] = [];
+    const usedProviders: string[] = [];
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'fulfilled' && result.value) {
+        allOffers.push(...withProvenance(result.value.offers, 'live'));
+        usedProviders.push(...result.value.providers);
+      } else {
+        console.warn(`Hotel search provider failed:`, result.status === 'rejected' ? result.reason : 'Unknown error');
+      }
+    }
+
+    // Deduplicate and rank offers
+    const deduplicatedOffers = this.deduplicateOffers(allOffers);
+    const rankedOffers = this.rankOffers(deduplicatedOffers, validatedQuery);
+    
+    return this.buildResult(validatedQuery, rankedOffers, usedProviders, startTime);
+  }
+
+  private buildResult(query: HotelSearchQuery, rankedOffers: HotelOffer[], providers: string[], startTime: number): HotelSearchResult {
+    const checkIn = new Date(query.checkIn);
+    const checkOut = new Date(query.checkOut);
+    const nights = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+
+    return {
+      query,
+      offers: rankedOffers.slice(0, HOTEL_SEARCH_CONFIG.search.maxResults),
+      meta: {
+        totalResults: rankedOffers.length,
+        searchTime: Date.now() - startTime,
+        providers: [...new Set(providers)],
+        currency: query.currency || 'USD',
+        location: {
+          resolved: query.location.value,
+          coordinates: query.location.coordinates,
+        },
+        dates: {
+          nights,
+          checkIn: query.checkIn,
+          checkOut: query.checkOut
+        },
+        lastUpdated: new Date().toISOString(),
+        cacheHit: false,
+        sandbox: providers.includes('sandbox')
+      },
+      filters: this.generateFilters(rankedOffers)
+    };
   }
 
   // ==================== PROVIDER-SPECIFIC SEARCH METHODS ====================
@@ -487,8 +513,10 @@ export class HotelSearchService {
     };
   }
 
-  private async generateMockHotels(query: HotelSearchQuery): Promise<{ offers: HotelOffer[]; providers: string[] }> {
-    // Generate realistic mock hotel data for development/fallback
+  private generateSandboxHotels(query: HotelSearchQuery): HotelOffer[] {
+    // Seeded fixture catalog: the same location and stay always yield the same offers
+    const rng = createSeededRandom('hotels', query.location.value.trim().toLowerCase(), query.checkIn, query.checkOut);
+    const nights = Math.max(1, Math.round((Date.parse(query.checkOut) - Date.parse(query.checkIn)) / (1000 * 60 * 60 * 24)));
     const hotelNames = [
       'Grand Plaza Hotel', 'City Center Inn', 'Luxury Suites Resort', 'Budget Comfort Lodge',
       'Boutique Garden Hotel', 'Business Express Hotel', 'Seaside Paradise Resort',
@@ -500,16 +528,17 @@ export class HotelSearchService {
       'Waterfront', 'Shopping District', 'Cultural Area', 'Airport Area'
     ];
 
-    const mockOffers: HotelOffer[] = [];
+    const offers: HotelOffer[] = [];
     
     for (let i = 0; i < 15; i++) {
-      const basePrice = 50 + Math.random() * 300;
-      const starRating = Math.floor(Math.random() * 5) + 1;
-      const guestScore = 6 + Math.random() * 4; // 6-10 range
+      const basePrice = 50 + rng.next() * 300;
+      const starRating = rng.int(1, 5);
+      const guestScore = 6 + rng.next() * 4; // 6-10 range
       
-      mockOffers.push({
-        id: `mock_hotel_${i + 1}`,
-        provider: 'mock',
+      offers.push({
+        id: `sandbox_hotel_${i + 1}`,
+        provider: 'sandbox',
+        provenance: 'synthetic',
         hotel: {
           id: `hotel_${i + 1}`,
           name: hotelNames[i % hotelNames.length],
@@ -523,13 +552,13 @@ export class HotelSearchService {
           starRating,
           guestRating: {
             score: Math.round(guestScore * 10) / 10,
-            reviewCount: Math.floor(Math.random() * 2000) + 50,
+            reviewCount: rng.int(50, 2049),
             breakdown: {
-              cleanliness: Math.round((guestScore + Math.random() - 0.5) * 10) / 10,
-              comfort: Math.round((guestScore + Math.random() - 0.5) * 10) / 10,
-              location: Math.round((guestScore + Math.random() - 0.5) * 10) / 10,
-              service: Math.round((guestScore + Math.random() - 0.5) * 10) / 10,
-              value: Math.round((guestScore + Math.random() - 0.5) * 10) / 10
+              cleanliness: Math.round((guestScore + rng.next() - 0.5) * 10) / 10,
+              comfort: Math.round((guestScore + rng.next() - 0.5) * 10) / 10,
+              location: Math.round((guestScore + rng.next() - 0.5) * 10) / 10,
+              service: Math.round((guestScore + rng.next() - 0.5) * 10) / 10,
+              value: Math.round((guestScore + rng.next() - 0.5) * 10) / 10
             }
           },
           images: {
@@ -542,19 +571,19 @@ export class HotelSearchService {
             ]
           },
           description: `A ${starRating}-star ${hotelNames[i % hotelNames.length].toLowerCase()} located in the heart of ${query.location.value}. Perfect for both business and leisure travelers.`,
-          propertyType: ['hotel', 'resort', 'apartment'][Math.floor(Math.random() * 3)] as any,
+          propertyType: (['hotel', 'resort', 'apartment'] as const)[rng.int(0, 2)],
           amenities: {
             wifi: true,
-            parking: Math.random() > 0.3,
-            pool: starRating >= 3 && Math.random() > 0.4,
-            gym: starRating >= 3 && Math.random() > 0.5,
-            spa: starRating >= 4 && Math.random() > 0.6,
+            parking: rng.next() > 0.3,
+            pool: starRating >= 3 && rng.next() > 0.4,
+            gym: starRating >= 3 && rng.next() > 0.5,
+            spa: starRating >= 4 && rng.next() > 0.6,
             restaurant: starRating >= 2,
-            bar: starRating >= 3 && Math.random() > 0.4,
+            bar: starRating >= 3 && rng.next() > 0.4,
             airConditioning: true,
-            petsAllowed: Math.random() > 0.7,
-            accessible: Math.random() > 0.6,
-            businessCenter: starRating >= 3 && Math.random() > 0.5,
+            petsAllowed: rng.next() > 0.7,
+            accessible: rng.next() > 0.6,
+            businessCenter: starRating >= 3 && rng.next() > 0.5,
             concierge: starRating >= 4,
             roomService: starRating >= 3,
             laundry: true
@@ -575,16 +604,16 @@ export class HotelSearchService {
             total: 3
           },
           bedConfiguration: [{
-            type: ['single', 'double', 'queen', 'king'][Math.floor(Math.random() * 4)],
+            type: ['single', 'double', 'queen', 'king'][rng.int(0, 3)],
             count: 1
           }],
-          size: 25 + Math.random() * 20,
+          size: 25 + rng.next() * 20,
           amenities: {
-            privateBalcony: Math.random() > 0.6,
-            cityView: Math.random() > 0.5,
+            privateBalcony: rng.next() > 0.6,
+            cityView: rng.next() > 0.5,
             oceanView: false,
-            mountainView: Math.random() > 0.8,
-            kitchenette: Math.random() > 0.7,
+            mountainView: rng.next() > 0.8,
+            kitchenette: rng.next() > 0.7,
             minibar: starRating >= 3,
             safe: starRating >= 3,
             bathrobeSlippers: starRating >= 4,
@@ -593,36 +622,36 @@ export class HotelSearchService {
           }
         }],
         pricing: {
-          total: Math.round(basePrice * 1.15 * 100) / 100, // Include taxes
+          total: Math.round(basePrice * nights * 1.15 * 100) / 100, // Whole stay, including taxes
           currency: query.currency || 'USD',
           breakdown: {
-            baseRate: Math.round(basePrice * 100) / 100,
-            taxes: Math.round(basePrice * 0.12 * 100) / 100,
-            fees: Math.round(basePrice * 0.03 * 100) / 100
+            baseRate: Math.round(basePrice * nights * 100) / 100,
+            taxes: Math.round(basePrice * nights * 0.12 * 100) / 100,
+            fees: Math.round(basePrice * nights * 0.03 * 100) / 100
           },
           perNight: Math.round(basePrice * 100) / 100,
           cancellation: {
-            freeCancellation: Math.random() > 0.3,
-            cancellationDeadline: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-            cancellationFee: Math.random() > 0.7 ? Math.round(basePrice * 0.1 * 100) / 100 : 0
+            freeCancellation: rng.next() > 0.3,
+            cancellationDeadline: sandboxTimestamp(query.checkIn, -48),
+            cancellationFee: rng.next() > 0.7 ? Math.round(basePrice * 0.1 * 100) / 100 : 0
           },
           paymentOptions: {
             payNow: true,
-            payAtProperty: Math.random() > 0.4,
+            payAtProperty: rng.next() > 0.4,
             paymentMethods: ['credit_card', 'paypal', 'bank_transfer']
           }
         },
         availability: {
           available: true,
-          roomsLeft: Math.floor(Math.random() * 10) + 1,
-          lastBooking: Math.random() > 0.5 ? `${Math.floor(Math.random() * 24)} hours ago` : undefined,
-          urgencyMessage: Math.random() > 0.7 ? 'Only 2 rooms left at this price!' : undefined
+          roomsLeft: rng.int(1, 10),
+          lastBooking: rng.next() > 0.5 ? `${rng.int(1, 23)} hours ago` : undefined,
+          urgencyMessage: rng.next() > 0.7 ? 'Only 2 rooms left at this price!' : undefined
         },
         policies: {
           checkInTime: '15:00',
           checkOutTime: '11:00',
           childrenPolicy: 'Children welcome',
-          petPolicy: Math.random() > 0.7 ? 'Pets allowed (fee applies)' : 'No pets allowed',
+          petPolicy: rng.next() > 0.7 ? 'Pets allowed (fee applies)' : 'No pets allowed',
           ageRestriction: 18
         },
         bookingUrl: `https://booking.example.com/hotel/${i + 1}`,
@@ -635,16 +664,13 @@ export class HotelSearchService {
             medium: 'api'
           }
         },
-        lastUpdated: new Date().toISOString(),
-        validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        score: Math.round((guestScore * 10 + starRating * 5 + (Math.random() * 20)) * 100) / 100
+        lastUpdated: sandboxTimestamp(query.checkIn, -24 * 14),
+        validUntil: sandboxTimestamp(query.checkIn),
+        score: Math.round((guestScore * 10 + starRating * 5 + (rng.next() * 20)) * 100) / 100
       });
     }
 
-    return {
-      offers: mockOffers.sort((a, b) => a.pricing.total - b.pricing.total),
-      providers: ['mock']
-    };
+    return offers.sort((a, b) => a.pricing.total - b.pricing.total);
   }
 
   // ==================== UTILITY METHODS ====================
@@ -779,23 +805,6 @@ export class HotelSearchService {
     };
   }
 
-  private generateCacheKey(query: HotelSearchQuery): string {
-    const { location, checkIn, checkOut, rooms } = query;
-    const roomKey = rooms.map(r => `${r.adults}-${r.children || 0}`).join('_');
-    return `${HOTEL_SEARCH_CONFIG.cache.keyPrefix}${location.value}-${checkIn}-${checkOut}-${roomKey}`;
-  }
-
-  private async getFromCache(key: string): Promise<HotelSearchResult | null> {
-    // Redis cache implementation would go here
-    // For now, return null (no cache)
-    return null;
-  }
-
-  private async setCache(key: string, data: HotelSearchResult): Promise<void> {
-    // Redis cache implementation would go here
-    // For now, do nothing
-  }
-
   private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Operation timed out')), timeoutMs);
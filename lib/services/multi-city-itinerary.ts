@@ -0,0 +1,322 @@
+// Multi-City Itineraries
+// Picks one option per leg of a multi-city or open-jaw journey so that the
+// whole trip is cheapest, fastest or best balanced, while leaving enough
+// time to connect wherever one leg continues from the city the previous
+// leg arrived in. Hotel nights per city follow from the chosen legs.
+
+import type { DataProvenance } from './sandbox';
+import type { HotelStayRate } from './hotel-search';
+
+export const MIN_LEGS = 2;
+export const MAX_LEGS = 6;
+export const DEFAULT_MIN_CONNECTION_MINUTES = 90;
+
+// Options kept per mode, leg and criterion; keeps the combination search small
+const OPTIONS_PER_MODE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================== TYPES ====================
+
+export type LegMode = 'flight' | 'train' | 'bus' | 'car';
+
+export interface JourneyLegPlace {
+  name: string;
+  code?: string; // IATA code for flight searches
+  coordinates?: [number, number]; // [longitude, latitude]
+  type?: 'city' | 'airport' | 'station' | 'address';
+}
+
+export interface JourneyLeg {
+  from: JourneyLegPlace;
+  to: JourneyLegPlace;
+  departureDate: string; // YYYY-MM-DD
+  departureTime?: string; // HH:MM, earliest departure
+}
+
+export interface LegOption {
+  mode: LegMode;
+  offerId: string;
+  provider: string;
+  provenance: DataProvenance;
+  departure: string; // ISO datetime
+  arrival: string; // ISO datetime
+  duration: number; // minutes
+  transfers: number;
+  price: { amount: number; currency: string };
+}
+
+export interface LegSearchResult {
+  index: number;
+  leg: JourneyLeg;
+  options: LegOption[];
+  errors: Array<{ mode: LegMode; error: string }>;
+}
+
+export interface LegConnection {
+  city: string;
+  minutes: number; // From arrival of one leg to departure of the next
+}
+
+export interface MultiCityItinerary {
+  options: LegOption[]; // One per leg, in leg order
+  totalPrice: { amount: number; currency: string };
+  totalDuration: number; // minutes spent travelling
+  transfers: number;
+  connections: LegConnection[];
+}
+
+export interface CityStay {
+  city: string;
+  checkIn: string; // YYYY-MM-DD
+  checkOut: string; // YYYY-MM-DD
+  nights: number;
+  rate?: HotelStayRate | null; // Cheapest stay when hotels were searched
+}
+
+export interface MultiCitySearchResult {
+  openJaw: boolean;
+  legs: LegSearchResult[];
+  best: MultiCityItinerary | null;
+  alternatives: {
+    cheapest?: MultiCityItinerary;
+    fastest?: MultiCityItinerary;
+    fewestTransfers?: MultiCityItinerary;
+  };
+  stays: CityStay[];
+  warnings: string[];
+}
+
+// Relative weight of price, travel time and transfers when ranking combinations
+export interface CombinationWeights {
+  price: number;
+  duration: number;
+  transfers: number;
+}
+
+export const BALANCED_WEIGHTS: CombinationWeights = { price: 0.5, duration: 0.3, transfers: 0.2 };
+export const CHEAPEST_WEIGHTS: CombinationWeights = { price: 1, duration: 0, transfers: 0 };
+export const FASTEST_WEIGHTS: CombinationWeights = { price: 0, duration: 1, transfers: 0 };
+export const FEWEST_TRANSFERS_WEIGHTS: CombinationWeights = { price: 0.1, duration: 0, transfers: 1 };
+
+// ==================== LEGS ====================
+
+function sameCity(a: JourneyLegPlace, b: JourneyLegPlace): boolean {
+  if (a.code && b.code) {
+    return a.code === b.code;
+  }
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+/**
+ * Whether the next leg starts where this one ended, so the traveller has
+ * to make the connection
+ */
+export function legsConnect(legs: JourneyLeg[], index: number): boolean {
+  return index + 1 < legs.length && sameCity(legs[index].to, legs[index + 1].from);
+}
+
+/**
+ * Open-jaw: a leg starts somewhere other than where the previous one
+ * ended, or the journey does not end where it started
+ */
+export function isOpenJaw(legs: JourneyLeg[]): boolean {
+  return legs.some((_, index) => index + 1 < legs.length && !legsConnect(legs, index)) ||
+    !sameCity(legs[legs.length - 1].to, legs[0].from);
+}
+
+/**
+ * Problems with the legs themselves, before anything is searched. An empty
+ * list means the journey can be searched.
+ */
+export function validateJourneyLegs(legs: JourneyLeg[]): string[] {
+  const problems: string[] = [];
+  if (legs.length < MIN_LEGS || legs.length > MAX_LEGS) {
+    problems.push(`A multi-city journey needs between ${MIN_LEGS} and ${MAX_LEGS} legs`);
+  }
+
+  legs.forEach((leg, index) => {
+    if (sameCity(leg.from, leg.to)) {
+      problems.push(`Leg ${index + 1} starts and ends in ${leg.from.name}`);
+    }
+    const previous = legs[index - 1];
+    if (previous && leg.departureDate < previous.departureDate) {
+      problems.push(`Leg ${index + 1} departs before leg ${index}`);
+    }
+  });
+
+  return problems;
+}
+
+export function connectionMinutes(arrival: string, departure: string): number {
+  return Math.round((Date.parse(departure) - Date.parse(arrival)) / 60000);
+}
+
+// Whether a later leg's option can follow an earlier leg's option
+function optionsConnect(
+  legs: JourneyLeg[],
+  index: number,
+  earlier: LegOption,
+  later: LegOption,
+  minConnectionMinutes: number
+): boolean {
+  const gap = connectionMinutes(earlier.arrival, later.departure);
+  return legsConnect(legs, index) ? gap >= minConnectionMinutes : gap >= 0;
+}
+
+// Ways an option can be the best of its mode on a leg
+const SHORTLIST_ORDERS: Array<(a: LegOption, b: LegOption) => number> = [
+  (a, b) => a.price.amount - b.price.amount,
+  (a, b) => a.duration - b.duration || a.price.amount - b.price.amount,
+  (a, b) => a.transfers - b.transfers || a.price.amount - b.price.amount,
+];
+
+/**
+ * Options worth combining on each leg. Options that cannot be part of any
+ * journey (no option of the previous leg arrives in time for them, or they
+ * arrive too late for every option of the next leg) are dropped first; of
+ * the rest, each mode keeps its cheapest, fastest and fewest-transfer
+ * options, so that one mode with many results does not crowd out the others
+ * and a quick but pricier connection is still on the list. When no journey
+ * connects at all, every leg's own options are shortlisted instead.
+ */
+export function shortlistLegOptions(
+  legs: JourneyLeg[],
+  legOptions: LegOption[][],
+  minConnectionMinutes: number
+): LegOption[][] {
+  const feasible = legOptions.map(options => [...options]);
+  for (let leg = 1; leg < feasible.length; leg++) {
+    feasible[leg] = feasible[leg].filter(option =>
+      feasible[leg - 1].some(earlier => optionsConnect(legs, leg - 1, earlier, option, minConnectionMinutes))
+    );
+  }
+  for (let leg = feasible.length - 2; leg >= 0; leg--) {
+    feasible[leg] = feasible[leg].filter(option =>
+      feasible[leg + 1].some(later => optionsConnect(legs, leg, option, later, minConnectionMinutes))
+    );
+  }
+
+  const connected = feasible.every(options => options.length > 0);
+  return (connected ? feasible : legOptions).map(options => {
+    const byMode = new Map<LegMode, LegOption[]>();
+    options.forEach(option => byMode.set(option.mode, [...(byMode.get(option.mode) || []), option]));
+    return Array.from(byMode.values()).flatMap(modeOptions => {
+      const kept = new Set(SHORTLIST_ORDERS.flatMap(order => [...modeOptions].sort(order).slice(0, OPTIONS_PER_MODE)));
+      return modeOptions.filter(option => kept.has(option)).sort(SHORTLIST_ORDERS[0]);
+    });
+  });
+}
+
+// ==================== COMBINATIONS ====================
+
+function buildItinerary(legs: JourneyLeg[], options: LegOption[], currency: string): MultiCityItinerary {
+  const connections: LegConnection[] = [];
+  options.forEach((option, index) => {
+    if (legsConnect(legs, index)) {
+      connections.push({ city: legs[index].to.name, minutes: connectionMinutes(option.arrival, options[index + 1].departure) });
+    }
+  });
+
+  return {
+    options,
+    totalPrice: {
+      amount: Math.round(options.reduce((sum, option) => sum + option.price.amount, 0) * 100) / 100,
+      currency
+    },
+    totalDuration: options.reduce((sum, option) => sum + option.duration, 0),
+    transfers: options.reduce((sum, option) => sum + option.transfers, 0),
+    connections
+  };
+}
+
+/**
+ * Best option per leg under the given weights. Price, duration and
+ * transfers are scaled against the largest value on each leg, and a pair of
+ * options is only allowed where the connection leaves minConnectionMinutes.
+ * Returns null when some leg has no options or no pair connects in time.
+ */
+export function chooseLegCombination(
+  legs: JourneyLeg[],
+  legOptions: LegOption[][],
+  weights: CombinationWeights,
+  minConnectionMinutes: number,
+  currency: string
+): MultiCityItinerary | null {
+  if (legOptions.length === 0 || legOptions.some(options => options.length === 0)) {
+    return null;
+  }
+
+  const costs = legOptions.map(options => {
+    const maxPrice = Math.max(...options.map(option => option.price.amount), 1);
+    const maxDuration = Math.max(...options.map(option => option.duration), 1);
+    const maxTransfers = Math.max(...options.map(option => option.transfers), 0) + 1;
+    return options.map(option =>
+      weights.price * option.price.amount / maxPrice +
+      weights.duration * option.duration / maxDuration +
+      weights.transfers * option.transfers / maxTransfers
+    );
+  });
+
+  // Lowest total cost reaching each option of each leg, and where it came from
+  let best: number[] = costs[0];
+  const previous: number[][] = [legOptions[0].map(() => -1)];
+
+  for (let leg = 1; leg < legOptions.length; leg++) {
+    const current: number[] = [];
+    const from: number[] = [];
+
+    legOptions[leg].forEach((option, index) => {
+      let bestCost = Infinity;
+      let bestFrom = -1;
+      legOptions[leg - 1].forEach((earlier, earlierIndex) => {
+        if (best[earlierIndex] === Infinity) return;
+        if (!optionsConnect(legs, leg - 1, earlier, option, minConnectionMinutes)) return;
+        if (best[earlierIndex] < bestCost) {
+          bestCost = best[earlierIndex];
+          bestFrom = earlierIndex;
+        }
+      });
+      current.push(bestFrom < 0 ? Infinity : bestCost + costs[leg][index]);
+      from.push(bestFrom);
+    });
+
+    best = current;
+    previous.push(from);
+  }
+
+  let index = best.reduce((bestIndex, cost, i) => cost < best[bestIndex] ? i : bestIndex, 0);
+  if (best[index] === Infinity) {
+    return null;
+  }
+
+  const chosen: LegOption[] = [];
+  for (let leg = legOptions.length - 1; leg >= 0; leg--) {
+    chosen.unshift(legOptions[leg][index]);
+    index = previous[leg][index];
+  }
+  return buildItinerary(legs, chosen, currency);
+}
+
+// ==================== HOTEL NIGHTS ====================
+
+/**
+ * Nights in each city between arriving on one leg and leaving on the next.
+ * Arrival dates come from the chosen itinerary when there is one, so
+ * overnight legs check in on the day they land. The final destination gets
+ * no stay, as no later leg says when the traveller leaves it.
+ */
+export function deriveCityStays(legs: JourneyLeg[], itinerary: MultiCityItinerary | null): CityStay[] {
+  const stays: CityStay[] = [];
+
+  for (let index = 0; index + 1 < legs.length; index++) {
+    const checkIn = itinerary ? itinerary.options[index].arrival.slice(0, 10) : legs[index].departureDate;
+    const checkOut = itinerary ? itinerary.options[index + 1].departure.slice(0, 10) : legs[index + 1].departureDate;
+    const nights = Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / DAY_MS);
+    if (nights > 0) {
+      stays.push({ city: legs[index].to.name, checkIn, checkOut, nights });
+    }
+  }
+
+  return stays;
+}
@@ -0,0 +1,248 @@
+// Price Alerts
+// A price alert sits on a price watch: the tracking job keeps observing the
+// watched search, and evaluatePriceAlerts notifies the owner once the price
+// falls to their target or a percentage below the price when they set it.
+// Each alert fires once per drop; it re-arms after a further 2% drop or
+// when the price climbs back above the threshold.
+
+import { and, desc, eq } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { priceAlerts, priceWatches, type PriceAlert } from '@/lib/database/schema';
+import { notifyUser } from '@/lib/notifications/dispatcher';
+import { getPriceHistoryStore, type PriceObservation } from './price-history-store';
+import { createPriceWatch, describePriceWatch, type PriceWatchInput } from './price-watches';
+
+// A further drop below the last notified price that notifies again
+const RENOTIFY_DROP = 0.02;
+// How recent an observed price must be to serve as the baseline
+const BASELINE_MAX_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface PriceAlertThreshold {
+  targetPrice?: number;
+  dropPercent?: number;
+  baselinePrice?: number; // Price the drop is measured from; defaults to the latest observed price
+}
+
+export type PriceAlertCreation =
+  | { status: 'created'; alert: PriceAlert }
+  | { status: 'limit_reached'; limit: number }
+  | { status: 'no_baseline' };
+
+export interface PriceAlertEvaluation {
+  evaluated: number;
+  notified: number;
+}
+
+/**
+ * Price at or below which an alert fires. With both a target and a drop
+ * percentage, whichever is reached first counts.
+ */
+export function alertThreshold(alert: Pick<PriceAlert, 'targetPrice' | 'dropPercent' | 'baselinePrice'>): number {
+  const thresholds: number[] = [];
+  if (alert.targetPrice !== null) {
+    thresholds.push(Number(alert.targetPrice));
+  }
+  if (alert.dropPercent !== null && alert.baselinePrice !== null) {
+    thresholds.push(Number(alert.baselinePrice) * (1 - alert.dropPercent / 100));
+  }
+  return Math.max(...thresholds);
+}
+
+function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Cheapest recent price for the watched travel date. A series spans every
+ * date on its route, so prices for other dates are no baseline.
+ */
+async function latestObservedPrice(series: string, travelDate: string, currency: string): Promise<number | null> {
+  const since = new Date(Date.now() - BASELINE_MAX_AGE_MS);
+  const observations = (await getPriceHistoryStore().query(series, { since }))
+    .filter(observation => observation.currency === currency && observation.travelDate === travelDate);
+  if (observations.length === 0) {
+    return null;
+  }
+
+  const latest = observations[observations.length - 1].observedAt.getTime();
+  return Math.min(...observations
+    .filter(observation => observation.observedAt.getTime() === latest)
+    .map(observation => observation.price));
+}
+
+export async function listPriceAlerts(userId: string): Promise<PriceAlert[]> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(priceAlerts)
+      .where(eq(priceAlerts.userId, userId))
+      .orderBy(desc(priceAlerts.createdAt));
+  });
+  return rows || [];
+}
+
+/**
+ * Start watching a search and alert on it. Returns null when the database
+ * is unavailable.
+ */
+export async function createPriceAlert(
+  userId: string,
+  input: PriceWatchInput,
+  threshold: PriceAlertThreshold
+): Promise<PriceAlertCreation | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const { series, label, travelDate, currency } = describePriceWatch(input);
+  let baselinePrice: number | null = null;
+  if (threshold.dropPercent !== undefined) {
+    baselinePrice = threshold.baselinePrice ?? await latestObservedPrice(series, travelDate, currency);
+    if (baselinePrice === null && threshold.targetPrice === undefined) {
+      return { status: 'no_baseline' };
+    }
+  }
+
+  const watch = await createPriceWatch(userId, input);
+  if (!watch || watch.status === 'limit_reached') {
+    return watch;
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .insert(priceAlerts)
+      .values({
+        userId,
+        watchId: watch.watch.id,
+        kind: input.kind,
+        series,
+        label,
+        currency,
+        targetPrice: threshold.targetPrice?.toFixed(2),
+        dropPercent: baselinePrice === null ? null : threshold.dropPercent,
+        baselinePrice: baselinePrice?.toFixed(2),
+      })
+      .returning();
+  });
+
+  if (!rows) {
+    await withDatabase(async (db) => db.delete(priceWatches).where(eq(priceWatches.id, watch.watch.id)));
+    return null;
+  }
+  return { status: 'created', alert: rows[0] };
+}
+
+/**
+ * Pause or resume an alert; its watch is paused with it
+ */
+export async function setPriceAlertActive(userId: string, alertId: string, active: boolean): Promise<PriceAlert | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(priceAlerts)
+        .set({ active, lastNotifiedPrice: null })
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)))
+        .returning();
+      if (updated.length > 0) {
+        await tx.update(priceWatches).set({ active }).where(eq(priceWatches.id, updated[0].watchId));
+      }
+      return updated;
+    });
+  });
+  return rows?.[0] || null;
+}
+
+/**
+ * Delete an alert and the watch it created
+ */
+export async function deletePriceAlert(userId: string, alertId: string): Promise<boolean> {
+  const rows = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(priceAlerts)
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, userId)))
+        .returning({ watchId: priceAlerts.watchId });
+      if (deleted.length > 0) {
+        await tx.delete(priceWatches).where(eq(priceWatches.id, deleted[0].watchId));
+      }
+      return deleted;
+    });
+  });
+  return (rows?.length || 0) > 0;
+}
+
+/**
+ * Check the active alerts on a watch against the cheapest price its search
+ * just returned in each alert's currency, and notify owners whose threshold
+ * is met. Only that watch's alerts are checked: other watches on the same
+ * series are for other dates, stays or party sizes.
+ */
+export async function evaluatePriceAlerts(watchId: string, observations: PriceObservation[]): Promise<PriceAlertEvaluation> {
+  const result: PriceAlertEvaluation = { evaluated: 0, notified: 0 };
+  const cheapest = new Map<string, PriceObservation>();
+  observations.forEach(observation => {
+    const current = cheapest.get(observation.currency);
+    if (!current || observation.price < current.price) {
+      cheapest.set(observation.currency, observation);
+    }
+  });
+  if (cheapest.size === 0) {
+    return result;
+  }
+
+  const alerts = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(priceAlerts)
+      .where(and(eq(priceAlerts.active, true), eq(priceAlerts.watchId, watchId)));
+  });
+
+  for (const alert of alerts || []) {
+    const observation = cheapest.get(alert.currency);
+    if (!observation) continue;
+    result.evaluated++;
+
+    const price = observation.price;
+    const threshold = alertThreshold(alert);
+    const lastNotified = alert.lastNotifiedPrice === null ? null : Number(alert.lastNotifiedPrice);
+
+    if (price > threshold) {
+      if (lastNotified !== null) {
+        await withDatabase(async (db) => {
+          await db.update(priceAlerts).set({ lastNotifiedPrice: null }).where(eq(priceAlerts.id, alert.id));
+        });
+      }
+      continue;
+    }
+    if (lastNotified !== null && price > lastNotified * (1 - RENOTIFY_DROP)) {
+      continue;
+    }
+
+    const notified = await notifyUser(alert.userId, {
+      type: 'price_alert',
+      title: `Price drop: ${alert.label}`,
+      body: `Now ${formatPrice(price, alert.currency)} with ${observation.provider}, at or below your alert price of ${formatPrice(threshold, alert.currency)}.`,
+      url: '/transport',
+      data: { alertId: alert.id, series: alert.series, price, currency: alert.currency, provider: observation.provider },
+      dedupeKey: `price-alert:${alert.id}:${price.toFixed(2)}`,
+    });
+
+    if (notified) {
+      await withDatabase(async (db) => {
+        await db
+          .update(priceAlerts)
+          .set({ lastNotifiedPrice: price.toFixed(2), lastNotifiedAt: observation.observedAt })
+          .where(eq(priceAlerts.id, alert.id));
+      });
+      if (notified.status === 'created') {
+        result.notified++;
+      }
+    }
+  }
+
+  return result;
+}
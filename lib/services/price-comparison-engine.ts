@@ -34,6 +34,11 @@ export interface PricePoint {
 
 export interface PriceComparison {
   serviceType: TravelServiceType;
+  // Price history series the offers belong to; hotel history is per night
+  history?: {
+    series: string;
+    nights?: number;
+  };
   offers: Array<{
     id: string;
     provider: string;
@@ -0,0 +1,326 @@
+// Price History Store
+// Price observations for flight routes and hotel locations, kept across
+// deploys so the prediction and deal engines work from accumulated data.
+// The price tracking job writes here; raw observations are rolled up into
+// daily rows after RAW_RETENTION_DAYS and dropped after
+// HISTORY_RETENTION_DAYS.
+
+import { and, asc, eq, gte, lt, lte, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { priceHistory } from '@/lib/database/schema';
+
+export const RAW_RETENTION_DAYS = 30;
+export const HISTORY_RETENTION_DAYS = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PriceSeriesKind = 'flight' | 'hotel' | 'transport' | 'car_rental';
+export type PriceGranularity = 'raw' | 'daily';
+
+export interface PriceObservation {
+  series: string; // See priceSeriesKey
+  kind: PriceSeriesKind;
+  provider: string;
+  currency: string;
+  price: number; // Average over `samples` for daily rows
+  minPrice?: number; // Defaults to price
+  maxPrice?: number; // Defaults to price
+  samples?: number; // Defaults to 1
+  granularity?: PriceGranularity; // Defaults to raw
+  travelDate?: string; // YYYY-MM-DD departure or check-in
+  observedAt: Date;
+}
+
+export interface PriceHistoryQuery {
+  since?: Date;
+  until?: Date;
+  provider?: string;
+}
+
+export interface PriceHistoryCompaction {
+  downsampled: number; // Raw rows folded into daily rows
+  deleted: number; // Rows past retention
+}
+
+export interface PriceHistoryStore {
+  readonly name: 'memory' | 'postgres';
+  record(observations: PriceObservation[]): Promise<number>;
+  // Observations in a series, oldest first
+  query(series: string, options?: PriceHistoryQuery): Promise<PriceObservation[]>;
+  // Fold raw rows observed before `rawBefore` into one daily row per
+  // provider, currency and travel date, and delete rows before `deleteBefore`
+  compact(rawBefore: Date, deleteBefore: Date): Promise<PriceHistoryCompaction>;
+}
+
+// ==================== SERIES KEYS ====================
+
+/**
+ * Key for one price series. Flight subjects are routes ("JFK-LHR") and are
+ * upper-cased; hotel subjects are locations and are lower-cased. The
+ * variant separates e.g. cabin classes on the same route.
+ */
+export function priceSeriesKey(kind: PriceSeriesKind, subject: string, variant?: string): string {
+  const trimmed = subject.trim().replace(/\s+/g, ' ');
+  const normalized = kind === 'flight' ? trimmed.toUpperCase() : trimmed.toLowerCase();
+  return variant ? `${kind}:${normalized}:${variant}` : `${kind}:${normalized}`;
+}
+
+export function flightSeriesKey(from: string, to: string, cabinClass: string = 'economy'): string {
+  return priceSeriesKey('flight', `${from}-${to}`, cabinClass);
+}
+
+export function hotelSeriesKey(location: string): string {
+  return priceSeriesKey('hotel', location);
+}
+
+export function carRentalSeriesKey(pickupLocation: string): string {
+  return priceSeriesKey('car_rental', pickupLocation);
+}
+
+// ==================== DAILY SUMMARIES ====================
+
+export interface DailyPriceSummary {
+  date: string; // YYYY-MM-DD (UTC) the prices were observed
+  average: number;
+  min: number;
+  max: number;
+  samples: number;
+}
+
+/**
+ * Collapse observations into one summary per observation day, so raw and
+ * rolled-up rows weigh the same regardless of how often a series was checked
+ */
+export function summarizeByDay(observations: PriceObservation[]): DailyPriceSummary[] {
+  const days = new Map<string, { total: number; min: number; max: number; samples: number }>();
+
+  observations.forEach(observation => {
+    const date = observation.observedAt.toISOString().slice(0, 10);
+    const samples = observation.samples ?? 1;
+    const day = days.get(date) || { total: 0, min: Infinity, max: -Infinity, samples: 0 };
+
+    day.total += observation.price * samples;
+    day.min = Math.min(day.min, observation.minPrice ?? observation.price);
+    day.max = Math.max(day.max, observation.maxPrice ?? observation.price);
+    day.samples += samples;
+    days.set(date, day);
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      average: Math.round((day.total / day.samples) * 100) / 100,
+      min: day.min,
+      max: day.max,
+      samples: day.samples,
+    }));
+}
+
+// ==================== STORES ====================
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function normalizeObservation(observation: PriceObservation): Required<Omit<PriceObservation, 'travelDate'>> & { travelDate?: string } {
+  return {
+    ...observation,
+    minPrice: observation.minPrice ?? observation.price,
+    maxPrice: observation.maxPrice ?? observation.price,
+    samples: observation.samples ?? 1,
+    granularity: observation.granularity ?? 'raw',
+  };
+}
+
+/**
+ * Process-local store, used when no database is configured. History only
+ * lives as long as the process, so it is meant for development and tests.
+ */
+export class MemoryPriceHistoryStore implements PriceHistoryStore {
+  readonly name = 'memory' as const;
+  private series = new Map<string, PriceObservation[]>();
+
+  async record(observations: PriceObservation[]): Promise<number> {
+    observations.forEach(observation => {
+      const rows = this.series.get(observation.series) || [];
+      rows.push(normalizeObservation(observation));
+      rows.sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+      this.series.set(observation.series, rows);
+    });
+    return observations.length;
+  }
+
+  async query(series: string, options: PriceHistoryQuery = {}): Promise<PriceObservation[]> {
+    return (this.series.get(series) || []).filter(row =>
+      (!options.since || row.observedAt >= options.since) &&
+      (!options.until || row.observedAt <= options.until) &&
+      (!options.provider || row.provider === options.provider)
+    );
+  }
+
+  async compact(rawBefore: Date, deleteBefore: Date): Promise<PriceHistoryCompaction> {
+    const result: PriceHistoryCompaction = { downsampled: 0, deleted: 0 };
+
+    this.series.forEach((rows, series) => {
+      const kept = rows.filter(row => row.observedAt >= deleteBefore);
+      result.deleted += rows.length - kept.length;
+
+      const groups = new Map<string, PriceObservation[]>();
+      const remaining: PriceObservation[] = [];
+      kept.forEach(row => {
+        if (row.granularity === 'daily' || row.observedAt >= rawBefore) {
+          remaining.push(row);
+          return;
+        }
+        const day = startOfUtcDay(row.observedAt).toISOString();
+        const key = [row.provider, row.currency, row.travelDate || '', day].join('|');
+        groups.set(key, [...(groups.get(key) || []), row]);
+      });
+
+      groups.forEach(group => {
+        const [first] = group;
+        const samples = group.reduce((sum, row) => sum + (row.samples ?? 1), 0);
+        const total = group.reduce((sum, row) => sum + row.price * (row.samples ?? 1), 0);
+        remaining.push({
+          ...first,
+          price: Math.round((total / samples) * 100) / 100,
+          minPrice: Math.min(...group.map(row => row.minPrice ?? row.price)),
+          maxPrice: Math.max(...group.map(row => row.maxPrice ?? row.price)),
+          samples,
+          granularity: 'daily',
+          observedAt: startOfUtcDay(first.observedAt),
+        });
+        result.downsampled += group.length;
+      });
+
+      remaining.sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+      if (remaining.length > 0) {
+        this.series.set(series, remaining);
+      } else {
+        this.series.delete(series);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Postgres store on the price_history table. Compaction runs in one
+ * transaction so a series never shows both the raw rows and their rollup.
+ */
+export class PostgresPriceHistoryStore implements PriceHistoryStore {
+  readonly name = 'postgres' as const;
+
+  constructor(private database: NonNullable<typeof db>) {}
+
+  async record(observations: PriceObservation[]): Promise<number> {
+    if (observations.length === 0) return 0;
+
+    await this.database.insert(priceHistory).values(
+      observations.map(normalizeObservation).map(observation => ({
+        series: observation.series,
+        kind: observation.kind,
+        provider: observation.provider,
+        currency: observation.currency,
+        price: observation.price.toFixed(2),
+        minPrice: observation.minPrice.toFixed(2),
+        maxPrice: observation.maxPrice.toFixed(2),
+        samples: observation.samples,
+        granularity: observation.granularity,
+        travelDate: observation.travelDate,
+        observedAt: observation.observedAt,
+      }))
+    );
+    return observations.length;
+  }
+
+  async query(series: string, options: PriceHistoryQuery = {}): Promise<PriceObservation[]> {
+    const conditions = [eq(priceHistory.series, series)];
+    if (options.since) conditions.push(gte(priceHistory.observedAt, options.since));
+    if (options.until) conditions.push(lte(priceHistory.observedAt, options.until));
+    if (options.provider) conditions.push(eq(priceHistory.provider, options.provider));
+
+    const rows = await this.database
+      .select()
+      .from(priceHistory)
+      .where(and(...conditions))
+      .orderBy(asc(priceHistory.observedAt));
+
+    return rows.map(row => ({
+      series: row.series,
+      kind: row.kind as PriceSeriesKind,
+      provider: row.provider,
+      currency: row.currency,
+      price: Number(row.price),
+      minPrice: Number(row.minPrice),
+      maxPrice: Number(row.maxPrice),
+      samples: row.samples,
+      granularity: row.granularity as PriceGranularity,
+      travelDate: row.travelDate ?? undefined,
+      observedAt: row.observedAt,
+    }));
+  }
+
+  async compact(rawBefore: Date, deleteBefore: Date): Promise<PriceHistoryCompaction> {
+    return await this.database.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(priceHistory)
+        .where(lt(priceHistory.observedAt, deleteBefore))
+        .returning({ id: priceHistory.id });
+
+      await tx.execute(sql`
+        INSERT INTO price_history
+          (series, kind, provider, currency, price, min_price, max_price, samples, granularity, travel_date, observed_at)
+        SELECT series, kind, provider, currency,
+          ROUND(SUM(price * samples) / SUM(samples), 2), MIN(min_price), MAX(max_price), SUM(samples),
+          'daily', travel_date, date_trunc('day', observed_at)
+        FROM price_history
+        WHERE granularity = 'raw' AND observed_at < ${rawBefore}
+        GROUP BY series, kind, provider, currency, travel_date, date_trunc('day', observed_at)
+      `);
+
+      const downsampled = await tx
+        .delete(priceHistory)
+        .where(and(eq(priceHistory.granularity, 'raw'), lt(priceHistory.observedAt, rawBefore)))
+        .returning({ id: priceHistory.id });
+
+      return { downsampled: downsampled.length, deleted: deleted.length };
+    });
+  }
+}
+
+let sharedStore: PriceHistoryStore | null = null;
+
+/**
+ * Get the price history store for this process. PRICE_HISTORY_STORE picks
+ * one explicitly (memory/postgres); by default Postgres is used when the
+ * database is configured.
+ */
+export function getPriceHistoryStore(): PriceHistoryStore {
+  if (!sharedStore) {
+    const preferred = process.env.PRICE_HISTORY_STORE;
+    if (preferred === 'postgres' && !db) {
+      console.warn('PRICE_HISTORY_STORE=postgres but the database is not configured, using memory');
+    }
+    sharedStore = preferred === 'memory' || !db
+      ? new MemoryPriceHistoryStore()
+      : new PostgresPriceHistoryStore(db);
+  }
+  return sharedStore;
+}
+
+/**
+ * Apply retention: roll raw observations older than RAW_RETENTION_DAYS up
+ * to daily rows and drop anything older than HISTORY_RETENTION_DAYS. The
+ * raw cutoff is aligned to midnight UTC so each day is rolled up once.
+ */
+export async function compactPriceHistory(
+  now: Date = new Date(),
+  store: PriceHistoryStore = getPriceHistoryStore()
+): Promise<PriceHistoryCompaction> {
+  const rawBefore = startOfUtcDay(new Date(now.getTime() - RAW_RETENTION_DAYS * DAY_MS));
+  const deleteBefore = new Date(now.getTime() - HISTORY_RETENTION_DAYS * DAY_MS);
+  return store.compact(rawBefore, deleteBefore);
+}
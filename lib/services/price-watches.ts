@@ -0,0 +1,219 @@
+// Price Watches
+// Flight, hotel and car rental searches a user has saved for price tracking.
+// The price tracking job re-runs each active watch on a schedule and records
+// the prices it finds in the price history store.
+
+import { and, asc, count, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { priceAlerts, priceWatches, type PriceWatch } from '@/lib/database/schema';
+import { CarRentalSearchQuerySchema, type CarRentalSearchQuery } from './car-rental-search';
+import type { FlightSearchQuery } from './flight-search';
+import type { HotelSearchQuery } from './hotel-search';
+import { carRentalSeriesKey, flightSeriesKey, hotelSeriesKey } from './price-history-store';
+
+export const MAX_WATCHES_PER_USER = 20;
+
+export type PriceWatchInput =
+  | { kind: 'flight'; query: FlightSearchQuery; label?: string }
+  | { kind: 'hotel'; query: HotelSearchQuery; label?: string }
+  | { kind: 'car_rental'; query: CarRentalSearchQuery; label?: string };
+
+const coordinatesSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90)
+]);
+
+const airportSchema = z.object({
+  code: z.string().length(3).regex(/^[A-Z]{3}$/, 'Invalid airport code'),
+  name: z.string().min(1).max(100),
+  coordinates: coordinatesSchema,
+});
+
+/**
+ * Request body for saving a search; shared by the price watch and price
+ * alert routes
+ */
+export const priceWatchInputSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('flight'),
+    label: z.string().min(1).max(200).optional(),
+    query: z.object({
+      from: airportSchema,
+      to: airportSchema,
+      departureDate: z.string().datetime(),
+      returnDate: z.string().datetime().optional(),
+      passengers: z.object({
+        adults: z.number().int().min(1).max(9),
+        children: z.number().int().min(0).max(9).optional(),
+        infants: z.number().int().min(0).max(9).optional(),
+      }),
+      cabinClass: z.enum(['economy', 'premium_economy', 'business', 'first']).default('economy'),
+      maxStops: z.number().int().min(0).max(3).optional(),
+      currency: z.enum(['USD', 'EUR', 'GBP', 'INR']).default('USD'),
+    }),
+  }),
+  z.object({
+    kind: z.literal('hotel'),
+    label: z.string().min(1).max(200).optional(),
+    query: z.object({
+      location: z.object({
+        type: z.enum(['city', 'landmark', 'coordinates', 'hotel_name']),
+        value: z.string().min(1).max(100),
+        coordinates: coordinatesSchema.optional(),
+        radius: z.number().positive().max(50).optional(),
+        countryCode: z.string().length(2).regex(/^[A-Z]{2}$/).optional(),
+      }),
+      checkIn: z.string().datetime(),
+      checkOut: z.string().datetime(),
+      rooms: z.array(z.object({
+        adults: z.number().int().min(1).max(10),
+        children: z.number().int().min(0).max(10).optional(),
+        childrenAges: z.array(z.number().int().min(0).max(17)).optional(),
+      })).min(1).max(10),
+      currency: z.enum(['USD', 'EUR', 'GBP', 'INR']).default('USD'),
+    }),
+  }),
+  z.object({
+    kind: z.literal('car_rental'),
+    label: z.string().min(1).max(200).optional(),
+    query: CarRentalSearchQuerySchema,
+  }),
+]);
+
+export type PriceWatchCreation =
+  | { status: 'created'; watch: PriceWatch }
+  | { status: 'limit_reached'; limit: number };
+
+/**
+ * Series key, label, last travel date and price currency for a watched search
+ */
+export function describePriceWatch(input: PriceWatchInput): { series: string; label: string; travelDate: string; currency: string } {
+  if (input.kind === 'flight') {
+    const { from, to, departureDate, cabinClass } = input.query;
+    const travelDate = departureDate.slice(0, 10);
+    return {
+      series: flightSeriesKey(from.code, to.code, cabinClass),
+      label: input.label || `${from.code} → ${to.code}, ${travelDate}`,
+      travelDate,
+      currency: input.query.currency || 'USD',
+    };
+  }
+
+  if (input.kind === 'car_rental') {
+    const { pickupLocation, pickupDateTime, dropoffDateTime } = input.query;
+    const travelDate = pickupDateTime.slice(0, 10);
+    return {
+      series: carRentalSeriesKey(pickupLocation.name),
+      label: input.label || `Car rental in ${pickupLocation.name}, ${travelDate} – ${dropoffDateTime.slice(0, 10)}`,
+      travelDate,
+      currency: input.query.preferences?.priceRange?.currency || 'USD',
+    };
+  }
+
+  const { location, checkIn, checkOut } = input.query;
+  const travelDate = checkIn.slice(0, 10);
+  return {
+    series: hotelSeriesKey(location.value),
+    label: input.label || `${location.value}, ${travelDate} – ${checkOut.slice(0, 10)}`,
+    travelDate,
+    currency: input.query.currency || 'USD',
+  };
+}
+
+export async function listPriceWatches(userId: string): Promise<PriceWatch[]> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(priceWatches)
+      .where(eq(priceWatches.userId, userId))
+      .orderBy(asc(priceWatches.createdAt));
+  });
+  return rows || [];
+}
+
+/**
+ * Save a search for tracking. Returns null when the database is unavailable.
+ */
+export async function createPriceWatch(userId: string, input: PriceWatchInput): Promise<PriceWatchCreation | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  const { series, label, travelDate } = describePriceWatch(input);
+
+  return await withDatabase(async (db) => {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(priceWatches)
+      .where(and(eq(priceWatches.userId, userId), eq(priceWatches.active, true)));
+
+    if (total >= MAX_WATCHES_PER_USER) {
+      return { status: 'limit_reached', limit: MAX_WATCHES_PER_USER } as const;
+    }
+
+    const [watch] = await db
+      .insert(priceWatches)
+      .values({ userId, kind: input.kind, series, label, query: input.query, travelDate })
+      .returning();
+
+    return { status: 'created', watch } as const;
+  });
+}
+
+/**
+ * Delete a watch together with any price alerts set on it
+ */
+export async function deletePriceWatch(userId: string, watchId: string): Promise<boolean> {
+  const rows = await withDatabase(async (db) => {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(priceAlerts)
+        .where(and(eq(priceAlerts.watchId, watchId), eq(priceAlerts.userId, userId)));
+      return await tx
+        .delete(priceWatches)
+        .where(and(eq(priceWatches.id, watchId), eq(priceWatches.userId, userId)))
+        .returning({ id: priceWatches.id });
+    });
+  });
+  return (rows?.length || 0) > 0;
+}
+
+/**
+ * Active watches not checked since `checkedBefore`, least recently checked first
+ */
+export async function getDuePriceWatches(checkedBefore: Date, limit: number): Promise<PriceWatch[]> {
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select()
+      .from(priceWatches)
+      .where(and(
+        eq(priceWatches.active, true),
+        or(isNull(priceWatches.lastCheckedAt), lt(priceWatches.lastCheckedAt, checkedBefore))
+      ))
+      .orderBy(sql`${priceWatches.lastCheckedAt} ASC NULLS FIRST`)
+      .limit(limit);
+  });
+  return rows || [];
+}
+
+/**
+ * Record the outcome of a check. A null price keeps the last known price;
+ * `active: false` retires the watch.
+ */
+export async function markPriceWatchChecked(
+  watchId: string,
+  result: { price: number; currency: string } | null,
+  active: boolean = true
+): Promise<void> {
+  await withDatabase(async (db) => {
+    await db
+      .update(priceWatches)
+      .set({
+        lastCheckedAt: new Date(),
+        active,
+        ...(result && { lastPrice: result.price.toFixed(2), lastCurrency: result.currency }),
+      })
+      .where(eq(priceWatches.id, watchId));
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Search Sandbox & Data Provenance
+ *
+ * Every offer returned by the search services records where it came from:
+ * - live: returned by a provider for this search
+ * - cached: a provider result served from the search cache
+ * - synthetic: generated from the sandbox fixture catalog
+ *
+ * Synthetic offers are only ever produced in sandbox mode (SEARCH_SANDBOX=true).
+ * In sandbox mode the services skip providers and the cache entirely and build
+ * their catalogs from a random generator seeded with the query, so the same
+ * origin, destination and dates always return the same offers. Outside sandbox
+ * mode a search with no provider results returns no offers.
+ */
+
+import type { CacheStatus } from '@/lib/cache/cache';
+
+export type DataProvenance = 'live' | 'cached' | 'synthetic';
+
+export const PROVENANCE_LABELS: Record<DataProvenance, string> = {
+  live: 'Live price',
+  cached: 'Recently cached price',
+  synthetic: 'Sample data (sandbox)',
+};
+
+export function isSandboxMode(): boolean {
+  const flag = process.env.SEARCH_SANDBOX?.toLowerCase();
+  return flag === 'true' || flag === '1';
+}
+
+export function withProvenance<T extends object>(
+  items: T[],
+  provenance: DataProvenance
+): (T & { provenance: DataProvenance })[] {
+  return items.map(item => ({ ...item, provenance }));
+}
+
+// Live offers served from the cache become `cached`; synthetic stays synthetic
+export function withCacheProvenance<T extends { provenance: DataProvenance }>(items: T[], status: CacheStatus): T[] {
+  if (status === 'miss') {
+    return items;
+  }
+
+  return items.map(item => (item.provenance === 'live' ? { ...item, provenance: 'cached' } : item));
+}
+
+// ==================== SEEDED FIXTURES ====================
+
+export interface SeededRandom {
+  next(): number; // [0, 1)
+  int(min: number, max: number): number; // Inclusive
+  float(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  id(prefix: string): string;
+}
+
+// FNV-1a, so seeds are stable across runtimes
+function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic generator (mulberry32) seeded from the given parts. Callers
+ * seed with the search kind and the query fields that define a catalog.
+ */
+export function createSeededRandom(...parts: (string | number | undefined)[]): SeededRandom {
+  let state = hashSeed(parts.map(part => (part === undefined ? '' : String(part))).join('|'));
+  let sequence = 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    float: (min, max) => min + next() * (max - min),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)],
+    id: prefix => `${prefix}_${(++sequence).toString().padStart(3, '0')}_${Math.floor(next() * 0xffffff).toString(36)}`,
+  };
+}
+
+// Fixture timestamps are derived from the query so catalogs stay reproducible
+export function sandboxTimestamp(anchor: string, offsetHours: number = 0): string {
+  const time = new Date(anchor).getTime();
+  return new Date((Number.isNaN(time) ? 0 : time) + offsetHours * 60 * 60 * 1000).toISOString();
+}
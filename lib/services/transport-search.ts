@@ -25,6 +25,15 @@
  */
 
 import { z } from 'zod';
+import { defineCacheNamespace } from '@/lib/cache/namespaces';
+import {
+  createSeededRandom,
+  isSandboxMode,
+  sandboxTimestamp,
+  withCacheProvenance,
+  type DataProvenance,
+  type SeededRandom
+} from './sandbox';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -121,6 +130,7 @@ export interface TransportSegment {
 
 export interface TransportJourney {
   id: string;
+  provenance: DataProvenance;
   segments: TransportSegment[];
   totalDuration: number; // minutes
   totalDistance: number; // kilometers
@@ -225,6 +235,7 @@ export interface TransportSearchResponse {
     };
     realTimeData: boolean;
     cacheHit: boolean;
+    sandbox: boolean;
     warnings?: string[];
   };
 }
@@ -355,10 +366,14 @@ const MOCK_LOCATIONS: TransportLocation[] = [
 
 // ==================== SERVICE IMPLEMENTATION ====================
 
-export class TransportSearchService {
-  private readonly cache = new Map<string, { data: TransportSearchResponse; expires: number }>();
-  private readonly cacheTimeout = 30 * 60 * 1000; // 30 minutes
+const transportSearchCache = defineCacheNamespace<TransportSearchQuery, TransportSearchResponse>({
+  name: 'transport-search',
+  ttl: 30 * 60, // Schedules are relatively stable
+  staleTtl: 10 * 60,
+  shouldCache: response => response.journeys.length > 0
+});
 
+export class TransportSearchService {
   constructor(
     private readonly providers: {
       rome2Rio?: { apiKey: string; baseUrl?: string };
@@ -370,101 +385,108 @@ export class TransportSearchService {
   ) {}
 
   async searchTransport(query: TransportSearchQuery): Promise<TransportSearchResponse> {
-    const searchId = this.generateSearchId(query);
-    const cacheKey = this.getCacheKey(query);
-    
-    // Check cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() < cached.expires) {
+    try {
+      if (isSandboxMode()) {
+        return this.runSandboxSearch(query);
+      }
+
+      const { value, status } = await transportSearchCache.fetch(query, () => this.runSearch(query));
+      const journeys = withCacheProvenance(value.journeys, status);
       return {
-        ...cached.data,
+        ...value,
+        journeys,
+        alternatives: this.generateAlternatives(journeys),
         meta: {
-          ...cached.data.meta,
-          cacheHit: true
+          ...value.meta,
+          cacheHit: status !== 'miss'
         }
       };
+    } catch (error) {
+      throw new Error(`Transport search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
+  private async runSearch(query: TransportSearchQuery): Promise<TransportSearchResponse> {
     const startTime = Date.now();
-    
-    try {
-      // Generate mock journeys for development/testing
-      const journeys = await this.generateMockJourneys(query);
-      
-      // Sort and prioritize journeys
-      const sortedJourneys = this.sortJourneys(journeys, query.preferences?.priorities);
-      
-      // Generate alternatives
-      const alternatives = this.generateAlternatives(sortedJourneys);
-      
-      const response: TransportSearchResponse = {
-        journeys: sortedJourneys,
-        alternatives,
-        meta: {
-          searchId,
-          searchTime: Date.now() - startTime,
-          totalResults: sortedJourneys.length,
-          providers: ['mock_transport', 'rome2rio_mock', 'rail_mock'],
-          coverage: {
-            rail: ['UK Rail', 'SNCF', 'DB', 'NS'],
-            bus: ['FlixBus', 'National Express', 'Eurolines'],
-            ferry: ['P&O Ferries', 'DFDS'],
-            rideshare: ['BlaBlaCar']
-          },
-          realTimeData: true,
-          cacheHit: false,
-          warnings: []
-        }
-      };
 
-      // Cache the response
-      this.cache.set(cacheKey, {
-        data: response,
-        expires: Date.now() + this.cacheTimeout
-      });
+    // No rail, coach or Rome2Rio integration returns inventory yet
+    return this.buildResponse(query, [], [], startTime, ['No live transport providers are available for this route']);
+  }
 
-      return response;
-    } catch (error) {
-      throw new Error(`Transport search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private runSandboxSearch(query: TransportSearchQuery): TransportSearchResponse {
+    const startTime = Date.now();
+    const rng = createSeededRandom('transport', query.from.name.toLowerCase(), query.to.name.toLowerCase(), query.departure.date, query.departure.time);
+    const journeys = this.sortJourneys(this.generateSandboxJourneys(query, rng), query.preferences?.priorities);
+
+    return this.buildResponse(query, journeys, ['sandbox'], startTime);
   }
 
-  private async generateMockJourneys(query: TransportSearchQuery): Promise<TransportJourney[]> {
+  private buildResponse(
+    query: TransportSearchQuery,
+    journeys: TransportJourney[],
+    providers: string[],
+    startTime: number,
+    warnings: string[] = []
+  ): TransportSearchResponse {
+    return {
+      journeys,
+      alternatives: this.generateAlternatives(journeys),
+      meta: {
+        searchId: this.generateSearchId(query),
+        searchTime: Date.now() - startTime,
+        totalResults: journeys.length,
+        providers,
+        coverage: {
+          rail: ['UK Rail', 'SNCF', 'DB', 'NS'],
+          bus: ['FlixBus', 'National Express', 'Eurolines'],
+          ferry: ['P&O Ferries', 'DFDS'],
+          rideshare: ['BlaBlaCar']
+        },
+        realTimeData: providers.length > 0 && !providers.includes('sandbox'),
+        cacheHit: false,
+        sandbox: providers.includes('sandbox'),
+        warnings
+      }
+    };
+  }
+
+  // Seeded fixture catalog: the same route and departure always yield the same journeys
+  private generateSandboxJourneys(query: TransportSearchQuery, rng: SeededRandom): TransportJourney[] {
     const journeys: TransportJourney[] = [];
+    const distance = this.calculateDistance(query.from, query.to, rng);
     
     // Generate direct journey options
-    journeys.push(await this.generateDirectJourney(query, 'train'));
-    journeys.push(await this.generateDirectJourney(query, 'bus'));
+    journeys.push(this.generateDirectJourney(query, 'train', distance, rng));
+    journeys.push(this.generateDirectJourney(query, 'bus', distance, rng));
     
     // Generate journey with one transfer
-    journeys.push(await this.generateTransferJourney(query));
+    journeys.push(this.generateTransferJourney(query, distance, rng));
     
     // Generate flight option if distance > 500km
-    if (this.calculateDistance(query.from, query.to) > 500) {
-      journeys.push(await this.generateDirectJourney(query, 'flight'));
+    if (distance > 500) {
+      journeys.push(this.generateDirectJourney(query, 'flight', distance, rng));
     }
     
-    return journeys.filter(Boolean);
+    return journeys;
   }
 
-  private async generateDirectJourney(query: TransportSearchQuery, mode: TransportMode): Promise<TransportJourney> {
-    const distance = this.calculateDistance(query.from, query.to);
-    const basePrice = this.calculateBasePrice(mode, distance);
+  private generateDirectJourney(query: TransportSearchQuery, mode: TransportMode, distance: number, rng: SeededRandom): TransportJourney {
+    const basePrice = this.calculateBasePrice(mode, distance, rng);
     const duration = this.calculateDuration(mode, distance);
     
     const segment: TransportSegment = {
-      id: `${mode}_direct_${Date.now()}`,
+      id: rng.id(`${mode}_direct`),
       mode,
       provider: this.getProviderName(mode),
       from: this.createLocationFromQuery(query.from),
       to: this.createLocationFromQuery(query.to),
       departure: {
         scheduled: this.formatDepartureTime(query.departure),
-        platform: mode === 'train' ? Math.floor(Math.random() * 12 + 1).toString() : undefined
+        platform: mode === 'train' ? rng.int(1, 12).toString() : undefined
       },
       arrival: {
         scheduled: this.addMinutes(this.formatDepartureTime(query.departure), duration),
-        platform: mode === 'train' ? Math.floor(Math.random() * 12 + 1).toString() : undefined
+        platform: mode === 'train' ? rng.int(1, 12).toString() : undefined
       },
       duration,
       distance,
@@ -495,14 +517,15 @@ export class TransportSearchService {
         cancellationPolicy: 'Flexible cancellation up to 24 hours before departure'
       },
       realTimeInfo: {
-        delays: Math.random() > 0.8 ? Math.floor(Math.random() * 15) : 0,
-        status: Math.random() > 0.9 ? 'delayed' : 'on_time',
-        lastUpdated: new Date().toISOString()
+        delays: rng.chance(0.2) ? rng.int(1, 14) : 0,
+        status: rng.chance(0.1) ? 'delayed' : 'on_time',
+        lastUpdated: sandboxTimestamp(this.formatDepartureTime(query.departure), -1)
       }
     };
 
     return {
       id: `journey_${segment.id}`,
+      provenance: 'synthetic',
       segments: [segment],
       totalDuration: duration,
       totalDistance: distance,
@@ -528,8 +551,7 @@ export class TransportSearchService {
     };
   }
 
-  private async generateTransferJourney(query: TransportSearchQuery): Promise<TransportJourney> {
-    const distance = this.calculateDistance(query.from, query.to);
+  private generateTransferJourney(query: TransportSearchQuery, distance: number, rng: SeededRandom): TransportJourney {
     const transferLocation = this.getTransferLocation(query.from, query.to);
     
     const segment1Duration = this.calculateDuration('train', distance * 0.6);
@@ -537,7 +559,7 @@ export class TransportSearchService {
     const transferTime = 45; // minutes
     
     const segment1: TransportSegment = {
-      id: `train_segment1_${Date.now()}`,
+      id: rng.id('train_segment1'),
       mode: 'train',
       provider: 'SNCF Connect',
       from: this.createLocationFromQuery(query.from),
@@ -553,7 +575,7 @@ export class TransportSearchService {
       duration: segment1Duration,
       distance: distance * 0.6,
       price: {
-        amount: this.calculateBasePrice('train', distance * 0.6),
+        amount: this.calculateBasePrice('train', distance * 0.6, rng),
         currency: 'EUR',
         priceClass: 'economy',
         fareType: 'standard',
@@ -566,12 +588,12 @@ export class TransportSearchService {
       realTimeInfo: {
         delays: 0,
         status: 'on_time',
-        lastUpdated: new Date().toISOString()
+        lastUpdated: sandboxTimestamp(this.formatDepartureTime(query.departure), -1)
       }
     };
 
     const segment2: TransportSegment = {
-      id: `bus_segment2_${Date.now()}`,
+      id: rng.id('bus_segment2'),
       mode: 'bus',
       provider: 'FlixBus',
       from: transferLocation,
@@ -587,7 +609,7 @@ export class TransportSearchService {
       duration: segment2Duration,
       distance: distance * 0.4,
       price: {
-        amount: this.calculateBasePrice('bus', distance * 0.4),
+        amount: this.calculateBasePrice('bus', distance * 0.4, rng),
         currency: 'EUR',
         priceClass: 'economy',
         fareType: 'standard',
@@ -600,7 +622,7 @@ export class TransportSearchService {
       realTimeInfo: {
         delays: 5,
         status: 'on_time',
-        lastUpdated: new Date().toISOString()
+        lastUpdated: sandboxTimestamp(this.formatDepartureTime(query.departure), -1)
       }
     };
 
@@ -608,7 +630,8 @@ export class TransportSearchService {
     const totalCO2 = segment1.carbonEmissions!.co2Grams + segment2.carbonEmissions!.co2Grams;
 
     return {
-      id: `journey_transfer_${Date.now()}`,
+      id: rng.id('journey_transfer'),
+      provenance: 'synthetic',
       segments: [segment1, segment2],
       totalDuration: segment1Duration + segment2Duration + transferTime,
       totalDistance: distance,
@@ -671,7 +694,11 @@ export class TransportSearchService {
     });
   }
 
-  private generateAlternatives(journeys: TransportJourney[]) {
+  private generateAlternatives(journeys: TransportJourney[]): TransportSearchResponse['alternatives'] {
+    if (journeys.length === 0) {
+      return {};
+    }
+
     return {
       fastest: journeys.reduce((prev, current) => 
         prev.totalDuration < current.totalDuration ? prev : current
@@ -692,11 +719,7 @@ export class TransportSearchService {
     return `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private getCacheKey(query: TransportSearchQuery): string {
-    return `transport_${JSON.stringify(query)}`.replace(/\s/g, '');
-  }
-
-  private calculateDistance(from: { coordinates?: [number, number] }, to: { coordinates?: [number, number] }): number {
+  private calculateDistance(from: { coordinates?: [number, number] }, to: { coordinates?: [number, number] }, rng: SeededRandom): number {
     // Mock distance calculation - in real implementation, use coordinates or geocoding
     const distances: Record<string, number> = {
       'london-paris': 344,
@@ -707,10 +730,10 @@ export class TransportSearchService {
     };
     
     const key = `${from.coordinates?.[1] || 'london'}-${to.coordinates?.[1] || 'paris'}`;
-    return distances[key] || Math.floor(Math.random() * 800 + 200);
+    return distances[key] || rng.int(200, 999);
   }
 
-  private calculateBasePrice(mode: TransportMode, distance: number): number {
+  private calculateBasePrice(mode: TransportMode, distance: number, rng: SeededRandom): number {
     const basePrices: Record<TransportMode, number> = {
       train: 0.15,
       bus: 0.08,
@@ -724,7 +747,7 @@ export class TransportSearchService {
       bike: 0
     };
     
-    return Math.round((basePrices[mode] * distance + Math.random() * 20) * 100) / 100;
+    return Math.round((basePrices[mode] * distance + rng.float(0, 20)) * 100) / 100;
   }
 
   private calculateDuration(mode: TransportMode, distance: number): number {
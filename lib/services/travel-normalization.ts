@@ -25,6 +25,7 @@
  */
 
 import { z } from 'zod';
+import type { DataProvenance } from './sandbox';
 
 // ==================== UNIFIED TYPE DEFINITIONS ====================
 
@@ -143,6 +144,7 @@ export interface UnifiedFlightOffer {
   id: string;
   type: 'flight';
   provider: UnifiedProvider;
+  provenance: DataProvenance;
   aircraft: {
     airline: string;
     flightNumber: string;
@@ -182,6 +184,7 @@ export interface UnifiedHotelOffer {
   id: string;
   type: 'hotel';
   provider: UnifiedProvider;
+  provenance: DataProvenance;
   property: {
     name: string;
     category: 'budget' | 'midrange' | 'luxury' | 'boutique';
@@ -228,6 +231,7 @@ export interface UnifiedTransportOffer {
   id: string;
   type: 'transport';
   provider: UnifiedProvider;
+  provenance: DataProvenance;
   journey: {
     mode: 'train' | 'bus' | 'ferry' | 'metro' | 'tram';
     operator: string;
@@ -267,6 +271,7 @@ export interface UnifiedCarRentalOffer {
   id: string;
   type: 'car_rental';
   provider: UnifiedProvider;
+  provenance: DataProvenance;
   vehicle: {
     make: string;
     model: string;
@@ -323,6 +328,7 @@ export interface UnifiedRideShareOffer {
   id: string;
   type: 'ride_share';
   provider: UnifiedProvider;
+  provenance: DataProvenance;
   service: {
     type: 'economy' | 'comfort' | 'premium' | 'xl' | 'pool' | 'taxi';
     vehicleCategory: string;
@@ -508,6 +514,7 @@ export class TravelNormalizationService {
         id: rawOffer.id || this.generateOfferId('flight'),
         type: 'flight',
         provider,
+        provenance: rawOffer.provenance || 'live',
         aircraft: {
           airline: rawOffer.airline || rawOffer.carrier?.name || 'Unknown',
           flightNumber: rawOffer.flightNumber || rawOffer.flight_no || '',
@@ -616,6 +623,7 @@ export class TravelNormalizationService {
         id: rawOffer.id || this.generateOfferId('hotel'),
         type: 'hotel',
         provider,
+        provenance: rawOffer.provenance || 'live',
         property: {
           name: rawOffer.name || rawOffer.hotelName || 'Unknown Hotel',
           category: this.normalizeHotelCategory(rawOffer.category),
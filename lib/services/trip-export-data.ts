@@ -0,0 +1,245 @@
+// Trip Export Data
+// Builds the TripExportService input from a stored trip and an itinerary
+// version, so exports render on the server from what is saved rather than
+// from client state. Stored itineraries come in several shapes (CRDT days,
+// generated dailyItinerary); fields missing from them are left out of the
+// export instead of being invented.
+
+import { eq } from 'drizzle-orm';
+import { withDatabase } from '@/lib/db';
+import { trips, type Trip } from '@/lib/database/schema';
+import { getItineraryVersion, normalizeItinerary } from '@/lib/planning/itinerary-versions';
+import { resolveDestinationTimeZone } from '@/lib/calendar/ics';
+import type { ActivityInfo, BudgetInfo, Location, TripData } from './trip-export';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ACTIVITY_MINUTES = 60;
+
+const ACTIVITY_CATEGORIES: ActivityInfo['category'][] = [
+  'sightseeing', 'adventure', 'cultural', 'dining', 'shopping', 'entertainment',
+];
+
+interface StoredDestination {
+  city?: string;
+  country?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export type TripExportDataResult =
+  | { status: 'ok'; tripData: TripData; version: number | null }
+  | { status: 'not_found' }
+  | { status: 'version_not_found'; version: number };
+
+function asRecord(value: unknown): Record<string, any> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+function asNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function destinationLocation(destination: StoredDestination, index: number): Location {
+  const name = destination.city || destination.country || `Destination ${index + 1}`;
+  return {
+    id: `destination-${index}`,
+    name,
+    address: [destination.city, destination.country].filter(Boolean).join(', ') || name,
+    coordinates: [destination.lng ?? 0, destination.lat ?? 0],
+    type: 'city',
+  };
+}
+
+// Activity locations are either a plain address or an object with coordinates
+function activityLocation(value: unknown, id: string, fallbackName: string): Location {
+  const text = asText(value);
+  if (text) {
+    return { id: `${id}-location`, name: text, address: text, coordinates: [0, 0], type: 'activity' };
+  }
+
+  const location = asRecord(value);
+  const coordinates = Array.isArray(location.coordinates) ? location.coordinates : [];
+  const name = asText(location.name) || asText(location.address) || fallbackName;
+  return {
+    id: `${id}-location`,
+    name,
+    address: asText(location.address) || name,
+    coordinates: [
+      asNumber(location.lng ?? location.longitude ?? coordinates[0]) ?? 0,
+      asNumber(location.lat ?? location.latitude ?? coordinates[1]) ?? 0,
+    ],
+    type: 'activity',
+  };
+}
+
+// "14:30", "9:00 AM" -> minutes after midnight
+function parseTimeOfDay(value: unknown): number | null {
+  const match = asText(value)?.match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?/i);
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]) % 24;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem?.startsWith('p') && hours < 12) hours += 12;
+  if (meridiem?.startsWith('a') && hours === 12) hours = 0;
+  return hours * 60 + Math.min(Number(match[2]), 59);
+}
+
+// A day's date from its own field, or counted from the trip start
+function dayDate(fields: Record<string, unknown>, index: number, tripStart: Date): Date {
+  const stored = asText(fields.date);
+  const parsed = stored ? new Date(stored) : null;
+  const base = parsed && !Number.isNaN(parsed.getTime()) ? parsed : new Date(tripStart.getTime() + index * DAY_MS);
+  return new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate()));
+}
+
+function activityCategory(value: unknown): ActivityInfo['category'] {
+  const category = asText(value)?.toLowerCase();
+  if (category === 'food' || category === 'restaurant') {
+    return 'dining';
+  }
+  return ACTIVITY_CATEGORIES.find(candidate => candidate === category) || 'sightseeing';
+}
+
+function activityPrice(fields: Record<string, any>, currency: string): ActivityInfo['price'] {
+  const price = asRecord(fields.price);
+  const amount = asNumber(price.amount) ?? asNumber(fields.price) ?? asNumber(fields.estimatedCost) ?? asNumber(fields.cost);
+  if (!amount) {
+    return undefined;
+  }
+  return {
+    amount,
+    currency: asText(price.currency) || currency,
+    perPerson: price.perPerson === true || fields.perPerson === true,
+  };
+}
+
+function buildBudget(trip: Trip, itinerary: Record<string, any>, participants: number): BudgetInfo | undefined {
+  // Generated itineraries carry a cost breakdown; otherwise only the trip total is known
+  const generated = asRecord(itinerary.budgetBreakdown);
+  const estimated = asRecord(asRecord(itinerary.estimatedCost).breakdown);
+  const source = Object.keys(generated).length > 0 ? generated : estimated;
+
+  if (Object.keys(source).length > 0) {
+    const breakdown = {
+      transportation: asNumber(source.transportation) ?? 0,
+      accommodation: asNumber(source.accommodation) ?? 0,
+      activities: asNumber(source.activities) ?? 0,
+      dining: asNumber(source.dining ?? source.food) ?? 0,
+      other: (asNumber(source.other) ?? 0) + (asNumber(source.shopping) ?? 0) + (asNumber(source.miscellaneous) ?? 0),
+    };
+    const total = asNumber(generated.total) ?? asNumber(asRecord(itinerary.estimatedCost).total)
+      ?? Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
+    return {
+      currency: asText(generated.currency) || asText(asRecord(itinerary.estimatedCost).currency) || trip.budgetCurrency,
+      total,
+      breakdown,
+      perPerson: Math.round(total / participants),
+    };
+  }
+
+  if (!trip.budgetTotal) {
+    return undefined;
+  }
+  return {
+    currency: trip.budgetCurrency,
+    total: trip.budgetTotal,
+    breakdown: { transportation: 0, accommodation: 0, activities: 0, dining: 0, other: trip.budgetTotal },
+    perPerson: Math.round(trip.budgetTotal / participants),
+  };
+}
+
+/**
+ * Map a stored trip and itinerary data onto the export format
+ */
+export function buildTripExportData(trip: Trip, itineraryData: unknown): TripData {
+  const itinerary = asRecord(itineraryData);
+  const destinations = (Array.isArray(trip.destinations) ? trip.destinations : []) as StoredDestination[];
+  const locations = destinations.map(destinationLocation);
+  const fallback: Location = { id: 'destination-0', name: trip.title, address: trip.title, coordinates: [0, 0], type: 'city' };
+
+  const travelers = asRecord(itinerary.travelers);
+  const adults = asNumber(travelers.adults) ?? asNumber(itinerary.groupSize) ?? asNumber(itinerary.travelers) ?? 1;
+  const children = asNumber(travelers.children) ?? 0;
+
+  const { days, activities } = normalizeItinerary(itineraryData);
+  const dayIndex = new Map(days.map((day, index) => [day.id, index]));
+  const dayDates = new Map(days.map((day, index) => [day.id, dayDate(day.fields, index, trip.startDate)]));
+
+  const activityInfos = activities.map((activity): ActivityInfo => {
+    const { fields } = activity;
+    const date = dayDates.get(activity.dayId) || dayDate({}, dayIndex.get(activity.dayId) ?? 0, trip.startDate);
+    const minutes = parseTimeOfDay(fields.time ?? fields.startTime) ?? 9 * 60;
+    return {
+      id: activity.id,
+      name: activity.label,
+      category: activityCategory(fields.category ?? fields.type),
+      location: activityLocation(fields.location, activity.id, activity.label),
+      dateTime: new Date(date.getTime() + minutes * 60000).toISOString(),
+      duration: asNumber(fields.duration) ?? DEFAULT_ACTIVITY_MINUTES,
+      price: activityPrice(fields, trip.budgetCurrency),
+      description: asText(fields.description),
+      bookingReference: asText(fields.bookingReference),
+      notes: asText(fields.notes),
+    };
+  });
+
+  return {
+    id: trip.id,
+    title: trip.title,
+    description: asText(itinerary.overview) || asText(itinerary.description),
+    dates: {
+      startDate: trip.startDate.toISOString(),
+      endDate: trip.endDate.toISOString(),
+      duration: Math.max(1, Math.round((trip.endDate.getTime() - trip.startDate.getTime()) / DAY_MS)),
+    },
+    destinations: {
+      origin: locations[0] || fallback,
+      destination: locations[locations.length - 1] || fallback,
+      waypoints: locations.slice(1, -1),
+    },
+    participants: { adults, children },
+    transportation: [],
+    accommodations: [],
+    activities: activityInfos,
+    dining: [],
+    budget: buildBudget(trip, itinerary, adults + children),
+    notes: asText(itinerary.notes),
+    timeZone: resolveDestinationTimeZone(destinations[destinations.length - 1]?.country, destinations[destinations.length - 1]?.lng),
+    createdAt: trip.createdAt.toISOString(),
+    updatedAt: trip.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Load a trip with the given itinerary version (latest by default) as
+ * export data. Trips without an itinerary export their overview only.
+ * Returns null when the database is unavailable.
+ */
+export async function loadTripExportData(tripId: string, version?: number): Promise<TripExportDataResult | null> {
+  const rows = await withDatabase(async (db) => {
+    return await db.select().from(trips).where(eq(trips.id, tripId)).limit(1);
+  });
+  if (!rows) {
+    return null;
+  }
+  if (rows.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const itinerary = await getItineraryVersion(tripId, version);
+  if (version !== undefined && !itinerary) {
+    return { status: 'version_not_found', version };
+  }
+
+  return {
+    status: 'ok',
+    tripData: buildTripExportData(rows[0], itinerary?.data ?? null),
+    version: itinerary?.version ?? null,
+  };
+}
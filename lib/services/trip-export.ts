@@ -7,9 +7,16 @@
  * - PDF: Printable itinerary with detailed information
  * - ICS: Calendar format for importing events
  * - JSON: Full trip data export
+ * - DOCX: Editable Word document
+ * - HTML: Standalone printable page
+ * - CSV: Budget sheet for spreadsheets
  */
 
 import { jsPDF } from 'jspdf';
+import { PROVENANCE_LABELS, type DataProvenance } from './sandbox';
+import { encodeQrCode } from '@/lib/documents/qr-code';
+import { createDocx, type DocxBlock } from '@/lib/documents/docx';
+import { isValidTimeZone, renderCalendar, type IcsEvent, type IcsTime } from '@/lib/calendar/ics';
 
 // ==================== TYPES ====================
 
@@ -39,6 +46,8 @@ export interface TripData {
   route?: RouteInfo;
   budget?: BudgetInfo;
   notes?: string;
+  // IANA zone of the destination; the times above are wall-clock times there
+  timeZone?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,6 +76,7 @@ export interface TransportationInfo {
     amount: number;
     currency: string;
   };
+  provenance?: DataProvenance; // Where the price came from
   bookingReference?: string;
   seats?: string[];
   notes?: string;
@@ -87,6 +97,7 @@ export interface AccommodationInfo {
     currency: string;
     perNight: number;
   };
+  provenance?: DataProvenance; // Where the price came from
   amenities: string[];
   bookingReference?: string;
   rating?: number;
@@ -153,8 +164,11 @@ export interface BudgetInfo {
   perPerson: number;
 }
 
+export const EXPORT_FORMATS = ['gpx', 'kml', 'pdf', 'ics', 'json', 'docx', 'html', 'csv'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
 export interface ExportOptions {
-  format: 'gpx' | 'kml' | 'pdf' | 'ics' | 'json';
+  format: ExportFormat;
   includeRoute?: boolean;
   includeAccommodations?: boolean;
   includeActivities?: boolean;
@@ -175,6 +189,44 @@ export interface ExportResult {
   error?: string;
 }
 
+export interface ExportStream {
+  stream: ReadableStream<Uint8Array>;
+  filename: string;
+  mimeType: string;
+}
+
+// One priced line of the budget sheet
+interface BudgetLine {
+  category: string;
+  item: string;
+  date: string;
+  amount: number;
+  currency: string;
+  note: string;
+}
+
+// Size of each chunk when streaming an export
+const STREAM_CHUNK_BYTES = 64 * 1024;
+
+// A confirmed booking as printed on its voucher
+export interface BookingVoucherData {
+  reference: string;
+  status: string;
+  confirmedAt?: string;
+  contactEmail?: string;
+  travelers: string[];
+  total: { amount: number; currency: string };
+  items: Array<{
+    title: string;
+    kind: string;
+    providerId: string;
+    providerReference: string | null;
+    status: string;
+    price: { amount: number; currency: string };
+    details: Array<[string, string]>;
+  }>;
+}
+
 // ==================== MAIN SERVICE ====================
 
 export class TripExportService {
@@ -195,6 +247,12 @@ export class TripExportService {
           return await this.exportToICS(tripData, options);
         case 'json':
           return await this.exportToJSON(tripData, options);
+        case 'docx':
+          return await this.exportToDOCX(tripData, options);
+        case 'html':
+          return await this.exportToHTML(tripData, options);
+        case 'csv':
+          return await this.exportToCSV(tripData, options);
         default:
           throw new Error(`Unsupported export format: ${options.format}`);
       }
@@ -209,6 +267,61 @@ export class TripExportService {
     }
   }
 
+  /**
+   * Export as a byte stream for server responses. Generation starts when
+   * the stream is first read, so headers go out straight away and large
+   * files are sent in chunks. A failed generation calls `onError` before
+   * aborting the stream, since the response status has already been sent.
+   */
+  exportTripStream(
+    tripData: TripData,
+    options: ExportOptions,
+    onError?: (error: Error) => Promise<void> | void
+  ): ExportStream {
+    let bytes: Uint8Array | null = null;
+    let offset = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (!bytes) {
+          const result = await this.exportTrip(tripData, options);
+          if (!result.success || result.data === undefined) {
+            const error = new Error(result.error || 'Export failed');
+            await onError?.(error);
+            controller.error(error);
+            return;
+          }
+          bytes = typeof result.data === 'string'
+            ? new TextEncoder().encode(result.data)
+            : new Uint8Array(result.data);
+        }
+
+        controller.enqueue(bytes.subarray(offset, offset + STREAM_CHUNK_BYTES));
+        offset += STREAM_CHUNK_BYTES;
+        if (offset >= bytes.length) {
+          controller.close();
+        }
+      },
+    });
+
+    return { stream, ...this.getExportFileType(tripData, options.format) };
+  }
+
+  /**
+   * Voucher PDF for a confirmed booking, with the booking reference and
+   * each provider reference as QR codes for check-in desks
+   */
+  async exportBookingVoucher(voucher: BookingVoucherData): Promise<ExportResult> {
+    const pdfData = this.generateVoucherPDF(voucher);
+    return {
+      success: true,
+      data: pdfData,
+      filename: `voucher_${this.sanitizeFilename(voucher.reference)}.pdf`,
+      mimeType: 'application/pdf',
+      size: pdfData.byteLength
+    };
+  }
+
   /**
    * Export to GPX format (GPS Exchange Format)
    * Perfect for GPS devices and mapping applications
@@ -294,6 +407,57 @@ export class TripExportService {
     };
   }
 
+  /**
+   * Export to DOCX format
+   * Editable itinerary for Word, Pages or Google Docs
+   */
+  private async exportToDOCX(tripData: TripData, options: ExportOptions): Promise<ExportResult> {
+    const docxData = this.generateDOCX(tripData, options);
+    const { filename, mimeType } = this.getExportFileType(tripData, 'docx');
+
+    return {
+      success: true,
+      data: docxData.buffer.slice(docxData.byteOffset, docxData.byteOffset + docxData.byteLength) as ArrayBuffer,
+      filename,
+      mimeType,
+      size: docxData.byteLength
+    };
+  }
+
+  /**
+   * Export to HTML format
+   * Standalone page styled for printing, with no external assets
+   */
+  private async exportToHTML(tripData: TripData, options: ExportOptions): Promise<ExportResult> {
+    const htmlData = this.generateHTML(tripData, options);
+    const { filename, mimeType } = this.getExportFileType(tripData, 'html');
+
+    return {
+      success: true,
+      data: htmlData,
+      filename,
+      mimeType,
+      size: new Blob([htmlData]).size
+    };
+  }
+
+  /**
+   * Export to CSV format
+   * Budget sheet with one row per priced item and the planned budget
+   */
+  private async exportToCSV(tripData: TripData, options: ExportOptions): Promise<ExportResult> {
+    const csvData = this.generateCSV(tripData, options);
+    const { filename, mimeType } = this.getExportFileType(tripData, 'csv');
+
+    return {
+      success: true,
+      data: csvData,
+      filename,
+      mimeType,
+      size: new Blob([csvData]).size
+    };
+  }
+
   // ==================== GPX GENERATION ====================
 
   private generateGPX(tripData: TripData, options: ExportOptions): string {
@@ -391,7 +555,7 @@ export class TripExportService {
           <b>Check-in:</b> ${new Date(hotel.checkIn).toLocaleDateString()}<br/>
           <b>Check-out:</b> ${new Date(hotel.checkOut).toLocaleDateString()}<br/>
           <b>Nights:</b> ${hotel.nights}<br/>
-          ${hotel.price ? `<b>Price:</b> ${hotel.price.currency} ${hotel.price.amount}<br/>` : ''}
+          ${hotel.price ? `<b>Price:</b> ${hotel.price.currency} ${hotel.price.amount}${this.formatPriceSource(hotel.provenance)}<br/>` : ''}
           ${hotel.amenities.length > 0 ? `<b>Amenities:</b> ${hotel.amenities.join(', ')}<br/>` : ''}
           ${hotel.notes ? `<b>Notes:</b> ${hotel.notes}` : ''}
         ]]></description>
@@ -585,7 +749,7 @@ export class TripExportService {
         yPosition += 5;
         
         if (transport.price) {
-          doc.text(`Price: ${transport.price.currency} ${transport.price.amount}`, margin + 10, yPosition);
+          doc.text(`Price: ${transport.price.currency} ${transport.price.amount}${this.formatPriceSource(transport.provenance)}`, margin + 10, yPosition);
           yPosition += 5;
         }
         
@@ -625,7 +789,7 @@ export class TripExportService {
         yPosition += 5;
         
         if (hotel.price) {
-          doc.text(`Total: ${hotel.price.currency} ${hotel.price.amount} (${hotel.price.currency} ${hotel.price.perNight}/night)`, margin + 10, yPosition);
+          doc.text(`Total: ${hotel.price.currency} ${hotel.price.amount} (${hotel.price.currency} ${hotel.price.perNight}/night)${this.formatPriceSource(hotel.provenance)}`, margin + 10, yPosition);
           yPosition += 5;
         }
         
@@ -762,105 +926,223 @@ export class TripExportService {
     return doc.output('arraybuffer') as ArrayBuffer;
   }
 
-  // ==================== ICS GENERATION ====================
+  // ==================== VOUCHER GENERATION ====================
 
-  private generateICS(tripData: TripData, options: ExportOptions): string {
-    const formatDate = (date: string): string => {
-      return new Date(date).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+  private generateVoucherPDF(voucher: BookingVoucherData): ArrayBuffer {
+    const doc = new jsPDF();
+    let yPosition = 20;
+    const pageHeight = doc.internal.pageSize.height;
+    const pageWidth = doc.internal.pageSize.width;
+    const margin = 20;
+    const qrSize = 36;
+
+    const checkPageBreak = (requiredHeight: number = 10) => {
+      if (yPosition + requiredHeight > pageHeight - margin) {
+        doc.addPage();
+        yPosition = margin;
+      }
     };
 
-    let ics = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//Tripthesia//Trip Calendar//EN
-CALSCALE:GREGORIAN
-`;
+    // Header with the booking reference QR code on the right
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Booking Voucher', margin, yPosition);
+    this.drawQrCode(doc, `TRIPTHESIA:${voucher.reference}`, pageWidth - margin - qrSize, 12, qrSize);
+    yPosition += 12;
 
-    // Trip overview event
-    ics += `BEGIN:VEVENT
-UID:trip-${tripData.id}-overview@tripthesia.com
-DTSTART:${formatDate(tripData.dates.startDate)}
-DTEND:${formatDate(tripData.dates.endDate)}
-SUMMARY:${this.escapeICS(tripData.title)}
-DESCRIPTION:${this.escapeICS(tripData.description || 'Trip to ' + tripData.destinations.destination.name)}
-LOCATION:${this.escapeICS(tripData.destinations.destination.name)}
-STATUS:CONFIRMED
-TRANSP:TRANSPARENT
-END:VEVENT
-`;
+    doc.setFontSize(14);
+    doc.text(`Reference: ${voucher.reference}`, margin, yPosition);
+    yPosition += 8;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Status: ${voucher.status}`, margin, yPosition);
+    yPosition += 5;
+    if (voucher.confirmedAt) {
+      doc.text(`Confirmed: ${new Date(voucher.confirmedAt).toUTCString()}`, margin, yPosition);
+      yPosition += 5;
+    }
+    if (voucher.contactEmail) {
+      doc.text(`Contact: ${voucher.contactEmail}`, margin, yPosition);
+      yPosition += 5;
+    }
+    doc.text(`Total: ${voucher.total.currency} ${voucher.total.amount.toFixed(2)}`, margin, yPosition);
+    yPosition = Math.max(yPosition + 10, 12 + qrSize + 8);
+
+    // Travellers
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Travellers', margin, yPosition);
+    yPosition += 8;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    voucher.travelers.forEach(traveler => {
+      checkPageBreak(6);
+      doc.text(traveler, margin + 10, yPosition);
+      yPosition += 5;
+    });
+    yPosition += 5;
+
+    // One section per booked item, with the provider reference as a QR code
+    voucher.items.forEach(item => {
+      const itemQrSize = 26;
+      checkPageBreak(itemQrSize + 16);
+      const top = yPosition;
+
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${item.kind.replace('_', ' ').toUpperCase()}: ${item.title}`, margin, yPosition, { maxWidth: pageWidth - margin * 2 - itemQrSize - 10 });
+      yPosition += 6;
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Provider: ${item.providerId}`, margin + 10, yPosition);
+      yPosition += 5;
+      doc.text(`Provider reference: ${item.providerReference || 'pending'}`, margin + 10, yPosition);
+      yPosition += 5;
+      doc.text(`Price: ${item.price.currency} ${item.price.amount.toFixed(2)} • ${item.status}`, margin + 10, yPosition);
+      yPosition += 5;
+      item.details.forEach(([label, value]) => {
+        checkPageBreak(6);
+        doc.text(`${label}: ${value}`, margin + 10, yPosition);
+        yPosition += 5;
+      });
+
+      if (item.providerReference) {
+        this.drawQrCode(doc, item.providerReference, pageWidth - margin - itemQrSize, top - 4, itemQrSize);
+      }
+      yPosition = Math.max(yPosition, top + itemQrSize) + 6;
+    });
+
+    // Footer
+    const pageCount = doc.internal.pages.length - 1;
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Tripthesia booking ${voucher.reference} • Page ${i} of ${pageCount}`, margin, pageHeight - 10);
+      doc.text('Show this voucher or the QR codes at check-in', pageWidth - margin - 62, pageHeight - 10);
+    }
+
+    return doc.output('arraybuffer') as ArrayBuffer;
+  }
+
+  // Dark modules as filled squares; horizontal runs are merged into one rectangle
+  private drawQrCode(doc: jsPDF, text: string, x: number, y: number, size: number): void {
+    const modules = encodeQrCode(text);
+    const moduleSize = size / (modules.length + 8); // Four-module quiet zone on each side
+    const origin = { x: x + moduleSize * 4, y: y + moduleSize * 4 };
+
+    doc.setFillColor(0, 0, 0);
+    modules.forEach((row, rowIndex) => {
+      let start = -1;
+      row.forEach((dark, column) => {
+        if (dark && start < 0) start = column;
+        if ((!dark || column === row.length - 1) && start >= 0) {
+          const end = dark ? column + 1 : column;
+          doc.rect(origin.x + start * moduleSize, origin.y + rowIndex * moduleSize, (end - start) * moduleSize, moduleSize, 'F');
+          start = -1;
+        }
+      });
+    });
+  }
+
+  // ==================== ICS GENERATION ====================
+
+  private generateICS(tripData: TripData, options: ExportOptions): string {
+    // Export times are wall-clock times at the destination, written with its TZID
+    const timeZone = tripData.timeZone && isValidTimeZone(tripData.timeZone) ? tripData.timeZone : 'UTC';
+    const local = (value: string, offsetMinutes: number = 0): IcsTime => ({
+      type: 'local',
+      wallClock: new Date(new Date(value).getTime() + offsetMinutes * 60 * 1000),
+      timeZone,
+    });
+    const day = (value: string, offsetDays: number = 0): IcsTime => {
+      const date = new Date(value);
+      return { type: 'date', date: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + offsetDays)) };
+    };
+    const uid = (id: string) => `${id}@tripthesia.com`;
+    const events: IcsEvent[] = [];
+
+    // Trip overview event; DTEND of an all-day event is exclusive
+    events.push({
+      uid: uid(`trip-${tripData.id}-overview`),
+      start: day(tripData.dates.startDate),
+      end: day(tripData.dates.endDate, 1),
+      summary: tripData.title,
+      description: tripData.description || 'Trip to ' + tripData.destinations.destination.name,
+      location: tripData.destinations.destination.name,
+      status: 'CONFIRMED',
+    });
 
     // Transportation events
     tripData.transportation.forEach((transport) => {
-      ics += `BEGIN:VEVENT
-UID:transport-${transport.id}@tripthesia.com
-DTSTART:${formatDate(transport.departure)}
-DTEND:${formatDate(transport.arrival)}
-SUMMARY:${this.escapeICS(`${transport.type.toUpperCase()}: ${transport.from.name} → ${transport.to.name}`)}
-DESCRIPTION:${this.escapeICS(`${transport.provider}${transport.bookingReference ? '\\nBooking: ' + transport.bookingReference : ''}${transport.price ? '\\nPrice: ' + transport.price.currency + ' ' + transport.price.amount : ''}`)}
-LOCATION:${this.escapeICS(transport.from.address)}
-STATUS:CONFIRMED
-BEGIN:VALARM
-ACTION:DISPLAY
-DESCRIPTION:${this.escapeICS(`${transport.type} departure reminder`)}
-TRIGGER:-PT2H
-END:VALARM
-END:VEVENT
-`;
+      events.push({
+        uid: uid(`transport-${transport.id}`),
+        start: local(transport.departure),
+        end: local(transport.arrival),
+        summary: `${transport.type.toUpperCase()}: ${transport.from.name} → ${transport.to.name}`,
+        description: [
+          transport.provider,
+          transport.bookingReference && `Booking: ${transport.bookingReference}`,
+          transport.price && `Price: ${transport.price.currency} ${transport.price.amount}${this.formatPriceSource(transport.provenance)}`,
+        ].filter(Boolean).join('\n'),
+        location: transport.from.address,
+        status: 'CONFIRMED',
+        alarms: [{ trigger: '-PT2H', description: `${transport.type} departure reminder` }],
+      });
     });
 
     // Accommodation events
     if (options.includeAccommodations !== false) {
       tripData.accommodations.forEach((hotel) => {
-        // Check-in event
-        ics += `BEGIN:VEVENT
-UID:checkin-${hotel.id}@tripthesia.com
-DTSTART:${formatDate(hotel.checkIn)}
-DTEND:${formatDate(new Date(new Date(hotel.checkIn).getTime() + 60 * 60 * 1000).toISOString())}
-SUMMARY:${this.escapeICS(`Check-in: ${hotel.name}`)}
-DESCRIPTION:${this.escapeICS(`Check-in at ${hotel.name}\\n${hotel.location.address}${hotel.bookingReference ? '\\nBooking: ' + hotel.bookingReference : ''}${hotel.price ? '\\nTotal: ' + hotel.price.currency + ' ' + hotel.price.amount : ''}`)}
-LOCATION:${this.escapeICS(hotel.location.address)}
-STATUS:CONFIRMED
-BEGIN:VALARM
-ACTION:DISPLAY
-DESCRIPTION:Hotel check-in reminder
-TRIGGER:-PT1H
-END:VALARM
-END:VEVENT
-`;
+        events.push({
+          uid: uid(`checkin-${hotel.id}`),
+          start: local(hotel.checkIn),
+          end: local(hotel.checkIn, 60),
+          summary: `Check-in: ${hotel.name}`,
+          description: [
+            `Check-in at ${hotel.name}`,
+            hotel.location.address,
+            hotel.bookingReference && `Booking: ${hotel.bookingReference}`,
+            hotel.price && `Total: ${hotel.price.currency} ${hotel.price.amount}${this.formatPriceSource(hotel.provenance)}`,
+          ].filter(Boolean).join('\n'),
+          location: hotel.location.address,
+          status: 'CONFIRMED',
+          alarms: [{ trigger: '-PT1H', description: 'Hotel check-in reminder' }],
+        });
 
-        // Check-out event
-        ics += `BEGIN:VEVENT
-UID:checkout-${hotel.id}@tripthesia.com
-DTSTART:${formatDate(hotel.checkOut)}
-DTEND:${formatDate(new Date(new Date(hotel.checkOut).getTime() + 60 * 60 * 1000).toISOString())}
-SUMMARY:${this.escapeICS(`Check-out: ${hotel.name}`)}
-DESCRIPTION:${this.escapeICS(`Check-out from ${hotel.name}\\n${hotel.location.address}`)}
-LOCATION:${this.escapeICS(hotel.location.address)}
-STATUS:CONFIRMED
-BEGIN:VALARM
-ACTION:DISPLAY
-DESCRIPTION:Hotel check-out reminder
-TRIGGER:-PT1H
-END:VALARM
-END:VEVENT
-`;
+        events.push({
+          uid: uid(`checkout-${hotel.id}`),
+          start: local(hotel.checkOut),
+          end: local(hotel.checkOut, 60),
+          summary: `Check-out: ${hotel.name}`,
+          description: `Check-out from ${hotel.name}\n${hotel.location.address}`,
+          location: hotel.location.address,
+          status: 'CONFIRMED',
+          alarms: [{ trigger: '-PT1H', description: 'Hotel check-out reminder' }],
+        });
       });
     }
 
     // Activity events
     if (options.includeActivities !== false) {
       tripData.activities.forEach((activity) => {
-        const endTime = new Date(new Date(activity.dateTime).getTime() + activity.duration * 60 * 1000);
-        
-        ics += `BEGIN:VEVENT
-UID:activity-${activity.id}@tripthesia.com
-DTSTART:${formatDate(activity.dateTime)}
-DTEND:${formatDate(endTime.toISOString())}
-SUMMARY:${this.escapeICS(activity.name)}
-DESCRIPTION:${this.escapeICS(`${activity.category}${activity.description ? '\\n' + activity.description : ''}${activity.price ? '\\nPrice: ' + activity.price.currency + ' ' + activity.price.amount + (activity.price.perPerson ? ' per person' : '') : ''}${activity.bookingReference ? '\\nBooking: ' + activity.bookingReference : ''}`)}
-LOCATION:${this.escapeICS(activity.location.address)}
-STATUS:${activity.bookingRequired ? 'TENTATIVE' : 'CONFIRMED'}
-${activity.bookingRequired ? 'BEGIN:VALARM\nACTION:DISPLAY\nDESCRIPTION:Book activity reminder\nTRIGGER:-P1D\nEND:VALARM\n' : ''}END:VEVENT
-`;
+        events.push({
+          uid: uid(`activity-${activity.id}`),
+          start: local(activity.dateTime),
+          end: local(activity.dateTime, activity.duration),
+          summary: activity.name,
+          description: [
+            activity.category,
+            activity.description,
+            activity.price && `Price: ${activity.price.currency} ${activity.price.amount}${activity.price.perPerson ? ' per person' : ''}`,
+            activity.bookingReference && `Booking: ${activity.bookingReference}`,
+          ].filter(Boolean).join('\n'),
+          location: activity.location.address,
+          status: activity.bookingRequired ? 'TENTATIVE' : 'CONFIRMED',
+          alarms: activity.bookingRequired ? [{ trigger: '-P1D', description: 'Book activity reminder' }] : [],
+        });
       });
     }
 
@@ -868,29 +1150,26 @@ ${activity.bookingRequired ? 'BEGIN:VALARM\nACTION:DISPLAY\nDESCRIPTION:Book act
     if (options.includeDining !== false) {
       tripData.dining.forEach((restaurant) => {
         if (restaurant.reservationTime) {
-          const endTime = new Date(new Date(restaurant.reservationTime).getTime() + 2 * 60 * 60 * 1000); // 2 hours default
-          
-          ics += `BEGIN:VEVENT
-UID:dining-${restaurant.id}@tripthesia.com
-DTSTART:${formatDate(restaurant.reservationTime)}
-DTEND:${formatDate(endTime.toISOString())}
-SUMMARY:${this.escapeICS(`Dinner: ${restaurant.name}`)}
-DESCRIPTION:${this.escapeICS(`${restaurant.cuisine} • ${restaurant.priceRange}\\nParty size: ${restaurant.partySize}${restaurant.dietary?.length ? '\\nDietary: ' + restaurant.dietary.join(', ') : ''}${restaurant.reservationReference ? '\\nReservation: ' + restaurant.reservationReference : ''}`)}
-LOCATION:${this.escapeICS(restaurant.location.address)}
-STATUS:CONFIRMED
-BEGIN:VALARM
-ACTION:DISPLAY
-DESCRIPTION:Restaurant reservation reminder
-TRIGGER:-PT1H
-END:VALARM
-END:VEVENT
-`;
+          events.push({
+            uid: uid(`dining-${restaurant.id}`),
+            start: local(restaurant.reservationTime),
+            end: local(restaurant.reservationTime, 120), // 2 hours default
+            summary: `Dinner: ${restaurant.name}`,
+            description: [
+              `${restaurant.cuisine} • ${restaurant.priceRange}`,
+              `Party size: ${restaurant.partySize}`,
+              restaurant.dietary?.length && `Dietary: ${restaurant.dietary.join(', ')}`,
+              restaurant.reservationReference && `Reservation: ${restaurant.reservationReference}`,
+            ].filter(Boolean).join('\n'),
+            location: restaurant.location.address,
+            status: 'CONFIRMED',
+            alarms: [{ trigger: '-PT1H', description: 'Restaurant reservation reminder' }],
+          });
         }
       });
     }
 
-    ics += 'END:VCALENDAR';
-    return ics;
+    return renderCalendar({ name: tripData.title, timeZone, events });
   }
 
   // ==================== JSON GENERATION ====================
@@ -909,8 +1188,360 @@ END:VEVENT
     return JSON.stringify(exportData, null, 2);
   }
 
+  // ==================== DOCX GENERATION ====================
+
+  private generateDOCX(tripData: TripData, options: ExportOptions): Uint8Array {
+    const blocks: DocxBlock[] = [{ type: 'title', text: tripData.title }];
+
+    if (tripData.description) {
+      blocks.push({ type: 'paragraph', text: tripData.description, italic: true });
+    }
+
+    blocks.push(
+      { type: 'heading', level: 1, text: 'Trip Overview' },
+      { type: 'table', rows: this.getOverviewRows(tripData) }
+    );
+
+    if (tripData.budget) {
+      const budget = tripData.budget;
+      blocks.push(
+        { type: 'heading', level: 1, text: 'Budget Summary' },
+        {
+          type: 'table',
+          header: ['Category', `Amount (${budget.currency})`],
+          rows: [
+            ...Object.entries(budget.breakdown).map(([category, amount]) => [this.capitalize(category), amount.toLocaleString()]),
+            ['Total', budget.total.toLocaleString()],
+            ['Per person', budget.perPerson.toLocaleString()],
+          ],
+        }
+      );
+    }
+
+    if (tripData.transportation.length > 0) {
+      blocks.push(
+        { type: 'heading', level: 1, text: 'Transportation' },
+        {
+          type: 'table',
+          header: ['Type', 'Route', 'Departure', 'Arrival', 'Booking'],
+          rows: tripData.transportation.map(transport => [
+            `${transport.type.toUpperCase()} • ${transport.provider}`,
+            `${transport.from.name} → ${transport.to.name}`,
+            new Date(transport.departure).toLocaleString(),
+            new Date(transport.arrival).toLocaleString(),
+            transport.bookingReference || '',
+          ]),
+        }
+      );
+    }
+
+    if (options.includeAccommodations !== false && tripData.accommodations.length > 0) {
+      blocks.push({ type: 'heading', level: 1, text: 'Accommodations' });
+      tripData.accommodations.forEach(hotel => {
+        blocks.push(
+          { type: 'heading', level: 2, text: hotel.name },
+          { type: 'paragraph', text: hotel.location.address },
+          { type: 'bullet', text: `Check-in: ${new Date(hotel.checkIn).toDateString()}` },
+          { type: 'bullet', text: `Check-out: ${new Date(hotel.checkOut).toDateString()}` },
+          { type: 'bullet', text: `${hotel.nights} nights, ${hotel.rooms} rooms, ${hotel.guests} guests` }
+        );
+        if (hotel.price) {
+          blocks.push({ type: 'bullet', text: `Total: ${hotel.price.currency} ${hotel.price.amount}${this.formatPriceSource(hotel.provenance)}` });
+        }
+        if (hotel.bookingReference) {
+          blocks.push({ type: 'bullet', text: `Booking Ref: ${hotel.bookingReference}` });
+        }
+      });
+    }
+
+    if (options.includeActivities !== false && tripData.activities.length > 0) {
+      blocks.push({ type: 'heading', level: 1, text: 'Activities' });
+      Object.entries(this.groupActivitiesByDate(tripData.activities)).forEach(([date, activities]) => {
+        blocks.push({ type: 'heading', level: 2, text: date });
+        activities.forEach(activity => {
+          const details = [
+            new Date(activity.dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+            activity.name,
+            activity.location.address && `(${activity.location.address})`,
+            activity.price && `– ${activity.price.currency} ${activity.price.amount}${activity.price.perPerson ? ' per person' : ''}`,
+          ].filter(Boolean).join(' ');
+          blocks.push({ type: 'bullet', text: details });
+          if (activity.description) {
+            blocks.push({ type: 'paragraph', text: activity.description, italic: true });
+          }
+        });
+      });
+    }
+
+    if (options.includeDining !== false && tripData.dining.length > 0) {
+      blocks.push({ type: 'heading', level: 1, text: 'Dining' });
+      tripData.dining.forEach(restaurant => {
+        blocks.push({
+          type: 'bullet',
+          text: [
+            `${restaurant.name} – ${restaurant.cuisine}, ${restaurant.priceRange}`,
+            restaurant.reservationTime && `Reservation: ${new Date(restaurant.reservationTime).toLocaleString()}`,
+          ].filter(Boolean).join('\n'),
+        });
+      });
+    }
+
+    if (options.includeNotes && tripData.notes) {
+      blocks.push(
+        { type: 'heading', level: 1, text: 'Notes' },
+        { type: 'paragraph', text: tripData.notes }
+      );
+    }
+
+    return createDocx(blocks, { title: tripData.title });
+  }
+
+  // ==================== HTML GENERATION ====================
+
+  private generateHTML(tripData: TripData, options: ExportOptions): string {
+    const escape = (text: string) => this.escapeXml(text);
+    const sections: string[] = [];
+
+    sections.push(`<section>
+      <h2>Trip Overview</h2>
+      <table class="overview">${this.getOverviewRows(tripData).map(([label, value]) => `<tr><th>${escape(label)}</th><td>${escape(value)}</td></tr>`).join('')}</table>
+    </section>`);
+
+    if (tripData.budget) {
+      const budget = tripData.budget;
+      sections.push(`<section>
+      <h2>Budget Summary</h2>
+      <table>
+        <thead><tr><th>Category</th><th class="amount">Amount (${escape(budget.currency)})</th></tr></thead>
+        <tbody>${Object.entries(budget.breakdown).map(([category, amount]) => `<tr><td>${escape(this.capitalize(category))}</td><td class="amount">${amount.toLocaleString()}</td></tr>`).join('')}</tbody>
+        <tfoot>
+          <tr><th>Total</th><td class="amount">${budget.total.toLocaleString()}</td></tr>
+          <tr><th>Per person</th><td class="amount">${budget.perPerson.toLocaleString()}</td></tr>
+        </tfoot>
+      </table>
+    </section>`);
+    }
+
+    if (tripData.transportation.length > 0) {
+      sections.push(`<section>
+      <h2>Transportation</h2>
+      ${tripData.transportation.map(transport => `<article>
+        <h3>${escape(`${transport.type.toUpperCase()}: ${transport.provider}`)}</h3>
+        <p>${escape(`${transport.from.name} → ${transport.to.name}`)}</p>
+        <p class="meta">Departure ${escape(new Date(transport.departure).toLocaleString())} · Arrival ${escape(new Date(transport.arrival).toLocaleString())}</p>
+        ${transport.price ? `<p class="meta">Price: ${escape(`${transport.price.currency} ${transport.price.amount}${this.formatPriceSource(transport.provenance)}`)}</p>` : ''}
+        ${transport.bookingReference ? `<p class="meta">Booking Ref: <strong>${escape(transport.bookingReference)}</strong></p>` : ''}
+      </article>`).join('')}
+    </section>`);
+    }
+
+    if (options.includeAccommodations !== false && tripData.accommodations.length > 0) {
+      sections.push(`<section>
+      <h2>Accommodations</h2>
+      ${tripData.accommodations.map(hotel => `<article>
+        <h3>${escape(hotel.name)}</h3>
+        <p>${escape(hotel.location.address)}</p>
+        <p class="meta">Check-in ${escape(new Date(hotel.checkIn).toDateString())} · Check-out ${escape(new Date(hotel.checkOut).toDateString())} · ${hotel.nights} nights, ${hotel.rooms} rooms, ${hotel.guests} guests</p>
+        ${hotel.price ? `<p class="meta">Total: ${escape(`${hotel.price.currency} ${hotel.price.amount}${this.formatPriceSource(hotel.provenance)}`)}</p>` : ''}
+        ${hotel.bookingReference ? `<p class="meta">Booking Ref: <strong>${escape(hotel.bookingReference)}</strong></p>` : ''}
+      </article>`).join('')}
+    </section>`);
+    }
+
+    if (options.includeActivities !== false && tripData.activities.length > 0) {
+      sections.push(`<section>
+      <h2>Activities</h2>
+      ${Object.entries(this.groupActivitiesByDate(tripData.activities)).map(([date, activities]) => `<div class="day">
+        <h3>${escape(date)}</h3>
+        <ul>${activities.map(activity => `<li>
+          <span class="time">${escape(new Date(activity.dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }))}</span>
+          <strong>${escape(activity.name)}</strong>${activity.location.address ? ` <span class="meta">${escape(activity.location.address)}</span>` : ''}
+          ${activity.description ? `<p>${escape(activity.description)}</p>` : ''}
+          ${activity.price ? `<p class="meta">${escape(`${activity.price.currency} ${activity.price.amount}${activity.price.perPerson ? ' per person' : ''}`)}</p>` : ''}
+        </li>`).join('')}</ul>
+      </div>`).join('')}
+    </section>`);
+    }
+
+    if (options.includeDining !== false && tripData.dining.length > 0) {
+      sections.push(`<section>
+      <h2>Dining</h2>
+      <ul>${tripData.dining.map(restaurant => `<li>
+        <strong>${escape(restaurant.name)}</strong> <span class="meta">${escape(`${restaurant.cuisine} · ${restaurant.priceRange}`)}</span>
+        ${restaurant.reservationTime ? `<p class="meta">Reservation: ${escape(new Date(restaurant.reservationTime).toLocaleString())}</p>` : ''}
+      </li>`).join('')}</ul>
+    </section>`);
+    }
+
+    if (options.includeNotes && tripData.notes) {
+      sections.push(`<section>
+      <h2>Notes</h2>
+      <p class="notes">${escape(tripData.notes)}</p>
+    </section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html lang="${escape(options.language || 'en')}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escape(tripData.title)}</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { border-bottom: 2px solid #1f3a5f; padding-bottom: 0.25rem; margin-top: 2rem; color: #1f3a5f; }
+    h3 { margin: 1rem 0 0.25rem; }
+    p { margin: 0.25rem 0; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+    .overview th { width: 30%; background: #f3f4f6; }
+    .amount { text-align: right; }
+    .meta { color: #6b7280; font-size: 0.9rem; }
+    .time { display: inline-block; min-width: 3.5rem; font-variant-numeric: tabular-nums; }
+    .notes { white-space: pre-wrap; }
+    ul { padding-left: 1.2rem; }
+    li { margin-bottom: 0.5rem; }
+    footer { margin-top: 3rem; color: #9ca3af; font-size: 0.8rem; }
+    @page { margin: 18mm; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      section, article, .day { break-inside: avoid-page; }
+      h2, h3 { break-after: avoid-page; }
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escape(tripData.title)}</h1>
+    ${tripData.description ? `<p>${escape(tripData.description)}</p>` : ''}
+  </header>
+  ${sections.join('\n  ')}
+  <footer>Generated by Tripthesia on ${escape(new Date().toDateString())}</footer>
+</body>
+</html>`;
+  }
+
+  // ==================== CSV GENERATION ====================
+
+  private generateCSV(tripData: TripData, options: ExportOptions): string {
+    const rows: Array<Array<string | number>> = [
+      ['Category', 'Item', 'Date', 'Amount', 'Currency', 'Note'],
+      ...this.getBudgetLines(tripData, options).map(line => [
+        line.category, line.item, line.date, line.amount, line.currency, line.note,
+      ]),
+    ];
+
+    if (tripData.budget) {
+      const budget = tripData.budget;
+      rows.push([]);
+      rows.push(['Planned budget', 'Category', '', 'Amount', 'Currency', '']);
+      Object.entries(budget.breakdown).forEach(([category, amount]) => {
+        rows.push(['Planned budget', this.capitalize(category), '', amount, budget.currency, '']);
+      });
+      rows.push(['Planned budget', 'Total', '', budget.total, budget.currency, '']);
+      rows.push(['Planned budget', 'Per person', '', budget.perPerson, budget.currency, '']);
+    }
+
+    // CRLF and a byte order mark so spreadsheet apps detect UTF-8
+    return '\uFEFF' + rows.map(row => row.map(cell => this.escapeCSV(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private getBudgetLines(tripData: TripData, options: ExportOptions): BudgetLine[] {
+    const lines: BudgetLine[] = [];
+    const dateOf = (value: string) => new Date(value).toISOString().slice(0, 10);
+
+    tripData.transportation.forEach(transport => {
+      if (transport.price) {
+        lines.push({
+          category: 'Transportation',
+          item: `${transport.type}: ${transport.from.name} → ${transport.to.name}`,
+          date: dateOf(transport.departure),
+          amount: transport.price.amount,
+          currency: transport.price.currency,
+          note: [transport.provider, transport.provenance && PROVENANCE_LABELS[transport.provenance]].filter(Boolean).join(' - '),
+        });
+      }
+    });
+
+    if (options.includeAccommodations !== false) {
+      tripData.accommodations.forEach(hotel => {
+        if (hotel.price) {
+          lines.push({
+            category: 'Accommodation',
+            item: hotel.name,
+            date: dateOf(hotel.checkIn),
+            amount: hotel.price.amount,
+            currency: hotel.price.currency,
+            note: [`${hotel.nights} nights`, hotel.provenance && PROVENANCE_LABELS[hotel.provenance]].filter(Boolean).join(' - '),
+          });
+        }
+      });
+    }
+
+    if (options.includeActivities !== false) {
+      tripData.activities.forEach(activity => {
+        if (activity.price) {
+          const people = tripData.participants.adults + tripData.participants.children;
+          lines.push({
+            category: activity.category === 'dining' ? 'Dining' : 'Activities',
+            item: activity.name,
+            date: dateOf(activity.dateTime),
+            amount: activity.price.perPerson ? activity.price.amount * people : activity.price.amount,
+            currency: activity.price.currency,
+            note: activity.price.perPerson ? `${activity.price.amount} per person x ${people}` : '',
+          });
+        }
+      });
+    }
+
+    return lines;
+  }
+
   // ==================== UTILITY FUNCTIONS ====================
 
+  private getExportFileType(tripData: TripData, format: ExportFormat): { filename: string; mimeType: string } {
+    const files: Record<ExportFormat, { suffix: string; mimeType: string }> = {
+      gpx: { suffix: '_route.gpx', mimeType: 'application/gpx+xml' },
+      kml: { suffix: '_map.kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+      pdf: { suffix: '_itinerary.pdf', mimeType: 'application/pdf' },
+      ics: { suffix: '_calendar.ics', mimeType: 'text/calendar' },
+      json: { suffix: '_data.json', mimeType: 'application/json' },
+      docx: { suffix: '_itinerary.docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+      html: { suffix: '_itinerary.html', mimeType: 'text/html; charset=utf-8' },
+      csv: { suffix: '_budget.csv', mimeType: 'text/csv; charset=utf-8' },
+    };
+    const { suffix, mimeType } = files[format];
+    return { filename: `${this.sanitizeFilename(tripData.title)}${suffix}`, mimeType };
+  }
+
+  private getOverviewRows(tripData: TripData): string[][] {
+    return [
+      ['Dates', `${new Date(tripData.dates.startDate).toDateString()} - ${new Date(tripData.dates.endDate).toDateString()}`],
+      ['Duration', `${tripData.dates.duration} days`],
+      ['Participants', `${tripData.participants.adults} adults, ${tripData.participants.children} children`],
+      ['From', tripData.destinations.origin.name],
+      ['To', tripData.destinations.destination.name],
+      ...(tripData.destinations.waypoints?.length
+        ? [['Via', tripData.destinations.waypoints.map(point => point.name).join(', ')]]
+        : []),
+    ];
+  }
+
+  private groupActivitiesByDate(activities: ActivityInfo[]): Record<string, ActivityInfo[]> {
+    return activities.reduce((groups, activity) => {
+      const date = new Date(activity.dateTime).toDateString();
+      if (!groups[date]) {
+        groups[date] = [];
+      }
+      groups[date].push(activity);
+      return groups;
+    }, {} as Record<string, ActivityInfo[]>);
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
   private getAllWaypoints(tripData: TripData, options: ExportOptions): Location[] {
     const waypoints: Location[] = [];
 
@@ -944,8 +1575,8 @@ END:VEVENT
       });
     }
 
-    // Remove duplicates based on coordinates
-    const uniqueWaypoints = waypoints.filter((point, index, array) => 
+    // Remove places without coordinates, then duplicates based on coordinates
+    const uniqueWaypoints = waypoints.filter(point => point.coordinates[0] !== 0 || point.coordinates[1] !== 0).filter((point, index, array) => 
       array.findIndex(p => 
         Math.abs(p.coordinates[0] - point.coordinates[0]) < 0.0001 && 
         Math.abs(p.coordinates[1] - point.coordinates[1]) < 0.0001
@@ -955,6 +1586,10 @@ END:VEVENT
     return uniqueWaypoints;
   }
 
+  private formatPriceSource(provenance?: DataProvenance): string {
+    return provenance ? ` - ${PROVENANCE_LABELS[provenance]}` : '';
+  }
+
   private sanitizeFilename(filename: string): string {
     return filename.replace(/[^a-z0-9]/gi, '_').toLowerCase();
   }
@@ -968,13 +1603,17 @@ END:VEVENT
       .replace(/'/g, '&#39;');
   }
 
-  private escapeICS(text: string): string {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/;/g, '\\;')
-      .replace(/,/g, '\\,')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '');
+  // Quote fields that need it; a leading formula character is neutralised so
+  // spreadsheets do not evaluate names as formulas
+  private escapeCSV(value: string | number | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(Math.round(value * 100) / 100);
+    }
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
   }
 
   /**
@@ -19,12 +19,36 @@
  */
 
 import { z } from 'zod';
-import { createFlightSearchService, type FlightSearchQuery } from './flight-search';
-import { createHotelSearchService, type HotelSearchQuery } from './hotel-search';
+import { CacheTags, defineCacheNamespace } from '@/lib/cache/namespaces';
+import { createFlightSearchService, type FareCalendar, type FareCalendarCell, type FlexibleDateRange, type FlightSearchQuery } from './flight-search';
+import { createHotelSearchService, type HotelSearchQuery, type HotelStayRate } from './hotel-search';
 import { createTransportSearchService, type TransportSearchQuery } from './transport-search';
 import { createCarRentalSearchService, type CarRentalSearchQuery } from './car-rental-search';
+import { isSandboxMode, withCacheProvenance } from './sandbox';
 import { createTravelNormalizationService, type UnifiedSearchResponse, type UnifiedTravelOffer, type Currency, type ServiceType } from './travel-normalization';
 import { createPriceComparisonEngine, type PriceComparison, type CrossServiceComparison } from './price-comparison-engine';
+import { flightSeriesKey, hotelSeriesKey } from './price-history-store';
+import { currencyConverter, type CurrencyCode } from '@/lib/currency/currency-converter';
+import {
+  BALANCED_WEIGHTS,
+  CHEAPEST_WEIGHTS,
+  DEFAULT_MIN_CONNECTION_MINUTES,
+  FASTEST_WEIGHTS,
+  MAX_LEGS,
+  MIN_LEGS,
+  FEWEST_TRANSFERS_WEIGHTS,
+  chooseLegCombination,
+  deriveCityStays,
+  isOpenJaw,
+  legsConnect,
+  shortlistLegOptions,
+  type CombinationWeights,
+  type JourneyLeg,
+  type LegMode,
+  type LegOption,
+  type LegSearchResult,
+  type MultiCitySearchResult
+} from './multi-city-itinerary';
 import { createDealIdentificationEngine, type Deal, type DealAnalysisResult, analyzePriceComparisonsForDeals } from './deal-identification';
 
 // ==================== UNIFIED SEARCH INTERFACE ====================
@@ -36,11 +60,13 @@ export interface UnifiedTravelSearchQuery {
   journey: {
     from: {
       name: string;
+      code?: string; // IATA code for flight searches; the name is used when missing
       coordinates?: [number, number];
       type?: 'city' | 'airport' | 'station' | 'address';
     };
     to: {
       name: string;
+      code?: string;
       coordinates?: [number, number];
       type?: 'city' | 'airport' | 'station' | 'address';
     };
@@ -48,6 +74,9 @@ export interface UnifiedTravelSearchQuery {
     returnDate?: string; // YYYY-MM-DD
     departureTime?: string; // HH:MM
     returnTime?: string; // HH:MM
+    // Multi-city or open-jaw journey; from/to above describe the first leg
+    legs?: JourneyLeg[];
+    minConnectionMinutes?: number; // Between legs that connect (default 90)
   };
 
   // Passenger Information
@@ -94,7 +123,9 @@ export interface UnifiedTravelSearchQuery {
     cabinClass?: 'economy' | 'premium_economy' | 'business' | 'first';
     airlines?: string[];
     maxStops?: number;
-    flexibleDates?: boolean;
+    flexibleDates?: boolean; // Adds a fare calendar to the response
+    flexibleDays?: number; // +/- days around the journey dates (default 3)
+    flexibleMonth?: string; // YYYY-MM: search every departure in the month instead
   };
 
   hotelOptions?: {
@@ -120,6 +151,17 @@ export interface UnifiedTravelSearchQuery {
   };
 }
 
+export interface CombinedFareCalendarCell extends FareCalendarCell {
+  hotel: HotelStayRate | null;
+  combinedTotal: number | null; // Flight plus hotel stay; null when either is missing or currencies differ
+}
+
+export interface CombinedFareCalendar extends Omit<FareCalendar, 'cells' | 'cheapest'> {
+  cells: CombinedFareCalendarCell[];
+  cheapest: CombinedFareCalendarCell | null; // Lowest combined total
+  includesHotels: boolean;
+}
+
 export interface UnifiedTravelSearchResponse {
   searchId: string;
   query: UnifiedTravelSearchQuery;
@@ -167,6 +209,8 @@ export interface UnifiedTravelSearchResponse {
       reasoning: string;
     };
   };
+  fareCalendar?: CombinedFareCalendar;
+  multiCity?: MultiCitySearchResult;
   priceAnalysis?: {
     comparisons: PriceComparison[];
     deals: Deal[];
@@ -199,15 +243,26 @@ export interface UnifiedTravelSearchResponse {
       hitRate: number;
       freshness: number; // Percentage of data that's fresh
     };
+    sandbox: boolean;
   };
 }
 
 // ==================== ORCHESTRATION SERVICE ====================
 
+// Tagged with the route and destination so flight or hotel invalidations
+// also drop the combined results built from them
+const unifiedSearchCache = defineCacheNamespace<UnifiedTravelSearchQuery, UnifiedTravelSearchResponse>({
+  name: 'unified-search',
+  ttl: 15 * 60,
+  staleTtl: 5 * 60,
+  tags: query => [
+    CacheTags.flightRoute(query.journey.from.name, query.journey.to.name),
+    CacheTags.hotelLocation(query.journey.to.name)
+  ]
+});
+
 export class UnifiedTravelOrchestrator {
   private readonly normalizationService = createTravelNormalizationService();
-  private readonly cache = new Map<string, { data: UnifiedTravelSearchResponse; expires: number }>();
-  private readonly cacheTimeout = 15 * 60 * 1000; // 15 minutes
 
   constructor(
     private readonly services: {
@@ -219,89 +274,113 @@ export class UnifiedTravelOrchestrator {
   ) {}
 
   async searchAll(query: UnifiedTravelSearchQuery): Promise<UnifiedTravelSearchResponse> {
-    const searchId = this.generateSearchId();
-    const startTime = Date.now();
-    
-    // Check cache first
-    const cacheKey = this.getCacheKey(query);
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() < cached.expires) {
-      return {
-        ...cached.data,
-        meta: {
-          ...cached.data.meta,
-          cacheInfo: {
-            ...cached.data.meta.cacheInfo,
-            hitRate: 100
-          }
-        }
-      };
-    }
-
     try {
-      // Determine which services to query
-      const servicesToQuery = this.determineServicesToQuery(query.services.types);
-      
-      // Create service-specific queries
-      const serviceQueries = this.createServiceQueries(query);
-      
-      // Execute searches in parallel with error handling
-      const searchPromises = this.createSearchPromises(serviceQueries, servicesToQuery);
-      const searchResults = await Promise.allSettled(searchPromises);
-      
-      // Process and normalize results
-      const normalizedResults = await this.processSearchResults(searchResults, servicesToQuery);
-      
-      // Create price comparisons for all services
-      const priceComparisons = await this.generatePriceComparisons(normalizedResults, query.preferences.currency);
-      
-      // Analyze deals and generate alerts
-      const dealAnalysis = await analyzePriceComparisonsForDeals(priceComparisons);
-      
-      // Generate intelligent recommendations (enhanced with price data)
-      const recommendations = this.generateRecommendations(normalizedResults, query, priceComparisons, dealAnalysis);
-      
-      // Calculate quality metrics
-      const qualityMetrics = this.calculateQualityMetrics(normalizedResults);
-      
-      // Compile final response
-      const response: UnifiedTravelSearchResponse = {
-        searchId,
-        query,
-        results: normalizedResults,
-        recommendations,
-        priceAnalysis: {
-          comparisons: priceComparisons,
-          deals: dealAnalysis.deals,
-          insights: dealAnalysis.insights
-        },
+      // Sandbox catalogs are deterministic and never shared through the cache
+      if (isSandboxMode()) {
+        return this.runSearch(query);
+      }
+
+      const { value, status } = await unifiedSearchCache.fetch(query, () => this.runSearch(query));
+      if (status === 'miss') {
+        return value;
+      }
+
+      const results: UnifiedTravelSearchResponse['results'] = {};
+      for (const [service, result] of Object.entries(value.results) as [keyof typeof results, UnifiedSearchResponse | undefined][]) {
+        results[service] = result?.offers ? { ...result, offers: withCacheProvenance(result.offers, status) } : result;
+      }
+
+      return {
+        ...value,
+        results,
         meta: {
-          searchTime: Date.now() - startTime,
-          servicesQueried: servicesToQuery,
-          servicesResponded: this.getRespondedServices(normalizedResults),
-          totalOffers: this.countTotalOffers(normalizedResults),
-          qualityMetrics,
-          errors: this.extractErrors(searchResults),
-          warnings: this.generateWarnings(normalizedResults, query),
+          ...value.meta,
           cacheInfo: {
-            hitRate: 0,
-            freshness: 100
+            hitRate: 100,
+            freshness: status === 'stale' ? 0 : value.meta.cacheInfo.freshness
           }
         }
       };
-      
-      // Cache the response
-      this.cache.set(cacheKey, {
-        data: response,
-        expires: Date.now() + this.cacheTimeout
-      });
-      
-      return response;
     } catch (error) {
       throw new Error(`Unified travel search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private async runSearch(query: UnifiedTravelSearchQuery): Promise<UnifiedTravelSearchResponse> {
+    const searchId = this.generateSearchId();
+    const startTime = Date.now();
+
+    // Determine which services to query
+    const servicesToQuery = this.determineServicesToQuery(query.services.types);
+    
+    // Create service-specific queries
+    const serviceQueries = this.createServiceQueries(query);
+    
+    // Execute searches in parallel with error handling
+    const searchPromises = this.createSearchPromises(serviceQueries, servicesToQuery);
+    const fareCalendarPromise = query.flightOptions?.flexibleDates && servicesToQuery.includes('flight')
+      ? this.searchFareCalendar(query).catch(error => {
+          console.warn('Fare calendar search failed:', error);
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+    const multiCityPromise = query.journey.legs?.length
+      ? this.searchMultiCity(query).catch(error => {
+          console.warn('Multi-city search failed:', error);
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+    const [searchResults, fareCalendar, multiCity] = await Promise.all([
+      Promise.allSettled(searchPromises),
+      fareCalendarPromise,
+      multiCityPromise
+    ]);
+    
+    // Process and normalize results
+    const normalizedResults = await this.processSearchResults(searchResults, servicesToQuery);
+    
+    // Create price comparisons for all services
+    const priceComparisons = await this.generatePriceComparisons(normalizedResults, query.preferences.currency, serviceQueries);
+    
+    // Analyze deals and generate alerts
+    const dealAnalysis = await analyzePriceComparisonsForDeals(priceComparisons);
+    
+    // Generate intelligent recommendations (enhanced with price data)
+    const recommendations = this.generateRecommendations(normalizedResults, query, priceComparisons, dealAnalysis);
+    
+    // Calculate quality metrics
+    const qualityMetrics = this.calculateQualityMetrics(normalizedResults);
+    
+    // Compile final response
+    return {
+      searchId,
+      query,
+      results: normalizedResults,
+      recommendations,
+      fareCalendar,
+      multiCity,
+      priceAnalysis: {
+        comparisons: priceComparisons,
+        deals: dealAnalysis.deals,
+        insights: dealAnalysis.insights
+      },
+      meta: {
+        searchTime: Date.now() - startTime,
+        servicesQueried: servicesToQuery,
+        servicesResponded: this.getRespondedServices(normalizedResults),
+        totalOffers: this.countTotalOffers(normalizedResults),
+        qualityMetrics,
+        errors: this.extractErrors(searchResults),
+        warnings: this.generateWarnings(normalizedResults, query),
+        cacheInfo: {
+          hitRate: 0,
+          freshness: 100
+        },
+        sandbox: isSandboxMode()
+      }
+    };
+  }
+
   async searchFlights(query: UnifiedTravelSearchQuery): Promise<UnifiedSearchResponse> {
     const flightQuery = this.createFlightQuery(query);
     const results = await this.services.flight.searchFlights(flightQuery);
@@ -314,6 +393,120 @@ export class UnifiedTravelOrchestrator {
     return this.normalizationService.normalizeHotelResponse(results, 'unified', query.preferences.currency);
   }
 
+  /**
+   * Cheapest fare for each departure/return pair around the journey dates,
+   * combined with the cheapest hotel stay of matching length when hotels are
+   * among the requested services
+   */
+  async searchFareCalendar(query: UnifiedTravelSearchQuery): Promise<CombinedFareCalendar> {
+    const flightCalendar = await this.services.flight.searchFareCalendar(
+      this.createFlightQuery(query),
+      this.createFlexibleDateRange(query)
+    );
+    const includesHotels = !!query.journey.returnDate &&
+      (query.services.types.includes('all') || query.services.types.includes('hotel'));
+
+    // Stays are searched a few at a time, like the flight date pairs
+    const stays = new Map<string, HotelStayRate | null>();
+    if (includesHotels) {
+      const hotelQuery = this.createHotelQuery(query);
+      const priced = flightCalendar.cells.filter(cell => cell.price && cell.returnDate);
+      for (let i = 0; i < priced.length; i += 4) {
+        await Promise.all(priced.slice(i, i + 4).map(async cell => {
+          const stay = await this.services.hotel.findCheapestStay({
+            ...hotelQuery,
+            checkIn: this.toDateTime(cell.departureDate),
+            checkOut: this.toDateTime(cell.returnDate!)
+          });
+          stays.set(`${cell.departureDate}|${cell.returnDate}`, stay);
+        }));
+      }
+    }
+
+    const cells: CombinedFareCalendarCell[] = flightCalendar.cells.map(cell => {
+      const hotel = stays.get(`${cell.departureDate}|${cell.returnDate}`) || null;
+      let combinedTotal: number | null = cell.price?.total ?? null;
+      if (includesHotels && combinedTotal !== null) {
+        combinedTotal = hotel && hotel.currency === cell.price!.currency
+          ? Math.round((combinedTotal + hotel.total) * 100) / 100
+          : null;
+      }
+      return { ...cell, hotel, combinedTotal };
+    });
+
+    return {
+      ...flightCalendar,
+      cells,
+      cheapest: cells.reduce<CombinedFareCalendarCell | null>(
+        (best, cell) => cell.combinedTotal !== null && (!best || cell.combinedTotal < best.combinedTotal!) ? cell : best,
+        null
+      ),
+      includesHotels
+    };
+  }
+
+  /**
+   * Search every leg of a multi-city or open-jaw journey by each requested
+   * mode, then pick the combination with the best total price, travel time
+   * and transfers that leaves enough time to connect between legs. Hotel
+   * nights per city follow from the chosen legs, and are priced when hotels
+   * are among the requested services.
+   */
+  async searchMultiCity(query: UnifiedTravelSearchQuery): Promise<MultiCitySearchResult> {
+    const legs = query.journey.legs || [];
+    const currency = query.preferences.currency;
+    const minConnectionMinutes = query.journey.minConnectionMinutes ?? DEFAULT_MIN_CONNECTION_MINUTES;
+    const modes = this.determineLegModes(query);
+    const warnings: string[] = [];
+
+    const found = await Promise.all(legs.map((leg, index) => this.searchLeg(query, leg, index, modes)));
+    const legOptions = shortlistLegOptions(legs, found.map(result => result.options), minConnectionMinutes);
+    const legResults = found.map((result, index) => ({ ...result, options: legOptions[index] }));
+
+    const best = chooseLegCombination(legs, legOptions, this.combinationWeights(query), minConnectionMinutes, currency);
+    const combination = (weights: CombinationWeights) =>
+      chooseLegCombination(legs, legOptions, weights, minConnectionMinutes, currency) || undefined;
+
+    legResults
+      .filter(result => result.options.length === 0)
+      .forEach(result => warnings.push(`No ${modes.join(', ')} options found for ${result.leg.from.name} to ${result.leg.to.name} on ${result.leg.departureDate}`));
+    if (!best && legOptions.every(options => options.length > 0)) {
+      warnings.push(`No combination leaves at least ${minConnectionMinutes} minutes between connecting legs`);
+    }
+    legs.forEach((leg, index) => {
+      if (index + 1 < legs.length && !legsConnect(legs, index)) {
+        warnings.push(`Travel from ${leg.to.name} to ${legs[index + 1].from.name} is not part of this journey`);
+      }
+    });
+
+    const stays = deriveCityStays(legs, best);
+    if (stays.length > 0 && (query.services.types.includes('all') || query.services.types.includes('hotel'))) {
+      const hotelQuery = this.createHotelQuery(query);
+      await Promise.all(stays.map(async stay => {
+        const city = legs.find(leg => leg.to.name === stay.city)!.to;
+        stay.rate = await this.services.hotel.findCheapestStay({
+          ...hotelQuery,
+          location: { type: 'city', value: city.name, coordinates: city.coordinates },
+          checkIn: this.toDateTime(stay.checkIn),
+          checkOut: this.toDateTime(stay.checkOut)
+        });
+      }));
+    }
+
+    return {
+      openJaw: isOpenJaw(legs),
+      legs: legResults,
+      best,
+      alternatives: {
+        cheapest: combination(CHEAPEST_WEIGHTS),
+        fastest: combination(FASTEST_WEIGHTS),
+        fewestTransfers: combination(FEWEST_TRANSFERS_WEIGHTS)
+      },
+      stays,
+      warnings
+    };
+  }
+
   async searchTransport(query: UnifiedTravelSearchQuery): Promise<UnifiedSearchResponse> {
     const transportQuery = this.createTransportQuery(query);
     const results = await this.services.transport.searchTransport(transportQuery);
@@ -350,17 +543,17 @@ export class UnifiedTravelOrchestrator {
   private createFlightQuery(query: UnifiedTravelSearchQuery): FlightSearchQuery {
     return {
       from: {
-        code: query.journey.from.name,
+        code: query.journey.from.code || query.journey.from.name,
         name: query.journey.from.name,
         coordinates: query.journey.from.coordinates || [0, 0]
       },
       to: {
-        code: query.journey.to.name,
+        code: query.journey.to.code || query.journey.to.name,
         name: query.journey.to.name,
         coordinates: query.journey.to.coordinates || [0, 0]
       },
-      departureDate: query.journey.departureDate,
-      returnDate: query.journey.returnDate,
+      departureDate: this.toDateTime(query.journey.departureDate),
+      returnDate: query.journey.returnDate ? this.toDateTime(query.journey.returnDate) : undefined,
       passengers: {
         adults: query.passengers.adults,
         children: query.passengers.children || 0,
@@ -381,8 +574,8 @@ export class UnifiedTravelOrchestrator {
         value: query.journey.to.name,
         coordinates: query.journey.to.coordinates
       },
-      checkIn: query.journey.departureDate,
-      checkOut: query.journey.returnDate || this.addDays(query.journey.departureDate, 1),
+      checkIn: this.toDateTime(query.journey.departureDate),
+      checkOut: this.toDateTime(query.journey.returnDate || this.addDays(query.journey.departureDate, 1)),
       rooms: [{
         adults: query.passengers.adults,
         children: query.passengers.children || 0,
@@ -400,6 +593,191 @@ export class UnifiedTravelOrchestrator {
     };
   }
 
+  private determineLegModes(query: UnifiedTravelSearchQuery): LegMode[] {
+    const types = query.services.types.includes('all')
+      ? ['flight', 'transport', 'car_rental']
+      : query.services.types;
+    const groundModes = (query.transportOptions?.modes?.length ? query.transportOptions.modes : ['train', 'bus'])
+      .filter((mode): mode is 'train' | 'bus' => mode === 'train' || mode === 'bus');
+
+    const modes: LegMode[] = [];
+    if (types.includes('flight')) modes.push('flight');
+    if (types.includes('transport')) modes.push(...groundModes);
+    if (types.includes('car_rental')) modes.push('car');
+    return modes;
+  }
+
+  // The first priority decides how price, time and transfers are traded off
+  private combinationWeights(query: UnifiedTravelSearchQuery): CombinationWeights {
+    switch (query.services.priorities?.[0]) {
+      case 'price':
+        return { price: 0.7, duration: 0.2, transfers: 0.1 };
+      case 'speed':
+        return { price: 0.25, duration: 0.6, transfers: 0.15 };
+      case 'convenience':
+      case 'comfort':
+        return { price: 0.35, duration: 0.3, transfers: 0.35 };
+      default:
+        return BALANCED_WEIGHTS;
+    }
+  }
+
+  private async searchLeg(query: UnifiedTravelSearchQuery, leg: JourneyLeg, index: number, modes: LegMode[]): Promise<LegSearchResult> {
+    const legQuery: UnifiedTravelSearchQuery = {
+      ...query,
+      journey: {
+        from: leg.from,
+        to: leg.to,
+        departureDate: leg.departureDate,
+        departureTime: leg.departureTime
+      }
+    };
+    const earliest = Date.parse(`${leg.departureDate}T${leg.departureTime || '00:00'}:00.000Z`);
+    const errors: LegSearchResult['errors'] = [];
+    const options: LegOption[] = [];
+
+    const searches: Array<{ modes: LegMode[]; run: () => Promise<LegOption[]> }> = [];
+    if (modes.includes('flight')) {
+      searches.push({ modes: ['flight'], run: () => this.searchLegFlights(legQuery) });
+    }
+    const groundModes = modes.filter((mode): mode is 'train' | 'bus' => mode === 'train' || mode === 'bus');
+    if (groundModes.length > 0) {
+      searches.push({ modes: groundModes, run: () => this.searchLegTransport(legQuery, groundModes) });
+    }
+    if (modes.includes('car')) {
+      searches.push({ modes: ['car'], run: () => this.searchLegCarRental(legQuery) });
+    }
+
+    const results = await Promise.allSettled(searches.map(search => search.run()));
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        options.push(...result.value.filter(option => Date.parse(option.departure) >= earliest));
+      } else {
+        const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        searches[i].modes.forEach(mode => errors.push({ mode, error }));
+      }
+    });
+
+    const converted = await Promise.all(options.map(option => this.convertLegPrice(option, query.preferences.currency)));
+    return { index, leg, options: converted, errors };
+  }
+
+  private async searchLegFlights(query: UnifiedTravelSearchQuery): Promise<LegOption[]> {
+    const results = await this.services.flight.searchFlights(this.createFlightQuery(query));
+    return results.offers.map(offer => ({
+      mode: 'flight' as const,
+      offerId: offer.id,
+      provider: offer.airlines[0]?.name || offer.provider,
+      provenance: offer.provenance,
+      departure: offer.segments[0].departure.time,
+      arrival: offer.segments[offer.segments.length - 1].arrival.time,
+      duration: offer.duration.total,
+      transfers: offer.stops,
+      price: { amount: offer.price.total, currency: offer.price.currency }
+    }));
+  }
+
+  private async searchLegTransport(query: UnifiedTravelSearchQuery, modes: Array<'train' | 'bus'>): Promise<LegOption[]> {
+    const response = await this.services.transport.searchTransport({
+      ...this.createTransportQuery(query),
+      preferences: {
+        modes,
+        maxTransfers: query.transportOptions?.maxTransfers,
+        priceRange: { currency: query.preferences.currency }
+      }
+    });
+
+    // Flights are searched separately, so journeys that include one are skipped
+    return response.journeys.flatMap(journey => {
+      const rides = journey.segments.filter(segment => segment.mode !== 'walk');
+      const longest = rides.reduce((a, b) => b.duration > a.duration ? b : a, rides[0]);
+      if (!journey.totalPrice || !longest || rides.some(segment => segment.mode === 'flight') ||
+          !modes.includes(longest.mode as 'train' | 'bus')) {
+        return [];
+      }
+      return [{
+        mode: longest.mode as 'train' | 'bus',
+        offerId: journey.id,
+        provider: longest.provider,
+        provenance: journey.provenance,
+        departure: journey.segments[0].departure.scheduled,
+        arrival: journey.segments[journey.segments.length - 1].arrival.scheduled,
+        duration: journey.totalDuration,
+        transfers: journey.transfers,
+        price: { amount: journey.totalPrice.amount, currency: journey.totalPrice.currency }
+      }];
+    });
+  }
+
+  // A one-way rental, picked up at the earliest departure and driven straight through
+  private async searchLegCarRental(query: UnifiedTravelSearchQuery): Promise<LegOption[]> {
+    const { from, to } = query.journey;
+    if (!from.coordinates || !to.coordinates) {
+      throw new Error('Coordinates are needed to estimate the drive');
+    }
+
+    const pickup = `${query.journey.departureDate}T${query.journey.departureTime || '09:00'}:00.000Z`;
+    const response = await this.services.carRental.searchCarRentals({
+      ...this.createCarRentalQuery(query),
+      pickupLocation: { name: from.name, coordinates: from.coordinates, type: 'city_center' },
+      pickupDateTime: pickup,
+      dropoffDateTime: new Date(Date.parse(pickup) + 24 * 60 * 60 * 1000).toISOString(),
+      dropoffLocation: { name: to.name, coordinates: to.coordinates, type: 'city_center' },
+      options: { includeInsurance: false, includeRideSharing: false, includePeerToPeer: false, oneWayRental: true },
+      preferences: {
+        ...this.createCarRentalQuery(query).preferences,
+        priceRange: { currency: query.preferences.currency }
+      }
+    });
+
+    const duration = this.estimateDrivingMinutes(from.coordinates, to.coordinates);
+    return response.carRentals
+      .filter(rental => rental.availability.available)
+      .map(rental => ({
+        mode: 'car' as const,
+        offerId: rental.id,
+        provider: rental.provider,
+        provenance: rental.provenance,
+        departure: pickup,
+        arrival: new Date(Date.parse(pickup) + duration * 60 * 1000).toISOString(),
+        duration,
+        transfers: 0,
+        price: { amount: rental.pricing.totalPrice, currency: rental.pricing.currency }
+      }));
+  }
+
+  // Road distance taken as 1.3 times the great-circle distance, at 70 km/h
+  private estimateDrivingMinutes(from: [number, number], to: [number, number]): number {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(to[1] - from[1]);
+    const dLng = toRad(to[0] - from[0]);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from[1])) * Math.cos(toRad(to[1])) * Math.sin(dLng / 2) ** 2;
+    const km = 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * 1.3;
+    return Math.round(km / 70 * 60);
+  }
+
+  private async convertLegPrice(option: LegOption, currency: Currency): Promise<LegOption> {
+    if (option.price.currency === currency) {
+      return option;
+    }
+    const { convertedAmount } = await currencyConverter.convert(
+      option.price.amount,
+      option.price.currency as CurrencyCode,
+      currency as CurrencyCode
+    );
+    return { ...option, price: { amount: Math.round(convertedAmount * 100) / 100, currency } };
+  }
+
+  private createFlexibleDateRange(query: UnifiedTravelSearchQuery): FlexibleDateRange | undefined {
+    if (query.flightOptions?.flexibleMonth) {
+      return { type: 'month', month: query.flightOptions.flexibleMonth };
+    }
+    if (query.flightOptions?.flexibleDays !== undefined) {
+      return { type: 'window', days: query.flightOptions.flexibleDays };
+    }
+    return undefined;
+  }
+
   private createTransportQuery(query: UnifiedTravelSearchQuery): TransportSearchQuery {
     return {
       from: query.journey.from,
@@ -664,7 +1042,8 @@ export class UnifiedTravelOrchestrator {
 
   private async generatePriceComparisons(
     results: UnifiedTravelSearchResponse['results'],
-    currency: Currency
+    currency: Currency,
+    serviceQueries: ReturnType<UnifiedTravelOrchestrator['createServiceQueries']>
   ): Promise<PriceComparison[]> {
     const priceEngine = createPriceComparisonEngine();
     const comparisons: PriceComparison[] = [];
@@ -676,6 +1055,8 @@ export class UnifiedTravelOrchestrator {
           results.flights.offers as any[],
           currency
         );
+        const { from, to, cabinClass } = serviceQueries.flight;
+        flightComparison.history = { series: flightSeriesKey(from.code, to.code, cabinClass) };
         comparisons.push(flightComparison);
       }
 
@@ -685,6 +1066,11 @@ export class UnifiedTravelOrchestrator {
           results.hotels.offers as any[],
           currency
         );
+        const { location, checkIn, checkOut } = serviceQueries.hotel;
+        hotelComparison.history = {
+          series: hotelSeriesKey(location.value),
+          nights: Math.max(1, Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / (24 * 60 * 60 * 1000)))
+        };
         comparisons.push(hotelComparison);
       }
 
@@ -792,35 +1178,42 @@ export class UnifiedTravelOrchestrator {
     return `unified_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private getCacheKey(query: UnifiedTravelSearchQuery): string {
-    return `unified_${JSON.stringify(query)}`.replace(/\s/g, '');
-  }
-
   private addDays(dateString: string, days: number): string {
     const date = new Date(dateString);
     date.setDate(date.getDate() + days);
     return date.toISOString().split('T')[0];
   }
+
+  // Flight and hotel queries take ISO datetimes; journey dates are YYYY-MM-DD
+  private toDateTime(date: string): string {
+    return `${date}T00:00:00.000Z`;
+  }
 }
 
 // ==================== VALIDATION SCHEMA ====================
 
+const JourneyPlaceSchema = z.object({
+  name: z.string().min(2).max(100),
+  code: z.string().regex(/^[A-Z]{3}$/).optional(),
+  coordinates: z.tuple([z.number(), z.number()]).optional(),
+  type: z.enum(['city', 'airport', 'station', 'address']).optional()
+});
+
 export const UnifiedTravelSearchQuerySchema = z.object({
   journey: z.object({
-    from: z.object({
-      name: z.string().min(2).max(100),
-      coordinates: z.tuple([z.number(), z.number()]).optional(),
-      type: z.enum(['city', 'airport', 'station', 'address']).optional()
-    }),
-    to: z.object({
-      name: z.string().min(2).max(100),
-      coordinates: z.tuple([z.number(), z.number()]).optional(),
-      type: z.enum(['city', 'airport', 'station', 'address']).optional()
-    }),
+    from: JourneyPlaceSchema,
+    to: JourneyPlaceSchema,
     departureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
     returnDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
     departureTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-    returnTime: z.string().regex(/^\d{2}:\d{2}$/).optional()
+    returnTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    legs: z.array(z.object({
+      from: JourneyPlaceSchema,
+      to: JourneyPlaceSchema,
+      departureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      departureTime: z.string().regex(/^\d{2}:\d{2}$/).optional()
+    })).min(MIN_LEGS).max(MAX_LEGS).optional(),
+    minConnectionMinutes: z.number().int().min(30).max(24 * 60).optional()
   }),
   passengers: z.object({
     adults: z.number().int().min(1).max(9),
@@ -844,7 +1237,15 @@ export const UnifiedTravelSearchQuerySchema = z.object({
       preferredProviders: z.array(z.string()).optional(),
       excludeProviders: z.array(z.string()).optional()
     }).optional()
-  })
+  }),
+  flightOptions: z.object({
+    cabinClass: z.enum(['economy', 'premium_economy', 'business', 'first']).optional(),
+    airlines: z.array(z.string()).optional(),
+    maxStops: z.number().int().min(0).max(3).optional(),
+    flexibleDates: z.boolean().optional(),
+    flexibleDays: z.number().int().min(0).max(3).optional(),
+    flexibleMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional()
+  }).optional()
 });
 
 // ==================== FACTORY FUNCTION ====================
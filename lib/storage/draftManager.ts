@@ -5,6 +5,18 @@
 
 import React from 'react';
 import { LocationData } from '@/lib/data/locations';
+import {
+  DRAFT_STEPS,
+  flushDraftOutbox,
+  getDeviceId,
+  mergeDrafts,
+  queueDraft,
+  removeQueuedDraft,
+  saveDraftToServer,
+  type DraftMergeChoice,
+  type DraftPayload,
+  type ServerDraft,
+} from './draftSync';
 
 // Draft trip interface
 export interface DraftTrip {
@@ -22,7 +34,16 @@ export interface DraftTrip {
     currency?: string;
     currentStep?: number;
     completedSteps?: string[];
+    transport?: {
+      mode?: string;
+      selection?: any;
+    };
+    rental?: any;
+    accommodation?: any;
+    activities?: any;
+    dining?: any;
   };
+  stepData?: Record<string, any> | null; // Selections made in each step, keyed as the wizard saves them
   metadata: {
     createdAt: Date;
     updatedAt: Date;
@@ -31,6 +52,8 @@ export interface DraftTrip {
     version: number;
     deviceId?: string;
     browserSession?: string;
+    serverRevision?: number; // Last server revision this draft was synced to
+    syncedAt?: Date;
   };
   status: 'draft' | 'active' | 'completed' | 'abandoned';
   progress: {
@@ -64,7 +87,8 @@ class DraftManager {
   private localStorageKey = 'tripthesia_drafts';
   private autoSaveTimers: Map<string, NodeJS.Timeout> = new Map();
   private isOnline = typeof navigator !== 'undefined' ? navigator.onLine : true;
-  private syncQueue: DraftTrip[] = [];
+  private conflicts: Map<string, { local: DraftPayload; server: ServerDraft }> = new Map();
+  private conflictListeners: Set<(draftId: string) => void> = new Set();
 
   constructor(config: Partial<AutoSaveConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -92,14 +116,7 @@ class DraftManager {
 
   // Get device fingerprint for conflict resolution
   private getDeviceId(): string {
-    if (typeof window === 'undefined') return 'server';
-    
-    const stored = localStorage.getItem('tripthesia_device_id');
-    if (stored) return stored;
-    
-    const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('tripthesia_device_id', deviceId);
-    return deviceId;
+    return getDeviceId();
   }
 
   // Create a new draft
@@ -169,7 +186,11 @@ class DraftManager {
   }
 
   // Update existing draft
-  updateDraft(draftId: string, formData: Partial<DraftTrip['formData']>): DraftTrip | null {
+  updateDraft(
+    draftId: string,
+    formData: Partial<DraftTrip['formData']>,
+    stepData?: Record<string, any>
+  ): DraftTrip | null {
     const drafts = this.getAllDraftsLocal();
     const existingDraft = drafts.find(d => d.id === draftId);
     
@@ -178,6 +199,7 @@ class DraftManager {
     const updatedDraft: DraftTrip = {
       ...existingDraft,
       formData: { ...existingDraft.formData, ...formData },
+      stepData: stepData ? { ...existingDraft.stepData, ...stepData } : existingDraft.stepData,
       metadata: {
         ...existingDraft.metadata,
         updatedAt: new Date(),
@@ -230,7 +252,8 @@ class DraftManager {
           ...draft.metadata,
           createdAt: new Date(draft.metadata.createdAt),
           updatedAt: new Date(draft.metadata.updatedAt),
-          lastAccessedAt: new Date(draft.metadata.lastAccessedAt)
+          lastAccessedAt: new Date(draft.metadata.lastAccessedAt),
+          syncedAt: draft.metadata.syncedAt ? new Date(draft.metadata.syncedAt) : undefined
         }
       }));
     } catch (error) {
@@ -287,6 +310,13 @@ class DraftManager {
         clearInterval(timer);
         this.autoSaveTimers.delete(draftId);
       }
+      const cloudTimer = this.autoSaveTimers.get(`cloud_${draftId}`);
+      if (cloudTimer) {
+        clearTimeout(cloudTimer);
+        this.autoSaveTimers.delete(`cloud_${draftId}`);
+      }
+      removeQueuedDraft(draftId);
+      this.conflicts.delete(draftId);
       
       return true;
     } catch (error) {
@@ -296,7 +326,11 @@ class DraftManager {
   }
 
   // Start auto-save for a draft
-  startAutoSave(draftId: string, formDataGetter: () => DraftTrip['formData']): void {
+  startAutoSave(
+    draftId: string,
+    formDataGetter: () => DraftTrip['formData'],
+    stepDataGetter?: () => Record<string, any>
+  ): void {
     if (!this.config.enabled) return;
     
     // Clear existing timer
@@ -308,7 +342,7 @@ class DraftManager {
     // Set up new auto-save timer
     const timer = setInterval(() => {
       const formData = formDataGetter();
-      this.updateDraft(draftId, formData);
+      this.updateDraft(draftId, formData, stepDataGetter?.());
     }, this.config.localInterval * 1000);
     
     this.autoSaveTimers.set(draftId, timer);
@@ -330,51 +364,156 @@ class DraftManager {
       return;
     }
     
-    // Implement cloud sync (placeholder)
-    setTimeout(() => {
-      this.syncToCloud(draft);
+    // Debounce: only the latest edit within the interval is sent
+    const timerKey = `cloud_${draft.id}`;
+    const existingTimer = this.autoSaveTimers.get(timerKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+    
+    const timer = setTimeout(() => {
+      this.autoSaveTimers.delete(timerKey);
+      const latest = this.getAllDraftsLocal().find(d => d.id === draft.id);
+      if (latest) {
+        this.syncToCloud(latest);
+      }
     }, this.config.cloudInterval * 1000);
+    
+    this.autoSaveTimers.set(timerKey, timer);
   }
 
-  // Add to sync queue for offline mode
+  // Add to the persistent outbox for offline mode
   private addToSyncQueue(draft: DraftTrip): void {
-    const existingIndex = this.syncQueue.findIndex(d => d.id === draft.id);
-    if (existingIndex >= 0) {
-      this.syncQueue[existingIndex] = draft;
-    } else {
-      this.syncQueue.push(draft);
-    }
+    queueDraft(this.toServerPayload(draft));
   }
 
   // Process sync queue when coming online
-  private processSyncQueue(): void {
-    if (!this.isOnline || this.syncQueue.length === 0) return;
-    
-    const queue = [...this.syncQueue];
-    this.syncQueue = [];
+  private async processSyncQueue(): Promise<void> {
+    if (!this.isOnline) return;
     
-    queue.forEach(draft => {
-      this.syncToCloud(draft);
+    const { saved } = await flushDraftOutbox((local, server) => {
+      this.recordConflict(local.clientId, local, server);
     });
+    saved.forEach(serverDraft => this.markSynced(serverDraft));
+  }
+
+  // Map a local draft to the server's draft shape. The draft ID doubles as
+  // the stable client ID.
+  private toServerPayload(draft: DraftTrip): DraftPayload {
+    const { formData } = draft;
+    return {
+      clientId: draft.id,
+      baseRevision: draft.metadata.serverRevision || 0,
+      deviceId: this.getDeviceId(),
+      currentStep: DRAFT_STEPS[formData.currentStep || 0] || 'destination',
+      completedSteps: formData.completedSteps || [],
+      formData: {
+        from: formData.from ?? null,
+        to: formData.to ?? null,
+        startDate: formData.startDate || '',
+        endDate: formData.endDate || '',
+        tripType: formData.tripType || '',
+        travelers: formData.travelers ?? 1,
+        budget: formData.budget ?? 0,
+        transport: formData.transport,
+        rental: formData.rental,
+        accommodation: formData.accommodation,
+        activities: formData.activities,
+        dining: formData.dining,
+      },
+      stepData: draft.stepData ?? null,
+      title: draft.title,
+    };
+  }
+
+  private markSynced(serverDraft: ServerDraft): void {
+    const local = this.getAllDraftsLocal().find(d => d.id === serverDraft.clientId);
+    if (!local) return;
+    
+    local.metadata.serverRevision = serverDraft.revision;
+    local.metadata.syncedAt = new Date();
+    this.saveDraftLocal(local);
+    this.conflicts.delete(local.id);
   }
 
-  // Sync draft to cloud (placeholder implementation)
+  private recordConflict(draftId: string, local: DraftPayload, server: ServerDraft): void {
+    this.conflicts.set(draftId, { local, server });
+    this.conflictListeners.forEach(listener => listener(draftId));
+  }
+
+  // Sync draft to cloud with compare-and-swap on the server revision
   private async syncToCloud(draft: DraftTrip): Promise<void> {
     try {
-      // In a real implementation, this would call your API
-      // await fetch('/api/drafts', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(draft)
-      // });
+      const result = await saveDraftToServer(this.toServerPayload(draft));
       
-      console.log('Draft synced to cloud:', draft.id);
+      switch (result.status) {
+        case 'saved':
+          this.markSynced(result.draft);
+          break;
+        case 'conflict':
+          // Keep the local copy untouched until the user merges
+          this.recordConflict(draft.id, this.toServerPayload(draft), result.server);
+          break;
+        case 'error':
+          console.error('Failed to sync draft to cloud:', result.error);
+          break;
+        case 'offline':
+          // Already queued by saveDraftToServer
+          break;
+      }
     } catch (error) {
       console.error('Failed to sync draft to cloud:', error);
       this.addToSyncQueue(draft); // Re-queue for retry
     }
   }
 
+  // Server copy that diverged from a local draft, if any
+  getConflict(draftId: string): { local: DraftPayload; server: ServerDraft } | null {
+    return this.conflicts.get(draftId) || null;
+  }
+
+  onConflict(listener: (draftId: string) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  // Apply per-field merge choices and save the result over the server copy
+  async resolveConflict(draftId: string, choices: Record<string, DraftMergeChoice>): Promise<DraftTrip | null> {
+    const conflict = this.conflicts.get(draftId);
+    const local = this.getAllDraftsLocal().find(d => d.id === draftId);
+    if (!conflict || !local) return null;
+    
+    const merged = mergeDrafts(conflict.local, conflict.server, choices);
+    // Built from the merge alone, so fields taken from a server copy that
+    // lacks them are dropped rather than kept from the local draft
+    const mergedFormData: DraftTrip['formData'] = {
+      currency: local.formData.currency,
+      ...merged.formData,
+      currentStep: Math.max(0, DRAFT_STEPS.indexOf(merged.currentStep)),
+      completedSteps: merged.completedSteps,
+    };
+    const resolved: DraftTrip = {
+      ...local,
+      formData: mergedFormData,
+      stepData: merged.stepData,
+      title: this.generateDraftTitle(mergedFormData),
+      progress: this.calculateProgress(mergedFormData),
+      metadata: {
+        ...local.metadata,
+        updatedAt: new Date(),
+        version: local.metadata.version + 1,
+        serverRevision: conflict.server.revision,
+      },
+    };
+    
+    this.conflicts.delete(draftId);
+    this.saveDraftLocal(resolved);
+    await this.syncToCloud(resolved);
+    return resolved;
+  }
+
   // Clean up old drafts (older than 30 days)
   private cleanupOldDrafts(): void {
     const thirtyDaysAgo = new Date();
@@ -496,8 +635,8 @@ export const useDraftManager = (userId?: string) => {
     return draft;
   };
   
-  const updateDraft = (draftId: string, formData: Partial<DraftTrip['formData']>) => {
-    const updated = draftManager.updateDraft(draftId, formData);
+  const updateDraft = (draftId: string, formData: Partial<DraftTrip['formData']>, stepData?: Record<string, any>) => {
+    const updated = draftManager.updateDraft(draftId, formData, stepData);
     if (updated) {
       setDrafts(prev => prev.map(d => d.id === draftId ? updated : d));
     }
@@ -0,0 +1,305 @@
+/**
+ * Draft Cloud Sync
+ * Compare-and-swap saves against /api/trips/draft, an offline outbox, and
+ * field-level merging when the server copy of a draft has moved on
+ */
+
+export const DRAFT_STEPS = ['destination', 'transport', 'rental', 'accommodation', 'activities', 'dining'] as const;
+export type DraftStep = typeof DRAFT_STEPS[number];
+
+// Draft as stored on the server
+export interface ServerDraft {
+  id: string;
+  clientId: string;
+  revision: number;
+  deviceId: string | null;
+  currentStep: DraftStep;
+  completedSteps: string[];
+  formData: Record<string, any>;
+  stepData: Record<string, any> | null;
+  title: string | null;
+  lastSaved: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a client sends to save a draft. `baseRevision` is the server revision
+// the edits started from; 0 for a draft the server has never seen.
+export interface DraftPayload {
+  clientId: string;
+  baseRevision: number;
+  deviceId?: string;
+  currentStep: DraftStep;
+  completedSteps: string[];
+  formData: Record<string, any>;
+  stepData?: Record<string, any> | null;
+  title?: string;
+}
+
+export type DraftSaveResult =
+  | { status: 'saved'; draft: ServerDraft }
+  | { status: 'conflict'; server: ServerDraft }
+  | { status: 'offline' }
+  | { status: 'error'; error: string };
+
+const DEVICE_ID_KEY = 'tripthesia_device_id';
+const OUTBOX_KEY = 'tripthesia_draft_outbox';
+
+export function generateDraftClientId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `draft_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// Stable per-browser ID, recorded with each save
+export function getDeviceId(): string {
+  if (typeof window === 'undefined') return 'server';
+
+  const stored = localStorage.getItem(DEVICE_ID_KEY);
+  if (stored) return stored;
+
+  const deviceId = `device_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+// Fetch one draft by its client ID
+export async function fetchServerDraft(clientId: string): Promise<ServerDraft | null> {
+  try {
+    const response = await fetch(`/api/trips/draft?clientId=${encodeURIComponent(clientId)}`);
+    if (!response.ok) return null;
+
+    const { draft } = await response.json();
+    return draft || null;
+  } catch (error) {
+    console.error('Failed to fetch draft:', error);
+    return null;
+  }
+}
+
+// Save a draft. The server only applies it if its revision still matches
+// `baseRevision`; otherwise the current server copy comes back as a conflict.
+export async function saveDraftToServer(payload: DraftPayload): Promise<DraftSaveResult> {
+  if (isOffline()) {
+    queueDraft(payload);
+    return { status: 'offline' };
+  }
+
+  try {
+    const response = await fetch('/api/trips/draft', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId: getDeviceId(), ...payload }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (response.status === 409 && result.server) {
+      return { status: 'conflict', server: result.server };
+    }
+    if (!response.ok) {
+      return { status: 'error', error: result.error || `Save failed (${response.status})` };
+    }
+
+    removeQueuedDraft(payload.clientId);
+    return { status: 'saved', draft: result.draft };
+  } catch (error) {
+    // Network failure: keep the edit for when we are back online
+    queueDraft(payload);
+    return { status: 'offline' };
+  }
+}
+
+// ==================== OFFLINE OUTBOX ====================
+
+export function getQueuedDrafts(): DraftPayload[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function getQueuedDraft(clientId: string): DraftPayload | null {
+  return getQueuedDrafts().find(draft => draft.clientId === clientId) || null;
+}
+
+// Only the latest edit per draft is kept
+export function queueDraft(payload: DraftPayload): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const queued = getQueuedDrafts().filter(draft => draft.clientId !== payload.clientId);
+  queued.push(payload);
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(queued));
+}
+
+export function removeQueuedDraft(clientId: string): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const queued = getQueuedDrafts();
+  const remaining = queued.filter(draft => draft.clientId !== clientId);
+  if (remaining.length !== queued.length) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(remaining));
+  }
+}
+
+// Push queued edits. Conflicting drafts stay queued until they are merged.
+export async function flushDraftOutbox(
+  onConflict?: (local: DraftPayload, server: ServerDraft) => void
+): Promise<{ saved: ServerDraft[]; conflicts: number }> {
+  const saved: ServerDraft[] = [];
+  let conflicts = 0;
+
+  for (const payload of getQueuedDrafts()) {
+    const result = await saveDraftToServer(payload);
+    if (result.status === 'saved') {
+      saved.push(result.draft);
+    } else if (result.status === 'conflict') {
+      conflicts++;
+      onConflict?.(payload, result.server);
+    } else if (result.status === 'offline') {
+      break;
+    }
+  }
+
+  return { saved, conflicts };
+}
+
+// ==================== MERGING ====================
+
+export type DraftMergeChoice = 'local' | 'server';
+
+export interface DraftFieldConflict {
+  // formData.<key>, stepData.<key> or currentStep
+  path: string;
+  label: string;
+  local: unknown;
+  server: unknown;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  'currentStep': 'Current step',
+  'formData.from': 'Origin',
+  'formData.to': 'Destination',
+  'formData.startDate': 'Start date',
+  'formData.endDate': 'End date',
+  'formData.tripType': 'Trip type',
+  'formData.travelers': 'Travelers',
+  'formData.budget': 'Budget',
+  'formData.transport': 'Transport',
+  'formData.rental': 'Local rides',
+  'formData.accommodation': 'Accommodation',
+  'formData.activities': 'Activities',
+  'formData.dining': 'Dining',
+  'stepData.selectedTransport': 'Selected transport',
+  'stepData.selectedRentals': 'Selected rentals',
+  'stepData.selectedAccommodations': 'Selected accommodation types',
+  'stepData.selectedHotels': 'Selected hotels',
+  'stepData.accommodationViewMode': 'Accommodation view',
+  'stepData.selectedActivities': 'Selected activities',
+  'stepData.selectedDining': 'Selected dining',
+};
+
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function diffSection(
+  section: 'formData' | 'stepData',
+  local: Record<string, unknown> | null | undefined,
+  server: Record<string, unknown> | null | undefined
+): DraftFieldConflict[] {
+  const keys = new Set([...Object.keys(local || {}), ...Object.keys(server || {})]);
+
+  return Array.from(keys)
+    .filter(key => canonical(local?.[key]) !== canonical(server?.[key]))
+    .map(key => ({
+      path: `${section}.${key}`,
+      label: FIELD_LABELS[`${section}.${key}`] || key,
+      local: local?.[key],
+      server: server?.[key],
+    }));
+}
+
+// Fields that differ between a local draft and the server copy
+export function diffDraftFields(local: DraftPayload, server: ServerDraft): DraftFieldConflict[] {
+  const conflicts = [
+    ...diffSection('formData', local.formData, server.formData),
+    ...diffSection('stepData', local.stepData, server.stepData),
+  ];
+
+  if (local.currentStep !== server.currentStep) {
+    conflicts.unshift({
+      path: 'currentStep',
+      label: FIELD_LABELS.currentStep,
+      local: local.currentStep,
+      server: server.currentStep,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Build the merged draft from per-field choices (local by default). Completed
+ * steps are unioned rather than chosen. The result is based on the server
+ * revision so it can be saved straight away.
+ */
+export function mergeDrafts(
+  local: DraftPayload,
+  server: ServerDraft,
+  choices: Record<string, DraftMergeChoice>
+): DraftPayload {
+  const merged: DraftPayload = {
+    ...local,
+    baseRevision: server.revision,
+    formData: { ...local.formData },
+    stepData: local.stepData ? { ...local.stepData } : {},
+    completedSteps: Array.from(new Set([...server.completedSteps, ...local.completedSteps])),
+  };
+
+  diffDraftFields(local, server).forEach(conflict => {
+    if (choices[conflict.path] !== 'server') return;
+
+    if (conflict.path === 'currentStep') {
+      merged.currentStep = server.currentStep;
+      return;
+    }
+
+    const [section, key] = conflict.path.split('.') as ['formData' | 'stepData', string];
+    const target = section === 'formData' ? merged.formData : merged.stepData!;
+    if (conflict.server === undefined) {
+      delete target[key];
+    } else {
+      target[key] = conflict.server;
+    }
+  });
+
+  return merged;
+}
+
+export function describeDraftValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length === 0 ? 'None' : `${value.length} selected`;
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return String(record.name || record.title || record.mode || 'Selection');
+  }
+  return String(value);
+}
@@ -0,0 +1,87 @@
+// Object Storage
+// Binary files (travel documents) live outside the database, addressed by
+// key. The local store keeps them on disk under OBJECT_STORAGE_DIR; another
+// backend (S3, R2) can implement ObjectStore and be set with
+// setObjectStore without touching callers.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ObjectStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+// Keys are slash-separated paths of safe segments, e.g. trips/<id>/documents/<id>
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/;
+
+function assertKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').some(segment => segment === '..' || segment === '.')) {
+    throw new Error(`Invalid object key: ${key}`);
+  }
+}
+
+export class LocalObjectStore implements ObjectStore {
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string): string {
+    assertKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename, so readers never see a partial file
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.writeFile(`${temporary}.type`, contentType);
+    await fs.rename(`${temporary}.type`, `${file}.type`);
+    await fs.rename(temporary, file);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const file = this.pathFor(key);
+    try {
+      const [data, contentType] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(`${file}.type`, 'utf8').catch(() => 'application/octet-stream'),
+      ]);
+      return { data, contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.pathFor(key);
+    await Promise.all([fs.rm(file, { force: true }), fs.rm(`${file}.type`, { force: true })]);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.pathFor(prefix), { recursive: true, force: true });
+  }
+}
+
+let store: ObjectStore | null = null;
+
+export function getObjectStore(): ObjectStore {
+  if (!store) {
+    store = new LocalObjectStore(path.resolve(process.env.OBJECT_STORAGE_DIR || path.join(process.cwd(), '.data', 'objects')));
+  }
+  return store;
+}
+
+export function setObjectStore(objectStore: ObjectStore): void {
+  store = objectStore;
+}
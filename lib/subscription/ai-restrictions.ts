@@ -1,5 +1,21 @@
+import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { SUBSCRIPTION_TIERS, SubscriptionTier } from './config';
+import { SUBSCRIPTION_TIERS, SubscriptionTier, getTierLimits } from './config';
+import {
+  consumeQuota,
+  getMeteringContext,
+  getQuota,
+  releaseQuota,
+  withQuotaHeaders,
+  type Quota,
+  type UsageMetric,
+} from './metering';
+import {
+  RATE_LIMIT_BUDGETS,
+  consumeRateLimit,
+  getBudgetLimit,
+  rateLimitExceededResponse,
+} from '@/lib/security/rate-limit';
 
 // AI Feature access control
 export interface AIFeatureAccess {
@@ -16,14 +32,13 @@ export interface AIFeatureAccess {
 
 export interface UserSubscriptionInfo {
   tier: SubscriptionTier;
-  subscriptionStatus: 'active' | 'inactive' | 'cancelled' | 'trialing';
   currentUsage: {
     tripsThisMonth: number;
     aiGenerationsThisMonth: number;
-    aiGenerationsToday: number;
   };
-  limits: typeof SUBSCRIPTION_TIERS.free.limits;
+  limits: ReturnType<typeof getTierLimits>;
   aiAccess: AIFeatureAccess;
+  quota: Quota;
 }
 
 // Define AI access per tier
@@ -81,152 +96,134 @@ export function canAccessAIFeature(
   return Boolean(access[feature]);
 }
 
-// AI usage tracking and limiting
-export interface AIUsageTracker {
-  userId: string;
-  aiGenerationsToday: number;
-  aiGenerationsThisMonth: number;
-  currentAIRequests: number;
-  lastResetDate: string;
+// In-flight AI requests per user on this instance
+const activeAIRequests = new Map<string, number>();
+
+function beginAIRequest(userId: string): void {
+  activeAIRequests.set(userId, (activeAIRequests.get(userId) || 0) + 1);
 }
 
-// Mock database functions (would be replaced with actual DB calls)
-async function getAIUsage(userId: string): Promise<AIUsageTracker> {
-  // This would fetch from database
-  return {
-    userId,
-    aiGenerationsToday: 0,
-    aiGenerationsThisMonth: 0,
-    currentAIRequests: 0,
-    lastResetDate: new Date().toISOString().split('T')[0],
-  };
+function endAIRequest(userId: string): void {
+  const remaining = (activeAIRequests.get(userId) || 1) - 1;
+  if (remaining > 0) {
+    activeAIRequests.set(userId, remaining);
+  } else {
+    activeAIRequests.delete(userId);
+  }
 }
 
-async function updateAIUsage(usage: AIUsageTracker): Promise<void> {
-  // This would update database
-  console.log('Updating AI usage:', usage);
+export function getAIUsageMetric(meter: string): UsageMetric {
+  return `ai:${meter}`;
 }
 
-export async function checkAIRateLimit(
+// Check feature access and concurrency. Monthly volume is metered separately.
+export function checkAIRateLimit(
   userId: string,
   tier: SubscriptionTier,
   feature: keyof AIFeatureAccess
-): Promise<{ allowed: boolean; reason?: string; remainingUsage?: number }> {
+): { allowed: boolean; reason?: string; upgradeRequired?: boolean } {
   const access = getAIAccess(tier);
-  const usage = await getAIUsage(userId);
   
   // Check if feature is available for tier
   if (!access[feature]) {
     return {
       allowed: false,
       reason: `${feature} requires ${tier === 'free' ? 'Starter' : 'Pro'} subscription`,
+      upgradeRequired: true,
     };
   }
   
   // Check concurrent requests
-  if (usage.currentAIRequests >= access.maxConcurrentAIRequests) {
+  if ((activeAIRequests.get(userId) || 0) >= access.maxConcurrentAIRequests) {
     return {
       allowed: false,
       reason: `Maximum concurrent AI requests (${access.maxConcurrentAIRequests}) reached. Please wait.`,
     };
   }
   
-  // Check daily limits
-  const dailyLimit = tier === 'free' ? 5 : tier === 'starter' ? 20 : 100;
-  if (usage.aiGenerationsToday >= dailyLimit) {
-    return {
-      allowed: false,
-      reason: `Daily AI generation limit (${dailyLimit}) reached. Upgrade for more usage.`,
-      remainingUsage: 0,
-    };
-  }
-  
-  return {
-    allowed: true,
-    remainingUsage: dailyLimit - usage.aiGenerationsToday,
-  };
+  return { allowed: true };
 }
 
-export async function trackAIUsage(userId: string, feature: string): Promise<void> {
-  const usage = await getAIUsage(userId);
-  
-  // Reset daily counter if new day
-  const today = new Date().toISOString().split('T')[0];
-  if (usage.lastResetDate !== today) {
-    usage.aiGenerationsToday = 0;
-    usage.lastResetDate = today;
-  }
-  
-  // Increment counters
-  usage.aiGenerationsToday += 1;
-  usage.aiGenerationsThisMonth += 1;
-  usage.currentAIRequests += 1;
-  
-  await updateAIUsage(usage);
-  
-  // Decrement current requests after a delay (simulate request completion)
-  setTimeout(async () => {
-    usage.currentAIRequests = Math.max(0, usage.currentAIRequests - 1);
-    await updateAIUsage(usage);
-  }, 5000);
-}
-
-// Enhanced subscription middleware for AI features
+// Enhanced subscription middleware for AI features. Each successful call
+// consumes one generation from the `ai:<meter>` quota; failed calls are
+// refunded.
 export async function withAISubscriptionCheck(
   feature: keyof AIFeatureAccess,
-  handler: (userInfo: UserSubscriptionInfo) => Promise<Response>
+  handler: (userInfo: UserSubscriptionInfo) => Promise<Response>,
+  meter: string = feature
 ): Promise<Response> {
   try {
     const { userId } = auth();
     
     if (!userId) {
-      return new Response(
-        JSON.stringify({ error: 'Authentication required' }),
-        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
       );
     }
 
-    // Mock getting user subscription info (would be from database)
-    const tier: SubscriptionTier = 'free'; // This would be fetched from user profile
-    const subscriptionStatus = 'active';
-    const usage = await getAIUsage(userId);
-    
+    const context = await getMeteringContext(userId);
+    const { tier } = context;
+
+    const accessCheck = checkAIRateLimit(userId, tier, feature);
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        { 
+          error: accessCheck.reason,
+          code: accessCheck.upgradeRequired ? 'AI_FEATURE_UNAVAILABLE' : 'AI_LIMIT_EXCEEDED',
+          upgradeRequired: Boolean(accessCheck.upgradeRequired),
+        },
+        { status: accessCheck.upgradeRequired ? 402 : 429 }
+      );
+    }
+
+    // Short-window burst budget, on top of the monthly quota below
+    const burst = await consumeRateLimit(
+      `rate_limit:ai:user:${userId}`,
+      getBudgetLimit(RATE_LIMIT_BUDGETS.ai.maxRequests, tier),
+      RATE_LIMIT_BUDGETS.ai.windowMs
+    );
+    if (!burst.allowed) {
+      return rateLimitExceededResponse(burst, 'Too many AI requests, please slow down.');
+    }
+
+    const metric = getAIUsageMetric(meter);
+    const metered = await consumeQuota(userId, metric, 1, context);
+    if (!metered.allowed) {
+      return metered.response;
+    }
+
+    const tripQuota = await getQuota(userId, 'trips', context);
     const userInfo: UserSubscriptionInfo = {
       tier,
-      subscriptionStatus: subscriptionStatus as any,
       currentUsage: {
-        tripsThisMonth: 0, // Would be fetched from DB
-        aiGenerationsThisMonth: usage.aiGenerationsThisMonth,
-        aiGenerationsToday: usage.aiGenerationsToday,
+        tripsThisMonth: tripQuota.used,
+        aiGenerationsThisMonth: metered.quota.used,
       },
-      limits: SUBSCRIPTION_TIERS[tier].limits,
+      limits: getTierLimits(tier),
       aiAccess: getAIAccess(tier),
+      quota: metered.quota,
     };
 
-    // Check rate limits
-    const rateCheck = await checkAIRateLimit(userId, tier, feature);
-    if (!rateCheck.allowed) {
-      return new Response(
-        JSON.stringify({ 
-          error: rateCheck.reason,
-          code: 'AI_LIMIT_EXCEEDED',
-          upgradeRequired: tier === 'free',
-          remainingUsage: rateCheck.remainingUsage,
-        }),
-        { status: 429, headers: { 'Content-Type': 'application/json' } }
-      );
-    }
+    beginAIRequest(userId);
+    try {
+      const response = await handler(userInfo);
 
-    // Track usage
-    await trackAIUsage(userId, feature);
-    
-    return await handler(userInfo);
+      if (!response.ok) {
+        await releaseQuota(userId, metric, 1, context);
+        return withQuotaHeaders(response, await getQuota(userId, metric, context));
+      }
+
+      return withQuotaHeaders(response, metered.quota);
+    } finally {
+      endAIRequest(userId);
+    }
 
   } catch (error) {
     console.error('AI subscription check error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Subscription validation failed' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    return NextResponse.json(
+      { error: 'Subscription validation failed' },
+      { status: 500 }
     );
   }
 }
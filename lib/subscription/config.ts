@@ -1,3 +1,5 @@
+import type { ExportFormat } from '@/lib/services/trip-export';
+
 // Subscription tiers configuration
 export const SUBSCRIPTION_TIERS = {
   free: {
@@ -20,7 +22,10 @@ export const SUBSCRIPTION_TIERS = {
       daysPerTrip: 7,
       aiGenerationsPerTrip: 1,
       placesSearchPerDay: 20,
+      aiGenerationsPerMonth: 10, // per AI feature
+      exportsPerMonth: 5,
     },
+    exportFormats: ['pdf', 'html'],
     popular: false,
   },
   starter: {
@@ -45,7 +50,10 @@ export const SUBSCRIPTION_TIERS = {
       daysPerTrip: 14,
       aiGenerationsPerTrip: 3,
       placesSearchPerDay: 100,
+      aiGenerationsPerMonth: 60, // per AI feature
+      exportsPerMonth: 50,
     },
+    exportFormats: ['pdf', 'html', 'ics', 'gpx', 'kml', 'json', 'csv'],
     popular: true,
   },
   pro: {
@@ -65,6 +73,7 @@ export const SUBSCRIPTION_TIERS = {
       'Custom preferences',
       'Analytics dashboard',
       'API access',
+      'Word (DOCX) export',
     ],
     limits: {
       tripsPerMonth: 30,
@@ -72,7 +81,10 @@ export const SUBSCRIPTION_TIERS = {
       daysPerTrip: 30,
       aiGenerationsPerTrip: 5,
       placesSearchPerDay: 500,
+      aiGenerationsPerMonth: 300, // per AI feature
+      exportsPerMonth: 200,
     },
+    exportFormats: ['pdf', 'html', 'ics', 'gpx', 'kml', 'json', 'csv', 'docx'],
     popular: false,
   },
 } as const;
@@ -92,6 +104,16 @@ export function getTierFeatures(tier: SubscriptionTier) {
   return SUBSCRIPTION_TIERS[tier].features;
 }
 
+export function canExportFormat(tier: SubscriptionTier, format: ExportFormat): boolean {
+  return (SUBSCRIPTION_TIERS[tier].exportFormats as readonly ExportFormat[]).includes(format);
+}
+
+// Cheapest tier that includes an export format, for upgrade prompts
+export function getExportFormatTier(format: ExportFormat): SubscriptionTier {
+  const tiers = Object.keys(SUBSCRIPTION_TIERS) as SubscriptionTier[];
+  return tiers.find(tier => canExportFormat(tier, format)) || 'pro';
+}
+
 export function getTierPrice(tier: SubscriptionTier, currency: 'INR' | 'USD' = 'INR') {
   const config = SUBSCRIPTION_TIERS[tier];
   return currency === 'USD' ? config.priceUSD : config.priceINR;
@@ -0,0 +1,334 @@
+// Usage Metering
+// Per-user counters for quota-limited actions (trips, AI generations per
+// feature, exports), stored in `usage_counters` and keyed by billing period.
+// Periods are monthly and anchored to the subscription's current period end,
+// so counters reset on renewal without a cron job; users who never
+// subscribed are metered by calendar month (UTC).
+
+import { NextResponse } from 'next/server';
+import { and, eq, sql } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { profiles, usageCounters } from '@/lib/database/schema';
+import { getTierLimits, type SubscriptionTier } from './config';
+
+export type UsageMetric = 'trips' | 'exports' | `ai:${string}`;
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface MeteringContext {
+  userId: string;
+  tier: SubscriptionTier;
+  period: BillingPeriod;
+}
+
+export interface Quota {
+  metric: UsageMetric;
+  tier: SubscriptionTier;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export type QuotaResult =
+  | { allowed: true; quota: Quota }
+  | { allowed: false; quota: Quota; response: NextResponse };
+
+function addMonthsUTC(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  // Clamp to the last day of shorter months (Jan 31 -> Feb 28)
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  target.setUTCHours(date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds());
+  return target;
+}
+
+/**
+ * The monthly billing period containing `now`. Period boundaries fall on
+ * the anchor's day and time of month; without an anchor they are calendar
+ * months in UTC.
+ */
+export function getBillingPeriod(anchor: Date | null | undefined, now: Date = new Date()): BillingPeriod {
+  if (!anchor) {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  // Always step from the anchor itself so month-end clamping does not drift
+  let offset = (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + now.getUTCMonth() - anchor.getUTCMonth();
+  while (addMonthsUTC(anchor, offset) > now) {
+    offset -= 1;
+  }
+  while (addMonthsUTC(anchor, offset + 1) <= now) {
+    offset += 1;
+  }
+
+  return { start: addMonthsUTC(anchor, offset), end: addMonthsUTC(anchor, offset + 1) };
+}
+
+/**
+ * The tier whose limits apply. Paid tiers count while the subscription is
+ * active, or cancelled but still inside the paid period; otherwise the user
+ * is metered as free.
+ */
+export function getEffectiveTier(
+  tier: SubscriptionTier | null | undefined,
+  status: string | null | undefined,
+  currentPeriodEnd: Date | null | undefined,
+  now: Date = new Date()
+): SubscriptionTier {
+  if (!tier || tier === 'free') {
+    return 'free';
+  }
+  if (status === 'active') {
+    return tier;
+  }
+  if (status === 'cancelled' && currentPeriodEnd && currentPeriodEnd > now) {
+    return tier;
+  }
+  return 'free';
+}
+
+export function getMetricLimit(tier: SubscriptionTier, metric: UsageMetric): number {
+  const limits = getTierLimits(tier);
+  if (metric === 'trips') {
+    return limits.tripsPerMonth;
+  }
+  if (metric === 'exports') {
+    return limits.exportsPerMonth;
+  }
+  return limits.aiGenerationsPerMonth;
+}
+
+/**
+ * Resolve the caller's effective tier and current billing period from their profile
+ */
+export async function getMeteringContext(userId: string): Promise<MeteringContext> {
+  if (!isDatabaseAvailable()) {
+    return { userId, tier: 'free', period: getBillingPeriod(null) };
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({
+        tier: profiles.subscriptionTier,
+        status: profiles.subscriptionStatus,
+        currentPeriodEnd: profiles.subscriptionCurrentPeriodEnd,
+      })
+      .from(profiles)
+      .where(eq(profiles.userId, userId))
+      .limit(1);
+  });
+
+  const profile = rows?.[0];
+  return {
+    userId,
+    tier: getEffectiveTier(profile?.tier, profile?.status, profile?.currentPeriodEnd),
+    period: getBillingPeriod(profile?.currentPeriodEnd),
+  };
+}
+
+function buildQuota(context: MeteringContext, metric: UsageMetric, used: number): Quota {
+  const limit = getMetricLimit(context.tier, metric);
+  return {
+    metric,
+    tier: context.tier,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt: context.period.end,
+  };
+}
+
+/**
+ * Read current usage for a metric without consuming any
+ */
+export async function getQuota(userId: string, metric: UsageMetric, context?: MeteringContext): Promise<Quota> {
+  const ctx = context || await getMeteringContext(userId);
+
+  if (!isDatabaseAvailable()) {
+    return buildQuota(ctx, metric, 0);
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .select({ count: usageCounters.count })
+      .from(usageCounters)
+      .where(and(
+        eq(usageCounters.userId, userId),
+        eq(usageCounters.metric, metric),
+        eq(usageCounters.periodStart, ctx.period.start)
+      ))
+      .limit(1);
+  });
+
+  return buildQuota(ctx, metric, rows?.[0]?.count || 0);
+}
+
+/**
+ * All metered usage in the current billing period. Trips and exports are
+ * always listed; AI meters appear once used.
+ */
+export async function listQuotas(userId: string, context?: MeteringContext): Promise<Quota[]> {
+  const ctx = context || await getMeteringContext(userId);
+  const used = new Map<UsageMetric, number>([['trips', 0], ['exports', 0]]);
+
+  if (isDatabaseAvailable()) {
+    const rows = await withDatabase(async (db) => {
+      return await db
+        .select({ metric: usageCounters.metric, count: usageCounters.count })
+        .from(usageCounters)
+        .where(and(
+          eq(usageCounters.userId, userId),
+          eq(usageCounters.periodStart, ctx.period.start)
+        ));
+    });
+
+    rows?.forEach(row => used.set(row.metric as UsageMetric, row.count));
+  }
+
+  return Array.from(used, ([metric, count]) => buildQuota(ctx, metric, count));
+}
+
+/**
+ * Atomically consume quota. The increment only applies while the counter
+ * stays within the tier limit, so concurrent requests cannot overshoot.
+ * Metering failures do not block the action.
+ */
+export async function consumeQuota(
+  userId: string,
+  metric: UsageMetric,
+  amount = 1,
+  context?: MeteringContext
+): Promise<QuotaResult> {
+  const ctx = context || await getMeteringContext(userId);
+  const limit = getMetricLimit(ctx.tier, metric);
+
+  if (!isDatabaseAvailable()) {
+    return { allowed: true, quota: buildQuota(ctx, metric, 0) };
+  }
+
+  if (amount > limit) {
+    const quota = await getQuota(userId, metric, ctx);
+    return { allowed: false, quota, response: quotaExceededResponse(quota) };
+  }
+
+  const rows = await withDatabase(async (db) => {
+    return await db
+      .insert(usageCounters)
+      .values({
+        userId,
+        metric,
+        periodStart: ctx.period.start,
+        periodEnd: ctx.period.end,
+        count: amount,
+      })
+      .onConflictDoUpdate({
+        target: [usageCounters.userId, usageCounters.metric, usageCounters.periodStart],
+        set: {
+          count: sql`${usageCounters.count} + ${amount}`,
+          updatedAt: new Date(),
+        },
+        setWhere: sql`${usageCounters.count} + ${amount} <= ${limit}`,
+      })
+      .returning({ count: usageCounters.count });
+  });
+
+  if (rows === null) {
+    console.warn(`Usage metering unavailable, allowing ${metric} for ${userId}`);
+    return { allowed: true, quota: buildQuota(ctx, metric, 0) };
+  }
+
+  if (rows.length === 0) {
+    const quota = await getQuota(userId, metric, ctx);
+    return { allowed: false, quota, response: quotaExceededResponse(quota) };
+  }
+
+  const used = rows[0].count;
+  if (metric === 'trips') {
+    // Keep the denormalised profile counter in step with the meter
+    await withDatabase(async (db) => {
+      await db
+        .update(profiles)
+        .set({ tripsUsedThisMonth: used, lastTripCreated: new Date(), updatedAt: new Date() })
+        .where(eq(profiles.userId, userId));
+    });
+  }
+
+  return { allowed: true, quota: buildQuota(ctx, metric, used) };
+}
+
+/**
+ * Give back quota consumed for an action that then failed
+ */
+export async function releaseQuota(
+  userId: string,
+  metric: UsageMetric,
+  amount = 1,
+  context?: MeteringContext
+): Promise<void> {
+  if (!isDatabaseAvailable()) {
+    return;
+  }
+
+  const ctx = context || await getMeteringContext(userId);
+
+  await withDatabase(async (db) => {
+    await db
+      .update(usageCounters)
+      .set({
+        count: sql`greatest(${usageCounters.count} - ${amount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(usageCounters.userId, userId),
+        eq(usageCounters.metric, metric),
+        eq(usageCounters.periodStart, ctx.period.start)
+      ));
+  });
+}
+
+/**
+ * Remaining-quota headers, sent on both allowed and rejected responses
+ */
+export function getQuotaHeaders(quota: Quota): Record<string, string> {
+  return {
+    'X-Quota-Metric': quota.metric,
+    'X-Quota-Limit': quota.limit.toString(),
+    'X-Quota-Remaining': quota.remaining.toString(),
+    'X-Quota-Reset': Math.ceil(quota.resetsAt.getTime() / 1000).toString(),
+  };
+}
+
+export function withQuotaHeaders<T extends Response>(response: T, quota: Quota): T {
+  Object.entries(getQuotaHeaders(quota)).forEach(([name, value]) => {
+    response.headers.set(name, value);
+  });
+  return response;
+}
+
+/**
+ * Uniform 402 for an exhausted quota
+ */
+export function quotaExceededResponse(quota: Quota): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+      details: `Your ${quota.tier} plan allows ${quota.limit} per billing period for ${quota.metric}. Usage resets on ${quota.resetsAt.toISOString()}.`,
+      metric: quota.metric,
+      tier: quota.tier,
+      limit: quota.limit,
+      used: quota.used,
+      remaining: quota.remaining,
+      resetsAt: quota.resetsAt.toISOString(),
+      upgradeRequired: quota.tier !== 'pro',
+    },
+    { status: 402, headers: getQuotaHeaders(quota) }
+  );
+}
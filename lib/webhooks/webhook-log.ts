@@ -0,0 +1,92 @@
+// Webhook Log
+// Every inbound provider webhook is stored in `webhooks` before it is
+// processed. The (source, eventId) unique index makes redelivered events
+// detectable, and a delivery must claim its row before handling it, so
+// handlers only run once per event even when deliveries overlap.
+
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import { withDatabase, isDatabaseAvailable } from '@/lib/db';
+import { webhooks } from '@/lib/database/schema';
+
+export type WebhookSource = 'razorpay' | 'clerk';
+
+// A claim older than this is assumed to belong to a delivery that died
+// mid-handling, and a redelivery may take it over
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export interface WebhookClaim {
+  id: number;
+  // `claimed`: this delivery must handle the event. `processed`: an earlier
+  // delivery already did. `in_progress`: another delivery holds the claim.
+  status: 'claimed' | 'processed' | 'in_progress';
+}
+
+/**
+ * Store a webhook delivery and claim it for handling. A redelivered event is
+ * only claimed again when its earlier handling failed or its claim expired.
+ */
+export async function claimWebhook(
+  source: WebhookSource,
+  eventId: string,
+  eventType: string,
+  payload: unknown
+): Promise<WebhookClaim | null> {
+  if (!isDatabaseAvailable()) {
+    return null;
+  }
+
+  return await withDatabase(async (db) => {
+    const now = new Date();
+    const [inserted] = await db
+      .insert(webhooks)
+      .values({ source, eventId, eventType, payload, claimedAt: now })
+      .onConflictDoNothing()
+      .returning({ id: webhooks.id });
+
+    if (inserted) {
+      return { id: inserted.id, status: 'claimed' as const };
+    }
+
+    const match = and(eq(webhooks.source, source), eq(webhooks.eventId, eventId));
+    const [reclaimed] = await db
+      .update(webhooks)
+      .set({ claimedAt: now })
+      .where(and(
+        match,
+        eq(webhooks.processed, false),
+        or(isNull(webhooks.claimedAt), lt(webhooks.claimedAt, new Date(now.getTime() - CLAIM_LEASE_MS)))
+      ))
+      .returning({ id: webhooks.id });
+
+    if (reclaimed) {
+      return { id: reclaimed.id, status: 'claimed' as const };
+    }
+
+    const [existing] = await db
+      .select({ id: webhooks.id, processed: webhooks.processed })
+      .from(webhooks)
+      .where(match)
+      .limit(1);
+
+    return { id: existing.id, status: existing.processed ? 'processed' as const : 'in_progress' as const };
+  });
+}
+
+/**
+ * Mark a claimed webhook as handled. Passing an error records why handling
+ * failed and releases the claim so a redelivery is retried.
+ */
+export async function markWebhookProcessed(id: number, error?: string): Promise<void> {
+  if (!isDatabaseAvailable()) {
+    return;
+  }
+
+  await withDatabase(async (db) => {
+    await db
+      .update(webhooks)
+      .set(error
+        ? { processed: false, claimedAt: null, error }
+        : { processed: true, processedAt: new Date(), error: null })
+      .where(eq(webhooks.id, id));
+  });
+}
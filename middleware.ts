@@ -10,6 +10,9 @@ const isPublicRoute = createRouteMatcher([
   '/api/webhooks/(.*)',
   '/api/health',
   '/shared/(.*)',
+  '/share/(.*)',
+  '/api/share/(.*)',
+  '/api/calendar/(.*)',
   '/pricing',
   '/about',
   '/privacy',
@@ -20,7 +23,6 @@ const isPublicRoute = createRouteMatcher([
 const isProRoute = createRouteMatcher([
   '/dashboard/analytics',
   '/api/ai/advanced',
-  '/api/export/advanced',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -353,4 +353,46 @@ async function getStoredPreferences() {
 
 async function markPreferencesAsSynced() {
   // Implementation would depend on your storage strategy
-}
\ No newline at end of file
+}
+
+// Push notifications. Pushes carry no payload: fetch the newest unread
+// notification from the inbox and show that.
+self.addEventListener('push', event => {
+  event.waitUntil(showLatestNotification());
+});
+
+async function showLatestNotification() {
+  let notification = null;
+
+  try {
+    const response = await fetch('/api/notifications?unread=true&limit=1', { credentials: 'same-origin' });
+    if (response.ok) {
+      const data = await response.json();
+      notification = data.notifications && data.notifications[0];
+    }
+  } catch (error) {
+    console.error('[SW] Failed to fetch notification:', error);
+  }
+
+  const title = notification ? notification.title : 'Tripthesia';
+  await self.registration.showNotification(title, {
+    body: notification ? notification.body : 'You have a new notification',
+    icon: '/icons/icon-192x192.png',
+    tag: notification ? notification.id : 'tripthesia-notification',
+    data: { url: (notification && notification.url) || '/' }
+  });
+}
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data && event.notification.data.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => client.url === url);
+    if (existing) {
+      return existing.focus();
+    }
+    return self.clients.openWindow(url);
+  })());
+});
@@ -0,0 +1,124 @@
+/**
+ * Backtest the price prediction engine against a historical dataset
+ *
+ * Replays every quote in the dataset through PricePredictionEngine using
+ * only the prices known at the time, then reports prediction error,
+ * directional accuracy and what following its booking advice would have
+ * saved. Model weights are tuned per route type on the earlier part of the
+ * dataset and validated on the rest.
+ *
+ * Usage:
+ *   npm run prices:backtest -- data/fares.csv
+ *   npm run prices:backtest -- data/fares.json --horizon 14 --write-weights
+ *
+ * Dataset columns (CSV header or JSON keys):
+ *   route (or from + to), observed_at, travel_date, price
+ *   optional: kind (flight|hotel|car_rental), cabin, currency, provider, route_type
+ *
+ * Options:
+ *   --horizon <days>     How far ahead to predict (default 7)
+ *   --tolerance <days>   How far from the horizon the scored quote may be (default 1)
+ *   --holdout <0-1>      Share of the latest samples kept out of tuning (default 0.3)
+ *   --json               Print the full report as JSON
+ *   --write-weights      Save tuned weights that beat the current ones on the
+ *                        holdout to lib/ai/price-model-weights.json
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { BacktestDatasetError, parseBacktestDataset, runBacktest, type BacktestReport } from '../lib/ai/price-backtest';
+
+const WEIGHTS_PATH = path.join(__dirname, '..', 'lib', 'ai', 'price-model-weights.json');
+
+// `pnpm prices:backtest -- file` passes the separator through
+const args = process.argv.slice(2)[0] === '--' ? process.argv.slice(3) : process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatWeights(weights: Record<string, number>): string {
+  return Object.entries(weights).map(([model, weight]) => `${model}=${weight}`).join(' ');
+}
+
+function printReport(report: BacktestReport): void {
+  const { dataset, accuracy, savings } = report;
+  const money = (value: number) => value.toFixed(2);
+
+  console.log(`Dataset: ${dataset.records} quotes, ${dataset.trips} trips, ${dataset.from} to ${dataset.to}`);
+  console.log(`Skipped: ${report.skipped.noTargetQuote} without a quote ${report.horizonDays}±${report.horizonToleranceDays} days later, ${report.skipped.noHistory} without enough history\n`);
+
+  console.log(`Prediction accuracy (${report.horizonDays} days ahead)`);
+  console.log(`  ${'route type'.padEnd(16)} ${'samples'.padStart(8)} ${'MAPE'.padStart(8)} ${'direction'.padStart(10)}`);
+  Object.entries({ all: accuracy, ...accuracy.byRouteType }).forEach(([type, metrics]) => {
+    console.log(`  ${type.padEnd(16)} ${String(metrics.samples).padStart(8)} ${`${metrics.mape.toFixed(1)}%`.padStart(8)} ${`${metrics.directionalAccuracy.toFixed(1)}%`.padStart(10)}`);
+  });
+
+  console.log('\nBooking advice versus buying at the first quote');
+  Object.entries({ all: savings, ...savings.byRouteType }).forEach(([type, summary]) => {
+    console.log(`  ${type.padEnd(16)} ${summary.trips} trips: saved ${money(summary.savings)} (${summary.savingsPercent.toFixed(1)}%) ` +
+      `of ${money(summary.bookNowSpend)}; best possible ${money(summary.bestPossibleSavings)}; ` +
+      `${summary.tripsSaved} cheaper, ${summary.tripsLost} dearer, waited ${summary.averageWaitDays.toFixed(1)} days on average`);
+  });
+
+  console.log('\nModel weights (tuned on earlier dates, MAPE on the holdout)');
+  Object.entries(report.tuning).forEach(([type, tuning]) => {
+    if (!tuning) {
+      console.log(`  ${type.padEnd(16)} too few samples to tune`);
+      return;
+    }
+    console.log(`  ${type.padEnd(16)} current ${formatWeights(tuning.current)}: ${tuning.holdoutMape.current.toFixed(1)}%`);
+    console.log(`  ${''.padEnd(16)} tuned   ${formatWeights(tuning.tuned)}: ${tuning.holdoutMape.tuned.toFixed(1)}%${tuning.improved ? '' : ' (no improvement)'}`);
+  });
+}
+
+async function main(): Promise<void> {
+  const datasetPath = args[0];
+  if (!datasetPath || datasetPath.startsWith('--')) {
+    console.error('Usage: backtest-price-model <dataset.csv|dataset.json> [--horizon <days>] [--tolerance <days>] [--holdout <0-1>] [--json] [--write-weights]');
+    process.exit(1);
+  }
+
+  const format = datasetPath.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  const records = parseBacktestDataset(readFileSync(datasetPath, 'utf8'), format);
+  if (records.length === 0) {
+    console.error('Dataset has no usable quotes');
+    process.exit(1);
+  }
+
+  const report = await runBacktest(records, {
+    horizonDays: getArg('horizon') ? parseInt(getArg('horizon')!, 10) : undefined,
+    horizonToleranceDays: getArg('tolerance') ? parseInt(getArg('tolerance')!, 10) : undefined,
+    holdoutFraction: getArg('holdout') ? parseFloat(getArg('holdout')!) : undefined,
+    onProgress: (done, total) => {
+      if (!args.includes('--json') && (done % 500 === 0 || done === total)) {
+        process.stderr.write(`\rReplayed ${done}/${total} quotes`);
+        if (done === total) process.stderr.write('\n\n');
+      }
+    },
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  if (args.includes('--write-weights')) {
+    const saved = JSON.parse(readFileSync(WEIGHTS_PATH, 'utf8'));
+    const improved = Object.entries(report.tuning).filter(([, tuning]) => tuning?.improved);
+    improved.forEach(([type, tuning]) => {
+      saved[type] = tuning!.tuned;
+    });
+    writeFileSync(WEIGHTS_PATH, `${JSON.stringify(saved, null, 2)}\n`);
+    console.error(improved.length > 0
+      ? `Saved tuned weights for ${improved.map(([type]) => type).join(', ')} to ${WEIGHTS_PATH}`
+      : 'No route type improved on the holdout; weights unchanged');
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof BacktestDatasetError ? `Invalid dataset: ${error.message}` : error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+/**
+ * Standalone real-time collaboration server
+ *
+ * Usage:
+ *   npm run collab:server
+ *
+ * Environment:
+ *   COLLABORATION_PORT            Port to listen on (default 3001)
+ *   COLLABORATION_SERVER_SECRET   Shared secret for the internal /broadcast endpoint
+ *   CLERK_SECRET_KEY              Used to verify collaborator session tokens
+ *   UPSTASH_REDIS_REST_URL/TOKEN  Shared session store and broadcast relay (Upstash or a local
+ *                                 stand-in); required when running more than one instance
+ */
+
+import http from 'http';
+import { CollaborationServer } from '../lib/collaboration/collaboration-server';
+
+const port = parseInt(process.env.COLLABORATION_PORT || '3001', 10);
+const broadcastSecret = process.env.COLLABORATION_SERVER_SECRET;
+
+const collaboration = new CollaborationServer();
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > 64 * 1024) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, { status: 'ok', ...collaboration.getStats() });
+    return;
+  }
+
+  // Internal endpoint used by /api/ws/collaboration to push server-originated
+  // messages (notifications) into a live trip session
+  if (req.method === 'POST' && url.pathname === '/broadcast') {
+    if (!broadcastSecret || req.headers['x-collaboration-secret'] !== broadcastSecret) {
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      const { tripId, message, excludeUserId } = JSON.parse(await readBody(req));
+      if (!tripId || !message?.type) {
+        sendJson(res, 400, { error: 'tripId and message.type are required' });
+        return;
+      }
+      const delivered = collaboration.broadcast(tripId, message, excludeUserId);
+      sendJson(res, 200, { success: true, delivered });
+    } catch (error) {
+      sendJson(res, 400, { error: 'Invalid broadcast payload' });
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', (req, socket, head) => {
+  collaboration.handleUpgrade(req, socket, head);
+});
+
+server.listen(port, () => {
+  console.log(`🤝 Collaboration server listening on ws://localhost:${port}/ws/collaboration`);
+});
+
+async function shutdown(signal: string) {
+  console.log(`\n${signal} received, closing collaboration server...`);
+  await collaboration.close();
+  server.close(() => process.exit(0));
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,71 @@
+/**
+ * Replay a recorded Razorpay webhook against a running app
+ *
+ * Signs a fixture with RAZORPAY_WEBHOOK_SECRET exactly as Razorpay does, so
+ * the app can be exercised with a fake secret instead of live deliveries.
+ *
+ * Usage:
+ *   RAZORPAY_WEBHOOK_SECRET=test_webhook_secret \
+ *     npm run webhooks:replay -- tests/fixtures/razorpay/subscription.activated.json
+ *
+ * Options:
+ *   --url <url>        Webhook endpoint (default http://localhost:3000/api/webhooks/razorpay)
+ *   --user <userId>    Rewrite notes.userId on every entity in the payload
+ *   --event-id <id>    x-razorpay-event-id header; repeat an ID to check idempotency
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const fixturePath = process.argv[2];
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+  if (!fixturePath || fixturePath.startsWith('--')) {
+    console.error('Usage: replay-razorpay-webhook <fixture.json> [--url <url>] [--user <userId>] [--event-id <id>]');
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error('RAZORPAY_WEBHOOK_SECRET must be set to the secret the app is running with');
+    process.exit(1);
+  }
+
+  const event = JSON.parse(readFileSync(fixturePath, 'utf8'));
+
+  const userId = getArg('user');
+  if (userId) {
+    Object.values(event.payload as Record<string, { entity: { notes?: unknown } }>).forEach(({ entity }) => {
+      if (entity.notes && !Array.isArray(entity.notes)) {
+        (entity.notes as Record<string, string>).userId = userId;
+      }
+    });
+  }
+
+  const body = JSON.stringify(event);
+  const signature = createHmac('sha256', secret).update(body).digest('hex');
+  const url = getArg('url') || 'http://localhost:3000/api/webhooks/razorpay';
+  const eventId = getArg('event-id') || `evt_${randomUUID().replace(/-/g, '').slice(0, 14)}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-razorpay-signature': signature,
+      'x-razorpay-event-id': eventId,
+    },
+    body,
+  });
+
+  console.log(`${event.event} (${eventId}) -> ${response.status} ${await response.text()}`);
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Run background jobs
+ *
+ * Usage:
+ *   npm run jobs:run -- <job> [<job> ...] [--limit <n>]
+ *   npm run jobs:run -- all
+ *   npm run jobs:run -- --list
+ *
+ * Example crontab:
+ *   0 * * * *   cd /srv/tripthesia && npm run jobs:run -- price-tracking
+ *   30 3 * * *  cd /srv/tripthesia && npm run jobs:run -- price-history-maintenance
+ *
+ * Environment:
+ *   DATABASE_URL          Watches and price history (required for tracking)
+ *   KIWI_TEQUILA_API_KEY, AMADEUS_*, BOOKING_COM_API_KEY   Search providers
+ *   SEARCH_SANDBOX        When on, price tracking records nothing
+ */
+
+import { JOBS } from '../lib/jobs';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes('--list')) {
+    Object.entries(JOBS).forEach(([name, job]) => console.log(`${name.padEnd(28)} ${job.description}`));
+    return;
+  }
+
+  const limitArg = getArg('limit');
+  const names = process.argv.slice(2).filter(arg => !arg.startsWith('--') && arg !== limitArg);
+  const selected = names.includes('all') ? Object.keys(JOBS) : names;
+
+  const unknown = selected.filter(name => !JOBS[name]);
+  if (selected.length === 0 || unknown.length > 0) {
+    if (unknown.length > 0) console.error(`Unknown job: ${unknown.join(', ')}`);
+    console.error(`Usage: run-jobs <${Object.keys(JOBS).join('|')}|all> [--limit <n>]`);
+    process.exit(1);
+  }
+
+  const limit = limitArg ? parseInt(limitArg, 10) : undefined;
+  let failed = false;
+
+  for (const name of selected) {
+    const startedAt = Date.now();
+    try {
+      const result = await JOBS[name].run({ limit });
+      console.log(`${name} finished in ${Date.now() - startedAt}ms`, result);
+    } catch (error) {
+      failed = true;
+      console.error(`${name} failed:`, error);
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Job runner failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Local SMTP sink for testing notification emails
+ *
+ * Accepts every message without authentication and prints it, so price
+ * alerts can be exercised end to end without a real mail relay.
+ *
+ * Usage:
+ *   npm run notifications:smtp-sink
+ *   SMTP_HOST=localhost SMTP_PORT=2525 npm run jobs:run -- price-tracking
+ *
+ * Options:
+ *   --port <port>      Port to listen on (default 2525)
+ *   --out <dir>        Also write each message to <dir>/<n>.eml
+ */
+
+import net from 'net';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// Print the headers and decode base64 text parts so the body is readable
+function summarize(data: string): string {
+  const [head] = data.split(/\r\n\r\n/);
+  const parts = Array.from(data.matchAll(/Content-Type: text\/plain[^\r\n]*\r\nContent-Transfer-Encoding: base64\r\n\r\n([A-Za-z0-9+/=\r\n]+)/g));
+  const text = parts.map(match => Buffer.from(match[1].replace(/\r\n/g, ''), 'base64').toString('utf8')).join('\n');
+  return text ? `${head}\n\n${text}` : data;
+}
+
+async function main(): Promise<void> {
+  const port = parseInt(getArg('port') || '2525', 10);
+  const outDir = getArg('out');
+  let received = 0;
+
+  if (outDir) {
+    mkdirSync(outDir, { recursive: true });
+  }
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let envelope: { from?: string; to: string[] } = { to: [] };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 smtp-sink ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          const data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+          buffer = buffer.slice(end + 5);
+          inData = false;
+
+          received++;
+          console.log(`\n===== Message ${received} from ${envelope.from} to ${envelope.to.join(', ')} =====`);
+          console.log(summarize(data));
+          if (outDir) {
+            writeFileSync(path.join(outDir, `${received}.eml`), data);
+          }
+          envelope = { to: [] };
+          reply('250 OK: queued');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd < 0) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 smtp-sink');
+        } else if (command === 'MAIL') {
+          envelope.from = line.replace(/^MAIL FROM:\s*/i, '');
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          envelope.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+          reply('250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'RSET') {
+          envelope = { to: [] };
+          reply('250 OK');
+        } else if (command === 'NOOP') {
+          reply('250 OK');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+          return;
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+
+    socket.on('error', error => console.error('Connection error:', error.message));
+  });
+
+  await new Promise<void>(resolve => server.listen(port, resolve));
+  console.log(`SMTP sink listening on port ${port}. Point SMTP_HOST=localhost SMTP_PORT=${port} at it.`);
+}
+
+main().catch(error => {
+  console.error('SMTP sink failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,277 @@
+import { closeTestDatabase, resetTestDatabase, skipWithoutDatabase, testDatabaseUrl } from './database';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import postgres from 'postgres';
+import { eq } from 'drizzle-orm';
+import { requireDatabase } from '@/lib/db';
+import {
+  bookingEvents,
+  bookingItems,
+  bookings,
+  calendarFeeds,
+  itineraries,
+  itineraryOps,
+  profiles,
+  tripCollaborators,
+  tripDocuments,
+  tripInvitations,
+  trips,
+  users,
+  webhooks,
+} from '@/lib/database/schema';
+import { exportUserData } from '@/lib/auth/data-export';
+import { itineraryOpSchema } from '@/lib/collaboration/itinerary-crdt';
+import { deleteUserData } from '@/lib/auth/user-sync';
+import { getObjectStore } from '@/lib/storage/object-store';
+
+const USER_ID = 'user_test_erased';
+const USER_EMAIL = 'erased@example.com';
+const OWNER_ID = 'user_test_other_owner';
+// Older clients embedded the user ID in their replica ID
+const REPLICA_ID = `r_1a2b3c4d_${USER_ID}`;
+
+const storageDir = mkdtempSync(path.join(tmpdir(), 'tripthesia-objects-'));
+process.env.OBJECT_STORAGE_DIR = storageDir;
+process.env.CACHE_STORE = 'memory';
+
+const tripValues = (userId: string, title: string) => ({
+  userId,
+  title,
+  destinations: [{ city: title }],
+  startDate: new Date('2026-11-01'),
+  endDate: new Date('2026-11-04'),
+  tripType: 'leisure' as const,
+});
+
+/**
+ * Every row in the database whose text (including JSON) mentions the value
+ */
+async function rowsMentioning(value: string): Promise<string[]> {
+  const client = postgres(testDatabaseUrl!, { max: 1 });
+  try {
+    const columns = await client<{ table_name: string; column_name: string }[]>`
+      select table_name, column_name from information_schema.columns
+      where table_schema = 'public' and data_type in ('character varying', 'text', 'jsonb')
+    `;
+    const found: string[] = [];
+    for (const { table_name: table, column_name: column } of columns) {
+      const [{ count }] = await client.unsafe<{ count: number }[]>(
+        `select count(*)::int as count from "${table}" where "${column}"::text like $1`,
+        [`%${value}%`]
+      );
+      if (count > 0) {
+        found.push(`${table}.${column}`);
+      }
+    }
+    return found;
+  } finally {
+    await client.end();
+  }
+}
+
+describe('Account data export and erasure', { skip: skipWithoutDatabase }, () => {
+  let ownTripId: string;
+  let otherTripId: string;
+  let uploadedKey: string;
+
+  before(async () => {
+    await resetTestDatabase();
+    const db = requireDatabase();
+
+    await db.insert(users).values([
+      { id: USER_ID, email: USER_EMAIL },
+      { id: OWNER_ID, email: 'owner@example.com' },
+    ]);
+    await db.insert(profiles).values([{ userId: USER_ID, displayName: 'Erased Traveller' }, { userId: OWNER_ID }]);
+
+    [{ id: ownTripId }] = await db.insert(trips).values(tripValues(USER_ID, 'Porto')).returning({ id: trips.id });
+    [{ id: otherTripId }] = await db.insert(trips).values(tripValues(OWNER_ID, 'Lisbon')).returning({ id: trips.id });
+
+    // The user edits the other owner's trip, and shares their own with them
+    await db.insert(tripCollaborators).values([
+      { tripId: otherTripId, userId: USER_ID, role: 'editor', invitedBy: OWNER_ID },
+      { tripId: ownTripId, userId: OWNER_ID, role: 'viewer', invitedBy: USER_ID },
+    ]);
+    await db.insert(tripInvitations).values({
+      tripId: otherTripId,
+      email: USER_EMAIL,
+      role: 'editor',
+      token: 'invitation-token-1',
+      status: 'accepted',
+      invitedBy: OWNER_ID,
+      acceptedBy: USER_ID,
+      acceptedAt: new Date(),
+      expiresAt: new Date('2026-12-01'),
+    });
+
+    await db.insert(itineraries).values([
+      { tripId: ownTripId, version: 1, data: { days: [] }, source: 'generated', createdBy: USER_ID },
+      { tripId: otherTripId, version: 1, data: { days: [{ id: 'd1', title: 'Arrival' }] }, source: 'generated', createdBy: OWNER_ID },
+      { tripId: otherTripId, version: 2, data: { days: [{ id: 'd1', title: 'Arrival day' }] }, source: 'edit', createdBy: USER_ID },
+    ]);
+    await db.insert(itineraryOps).values({
+      tripId: otherTripId,
+      opId: `${REPLICA_ID}:1`,
+      opType: 'day.set',
+      author: USER_ID,
+      op: {
+        id: `${REPLICA_ID}:1`,
+        type: 'day.set',
+        replicaId: REPLICA_ID,
+        counter: 1,
+        author: USER_ID,
+        timestamp: '2026-10-19T09:00:00.000Z',
+        dayId: 'd1',
+        field: 'title',
+        value: 'Arrival day',
+      },
+    });
+
+    const [booking] = await db.insert(bookings).values({
+      userId: USER_ID,
+      tripId: ownTripId,
+      reference: 'TT-ERASE1',
+      status: 'confirmed',
+      currency: 'EUR',
+      totalAmount: '420.00',
+      idempotencyKey: 'booking-key-1',
+      contactEmail: USER_EMAIL,
+      travelers: [{ name: 'Erased Traveller' }],
+      quoteExpiresAt: new Date('2026-10-30'),
+    }).returning({ id: bookings.id });
+    await db.insert(bookingItems).values({
+      bookingId: booking.id,
+      providerId: 'sandbox',
+      kind: 'hotel',
+      offerId: 'offer-1',
+      title: 'Hotel Porto',
+      amount: '420.00',
+      currency: 'EUR',
+    });
+    await db.insert(bookingEvents).values({ bookingId: booking.id, action: 'confirm', fromStatus: 'held', toStatus: 'confirmed' });
+
+    uploadedKey = `trips/${otherTripId}/documents/boarding-pass`;
+    await getObjectStore().put(uploadedKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+    await db.insert(tripDocuments).values([
+      {
+        tripId: otherTripId,
+        uploadedBy: USER_ID,
+        kind: 'ticket',
+        title: 'Boarding pass',
+        fileName: 'boarding-pass.pdf',
+        contentType: 'application/pdf',
+        size: 8,
+        sha256: 'a'.repeat(64),
+        storageKey: uploadedKey,
+      },
+      {
+        tripId: ownTripId,
+        uploadedBy: USER_ID,
+        kind: 'voucher',
+        title: 'Hotel voucher',
+        fileName: 'voucher.pdf',
+        contentType: 'application/pdf',
+        size: 8,
+        sha256: 'b'.repeat(64),
+        storageKey: `trips/${ownTripId}/documents/voucher`,
+        bookingId: booking.id,
+      },
+    ]);
+    await db.insert(calendarFeeds).values({ tripId: otherTripId, userId: USER_ID, token: 'calendar-feed-token' });
+
+    await db.insert(webhooks).values([
+      {
+        source: 'clerk',
+        eventId: 'msg_created',
+        eventType: 'user.created',
+        payload: { type: 'user.created', data: { id: USER_ID, email_addresses: [{ email_address: USER_EMAIL }] } },
+        processed: true,
+      },
+      {
+        source: 'razorpay',
+        eventId: 'evt_charged',
+        eventType: 'subscription.charged',
+        payload: {
+          event: 'subscription.charged',
+          payload: { subscription: { entity: { id: 'sub_1', notes: { userId: USER_ID, tier: 'pro' } } } },
+        },
+        processed: true,
+      },
+      {
+        source: 'razorpay',
+        eventId: 'evt_other',
+        eventType: 'order.paid',
+        payload: { event: 'order.paid', payload: { order: { entity: { id: 'order_1', notes: { userId: OWNER_ID } } } } },
+        processed: true,
+      },
+    ]);
+  });
+
+  after(async () => {
+    await closeTestDatabase();
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('exports the user\'s own trips, collaborations, bookings, documents and feeds', async () => {
+    const archive = await exportUserData(USER_ID);
+    assert.ok(archive);
+    const data = archive.data as Record<string, any>;
+
+    assert.equal(data.user.email, USER_EMAIL);
+    assert.equal(data.profile.displayName, 'Erased Traveller');
+    assert.deepEqual(data.trips.map((trip: any) => trip.id), [ownTripId]);
+    assert.deepEqual(data.itineraries.map((itinerary: any) => itinerary.tripId), [ownTripId]);
+    assert.deepEqual(data.tripCollaborators.map((member: any) => member.userId), [OWNER_ID]);
+    assert.deepEqual(data.collaborations.map((member: any) => member.tripId), [otherTripId]);
+
+    // Contributions to the other trip, without the rest of that trip
+    assert.equal(data.authoredItineraryVersions.length, 2);
+    assert.deepEqual(data.authoredItineraryOps.map((op: any) => op.opId), [`${REPLICA_ID}:1`]);
+
+    assert.equal(data.bookings.length, 1);
+    assert.equal(data.bookings[0].reference, 'TT-ERASE1');
+    assert.equal('idempotencyKey' in data.bookings[0], false);
+    assert.equal(data.bookingItems.length, 1);
+    assert.equal(data.bookingEvents.length, 1);
+
+    assert.deepEqual(data.tripDocuments.map((document: any) => document.title).sort(), ['Boarding pass', 'Hotel voucher']);
+    assert.equal('storageKey' in data.tripDocuments[0], false);
+    assert.deepEqual(data.calendarFeeds.map((feed: any) => feed.tripId), [otherTripId]);
+    assert.equal('token' in data.calendarFeeds[0], false);
+
+    // No secrets of the other owner's trip leak into the archive
+    assert.equal(JSON.stringify(archive).includes('invitation-token-1'), false);
+    assert.equal(JSON.stringify(archive).includes('calendar-feed-token'), false);
+  });
+
+  it('erases every row that references the user and keeps the other owner\'s trip', async () => {
+    const report = await deleteUserData(USER_ID);
+    assert.ok(report);
+    assert.equal(report.deleted.trips, 1);
+    assert.equal(report.deleted.users, 1);
+
+    assert.deepEqual(await rowsMentioning(USER_ID), []);
+    assert.deepEqual(await rowsMentioning(USER_EMAIL), []);
+
+    const db = requireDatabase();
+    const [otherTrip] = await db.select().from(trips).where(eq(trips.id, otherTripId));
+    assert.equal(otherTrip.userId, OWNER_ID);
+
+    // Their edits stay in the other trip's history, without the author
+    const versions = await db.select().from(itineraries).where(eq(itineraries.tripId, otherTripId));
+    assert.deepEqual(versions.map(version => [version.version, version.createdBy]).sort(), [[1, OWNER_ID], [2, null]]);
+    const ops = await db.select().from(itineraryOps).where(eq(itineraryOps.tripId, otherTripId));
+    assert.equal(ops.length, 1);
+    assert.equal(ops[0].author, null);
+    assert.equal(ops[0].opId, 'r_1a2b3c4d_erased:1');
+    assert.equal((ops[0].op as Record<string, unknown>).value, 'Arrival day');
+    // Renamed consistently, so the op still loads
+    assert.equal(itineraryOpSchema.safeParse(ops[0].op).success, true);
+
+    assert.equal(await getObjectStore().get(uploadedKey), null);
+    assert.deepEqual((await db.select().from(webhooks)).map(webhook => webhook.eventId), ['evt_other']);
+  });
+});
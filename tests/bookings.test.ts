@@ -0,0 +1,126 @@
+import { closeTestDatabase, resetTestDatabase, skipWithoutDatabase } from './database';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { requireDatabase } from '@/lib/db';
+import { bookingEvents, users } from '@/lib/database/schema';
+import { cancelBooking, confirmBooking, createBookingQuote, holdBooking, type BookingActionResult } from '@/lib/booking/bookings';
+import { FakeBookingProvider, type FakeBookingProviderOptions, type FakeProviderOperation } from '@/lib/booking/fake-provider';
+import { registerBookingProvider, type ProviderBookingItem, type ProviderRequestContext } from '@/lib/booking/providers';
+
+const USER_ID = 'user_test_traveller';
+const TRAVELERS = [{ firstName: 'Ada', lastName: 'Lovelace' }];
+
+// Records what was cancelled, to tell a fresh reservation from an undone one
+class RecordingProvider extends FakeBookingProvider {
+  cancelledReferences: string[] = [];
+
+  constructor(options: FakeBookingProviderOptions) {
+    super(options);
+    registerBookingProvider(this);
+  }
+
+  async cancel(item: ProviderBookingItem, context: ProviderRequestContext) {
+    this.cancelledReferences.push(item.providerReference || item.offerId);
+    return super.cancel(item, context);
+  }
+}
+
+function offer(providerId: string, offerId: string, amount: number) {
+  return { providerId, kind: 'hotel' as const, offerId, title: `Offer ${offerId}`, listedPrice: { amount, currency: 'EUR' } };
+}
+
+async function quote(key: string, items: ReturnType<typeof offer>[]) {
+  const result = await createBookingQuote(USER_ID, { idempotencyKey: key, travelers: TRAVELERS, items });
+  assert.equal(result?.status, 'created');
+  return result.booking.booking.id;
+}
+
+function booked(result: BookingActionResult | null) {
+  assert.equal(result?.status, 'ok', JSON.stringify(result));
+  return result.booking;
+}
+
+describe('Booking lifecycle', { skip: skipWithoutDatabase }, () => {
+  beforeEach(async () => {
+    await resetTestDatabase();
+    await requireDatabase().insert(users).values({ id: USER_ID, email: 'traveller@example.com' });
+  });
+
+  after(closeTestDatabase);
+
+  it('quotes, holds and confirms, and replays a repeated request', async () => {
+    new RecordingProvider({ id: 'fake-hotels' });
+    const bookingId = await quote('quote-1', [offer('fake-hotels', 'h1', 240), offer('fake-hotels', 'h2', 160)]);
+
+    const held = booked(await holdBooking(USER_ID, bookingId, 'hold-1'));
+    assert.equal(held.booking.status, 'held');
+    assert.ok(held.items.every(item => item.status === 'held' && item.holdReference));
+
+    const confirmed = booked(await confirmBooking(USER_ID, bookingId, 'confirm-1'));
+    assert.equal(confirmed.booking.status, 'confirmed');
+    assert.equal(Number(confirmed.booking.totalAmount), 400);
+    assert.ok(confirmed.items.every(item => item.status === 'confirmed' && item.providerReference && !item.holdReference));
+
+    const replay = await confirmBooking(USER_ID, bookingId, 'confirm-1');
+    assert.equal(replay?.status === 'ok' && replay.replayed, true);
+    assert.equal((await holdBooking(USER_ID, bookingId, 'hold-2'))?.status, 'invalid_transition');
+
+    const events = await requireDatabase().select().from(bookingEvents);
+    assert.deepEqual(events.map(event => event.action).sort(), ['confirm', 'hold', 'quote']);
+  });
+
+  it('stores a moved price and confirms once it is accepted', async () => {
+    new RecordingProvider({ id: 'fake-drift', priceDrift: 0.1 });
+    const bookingId = await quote('quote-1', [offer('fake-drift', 'h1', 200)]);
+    booked(await holdBooking(USER_ID, bookingId, 'hold-1'));
+
+    const changed = await confirmBooking(USER_ID, bookingId, 'confirm-1');
+    assert.equal(changed?.status, 'price_changed');
+    assert.equal(changed.previousTotal, 200);
+    assert.equal(changed.booking.booking.status, 'held');
+    assert.equal(Number(changed.booking.booking.totalAmount), 220);
+
+    const confirmed = booked(await confirmBooking(USER_ID, bookingId, 'confirm-2'));
+    assert.equal(confirmed.booking.status, 'confirmed');
+    assert.equal(Number(confirmed.items[0].amount), 220);
+  });
+
+  it('cancels a quote without the provider and refunds a confirmed booking', async () => {
+    const provider = new RecordingProvider({ id: 'fake-refunds', refundRate: 0.5 });
+
+    const quoted = await quote('quote-1', [offer('fake-refunds', 'h1', 100)]);
+    const dropped = booked(await cancelBooking(USER_ID, quoted, 'cancel-1'));
+    assert.equal(dropped.booking.status, 'cancelled');
+    assert.deepEqual(provider.cancelledReferences, []);
+
+    const bookingId = await quote('quote-2', [offer('fake-refunds', 'h2', 300)]);
+    booked(await holdBooking(USER_ID, bookingId, 'hold-1'));
+    const reference = booked(await confirmBooking(USER_ID, bookingId, 'confirm-1')).items[0].providerReference;
+
+    const refunded = booked(await cancelBooking(USER_ID, bookingId, 'cancel-2', 'Plans changed'));
+    assert.equal(refunded.booking.status, 'refunded');
+    assert.equal(Number(refunded.booking.refundedAmount), 150);
+    assert.deepEqual(provider.cancelledReferences, [reference]);
+    assert.equal((await confirmBooking(USER_ID, bookingId, 'confirm-2'))?.status, 'invalid_transition');
+  });
+
+  it('undoes a partial confirmation and books afresh on retry', async () => {
+    const flights = new RecordingProvider({ id: 'fake-flights', capabilities: { hold: false } });
+    const failOn: FakeProviderOperation[] = ['confirm'];
+    new RecordingProvider({ id: 'fake-stays', failOn });
+
+    const bookingId = await quote('quote-1', [offer('fake-flights', 'f1', 500), offer('fake-stays', 'h1', 300)]);
+    booked(await holdBooking(USER_ID, bookingId, 'hold-1'));
+
+    const failed = await confirmBooking(USER_ID, bookingId, 'confirm-1');
+    assert.equal(failed?.status, 'provider_error');
+    assert.equal(flights.cancelledReferences.length, 1);
+
+    failOn.length = 0;
+    const confirmed = booked(await confirmBooking(USER_ID, bookingId, 'confirm-2'));
+    assert.equal(confirmed.booking.status, 'confirmed');
+    const flight = confirmed.items.find(item => item.providerId === 'fake-flights');
+    assert.ok(flight?.providerReference);
+    assert.equal(flights.cancelledReferences.includes(flight.providerReference), false);
+  });
+});
@@ -0,0 +1,46 @@
+// Postgres-backed tests run against a dedicated database named by
+// TEST_DATABASE_URL, and are skipped when it is not set. Import this module
+// before anything from `@/lib` so the app's client connects to it. Test
+// files share the database, so `npm test` runs them one at a time.
+
+import postgres from 'postgres';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
+
+export const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+if (testDatabaseUrl) {
+  process.env.DATABASE_URL = testDatabaseUrl;
+}
+
+export const skipWithoutDatabase = testDatabaseUrl ? false : 'TEST_DATABASE_URL is not set';
+
+let migrated = false;
+
+/**
+ * Bring the test database up to the current schema and empty every table
+ */
+export async function resetTestDatabase(): Promise<void> {
+  const client = postgres(testDatabaseUrl!, { max: 1, onnotice: () => {} });
+
+  try {
+    if (!migrated) {
+      await migrate(drizzle(client), { migrationsFolder: './lib/database/migrations' });
+      migrated = true;
+    }
+
+    const tables = await client<{ tablename: string }[]>`
+      select tablename from pg_tables where schemaname = 'public'
+    `;
+    if (tables.length > 0) {
+      await client.unsafe(`truncate ${tables.map(table => `"${table.tablename}"`).join(', ')} restart identity cascade`);
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+export async function closeTestDatabase(): Promise<void> {
+  const { closeConnection } = await import('@/lib/db');
+  await closeConnection();
+}
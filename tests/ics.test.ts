@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTimeZone, foldIcsLine, wallClockToInstant } from '@/lib/calendar/ics';
+import { TripExportService, type TripData } from '@/lib/services/trip-export';
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+describe('foldIcsLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    assert.equal(foldIcsLine(line), line);
+  });
+
+  it('folds long lines into 75-octet lines continued with a space', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldIcsLine(line).split('\r\n');
+
+    assert.equal(folded.length, 3);
+    assert.equal(octets(folded[0]), 75);
+    assert.ok(folded.slice(1).every(part => part.startsWith(' ') && octets(part) <= 75));
+    assert.equal(folded[0] + folded.slice(1).map(part => part.slice(1)).join(''), line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `LOCATION:${'é'.repeat(40)}${'🚆'.repeat(20)}`;
+    const parts = foldIcsLine(line).split('\r\n ');
+
+    assert.ok(parts.length > 1);
+    assert.ok(parts.every((part, index) => octets(part) <= (index === 0 ? 75 : 74)));
+    assert.ok(parts.every(part => !part.includes('�') && !/[\uD800-\uDBFF]$/.test(part)));
+    assert.equal(parts.join(''), line);
+  });
+});
+
+describe('buildTimeZone', () => {
+  it('adds a daylight observance at the spring change', () => {
+    const lines = buildTimeZone('Europe/Berlin', new Date('2026-03-27T00:00:00Z'), new Date('2026-04-02T00:00:00Z'));
+    assert.deepEqual(lines, [
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'X-LIC-LOCATION:Europe/Berlin',
+      'BEGIN:STANDARD',
+      'DTSTART:20260327T010000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260329T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('starts from daylight time and returns to standard time in the autumn', () => {
+    const lines = buildTimeZone('Europe/Berlin', new Date('2026-10-20T00:00:00Z'), new Date('2026-10-30T00:00:00Z'));
+    assert.deepEqual(lines.slice(3), [
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20261020T020000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20261025T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('has a single observance for zones without daylight saving', () => {
+    const lines = buildTimeZone('Asia/Kolkata', new Date('2026-03-01T00:00:00Z'), new Date('2026-11-01T00:00:00Z'));
+    assert.equal(lines.filter(line => line.startsWith('BEGIN:')).length, 2);
+    assert.ok(lines.includes('TZOFFSETTO:+0530'));
+  });
+});
+
+describe('wallClockToInstant', () => {
+  it('applies the offset in effect on the day', () => {
+    assert.equal(wallClockToInstant(new Date('2026-01-15T09:00:00Z'), 'Europe/Berlin').toISOString(), '2026-01-15T08:00:00.000Z');
+    assert.equal(wallClockToInstant(new Date('2026-07-15T09:00:00Z'), 'Europe/Berlin').toISOString(), '2026-07-15T07:00:00.000Z');
+    assert.equal(wallClockToInstant(new Date('2026-07-15T09:00:00Z'), 'Australia/Sydney').toISOString(), '2026-07-14T23:00:00.000Z');
+  });
+
+  it('moves times skipped by the spring change to the later offset', () => {
+    assert.equal(wallClockToInstant(new Date('2026-03-29T02:30:00Z'), 'Europe/Berlin').toISOString(), '2026-03-29T01:30:00.000Z');
+  });
+
+  it('reads UTC wall clocks unchanged', () => {
+    assert.equal(wallClockToInstant(new Date('2026-03-29T02:30:00Z'), 'UTC').toISOString(), '2026-03-29T02:30:00.000Z');
+  });
+});
+
+describe('ICS trip export', () => {
+  const tripData: TripData = {
+    id: 'trip-1',
+    title: 'Berlin, spring',
+    dates: { startDate: '2026-03-28T00:00:00.000Z', endDate: '2026-03-30T00:00:00.000Z', duration: 2 },
+    destinations: {
+      origin: { id: 'o', name: 'Berlin', address: 'Berlin, Germany', coordinates: [13.4, 52.5], type: 'city' },
+      destination: { id: 'd', name: 'Berlin', address: 'Berlin, Germany', coordinates: [13.4, 52.5], type: 'city' },
+    },
+    participants: { adults: 1, children: 0 },
+    transportation: [],
+    accommodations: [],
+    activities: [{
+      id: 'a1',
+      name: 'Museum Island, guided',
+      category: 'cultural',
+      location: { id: 'l', name: 'Museum Island', address: 'Bodestraße 1, Berlin', coordinates: [13.4, 52.52], type: 'activity' },
+      dateTime: '2026-03-29T10:00:00.000Z',
+      duration: 90,
+    }],
+    dining: [],
+    timeZone: 'Europe/Berlin',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+  };
+
+  it('writes wall-clock times with the destination zone and its VTIMEZONE', async () => {
+    const result = await new TripExportService().exportTrip(tripData, { format: 'ics' });
+    const ics = String(result.data);
+
+    assert.equal(result.success, true);
+    assert.ok(ics.includes('BEGIN:VTIMEZONE\r\nTZID:Europe/Berlin'));
+    assert.ok(ics.includes('DTSTART;TZID=Europe/Berlin:20260329T100000'));
+    assert.ok(ics.includes('DTEND;TZID=Europe/Berlin:20260329T113000'));
+    assert.ok(ics.includes('DTSTART;VALUE=DATE:20260328'));
+    assert.ok(ics.includes('SUMMARY:Museum Island\\, guided'));
+    assert.ok(ics.split('\r\n').every(line => octets(line) <= 75));
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ItineraryDocument, itineraryOpSchema, type ItineraryOp } from '@/lib/collaboration/itinerary-crdt';
+
+// Deterministic PRNG so a failing interleaving can be reproduced from its seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function shuffle<T>(random: () => number, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// A random local edit against whatever the replica currently sees
+function randomEdit(doc: ItineraryDocument, random: () => number, step: number): ItineraryOp {
+  const days = doc.toItineraryData().days;
+  const activities = days.flatMap(day => day.activities.map(activity => ({ dayId: day.id, id: activity.id })));
+  const roll = random();
+
+  if (days.length === 0 || roll < 0.15) {
+    return doc.insertDay({ title: `Day ${step}` }, Math.floor(random() * (days.length + 1)));
+  }
+  if (roll < 0.4) {
+    const day = pick(random, days);
+    return doc.insertActivity(day.id, { name: `Activity ${step}` }, Math.floor(random() * (day.activities.length + 1)));
+  }
+  if (activities.length > 0 && roll < 0.6) {
+    return doc.setActivityField(pick(random, activities).id, pick(random, ['name', 'notes', 'cost']), `${doc.replicaId}-${step}`);
+  }
+  if (activities.length > 0 && roll < 0.75) {
+    const day = pick(random, days);
+    return doc.moveActivity(pick(random, activities).id, day.id, Math.floor(random() * (day.activities.length + 1)));
+  }
+  if (roll < 0.85) {
+    return doc.setDayField(pick(random, days).id, 'title', `${doc.replicaId}-${step}`);
+  }
+  if (roll < 0.92) {
+    return doc.moveDay(pick(random, days).id, Math.floor(random() * days.length));
+  }
+  if (activities.length > 0 && roll < 0.97) {
+    return doc.deleteActivity(pick(random, activities).id);
+  }
+  return doc.deleteDay(pick(random, days).id);
+}
+
+describe('ItineraryDocument convergence', () => {
+  for (let seed = 1; seed <= 25; seed++) {
+    it(`converges for any interleaving of two replicas' ops (seed ${seed})`, () => {
+      const random = createRandom(seed);
+
+      // Both replicas start from the same seeded itinerary, then edit concurrently
+      const base = ItineraryDocument.fromItineraryData({
+        days: [
+          { id: 'd1', title: 'Arrival', activities: [{ id: 'a1', name: 'Check in' }] },
+          { id: 'd2', title: 'City', activities: [{ id: 'a2', name: 'Museum' }, { id: 'a3', name: 'Dinner' }] },
+        ],
+      });
+      const alice = ItineraryDocument.fromOps(base.getOps(), 'alice');
+      const bob = ItineraryDocument.fromOps(base.getOps(), 'bob');
+
+      const aliceOps: ItineraryOp[] = [];
+      const bobOps: ItineraryOp[] = [];
+      for (let step = 0; step < 30; step++) {
+        aliceOps.push(randomEdit(alice, random, step));
+        bobOps.push(randomEdit(bob, random, step));
+        // Occasionally sync part-way, as a live session would
+        if (random() < 0.2) {
+          alice.merge(bobOps);
+          bob.merge(aliceOps);
+        }
+      }
+
+      const all = [...base.getOps(), ...aliceOps, ...bobOps];
+      alice.merge(all);
+      bob.merge(all);
+      const expected = alice.toItineraryData();
+      assert.deepEqual(bob.toItineraryData(), expected);
+
+      // Fresh replicas receiving the ops shuffled and with duplicates agree too
+      for (let replica = 0; replica < 10; replica++) {
+        const duplicates = all.filter(() => random() < 0.3);
+        const doc = ItineraryDocument.fromOps(shuffle(random, [...all, ...duplicates]), `replica-${replica}`);
+        assert.deepEqual(doc.toItineraryData(), expected);
+        assert.equal(doc.version, all.length);
+      }
+    });
+  }
+
+  it('rejects an op whose id does not match its stamp', () => {
+    const doc = new ItineraryDocument('alice');
+    const insert = doc.insertDay({ title: 'Day 1' }, 0, 'd1');
+    const set = doc.setDayField('d1', 'title', 'Original');
+
+    // Same (counter, replicaId) as `set` but a different id and value
+    const forged = { ...set, id: 'forged', value: 'Forged' } as ItineraryOp;
+    assert.equal(itineraryOpSchema.safeParse(forged).success, false);
+
+    const replica = ItineraryDocument.fromOps([insert, forged, set], 'bob');
+    assert.deepEqual(replica.toItineraryData(), doc.toItineraryData());
+    assert.equal(replica.toItineraryData().days[0].title, 'Original');
+  });
+});
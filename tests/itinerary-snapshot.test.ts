@@ -0,0 +1,109 @@
+import { closeTestDatabase, resetTestDatabase, skipWithoutDatabase } from './database';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { requireDatabase } from '@/lib/db';
+import { trips, users } from '@/lib/database/schema';
+import { ItineraryDocument } from '@/lib/collaboration/itinerary-crdt';
+import { appendItineraryOps, loadItineraryOpLog, snapshotItineraryOps } from '@/lib/collaboration/itinerary-op-log';
+import {
+  appendItineraryVersion,
+  getItineraryVersion,
+  listItineraryVersions,
+  restoreItineraryVersion,
+} from '@/lib/planning/itinerary-versions';
+
+const OWNER_ID = 'user_test_owner';
+
+// A collaborator's replica, brought up to date with the trip's op log
+async function joinLog(tripId: string) {
+  const log = await loadItineraryOpLog(tripId);
+  return { ...log, doc: ItineraryDocument.fromOps(log.ops, 'alice') };
+}
+
+describe('Itinerary op-log snapshots', { skip: skipWithoutDatabase }, () => {
+  let tripId: string;
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    const db = requireDatabase();
+    await db.insert(users).values({ id: OWNER_ID, email: 'owner@example.com' });
+    const [trip] = await db.insert(trips).values({
+      userId: OWNER_ID,
+      title: 'Lisbon',
+      destinations: [{ city: 'Lisbon', country: 'Portugal' }],
+      startDate: new Date('2026-11-01'),
+      endDate: new Date('2026-11-03'),
+      tripType: 'leisure',
+    }).returning({ id: trips.id });
+    tripId = trip.id;
+  });
+
+  after(closeTestDatabase);
+
+  it('seeds the op log from the generated itinerary and snapshots edits in its shape', async () => {
+    const generated = {
+      overview: 'Three days in Lisbon',
+      dailyItinerary: [
+        { day: 1, title: 'Arrival', activities: [{ name: 'Check in' }] },
+        { day: 2, title: 'Belém', activities: [{ name: 'Tower' }] },
+      ],
+    };
+    await appendItineraryVersion(tripId, { data: generated, source: 'generated', createdBy: OWNER_ID });
+
+    const { baseVersion, ops, doc } = await joinLog(tripId);
+    assert.equal(baseVersion, 1);
+    assert.deepEqual(doc.toItineraryData().days.map(day => day.title), ['Arrival', 'Belém']);
+
+    const seeded = doc.version;
+    doc.setActivityField('day_1_activity_1', 'name', 'Hotel check-in');
+    assert.equal(await appendItineraryOps(tripId, baseVersion, doc.getOpsSince(seeded)), 1);
+    assert.equal((await loadItineraryOpLog(tripId)).ops.length, ops.length + 1);
+
+    const snapshot = await snapshotItineraryOps(tripId, OWNER_ID);
+    assert.equal(snapshot?.version, 2);
+    assert.equal(snapshot?.source, 'edit');
+
+    const data = (await getItineraryVersion(tripId))?.data as Record<string, any>;
+    assert.equal(data.overview, 'Three days in Lisbon');
+    assert.equal('days' in data, false);
+    assert.deepEqual(data.dailyItinerary.map((day: any) => day.activities[0].name), ['Hotel check-in', 'Tower']);
+
+    // The snapshot continues the same log
+    assert.equal((await loadItineraryOpLog(tripId)).baseVersion, 1);
+  });
+
+  it('skips the snapshot when the days are unchanged', async () => {
+    await appendItineraryVersion(tripId, { data: { days: [{ id: 'd1', title: 'Arrival' }] }, source: 'generated' });
+    await loadItineraryOpLog(tripId);
+    assert.equal(await snapshotItineraryOps(tripId, OWNER_ID), null);
+
+    const doc = new ItineraryDocument('alice');
+    doc.insertDay({ title: 'Day trip' }, 1, 'd2');
+    await appendItineraryOps(tripId, 1, doc.getOps());
+
+    assert.ok(await snapshotItineraryOps(tripId, OWNER_ID));
+    assert.equal(await snapshotItineraryOps(tripId, OWNER_ID), null);
+    assert.equal((await listItineraryVersions(tripId)).length, 2);
+  });
+
+  it('starts the log over when a version is restored', async () => {
+    await appendItineraryVersion(tripId, { data: { days: [{ id: 'd1', title: 'Arrival' }] }, source: 'generated' });
+    const first = await joinLog(tripId);
+    first.doc.setDayField('d1', 'title', 'Arrival day');
+    await appendItineraryOps(tripId, first.baseVersion, first.doc.getOpsSince(first.ops.length));
+    await snapshotItineraryOps(tripId, OWNER_ID);
+
+    const restored = await restoreItineraryVersion(tripId, 1, OWNER_ID);
+    assert.equal(restored?.version, 3);
+
+    const { baseVersion, doc } = await joinLog(tripId);
+    assert.equal(baseVersion, 3);
+    assert.equal(doc.toItineraryData().days[0].title, 'Arrival');
+
+    // An edit made on the replaced itinerary does not reach the new log
+    first.doc.setDayField('d1', 'title', 'Late edit');
+    await appendItineraryOps(tripId, first.baseVersion, first.doc.getOpsSince(first.ops.length + 1));
+    assert.equal(await snapshotItineraryOps(tripId, OWNER_ID), null);
+    assert.deepEqual((await getItineraryVersion(tripId))?.data, { days: [{ id: 'd1', title: 'Arrival' }] });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHEAPEST_WEIGHTS,
+  chooseLegCombination,
+  shortlistLegOptions,
+  type JourneyLeg,
+  type LegMode,
+  type LegOption,
+} from '@/lib/services/multi-city-itinerary';
+
+const LEGS: JourneyLeg[] = [
+  { from: { name: 'Paris' }, to: { name: 'Lyon' }, departureDate: '2026-11-04' },
+  { from: { name: 'Lyon' }, to: { name: 'Milan' }, departureDate: '2026-11-04' },
+];
+
+function option(offerId: string, mode: LegMode, departure: string, arrival: string, amount: number, transfers = 0): LegOption {
+  const start = `2026-11-04T${departure}:00Z`;
+  const end = `2026-11-04T${arrival}:00Z`;
+  return {
+    mode,
+    offerId,
+    provider: 'test',
+    provenance: 'synthetic',
+    departure: start,
+    arrival: end,
+    duration: (Date.parse(end) - Date.parse(start)) / 60_000,
+    transfers,
+    price: { amount, currency: 'EUR' },
+  };
+}
+
+const ids = (options: LegOption[]) => options.map(item => item.offerId);
+
+describe('shortlistLegOptions', () => {
+  it('drops options that miss every connection before picking the cheapest', () => {
+    const toLyon = [
+      option('late-1', 'train', '12:00', '14:00', 40),
+      option('late-2', 'train', '13:00', '15:00', 45),
+      option('late-3', 'train', '14:00', '16:00', 50),
+      option('late-4', 'train', '15:00', '17:00', 55),
+      option('early', 'train', '07:00', '09:00', 120),
+    ];
+    const toMilan = [option('onward', 'train', '10:30', '14:00', 60)];
+
+    const shortlist = shortlistLegOptions(LEGS, [toLyon, toMilan], 60);
+    assert.deepEqual(shortlist.map(ids), [['early'], ['onward']]);
+
+    const best = chooseLegCombination(LEGS, shortlist, CHEAPEST_WEIGHTS, 60, 'EUR');
+    assert.deepEqual(best && ids(best.options), ['early', 'onward']);
+  });
+
+  it('keeps the fastest and most direct options of each mode alongside the cheapest', () => {
+    const toLyon = [
+      option('bus-1', 'bus', '06:00', '12:00', 20, 1),
+      option('bus-2', 'bus', '06:10', '12:10', 21, 1),
+      option('bus-3', 'bus', '06:20', '12:20', 22, 1),
+      option('bus-4', 'bus', '06:30', '12:30', 23, 1),
+      option('bus-direct', 'bus', '06:40', '12:40', 30),
+      option('bus-fast', 'bus', '08:00', '12:00', 35, 1),
+      option('train', 'train', '09:00', '11:00', 90),
+    ];
+    const toMilan = [option('onward', 'train', '16:00', '19:30', 60)];
+
+    const [shortlist] = shortlistLegOptions(LEGS, [toLyon, toMilan], 60);
+    assert.deepEqual(ids(shortlist).sort(), ['bus-1', 'bus-2', 'bus-3', 'bus-direct', 'bus-fast', 'train']);
+  });
+
+  it('shortlists every leg on its own when no journey connects', () => {
+    const toLyon = [option('evening', 'train', '18:00', '20:00', 40)];
+    const toMilan = [option('morning', 'train', '08:00', '11:30', 60)];
+
+    assert.deepEqual(shortlistLegOptions(LEGS, [toLyon, toMilan], 60).map(ids), [['evening'], ['morning']]);
+    assert.equal(chooseLegCombination(LEGS, [toLyon, toMilan], CHEAPEST_WEIGHTS, 60, 'EUR'), null);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { QrCodeCapacityError, encodeQrCode } from '@/lib/documents/qr-code';
+
+// Symbols are read back as a scanner would and compared with codewords
+// computed independently of the encoder, whose Reed-Solomon step reproduces
+// the worked example of ISO/IEC 18004 Annex I (01234567, version 1-M).
+const vectors: Array<{ text: string; version: number; codewords: string }> =
+  JSON.parse(readFileSync('tests/fixtures/qr-code/vectors.json', 'utf8'));
+
+// Level M format information for masks 0-7 (ISO/IEC 18004 Table C.1)
+const FORMAT_M = [
+  '101010000010010', '101000100100101', '101111001111100', '101101101001011',
+  '100010111111001', '100000011001110', '100111110010111', '100101010100000',
+];
+
+const MASKS: Array<(row: number, column: number) => boolean> = [
+  (i, j) => (i + j) % 2 === 0,
+  i => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => (i * j) % 2 + (i * j) % 3 === 0,
+  (i, j) => ((i * j) % 2 + (i * j) % 3) % 2 === 0,
+  (i, j) => ((i + j) % 2 + (i * j) % 3) % 2 === 0,
+];
+
+const bit = (dark: boolean) => (dark ? '1' : '0');
+
+// Finders with their separators and format areas, timing patterns and,
+// from version 2, the single alignment pattern
+function isFunctionModule(size: number, row: number, column: number): boolean {
+  const near = (value: number) => value < 9;
+  const far = (value: number) => value >= size - 8;
+  if ((near(row) && near(column)) || (near(row) && far(column)) || (far(row) && near(column))) return true;
+  if (row === 6 || column === 6) return true;
+  return size > 21 && Math.abs(row - (size - 7)) <= 2 && Math.abs(column - (size - 7)) <= 2;
+}
+
+function readFormat(modules: boolean[][]): { first: string; second: string } {
+  const size = modules.length;
+  const first = [0, 1, 2, 3, 4, 5, 7, 8].map(column => bit(modules[8][column])).join('') +
+    [7, 5, 4, 3, 2, 1, 0].map(row => bit(modules[row][8])).join('');
+  const second = [0, 1, 2, 3, 4, 5, 6].map(i => bit(modules[size - 1 - i][8])).join('') +
+    [8, 7, 6, 5, 4, 3, 2, 1].map(i => bit(modules[8][size - i])).join('');
+  return { first, second };
+}
+
+// Unmask and read the data region in two-module columns from the bottom right
+function readCodewords(modules: boolean[][], mask: number): string {
+  const size = modules.length;
+  let bits = '';
+  let upward = true;
+  for (let right = size - 1; right > 0; right -= 2) {
+    if (right === 6) right--;
+    for (let step = 0; step < size; step++) {
+      const row = upward ? size - 1 - step : step;
+      [right, right - 1].forEach(column => {
+        if (!isFunctionModule(size, row, column)) {
+          bits += bit(modules[row][column] !== MASKS[mask](row, column));
+        }
+      });
+    }
+    upward = !upward;
+  }
+  const bytes = bits.slice(0, bits.length - bits.length % 8).match(/.{8}/g) || [];
+  return bytes.map(byte => parseInt(byte, 2).toString(16).padStart(2, '0')).join('');
+}
+
+describe('encodeQrCode', () => {
+  const masks = new Set<number>();
+
+  vectors.forEach(vector => {
+    it(`encodes "${vector.text.slice(0, 16)}" (${Buffer.byteLength(vector.text)} bytes) as version ${vector.version}-M`, () => {
+      const modules = encodeQrCode(vector.text);
+      const size = modules.length;
+      assert.equal(size, vector.version * 4 + 17);
+
+      const finder = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'];
+      assert.deepEqual(modules.slice(0, 7).map(row => row.slice(0, 7).map(bit).join('')), finder);
+      assert.deepEqual(modules.slice(0, 7).map(row => row.slice(size - 7).map(bit).join('')), finder);
+      assert.deepEqual(modules.slice(size - 7).map(row => row.slice(0, 7).map(bit).join('')), finder);
+      assert.equal(modules[size - 8][8], true);
+
+      const { first, second } = readFormat(modules);
+      assert.equal(second, first);
+      const mask = FORMAT_M.indexOf(first);
+      assert.ok(mask >= 0, `unexpected format information ${first}`);
+      masks.add(mask);
+
+      const codewords = readCodewords(modules, mask);
+      assert.equal(codewords.slice(0, vector.codewords.length), vector.codewords);
+    });
+  });
+
+  it('chooses each of the eight masks for some vector', () => {
+    assert.deepEqual([...masks].sort(), [0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('rejects text longer than version 6 holds', () => {
+    assert.equal(encodeQrCode('V'.repeat(106)).length, 41);
+    assert.throws(() => encodeQrCode('V'.repeat(107)), QrCodeCapacityError);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryRateLimitStore } from '@/lib/security/rate-limit-store';
+
+const MINUTE = 60 * 1000;
+const QUARTER_HOUR = 15 * MINUTE;
+
+// A time aligned to both window lengths
+const T0 = QUARTER_HOUR * 2_000_000;
+
+describe('MemoryRateLimitStore', () => {
+  it('keeps long-window counters when a short-window budget sweeps', async () => {
+    const store = new MemoryRateLimitStore();
+
+    for (let i = 0; i < 5; i++) {
+      await store.hit('auth:user:1', T0, QUARTER_HOUR);
+    }
+
+    // Two minutes later an `ai` (60s) hit on another key triggers a sweep
+    await store.hit('ai:user:2', T0 + 2 * MINUTE, MINUTE);
+
+    assert.deepEqual(await store.hit('auth:user:1', T0, QUARTER_HOUR), { current: 6, previous: 0 });
+  });
+
+  it('keeps the previous window of a long budget for the sliding estimate', async () => {
+    const store = new MemoryRateLimitStore();
+
+    for (let i = 0; i < 6; i++) {
+      await store.hit('api:user:1', T0, QUARTER_HOUR);
+    }
+
+    // Short-window traffic during the next quarter hour sweeps repeatedly
+    for (let minute = 15; minute < 20; minute++) {
+      await store.hit('ai:user:2', T0 + minute * MINUTE, MINUTE);
+    }
+
+    assert.deepEqual(await store.hit('api:user:1', T0 + QUARTER_HOUR, QUARTER_HOUR), { current: 1, previous: 6 });
+  });
+
+  it('still expires short-window counters', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('ai:user:1', T0, MINUTE);
+    await store.hit('ai:user:1', T0, MINUTE);
+    await store.hit('ai:user:2', T0 + 5 * MINUTE, MINUTE);
+
+    assert.deepEqual(await store.hit('ai:user:1', T0 + 5 * MINUTE, MINUTE), { current: 1, previous: 0 });
+  });
+});
@@ -0,0 +1,121 @@
+import { closeTestDatabase, resetTestDatabase, skipWithoutDatabase } from './database';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { eq } from 'drizzle-orm';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/webhooks/razorpay/route';
+import { requireDatabase } from '@/lib/db';
+import { profiles, users, webhooks } from '@/lib/database/schema';
+import { claimWebhook } from '@/lib/webhooks/webhook-log';
+
+const SECRET = 'test_webhook_secret';
+const USER_ID = 'user_test_subscriber';
+
+process.env.RAZORPAY_WEBHOOK_SECRET = SECRET;
+
+function fixture(name: string): string {
+  return readFileSync(`tests/fixtures/razorpay/${name}.json`, 'utf8');
+}
+
+async function deliver(body: string, eventId: string, signature = createHmac('sha256', SECRET).update(body).digest('hex')) {
+  const response = await POST(new NextRequest('http://localhost/api/webhooks/razorpay', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-razorpay-signature': signature,
+      'x-razorpay-event-id': eventId,
+    },
+    body,
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+async function subscriberProfile() {
+  const [profile] = await requireDatabase()
+    .select()
+    .from(profiles)
+    .where(eq(profiles.userId, USER_ID));
+  return profile;
+}
+
+describe('Razorpay webhook', { skip: skipWithoutDatabase }, () => {
+  beforeEach(async () => {
+    await resetTestDatabase();
+    const db = requireDatabase();
+    await db.insert(users).values({ id: USER_ID, email: 'subscriber@example.com' });
+    await db.insert(profiles).values({ userId: USER_ID });
+  });
+
+  after(closeTestDatabase);
+
+  it('rejects a delivery with a bad signature', async () => {
+    const { status } = await deliver(fixture('subscription.activated'), 'evt_bad', 'not-a-signature');
+    assert.equal(status, 400);
+    assert.equal((await requireDatabase().select().from(webhooks)).length, 0);
+  });
+
+  it('applies a subscription lifecycle delivered in order', async () => {
+    assert.equal((await deliver(fixture('subscription.activated'), 'evt_activated')).status, 200);
+    let profile = await subscriberProfile();
+    assert.equal(profile.subscriptionTier, 'starter');
+    assert.equal(profile.subscriptionStatus, 'active');
+    assert.equal(profile.subscriptionId, 'sub_TestStarter0001');
+    assert.equal(profile.razorpayCustomerId, 'cust_TestCustomer001');
+    assert.equal(profile.subscriptionCurrentPeriodEnd?.getTime(), 1795075200 * 1000);
+
+    assert.equal((await deliver(fixture('subscription.charged'), 'evt_charged')).status, 200);
+    profile = await subscriberProfile();
+    assert.equal(profile.subscriptionCurrentPeriodEnd?.getTime(), 1797667200 * 1000);
+
+    // The cancellation carries no notes and is attributed by subscription ID
+    assert.equal((await deliver(fixture('subscription.cancelled'), 'evt_cancelled')).status, 200);
+    profile = await subscriberProfile();
+    assert.equal(profile.subscriptionStatus, 'cancelled');
+    assert.equal(profile.subscriptionTier, 'starter');
+    assert.equal(profile.subscriptionEventAt?.getTime(), 1796000010 * 1000);
+  });
+
+  it('does not let a late charge reactivate a cancelled subscription', async () => {
+    await deliver(fixture('subscription.activated'), 'evt_activated');
+    await deliver(fixture('subscription.cancelled'), 'evt_cancelled');
+
+    const late = await deliver(fixture('subscription.charged'), 'evt_charged');
+    assert.equal(late.status, 200);
+
+    const profile = await subscriberProfile();
+    assert.equal(profile.subscriptionStatus, 'cancelled');
+    assert.equal(profile.subscriptionCurrentPeriodEnd?.getTime(), 1797667200 * 1000);
+    assert.equal(profile.subscriptionEventAt?.getTime(), 1796000010 * 1000);
+  });
+
+  it('upgrades the tier for a paid one-off order', async () => {
+    assert.equal((await deliver(fixture('order.paid'), 'evt_order')).status, 200);
+
+    const profile = await subscriberProfile();
+    assert.equal(profile.subscriptionTier, 'pro');
+    assert.equal(profile.subscriptionStatus, 'active');
+    assert.equal(profile.subscriptionCurrentPeriodEnd?.getTime(), (1792396910 + 30 * 24 * 60 * 60) * 1000);
+  });
+
+  it('handles a redelivered event once', async () => {
+    const body = fixture('subscription.activated');
+    assert.deepEqual((await deliver(body, 'evt_repeat')).body, { received: true });
+    assert.deepEqual((await deliver(body, 'evt_repeat')).body, { received: true, duplicate: true });
+
+    const rows = await requireDatabase().select().from(webhooks);
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].processed, true);
+  });
+
+  it('leaves an event claimed by another delivery alone', async () => {
+    const body = fixture('subscription.activated');
+    const claim = await claimWebhook('razorpay', 'evt_in_flight', 'subscription.activated', JSON.parse(body));
+    assert.equal(claim?.status, 'claimed');
+
+    const { status } = await deliver(body, 'evt_in_flight');
+    assert.equal(status, 409);
+    assert.equal((await subscriberProfile()).subscriptionStatus, null);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Activity } from '@/components/planning/TimelineBuilder';
+import {
+  DEFAULT_MEAL_WINDOWS,
+  getOpenWindows,
+  parseOpeningHours,
+  solveDaySchedule,
+  type ScheduleOptions,
+} from '@/lib/planning/schedule-solver';
+
+// A Wednesday. The solver works in local wall-clock time, so times are built
+// and read back with local getters to pass in any zone.
+const DATE = '2026-11-04';
+
+function at(clock: string): string {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return new Date(2026, 10, 4, hours, minutes).toISOString();
+}
+
+function clock(iso: string): string {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function activity(id: string, duration: number, extra: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    title: id,
+    category: 'sightseeing',
+    location: { name: id, address: '', coordinates: { lat: 0, lng: 0 } },
+    timeSlot: { start: at('09:00'), end: at('10:00'), duration },
+    ...extra,
+  };
+}
+
+function solve(activities: Activity[], options: ScheduleOptions = {}) {
+  const result = solveDaySchedule(activities, { date: DATE, meals: [], ...options });
+  return {
+    ...result,
+    times: Object.fromEntries(result.stops.map(stop => [stop.activityId, `${clock(stop.start)}-${clock(stop.end)}`])),
+    reasons: Object.fromEntries(result.unscheduled.map(item => [item.activity.id, item.reason])),
+  };
+}
+
+describe('parseOpeningHours', () => {
+  it('reads Foursquare regular hours with days counted from Monday', () => {
+    const week = parseOpeningHours({
+      regular: [
+        { day: 1, open: '0900', close: '1700' },
+        { day: 7, open: '1000', close: '1400' },
+      ],
+    });
+    assert.deepEqual(week?.[1], [{ start: 540, end: 1020 }]);
+    assert.deepEqual(week?.[0], [{ start: 600, end: 840 }]);
+    assert.deepEqual(week?.[3], []);
+  });
+
+  it('reads Google periods, including ones that run past midnight', () => {
+    const week = parseOpeningHours({
+      periods: [
+        { open: { day: 3, time: '1100' }, close: { day: 3, time: '2300' } },
+        { open: { day: 5, time: '1800' }, close: { day: 6, time: '0200' } },
+      ],
+    });
+    assert.deepEqual(week?.[3], [{ start: 660, end: 1380 }]);
+    assert.deepEqual(week?.[5], [{ start: 1080, end: 1560 }]);
+    assert.deepEqual(getOpenWindows(week!, 6), [{ start: 0, end: 120 }]);
+  });
+
+  it('treats a Google period without a close time as always open', () => {
+    const week = parseOpeningHours({ periods: [{ open: { day: 0, time: '0000' } }] });
+    assert.ok([0, 1, 2, 3, 4, 5, 6].every(day => week?.[day].length === 1 && week[day][0].end === 1440));
+  });
+
+  it('reads Google weekday_text', () => {
+    const week = parseOpeningHours({
+      weekday_text: [
+        'Monday: 9:00 AM – 5:00 PM',
+        'Tuesday: Closed',
+        'Wednesday: 9:00 AM – 12:00 PM, 1:00 PM – 5:30 PM',
+        'Sunday: Open 24 hours',
+      ],
+    });
+    assert.deepEqual(week?.[1], [{ start: 540, end: 1020 }]);
+    assert.deepEqual(week?.[2], []);
+    assert.deepEqual(week?.[3], [{ start: 540, end: 720 }, { start: 780, end: 1050 }]);
+    assert.deepEqual(week?.[0], [{ start: 0, end: 1440 }]);
+  });
+
+  it('moves overnight hours into the next morning', () => {
+    const week = parseOpeningHours({ fri: '18:00-02:00', sat: '12:00-15:00' });
+    assert.deepEqual(week?.[5], [{ start: 1080, end: 1560 }]);
+    assert.deepEqual(getOpenWindows(week!, 6), [{ start: 0, end: 120 }, { start: 720, end: 900 }]);
+  });
+
+  it('returns null for unknown hours', () => {
+    assert.equal(parseOpeningHours(null), null);
+    assert.equal(parseOpeningHours({ note: 'call ahead' }), null);
+  });
+});
+
+describe('solveDaySchedule', () => {
+  it('waits for a place to open', () => {
+    const result = solve([
+      activity('museum', 120, { openingHours: { weekday_text: ['Wednesday: 10:00 AM – 6:00 PM'] } }),
+    ]);
+    assert.deepEqual(result.times, { museum: '10:00-12:00' });
+    assert.equal(result.totalWaitTime, 60);
+  });
+
+  it('schedules into hours that spill over from the previous night', () => {
+    const result = solve(
+      [activity('bar', 60, { openingHours: { tue: '22:00-03:00' } })],
+      { dayStart: '00:30', dayEnd: '22:00' }
+    );
+    assert.deepEqual(result.times, { bar: '00:30-01:30' });
+  });
+
+  it('keeps locked activities in place and plans around them', () => {
+    const result = solve([
+      activity('walk', 90),
+      activity('tour', 120, { locked: true, timeSlot: { start: at('10:00'), end: at('12:00'), duration: 120 } }),
+    ]);
+    assert.deepEqual(result.times, { tour: '10:00-12:00', walk: '12:00-13:30' });
+    assert.equal(result.stops.find(stop => stop.activityId === 'tour')?.locked, true);
+  });
+
+  it('rejects a lock that overlaps another lock', () => {
+    const clash = solve(
+      [activity('ferry', 60), activity('lunch', 90)],
+      { locks: { ferry: at('12:00'), lunch: at('12:30') } }
+    );
+    assert.deepEqual(clash.times, { ferry: '12:00-13:00' });
+    assert.deepEqual(clash.reasons, { lunch: 'conflicts_with_lock' });
+  });
+
+  it('inserts meal breaks where no dining activity covers them', () => {
+    const result = solve([activity('castle', 180), activity('market', 120)], { meals: DEFAULT_MEAL_WINDOWS });
+    assert.deepEqual(result.times, { castle: '09:00-12:00', market: '13:00-15:00' });
+    assert.deepEqual(
+      result.mealBreaks.map(meal => [meal.name, clock(meal.start), clock(meal.end), meal.activityId]),
+      [['Lunch', '12:00', '13:00', undefined], ['Dinner', '18:30', '20:00', undefined]]
+    );
+  });
+
+  it('lets a dining activity stand in for the meal', () => {
+    const result = solve(
+      [activity('castle', 180), activity('tasca', 75, { category: 'dining' })],
+      { meals: [{ name: 'Lunch', start: '12:00', end: '14:30', duration: 60 }] }
+    );
+    assert.deepEqual(result.times, { castle: '09:00-12:00', tasca: '12:00-13:15' });
+    assert.deepEqual(result.mealBreaks.map(meal => [meal.name, meal.activityId]), [['Lunch', 'tasca']]);
+  });
+
+  it('gives a reason for each activity it cannot place', () => {
+    const result = solve([
+      // Closed all day on Wednesdays
+      activity('gallery', 60, { openingHours: { weekday_text: ['Wednesday: Closed'] } }),
+      // Only open before the planned day starts
+      activity('bakery', 60, { openingHours: { wed: '06:00-08:00' } }),
+      // Longer than the whole day
+      activity('hike', 15 * 60),
+      // Its only open slot is taken by the locked boat trip
+      activity('chapel', 90, { openingHours: { wed: '10:00-12:00' } }),
+      activity('boat', 60, { locked: true, timeSlot: { start: at('10:30'), end: at('11:30'), duration: 60 } }),
+      // Two visits that both need the same short window
+      activity('crypt', 90, { openingHours: { wed: '14:00-15:30' } }),
+      activity('tower', 90, { openingHours: { wed: '14:00-15:30' } }),
+    ]);
+
+    assert.equal(result.times.boat, '10:30-11:30');
+    const noTime = ['crypt', 'tower'].filter(id => result.reasons[id] === 'no_time');
+    assert.equal(noTime.length, 1);
+    assert.equal(result.times[['crypt', 'tower'].find(id => !noTime.includes(id))!], '14:00-15:30');
+    assert.deepEqual(
+      { gallery: result.reasons.gallery, bakery: result.reasons.bakery, hike: result.reasons.hike, chapel: result.reasons.chapel },
+      { gallery: 'closed', bakery: 'outside_day', hike: 'outside_day', chapel: 'conflicts_with_lock' }
+    );
+    assert.ok(result.unscheduled.every(item => item.message.includes(item.activity.title)));
+  });
+});
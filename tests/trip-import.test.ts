@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { importTripFiles, type TripImportResult } from '@/lib/import/trip-import';
+import { findElements, parseXml } from '@/lib/import/xml';
+import { TripExportService, type TripData } from '@/lib/services/trip-export';
+
+function file(fileName: string, text: string) {
+  return { fileName, data: new TextEncoder().encode(text) };
+}
+
+function preview(result: TripImportResult) {
+  assert.equal(result.status, 'ok', JSON.stringify(result));
+  return result.preview;
+}
+
+const tripData: TripData = {
+  id: 'trip-1',
+  title: 'Lisbon long weekend',
+  dates: { startDate: '2026-11-02T00:00:00.000Z', endDate: '2026-11-05T00:00:00.000Z', duration: 3 },
+  destinations: {
+    origin: { id: 'o', name: 'Frankfurt', address: 'Frankfurt, Germany', coordinates: [8.68, 50.11], type: 'city' },
+    destination: { id: 'd', name: 'Lisbon', address: 'Lisbon, Portugal', coordinates: [-9.14, 38.72], type: 'city' },
+  },
+  participants: { adults: 2, children: 1 },
+  transportation: [{
+    id: 't1',
+    type: 'flight',
+    provider: 'Lufthansa',
+    from: { id: 'fra', name: 'Frankfurt', address: 'Frankfurt Airport', coordinates: [8.57, 50.04], type: 'transport' },
+    to: { id: 'lis', name: 'Lisbon', address: 'Lisbon Airport', coordinates: [-9.13, 38.78], type: 'transport' },
+    departure: '2026-11-02T07:30:00.000Z',
+    arrival: '2026-11-02T10:45:00.000Z',
+    duration: 195,
+    bookingReference: 'ABC123',
+  }],
+  accommodations: [],
+  activities: [{
+    id: 'a1',
+    name: 'Tram 28',
+    category: 'sightseeing',
+    location: { id: 'l1', name: 'Martim Moniz', address: 'Praça Martim Moniz, Lisbon', coordinates: [-9.136, 38.716], type: 'activity' },
+    dateTime: '2026-11-03T10:00:00.000Z',
+    duration: 90,
+    description: 'Ride to Prazeres',
+  }],
+  dining: [],
+  budget: { total: 1800, currency: 'EUR', breakdown: { transportation: 600, accommodation: 900, activities: 200, dining: 100, other: 0 }, perPerson: 600 },
+  timeZone: 'Europe/Lisbon',
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+};
+
+describe('Trip import', () => {
+  it('reads back a JSON export of a trip', async () => {
+    const exported = await new TripExportService().exportTrip(tripData, { format: 'json' });
+    assert.equal(exported.success, true);
+
+    const plan = preview(importTripFiles([file(exported.filename, String(exported.data))]));
+    assert.equal(plan.title, 'Lisbon long weekend');
+    assert.equal(plan.startDate, '2026-11-02');
+    assert.equal(plan.endDate, '2026-11-05');
+    assert.equal(plan.travelers, 3);
+    assert.equal(plan.budget, 1800);
+    assert.equal(plan.origin?.name, 'Frankfurt');
+    assert.equal(plan.destination?.name, 'Lisbon');
+    assert.deepEqual(plan.sources, [{ fileName: exported.filename, format: 'json', items: 2 }]);
+
+    const [flight, activity] = plan.items;
+    assert.equal(flight.kind, 'flight');
+    assert.equal(flight.reference, 'ABC123');
+    assert.equal(flight.start, '2026-11-02T07:30Z');
+
+    // Activity times are wall-clock times at the destination
+    assert.equal(activity.kind, 'activity');
+    assert.equal(activity.start, '2026-11-03T10:00');
+    assert.equal(activity.end, '2026-11-03T11:30');
+    assert.equal(activity.notes, 'Ride to Prazeres');
+
+    // Importing the same export again yields the same items
+    const again = preview(importTripFiles([file('copy.json', String(exported.data))]));
+    assert.deepEqual(again.items.map(item => item.id), plan.items.map(item => item.id));
+  });
+
+  it('reads reservations from a quoted-printable multipart email', () => {
+    const data = readFileSync('tests/fixtures/import/lufthansa-hotel.eml');
+    const plan = preview(importTripFiles([{ fileName: 'confirmation.eml', data }]));
+
+    assert.equal(plan.items.length, 2);
+    const [flight, stay] = plan.items;
+    assert.equal(flight.kind, 'flight');
+    assert.equal(flight.title, 'LH1172 FRA → LIS');
+    assert.equal(flight.start, '2026-11-02T08:30+01:00');
+    assert.equal(flight.end, '2026-11-02T10:45+00:00');
+    assert.equal(flight.provider, 'Lufthansa');
+    assert.equal(flight.reference, 'ABC123');
+    assert.equal(flight.notes, 'Seat 14C');
+
+    assert.equal(stay.kind, 'lodging');
+    assert.equal(stay.title, 'Hotel Avenida Café');
+    assert.equal(stay.start, '2026-11-02T15:00');
+    assert.equal(stay.end, '2026-11-05T11:00');
+    assert.equal(stay.location?.address, 'Avenida da Liberdade 123, Lisbon, PT');
+    assert.equal(stay.location?.lat, 38.7197);
+
+    assert.equal(plan.startDate, '2026-11-02');
+    assert.equal(plan.endDate, '2026-11-05');
+    assert.equal(plan.travelers, 1);
+    assert.equal(plan.origin?.iataCode, 'FRA');
+    assert.equal(plan.destination?.iataCode, 'LIS');
+  });
+
+  it('skips a DOCTYPE internal subset without expanding its entities', () => {
+    const gpx = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE gpx [',
+      '  <!ENTITY xxe SYSTEM "file:///etc/passwd">',
+      '  <!ENTITY lol "lol">',
+      '  <!ELEMENT gpx ANY>',
+      '] >',
+      '<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">',
+      '  <metadata><name>Porto &amp; Douro</name></metadata>',
+      '  <wpt lat="41.1406" lon="-8.6110"><name>Ribeira &xxe;</name><type>Sight</type></wpt>',
+      '  <wpt lat="41.1579" lon="-8.6291"><name>Porto</name><type>city</type></wpt>',
+      '</gpx>',
+    ].join('\n');
+
+    const plan = preview(importTripFiles([file('porto.gpx', gpx)]));
+    assert.equal(plan.title, 'Porto & Douro');
+    assert.equal(plan.items.length, 1);
+    assert.equal(plan.items[0].title, 'Ribeira &xxe;');
+    assert.equal(plan.origin?.name, 'Porto');
+  });
+
+  it('rejects deeply nested XML as an invalid file', () => {
+    const depth = 100_000;
+    const gpx = `<gpx>${'<e>'.repeat(depth)}${'</e>'.repeat(depth)}</gpx>`;
+
+    const result = importTripFiles([file('deep.gpx', gpx)]);
+    assert.equal(result.status, 'invalid_file');
+    assert.match(result.status === 'invalid_file' ? result.message : '', /nested/);
+  });
+
+  it('finds placemarks in nested KML folders', () => {
+    const depth = 200;
+    const placemark = '<Placemark><name>Belém Tower</name><Point><coordinates>-9.2160,38.6916,0</coordinates></Point></Placemark>';
+    const kml = `<kml><Document><name>Lisbon</name>${'<Folder>'.repeat(depth)}${placemark}${'</Folder>'.repeat(depth)}</Document></kml>`;
+
+    assert.equal(findElements(parseXml(kml), 'Placemark').length, 1);
+    const plan = preview(importTripFiles([file('lisbon.kml', kml)]));
+    assert.deepEqual(plan.items.map(item => item.title), ['Belém Tower']);
+  });
+});